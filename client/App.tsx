@@ -13,6 +13,9 @@ import { ContactProvider } from "./contexts/ContactContext";
 import Index from "./pages/Index";
 import ContactsList from "./pages/ContactsList";
 import GroupChat from "./pages/GroupChat";
+import InviteRedeem from "./pages/InviteRedeem";
+import VerifyEmail from "./pages/VerifyEmail";
+import ResetPassword from "./pages/ResetPassword";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -24,17 +27,28 @@ const App = () => (
         <TranslationProvider>
           <ContactProvider>
             <TooltipProvider>
-            <Toaster />
-            <Sonner />
-            <BrowserRouter>
-              <Routes>
-                <Route path="/" element={<Index />} />
-                <Route path="/contacts" element={<ContactsList onSelectContact={() => {}} onCreateGroup={() => {}} onBack={() => {}} />} />
-                <Route path="/invite/:code" element={<Index />} />
-                {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-                <Route path="*" element={<NotFound />} />
-              </Routes>
-            </BrowserRouter>
+              <Toaster />
+              <Sonner />
+              <BrowserRouter>
+                <Routes>
+                  <Route path="/" element={<Index />} />
+                  <Route
+                    path="/contacts"
+                    element={
+                      <ContactsList
+                        onSelectContact={() => {}}
+                        onCreateGroup={() => {}}
+                        onBack={() => {}}
+                      />
+                    }
+                  />
+                  <Route path="/invite/:code" element={<InviteRedeem />} />
+                  <Route path="/verify-email" element={<VerifyEmail />} />
+                  <Route path="/reset-password" element={<ResetPassword />} />
+                  {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+              </BrowserRouter>
             </TooltipProvider>
           </ContactProvider>
         </TranslationProvider>
@@ -1,14 +1,9 @@
-import React, { useState } from 'react';
-import { motion } from 'framer-motion';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { 
-  X, 
-  Save, 
-  User, 
-  Edit2
-} from 'lucide-react';
+import React, { useState } from "react";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { X, Save, User, Edit2 } from "lucide-react";
 
 interface ContactRenameProps {
   contact: {
@@ -16,14 +11,24 @@ interface ContactRenameProps {
     email: string;
     username?: string;
     displayName?: string;
+    profileName?: string;
     avatar?: string;
   };
   onRename: (contactId: string, newName: string) => void;
   onClose: () => void;
 }
 
-export default function ContactRename({ contact, onRename, onClose }: ContactRenameProps) {
-  const [newName, setNewName] = useState(contact.displayName || contact.username || contact.email.split('@')[0]);
+export default function ContactRename({
+  contact,
+  onRename,
+  onClose,
+}: ContactRenameProps) {
+  const [newName, setNewName] = useState(
+    contact.displayName ||
+      contact.profileName ||
+      contact.username ||
+      contact.email.split("@")[0],
+  );
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -70,14 +75,24 @@ export default function ContactRename({ contact, onRename, onClose }: ContactRen
             {/* Contact Info */}
             <div className="flex items-center space-x-3 p-4 bg-white/5 rounded-[1.5rem] border border-white/10">
               <div className="w-12 h-12 bg-gradient-to-br from-purple-400 to-blue-500 rounded-[1.5rem] flex items-center justify-center text-white font-semibold text-lg border-2 border-white/20">
-                {contact.username?.charAt(0) || contact.email.charAt(0).toUpperCase()}
+                {(
+                  contact.displayName ||
+                  contact.profileName ||
+                  contact.username ||
+                  contact.email
+                )
+                  .charAt(0)
+                  .toUpperCase()}
               </div>
               <div className="flex-1 min-w-0">
                 <h3 className="text-white font-medium truncate">
-                  {contact.displayName || contact.username || contact.email}
+                  {contact.displayName ||
+                    contact.profileName ||
+                    contact.username ||
+                    contact.email}
                 </h3>
                 <p className="text-white/60 text-sm truncate">
-                  {contact.email}
+                  {contact.username ? `@${contact.username}` : contact.email}
                 </p>
               </div>
             </div>
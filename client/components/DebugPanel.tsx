@@ -1,50 +1,62 @@
-import React, { useState } from 'react';
-import { motion, AnimatePresence } from 'framer-motion';
-import { useSocket } from '../contexts/SocketContext';
-import { useEncryption } from '../contexts/EncryptionContext';
-import { Button } from '@/components/ui/button';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
-import { 
-  Bug, 
-  Shield, 
-  ShieldOff, 
-  Wifi, 
-  WifiOff, 
-  Key, 
-  Users, 
+import React, { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { useSocket } from "../contexts/SocketContext";
+import { useEncryption } from "../contexts/EncryptionContext";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Bug,
+  Shield,
+  ShieldOff,
+  Wifi,
+  WifiOff,
+  Key,
+  Users,
   MessageCircle,
   CheckCircle,
   XCircle,
   AlertTriangle,
   Eye,
-  EyeOff
-} from 'lucide-react';
+  EyeOff,
+} from "lucide-react";
 
 interface DebugPanelProps {
   onClose: () => void;
 }
 
 export default function DebugPanel({ onClose }: DebugPanelProps) {
-  const { isConnected, messages, keyExchangeComplete, partnerOnline } = useSocket();
+  const {
+    isConnected,
+    messages,
+    keyExchangeComplete,
+    partnerOnline,
+    resetEncryptionSession,
+    strictEncryption,
+    setStrictEncryption,
+    queuedMessageCount,
+  } = useSocket();
   const { keyPair, partnerPublicKey } = useEncryption();
 
-  const getStatusColor = (status: boolean) => status ? 'text-green-400' : 'text-red-400';
-  const getStatusIcon = (status: boolean) => status ? CheckCircle : XCircle;
+  const getStatusColor = (status: boolean) =>
+    status ? "text-green-400" : "text-red-400";
+  const getStatusIcon = (status: boolean) => (status ? CheckCircle : XCircle);
 
   const encryptionStatus = {
     hasOwnKeys: !!keyPair,
     hasPartnerKey: !!partnerPublicKey,
     keyExchangeComplete,
     isConnected,
-    partnerOnline
+    partnerOnline,
   };
 
   const messageStats = {
     total: messages.length,
-    encrypted: messages.filter(m => typeof m.content === 'object').length,
-    plainText: messages.filter(m => typeof m.content === 'string').length,
-    failed: messages.filter(m => m.content?.includes?.('[Encrypted message')).length
+    encrypted: messages.filter((m) => typeof m.content === "object").length,
+    plainText: messages.filter((m) => typeof m.content === "string").length,
+    failed: messages.filter((m) => m.content?.includes?.("[Encrypted message"))
+      .length,
   };
 
   return (
@@ -87,22 +99,29 @@ export default function DebugPanel({ onClose }: DebugPanelProps) {
                 <Wifi className="w-5 h-5" />
                 <span>Connection Status</span>
               </h3>
-              
+
               <div className="grid grid-cols-2 gap-3">
                 {Object.entries({
-                  'Socket Connected': encryptionStatus.isConnected,
-                  'Partner Online': encryptionStatus.partnerOnline,
-                  'Own Keys Generated': encryptionStatus.hasOwnKeys,
-                  'Partner Key Received': encryptionStatus.hasPartnerKey,
+                  "Socket Connected": encryptionStatus.isConnected,
+                  "Partner Online": encryptionStatus.partnerOnline,
+                  "Own Keys Generated": encryptionStatus.hasOwnKeys,
+                  "Partner Key Received": encryptionStatus.hasPartnerKey,
                 }).map(([label, status]) => {
                   const IconComponent = getStatusIcon(status);
                   return (
-                    <div key={label} className="bg-white/5 rounded-[1.5rem] p-3 flex items-center space-x-3">
-                      <IconComponent className={`w-5 h-5 ${getStatusColor(status)}`} />
+                    <div
+                      key={label}
+                      className="bg-white/5 rounded-[1.5rem] p-3 flex items-center space-x-3"
+                    >
+                      <IconComponent
+                        className={`w-5 h-5 ${getStatusColor(status)}`}
+                      />
                       <div>
-                        <p className="text-white text-sm font-medium">{label}</p>
+                        <p className="text-white text-sm font-medium">
+                          {label}
+                        </p>
                         <p className={`text-xs ${getStatusColor(status)}`}>
-                          {status ? 'Active' : 'Inactive'}
+                          {status ? "Active" : "Inactive"}
                         </p>
                       </div>
                     </div>
@@ -117,7 +136,7 @@ export default function DebugPanel({ onClose }: DebugPanelProps) {
                 <Shield className="w-5 h-5" />
                 <span>Encryption Status</span>
               </h3>
-              
+
               <div className="bg-white/5 rounded-[1.5rem] p-4">
                 <div className="flex items-center space-x-3 mb-3">
                   {keyExchangeComplete ? (
@@ -127,31 +146,64 @@ export default function DebugPanel({ onClose }: DebugPanelProps) {
                   )}
                   <div>
                     <p className="text-white font-medium">
-                      {keyExchangeComplete ? 'Encryption Ready' : 'Encryption Not Available'}
+                      {keyExchangeComplete
+                        ? "Encryption Ready"
+                        : "Encryption Not Available"}
                     </p>
                     <p className="text-white/60 text-sm">
-                      {keyExchangeComplete 
-                        ? 'Messages will be encrypted end-to-end'
-                        : 'Messages will be sent as plain text'
-                      }
+                      {keyExchangeComplete
+                        ? "Messages will be encrypted end-to-end"
+                        : strictEncryption
+                          ? "Messages will wait until encryption is ready"
+                          : "Messages will be sent as plain text"}
                     </p>
                   </div>
                 </div>
-                
+
                 <div className="grid grid-cols-2 gap-3 text-xs">
                   <div>
                     <p className="text-white/60">Own Keys:</p>
                     <p className={getStatusColor(encryptionStatus.hasOwnKeys)}>
-                      {encryptionStatus.hasOwnKeys ? 'Generated' : 'Missing'}
+                      {encryptionStatus.hasOwnKeys ? "Generated" : "Missing"}
                     </p>
                   </div>
                   <div>
                     <p className="text-white/60">Partner Key:</p>
-                    <p className={getStatusColor(encryptionStatus.hasPartnerKey)}>
-                      {encryptionStatus.hasPartnerKey ? 'Received' : 'Waiting'}
+                    <p
+                      className={getStatusColor(encryptionStatus.hasPartnerKey)}
+                    >
+                      {encryptionStatus.hasPartnerKey ? "Received" : "Waiting"}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="mt-3 flex items-center justify-between bg-white/5 rounded-[1rem] p-3">
+                  <div>
+                    <p className="text-white text-sm font-medium">
+                      Strict Encryption
+                    </p>
+                    <p className="text-white/60 text-xs">
+                      Never send or accept plain text
+                      {queuedMessageCount > 0 &&
+                        ` • ${queuedMessageCount} queued`}
                     </p>
                   </div>
+                  <Switch
+                    checked={strictEncryption}
+                    onCheckedChange={setStrictEncryption}
+                  />
                 </div>
+
+                {keyExchangeComplete && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => resetEncryptionSession()}
+                    className="mt-3 w-full text-white/80 hover:bg-white/10 rounded-xl"
+                  >
+                    Reset Session
+                  </Button>
+                )}
               </div>
             </div>
 
@@ -161,22 +213,30 @@ export default function DebugPanel({ onClose }: DebugPanelProps) {
                 <MessageCircle className="w-5 h-5" />
                 <span>Message Statistics</span>
               </h3>
-              
+
               <div className="grid grid-cols-2 gap-3">
                 <div className="bg-white/5 rounded-[1.5rem] p-3">
-                  <p className="text-white font-medium text-lg">{messageStats.total}</p>
+                  <p className="text-white font-medium text-lg">
+                    {messageStats.total}
+                  </p>
                   <p className="text-white/60 text-sm">Total Messages</p>
                 </div>
                 <div className="bg-white/5 rounded-[1.5rem] p-3">
-                  <p className="text-green-400 font-medium text-lg">{messageStats.plainText}</p>
+                  <p className="text-green-400 font-medium text-lg">
+                    {messageStats.plainText}
+                  </p>
                   <p className="text-white/60 text-sm">Plain Text</p>
                 </div>
                 <div className="bg-white/5 rounded-[1.5rem] p-3">
-                  <p className="text-blue-400 font-medium text-lg">{messageStats.encrypted}</p>
+                  <p className="text-blue-400 font-medium text-lg">
+                    {messageStats.encrypted}
+                  </p>
                   <p className="text-white/60 text-sm">Encrypted</p>
                 </div>
                 <div className="bg-white/5 rounded-[1.5rem] p-3">
-                  <p className="text-red-400 font-medium text-lg">{messageStats.failed}</p>
+                  <p className="text-red-400 font-medium text-lg">
+                    {messageStats.failed}
+                  </p>
                   <p className="text-white/60 text-sm">Failed Decrypt</p>
                 </div>
               </div>
@@ -189,20 +249,24 @@ export default function DebugPanel({ onClose }: DebugPanelProps) {
                   <Key className="w-5 h-5" />
                   <span>Key Information</span>
                 </h3>
-                
+
                 <div className="space-y-2">
                   {keyPair && (
                     <div className="bg-white/5 rounded-[1.5rem] p-3">
-                      <p className="text-white text-sm font-medium mb-1">Own Public Key</p>
+                      <p className="text-white text-sm font-medium mb-1">
+                        Own Public Key
+                      </p>
                       <p className="text-white/60 text-xs font-mono break-all">
                         {keyPair.publicKey.substring(0, 64)}...
                       </p>
                     </div>
                   )}
-                  
+
                   {partnerPublicKey && (
                     <div className="bg-white/5 rounded-[1.5rem] p-3">
-                      <p className="text-white text-sm font-medium mb-1">Partner Public Key</p>
+                      <p className="text-white text-sm font-medium mb-1">
+                        Partner Public Key
+                      </p>
                       <p className="text-white/60 text-xs font-mono break-all">
                         {partnerPublicKey.substring(0, 64)}...
                       </p>
@@ -215,35 +279,40 @@ export default function DebugPanel({ onClose }: DebugPanelProps) {
             {/* Recent Messages Preview */}
             {messages.length > 0 && (
               <div className="space-y-3">
-                <h3 className="text-white font-semibold text-lg">Recent Messages</h3>
+                <h3 className="text-white font-semibold text-lg">
+                  Recent Messages
+                </h3>
                 <div className="space-y-2 max-h-40 overflow-y-auto">
                   {messages.slice(-5).map((message, index) => (
-                    <div key={index} className="bg-white/5 rounded-[1.5rem] p-3 text-xs">
+                    <div
+                      key={index}
+                      className="bg-white/5 rounded-[1.5rem] p-3 text-xs"
+                    >
                       <div className="flex items-center space-x-2 mb-1">
-                        <Badge 
-                          variant="outline" 
+                        <Badge
+                          variant="outline"
                           className={`text-xs ${
-                            typeof message.content === 'object' 
-                              ? 'border-blue-400/50 text-blue-400' 
-                              : message.content?.includes?.('[Encrypted message')
-                                ? 'border-red-400/50 text-red-400'
-                                : 'border-green-400/50 text-green-400'
+                            typeof message.content === "object"
+                              ? "border-blue-400/50 text-blue-400"
+                              : message.content?.includes?.(
+                                    "[Encrypted message",
+                                  )
+                                ? "border-red-400/50 text-red-400"
+                                : "border-green-400/50 text-green-400"
                           }`}
                         >
-                          {typeof message.content === 'object' 
-                            ? 'Encrypted' 
-                            : message.content?.includes?.('[Encrypted message')
-                              ? 'Failed'
-                              : 'Plain'
-                          }
+                          {typeof message.content === "object"
+                            ? "Encrypted"
+                            : message.content?.includes?.("[Encrypted message")
+                              ? "Failed"
+                              : "Plain"}
                         </Badge>
                         <span className="text-white/60">{message.type}</span>
                       </div>
                       <p className="text-white/80 truncate">
-                        {typeof message.content === 'string' 
-                          ? message.content 
-                          : '[Encrypted Object]'
-                        }
+                        {typeof message.content === "string"
+                          ? message.content
+                          : "[Encrypted Object]"}
                       </p>
                     </div>
                   ))}
@@ -257,24 +326,42 @@ export default function DebugPanel({ onClose }: DebugPanelProps) {
                 <AlertTriangle className="w-5 h-5" />
                 <span>Troubleshooting</span>
               </h3>
-              
+
               <div className="bg-yellow-500/10 border border-yellow-400/50 rounded-[1.5rem] p-4">
                 <div className="space-y-2 text-sm">
                   {!encryptionStatus.isConnected && (
-                    <p className="text-yellow-400">• Socket not connected - running in fallback mode</p>
+                    <p className="text-yellow-400">
+                      • Socket not connected - running in fallback mode
+                    </p>
                   )}
                   {!encryptionStatus.hasOwnKeys && (
-                    <p className="text-yellow-400">• Own encryption keys not generated</p>
+                    <p className="text-yellow-400">
+                      • Own encryption keys not generated
+                    </p>
                   )}
                   {!encryptionStatus.hasPartnerKey && (
-                    <p className="text-yellow-400">• Waiting for partner's public key</p>
+                    <p className="text-yellow-400">
+                      • Waiting for partner's public key
+                    </p>
                   )}
-                  {messageStats.failed > 0 && (
-                    <p className="text-yellow-400">• {messageStats.failed} messages failed to decrypt</p>
+                  {queuedMessageCount > 0 && (
+                    <p className="text-yellow-400">
+                      • {queuedMessageCount} messages waiting for an encryption
+                      session
+                    </p>
                   )}
-                  {encryptionStatus.isConnected && encryptionStatus.hasOwnKeys && encryptionStatus.hasPartnerKey && (
-                    <p className="text-green-400">• All systems operational ✓</p>
+                  {messageStats.failed > 0 && (
+                    <p className="text-yellow-400">
+                      • {messageStats.failed} messages failed to decrypt
+                    </p>
                   )}
+                  {encryptionStatus.isConnected &&
+                    encryptionStatus.hasOwnKeys &&
+                    encryptionStatus.hasPartnerKey && (
+                      <p className="text-green-400">
+                        • All systems operational ✓
+                      </p>
+                    )}
                 </div>
               </div>
             </div>
@@ -0,0 +1,52 @@
+import React from "react";
+import { motion } from "framer-motion";
+import { ChatMessage } from "@shared/api";
+
+interface MessageReactionsProps {
+  message: ChatMessage;
+  userId?: string;
+  reactorName: (userId: string) => string;
+  onToggle: (emoji: string) => void;
+}
+
+/**
+ * One chip per emoji under a message, with how many reacted. Hovering shows
+ * who; clicking adds or takes back the user's own reaction.
+ */
+export default function MessageReactions({
+  message,
+  userId,
+  reactorName,
+  onToggle,
+}: MessageReactionsProps) {
+  const reactions = Object.entries(message.reactions ?? {});
+  if (reactions.length === 0) return null;
+
+  return (
+    <div className="mt-2 flex flex-wrap gap-1">
+      {reactions.map(([emoji, reactorIds], i) => {
+        const reacted = !!userId && reactorIds.includes(userId);
+        return (
+          <motion.button
+            key={emoji}
+            onClick={() => onToggle(emoji)}
+            className={`text-sm rounded-full px-2 py-1 flex items-center space-x-1 transition-colors ${
+              reacted
+                ? "bg-white/40 ring-1 ring-white/60"
+                : "bg-white/20 hover:bg-white/30"
+            }`}
+            title={reactorIds
+              .map((id) => (id === userId ? "You" : reactorName(id)))
+              .join(", ")}
+            initial={{ scale: 0 }}
+            animate={{ scale: 1 }}
+            transition={{ delay: i * 0.1 }}
+          >
+            <span>{emoji}</span>
+            <span className="text-white/80 text-xs">{reactorIds.length}</span>
+          </motion.button>
+        );
+      })}
+    </div>
+  );
+}
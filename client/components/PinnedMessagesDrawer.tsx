@@ -0,0 +1,105 @@
+import React from "react";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Pin, PinOff, X } from "lucide-react";
+import { PinnedMessage } from "../utils/pinnedMessages";
+
+interface PinnedMessagesDrawerProps {
+  pins: PinnedMessage[];
+  senderName: (userId: string) => string;
+  onJumpToMessage: (messageId: string) => void;
+  onUnpin?: (messageId: string) => void; // Only passed when the user may unpin
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: string) =>
+  new Date(timestamp).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+/**
+ * The conversation's pinned messages, newest pin first
+ */
+export default function PinnedMessagesDrawer({
+  pins,
+  senderName,
+  onJumpToMessage,
+  onUnpin,
+  onClose,
+}: PinnedMessagesDrawerProps) {
+  return (
+    <motion.div
+      className="absolute inset-y-0 right-0 w-full sm:w-96 bg-black/40 backdrop-blur-xl border-l border-white/20 z-40 flex flex-col"
+      initial={{ x: "100%" }}
+      animate={{ x: 0 }}
+      exit={{ x: "100%" }}
+      transition={{ type: "spring", damping: 25 }}
+    >
+      <div className="flex items-center justify-between p-4 border-b border-white/20">
+        <div className="flex items-center space-x-2">
+          <Pin className="w-5 h-5 text-yellow-400" />
+          <h3 className="text-white font-semibold">Pinned Messages</h3>
+          <span className="text-white/60 text-sm">{pins.length}</span>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClose}
+          className="text-white/70 hover:text-white"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {pins.length === 0 && (
+          <p className="text-white/60 text-sm text-center mt-8">
+            Nothing pinned yet
+          </p>
+        )}
+
+        {pins.map((pin) => (
+          <div
+            key={pin.messageId}
+            className="p-3 bg-white/10 rounded-[1.5rem] border border-white/20"
+          >
+            <button
+              className="w-full text-left"
+              onClick={() => onJumpToMessage(pin.messageId)}
+              title="Go to message"
+            >
+              {pin.senderId && (
+                <span className="block text-white/80 text-xs font-medium">
+                  {senderName(pin.senderId)}
+                </span>
+              )}
+              <span className="block text-white text-sm break-words line-clamp-3">
+                {pin.preview ?? "Original message not available"}
+              </span>
+            </button>
+            <div className="flex items-center justify-between mt-2">
+              <span className="text-white/50 text-xs">
+                Pinned by {senderName(pin.pinnedBy)} ·{" "}
+                {formatDate(pin.pinnedAt)}
+              </span>
+              {onUnpin && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onUnpin(pin.messageId)}
+                  className="text-white/70 hover:text-white h-6 px-2"
+                  title="Unpin"
+                >
+                  <PinOff className="w-3 h-3" />
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
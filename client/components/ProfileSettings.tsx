@@ -1,18 +1,22 @@
-import React, { useState, useRef } from 'react';
-import { motion, AnimatePresence } from 'framer-motion';
-import { useContacts } from '../contexts/ContactContext';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { Alert, AlertDescription } from '@/components/ui/alert';
-import { 
-  X, 
-  Camera, 
-  User, 
-  Mail, 
-  Edit2, 
-  Save, 
+import React, { useState, useRef, useEffect } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { useContacts } from "../contexts/ContactContext";
+import { useAuth } from "../contexts/AuthContext";
+import { Session } from "@shared/api";
+import TwoFactorSettings from "./TwoFactorSettings";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  X,
+  Camera,
+  User,
+  Mail,
+  Edit2,
+  Save,
   Upload,
   RefreshCw,
   Copy,
@@ -22,66 +26,218 @@ import {
   Key,
   Smartphone,
   Monitor,
-  Palette
-} from 'lucide-react';
+  Palette,
+  LogOut,
+  Download,
+  Trash2,
+  Loader2,
+  CheckCheck,
+} from "lucide-react";
 
 interface ProfileSettingsProps {
   onClose: () => void;
 }
 
 export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
-  const { 
-    userProfile, 
-    updateUserProfile, 
-    uploadProfilePicture, 
+  const {
+    userProfile,
+    updateUserProfile,
+    checkHandleAvailability,
+    uploadProfilePicture,
     currentInviteCode,
     forceRefreshInviteCode,
-    isLoading, 
-    error 
+    isLoading,
+    error,
   } = useContacts();
 
   const [editingUsername, setEditingUsername] = useState(false);
-  const [newUsername, setNewUsername] = useState(userProfile?.username || '');
+  const [newUsername, setNewUsername] = useState(userProfile?.username || "");
+  const [handleHint, setHandleHint] = useState<{
+    available: boolean;
+    text: string;
+  } | null>(null);
+  const [editingDisplayName, setEditingDisplayName] = useState(false);
+  const [newDisplayName, setNewDisplayName] = useState(
+    userProfile?.displayName || "",
+  );
   const [copiedCode, setCopiedCode] = useState(false);
-  const [successMessage, setSuccessMessage] = useState('');
+  const [successMessage, setSuccessMessage] = useState("");
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const {
+    user,
+    getSessions,
+    revokeSession,
+    revokeOtherSessions,
+    exportAccountData,
+    deleteAccount,
+    getTwoFactorStatus,
+  } = useAuth();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [deletePassword, setDeletePassword] = useState("");
+  const [deleteCode, setDeleteCode] = useState("");
+  const [deleteNeedsCode, setDeleteNeedsCode] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [accountError, setAccountError] = useState("");
+
+  const loadSessions = async () => {
+    setSessions(await getSessions());
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const handleRevokeSession = async (sessionId: string) => {
+    if (await revokeSession(sessionId)) {
+      setSessions((prev) =>
+        prev.filter((session) => session.sessionId !== sessionId),
+      );
+    }
+  };
+
+  const handleRevokeOtherSessions = async () => {
+    if (await revokeOtherSessions()) {
+      setSessions((prev) => prev.filter((session) => session.isCurrent));
+      setSuccessMessage("Signed out of all other devices");
+      setTimeout(() => setSuccessMessage(""), 3000);
+    }
+  };
+
+  // Save the server's copy of the account as a JSON file
+  const handleExportData = async () => {
+    setIsExporting(true);
+    setAccountError("");
+    const data = await exportAccountData();
+    setIsExporting(false);
+
+    if (!data.success || !data.export) {
+      setAccountError(data.message || "Failed to export your data");
+      return;
+    }
+    const blob = new Blob([JSON.stringify(data.export, null, 2)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `securechat-export-${data.export.exportedAt.slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const startDeleteAccount = async () => {
+    setConfirmingDelete(true);
+    setAccountError("");
+    const status = await getTwoFactorStatus();
+    setDeleteNeedsCode(!!status.enabled);
+  };
+
+  const cancelDeleteAccount = () => {
+    setConfirmingDelete(false);
+    setDeletePassword("");
+    setDeleteCode("");
+    setAccountError("");
+  };
 
-  const handleUsernameUpdate = () => {
-    if (newUsername.trim() !== userProfile?.username) {
-      updateUserProfile({ username: newUsername.trim() });
-      setSuccessMessage('Username updated successfully!');
-      setTimeout(() => setSuccessMessage(''), 3000);
+  // Signs out on success, which closes this dialog along with the app
+  const handleDeleteAccount = async () => {
+    setIsDeleting(true);
+    setAccountError("");
+    const result = await deleteAccount(
+      deletePassword,
+      deleteNeedsCode ? deleteCode.trim() : undefined,
+    );
+    setIsDeleting(false);
+    if (!result.success) {
+      setAccountError(result.message || "Failed to delete account");
+    }
+  };
+
+  // The device ID is only a random label, so describe sessions by browser
+  const describeSession = (session: Session) => {
+    const agent = session.userAgent || "";
+    const browser = ["Edg", "Firefox", "Chrome", "Safari"].find((name) =>
+      agent.includes(name),
+    );
+    return browser ? (browser === "Edg" ? "Edge" : browser) : "Unknown browser";
+  };
+
+  const isMobileSession = (session: Session) =>
+    /Mobi|Android|iPhone|iPad/.test(session.userAgent || "");
+
+  // Say whether the handle is free once typing pauses
+  useEffect(() => {
+    const handle = newUsername.trim().replace(/^@/, "").toLowerCase();
+    if (!editingUsername || !handle || handle === userProfile?.username) {
+      setHandleHint(null);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      const data = await checkHandleAvailability(handle);
+      if (data.success) {
+        setHandleHint(
+          data.available
+            ? { available: true, text: `@${handle} is available` }
+            : { available: false, text: data.reason || "That handle is taken" },
+        );
+      }
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [newUsername, editingUsername]);
+
+  const handleUsernameUpdate = async () => {
+    const handle = newUsername.trim().replace(/^@/, "");
+    if (handle.toLowerCase() !== userProfile?.username) {
+      if (!(await updateUserProfile({ username: handle }))) return;
+      setSuccessMessage("Handle updated successfully!");
+      setTimeout(() => setSuccessMessage(""), 3000);
     }
     setEditingUsername(false);
   };
 
-  const handleProfilePictureUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleDisplayNameUpdate = async () => {
+    const displayName = newDisplayName.trim();
+    if (displayName !== (userProfile?.displayName || "")) {
+      if (!(await updateUserProfile({ displayName: displayName || null })))
+        return;
+      setSuccessMessage("Display name updated successfully!");
+      setTimeout(() => setSuccessMessage(""), 3000);
+    }
+    setEditingDisplayName(false);
+  };
+
+  const handleProfilePictureUpload = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
     const file = event.target.files?.[0];
     if (file) {
       const result = await uploadProfilePicture(file);
       if (result) {
-        setSuccessMessage('Profile picture updated successfully!');
-        setTimeout(() => setSuccessMessage(''), 3000);
+        setSuccessMessage("Profile picture updated successfully!");
+        setTimeout(() => setSuccessMessage(""), 3000);
       }
     }
   };
 
   const copyInviteCode = async () => {
     if (!currentInviteCode) return;
-    
+
     try {
       await navigator.clipboard.writeText(currentInviteCode.code);
       setCopiedCode(true);
       setTimeout(() => setCopiedCode(false), 2000);
     } catch (error) {
-      console.error('Failed to copy code:', error);
+      console.error("Failed to copy code:", error);
     }
   };
 
   const handleRefreshCode = () => {
     forceRefreshInviteCode();
-    setSuccessMessage('Invite code refreshed!');
-    setTimeout(() => setSuccessMessage(''), 3000);
+    setSuccessMessage("Invite code refreshed!");
+    setTimeout(() => setSuccessMessage(""), 3000);
   };
 
   return (
@@ -127,11 +283,13 @@ export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
                   animate={{ opacity: 1, y: 0 }}
                   exit={{ opacity: 0, y: -10 }}
                 >
-                  <Alert className={`${
-                    successMessage 
-                      ? 'bg-green-500/20 border-green-400/50 text-green-300' 
-                      : 'bg-red-500/20 border-red-400/50 text-red-300'
-                  } backdrop-blur-sm rounded-[1.5rem]`}>
+                  <Alert
+                    className={`${
+                      successMessage
+                        ? "bg-green-500/20 border-green-400/50 text-green-300"
+                        : "bg-red-500/20 border-red-400/50 text-red-300"
+                    } backdrop-blur-sm rounded-[1.5rem]`}
+                  >
                     <AlertDescription>
                       {successMessage || error}
                     </AlertDescription>
@@ -141,7 +299,7 @@ export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
             </AnimatePresence>
 
             {/* Profile Picture */}
-            <motion.div 
+            <motion.div
               className="flex flex-col items-center space-y-4"
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
@@ -151,10 +309,16 @@ export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
                 <Avatar className="w-24 h-24 border-4 border-white/20">
                   <AvatarImage src={userProfile?.avatar} />
                   <AvatarFallback className="bg-gradient-to-br from-purple-400 to-blue-500 text-white text-2xl font-bold">
-                    {userProfile?.username?.charAt(0) || userProfile?.email.charAt(0).toUpperCase()}
+                    {(
+                      userProfile?.displayName ||
+                      userProfile?.username ||
+                      userProfile?.email
+                    )
+                      ?.charAt(0)
+                      .toUpperCase()}
                   </AvatarFallback>
                 </Avatar>
-                
+
                 <motion.button
                   onClick={() => fileInputRef.current?.click()}
                   className="absolute -bottom-2 -right-2 w-8 h-8 bg-blue-500 hover:bg-blue-600 rounded-full flex items-center justify-center text-white shadow-lg"
@@ -164,7 +328,7 @@ export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
                 >
                   <Camera className="w-4 h-4" />
                 </motion.button>
-                
+
                 <input
                   ref={fileInputRef}
                   type="file"
@@ -173,21 +337,23 @@ export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
                   className="hidden"
                 />
               </div>
-              
+
               <p className="text-white/70 text-sm text-center">
                 Click the camera icon to update your profile picture
               </p>
             </motion.div>
 
             {/* Profile Information */}
-            <motion.div 
+            <motion.div
               className="space-y-4"
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
               transition={{ delay: 0.2 }}
             >
-              <h3 className="text-white font-semibold text-lg">Profile Information</h3>
-              
+              <h3 className="text-white font-semibold text-lg">
+                Profile Information
+              </h3>
+
               {/* Email (read-only) */}
               <div className="space-y-2">
                 <label className="text-white/70 text-sm font-medium flex items-center space-x-2">
@@ -199,20 +365,74 @@ export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
                 </div>
               </div>
 
-              {/* Username (editable) */}
+              {/* Display name (editable) */}
+              <div className="space-y-2">
+                <label className="text-white/70 text-sm font-medium flex items-center space-x-2">
+                  <User className="w-4 h-4" />
+                  <span>Display Name</span>
+                </label>
+
+                {editingDisplayName ? (
+                  <div className="flex space-x-2">
+                    <Input
+                      value={newDisplayName}
+                      onChange={(e) => setNewDisplayName(e.target.value)}
+                      className="bg-white/10 border-white/20 text-white placeholder:text-white/60 rounded-[1.5rem] flex-1"
+                      placeholder="How your name shows to others"
+                      maxLength={50}
+                      autoFocus
+                    />
+                    <Button
+                      onClick={handleDisplayNameUpdate}
+                      size="sm"
+                      className="bg-green-500 hover:bg-green-600 text-white rounded-[1.5rem]"
+                    >
+                      <Save className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      onClick={() => {
+                        setEditingDisplayName(false);
+                        setNewDisplayName(userProfile?.displayName || "");
+                      }}
+                      size="sm"
+                      variant="outline"
+                      className="border-white/20 text-white hover:bg-white/10 rounded-[1.5rem]"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <div
+                    className="bg-white/10 border border-white/20 rounded-[1.5rem] px-4 py-3 text-white flex items-center justify-between cursor-pointer hover:bg-white/15 transition-all duration-200"
+                    onClick={() => setEditingDisplayName(true)}
+                  >
+                    <span
+                      className={
+                        userProfile?.displayName ? "" : "text-white/50"
+                      }
+                    >
+                      {userProfile?.displayName || "Add a display name"}
+                    </span>
+                    <Edit2 className="w-4 h-4 text-white/60" />
+                  </div>
+                )}
+              </div>
+
+              {/* Handle (editable) */}
               <div className="space-y-2">
                 <label className="text-white/70 text-sm font-medium flex items-center space-x-2">
                   <User className="w-4 h-4" />
-                  <span>Username</span>
+                  <span>Handle</span>
                 </label>
-                
+
                 {editingUsername ? (
                   <div className="flex space-x-2">
                     <Input
                       value={newUsername}
                       onChange={(e) => setNewUsername(e.target.value)}
                       className="bg-white/10 border-white/20 text-white placeholder:text-white/60 rounded-[1.5rem] flex-1"
-                      placeholder="Enter username"
+                      placeholder="Letters, numbers and underscores"
+                      maxLength={21}
                       autoFocus
                     />
                     <Button
@@ -226,7 +446,7 @@ export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
                     <Button
                       onClick={() => {
                         setEditingUsername(false);
-                        setNewUsername(userProfile?.username || '');
+                        setNewUsername(userProfile?.username || "");
                       }}
                       size="sm"
                       variant="outline"
@@ -236,19 +456,32 @@ export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
                     </Button>
                   </div>
                 ) : (
-                  <div 
+                  <div
                     className="bg-white/10 border border-white/20 rounded-[1.5rem] px-4 py-3 text-white flex items-center justify-between cursor-pointer hover:bg-white/15 transition-all duration-200"
                     onClick={() => setEditingUsername(true)}
                   >
-                    <span>{userProfile?.username}</span>
+                    <span
+                      className={userProfile?.username ? "" : "text-white/50"}
+                    >
+                      {userProfile?.username
+                        ? `@${userProfile.username}`
+                        : "Choose a handle so people can find you"}
+                    </span>
                     <Edit2 className="w-4 h-4 text-white/60" />
                   </div>
                 )}
+                {editingUsername && handleHint && (
+                  <p
+                    className={`text-xs px-4 ${handleHint.available ? "text-green-300" : "text-amber-300"}`}
+                  >
+                    {handleHint.text}
+                  </p>
+                )}
               </div>
             </motion.div>
 
             {/* Invite Code Section */}
-            <motion.div 
+            <motion.div
               className="space-y-4"
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
@@ -258,17 +491,17 @@ export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
                 <Key className="w-5 h-5" />
                 <span>Your Invite Code</span>
               </h3>
-              
+
               <div className="bg-white/5 border border-white/20 rounded-[1.5rem] p-4">
                 <div className="text-center mb-4">
                   <div className="text-2xl font-bold text-white tracking-wider mb-2">
-                    {currentInviteCode?.code || 'LOADING...'}
+                    {currentInviteCode?.code || "LOADING..."}
                   </div>
                   <p className="text-white/60 text-sm">
                     Share this code with friends to connect
                   </p>
                 </div>
-                
+
                 <div className="flex space-x-2">
                   <Button
                     onClick={copyInviteCode}
@@ -288,7 +521,7 @@ export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
                       </>
                     )}
                   </Button>
-                  
+
                   <Button
                     onClick={handleRefreshCode}
                     className="bg-blue-500 hover:bg-blue-600 text-white"
@@ -298,15 +531,16 @@ export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
                     Refresh
                   </Button>
                 </div>
-                
+
                 <p className="text-white/50 text-xs mt-3 text-center">
-                  Codes refresh automatically every 24 hours or instantly with the refresh button
+                  Codes refresh automatically every 24 hours or instantly with
+                  the refresh button
                 </p>
               </div>
             </motion.div>
 
             {/* Security Info */}
-            <motion.div 
+            <motion.div
               className="space-y-4"
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
@@ -316,32 +550,223 @@ export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
                 <Shield className="w-5 h-5" />
                 <span>Security</span>
               </h3>
-              
+
               <div className="grid grid-cols-1 gap-3">
                 <div className="bg-white/5 border border-white/20 rounded-[1.5rem] p-3 flex items-center space-x-3">
                   <div className="w-8 h-8 bg-green-500/20 rounded-lg flex items-center justify-center">
                     <Shield className="w-4 h-4 text-green-400" />
                   </div>
                   <div>
-                    <p className="text-white text-sm font-medium">End-to-End Encryption</p>
-                    <p className="text-white/60 text-xs">All messages are encrypted</p>
+                    <p className="text-white text-sm font-medium">
+                      End-to-End Encryption
+                    </p>
+                    <p className="text-white/60 text-xs">
+                      All messages are encrypted
+                    </p>
                   </div>
                 </div>
-                
+
                 <div className="bg-white/5 border border-white/20 rounded-[1.5rem] p-3 flex items-center space-x-3">
                   <div className="w-8 h-8 bg-blue-500/20 rounded-lg flex items-center justify-center">
                     <Key className="w-4 h-4 text-blue-400" />
                   </div>
                   <div>
-                    <p className="text-white text-sm font-medium">Secure Key Exchange</p>
-                    <p className="text-white/60 text-xs">RSA 2048-bit encryption</p>
+                    <p className="text-white text-sm font-medium">
+                      Secure Key Exchange
+                    </p>
+                    <p className="text-white/60 text-xs">
+                      RSA 2048-bit encryption
+                    </p>
                   </div>
                 </div>
+
+                <div className="bg-white/5 border border-white/20 rounded-[1.5rem] p-3 flex items-center space-x-3">
+                  <div className="w-8 h-8 bg-purple-500/20 rounded-lg flex items-center justify-center">
+                    <CheckCheck className="w-4 h-4 text-purple-400" />
+                  </div>
+                  <div className="flex-1">
+                    <p className="text-white text-sm font-medium">
+                      Read Receipts
+                    </p>
+                    <p className="text-white/60 text-xs">
+                      Let contacts see when you've read their messages
+                    </p>
+                  </div>
+                  <Switch
+                    checked={user?.readReceipts !== false}
+                    onCheckedChange={(readReceipts) =>
+                      updateUserProfile({ readReceipts })
+                    }
+                  />
+                </div>
+
+                <TwoFactorSettings />
               </div>
             </motion.div>
 
+            {/* Active Sessions */}
+            <motion.div
+              className="space-y-4"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.45 }}
+            >
+              <h3 className="text-white font-semibold text-lg flex items-center space-x-2">
+                <Monitor className="w-5 h-5" />
+                <span>Active Sessions</span>
+              </h3>
+
+              <div className="grid grid-cols-1 gap-3">
+                {sessions.map((session) => (
+                  <div
+                    key={session.sessionId}
+                    className="bg-white/5 border border-white/20 rounded-[1.5rem] p-3 flex items-center space-x-3"
+                  >
+                    <div className="w-8 h-8 bg-purple-500/20 rounded-lg flex items-center justify-center">
+                      {isMobileSession(session) ? (
+                        <Smartphone className="w-4 h-4 text-purple-300" />
+                      ) : (
+                        <Monitor className="w-4 h-4 text-purple-300" />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-white text-sm font-medium truncate">
+                        {describeSession(session)}
+                        {session.isCurrent && (
+                          <span className="text-green-400 ml-2">
+                            This device
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-white/60 text-xs truncate">
+                        Last active{" "}
+                        {new Date(session.lastActive).toLocaleString()}
+                        {session.ipAddress && ` · ${session.ipAddress}`}
+                      </p>
+                    </div>
+                    {!session.isCurrent && (
+                      <Button
+                        onClick={() => handleRevokeSession(session.sessionId)}
+                        size="sm"
+                        variant="outline"
+                        className="bg-white/10 hover:bg-red-500/30 text-white border border-white/20"
+                      >
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {sessions.length > 1 && (
+                <Button
+                  onClick={handleRevokeOtherSessions}
+                  variant="outline"
+                  className="w-full bg-white/10 hover:bg-red-500/30 text-white border border-white/20"
+                >
+                  <LogOut className="w-4 h-4 mr-2" />
+                  Sign out other devices
+                </Button>
+              )}
+            </motion.div>
+
+            {/* Your Data */}
+            <motion.div
+              className="space-y-4"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.48 }}
+            >
+              <h3 className="text-white font-semibold text-lg flex items-center space-x-2">
+                <Key className="w-5 h-5" />
+                <span>Your Data</span>
+              </h3>
+
+              {accountError && (
+                <Alert className="bg-red-500/20 border-red-400/50 text-red-300">
+                  <AlertDescription>{accountError}</AlertDescription>
+                </Alert>
+              )}
+
+              <Button
+                onClick={handleExportData}
+                disabled={isExporting}
+                variant="outline"
+                className="w-full bg-white/10 hover:bg-white/20 text-white border border-white/20"
+              >
+                {isExporting ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Download className="w-4 h-4 mr-2" />
+                )}
+                Download my data
+              </Button>
+
+              {confirmingDelete ? (
+                <div className="bg-red-500/10 border border-red-400/40 rounded-[1.5rem] p-4 space-y-3">
+                  <p className="text-white text-sm">
+                    This deletes your account, connections, invites and any
+                    messages waiting to be delivered. It can't be undone.
+                  </p>
+                  <Input
+                    type="password"
+                    autoComplete="current-password"
+                    placeholder="Password"
+                    value={deletePassword}
+                    onChange={(e) => setDeletePassword(e.target.value)}
+                    className="bg-white/10 border-white/20 text-white placeholder:text-white/60"
+                    disabled={isDeleting}
+                  />
+                  {deleteNeedsCode && (
+                    <Input
+                      type="text"
+                      autoComplete="one-time-code"
+                      placeholder="Authentication or recovery code"
+                      value={deleteCode}
+                      onChange={(e) => setDeleteCode(e.target.value)}
+                      className="bg-white/10 border-white/20 text-white placeholder:text-white/60"
+                      disabled={isDeleting}
+                    />
+                  )}
+                  <div className="flex space-x-2">
+                    <Button
+                      onClick={cancelDeleteAccount}
+                      variant="outline"
+                      className="flex-1 bg-white/10 hover:bg-white/20 text-white border border-white/20"
+                      disabled={isDeleting}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      onClick={handleDeleteAccount}
+                      className="flex-1 bg-red-500 hover:bg-red-600 text-white"
+                      disabled={
+                        isDeleting ||
+                        !deletePassword ||
+                        (deleteNeedsCode && !deleteCode.trim())
+                      }
+                    >
+                      {isDeleting && (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      )}
+                      Delete forever
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <Button
+                  onClick={startDeleteAccount}
+                  variant="outline"
+                  className="w-full bg-white/10 hover:bg-red-500/30 text-white border border-white/20"
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete account
+                </Button>
+              )}
+            </motion.div>
+
             {/* Action Buttons */}
-            <motion.div 
+            <motion.div
               className="flex justify-end space-x-3 pt-4"
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
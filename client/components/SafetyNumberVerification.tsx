@@ -0,0 +1,239 @@
+import React, { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import QRCode from "qrcode";
+import { useAuth } from "../contexts/AuthContext";
+import { useEncryption } from "../contexts/EncryptionContext";
+import { useContacts } from "../contexts/ContactContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  ShieldCheck,
+  ShieldAlert,
+  CheckCircle,
+  XCircle,
+  X,
+} from "lucide-react";
+import {
+  computeSafetyNumber,
+  formatSafetyNumber,
+  safetyNumberQrPayload,
+  matchesSafetyNumber,
+} from "../utils/safetyNumber";
+
+interface SafetyNumberVerificationProps {
+  partner: { id: string; email: string };
+  onClose: () => void;
+}
+
+export default function SafetyNumberVerification({
+  partner,
+  onClose,
+}: SafetyNumberVerificationProps) {
+  const { user } = useAuth();
+  const { keyPair, partnerPublicKey, partnerId } = useEncryption();
+  const { contacts, markContactVerified, clearContactVerification } =
+    useContacts();
+
+  const [safetyNumber, setSafetyNumber] = useState<string | null>(null);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [comparison, setComparison] = useState("");
+
+  // The encryption context holds the key of the currently paired partner only
+  const partnerKey = partnerId === partner.id ? partnerPublicKey : null;
+  const contact = contacts.find((c) => c.id === partner.id);
+  const isVerified = !!contact?.verified && contact.verifiedKey === partnerKey;
+
+  useEffect(() => {
+    setSafetyNumber(null);
+    setQrDataUrl(null);
+    if (!user || !keyPair?.publicKey || !partnerKey) return;
+
+    let cancelled = false;
+    const compute = async () => {
+      try {
+        const number = await computeSafetyNumber(
+          user.id,
+          keyPair.publicKey,
+          partner.id,
+          partnerKey,
+        );
+        const qr = await QRCode.toDataURL(safetyNumberQrPayload(number), {
+          margin: 1,
+          width: 220,
+        });
+        if (!cancelled) {
+          setSafetyNumber(number);
+          setQrDataUrl(qr);
+        }
+      } catch (error) {
+        console.error("Failed to compute safety number:", error);
+      }
+    };
+    compute();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, keyPair, partner.id, partnerKey]);
+
+  const comparisonResult =
+    comparison.trim() && safetyNumber
+      ? matchesSafetyNumber(comparison, safetyNumber)
+      : null;
+
+  const handleToggleVerified = () => {
+    if (!partnerKey) return;
+
+    if (isVerified) {
+      clearContactVerification(partner.id);
+    } else {
+      markContactVerified(partner, partnerKey);
+    }
+  };
+
+  return (
+    <motion.div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+    >
+      <motion.div
+        className="w-full max-w-md max-h-[90vh] overflow-hidden"
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: 20 }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <Card className="bg-white/10 backdrop-blur-xl border-white/20 shadow-2xl rounded-3xl">
+          <CardHeader className="pb-4">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-white flex items-center space-x-2">
+                <ShieldCheck className="w-5 h-5" />
+                <span>Verify Safety Number</span>
+              </CardTitle>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onClose}
+                className="text-white hover:bg-white/10 rounded-xl"
+              >
+                <X className="w-5 h-5" />
+              </Button>
+            </div>
+          </CardHeader>
+
+          <CardContent className="space-y-5 max-h-[70vh] overflow-y-auto">
+            {!partnerKey ? (
+              <div className="bg-yellow-500/10 border border-yellow-400/50 rounded-[1.5rem] p-4 text-yellow-400 text-sm">
+                Waiting for {partner.email}'s identity key. Open this again once
+                you've connected.
+              </div>
+            ) : !safetyNumber ? (
+              <p className="text-white/60 text-sm text-center">
+                Computing safety number...
+              </p>
+            ) : (
+              <>
+                <p className="text-white/70 text-sm">
+                  Compare these numbers with {partner.email} in person or over a
+                  trusted channel, or scan each other's code. If they match,
+                  nobody has swapped your keys.
+                </p>
+
+                <div className="flex items-center justify-between">
+                  <span className="text-white font-medium">
+                    {partner.email}
+                  </span>
+                  <Badge
+                    variant="outline"
+                    className={
+                      isVerified
+                        ? "border-green-400/50 text-green-400"
+                        : "border-white/30 text-white/60"
+                    }
+                  >
+                    {isVerified ? "Verified" : "Not verified"}
+                  </Badge>
+                </div>
+
+                <div className="grid grid-cols-4 gap-2 bg-white/5 rounded-[1.5rem] p-4">
+                  {formatSafetyNumber(safetyNumber).map((block, index) => (
+                    <span
+                      key={index}
+                      className="text-white font-mono text-center tracking-wider"
+                    >
+                      {block}
+                    </span>
+                  ))}
+                </div>
+
+                {qrDataUrl && (
+                  <div className="flex justify-center">
+                    <img
+                      src={qrDataUrl}
+                      alt="Safety number QR code"
+                      className="rounded-[1rem] bg-white p-2"
+                    />
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <p className="text-white/60 text-xs">
+                    Paste a scanned code or the number your contact reads out:
+                  </p>
+                  <Input
+                    value={comparison}
+                    onChange={(e) => setComparison(e.target.value)}
+                    placeholder="bpw-verify:1:... or 12345 67890 ..."
+                    className="bg-white/10 border-white/20 text-white placeholder:text-white/40 rounded-[1rem]"
+                  />
+                  {comparisonResult !== null && (
+                    <p
+                      className={`text-sm flex items-center space-x-2 ${comparisonResult ? "text-green-400" : "text-red-400"}`}
+                    >
+                      {comparisonResult ? (
+                        <CheckCircle className="w-4 h-4" />
+                      ) : (
+                        <XCircle className="w-4 h-4" />
+                      )}
+                      <span>
+                        {comparisonResult
+                          ? "Safety numbers match"
+                          : "Safety numbers do not match"}
+                      </span>
+                    </p>
+                  )}
+                </div>
+
+                <Button
+                  onClick={handleToggleVerified}
+                  className={`w-full rounded-xl ${
+                    isVerified
+                      ? "bg-white/10 hover:bg-white/20 text-white"
+                      : "bg-green-500/80 hover:bg-green-500 text-white"
+                  }`}
+                >
+                  {isVerified ? (
+                    <>
+                      <ShieldAlert className="w-4 h-4 mr-2" />
+                      Clear verification
+                    </>
+                  ) : (
+                    <>
+                      <ShieldCheck className="w-4 h-4 mr-2" />
+                      Mark as verified
+                    </>
+                  )}
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,111 @@
+import React, { useState } from "react";
+import { motion } from "framer-motion";
+import { ChatMessage } from "@shared/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MessagesSquare, Send, X } from "lucide-react";
+import MessageBubble from "./MessageBubble";
+
+interface ThreadViewProps {
+  root: ChatMessage;
+  replies: ChatMessage[];
+  userId?: string;
+  senderName: (userId: string) => string;
+  onReply: (text: string) => void; // Sent as a reply to the root
+  onJumpToMessage: (messageId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * A message and every reply that leads back to it, in a side panel
+ */
+export default function ThreadView({
+  root,
+  replies,
+  userId,
+  senderName,
+  onReply,
+  onJumpToMessage,
+  onClose,
+}: ThreadViewProps) {
+  const [text, setText] = useState("");
+
+  const send = () => {
+    if (!text.trim()) return;
+    onReply(text);
+    setText("");
+  };
+
+  return (
+    <motion.div
+      className="absolute inset-y-0 right-0 w-full sm:w-96 bg-black/40 backdrop-blur-xl border-l border-white/20 z-40 flex flex-col"
+      initial={{ x: "100%" }}
+      animate={{ x: 0 }}
+      exit={{ x: "100%" }}
+      transition={{ type: "spring", damping: 25 }}
+    >
+      <div className="flex items-center justify-between p-4 border-b border-white/20">
+        <div className="flex items-center space-x-2">
+          <MessagesSquare className="w-5 h-5 text-white" />
+          <h3 className="text-white font-semibold">Thread</h3>
+          <span className="text-white/60 text-sm">
+            {replies.length} {replies.length === 1 ? "reply" : "replies"}
+          </span>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClose}
+          className="text-white/70 hover:text-white"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {[root, ...replies].map((message) => (
+          <div
+            key={message.id}
+            className={
+              message.id === root.id ? "pb-4 border-b border-white/10" : ""
+            }
+          >
+            <span className="block text-white/60 text-xs mb-1">
+              {message.senderId === userId
+                ? "You"
+                : senderName(message.senderId)}
+            </span>
+            <MessageBubble
+              message={message}
+              isOwn={message.senderId === userId}
+            />
+            <button
+              className="mt-1 text-white/50 hover:text-white/80 text-xs"
+              onClick={() => onJumpToMessage(message.id)}
+            >
+              Show in chat
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-4 border-t border-white/20 flex space-x-2">
+        <Input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              send();
+            }
+          }}
+          placeholder="Reply in thread..."
+          className="bg-white/10 border-white/20 text-white placeholder:text-white/50"
+        />
+        <Button onClick={send} disabled={!text.trim()}>
+          <Send className="w-4 h-4" />
+        </Button>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,288 @@
+import React, { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { useAuth } from "../contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ShieldCheck, ShieldAlert, Copy, Check } from "lucide-react";
+
+interface PendingSetup {
+  secret: string;
+  qrDataUrl: string | null;
+}
+
+/**
+ * Turn TOTP two-factor sign-in on and off, and manage recovery codes.
+ * Recovery codes come back from the server once, so they're only shown
+ * right after enabling or regenerating.
+ */
+export default function TwoFactorSettings() {
+  const {
+    getTwoFactorStatus,
+    beginTwoFactorSetup,
+    enableTwoFactor,
+    disableTwoFactor,
+    regenerateRecoveryCodes,
+  } = useAuth();
+
+  const [enabled, setEnabled] = useState(false);
+  const [recoveryCodesRemaining, setRecoveryCodesRemaining] = useState(0);
+  const [pendingSetup, setPendingSetup] = useState<PendingSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const loadStatus = async () => {
+    const status = await getTwoFactorStatus();
+    if (status.success) {
+      setEnabled(!!status.enabled);
+      setRecoveryCodesRemaining(status.recoveryCodesRemaining ?? 0);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  // Run an action that needs the code field, then clear it
+  const withCode = async (action: (code: string) => Promise<void>) => {
+    if (!code.trim()) {
+      setError("Enter a code from your authenticator app");
+      return;
+    }
+    setError("");
+    setIsBusy(true);
+    try {
+      await action(code.trim());
+    } finally {
+      setCode("");
+      setIsBusy(false);
+    }
+  };
+
+  const handleStartSetup = async () => {
+    setError("");
+    setIsBusy(true);
+    const result = await beginTwoFactorSetup();
+    setIsBusy(false);
+
+    if (!result.success || !result.secret || !result.otpauthUri) {
+      setError(result.message || "Failed to start setup");
+      return;
+    }
+
+    let qrDataUrl: string | null = null;
+    try {
+      qrDataUrl = await QRCode.toDataURL(result.otpauthUri, {
+        margin: 1,
+        width: 200,
+      });
+    } catch (qrError) {
+      console.error("Failed to draw setup QR code:", qrError);
+    }
+    setPendingSetup({ secret: result.secret, qrDataUrl });
+  };
+
+  const handleEnable = () =>
+    withCode(async (entered) => {
+      const result = await enableTwoFactor(entered);
+      if (!result.success) {
+        setError(result.message || "Invalid code");
+        return;
+      }
+      setPendingSetup(null);
+      setRecoveryCodes(result.recoveryCodes ?? []);
+      await loadStatus();
+    });
+
+  const handleDisable = () =>
+    withCode(async (entered) => {
+      const result = await disableTwoFactor(entered);
+      if (!result.success) {
+        setError(result.message || "Invalid code");
+        return;
+      }
+      setRecoveryCodes(null);
+      await loadStatus();
+    });
+
+  const handleRegenerate = () =>
+    withCode(async (entered) => {
+      const result = await regenerateRecoveryCodes(entered);
+      if (!result.success) {
+        setError(result.message || "Invalid code");
+        return;
+      }
+      setRecoveryCodes(result.recoveryCodes ?? []);
+      await loadStatus();
+    });
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (copyError) {
+      console.error("Failed to copy recovery codes:", copyError);
+    }
+  };
+
+  const codeInput = (
+    <Input
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      placeholder="123456"
+      autoComplete="one-time-code"
+      className="bg-white/10 border-white/20 text-white placeholder:text-white/40 rounded-[1rem] tracking-widest"
+      disabled={isBusy}
+    />
+  );
+
+  return (
+    <div className="bg-white/5 border border-white/20 rounded-[1.5rem] p-4 space-y-3">
+      <div className="flex items-center space-x-3">
+        <div
+          className={`w-8 h-8 rounded-lg flex items-center justify-center ${enabled ? "bg-green-500/20" : "bg-yellow-500/20"}`}
+        >
+          {enabled ? (
+            <ShieldCheck className="w-4 h-4 text-green-400" />
+          ) : (
+            <ShieldAlert className="w-4 h-4 text-yellow-400" />
+          )}
+        </div>
+        <div>
+          <p className="text-white text-sm font-medium">
+            Two-Factor Authentication
+          </p>
+          <p className="text-white/60 text-xs">
+            {enabled
+              ? `On · ${recoveryCodesRemaining} recovery codes left`
+              : "Off · sign-in needs only your password"}
+          </p>
+        </div>
+      </div>
+
+      {error && <p className="text-red-300 text-xs">{error}</p>}
+
+      {recoveryCodes && (
+        <div className="space-y-2">
+          <p className="text-white/80 text-xs">
+            Save these recovery codes somewhere safe. Each works once if you
+            lose your authenticator, and they won't be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 bg-white/5 rounded-[1rem] p-3">
+            {recoveryCodes.map((recoveryCode) => (
+              <span
+                key={recoveryCode}
+                className="text-white font-mono text-sm text-center"
+              >
+                {recoveryCode}
+              </span>
+            ))}
+          </div>
+          <div className="flex space-x-2">
+            <Button
+              onClick={copyRecoveryCodes}
+              variant="outline"
+              className="flex-1 bg-white/10 hover:bg-white/20 text-white border border-white/20"
+            >
+              {copied ? (
+                <Check className="w-4 h-4 mr-2" />
+              ) : (
+                <Copy className="w-4 h-4 mr-2" />
+              )}
+              {copied ? "Copied!" : "Copy"}
+            </Button>
+            <Button
+              onClick={() => setRecoveryCodes(null)}
+              className="flex-1 bg-blue-500 hover:bg-blue-600 text-white"
+            >
+              I've saved them
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!enabled && !pendingSetup && (
+        <Button
+          onClick={handleStartSetup}
+          className="w-full bg-blue-500 hover:bg-blue-600 text-white"
+          disabled={isBusy}
+        >
+          Set up two-factor authentication
+        </Button>
+      )}
+
+      {!enabled && pendingSetup && (
+        <div className="space-y-3">
+          <p className="text-white/80 text-xs">
+            Scan this code with your authenticator app, or enter the key by
+            hand, then type the 6-digit code it shows.
+          </p>
+          {pendingSetup.qrDataUrl && (
+            <div className="flex justify-center">
+              <img
+                src={pendingSetup.qrDataUrl}
+                alt="Authenticator setup QR code"
+                className="rounded-[1rem] bg-white p-2"
+              />
+            </div>
+          )}
+          <p className="text-white font-mono text-xs text-center break-all">
+            {pendingSetup.secret}
+          </p>
+          {codeInput}
+          <div className="flex space-x-2">
+            <Button
+              onClick={() => {
+                setPendingSetup(null);
+                setError("");
+              }}
+              variant="outline"
+              className="flex-1 bg-white/10 hover:bg-white/20 text-white border border-white/20"
+              disabled={isBusy}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleEnable}
+              className="flex-1 bg-blue-500 hover:bg-blue-600 text-white"
+              disabled={isBusy}
+            >
+              Turn on
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {enabled && !recoveryCodes && (
+        <div className="space-y-3">
+          <p className="text-white/60 text-xs">
+            Enter a current code or a recovery code to make changes.
+          </p>
+          {codeInput}
+          <div className="flex space-x-2">
+            <Button
+              onClick={handleRegenerate}
+              variant="outline"
+              className="flex-1 bg-white/10 hover:bg-white/20 text-white border border-white/20"
+              disabled={isBusy}
+            >
+              New recovery codes
+            </Button>
+            <Button
+              onClick={handleDisable}
+              variant="outline"
+              className="flex-1 bg-white/10 hover:bg-red-500/30 text-white border border-white/20"
+              disabled={isBusy}
+            >
+              Turn off
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
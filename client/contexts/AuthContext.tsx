@@ -1,18 +1,77 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { User, AuthResponse } from '@shared/api';
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useRef,
+  ReactNode,
+} from "react";
+import {
+  User,
+  AuthResponse,
+  ApiResponse,
+  Session,
+  SessionListResponse,
+  TwoFactorStatusResponse,
+  TwoFactorSetupResponse,
+  RecoveryCodesResponse,
+  AccountExportResponse,
+  ProfileResponse,
+  UpdateProfileRequest,
+} from "@shared/api";
+import { generateDeviceId } from "../utils/groupCrypto";
 
 interface AuthContextType {
   user: User | null;
   token: string | null;
   isLoading: boolean;
   isAuthenticated: boolean;
+  // Resolves with twoFactorRequired set when a code is needed to finish
   login: (email: string, password: string) => Promise<AuthResponse>;
+  completeTwoFactorLogin: (
+    challengeToken: string,
+    code: string,
+  ) => Promise<AuthResponse>;
   signup: (email: string, password: string) => Promise<AuthResponse>;
   logout: () => void;
+  getSessions: () => Promise<Session[]>;
+  revokeSession: (sessionId: string) => Promise<boolean>;
+  revokeOtherSessions: () => Promise<boolean>;
+  getTwoFactorStatus: () => Promise<TwoFactorStatusResponse>;
+  beginTwoFactorSetup: () => Promise<TwoFactorSetupResponse>;
+  enableTwoFactor: (code: string) => Promise<RecoveryCodesResponse>;
+  disableTwoFactor: (code: string) => Promise<ApiResponse>;
+  regenerateRecoveryCodes: (code: string) => Promise<RecoveryCodesResponse>;
+  resendVerificationEmail: () => Promise<ApiResponse>;
+  verifyEmail: (token: string) => Promise<ApiResponse>;
+  requestPasswordReset: (email: string) => Promise<ApiResponse>;
+  resetPassword: (token: string, password: string) => Promise<ApiResponse>;
+  exportAccountData: () => Promise<AccountExportResponse>;
+  // Signs out everywhere once the account is gone
+  deleteAccount: (password: string, code?: string) => Promise<ApiResponse>;
+  updateProfile: (updates: UpdateProfileRequest) => Promise<ProfileResponse>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const ACCESS_TOKEN_STORAGE_KEY = "authToken";
+const REFRESH_TOKEN_STORAGE_KEY = "refreshToken";
+
+// Refresh this long before the access token runs out
+const REFRESH_MARGIN_SECONDS = 60;
+// After a network failure, try refreshing again this soon
+const REFRESH_RETRY_MS = 30 * 1000;
+// Held while refreshing, across tabs
+const REFRESH_LOCK_NAME = "authRefresh";
+
+// Two tabs refreshing with the same token at once would look like token
+// reuse, and the server would end the session. Taking turns, each reads the
+// token the one before it rotated to.
+const withRefreshLock = (refresh: () => Promise<void>): Promise<void> =>
+  "locks" in navigator
+    ? navigator.locks.request(REFRESH_LOCK_NAME, refresh)
+    : refresh();
+
 interface AuthProviderProps {
   children: ReactNode;
 }
@@ -21,107 +80,294 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const refreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const isAuthenticated = !!user && !!token;
 
-  // Load user from localStorage on mount
+  // Sessions are resumed with the refresh token; access tokens are too short
+  // lived to be worth keeping across reloads
   useEffect(() => {
-    const savedToken = localStorage.getItem('authToken');
-    if (savedToken) {
-      verifyToken(savedToken);
+    if (localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY)) {
+      refreshSession().finally(() => setIsLoading(false));
     } else {
+      localStorage.removeItem(ACCESS_TOKEN_STORAGE_KEY);
       setIsLoading(false);
     }
+
+    // Another tab rotated the refresh token; use its access token rather
+    // than refreshing again with a token that no longer works
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === ACCESS_TOKEN_STORAGE_KEY && event.newValue) {
+        setToken(event.newValue);
+        scheduleRefresh(REFRESH_MARGIN_SECONDS * 1000 + REFRESH_RETRY_MS);
+      } else if (event.key === REFRESH_TOKEN_STORAGE_KEY && !event.newValue) {
+        clearAuth();
+      }
+    };
+    window.addEventListener("storage", handleStorage);
+
+    return () => {
+      window.removeEventListener("storage", handleStorage);
+      if (refreshTimerRef.current) clearTimeout(refreshTimerRef.current);
+    };
   }, []);
 
-  const verifyToken = async (authToken: string) => {
-    try {
-      const response = await fetch('/api/auth/verify', {
-        headers: {
-          'Authorization': `Bearer ${authToken}`,
-        },
-      });
+  const scheduleRefresh = (delayMs: number) => {
+    if (refreshTimerRef.current) clearTimeout(refreshTimerRef.current);
+    refreshTimerRef.current = setTimeout(
+      () => {
+        refreshSession();
+      },
+      Math.max(delayMs, 0),
+    );
+  };
+
+  const clearAuth = () => {
+    if (refreshTimerRef.current) clearTimeout(refreshTimerRef.current);
+    setUser(null);
+    setToken(null);
+    localStorage.removeItem(ACCESS_TOKEN_STORAGE_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY);
+  };
+
+  // Keep the tokens from a sign-in or refresh, and refresh again before the
+  // access token expires
+  const storeAuth = (data: AuthResponse) => {
+    if (!data.success || !data.user || !data.token || !data.refreshToken)
+      return;
+
+    setUser(data.user);
+    setToken(data.token);
+    localStorage.setItem(ACCESS_TOKEN_STORAGE_KEY, data.token);
+    localStorage.setItem(REFRESH_TOKEN_STORAGE_KEY, data.refreshToken);
+    if (data.expiresIn) {
+      scheduleRefresh((data.expiresIn - REFRESH_MARGIN_SECONDS) * 1000);
+    }
+  };
+
+  const refreshSession = () =>
+    withRefreshLock(async () => {
+      // Read it fresh: another tab may have rotated it since we last looked
+      const refreshToken = localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY);
+      if (!refreshToken) {
+        clearAuth();
+        return;
+      }
 
-      if (response.ok) {
+      try {
+        const response = await fetch("/api/auth/refresh", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ refreshToken }),
+        });
         const data: AuthResponse = await response.json();
-        if (data.success && data.user) {
-          setUser(data.user);
-          setToken(authToken);
-          localStorage.setItem('authToken', authToken);
+
+        if (data.success) {
+          storeAuth(data);
         } else {
-          localStorage.removeItem('authToken');
+          // Revoked, expired or reused: the session is over
+          clearAuth();
         }
-      } else {
-        localStorage.removeItem('authToken');
+      } catch (error) {
+        console.error("Token refresh failed:", error);
+        scheduleRefresh(REFRESH_RETRY_MS);
       }
+    });
+
+  const authenticate = async (
+    path: string,
+    credentials: object,
+  ): Promise<AuthResponse> => {
+    const response = await fetch(path, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ ...credentials, deviceId: generateDeviceId() }),
+    });
+
+    const data: AuthResponse = await response.json();
+    storeAuth(data);
+    return data;
+  };
+
+  const login = async (
+    email: string,
+    password: string,
+  ): Promise<AuthResponse> => {
+    try {
+      return await authenticate("/api/auth/login", { email, password });
     } catch (error) {
-      console.error('Token verification failed:', error);
-      localStorage.removeItem('authToken');
-    } finally {
-      setIsLoading(false);
+      console.error("Login error:", error);
+      return {
+        success: false,
+        message: "Network error occurred",
+      };
     }
   };
 
-  const login = async (email: string, password: string): Promise<AuthResponse> => {
+  const signup = async (
+    email: string,
+    password: string,
+  ): Promise<AuthResponse> => {
     try {
-      const response = await fetch('/api/auth/login', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ email, password }),
-      });
-
-      const data: AuthResponse = await response.json();
-
-      if (data.success && data.user && data.token) {
-        setUser(data.user);
-        setToken(data.token);
-        localStorage.setItem('authToken', data.token);
-      }
+      return await authenticate("/api/auth/signup", { email, password });
+    } catch (error) {
+      console.error("Signup error:", error);
+      return {
+        success: false,
+        message: "Network error occurred",
+      };
+    }
+  };
 
-      return data;
+  const completeTwoFactorLogin = async (
+    challengeToken: string,
+    code: string,
+  ): Promise<AuthResponse> => {
+    try {
+      return await authenticate("/api/auth/login/2fa", {
+        challengeToken,
+        code,
+      });
     } catch (error) {
-      console.error('Login error:', error);
+      console.error("Two-factor login error:", error);
       return {
         success: false,
-        message: 'Network error occurred',
+        message: "Network error occurred",
       };
     }
   };
 
-  const signup = async (email: string, password: string): Promise<AuthResponse> => {
+  // End the session on the server too, so its refresh token stops working
+  const logout = () => {
+    if (token) {
+      fetch("/api/auth/logout", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      }).catch((error) => console.error("Logout request failed:", error));
+    }
+    clearAuth();
+  };
+
+  // Requests for managing the account itself. The ones from emailed links
+  // work signed out, so the token is only sent when there is one.
+  const accountRequest = async <T extends ApiResponse>(
+    url: string,
+    method: string,
+    body?: object,
+  ): Promise<T> => {
     try {
-      const response = await fetch('/api/auth/signup', {
-        method: 'POST',
+      const response = await fetch(url, {
+        method,
         headers: {
-          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+          ...(body && { "Content-Type": "application/json" }),
         },
-        body: JSON.stringify({ email, password }),
+        ...(body && { body: JSON.stringify(body) }),
       });
+      return await response.json();
+    } catch (error) {
+      console.error("Account request failed:", error);
+      return { success: false, message: "Network error occurred" } as T;
+    }
+  };
 
-      const data: AuthResponse = await response.json();
+  const authRequest = <T extends ApiResponse>(
+    path: string,
+    method: string,
+    body?: object,
+  ) => accountRequest<T>(`/api/auth${path}`, method, body);
 
-      if (data.success && data.user && data.token) {
-        setUser(data.user);
-        setToken(data.token);
-        localStorage.setItem('authToken', data.token);
-      }
+  const getSessions = async (): Promise<Session[]> => {
+    const data = await authRequest<SessionListResponse>("/sessions", "GET");
+    return data.sessions ?? [];
+  };
 
-      return data;
-    } catch (error) {
-      console.error('Signup error:', error);
-      return {
-        success: false,
-        message: 'Network error occurred',
-      };
+  const revokeSession = async (sessionId: string): Promise<boolean> => {
+    const data = await authRequest(
+      `/sessions/${encodeURIComponent(sessionId)}`,
+      "DELETE",
+    );
+    return data.success;
+  };
+
+  const revokeOtherSessions = async (): Promise<boolean> => {
+    const data = await authRequest("/sessions?exceptCurrent=true", "DELETE");
+    return data.success;
+  };
+
+  const getTwoFactorStatus = () =>
+    authRequest<TwoFactorStatusResponse>("/2fa", "GET");
+
+  const beginTwoFactorSetup = () =>
+    authRequest<TwoFactorSetupResponse>("/2fa/setup", "POST");
+
+  const enableTwoFactor = (code: string) =>
+    authRequest<RecoveryCodesResponse>("/2fa/enable", "POST", { code });
+
+  const disableTwoFactor = (code: string) =>
+    authRequest("/2fa/disable", "POST", { code });
+
+  const regenerateRecoveryCodes = (code: string) =>
+    authRequest<RecoveryCodesResponse>("/2fa/recovery-codes", "POST", { code });
+
+  const resendVerificationEmail = () =>
+    authRequest("/verify-email/send", "POST");
+
+  const verifyEmail = async (
+    verificationToken: string,
+  ): Promise<ApiResponse> => {
+    const data = await authRequest("/verify-email", "POST", {
+      token: verificationToken,
+    });
+    // The link may have been opened while signed in; refresh to pick up the
+    // verified address for whoever that is
+    if (data.success && localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY)) {
+      await refreshSession();
     }
+    return data;
   };
 
-  const logout = () => {
-    setUser(null);
-    setToken(null);
-    localStorage.removeItem('authToken');
+  const requestPasswordReset = (email: string) =>
+    authRequest("/forgot-password", "POST", { email });
+
+  const resetPassword = (resetToken: string, password: string) =>
+    authRequest("/reset-password", "POST", { token: resetToken, password });
+
+  const exportAccountData = () =>
+    authRequest<AccountExportResponse>("/export", "GET");
+
+  const updateProfile = async (
+    updates: UpdateProfileRequest,
+  ): Promise<ProfileResponse> => {
+    const data = await accountRequest<ProfileResponse>(
+      "/api/users/me",
+      "PATCH",
+      updates,
+    );
+    if (data.success && data.user) {
+      setUser(data.user);
+    }
+    return data;
+  };
+
+  const deleteAccount = async (
+    password: string,
+    code?: string,
+  ): Promise<ApiResponse> => {
+    const data = await authRequest("/account", "DELETE", {
+      password,
+      ...(code && { code }),
+    });
+    if (data.success) {
+      clearAuth();
+    }
+    return data;
   };
 
   const value: AuthContextType = {
@@ -130,21 +376,33 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     isLoading,
     isAuthenticated,
     login,
+    completeTwoFactorLogin,
     signup,
     logout,
+    getSessions,
+    revokeSession,
+    revokeOtherSessions,
+    getTwoFactorStatus,
+    beginTwoFactorSetup,
+    enableTwoFactor,
+    disableTwoFactor,
+    regenerateRecoveryCodes,
+    resendVerificationEmail,
+    verifyEmail,
+    requestPasswordReset,
+    resetPassword,
+    exportAccountData,
+    deleteAccount,
+    updateProfile,
   };
 
-  return (
-    <AuthContext.Provider value={value}>
-      {children}
-    </AuthContext.Provider>
-  );
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
 };
 
 export const useAuth = (): AuthContextType => {
   const context = useContext(AuthContext);
   if (context === undefined) {
-    throw new Error('useAuth must be used within an AuthProvider');
+    throw new Error("useAuth must be used within an AuthProvider");
   }
   return context;
 };
@@ -1,22 +1,69 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { useAuth } from './AuthContext';
-import { generateSecureCode, generateInviteCode, InviteCode } from '../utils/groupCrypto';
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useRef,
+  ReactNode,
+} from "react";
+import { useAuth } from "./AuthContext";
+import { useEncryption } from "./EncryptionContext";
+import {
+  generateSecureCode,
+  GroupKeyPair,
+  GroupKeyDistribution,
+  generateGroupKeyPair,
+  createGroupKeyDistribution,
+  openGroupKeyDistribution,
+  addGroupKeyEpoch,
+  currentGroupKey,
+  isCurrentRoster,
+  loadGroupKeyRing,
+  saveGroupKeyRing,
+  deleteGroupKeyRing,
+  trustedSigningKey,
+} from "../utils/groupCrypto";
+import { loadLocalPreKeys } from "../utils/x3dh";
+import {
+  ChatGroupDetails,
+  CreateGroupRequest,
+  CreateInviteRequest,
+  FriendRequest,
+  FriendRequestListResponse,
+  FriendRequestResponse,
+  FriendRequestUpdate,
+  GroupListResponse,
+  GroupResponse,
+  GroupUpdate,
+  HandleAvailabilityResponse,
+  InviteCode,
+  InviteCodeListResponse,
+  InviteCodeResponse,
+  MemberKeys,
+  PublicProfile,
+  PublicProfileListResponse,
+  RedeemInviteResponse,
+  UpdateProfileRequest,
+} from "@shared/api";
 
 export interface Contact {
   id: string;
   email: string;
   username?: string;
   displayName?: string; // Custom name set by user
+  profileName?: string; // The name they gave themselves
   avatar?: string;
   isOnline: boolean;
   lastSeen?: string;
-  status?: 'online' | 'away' | 'busy' | 'offline';
+  status?: "online" | "away" | "busy" | "offline";
   unreadCount?: number;
   isTyping?: boolean;
   isFavorite?: boolean;
   isPinned?: boolean;
   tags?: string[];
   publicKey?: string;
+  verified?: boolean; // Safety number checked out of band
+  verifiedKey?: string; // Identity key that was verified
   connectionDate?: string;
   lastMessage?: {
     content: string;
@@ -26,8 +73,9 @@ export interface Contact {
 }
 
 export interface GroupMember extends Contact {
-  role: 'admin' | 'member';
+  role: "admin" | "member";
   joinedAt: string;
+  keys?: MemberKeys; // As published to the server; epoch keys are wrapped to these
   permissions: {
     canInvite: boolean;
     canRemoveMembers: boolean;
@@ -51,9 +99,11 @@ export interface Group {
     allowMemberInvites: boolean;
     requireAdminApproval: boolean;
     allowMemberMessages: boolean;
-    encryptionLevel: 'standard' | 'enhanced';
+    encryptionLevel: "standard" | "enhanced";
     allowNameChange: boolean;
   };
+  keyVersion?: number; // Current key epoch, see utils/groupCrypto
+  keyDistribution?: GroupKeyDistribution; // Latest epoch we created, for delivery to the members
   unreadCount?: number;
   lastMessage?: {
     content: string;
@@ -65,83 +115,160 @@ export interface Group {
 interface ContactContextType {
   contacts: Contact[];
   groups: Group[];
-  pendingRequests: Contact[];
+  incomingRequests: FriendRequest[];
+  outgoingRequests: FriendRequest[];
   currentInviteCode: InviteCode | null;
   userProfile: {
     id: string;
     email: string;
     username?: string;
+    displayName?: string;
     avatar?: string;
   } | null;
   addContact: (contact: Contact) => void;
   removeContact: (contactId: string) => void;
   updateContact: (contactId: string, updates: Partial<Contact>) => void;
   renameContact: (contactId: string, newName: string) => void;
-  updateUserProfile: (updates: { username?: string; avatar?: string }) => void;
-  createGroup: (name: string, members: Contact[]) => Group;
+  markContactVerified: (
+    contact: Pick<Contact, "id" | "email">,
+    publicKey: string,
+  ) => void;
+  clearContactVerification: (contactId: string) => void;
+  updateUserProfile: (updates: UpdateProfileRequest) => Promise<boolean>;
+  checkHandleAvailability: (
+    handle: string,
+  ) => Promise<HandleAvailabilityResponse>;
+  groupInvitations: Group[];
+  createGroup: (name: string, members: Contact[]) => Promise<Group | null>;
   updateGroup: (groupId: string, updates: Partial<Group>) => void;
   renameGroup: (groupId: string, newName: string) => void;
-  addGroupAdmin: (groupId: string, userId: string) => void;
-  removeGroupAdmin: (groupId: string, userId: string) => void;
-  removeGroupMember: (groupId: string, userId: string) => void;
-  updateGroupSettings: (groupId: string, settings: Partial<Group['settings']>) => void;
-  generateNewInviteCode: () => void;
+  addGroupAdmin: (groupId: string, userId: string) => Promise<boolean>;
+  removeGroupAdmin: (groupId: string, userId: string) => Promise<boolean>;
+  removeGroupMember: (groupId: string, userId: string) => Promise<boolean>;
+  inviteGroupMember: (groupId: string, userId: string) => Promise<boolean>;
+  joinGroup: (groupId: string) => Promise<boolean>;
+  applyGroupUpdate: (update: GroupUpdate) => void;
+  rotateGroupKey: (group: Group) => Promise<GroupKeyPair | null>;
+  applyGroupKeyDistribution: (
+    distribution: GroupKeyDistribution,
+    distributorSigningKey: string,
+  ) => Promise<boolean>;
+  updateGroupSettings: (
+    groupId: string,
+    settings: Partial<Group["settings"]>,
+  ) => Promise<boolean>;
+  generateNewInviteCode: () => Promise<void>;
   forceRefreshInviteCode: () => void; // Instant refresh button
-  addFriendByCode: (code: string, userInfo: { email: string; username?: string }) => Promise<boolean>;
+  addFriendByCode: (code: string) => Promise<boolean>; // Redeems friend and group codes alike
   searchContacts: (query: string) => Contact[];
   getFavoriteContacts: () => Contact[];
   getOnlineContacts: () => Contact[];
   getRecentContacts: () => Contact[];
-  sendFriendRequest: (email: string) => Promise<boolean>;
-  acceptFriendRequest: (contactId: string) => void;
-  rejectFriendRequest: (contactId: string) => void;
+  sendFriendRequest: (recipient: string) => Promise<boolean>; // A handle or an email address
+  acceptFriendRequest: (requestId: string) => Promise<boolean>;
+  rejectFriendRequest: (requestId: string) => Promise<boolean>;
+  cancelFriendRequest: (requestId: string) => Promise<boolean>;
+  blockUser: (userId: string) => Promise<boolean>;
+  applyFriendRequestUpdate: (update: FriendRequestUpdate) => void;
   uploadProfilePicture: (file: File) => Promise<string | null>;
   isLoading: boolean;
   error: string | null;
 }
 
+// The identity key we checked the person's safety number against, if we did
+export const verifiedIdentityKey = (
+  contact: Pick<Contact, "verified" | "verifiedKey">,
+): string | undefined => (contact.verified ? contact.verifiedKey : undefined);
+
+const FRIEND_REQUEST_REFRESH_MS = 30 * 1000;
+const AVATAR_SIZE_PX = 128;
+
+// Crop to a centred square and re-encode as a small JPEG data URL
+const resizeAvatar = async (file: File): Promise<string> => {
+  const image = await createImageBitmap(file);
+  const side = Math.min(image.width, image.height);
+  const canvas = document.createElement("canvas");
+  canvas.width = AVATAR_SIZE_PX;
+  canvas.height = AVATAR_SIZE_PX;
+  canvas
+    .getContext("2d")!
+    .drawImage(
+      image,
+      (image.width - side) / 2,
+      (image.height - side) / 2,
+      side,
+      side,
+      0,
+      0,
+      AVATAR_SIZE_PX,
+      AVATAR_SIZE_PX,
+    );
+  image.close();
+  return canvas.toDataURL("image/jpeg", 0.85);
+};
+
 const ContactContext = createContext<ContactContextType | undefined>(undefined);
 
 interface ContactProviderProps {
   children: ReactNode;
 }
 
-export const ContactProvider: React.FC<ContactProviderProps> = ({ children }) => {
-  const { user } = useAuth();
+export const ContactProvider: React.FC<ContactProviderProps> = ({
+  children,
+}) => {
+  const { user, token, updateProfile } = useAuth();
+  const { keyPair } = useEncryption();
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [groups, setGroups] = useState<Group[]>([]);
-  const [pendingRequests, setPendingRequests] = useState<Contact[]>([]);
-  const [currentInviteCode, setCurrentInviteCode] = useState<InviteCode | null>(null);
-  const [userProfile, setUserProfile] = useState<{
-    id: string;
-    email: string;
-    username?: string;
-    avatar?: string;
-  } | null>(null);
+  const [groupInvitations, setGroupInvitations] = useState<Group[]>([]);
+  const [incomingRequests, setIncomingRequests] = useState<FriendRequest[]>([]);
+  const [outgoingRequests, setOutgoingRequests] = useState<FriendRequest[]>([]);
+  const [currentInviteCode, setCurrentInviteCode] = useState<InviteCode | null>(
+    null,
+  );
+  // The rotation timer outlives renders, so it reads the code to revoke from here
+  const currentInviteCodeRef = useRef<InviteCode | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // The profile lives on the server, with the rest of the account
+  const userProfile: ContactContextType["userProfile"] = user
+    ? {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        displayName: user.displayName,
+        avatar: user.avatar,
+      }
+    : null;
+
   // Initialize invite code and load saved data
   useEffect(() => {
     if (user) {
-      setUserProfile({
-        id: user.id,
-        email: user.email,
-        username: user.username || user.email.split('@')[0],
-        avatar: undefined
-      });
       loadSavedData();
+      loadServerGroups();
+      loadFriendRequests();
+      loadConnectionProfiles();
       generateInitialInviteCode();
-      startInviteCodeRotation();
+
+      // Requests arrive over the chat socket, which the contacts view doesn't
+      // hold, so the lists are also refreshed now and then
+      const stopRotation = startInviteCodeRotation();
+      const requestRefresh = setInterval(
+        loadFriendRequests,
+        FRIEND_REQUEST_REFRESH_MS,
+      );
+      return () => {
+        stopRotation();
+        clearInterval(requestRefresh);
+      };
     }
   }, [user]);
 
   const loadSavedData = () => {
     try {
-      const savedContacts = localStorage.getItem('secureChat_contacts');
-      const savedGroups = localStorage.getItem('secureChat_groups');
-      const savedRequests = localStorage.getItem('secureChat_pendingRequests');
-      const savedProfile = localStorage.getItem('secureChat_userProfile');
+      const savedContacts = localStorage.getItem("secureChat_contacts");
+      const savedGroups = localStorage.getItem("secureChat_groups");
 
       if (savedContacts) {
         setContacts(JSON.parse(savedContacts));
@@ -149,78 +276,107 @@ export const ContactProvider: React.FC<ContactProviderProps> = ({ children }) =>
       if (savedGroups) {
         setGroups(JSON.parse(savedGroups));
       }
-      if (savedRequests) {
-        setPendingRequests(JSON.parse(savedRequests));
-      }
-      if (savedProfile && user) {
-        const profile = JSON.parse(savedProfile);
-        setUserProfile({
-          ...profile,
-          id: user.id,
-          email: user.email
-        });
-      }
+      // Requests used to be kept only in this browser; the server has them now
+      localStorage.removeItem("secureChat_pendingRequests");
+      // Likewise the profile, which is part of the account now
+      localStorage.removeItem("secureChat_userProfile");
     } catch (error) {
-      console.error('Failed to load saved data:', error);
+      console.error("Failed to load saved data:", error);
     }
   };
 
   const saveData = () => {
     try {
-      localStorage.setItem('secureChat_contacts', JSON.stringify(contacts));
-      localStorage.setItem('secureChat_groups', JSON.stringify(groups));
-      localStorage.setItem('secureChat_pendingRequests', JSON.stringify(pendingRequests));
-      if (userProfile) {
-        localStorage.setItem('secureChat_userProfile', JSON.stringify(userProfile));
-      }
+      localStorage.setItem("secureChat_contacts", JSON.stringify(contacts));
+      localStorage.setItem("secureChat_groups", JSON.stringify(groups));
     } catch (error) {
-      console.error('Failed to save data:', error);
+      console.error("Failed to save data:", error);
     }
   };
 
   // Save data whenever it changes
   useEffect(() => {
     saveData();
-  }, [contacts, groups, pendingRequests, userProfile]);
+  }, [contacts, groups]);
+
+  const apiRequest = async <T extends { success: boolean; message?: string }>(
+    path: string,
+    method: string,
+    body?: object,
+  ): Promise<T> => {
+    try {
+      const response = await fetch(`/api${path}`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      return await response.json();
+    } catch (error) {
+      console.error("Request failed:", error);
+      return {
+        success: false,
+        message: "Network error occurred. Please try again.",
+      } as T;
+    }
+  };
+
+  const setInviteCode = (invite: InviteCode | null) => {
+    currentInviteCodeRef.current = invite;
+    setCurrentInviteCode(invite);
+  };
 
-  const generateInitialInviteCode = () => {
+  // Reuse our newest friend code while it still has uses left; codes only
+  // generated in this browser were never redeemable, so they're dropped
+  const generateInitialInviteCode = async () => {
     if (!user) return;
-    
-    const savedCode = localStorage.getItem('secureChat_inviteCode');
-    const savedCodeDate = localStorage.getItem('secureChat_inviteCodeDate');
-    
-    // Check if saved code is still valid (less than 24 hours old)
-    if (savedCode && savedCodeDate) {
-      const codeDate = new Date(savedCodeDate);
-      const now = new Date();
-      const hoursDiff = (now.getTime() - codeDate.getTime()) / (1000 * 60 * 60);
-      
-      if (hoursDiff < 24) {
-        try {
-          const parsedCode = JSON.parse(savedCode);
-          setCurrentInviteCode(parsedCode);
-          return;
-        } catch (error) {
-          console.error('Invalid saved code:', error);
-        }
-      }
+
+    localStorage.removeItem("secureChat_inviteCode");
+    localStorage.removeItem("secureChat_inviteCodeDate");
+
+    const data = await apiRequest<InviteCodeListResponse>("/invites", "GET");
+    const usable = data.invites?.find(
+      (invite) =>
+        invite.type === "friend" && invite.currentUses < invite.maxUses,
+    );
+    if (usable) {
+      setInviteCode(usable);
+      return;
     }
-    
-    // Generate new code if no valid saved code
-    generateNewInviteCode();
+
+    await generateNewInviteCode();
   };
 
-  const generateNewInviteCode = () => {
+  // Register a new friend code, then revoke the one it replaces so it can't
+  // be redeemed any more
+  const generateNewInviteCode = async () => {
     if (!user) return;
 
-    const newCode = generateInviteCode('friend', user.id, {
+    const request: CreateInviteRequest = {
+      type: "friend",
       expiresInHours: 24,
-      maxUses: 50
-    });
+      maxUses: 50,
+    };
+    const data = await apiRequest<InviteCodeResponse>(
+      "/invites",
+      "POST",
+      request,
+    );
+    if (!data.success || !data.invite) {
+      console.error("Failed to create invite code:", data.message);
+      return;
+    }
 
-    setCurrentInviteCode(newCode);
-    localStorage.setItem('secureChat_inviteCode', JSON.stringify(newCode));
-    localStorage.setItem('secureChat_inviteCodeDate', new Date().toISOString());
+    const previous = currentInviteCodeRef.current;
+    setInviteCode(data.invite);
+    if (previous) {
+      await apiRequest(
+        `/invites/${encodeURIComponent(previous.code)}`,
+        "DELETE",
+      );
+    }
   };
 
   const forceRefreshInviteCode = () => {
@@ -230,328 +386,731 @@ export const ContactProvider: React.FC<ContactProviderProps> = ({ children }) =>
 
   const startInviteCodeRotation = () => {
     // Rotate invite code every 24 hours
-    const interval = setInterval(() => {
-      generateNewInviteCode();
-    }, 24 * 60 * 60 * 1000); // 24 hours
+    const interval = setInterval(
+      () => {
+        generateNewInviteCode();
+      },
+      24 * 60 * 60 * 1000,
+    ); // 24 hours
 
     return () => clearInterval(interval);
   };
 
+  // Someone we just connected with through the server
+  const newConnectedContact = (profile: PublicProfile): Contact => ({
+    id: profile.id,
+    email: profile.email ?? "",
+    username: profile.username,
+    profileName: profile.displayName,
+    avatar: profile.avatar,
+    isOnline: false,
+    status: "offline",
+    connectionDate: new Date().toISOString(),
+    unreadCount: 0,
+    isFavorite: false,
+    isPinned: false,
+    tags: ["new"],
+  });
+
   const addContact = (contact: Contact) => {
-    setContacts(prev => {
-      const exists = prev.find(c => c.id === contact.id || c.email === contact.email);
+    setContacts((prev) => {
+      const exists = prev.find(
+        (c) =>
+          c.id === contact.id || (contact.email && c.email === contact.email),
+      );
       if (exists) {
-        return prev.map(c => c.id === contact.id ? { ...c, ...contact } : c);
+        return prev.map((c) =>
+          c.id === contact.id ? { ...c, ...contact } : c,
+        );
       }
-      return [...prev, { ...contact, connectionDate: new Date().toISOString() }];
+      return [
+        ...prev,
+        { ...contact, connectionDate: new Date().toISOString() },
+      ];
     });
   };
 
   const removeContact = (contactId: string) => {
-    setContacts(prev => prev.filter(c => c.id !== contactId));
-    setGroups(prev => prev.map(group => ({
-      ...group,
-      members: group.members.filter(m => m.id !== contactId)
-    })));
+    setContacts((prev) => prev.filter((c) => c.id !== contactId));
+    setGroups((prev) =>
+      prev.map((group) => ({
+        ...group,
+        members: group.members.filter((m) => m.id !== contactId),
+      })),
+    );
   };
 
   const updateContact = (contactId: string, updates: Partial<Contact>) => {
-    setContacts(prev => prev.map(contact =>
-      contact.id === contactId ? { ...contact, ...updates } : contact
-    ));
+    setContacts((prev) =>
+      prev.map((contact) =>
+        contact.id === contactId ? { ...contact, ...updates } : contact,
+      ),
+    );
   };
 
   const renameContact = (contactId: string, newName: string) => {
-    setContacts(prev => prev.map(contact =>
-      contact.id === contactId ? { ...contact, displayName: newName.trim() } : contact
-    ));
+    setContacts((prev) =>
+      prev.map((contact) =>
+        contact.id === contactId
+          ? { ...contact, displayName: newName.trim() }
+          : contact,
+      ),
+    );
   };
 
-  const updateUserProfile = (updates: { username?: string; avatar?: string }) => {
-    if (userProfile) {
-      const updatedProfile = { ...userProfile, ...updates };
-      setUserProfile(updatedProfile);
+  const markContactVerified = (
+    contact: Pick<Contact, "id" | "email">,
+    publicKey: string,
+  ) => {
+    setContacts((prev) => {
+      const exists = prev.find((c) => c.id === contact.id);
+      if (exists) {
+        return prev.map((c) =>
+          c.id === contact.id
+            ? { ...c, publicKey, verified: true, verifiedKey: publicKey }
+            : c,
+        );
+      }
+      // The paired partner isn't necessarily in the contact list yet
+      return [
+        ...prev,
+        {
+          id: contact.id,
+          email: contact.email,
+          isOnline: false,
+          publicKey,
+          verified: true,
+          verifiedKey: publicKey,
+          connectionDate: new Date().toISOString(),
+        },
+      ];
+    });
+  };
+
+  const clearContactVerification = (contactId: string) => {
+    setContacts((prev) =>
+      prev.map((contact) =>
+        contact.id === contactId
+          ? { ...contact, verified: false, verifiedKey: undefined }
+          : contact,
+      ),
+    );
+  };
+
+  const updateUserProfile = async (
+    updates: UpdateProfileRequest,
+  ): Promise<boolean> => {
+    setError(null);
+    const data = await updateProfile(updates);
+    if (!data.success) {
+      setError(data.message || "Failed to update profile");
+      return false;
+    }
+    return true;
+  };
+
+  const checkHandleAvailability = (
+    handle: string,
+  ): Promise<HandleAvailabilityResponse> =>
+    apiRequest<HandleAvailabilityResponse>(
+      `/users/handle-available?handle=${encodeURIComponent(handle.trim())}`,
+      "GET",
+    );
+
+  // Contacts pick up handle, name and picture changes the next time we load
+  const loadConnectionProfiles = async () => {
+    const data = await apiRequest<PublicProfileListResponse>(
+      "/users/connections",
+      "GET",
+    );
+    if (!data.success || !data.profiles) return;
+
+    const profiles = new Map(
+      data.profiles.map((profile) => [profile.id, profile]),
+    );
+    setContacts((prev) =>
+      prev.map((contact) => {
+        const profile = profiles.get(contact.id);
+        return profile
+          ? {
+              ...contact,
+              email: profile.email ?? contact.email,
+              username: profile.username,
+              profileName: profile.displayName,
+              avatar: profile.avatar,
+            }
+          : contact;
+      }),
+    );
+  };
+
+  // Membership and roles come from the server; names given locally, key
+  // epochs and unread counts are kept from the copy we already have
+  const groupFromServer = (
+    details: ChatGroupDetails,
+    existing?: Group,
+  ): Group => {
+    const members: GroupMember[] = details.members
+      .filter((member) => member.status === "active")
+      .map((member) => {
+        const contact = contacts.find((c) => c.id === member.userId);
+        const isSelf = member.userId === user?.id;
+        return {
+          ...contact,
+          id: member.userId,
+          email: member.profile?.email ?? contact?.email ?? "",
+          username: isSelf
+            ? userProfile?.username
+            : (contact?.username ?? member.profile?.username),
+          avatar: isSelf
+            ? userProfile?.avatar
+            : (contact?.avatar ?? member.profile?.avatar),
+          isOnline: isSelf || (contact?.isOnline ?? false),
+          role: member.role,
+          joinedAt: member.joinedAt,
+          permissions: member.permissions,
+          keys: member.keys,
+        };
+      });
+
+    return {
+      isPrivate: true,
+      unreadCount: 0,
+      ...existing,
+      id: details.id,
+      name: details.name,
+      description: details.description,
+      createdAt: details.createdAt,
+      createdBy: details.createdBy,
+      settings: details.settings,
+      members,
+      admins: members
+        .filter((member) => member.role === "admin")
+        .map((member) => member.id),
+    };
+  };
+
+  const groupRequest = async (
+    path: string,
+    method: string,
+    body?: object,
+  ): Promise<GroupResponse> => {
+    try {
+      const response = await fetch(`/api/groups${path}`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      return await response.json();
+    } catch (error) {
+      console.error("Group request failed:", error);
+      return {
+        success: false,
+        message: "Network error occurred. Please try again.",
+      };
+    }
+  };
+
+  // Put the server's view of a group in place: joined groups in `groups`,
+  // invitations in `groupInvitations`, and neither once we've left
+  const storeServerGroup = (
+    groupId: string,
+    details: ChatGroupDetails | null,
+  ) => {
+    const ownStatus = details?.members.find(
+      (member) => member.userId === user?.id,
+    )?.status;
+
+    setGroups((prev) => {
+      const existing = prev.find((group) => group.id === groupId);
+      const others = prev.filter((group) => group.id !== groupId);
+      return details && ownStatus === "active"
+        ? [...others, groupFromServer(details, existing)]
+        : others;
+    });
+    setGroupInvitations((prev) => {
+      const others = prev.filter((group) => group.id !== groupId);
+      return details && ownStatus === "invited"
+        ? [...others, groupFromServer(details)]
+        : others;
+    });
+  };
+
+  const loadServerGroups = async () => {
+    try {
+      const response = await fetch("/api/groups", {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+      const data: GroupListResponse = await response.json();
+      if (!data.success || !data.groups) return;
+
+      // Groups that only ever existed in this browser have no room to send to
+      setGroups((prev) =>
+        data
+          .groups!.filter((details) =>
+            details.members.some(
+              (m) => m.userId === user?.id && m.status === "active",
+            ),
+          )
+          .map((details) =>
+            groupFromServer(
+              details,
+              prev.find((group) => group.id === details.id),
+            ),
+          ),
+      );
+      setGroupInvitations(
+        data.groups
+          .filter((details) =>
+            details.members.some(
+              (m) => m.userId === user?.id && m.status === "invited",
+            ),
+          )
+          .map((details) => groupFromServer(details)),
+      );
+    } catch (error) {
+      console.error("Failed to load groups:", error);
     }
   };
 
-  const createGroup = (name: string, members: Contact[]): Group => {
-    const currentUserId = user?.id || '';
-    const newGroup: Group = {
-      id: `group_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+  const createGroup = async (
+    name: string,
+    members: Contact[],
+  ): Promise<Group | null> => {
+    const request: CreateGroupRequest = {
       name,
       description: `Group chat with ${members.length + 1} members`,
-      isPrivate: false,
-      createdAt: new Date().toISOString(),
-      createdBy: currentUserId,
-      admins: [currentUserId],
-      settings: {
-        allowMemberInvites: true,
-        requireAdminApproval: false,
-        allowMemberMessages: true,
-        encryptionLevel: 'enhanced',
-        allowNameChange: false
-      },
-      members: [
-        // Add current user as admin
-        {
-          id: currentUserId,
-          email: user?.email || '',
-          username: userProfile?.username || user?.email || '',
-          avatar: userProfile?.avatar,
-          isOnline: true,
-          status: 'online' as const,
-          connectionDate: new Date().toISOString(),
-          role: 'admin',
-          joinedAt: new Date().toISOString(),
-          permissions: {
-            canInvite: true,
-            canRemoveMembers: true,
-            canEditGroup: true,
-            canDeleteMessages: true
-          }
-        },
-        // Add selected members
-        ...members.map(member => ({
-          ...member,
-          role: 'member' as const,
-          joinedAt: new Date().toISOString(),
-          permissions: {
-            canInvite: true,
-            canRemoveMembers: false,
-            canEditGroup: false,
-            canDeleteMessages: false
-          }
-        }))
-      ],
-      unreadCount: 0
+      memberIds: members.map((member) => member.id),
+      settings: { encryptionLevel: "enhanced" },
     };
+    const data = await groupRequest("", "POST", request);
+    if (!data.success || !data.group) {
+      setError(data.message || "Failed to create group");
+      return null;
+    }
 
-    setGroups(prev => [...prev, newGroup]);
+    const newGroup = groupFromServer(data.group);
+    setGroups((prev) => [
+      ...prev.filter((group) => group.id !== newGroup.id),
+      newGroup,
+    ]);
     return newGroup;
   };
 
   const updateGroup = (groupId: string, updates: Partial<Group>) => {
-    setGroups(prev => prev.map(group =>
-      group.id === groupId ? { ...group, ...updates } : group
-    ));
+    setGroups((prev) =>
+      prev.map((group) =>
+        group.id === groupId ? { ...group, ...updates } : group,
+      ),
+    );
   };
 
   const renameGroup = (groupId: string, newName: string) => {
-    setGroups(prev => prev.map(group =>
-      group.id === groupId ? { ...group, displayName: newName.trim() } : group
-    ));
-  };
-
-  const addGroupAdmin = (groupId: string, userId: string) => {
-    setGroups(prev => prev.map(group => {
-      if (group.id === groupId) {
-        const updatedAdmins = [...group.admins];
-        if (!updatedAdmins.includes(userId)) {
-          updatedAdmins.push(userId);
-        }
-
-        const updatedMembers = group.members.map(member =>
-          member.id === userId
-            ? {
-                ...member,
-                role: 'admin' as const,
-                permissions: {
-                  canInvite: true,
-                  canRemoveMembers: true,
-                  canEditGroup: true,
-                  canDeleteMessages: true
-                }
-              }
-            : member
-        );
+    setGroups((prev) =>
+      prev.map((group) =>
+        group.id === groupId
+          ? { ...group, displayName: newName.trim() }
+          : group,
+      ),
+    );
+  };
 
-        return { ...group, admins: updatedAdmins, members: updatedMembers };
-      }
-      return group;
-    }));
-  };
-
-  const removeGroupAdmin = (groupId: string, userId: string) => {
-    setGroups(prev => prev.map(group => {
-      if (group.id === groupId && group.createdBy !== userId) { // Can't remove creator
-        const updatedAdmins = group.admins.filter(id => id !== userId);
-
-        const updatedMembers = group.members.map(member =>
-          member.id === userId
-            ? {
-                ...member,
-                role: 'member' as const,
-                permissions: {
-                  canInvite: group.settings.allowMemberInvites,
-                  canRemoveMembers: false,
-                  canEditGroup: false,
-                  canDeleteMessages: false
-                }
-              }
-            : member
-        );
+  // Run a membership change on the server and adopt the result
+  const changeGroup = async (
+    groupId: string,
+    path: string,
+    method: string,
+    body?: object,
+  ): Promise<boolean> => {
+    const data = await groupRequest(
+      `/${encodeURIComponent(groupId)}${path}`,
+      method,
+      body,
+    );
+    if (!data.success) {
+      setError(data.message || "Failed to update group");
+      return false;
+    }
 
-        return { ...group, admins: updatedAdmins, members: updatedMembers };
-      }
-      return group;
-    }));
+    storeServerGroup(groupId, data.group ?? null);
+    return true;
   };
 
-  const removeGroupMember = (groupId: string, userId: string) => {
-    setGroups(prev => prev.map(group => {
-      if (group.id === groupId) {
-        const updatedMembers = group.members.filter(member => member.id !== userId);
-        const updatedAdmins = group.admins.filter(id => id !== userId);
-        return { ...group, members: updatedMembers, admins: updatedAdmins };
+  const addGroupAdmin = (groupId: string, userId: string) =>
+    changeGroup(
+      groupId,
+      `/members/${encodeURIComponent(userId)}/promote`,
+      "POST",
+    );
+
+  const removeGroupAdmin = (groupId: string, userId: string) =>
+    changeGroup(
+      groupId,
+      `/members/${encodeURIComponent(userId)}/demote`,
+      "POST",
+    );
+
+  // Used both when a member is removed and when we leave. The new epoch that
+  // locks the departed member out is started once the group changes (see below).
+  const removeGroupMember = async (
+    groupId: string,
+    userId: string,
+  ): Promise<boolean> => {
+    if (userId === user?.id) {
+      const left = await changeGroup(groupId, "/leave", "POST");
+      if (left) {
+        deleteGroupKeyRing(groupId);
       }
-      return group;
-    }));
+      return left;
+    }
+    return changeGroup(
+      groupId,
+      `/members/${encodeURIComponent(userId)}`,
+      "DELETE",
+    );
   };
 
-  const updateGroupSettings = (groupId: string, settings: Partial<Group['settings']>) => {
-    setGroups(prev => prev.map(group =>
-      group.id === groupId
-        ? { ...group, settings: { ...group.settings, ...settings } }
-        : group
-    ));
+  const inviteGroupMember = (groupId: string, userId: string) =>
+    changeGroup(groupId, "/invite", "POST", { userId });
+
+  const joinGroup = (groupId: string) => changeGroup(groupId, "/join", "POST");
+
+  // A group changed on the server (see the socket `group_updated` event)
+  const applyGroupUpdate = (update: GroupUpdate) => {
+    storeServerGroup(update.groupId, update.group);
   };
 
-  const addFriendByCode = async (code: string, userInfo: { email: string; username?: string }): Promise<boolean> => {
-    try {
-      setIsLoading(true);
-      setError(null);
+  // Whoever is the group's first admin starts a new key epoch whenever the
+  // members no longer match the current one: a departed member still holds
+  // the old key, and a new one can't read it. Until the new epoch reaches
+  // the others they can't send (see encryptForGroup).
+  useEffect(() => {
+    if (!user || !keyPair) return;
 
-      // Validate code format
-      if (!/^[A-Z0-9]{6,12}$/.test(code)) {
-        setError('Invalid code format');
-        return false;
+    for (const group of groups) {
+      if (group.admins[0] !== user.id) continue;
+      const groupKey = currentGroupKey(loadGroupKeyRing(group.id));
+      if (
+        !groupKey ||
+        !isCurrentRoster(
+          groupKey,
+          group.members.map((member) => member.id),
+        )
+      ) {
+        rotateGroupKey(group);
       }
+    }
+  }, [groups, user, keyPair]);
 
-      // Check if user already exists
-      const existingContact = contacts.find(c => c.email === userInfo.email);
-      if (existingContact) {
-        setError('This user is already in your contacts');
-        return false;
-      }
+  // Groups with a rotation under way, so the same epoch isn't started twice
+  const rotatingGroupIdsRef = useRef(new Set<string>());
 
-      // In a real app, this would make an API call to validate the code
-      // For now, we'll simulate a successful addition
-      const newContact: Contact = {
-        id: `contact_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        email: userInfo.email,
-        username: userInfo.username || userInfo.email.split('@')[0],
-        isOnline: Math.random() > 0.5, // Random online status for demo
-        status: 'online',
-        connectionDate: new Date().toISOString(),
-        unreadCount: 0,
-        isFavorite: false,
-        isPinned: false,
-        tags: ['new']
-      };
+  // Start a new key epoch for the group's current members and wrap it for
+  // each of them with the identity key they published. If one hasn't
+  // published keys yet, or they don't hold up (see trustedSigningKey), this
+  // fails and the old epoch stays current, which keeps sending blocked on
+  // the stale roster. The distribution is sent to the members from SocketContext.
+  const rotateGroupKey = async (group: Group): Promise<GroupKeyPair | null> => {
+    const local = loadLocalPreKeys();
+    if (
+      !user ||
+      !keyPair ||
+      !local ||
+      rotatingGroupIdsRef.current.has(group.id)
+    )
+      return null;
+
+    rotatingGroupIdsRef.current.add(group.id);
+    try {
+      const memberKeys = await Promise.all(
+        group.members.map(async (member) => {
+          if (member.id === user.id) {
+            return { userId: member.id, publicKey: keyPair.publicKey };
+          }
+          if (
+            !member.keys ||
+            !(await trustedSigningKey(member.keys, verifiedIdentityKey(member)))
+          ) {
+            throw new Error(
+              `No valid identity key for group member ${member.id}`,
+            );
+          }
+          return { userId: member.id, publicKey: member.keys.identityKey };
+        }),
+      );
+
+      const keyRing = loadGroupKeyRing(group.id);
+      const groupKey = await generateGroupKeyPair(
+        group.id,
+        group.members.map((member) => member.id),
+        (keyRing?.currentVersion ?? 0) + 1,
+        group.settings.encryptionLevel,
+      );
+      const keyDistribution = await createGroupKeyDistribution(
+        groupKey,
+        memberKeys,
+        user.id,
+        local.signing.privateKey,
+      );
+
+      saveGroupKeyRing(addGroupKeyEpoch(keyRing, groupKey));
+      updateGroup(group.id, {
+        keyVersion: groupKey.keyVersion,
+        keyDistribution,
+      });
+      return groupKey;
+    } catch (error) {
+      console.error("Failed to rotate group key:", error);
+      return null;
+    } finally {
+      rotatingGroupIdsRef.current.delete(group.id);
+    }
+  };
+
+  // Store an epoch another member distributed. Past epochs stay in the key
+  // ring so older messages can still be read.
+  const applyGroupKeyDistribution = async (
+    distribution: GroupKeyDistribution,
+    distributorSigningKey: string,
+  ): Promise<boolean> => {
+    if (!user || !keyPair) return false;
 
-      addContact(newContact);
+    try {
+      const groupKey = await openGroupKeyDistribution(
+        distribution,
+        keyPair.privateKey,
+        user.id,
+        distributorSigningKey,
+      );
+      const keyRing = addGroupKeyEpoch(
+        loadGroupKeyRing(groupKey.groupId),
+        groupKey,
+      );
+      saveGroupKeyRing(keyRing);
+      updateGroup(groupKey.groupId, { keyVersion: keyRing.currentVersion });
       return true;
     } catch (error) {
-      console.error('Failed to add friend:', error);
-      setError('Failed to add friend. Please try again.');
+      console.error("Failed to apply group key distribution:", error);
       return false;
-    } finally {
-      setIsLoading(false);
     }
   };
 
-  const sendFriendRequest = async (email: string): Promise<boolean> => {
+  const updateGroupSettings = (
+    groupId: string,
+    settings: Partial<Group["settings"]>,
+  ) => changeGroup(groupId, "", "PATCH", { settings });
+
+  const addFriendByCode = async (code: string): Promise<boolean> => {
     try {
       setIsLoading(true);
       setError(null);
 
-      // Validate email
-      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-      if (!emailRegex.test(email)) {
-        setError('Invalid email address');
+      const normalized = code.trim().toUpperCase();
+      if (!/^[A-Z0-9]{6,12}$/.test(normalized)) {
+        setError("Invalid code format");
         return false;
       }
 
-      // Check if user already exists
-      const existingContact = contacts.find(c => c.email === email);
-      if (existingContact) {
-        setError('This user is already in your contacts');
+      const data = await apiRequest<RedeemInviteResponse>(
+        `/invites/${encodeURIComponent(normalized)}/redeem`,
+        "POST",
+      );
+      if (!data.success) {
+        setError(data.message || "Failed to redeem invite code");
         return false;
       }
 
-      // Check if request already sent
-      const existingRequest = pendingRequests.find(r => r.email === email);
-      if (existingRequest) {
-        setError('Friend request already sent');
-        return false;
+      if (data.type === "group" && data.group) {
+        storeServerGroup(data.group.id, data.group);
+      } else if (data.partner) {
+        addContact(newConnectedContact(data.partner));
       }
-
-      // In a real app, this would send a request to the server
-      // For demo purposes, we'll simulate a pending request
-      const pendingContact: Contact = {
-        id: `pending_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        email,
-        username: email.split('@')[0],
-        isOnline: false,
-        status: 'offline',
-        connectionDate: new Date().toISOString(),
-        unreadCount: 0
-      };
-
-      setPendingRequests(prev => [...prev, pendingContact]);
       return true;
     } catch (error) {
-      console.error('Failed to send friend request:', error);
-      setError('Failed to send friend request. Please try again.');
+      console.error("Failed to add friend:", error);
+      setError("Failed to add friend. Please try again.");
       return false;
     } finally {
       setIsLoading(false);
     }
   };
 
-  const acceptFriendRequest = (contactId: string) => {
-    const request = pendingRequests.find(r => r.id === contactId);
-    if (request) {
-      addContact({ ...request, isOnline: true, status: 'online' });
-      setPendingRequests(prev => prev.filter(r => r.id !== contactId));
+  const loadFriendRequests = async () => {
+    const data = await apiRequest<FriendRequestListResponse>(
+      "/friends/requests",
+      "GET",
+    );
+    if (!data.success) return;
+    setIncomingRequests(data.incoming ?? []);
+    setOutgoingRequests(data.outgoing ?? []);
+  };
+
+  // Run a friend request action, reporting its failure through `error`
+  const friendRequestAction = async <
+    T extends { success: boolean; message?: string },
+  >(
+    path: string,
+    method: string,
+    body?: object,
+  ): Promise<T | null> => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await apiRequest<T>(path, method, body);
+      if (!data.success) {
+        setError(data.message || "Friend request failed. Please try again.");
+        return null;
+      }
+      return data;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const sendFriendRequest = async (handleOrEmail: string): Promise<boolean> => {
+    const recipient = handleOrEmail.trim();
+    const isEmail = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(recipient);
+    const isHandle = /^@?[a-zA-Z][a-zA-Z0-9_]{2,19}$/.test(recipient);
+    if (!isEmail && !isHandle) {
+      setError("Enter a handle or an email address");
+      return false;
+    }
+
+    const data = await friendRequestAction<FriendRequestResponse>(
+      "/friends/requests",
+      "POST",
+      { recipient },
+    );
+    if (!data) return false;
+
+    // They had already asked us, so we're connected straight away
+    if (data.connectionId && data.request) {
+      const partnerId = data.request.fromUserId;
+      setIncomingRequests((prev) =>
+        prev.filter((r) => r.id !== data.request!.id),
+      );
+      addContact(newConnectedContact(data.request.from ?? { id: partnerId }));
+    } else {
+      // The answer doesn't say whether anyone got it; the list does
+      await loadFriendRequests();
     }
+    return true;
+  };
+
+  const acceptFriendRequest = async (requestId: string): Promise<boolean> => {
+    const data = await friendRequestAction<FriendRequestResponse>(
+      `/friends/requests/${encodeURIComponent(requestId)}/accept`,
+      "POST",
+    );
+    if (!data?.request) return false;
+
+    setIncomingRequests((prev) => prev.filter((r) => r.id !== requestId));
+    addContact(
+      newConnectedContact(data.request.from ?? { id: data.request.fromUserId }),
+    );
+    return true;
+  };
+
+  const rejectFriendRequest = async (requestId: string): Promise<boolean> => {
+    const data = await friendRequestAction(
+      `/friends/requests/${encodeURIComponent(requestId)}/reject`,
+      "POST",
+    );
+    if (!data) return false;
+    setIncomingRequests((prev) => prev.filter((r) => r.id !== requestId));
+    return true;
+  };
+
+  const cancelFriendRequest = async (requestId: string): Promise<boolean> => {
+    const data = await friendRequestAction(
+      `/friends/requests/${encodeURIComponent(requestId)}`,
+      "DELETE",
+    );
+    if (!data) return false;
+    setOutgoingRequests((prev) => prev.filter((r) => r.id !== requestId));
+    return true;
+  };
+
+  // Blocking also drops pending requests either way and ends the connection
+  const blockUser = async (userId: string): Promise<boolean> => {
+    const data = await friendRequestAction("/friends/blocks", "POST", {
+      userId,
+    });
+    if (!data) return false;
+    setIncomingRequests((prev) => prev.filter((r) => r.fromUserId !== userId));
+    setOutgoingRequests((prev) => prev.filter((r) => r.toUserId !== userId));
+    removeContact(userId);
+    return true;
   };
 
-  const rejectFriendRequest = (contactId: string) => {
-    setPendingRequests(prev => prev.filter(r => r.id !== contactId));
+  // Follow what the other side did with a request, pushed over the socket
+  const applyFriendRequestUpdate = (update: FriendRequestUpdate) => {
+    const { request } = update;
+    switch (update.action) {
+      case "received":
+        setIncomingRequests((prev) => [
+          ...prev.filter((r) => r.id !== request.id),
+          request,
+        ]);
+        break;
+      case "cancelled":
+        setIncomingRequests((prev) => prev.filter((r) => r.id !== request.id));
+        break;
+      case "accepted":
+        setOutgoingRequests((prev) => prev.filter((r) => r.id !== request.id));
+        addContact(newConnectedContact(request.to ?? { id: request.toUserId }));
+        break;
+      case "rejected":
+        setOutgoingRequests((prev) => prev.filter((r) => r.id !== request.id));
+        break;
+    }
   };
 
   const searchContacts = (query: string): Contact[] => {
     if (!query.trim()) return contacts;
-    
+
     const lowerQuery = query.toLowerCase();
-    return contacts.filter(contact => 
-      contact.email.toLowerCase().includes(lowerQuery) ||
-      contact.username?.toLowerCase().includes(lowerQuery) ||
-      contact.tags?.some(tag => tag.toLowerCase().includes(lowerQuery))
+    return contacts.filter(
+      (contact) =>
+        contact.email.toLowerCase().includes(lowerQuery) ||
+        contact.username?.toLowerCase().includes(lowerQuery) ||
+        contact.profileName?.toLowerCase().includes(lowerQuery) ||
+        contact.tags?.some((tag) => tag.toLowerCase().includes(lowerQuery)),
     );
   };
 
   const getFavoriteContacts = (): Contact[] => {
-    return contacts.filter(contact => contact.isFavorite);
+    return contacts.filter((contact) => contact.isFavorite);
   };
 
   const getOnlineContacts = (): Contact[] => {
-    return contacts.filter(contact => contact.isOnline);
+    return contacts.filter((contact) => contact.isOnline);
   };
 
   const getRecentContacts = (): Contact[] => {
     const oneDayAgo = new Date();
     oneDayAgo.setDate(oneDayAgo.getDate() - 1);
 
-    return contacts.filter(contact =>
-      contact.lastMessage &&
-      new Date(contact.lastMessage.timestamp) > oneDayAgo
-    ).sort((a, b) => {
-      const aTime = a.lastMessage ? new Date(a.lastMessage.timestamp).getTime() : 0;
-      const bTime = b.lastMessage ? new Date(b.lastMessage.timestamp).getTime() : 0;
-      return bTime - aTime;
-    });
+    return contacts
+      .filter(
+        (contact) =>
+          contact.lastMessage &&
+          new Date(contact.lastMessage.timestamp) > oneDayAgo,
+      )
+      .sort((a, b) => {
+        const aTime = a.lastMessage
+          ? new Date(a.lastMessage.timestamp).getTime()
+          : 0;
+        const bTime = b.lastMessage
+          ? new Date(b.lastMessage.timestamp).getTime()
+          : 0;
+        return bTime - aTime;
+      });
   };
 
   const uploadProfilePicture = async (file: File): Promise<string | null> => {
@@ -560,32 +1119,27 @@ export const ContactProvider: React.FC<ContactProviderProps> = ({ children }) =>
       setError(null);
 
       // Validate file type
-      if (!file.type.startsWith('image/')) {
-        setError('Please select a valid image file');
+      if (!file.type.startsWith("image/")) {
+        setError("Please select a valid image file");
         return null;
       }
 
       // Validate file size (max 5MB)
       if (file.size > 5 * 1024 * 1024) {
-        setError('Image size must be less than 5MB');
+        setError("Image size must be less than 5MB");
         return null;
       }
 
-      // Convert to base64 for storage
-      const reader = new FileReader();
-      const base64 = await new Promise<string>((resolve, reject) => {
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = reject;
-        reader.readAsDataURL(file);
-      });
-
-      // Update user profile with new avatar
-      updateUserProfile({ avatar: base64 });
+      // Scaled down before upload; the server only keeps small pictures
+      const avatar = await resizeAvatar(file);
+      if (!(await updateUserProfile({ avatar }))) {
+        return null;
+      }
 
-      return base64;
+      return avatar;
     } catch (error) {
-      console.error('Failed to upload profile picture:', error);
-      setError('Failed to upload profile picture');
+      console.error("Failed to upload profile picture:", error);
+      setError("Failed to upload profile picture");
       return null;
     } finally {
       setIsLoading(false);
@@ -595,20 +1149,30 @@ export const ContactProvider: React.FC<ContactProviderProps> = ({ children }) =>
   const value: ContactContextType = {
     contacts,
     groups,
-    pendingRequests,
+    incomingRequests,
+    outgoingRequests,
     currentInviteCode,
     userProfile,
     addContact,
     removeContact,
     updateContact,
     renameContact,
+    markContactVerified,
+    clearContactVerification,
     updateUserProfile,
+    checkHandleAvailability,
+    groupInvitations,
     createGroup,
     updateGroup,
     renameGroup,
     addGroupAdmin,
     removeGroupAdmin,
     removeGroupMember,
+    inviteGroupMember,
+    joinGroup,
+    applyGroupUpdate,
+    rotateGroupKey,
+    applyGroupKeyDistribution,
     updateGroupSettings,
     generateNewInviteCode,
     forceRefreshInviteCode,
@@ -620,22 +1184,23 @@ export const ContactProvider: React.FC<ContactProviderProps> = ({ children }) =>
     sendFriendRequest,
     acceptFriendRequest,
     rejectFriendRequest,
+    cancelFriendRequest,
+    blockUser,
+    applyFriendRequestUpdate,
     uploadProfilePicture,
     isLoading,
-    error
+    error,
   };
 
   return (
-    <ContactContext.Provider value={value}>
-      {children}
-    </ContactContext.Provider>
+    <ContactContext.Provider value={value}>{children}</ContactContext.Provider>
   );
 };
 
 export const useContacts = (): ContactContextType => {
   const context = useContext(ContactContext);
   if (context === undefined) {
-    throw new Error('useContacts must be used within a ContactProvider');
+    throw new Error("useContacts must be used within a ContactProvider");
   }
   return context;
 };
@@ -1,52 +1,126 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import CryptoJS from 'crypto-js';
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useRef,
+  ReactNode,
+} from "react";
+import {
+  PreKeyBundleResponse,
+  PreKeyCountResponse,
+  PreKeyBundleUpload,
+  OneTimePreKeysUpload,
+} from "@shared/api";
+import { useAuth } from "./AuthContext";
 import {
   generateKeyPair,
-  encryptMessage,
-  decryptMessage,
+  generateFileKey,
   encryptFile,
   decryptFile,
   KeyPair,
+  EnvelopeAad,
   EncryptedMessage,
   EncryptedFile,
-  isValidEncryptedMessage,
   isValidEncryptedFile,
-  cleanEncryptedMessage,
   fileToArrayBuffer,
-  createBlobUrl
-} from '../utils/crypto';
+  createBlobUrl,
+  signData,
+} from "../utils/crypto";
+import {
+  RatchetSession,
+  loadRatchetSession,
+  createRatchetSession,
+  createPreKeyInitiatorSession,
+  createPreKeyResponderSession,
+  deleteRatchetSession,
+  clearRatchetSessions,
+} from "../utils/ratchet";
+import {
+  LocalPreKeys,
+  generatePreKeys,
+  generateOneTimePreKeys,
+  initiateX3DH,
+  respondX3DH,
+  loadLocalPreKeys,
+  saveLocalPreKeys,
+  clearLocalPreKeys,
+  verifySigningKey,
+} from "../utils/x3dh";
 
 interface EncryptionContextType {
   keyPair: KeyPair | null;
   partnerPublicKey: string | null;
-  sharedKey: string | null;
+  partnerId: string | null;
+  isSessionReady: boolean;
   isKeysGenerated: boolean;
   generateKeys: () => Promise<void>;
-  setPartnerPublicKey: (key: string) => void;
-  encryptForPartner: (message: string) => EncryptedMessage | null;
-  decryptFromPartner: (encryptedMessage: EncryptedMessage) => string | null;
-  encryptFileForPartner: (file: File) => Promise<EncryptedFile | null>;
-  decryptFileFromPartner: (encryptedFile: EncryptedFile) => Promise<string | null>;
+  setPartnerPublicKey: (key: string, partnerId: string) => Promise<void>;
+  getSession: (contactId: string) => RatchetSession | null;
+  ensureSession: (contactId: string) => Promise<RatchetSession | null>;
+  decryptFromContact: (
+    contactId: string,
+    envelope: EncryptedMessage,
+  ) => Promise<string>;
+  replenishPreKeys: () => Promise<void>;
+  resetSession: (contactId: string) => Promise<void>;
+  encryptFileForPartner: (
+    file: File,
+    aad: EnvelopeAad,
+  ) => Promise<{ encryptedFile: EncryptedFile; fileKey: string } | null>;
+  decryptFileFromPartner: (
+    encryptedFile: EncryptedFile,
+    fileKey: string,
+  ) => Promise<string | null>;
   clearKeys: () => void;
 }
 
-const EncryptionContext = createContext<EncryptionContextType | undefined>(undefined);
+const EncryptionContext = createContext<EncryptionContextType | undefined>(
+  undefined,
+);
 
 interface EncryptionProviderProps {
   children: ReactNode;
 }
 
-export const EncryptionProvider: React.FC<EncryptionProviderProps> = ({ children }) => {
+// Storage keys. The identity key pair moved to ECDH in protocol v2, so older
+// RSA key pairs and hash-derived shared keys are discarded on load. Static
+// session keys were replaced by per-contact ratchet sessions in v4.
+const KEY_PAIR_STORAGE_KEY = "encryptionKeyPair.v2";
+const PARTNER_KEY_STORAGE_KEY = "partnerPublicKey";
+const PARTNER_ID_STORAGE_KEY = "partnerId";
+const LEGACY_STORAGE_KEYS = [
+  "encryptionKeyPair",
+  "sharedEncryptionKey",
+  "sessionKeys.v2",
+];
+
+export const EncryptionProvider: React.FC<EncryptionProviderProps> = ({
+  children,
+}) => {
+  const { token } = useAuth();
   const [keyPair, setKeyPair] = useState<KeyPair | null>(null);
-  const [partnerPublicKey, setPartnerPublicKeyState] = useState<string | null>(null);
-  const [sharedKey, setSharedKey] = useState<string | null>(null);
+  const [partnerPublicKey, setPartnerPublicKeyState] = useState<string | null>(
+    null,
+  );
+  const [partnerId, setPartnerId] = useState<string | null>(null);
+  const [isSessionReady, setIsSessionReady] = useState(false);
   const [isKeysGenerated, setIsKeysGenerated] = useState(false);
 
+  // Sessions live in a ref so socket handlers registered once always see the
+  // current ratchet state rather than a stale render's copy
+  const sessionsRef = useRef(new Map<string, RatchetSession>());
+  // Same reason: handlers call setPartnerPublicKey/resetSession long after render
+  const latestRef = useRef({ keyPair, partnerId, partnerPublicKey, token });
+  latestRef.current = { keyPair, partnerId, partnerPublicKey, token };
+
   // Load keys from localStorage on mount
   useEffect(() => {
-    const savedKeyPair = localStorage.getItem('encryptionKeyPair');
-    const savedPartnerKey = localStorage.getItem('partnerPublicKey');
-    const savedSharedKey = localStorage.getItem('sharedEncryptionKey');
+    LEGACY_STORAGE_KEYS.forEach((key) => localStorage.removeItem(key));
+
+    const savedKeyPair = localStorage.getItem(KEY_PAIR_STORAGE_KEY);
+    const savedPartnerKey = localStorage.getItem(PARTNER_KEY_STORAGE_KEY);
+    const savedPartnerId = localStorage.getItem(PARTNER_ID_STORAGE_KEY);
 
     if (savedKeyPair) {
       try {
@@ -54,8 +128,8 @@ export const EncryptionProvider: React.FC<EncryptionProviderProps> = ({ children
         setKeyPair(parsedKeyPair);
         setIsKeysGenerated(true);
       } catch (error) {
-        console.error('Failed to load saved key pair:', error);
-        localStorage.removeItem('encryptionKeyPair');
+        console.error("Failed to load saved key pair:", error);
+        localStorage.removeItem(KEY_PAIR_STORAGE_KEY);
       }
     }
 
@@ -63,174 +137,391 @@ export const EncryptionProvider: React.FC<EncryptionProviderProps> = ({ children
       setPartnerPublicKeyState(savedPartnerKey);
     }
 
-    if (savedSharedKey) {
-      setSharedKey(savedSharedKey);
+    if (savedPartnerId) {
+      setPartnerId(savedPartnerId);
+      setIsSessionReady(!!getSession(savedPartnerId));
     }
   }, []);
 
-  // Generate shared key whenever both public keys are available
-  useEffect(() => {
-    if (keyPair?.publicKey && partnerPublicKey && !sharedKey) {
-      console.log('🔑 Both public keys available, generating shared key...');
-      console.log('🔑 My public key length:', keyPair.publicKey.length);
-      console.log('🔑 Partner public key length:', partnerPublicKey.length);
-
-      // Create a consistent shared key by combining and hashing both public keys
-      const combinedKeys = [keyPair.publicKey, partnerPublicKey].sort().join('');
-      const generatedSharedKey = CryptoJS.SHA256(combinedKeys).toString();
-      setSharedKey(generatedSharedKey);
-      localStorage.setItem('sharedEncryptionKey', generatedSharedKey);
-      console.log('✅ Generated shared encryption key from public keys');
+  const getSession = (contactId: string): RatchetSession | null => {
+    const cached = sessionsRef.current.get(contactId);
+    if (cached) return cached;
+
+    const loaded = loadRatchetSession(contactId);
+    if (loaded) {
+      sessionsRef.current.set(contactId, loaded);
     }
-  }, [keyPair?.publicKey, partnerPublicKey, sharedKey]);
+    return loaded;
+  };
 
-  const generateKeys = async () => {
+  const establishSession = async (
+    ownKeyPair: KeyPair,
+    contactId: string,
+    partnerKey: string,
+  ) => {
     try {
-      console.log('Generating encryption keys...');
-      const newKeyPair = await generateKeyPair();
-      setKeyPair(newKeyPair);
-      setIsKeysGenerated(true);
-      
-      // Save to localStorage
-      localStorage.setItem('encryptionKeyPair', JSON.stringify(newKeyPair));
-      console.log('Encryption keys generated successfully');
+      console.log("🔑 Starting ratchet session from identity key agreement...");
+      const session = await createRatchetSession(
+        contactId,
+        ownKeyPair,
+        partnerKey,
+      );
+      sessionsRef.current.set(contactId, session);
+      console.log("✅ Ratchet session established");
     } catch (error) {
-      console.error('Failed to generate encryption keys:', error);
-      throw error;
+      console.error("❌ Key agreement failed:", error);
+      sessionsRef.current.delete(contactId);
+      deleteRatchetSession(contactId);
     }
   };
 
-  const setPartnerPublicKey = (key: string) => {
-    console.log('🔑 setPartnerPublicKey called with key length:', key?.length);
-    console.log('🔑 Current keyPair status:', {
-      hasKeyPair: !!keyPair,
-      hasMyPublicKey: !!keyPair?.publicKey,
-      myKeyLength: keyPair?.publicKey?.length
+  // Start a session once both identity keys are available
+  useEffect(() => {
+    if (
+      keyPair?.privateKey &&
+      partnerPublicKey &&
+      partnerId &&
+      !getSession(partnerId)
+    ) {
+      establishSession(keyPair, partnerId, partnerPublicKey).then(() =>
+        setIsSessionReady(!!getSession(partnerId)),
+      );
+    }
+  }, [keyPair, partnerPublicKey, partnerId]);
+
+  const uploadPreKeys = async (local: LocalPreKeys, authToken: string) => {
+    // Re-sending unused one-time prekeys is harmless; the server de-duplicates them
+    const upload: PreKeyBundleUpload = {
+      identityKey: local.identityKey,
+      signingKey: local.signing.publicKey,
+      identitySignature: local.identitySignature,
+      signedPreKey: {
+        keyId: local.signedPreKey.keyId,
+        publicKey: local.signedPreKey.keyPair.publicKey,
+        signature: local.signedPreKey.signature,
+      },
+      oneTimePreKeys: Object.entries(local.oneTimePreKeys).map(
+        ([keyId, keyPair]) => ({
+          keyId: Number(keyId),
+          publicKey: keyPair.publicKey,
+        }),
+      ),
+    };
+
+    const response = await fetch("/api/keys/bundle", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${authToken}`,
+      },
+      body: JSON.stringify(upload),
     });
+    const data: PreKeyCountResponse = await response.json();
+    if (!data.success) {
+      throw new Error(data.message || "Failed to upload prekeys");
+    }
+    return data;
+  };
 
-    setPartnerPublicKeyState(key);
-    localStorage.setItem('partnerPublicKey', key);
-
-    // Generate shared key from both public keys
-    if (keyPair?.publicKey && key) {
-      console.log('🔑 Generating shared key from both public keys...');
-      // Create a consistent shared key by combining and hashing both public keys
-      const combinedKeys = [keyPair.publicKey, key].sort().join('');
-      const generatedSharedKey = CryptoJS.SHA256(combinedKeys).toString();
-      setSharedKey(generatedSharedKey);
-      localStorage.setItem('sharedEncryptionKey', generatedSharedKey);
-      console.log('✅ Generated shared encryption key from public keys');
-    } else {
-      console.log('❌ Cannot generate shared key - missing keys:', {
-        hasMyKey: !!keyPair?.publicKey,
-        hasPartnerKey: !!key
+  // Publish a prekey bundle so contacts can start sessions while we're offline
+  useEffect(() => {
+    if (!keyPair?.privateKey || !token) return;
+
+    const publish = async () => {
+      try {
+        let local = loadLocalPreKeys();
+        if (!local || local.identityKey !== keyPair.publicKey) {
+          console.log("🔑 Generating prekeys for the current identity...");
+          local = (await generatePreKeys(keyPair)).local;
+          saveLocalPreKeys(local);
+        } else if (
+          !(await verifySigningKey({
+            identityKey: local.identityKey,
+            signingKey: local.signing.publicKey,
+            identitySignature: local.identitySignature,
+          }))
+        ) {
+          // Prekeys from before the identity key signed the signing key
+          local.identitySignature = await signData(
+            keyPair.privateKey,
+            local.signing.publicKey,
+          );
+          saveLocalPreKeys(local);
+        }
+
+        const result = await uploadPreKeys(local, token);
+        console.log(
+          "✅ Prekey bundle published, one-time prekeys:",
+          result.count,
+        );
+        if (result.lowStock) {
+          await replenishPreKeys();
+        }
+      } catch (error) {
+        console.error("❌ Failed to publish prekey bundle:", error);
+      }
+    };
+    publish();
+  }, [keyPair, token]);
+
+  const replenishPreKeys = async () => {
+    const { keyPair: ownKeyPair, token: authToken } = latestRef.current;
+    const local = loadLocalPreKeys();
+    if (!authToken || !local || local.identityKey !== ownKeyPair?.publicKey)
+      return;
+
+    try {
+      // Keep the private halves before the public ones can be handed out
+      const oneTimePreKeys = await generateOneTimePreKeys(local);
+      saveLocalPreKeys(local);
+
+      const upload: OneTimePreKeysUpload = { oneTimePreKeys };
+      const response = await fetch("/api/keys/one-time", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${authToken}`,
+        },
+        body: JSON.stringify(upload),
       });
+      const data: PreKeyCountResponse = await response.json();
+      if (!data.success) {
+        throw new Error(data.message || "Failed to upload one-time prekeys");
+      }
+      console.log("✅ One-time prekeys replenished:", data.count);
+    } catch (error) {
+      console.error("❌ Failed to replenish one-time prekeys:", error);
     }
   };
 
-  const encryptForPartner = (message: string): EncryptedMessage | null => {
-    if (!sharedKey) {
-      console.error('No shared key available for encryption');
-      return null;
-    }
+  const adoptPartnerKey = (contactId: string, key: string) => {
+    if (
+      contactId !== latestRef.current.partnerId &&
+      latestRef.current.partnerId
+    )
+      return;
+
+    setPartnerPublicKeyState(key);
+    setPartnerId(contactId);
+    localStorage.setItem(PARTNER_KEY_STORAGE_KEY, key);
+    localStorage.setItem(PARTNER_ID_STORAGE_KEY, contactId);
+    setIsSessionReady(true);
+  };
+
+  /**
+   * Start a session from the contact's prekey bundle, for when it hasn't been
+   * online at the same time as us yet
+   */
+  const startSessionFromBundle = async (
+    contactId: string,
+  ): Promise<RatchetSession | null> => {
+    const { keyPair: ownKeyPair, token: authToken } = latestRef.current;
+    if (!ownKeyPair?.privateKey || !authToken) return null;
 
     try {
-      console.log('🔒 Encrypting message with shared key...');
-      return encryptMessage(message, sharedKey);
+      const response = await fetch(
+        `/api/keys/bundle/${encodeURIComponent(contactId)}`,
+        {
+          headers: {
+            Authorization: `Bearer ${authToken}`,
+          },
+        },
+      );
+      const data: PreKeyBundleResponse = await response.json();
+      if (!data.success || !data.bundle) {
+        console.log("⏳ No prekey bundle available for", contactId);
+        return null;
+      }
+
+      const { bundle } = data;
+      const { sharedKey, prekey } = await initiateX3DH(ownKeyPair, bundle);
+      const session = await createPreKeyInitiatorSession(
+        contactId,
+        sharedKey,
+        bundle.identityKey,
+        bundle.signedPreKey.publicKey,
+        prekey,
+      );
+      sessionsRef.current.set(contactId, session);
+      adoptPartnerKey(contactId, bundle.identityKey);
+      console.log("✅ Ratchet session established from prekey bundle");
+      return session;
     } catch (error) {
-      console.error('Failed to encrypt message:', error);
+      console.error("❌ Prekey handshake failed:", error);
       return null;
     }
   };
 
-  const decryptFromPartner = (encryptedMessage: EncryptedMessage): string | null => {
-    console.log('🔓 Decryption attempt - Key status:', {
-      hasKeyPair: !!keyPair,
-      hasMyPublicKey: !!keyPair?.publicKey,
-      hasPartnerPublicKey: !!partnerPublicKey,
-      hasSharedKey: !!sharedKey,
-      myKeyLength: keyPair?.publicKey?.length,
-      partnerKeyLength: partnerPublicKey?.length
-    });
+  // A session we can't send on yet gives way to one from the contact's
+  // prekey bundle; without a bundle, messages wait for the contact to speak
+  const ensureSession = async (
+    contactId: string,
+  ): Promise<RatchetSession | null> => {
+    const session = getSession(contactId);
+    return session?.canSend ? session : startSessionFromBundle(contactId);
+  };
 
-    if (!sharedKey) {
-      console.error('❌ No shared key available for decryption');
-      console.error('🔍 Debug info:', {
-        keyPair: !!keyPair,
-        partnerPublicKey: !!partnerPublicKey,
-        sharedKey: !!sharedKey
-      });
-      return null;
+  /**
+   * Decrypt a message from a contact. A message carrying an X3DH header we
+   * haven't seen starts a new session from our prekeys, which replaces the
+   * current one only once the message authenticates.
+   */
+  const decryptFromContact = async (
+    contactId: string,
+    envelope: EncryptedMessage,
+  ): Promise<string> => {
+    const existing = getSession(contactId);
+    const prekey = envelope.prekey;
+
+    if (!prekey || existing?.baseKey === prekey.ephemeralKey) {
+      if (!existing) {
+        throw new Error("No ratchet session for sender");
+      }
+      return existing.decrypt(envelope);
     }
 
-    // Clean and validate the encrypted message
-    const cleanedMessage = cleanEncryptedMessage(encryptedMessage);
-    if (!cleanedMessage) {
-      console.error('❌ Invalid or corrupted encrypted message format');
-      console.error('📦 Original message:', encryptedMessage);
-      return null;
+    const ownKeyPair = latestRef.current.keyPair;
+    const local = loadLocalPreKeys();
+    if (
+      !ownKeyPair?.privateKey ||
+      !local ||
+      local.identityKey !== ownKeyPair.publicKey
+    ) {
+      throw new Error("No prekeys to answer the handshake with");
     }
 
-    console.log('🔓 Attempting to decrypt message with shared key...');
-    console.log('🔑 Shared key available:', !!sharedKey);
-    console.log('📦 Cleaned encrypted message structure:', {
-      contentLength: cleanedMessage.encryptedContent.length,
-      keyLength: cleanedMessage.encryptedKey.length,
-      ivLength: cleanedMessage.iv.length
-    });
+    const sharedKey = await respondX3DH(ownKeyPair, local, prekey);
+    const session = createPreKeyResponderSession(
+      contactId,
+      sharedKey,
+      prekey.identityKey,
+      local.signedPreKey.keyPair,
+      prekey,
+    );
+    const plaintext = await session.decrypt(envelope);
+
+    // One-time prekeys are single use
+    if (prekey.oneTimePreKeyId !== undefined) {
+      delete local.oneTimePreKeys[prekey.oneTimePreKeyId];
+      saveLocalPreKeys(local);
+    }
 
+    if (existing) {
+      console.warn(
+        "⚠️ Contact started a new session from our prekeys, replacing the old one",
+      );
+    }
+    sessionsRef.current.set(contactId, session);
+    adoptPartnerKey(contactId, prekey.identityKey);
+    return plaintext;
+  };
+
+  const generateKeys = async () => {
     try {
-      const result = decryptMessage(cleanedMessage, sharedKey);
-      console.log('✅ Decryption successful in EncryptionContext, result length:', result.length);
-      return result;
+      console.log("Generating encryption keys...");
+      const newKeyPair = await generateKeyPair();
+      setKeyPair(newKeyPair);
+      setIsKeysGenerated(true);
+
+      // A new identity invalidates every session and prekey derived from the old one
+      sessionsRef.current.clear();
+      clearRatchetSessions();
+      clearLocalPreKeys();
+      setIsSessionReady(false);
+
+      // Save to localStorage
+      localStorage.setItem(KEY_PAIR_STORAGE_KEY, JSON.stringify(newKeyPair));
+      console.log("Encryption keys generated successfully");
     } catch (error) {
-      console.error('❌ Failed to decrypt message in EncryptionContext:', error);
-
-      // Check if this might be a key mismatch or data corruption
-      if (error.message.includes('UTF-8') || error.message.includes('malformed')) {
-        console.error('🔑 Data corruption detected - UTF-8 conversion failed');
-        console.error('🔑 This usually means wrong decryption key or corrupted data');
-      } else if (error.message.includes('key')) {
-        console.error('🔑 Key-related error - possible key mismatch');
-      } else if (error.message.includes('Base64')) {
-        console.error('📦 Base64 encoding issue - data may be corrupted');
-      }
+      console.error("Failed to generate encryption keys:", error);
+      throw error;
+    }
+  };
 
-      return null;
+  const setPartnerPublicKey = async (key: string, contactId: string) => {
+    console.log("🔑 setPartnerPublicKey called with key length:", key?.length);
+
+    setPartnerPublicKeyState(key);
+    setPartnerId(contactId);
+    localStorage.setItem(PARTNER_KEY_STORAGE_KEY, key);
+    localStorage.setItem(PARTNER_ID_STORAGE_KEY, contactId);
+
+    // Keep an existing session unless the partner's identity changed
+    const existing = getSession(contactId);
+    if (existing && existing.partnerIdentityKey === key) {
+      setIsSessionReady(true);
+      return;
+    }
+
+    if (existing) {
+      console.warn("⚠️ Partner identity key changed, starting a new session");
+    }
+
+    const ownKeyPair = latestRef.current.keyPair;
+    if (ownKeyPair?.privateKey && key) {
+      await establishSession(ownKeyPair, contactId, key);
+      setIsSessionReady(!!getSession(contactId));
+    } else {
+      // The effect above starts the session once our key pair is ready
+      sessionsRef.current.delete(contactId);
+      deleteRatchetSession(contactId);
+      setIsSessionReady(false);
+      console.log("⏳ Deferring key agreement until our key pair is available");
     }
   };
 
-  const encryptFileForPartner = async (file: File): Promise<EncryptedFile | null> => {
-    if (!sharedKey) {
-      console.error('No shared key available for file encryption');
-      return null;
+  const resetSession = async (contactId: string) => {
+    console.log("🔄 Resetting ratchet session for", contactId);
+    sessionsRef.current.delete(contactId);
+    deleteRatchetSession(contactId);
+
+    const latest = latestRef.current;
+    const partnerKey =
+      contactId === latest.partnerId ? latest.partnerPublicKey : null;
+    if (latest.keyPair?.privateKey && partnerKey) {
+      await establishSession(latest.keyPair, contactId, partnerKey);
+    }
+    if (contactId === latest.partnerId) {
+      setIsSessionReady(!!getSession(contactId));
     }
+  };
 
+  const encryptFileForPartner = async (
+    file: File,
+    aad: EnvelopeAad,
+  ): Promise<{ encryptedFile: EncryptedFile; fileKey: string } | null> => {
     try {
+      // Each file gets its own key, which is sent inside a ratchet message
+      const fileKey = generateFileKey();
       const arrayBuffer = await fileToArrayBuffer(file);
-      return encryptFile(arrayBuffer, file.name, file.type, sharedKey);
+      const encryptedFile = await encryptFile(
+        arrayBuffer,
+        file.name,
+        file.type,
+        fileKey,
+        aad,
+      );
+      return { encryptedFile, fileKey };
     } catch (error) {
-      console.error('Failed to encrypt file:', error);
+      console.error("Failed to encrypt file:", error);
       return null;
     }
   };
 
-  const decryptFileFromPartner = async (encryptedFile: EncryptedFile): Promise<string | null> => {
-    if (!sharedKey) {
-      console.error('No shared key available for file decryption');
-      return null;
-    }
-
+  const decryptFileFromPartner = async (
+    encryptedFile: EncryptedFile,
+    fileKey: string,
+  ): Promise<string | null> => {
     if (!isValidEncryptedFile(encryptedFile)) {
-      console.error('Invalid encrypted file format');
+      console.error("Invalid encrypted file format");
       return null;
     }
 
     try {
-      const decryptedData = decryptFile(encryptedFile, sharedKey);
+      const decryptedData = await decryptFile(encryptedFile, fileKey);
       return createBlobUrl(decryptedData, encryptedFile.fileType);
     } catch (error) {
-      console.error('Failed to decrypt file:', error);
+      console.error("Failed to decrypt file:", error);
       return null;
     }
   };
@@ -238,22 +529,30 @@ export const EncryptionProvider: React.FC<EncryptionProviderProps> = ({ children
   const clearKeys = () => {
     setKeyPair(null);
     setPartnerPublicKeyState(null);
-    setSharedKey(null);
+    setPartnerId(null);
+    setIsSessionReady(false);
     setIsKeysGenerated(false);
-    localStorage.removeItem('encryptionKeyPair');
-    localStorage.removeItem('partnerPublicKey');
-    localStorage.removeItem('sharedEncryptionKey');
+    sessionsRef.current.clear();
+    clearRatchetSessions();
+    clearLocalPreKeys();
+    localStorage.removeItem(KEY_PAIR_STORAGE_KEY);
+    localStorage.removeItem(PARTNER_KEY_STORAGE_KEY);
+    localStorage.removeItem(PARTNER_ID_STORAGE_KEY);
   };
 
   const value: EncryptionContextType = {
     keyPair,
     partnerPublicKey,
-    sharedKey,
+    partnerId,
+    isSessionReady,
     isKeysGenerated,
     generateKeys,
     setPartnerPublicKey,
-    encryptForPartner,
-    decryptFromPartner,
+    getSession,
+    ensureSession,
+    decryptFromContact,
+    replenishPreKeys,
+    resetSession,
     encryptFileForPartner,
     decryptFileFromPartner,
     clearKeys,
@@ -269,7 +568,7 @@ export const EncryptionProvider: React.FC<EncryptionProviderProps> = ({ children
 export const useEncryption = (): EncryptionContextType => {
   const context = useContext(EncryptionContext);
   if (context === undefined) {
-    throw new Error('useEncryption must be used within an EncryptionProvider');
+    throw new Error("useEncryption must be used within an EncryptionProvider");
   }
   return context;
 };
@@ -1,49 +1,245 @@
-import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { io, Socket } from 'socket.io-client';
-import { useAuth } from './AuthContext';
-import { useEncryption } from './EncryptionContext';
-import { WebSocketMessage, ChatMessage, MediaContent } from '@shared/api';
-import { EncryptedMessage, EncryptedFile, isValidEncryptedMessage, isValidEncryptedFile, cleanEncryptedMessage } from '../utils/crypto';
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  ReactNode,
+} from "react";
+import { io, Socket } from "socket.io-client";
+import { useAuth } from "./AuthContext";
+import { useEncryption } from "./EncryptionContext";
+import { useContacts, verifiedIdentityKey } from "./ContactContext";
+import {
+  WebSocketMessage,
+  ChatMessage,
+  MediaContent,
+  DeliveryStatus,
+  DeliveryNotice,
+  FriendRequestUpdate,
+  GroupUpdate,
+  MessageChangeRequest,
+  MessageDeletion,
+  MessageEdit,
+  MessagePin,
+  MessageReaction,
+  MessageSentNotice,
+  OutgoingSocketMessage,
+  ReadReceiptNotice,
+  ReadReceiptRequest,
+  UserDeletedNotice,
+} from "@shared/api";
+import {
+  EncryptedMessage,
+  EncryptedFile,
+  isValidEncryptedMessage,
+  isValidEncryptedFile,
+  cleanEncryptedMessage,
+} from "../utils/crypto";
+import {
+  GroupEncryptedMessage,
+  currentGroupKey,
+  decryptFromGroup,
+  encryptForGroup,
+  isCurrentRoster,
+  isValidGroupEncryptedMessage,
+  isValidGroupKeyDistribution,
+  loadGroupKeyRing,
+  trustedSigningKey,
+} from "../utils/groupCrypto";
+import { loadLocalPreKeys } from "../utils/x3dh";
+import {
+  applyDeletion,
+  applyEdit,
+  canEditMessage,
+  isWithinEditWindow,
+  parseDeletion,
+  parseEdit,
+} from "../utils/messageEdits";
+import {
+  applyReaction,
+  hasReacted,
+  parseReaction,
+} from "../utils/messageReactions";
+import {
+  PinnedMessage,
+  addPin,
+  loadPins,
+  parsePin,
+  pinsKey,
+  removePin,
+  savePins,
+  syncPins,
+} from "../utils/pinnedMessages";
 
 interface SocketContextType {
   socket: Socket | null;
   isConnected: boolean;
   messages: ChatMessage[];
-  sendMessage: (content: string, type?: string) => void;
+  sendMessage: (
+    content: string,
+    type?: string,
+    replyTo?: string,
+  ) => Promise<void>;
   sendFile: (file: File) => Promise<void>;
+  editMessage: (messageId: string, text: string) => Promise<boolean>;
+  deleteMessage: (messageId: string) => Promise<boolean>;
+  canDeleteMessage: (message: ChatMessage) => boolean;
+  toggleReaction: (messageId: string, emoji: string) => Promise<void>;
+  pinnedMessages: PinnedMessage[];
+  canPinMessages: boolean;
+  togglePin: (messageId: string) => Promise<void>;
   sendTyping: (isTyping: boolean) => void;
   partnerTyping: boolean;
   partnerOnline: boolean;
   clearMessages: () => void;
   keyExchangeComplete: boolean;
+  resetEncryptionSession: () => Promise<void>;
+  strictEncryption: boolean;
+  setStrictEncryption: (enabled: boolean) => void;
+  queuedMessageCount: number;
+  sendError: string | null; // Why the last group message couldn't be sent
+}
+
+// A message accepted for sending but not yet on the wire
+interface OutgoingMessage {
+  id: string;
+  senderId: string;
+  timestamp: string;
+  content: string;
+  type: string;
+  replyTo?: string;
+  target?: { id: string }; // The message an edit or deletion changes
+}
+
+// A 1:1 ratchet envelope, or a group one (see utils/groupCrypto)
+type Envelope = EncryptedMessage | GroupEncryptedMessage;
+
+// Strict mode never sends plaintext; it is on unless the user turns it off
+const STRICT_ENCRYPTION_STORAGE_KEY = "strictEncryption";
+
+// The server takes at most this many message IDs per read receipt
+const READ_RECEIPT_BATCH = 100;
+
+// How far along each status is. Receipts can overtake the server's answer to
+// a send, so a status never moves back.
+const DELIVERY_PROGRESS: Record<DeliveryStatus, number> = {
+  sending: 0,
+  sent: 1,
+  queued: 1,
+  failed: 1,
+  expired: 2,
+  delivered: 3,
+  read: 4,
+};
+
+// A message we've shown but haven't sent a read receipt for yet
+interface UnreadMessage {
+  messageId: string; // The sender's ID for it
+  senderId: string;
 }
 
 const SocketContext = createContext<SocketContextType | undefined>(undefined);
 
 interface SocketProviderProps {
   children: ReactNode;
+  // The user this provider's 1:1 conversation is with. Without one, sends
+  // have nowhere to go and the server rejects them.
+  recipientId?: string;
+  // Set instead of recipientId for a group conversation
+  groupId?: string;
 }
 
-export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
-  const { token, isAuthenticated, user } = useAuth();
+export const SocketProvider: React.FC<SocketProviderProps> = ({
+  children,
+  recipientId,
+  groupId,
+}) => {
+  const { token, isAuthenticated, user, logout } = useAuth();
   const {
     keyPair,
     partnerPublicKey,
-    sharedKey,
-    encryptForPartner,
-    decryptFromPartner,
+    partnerId,
+    isSessionReady,
+    getSession,
+    ensureSession,
+    decryptFromContact,
+    encryptFileForPartner,
+    replenishPreKeys,
+    resetSession,
     decryptFileFromPartner,
     setPartnerPublicKey,
     generateKeys,
-    isKeysGenerated
+    isKeysGenerated,
   } = useEncryption();
-  
+  const {
+    groups,
+    updateGroup,
+    applyGroupUpdate,
+    applyGroupKeyDistribution,
+    applyFriendRequestUpdate,
+    removeContact,
+  } = useContacts();
+
   const [socket, setSocket] = useState<Socket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [partnerTyping, setPartnerTyping] = useState(false);
   const [partnerOnline, setPartnerOnline] = useState(false);
   const [keyExchangeComplete, setKeyExchangeComplete] = useState(false);
+  const [strictEncryption, setStrictEncryptionState] = useState(
+    () => localStorage.getItem(STRICT_ENCRYPTION_STORAGE_KEY) !== "false",
+  );
+  const [queuedMessageCount, setQueuedMessageCount] = useState(0);
+  const [sendError, setSendError] = useState<string | null>(null);
+  const conversationPinsKey = pinsKey(groupId, recipientId);
+  const [pinnedMessages, setPinnedMessages] = useState<PinnedMessage[]>(() =>
+    loadPins(conversationPinsKey),
+  );
+
+  // Socket handlers are registered once, so they read strict mode through a ref
+  const strictEncryptionRef = useRef(strictEncryption);
+  strictEncryptionRef.current = strictEncryption;
+  const recipientIdRef = useRef(recipientId);
+  recipientIdRef.current = recipientId;
+  const groupIdRef = useRef(groupId);
+  groupIdRef.current = groupId;
+  const applyGroupUpdateRef = useRef(applyGroupUpdate);
+  applyGroupUpdateRef.current = applyGroupUpdate;
+  const applyGroupKeyDistributionRef = useRef(applyGroupKeyDistribution);
+  applyGroupKeyDistributionRef.current = applyGroupKeyDistribution;
+  const applyFriendRequestUpdateRef = useRef(applyFriendRequestUpdate);
+  applyFriendRequestUpdateRef.current = applyFriendRequestUpdate;
+  const removeContactRef = useRef(removeContact);
+  removeContactRef.current = removeContact;
+  const groupsRef = useRef(groups);
+  groupsRef.current = groups;
+  const readReceiptsRef = useRef(user?.readReceipts !== false);
+  readReceiptsRef.current = user?.readReceipts !== false;
+  // Access tokens rotate every few minutes; reconnects should use the latest
+  const tokenRef = useRef(token);
+  tokenRef.current = token;
+  const logoutRef = useRef(logout);
+  logoutRef.current = logout;
+
+  // Other conversations share the socket; events from their users aren't ours
+  const isFromOtherConversation = (userId: string) =>
+    !!recipientIdRef.current && userId !== recipientIdRef.current;
+
+  // Messages waiting for a session in strict mode, sent in order once one exists
+  const outgoingQueueRef = useRef<OutgoingMessage[]>([]);
+  const isFlushingRef = useRef(false);
+
+  // The server redelivers anything we haven't acknowledged, so the same
+  // message can arrive twice; only the first copy is shown
+  const receivedMessageIdsRef = useRef(new Set<string>());
+
+  // Messages that arrived while the tab was hidden wait here until it's shown
+  const unreadMessagesRef = useRef<UnreadMessage[]>([]);
+
+  // Incoming messages are handled one at a time, so a key epoch is in place
+  // before the messages sent under it are decrypted
+  const receiveChainRef = useRef<Promise<void>>(Promise.resolve());
 
   // Generate keys when socket provider initializes
   useEffect(() => {
@@ -54,41 +250,56 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
 
   // Check if key exchange is complete
   useEffect(() => {
-    setKeyExchangeComplete(!!(keyPair && partnerPublicKey && sharedKey));
-  }, [keyPair, partnerPublicKey, sharedKey]);
+    setKeyExchangeComplete(!!(keyPair && partnerPublicKey && isSessionReady));
+  }, [keyPair, partnerPublicKey, isSessionReady]);
+
+  // Pins belong to the conversation; switching loads its own
+  useEffect(() => {
+    setPinnedMessages(loadPins(conversationPinsKey));
+  }, [conversationPinsKey]);
+
+  // Remember what pinned messages say, since the messages don't outlive a reload
+  useEffect(() => {
+    setPinnedMessages((prev) => syncPins(prev, messages));
+  }, [messages]);
+
+  useEffect(() => {
+    if (conversationPinsKey) {
+      savePins(conversationPinsKey, pinnedMessages);
+    }
+  }, [pinnedMessages]);
 
   useEffect(() => {
     if (isAuthenticated && token && !socket && isKeysGenerated) {
-      console.log('Initializing Socket.IO connection...');
-      const newSocket = io('/', {
-        auth: {
-          token,
-        },
-        transports: ['polling', 'websocket'], // Fallback to polling if websocket fails
+      console.log("Initializing Socket.IO connection...");
+      const newSocket = io("/", {
+        auth: (callback) => callback({ token: tokenRef.current }),
+        transports: ["polling", "websocket"], // Fallback to polling if websocket fails
         upgrade: true,
         rememberUpgrade: true,
         timeout: 5000, // 5 second timeout
         forceNew: true, // Force new connection
       });
 
-      newSocket.on('connect', () => {
-        console.log('✅ Connected to chat server');
+      newSocket.on("connect", () => {
+        console.log("✅ Connected to chat server");
         setIsConnected(true);
         clearTimeout(connectionTimeout);
 
         // Send user info to server
         if (user) {
-          newSocket.emit('user_join', {
+          newSocket.emit("user_join", {
             userId: user.id,
-            userEmail: user.email
+            userEmail: user.email,
           });
         }
 
         // Send public key for key exchange
         if (keyPair?.publicKey) {
-          console.log('📤 Sending public key for key exchange');
-          newSocket.emit('key_exchange', {
-            publicKey: keyPair.publicKey
+          console.log("📤 Sending public key for key exchange");
+          newSocket.emit("key_exchange", {
+            publicKey: keyPair.publicKey,
+            recipientId: recipientIdRef.current,
           });
         }
       });
@@ -96,186 +307,428 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
       // Set up connection timeout fallback
       const connectionTimeout = setTimeout(() => {
         if (!newSocket.connected) {
-          console.log('⚠️ Socket connection timeout, enabling fallback mode');
+          console.log("⚠️ Socket connection timeout, enabling fallback mode");
           setIsConnected(true); // Allow chat to work without real-time features
           setPartnerOnline(true); // Assume partner is online for better UX
-          console.log('📝 Fallback mode: Messages will be stored locally only');
+          console.log("📝 Fallback mode: Messages will be stored locally only");
         }
       }, 5000); // Increased timeout to 5 seconds
 
-      newSocket.on('disconnect', () => {
-        console.log('Disconnected from chat server');
+      newSocket.on("disconnect", () => {
+        console.log("Disconnected from chat server");
         setIsConnected(false);
         setPartnerOnline(false);
       });
 
       // Handle key exchange
-      newSocket.on('key_exchange', (data: { publicKey: string; userId: string }) => {
-        console.log('📜 Received partner public key for key exchange from:', data.userId);
-        console.log('📜 Public key length:', data.publicKey?.length);
-        if (data.publicKey && data.publicKey.length > 0) {
-          setPartnerPublicKey(data.publicKey);
-          console.log('✅ Partner public key set successfully');
-        } else {
-          console.error('❌ Invalid public key received');
-        }
+      newSocket.on(
+        "key_exchange",
+        (data: { publicKey: string; userId: string }) => {
+          if (isFromOtherConversation(data.userId)) return;
+          console.log(
+            "📜 Received partner public key for key exchange from:",
+            data.userId,
+          );
+          console.log("📜 Public key length:", data.publicKey?.length);
+          if (data.publicKey && data.publicKey.length > 0) {
+            setPartnerPublicKey(data.publicKey, data.userId);
+            console.log("✅ Partner public key set successfully");
+          } else {
+            console.error("❌ Invalid public key received");
+          }
+        },
+      );
+
+      // Partner restarted the ratchet (e.g. after losing its state); follow suit
+      newSocket.on("session_reset", (data: { userId: string }) => {
+        console.log("🔄 Partner reset the encryption session:", data.userId);
+        resetSession(data.userId);
+      });
+
+      // Others have been consuming our one-time prekeys; upload a fresh batch
+      newSocket.on("prekeys_low", (data: { remaining: number }) => {
+        console.log("🔑 One-time prekeys running low:", data.remaining);
+        replenishPreKeys();
       });
 
-      newSocket.on('message', async (wsMessage: WebSocketMessage) => {
-        console.log('Received message:', wsMessage);
-        
+      const handleMessage = async (wsMessage: WebSocketMessage) => {
+        console.log("Received message:", wsMessage);
+
         switch (wsMessage.type) {
-          case 'message':
-            console.log('📨 Received message:', wsMessage.data);
-            console.log('👤 Current user ID:', user?.id);
-            console.log('📤 Message sender ID:', wsMessage.data.senderId);
+          case "group_message":
+          case "message": {
+            // Key epochs are kept whichever conversation is open
+            if (wsMessage.data.type === "key_distribution") {
+              await receiveKeyDistribution(newSocket, wsMessage.data);
+              break;
+            }
+
+            // Group messages only in that group's view, 1:1 messages only
+            // outside groups; the rest are left unacknowledged and stay queued
+            const messageGroupId: string | undefined = wsMessage.data.groupId;
+            if (messageGroupId !== groupIdRef.current) {
+              break;
+            }
+
+            console.log("📨 Received message:", wsMessage.data);
+            console.log("👤 Current user ID:", user?.id);
+            console.log("📤 Message sender ID:", wsMessage.data.senderId);
 
             // Don't add messages from the current user to avoid duplicates
             if (wsMessage.data.senderId === user?.id) {
-              console.log('❌ Ignoring echo message from self');
+              console.log("❌ Ignoring echo message from self");
               break;
             }
 
-            console.log('✅ Adding partner message to chat');
+            // Left unacknowledged, so it stays queued for that conversation
+            if (isFromOtherConversation(wsMessage.data.senderId)) {
+              break;
+            }
+
+            const queuedId: string | undefined = wsMessage.data.messageId;
+            if (queuedId && receivedMessageIdsRef.current.has(queuedId)) {
+              // Our earlier acknowledgement was lost; repeat it
+              console.log("🔁 Ignoring redelivered message:", queuedId);
+              newSocket.emit("message_ack", {
+                messageId: queuedId,
+                groupId: messageGroupId,
+              });
+              break;
+            }
+            if (queuedId) {
+              receivedMessageIdsRef.current.add(queuedId);
+            }
+
+            console.log("✅ Adding partner message to chat");
 
             let content = wsMessage.data.content;
-            console.log('📦 Message content type:', typeof content);
-            console.log('📦 Message content:', content);
-            console.log('🔐 Key exchange complete:', keyExchangeComplete);
-
-            // Handle encrypted/plain text messages and media
-            console.log('📦 Processing received message...', { type: wsMessage.data.type });
-            console.log('📦 Content type:', typeof content, 'Content:', content);
-
-            // Check if this is a text/emoji message and handle encryption/plain text
-            if (wsMessage.data.type === 'text' || wsMessage.data.type === 'emoji') {
-              if (typeof content === 'object' && content !== null) {
-                console.log('🔐 Received object content, checking if encrypted...');
-
-                // Try to clean and validate the encrypted message
-                const cleanedEncrypted = cleanEncryptedMessage(content);
-                if (cleanedEncrypted) {
-                  console.log('🔓 Valid encrypted message detected, attempting decryption...');
-
-                  const decryptedContent = decryptFromPartner(cleanedEncrypted);
-                  if (decryptedContent && decryptedContent.length > 0) {
-                    console.log('✅ Successfully decrypted text message, length:', decryptedContent.length);
-                    content = decryptedContent;
-                  } else {
-                    console.warn('⚠️ Decryption returned empty/null content');
-                    content = '🔒 [Encrypted message - unable to decrypt]';
-                  }
-                } else {
-                  // Not a valid encrypted message, try to handle as plain object
-                  console.log('📝 Object is not encrypted, converting to string...');
-                  try {
-                    content = JSON.stringify(content);
-                    console.log('📝 Converted object to JSON string');
-                  } catch {
-                    content = String(content);
-                    console.log('📝 Converted object to string');
-                  }
+            let messageType = wsMessage.data.type;
+            let messageId =
+              queuedId ?? `${wsMessage.data.senderId}-${wsMessage.timestamp}`;
+            // From the relay for plaintext; an envelope's own aad replaces it
+            let replyTo: string | undefined =
+              typeof wsMessage.data.replyTo === "string"
+                ? wsMessage.data.replyTo
+                : undefined;
+            let wasEncrypted = false;
+            let placeholder: string | null = null;
+            console.log("📦 Processing received message...", {
+              type: messageType,
+              contentType: typeof content,
+            });
+
+            // Text and media both arrive inside ratchet envelopes, or group
+            // envelopes in a group; open those first
+            if (typeof content === "object" && content !== null) {
+              const groupEnvelope =
+                messageGroupId && isValidGroupEncryptedMessage(content)
+                  ? content
+                  : null;
+              const cleanedEncrypted = groupEnvelope
+                ? null
+                : cleanEncryptedMessage(content);
+              if (groupEnvelope) {
+                try {
+                  content = await decryptGroupMessage(
+                    groupEnvelope,
+                    wsMessage.data.senderId,
+                  );
+                  messageId = groupEnvelope.messageId;
+                  replyTo = groupEnvelope.replyTo;
+                  wasEncrypted = true;
+                  console.log(
+                    "✅ Successfully decrypted group message, length:",
+                    content.length,
+                  );
+                } catch (error) {
+                  console.warn(
+                    "⚠️ Group decryption failed or envelope was tampered with:",
+                    error,
+                  );
+                  placeholder = "🔒 [Encrypted message - unable to decrypt]";
+                }
+              } else if (
+                cleanedEncrypted &&
+                cleanedEncrypted.aad.senderId !== wsMessage.data.senderId
+              ) {
+                // The relay-stamped sender must match the authenticated one
+                console.error(
+                  "❌ Envelope sender does not match relayed sender",
+                );
+                placeholder = "🔒 [Encrypted message - sender mismatch]";
+              } else if (cleanedEncrypted) {
+                console.log(
+                  "🔓 Valid encrypted message detected, decrypting through ratchet session...",
+                );
+                try {
+                  content = await decryptFromContact(
+                    wsMessage.data.senderId,
+                    cleanedEncrypted,
+                  );
+                  messageId = cleanedEncrypted.aad.messageId;
+                  replyTo = cleanedEncrypted.aad.replyTo;
+                  wasEncrypted = true;
+                  console.log(
+                    "✅ Successfully decrypted message, length:",
+                    content.length,
+                  );
+                } catch (error) {
+                  console.warn(
+                    "⚠️ Decryption failed or envelope was tampered with:",
+                    error,
+                  );
+                  placeholder = "🔒 [Encrypted message - unable to decrypt]";
+                }
+              } else if (
+                "ciphertext" in content ||
+                "encryptedContent" in content
+              ) {
+                // Ciphertext from a client on an older or newer wire format
+                console.warn(
+                  "⚠️ Unsupported encrypted message version:",
+                  (content as any).v,
+                );
+                placeholder =
+                  "🔒 [Encrypted message - unsupported protocol version]";
+              }
+            }
+
+            // In strict mode a plaintext message is a downgrade, not a fallback
+            if (!wasEncrypted && !placeholder && strictEncryptionRef.current) {
+              console.warn("⚠️ Rejecting unencrypted message in strict mode");
+              placeholder =
+                "🔓 [Unencrypted message rejected - strict encryption is on]";
+            }
+
+            // Edits, deletions and reactions change a message we already
+            // have. One we can't read is dropped rather than shown.
+            if (
+              messageType === "edit" ||
+              messageType === "delete" ||
+              messageType === "reaction" ||
+              messageType === "pin"
+            ) {
+              if (!placeholder && typeof content === "string") {
+                applyMessageChange(
+                  messageType,
+                  content,
+                  wsMessage.data.senderId,
+                  wsMessage.data.timestamp,
+                );
+              }
+              if (queuedId) {
+                newSocket.emit("message_ack", {
+                  messageId: queuedId,
+                  groupId: messageGroupId,
+                });
+              }
+              break;
+            }
+
+            if (placeholder) {
+              content = placeholder;
+              messageType = "text";
+            } else if (messageType === "text" || messageType === "emoji") {
+              if (typeof content === "object" && content !== null) {
+                // Not an envelope, try to handle as plain object
+                console.log(
+                  "📝 Object is not encrypted, converting to string...",
+                );
+                try {
+                  content = JSON.stringify(content);
+                } catch {
+                  content = String(content);
                 }
-              } else if (typeof content === 'string') {
-                console.log('📝 Received plain text message, length:', content.length);
-                // Content is already plain text, no decryption needed
-              } else {
-                console.warn('⚠️ Unexpected content format for text message:', typeof content, content);
+              } else if (typeof content !== "string") {
+                console.warn(
+                  "⚠️ Unexpected content format for text message:",
+                  typeof content,
+                  content,
+                );
                 content = String(content);
-                console.log('📝 Converted to string as fallback');
               }
-            } else if (wsMessage.data.type && ['image', 'video', 'file'].includes(wsMessage.data.type)) {
-              console.log('📁 Processing media message...');
+            } else if (
+              messageType &&
+              ["image", "video", "file"].includes(messageType)
+            ) {
+              console.log("📁 Processing media message...");
               try {
                 // Parse media content
-                const mediaContent: MediaContent = typeof content === 'string'
-                  ? JSON.parse(content)
-                  : content;
+                const mediaContent: MediaContent =
+                  typeof content === "string" ? JSON.parse(content) : content;
 
-                // Check if the media data is encrypted
-                if (typeof mediaContent.data === 'string' && mediaContent.data.startsWith('{')) {
+                // Encrypted files carry their per-file key inside the envelope
+                if (
+                  typeof mediaContent.data === "string" &&
+                  mediaContent.data.startsWith("{") &&
+                  mediaContent.fileKey
+                ) {
                   try {
                     const encryptedFile = JSON.parse(mediaContent.data);
                     if (isValidEncryptedFile(encryptedFile)) {
-                      console.log('🔓 Attempting to decrypt file...');
-                      const decryptedUrl = await decryptFileFromPartner(encryptedFile);
+                      console.log("🔓 Attempting to decrypt file...");
+                      const decryptedUrl = await decryptFileFromPartner(
+                        encryptedFile,
+                        mediaContent.fileKey,
+                      );
                       if (decryptedUrl) {
                         mediaContent.data = decryptedUrl;
-                        console.log('✅ Successfully decrypted file');
+                        console.log("✅ Successfully decrypted file");
                       } else {
-                        console.error('❌ Failed to decrypt file');
-                        mediaContent.data = '#'; // Placeholder
+                        console.error("❌ Failed to decrypt file");
+                        mediaContent.data = "#"; // Placeholder
                       }
                     }
                   } catch (parseError) {
-                    console.log('📝 Media data is not encrypted JSON');
+                    console.log("📝 Media data is not encrypted JSON");
                   }
                 }
+                delete mediaContent.fileKey;
 
                 content = mediaContent;
               } catch (error) {
-                console.error('❌ Media processing error:', error);
-                content = '[Failed to process media]';
+                console.error("❌ Media processing error:", error);
+                content = "[Failed to process media]";
               }
             } else {
-              console.log('📝 Message is plain text or emoji');
-              if (typeof content !== 'string') {
-                console.warn('⚠️ Non-string content received, converting:', content);
+              console.log("📝 Message is plain text or emoji");
+              if (typeof content !== "string") {
+                console.warn(
+                  "⚠️ Non-string content received, converting:",
+                  content,
+                );
                 content = String(content);
               }
             }
 
             const chatMessage: ChatMessage = {
-              id: `${wsMessage.data.senderId}-${wsMessage.timestamp}`,
+              id: messageId,
               senderId: wsMessage.data.senderId,
               content: content as string,
               timestamp: wsMessage.data.timestamp,
-              type: wsMessage.data.type,
+              type: messageType,
+              ...(replyTo && !placeholder && { replyTo }),
             };
-            setMessages(prev => [...prev, chatMessage]);
+            setMessages((prev) => [...prev, chatMessage]);
+
+            // Acknowledge even if it couldn't be decrypted; a redelivery wouldn't help
+            if (queuedId) {
+              newSocket.emit("message_ack", {
+                messageId: queuedId,
+                groupId: messageGroupId,
+              });
+              unreadMessagesRef.current.push({
+                messageId: queuedId,
+                senderId: wsMessage.data.senderId,
+              });
+              sendReadReceipts(newSocket);
+            }
             break;
-            
-          case 'typing':
+          }
+
+          case "typing":
+            if (wsMessage.data.groupId !== groupIdRef.current) break;
+            if (isFromOtherConversation(wsMessage.data.userId)) break;
             setPartnerTyping(wsMessage.data.isTyping);
             // Clear typing indicator after 3 seconds if no update
             if (wsMessage.data.isTyping) {
               setTimeout(() => setPartnerTyping(false), 3000);
             }
             break;
-            
-          case 'user_connected':
+
+          case "user_connected":
+            if (isFromOtherConversation(wsMessage.data.userId)) break;
             setPartnerOnline(true);
             // Request key exchange when partner connects
             if (keyPair?.publicKey) {
-              newSocket.emit('key_exchange', { 
-                publicKey: keyPair.publicKey 
+              newSocket.emit("key_exchange", {
+                publicKey: keyPair.publicKey,
+                recipientId: wsMessage.data.userId,
               });
             }
             break;
-            
-          case 'user_disconnected':
+
+          case "user_disconnected":
+            if (isFromOtherConversation(wsMessage.data.userId)) break;
             setPartnerOnline(false);
             setPartnerTyping(false);
             break;
-            
-          case 'error':
-            console.error('WebSocket error:', wsMessage.data);
+
+          case "error":
+            console.error("WebSocket error:", wsMessage.data);
             break;
         }
+      };
+
+      newSocket.on("message", (wsMessage: WebSocketMessage) => {
+        receiveChainRef.current = receiveChainRef.current
+          .then(() => handleMessage(wsMessage))
+          .catch((error) =>
+            console.error("❌ Failed to handle message:", error),
+          );
       });
 
-      newSocket.on('message_sent', (data: { success: boolean }) => {
-        if (data.success) {
-          console.log('Message sent successfully');
+      newSocket.on("message_sent", (data: MessageSentNotice) => {
+        if (!data.messageId) return;
+        if (!data.success) {
+          console.warn("❌ Server refused message:", data.message);
+          updateDeliveryStatus([data.messageId], "failed");
+          return;
+        }
+
+        console.log("Message sent successfully");
+        if (data.queued) {
+          console.log(
+            "📭 Partner offline, message queued until",
+            data.expiresAt,
+          );
         }
+        updateDeliveryStatus([data.messageId], data.queued ? "queued" : "sent");
       });
 
-      newSocket.on('connect_error', (error: any) => {
-        console.error('❌ Socket connection error:', error);
+      // Membership or roles changed in one of our groups
+      newSocket.on("group_updated", (update: GroupUpdate) => {
+        applyGroupUpdateRef.current(update);
       });
 
-      newSocket.on('error', (error: any) => {
-        console.error('❌ Socket error:', error);
+      // Someone sent, answered or withdrew a friend request
+      newSocket.on("friend_request_updated", (update: FriendRequestUpdate) => {
+        applyFriendRequestUpdateRef.current(update);
+      });
+
+      // A contact deleted their account
+      newSocket.on("user_deleted", (notice: UserDeletedNotice) => {
+        removeContactRef.current(notice.userId);
+      });
+
+      // This session was signed out from another device
+      newSocket.on("session_revoked", () => {
+        console.warn("🔒 Session revoked, signing out");
+        logoutRef.current();
+      });
+
+      newSocket.on("message_delivered", (data: DeliveryNotice) => {
+        updateDeliveryStatus([data.messageId], "delivered");
+      });
+
+      newSocket.on("message_read", (data: ReadReceiptNotice) => {
+        updateDeliveryStatus(data.messageIds, "read");
+      });
+
+      newSocket.on("message_expired", (data: DeliveryNotice) => {
+        console.warn(
+          "⌛ Message expired before it was delivered:",
+          data.messageId,
+        );
+        updateDeliveryStatus([data.messageId], "expired");
+      });
+
+      newSocket.on("connect_error", (error: any) => {
+        console.error("❌ Socket connection error:", error);
+      });
+
+      newSocket.on("error", (error: any) => {
+        console.error("❌ Socket error:", error);
       });
 
       setSocket(newSocket);
@@ -289,77 +742,635 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
       }
       clearTimeout(connectionTimeout);
     };
-  }, [isAuthenticated, token, isKeysGenerated, keyPair]);
+  }, [isAuthenticated, isKeysGenerated, keyPair]);
+
+  // Read receipts for messages that arrived while the tab was hidden
+  useEffect(() => {
+    if (!socket) return;
+    const onVisibilityChange = () => sendReadReceipts(socket);
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () =>
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+  }, [socket]);
 
-  const sendMessage = (content: string, type: string = 'text') => {
-    console.log('📤 Attempting to send message:', { content, type, isConnected });
+  const updateDeliveryStatus = (
+    messageIds: string[],
+    deliveryStatus: DeliveryStatus,
+  ) => {
+    const ids = new Set(messageIds);
+    setMessages((prev) =>
+      prev.map((message) =>
+        ids.has(message.id) &&
+        DELIVERY_PROGRESS[deliveryStatus] >
+          DELIVERY_PROGRESS[message.deliveryStatus ?? "sending"]
+          ? { ...message, deliveryStatus }
+          : message,
+      ),
+    );
+  };
 
-    if (!content.trim()) {
-      console.warn('⚠️ Empty message content, not sending');
+  // Tell senders we've seen their messages, once the conversation is in
+  // view. With read receipts off, the messages are just forgotten.
+  const sendReadReceipts = (target: Socket) => {
+    if (
+      document.visibilityState !== "visible" ||
+      unreadMessagesRef.current.length === 0
+    )
       return;
+
+    const unread = unreadMessagesRef.current;
+    unreadMessagesRef.current = [];
+    if (!readReceiptsRef.current) return;
+
+    // In a group the messages have different senders, each told separately
+    const bySender = new Map<string, string[]>();
+    for (const { messageId, senderId } of unread) {
+      bySender.set(senderId, [...(bySender.get(senderId) ?? []), messageId]);
     }
 
-    // Always add message to local state immediately for better UX
-    const localMessage: ChatMessage = {
-      id: `${user?.id}-${Date.now()}`,
-      senderId: user?.id || '',
-      content: content, // Always show original content locally
-      timestamp: new Date().toISOString(),
-      type: type as any,
+    for (const [senderId, messageIds] of bySender) {
+      for (
+        let start = 0;
+        start < messageIds.length;
+        start += READ_RECEIPT_BATCH
+      ) {
+        const receipt: ReadReceiptRequest = {
+          messageIds: messageIds.slice(start, start + READ_RECEIPT_BATCH),
+          ...(groupIdRef.current
+            ? { groupId: groupIdRef.current, senderId }
+            : { recipientId: senderId }),
+        };
+        target.emit("message_read", receipt);
+      }
+    }
+  };
+
+  // A new key epoch from one of a group's admins, checked against a signing
+  // key their identity key vouches for. One for a group we haven't loaded yet
+  // is left unacknowledged, so it comes again on the next connection.
+  const receiveKeyDistribution = async (
+    target: Socket,
+    data: WebSocketMessage["data"],
+  ) => {
+    const group = groupsRef.current.find((g) => g.id === data.groupId);
+    if (!group) return;
+
+    const distributor = group.members.find(
+      (member) => member.id === data.senderId,
+    );
+    const signingKey =
+      distributor &&
+      (await trustedSigningKey(
+        distributor.keys,
+        verifiedIdentityKey(distributor),
+      ));
+    const distribution = data.content;
+    if (
+      distributor?.role === "admin" &&
+      signingKey &&
+      isValidGroupKeyDistribution(distribution) &&
+      distribution.groupId === group.id &&
+      distribution.createdBy === distributor.id
+    ) {
+      if (
+        await applyGroupKeyDistributionRef.current(distribution, signingKey)
+      ) {
+        console.log(
+          "🔑 New key epoch for group",
+          group.id,
+          distribution.keyVersion,
+        );
+      }
+    } else {
+      console.warn(
+        "⚠️ Dropping group key distribution that is not from a trusted admin of the group",
+      );
+    }
+
+    // Acknowledged even if it didn't apply; the same copy won't do better later
+    if (data.messageId) {
+      target.emit("message_ack", {
+        messageId: data.messageId,
+        groupId: data.groupId,
+      });
+    }
+  };
+
+  // Whether someone may delete the message: its sender, or in a group a
+  // member whose role allows deleting messages
+  const canDeleteAs = (
+    userId: string | undefined,
+    message: ChatMessage,
+  ): boolean => {
+    if (!userId || message.deletedAt) return false;
+    if (message.senderId === userId) return true;
+    const group = groupIdRef.current
+      ? groupsRef.current.find((g) => g.id === groupIdRef.current)
+      : undefined;
+    return !!group?.members.find((member) => member.id === userId)?.permissions
+      .canDeleteMessages;
+  };
+
+  const canDeleteMessage = (message: ChatMessage) =>
+    canDeleteAs(user?.id, message);
+
+  // Anyone in a 1:1 chat; in a group, members who can edit it
+  const canPinAs = (userId: string | undefined): boolean => {
+    if (!userId) return false;
+    if (!groupIdRef.current) return true;
+    const group = groupsRef.current.find((g) => g.id === groupIdRef.current);
+    return !!group?.members.find((member) => member.id === userId)?.permissions
+      .canEditGroup;
+  };
+
+  const canPinMessages = canPinAs(user?.id);
+
+  // Someone edited, deleted or reacted to a message. The change is applied
+  // only if they were allowed to make it, and an edit only inside the edit
+  // window.
+  const applyMessageChange = (
+    type: "edit" | "delete" | "reaction" | "pin",
+    content: string,
+    actorId: string,
+    at: string,
+  ) => {
+    if (type === "pin") {
+      const pin = parsePin(content);
+      if (!pin || !canPinAs(actorId)) return;
+      setPinnedMessages((prev) =>
+        pin.unpin
+          ? removePin(prev, pin.targetId)
+          : addPin(prev, {
+              messageId: pin.targetId,
+              pinnedBy: actorId,
+              pinnedAt: at,
+            }),
+      );
+      return;
+    }
+
+    if (type === "reaction") {
+      const reaction = parseReaction(content);
+      if (!reaction) return;
+      setMessages((prev) =>
+        prev.map((message) =>
+          message.id === reaction.targetId && !message.deletedAt
+            ? applyReaction(message, actorId, reaction.emoji, reaction.remove)
+            : message,
+        ),
+      );
+      return;
+    }
+
+    if (type === "edit") {
+      const edit = parseEdit(content);
+      if (!edit) return;
+      setMessages((prev) =>
+        prev.map((message) =>
+          message.id === edit.targetId &&
+          message.senderId === actorId &&
+          message.type === "text" &&
+          !message.deletedAt &&
+          isWithinEditWindow(message.timestamp, at)
+            ? applyEdit(message, edit.text, at)
+            : message,
+        ),
+      );
+      return;
+    }
+
+    const deletion = parseDeletion(content);
+    if (!deletion) return;
+    setMessages((prev) =>
+      prev.map((message) =>
+        message.id === deletion.targetId && canDeleteAs(actorId, message)
+          ? applyDeletion(message, actorId, at)
+          : message,
+      ),
+    );
+  };
+
+  // The ID doubles as the server's queue key, so it has to be unique per message
+  const newMessageId = () =>
+    `${user?.id}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+  // Send the key epochs we started (see ContactContext.rotateGroupKey) to the
+  // rest of each group. The relay queues them for members who are offline.
+  useEffect(() => {
+    if (!socket?.connected || !user) return;
+
+    for (const group of groups) {
+      const distribution = group.keyDistribution;
+      if (!distribution || distribution.createdBy !== user.id) continue;
+
+      const message: OutgoingSocketMessage = {
+        messageId: newMessageId(),
+        groupId: group.id,
+        content: distribution,
+        type: "key_distribution",
+      };
+      socket.emit("send_group_message", message);
+      updateGroup(group.id, { keyDistribution: undefined });
+    }
+  }, [groups, socket, isConnected]);
+
+  const createLocalMessage = (content: string, type: string): ChatMessage => ({
+    id: newMessageId(),
+    senderId: user?.id || "",
+    content: content, // Always show original content locally
+    timestamp: new Date().toISOString(),
+    type: type as any,
+    deliveryStatus: "sending",
+  });
+
+  // Open a group envelope with the epoch it was sent in. The signature is
+  // checked against the relayed sender's signing key, taken only if their
+  // identity key vouches for it, never one named by the envelope.
+  const decryptGroupMessage = async (
+    envelope: GroupEncryptedMessage,
+    senderId: string,
+  ): Promise<string> => {
+    if (envelope.senderId !== senderId) {
+      throw new Error("Envelope sender does not match relayed sender");
+    }
+
+    const group = groupsRef.current.find((g) => g.id === envelope.groupId);
+    const sender = group?.members.find((member) => member.id === senderId);
+    const keyRing = loadGroupKeyRing(envelope.groupId);
+    if (!sender?.keys || !keyRing) {
+      throw new Error("No keys for this group message");
+    }
+    const signingKey = await trustedSigningKey(
+      sender.keys,
+      verifiedIdentityKey(sender),
+    );
+    if (!signingKey) {
+      throw new Error("No trusted signing key for this group message sender");
+    }
+    return decryptFromGroup(envelope, keyRing, signingKey);
+  };
+
+  // Encrypt to the group's current key epoch and sign it. Without an epoch
+  // for the group's current members this throws, saying why for the user.
+  const encryptGroupOutgoing = async (
+    outgoing: OutgoingMessage,
+  ): Promise<GroupEncryptedMessage> => {
+    const group = groupsRef.current.find((g) => g.id === groupIdRef.current);
+    if (!group) {
+      throw new Error("This group is no longer available");
+    }
+    const local = loadLocalPreKeys();
+    if (!local) {
+      throw new Error(
+        "Your encryption keys aren't ready yet. Try again in a moment.",
+      );
+    }
+
+    const groupKey = currentGroupKey(loadGroupKeyRing(group.id));
+    const memberIds = group.members.map((member) => member.id);
+    if (!groupKey || !isCurrentRoster(groupKey, memberIds)) {
+      throw new Error(
+        group.admins[0] === outgoing.senderId
+          ? "Can't send yet: the group's key is being renewed, or a member hasn't set up encryption."
+          : "Can't send yet: waiting for an admin to share the group's new key.",
+      );
+    }
+
+    return encryptForGroup(
+      outgoing.content,
+      groupKey,
+      memberIds,
+      outgoing.senderId,
+      local.signing.privateKey,
+      {
+        messageId: outgoing.id,
+        timestamp: outgoing.timestamp,
+        replyTo: outgoing.replyTo,
+      },
+    );
+  };
+
+  // Encrypt through the partner's ratchet session; null if there is none yet
+  const encryptOutgoing = async (
+    outgoing: OutgoingMessage,
+  ): Promise<EncryptedMessage | null> => {
+    // Falls back to the partner's prekey bundle if we've never been online together
+    const session = partnerId ? await ensureSession(partnerId) : null;
+    if (!session) return null;
+
+    return session.encrypt(outgoing.content, {
+      senderId: outgoing.senderId,
+      messageId: outgoing.id,
+      timestamp: outgoing.timestamp,
+      ...(outgoing.replyTo && { replyTo: outgoing.replyTo }),
+    });
+  };
+
+  const emitOutgoing = (
+    outgoing: OutgoingMessage,
+    content: string | Envelope,
+  ) => {
+    const message: OutgoingSocketMessage = {
+      messageId: outgoing.id,
+      ...(groupIdRef.current
+        ? { groupId: groupIdRef.current }
+        : { recipientId: recipientIdRef.current }),
+      content,
+      type: outgoing.type,
+      // An envelope already carries it, authenticated
+      ...(outgoing.replyTo &&
+        typeof content === "string" && { replyTo: outgoing.replyTo }),
     };
-    setMessages(prev => [...prev, localMessage]);
-
-    if (isConnected || !socket) { // Allow fallback mode
-      let messageContent: string | EncryptedMessage = content;
-
-      // Encrypt message if keys are available and it's a text/emoji message
-      console.log('🔐 Key exchange complete:', keyExchangeComplete);
-      console.log('🔑 Available keys:', { hasKeyPair: !!keyPair, hasPartnerKey: !!partnerPublicKey, hasSharedKey: !!sharedKey });
-
-      if (keyExchangeComplete && sharedKey && (type === 'text' || type === 'emoji')) {
-        console.log('🔒 Encryption available - encrypting text/emoji message...');
-        try {
-          const encrypted = encryptForPartner(content);
-          if (encrypted) {
-            console.log('✅ Message encrypted successfully');
-            messageContent = encrypted;
-          } else {
-            console.warn('⚠️ Encryption failed, sending plain text');
-            messageContent = content;
-          }
-        } catch (error) {
-          console.warn('⚠️ Encryption error, sending plain text:', error);
-          messageContent = content;
-        }
-      } else {
-        console.log('📝 No encryption available or not text message - sending plain');
-        messageContent = content;
+
+    if (outgoing.target) {
+      const change: MessageChangeRequest = {
+        ...message,
+        targetId: outgoing.target.id,
+      };
+      socket?.emit(
+        outgoing.type === "edit" ? "edit_message" : "delete_message",
+        change,
+      );
+      return;
+    }
+
+    socket?.emit(
+      groupIdRef.current ? "send_group_message" : "send_message",
+      message,
+    );
+  };
+
+  // Strict mode: send only as an envelope. Returns false if it has to wait.
+  const sendEncrypted = async (outgoing: OutgoingMessage): Promise<boolean> => {
+    if (!socket?.connected) return false;
+
+    try {
+      const envelope = await encryptOutgoing(outgoing);
+      if (!envelope) return false;
+
+      console.log("📤 Sending encrypted message via socket");
+      emitOutgoing(outgoing, envelope);
+      return true;
+    } catch (error) {
+      console.error("❌ Encryption failed, keeping message queued:", error);
+      return false;
+    }
+  };
+
+  const flushOutgoingQueue = async () => {
+    if (isFlushingRef.current) return;
+    isFlushingRef.current = true;
+
+    try {
+      // Strictly in order; stop at the first message that still can't go out
+      while (outgoingQueueRef.current.length > 0) {
+        const sent = await sendEncrypted(outgoingQueueRef.current[0]);
+        if (!sent) break;
+        outgoingQueueRef.current.shift();
+        setQueuedMessageCount(outgoingQueueRef.current.length);
       }
+    } finally {
+      isFlushingRef.current = false;
+    }
+  };
 
-      // Send to server or simulate in fallback mode
-      if (socket && socket.connected) {
-        console.log('📤 Sending message via socket');
-        socket.emit('send_message', { content: messageContent, type });
-      } else {
-        console.log('🔄 Socket not connected, message stored locally only');
-        // In fallback mode, messages are only stored locally
-        // This allows the app to work even without a server connection
+  // Send whatever was queued as soon as a session and connection exist
+  useEffect(() => {
+    if (isSessionReady && isConnected && outgoingQueueRef.current.length > 0) {
+      flushOutgoingQueue();
+    }
+  }, [isSessionReady, isConnected, partnerId, socket]);
+
+  // Group messages are only ever sent encrypted, whatever strict mode says,
+  // and never wait in the queue: there's no telling when a missing key epoch
+  // will arrive, so the message fails and the user is told why
+  const dispatchGroupMessage = async (outgoing: OutgoingMessage) => {
+    if (!socket?.connected) {
+      updateDeliveryStatus([outgoing.id], "failed");
+      return;
+    }
+
+    try {
+      const envelope = await encryptGroupOutgoing(outgoing);
+      console.log("📤 Sending encrypted group message via socket");
+      emitOutgoing(outgoing, envelope);
+      setSendError(null);
+    } catch (error) {
+      console.warn("⚠️ Group message not sent:", error);
+      updateDeliveryStatus([outgoing.id], "failed");
+      setSendError(
+        error instanceof Error
+          ? error.message
+          : "Failed to encrypt message for group",
+      );
+    }
+  };
+
+  const dispatchMessage = async (outgoing: OutgoingMessage) => {
+    if (groupIdRef.current) {
+      await dispatchGroupMessage(outgoing);
+      return;
+    }
+
+    if (strictEncryption) {
+      // Queued messages stay queued even if strict mode is later turned off
+      outgoingQueueRef.current.push(outgoing);
+      setQueuedMessageCount(outgoingQueueRef.current.length);
+      await flushOutgoingQueue();
+
+      if (outgoingQueueRef.current.includes(outgoing)) {
+        console.log("⏳ No encryption session yet, message queued");
       }
+      return;
+    }
+
+    if (!isConnected && socket) {
+      console.warn("⚠️ Not connected and no fallback mode");
+      updateDeliveryStatus([outgoing.id], "failed");
+      return;
+    }
+
+    let messageContent: string | Envelope = outgoing.content;
+    try {
+      messageContent = (await encryptOutgoing(outgoing)) ?? outgoing.content;
+    } catch (error) {
+      console.warn("⚠️ Encryption error, sending plain text:", error);
+    }
+    if (typeof messageContent === "string") {
+      console.log("📝 No encryption available - sending plain");
+    }
+
+    // Send to server or simulate in fallback mode
+    if (socket && socket.connected) {
+      console.log("📤 Sending message via socket");
+      emitOutgoing(outgoing, messageContent);
     } else {
-      console.warn('⚠️ Not connected and no fallback mode');
+      console.log("🔄 Socket not connected, message stored locally only");
+      // In fallback mode, messages are only stored locally
+      // This allows the app to work even without a server connection
+      updateDeliveryStatus([outgoing.id], "failed");
     }
   };
 
+  const sendMessage = async (
+    content: string,
+    type: string = "text",
+    replyTo?: string,
+  ) => {
+    console.log("📤 Attempting to send message:", {
+      content,
+      type,
+      isConnected,
+      strictEncryption,
+    });
+
+    if (!content.trim()) {
+      console.warn("⚠️ Empty message content, not sending");
+      return;
+    }
+
+    // Always add message to local state immediately for better UX
+    const localMessage: ChatMessage = {
+      ...createLocalMessage(content, type),
+      ...(replyTo && { replyTo }),
+    };
+    setMessages((prev) => [...prev, localMessage]);
+
+    await dispatchMessage({
+      id: localMessage.id,
+      senderId: localMessage.senderId,
+      timestamp: localMessage.timestamp,
+      content,
+      type,
+      replyTo,
+    });
+  };
+
+  // Change one of our messages for everyone. It changes here straight away;
+  // the others see it once the change reaches them.
+  const editMessage = async (
+    messageId: string,
+    text: string,
+  ): Promise<boolean> => {
+    const target = messages.find((message) => message.id === messageId);
+    const newText = text.trim();
+    if (!target || !newText || !canEditMessage(target, user?.id)) return false;
+    if (newText === target.content) return true;
+
+    const edit: MessageEdit = { targetId: messageId, text: newText };
+    const outgoing: OutgoingMessage = {
+      id: newMessageId(),
+      senderId: user!.id,
+      timestamp: new Date().toISOString(),
+      content: JSON.stringify(edit),
+      type: "edit",
+      target: { id: target.id },
+    };
+    setMessages((prev) =>
+      prev.map((message) =>
+        message.id === messageId
+          ? applyEdit(message, newText, outgoing.timestamp)
+          : message,
+      ),
+    );
+    await dispatchMessage(outgoing);
+    return true;
+  };
+
+  const deleteMessage = async (messageId: string): Promise<boolean> => {
+    const target = messages.find((message) => message.id === messageId);
+    if (!target || !canDeleteMessage(target)) return false;
+
+    const deletion: MessageDeletion = { targetId: messageId };
+    const outgoing: OutgoingMessage = {
+      id: newMessageId(),
+      senderId: user!.id,
+      timestamp: new Date().toISOString(),
+      content: JSON.stringify(deletion),
+      type: "delete",
+      target: { id: target.id },
+    };
+    setMessages((prev) =>
+      prev.map((message) =>
+        message.id === messageId
+          ? applyDeletion(message, outgoing.senderId, outgoing.timestamp)
+          : message,
+      ),
+    );
+    await dispatchMessage(outgoing);
+    return true;
+  };
+
+  // React to a message, or take the reaction back if we already reacted
+  // with that emoji
+  const toggleReaction = async (messageId: string, emoji: string) => {
+    const target = messages.find((message) => message.id === messageId);
+    if (!target || target.deletedAt || !user) return;
+
+    const reaction: MessageReaction = {
+      targetId: messageId,
+      emoji,
+      ...(hasReacted(target, user.id, emoji) && { remove: true }),
+    };
+    setMessages((prev) =>
+      prev.map((message) =>
+        message.id === messageId
+          ? applyReaction(message, user.id, emoji, reaction.remove)
+          : message,
+      ),
+    );
+    await dispatchMessage({
+      id: newMessageId(),
+      senderId: user.id,
+      timestamp: new Date().toISOString(),
+      content: JSON.stringify(reaction),
+      type: "reaction",
+    });
+  };
+
+  // Pin a message for everyone in the conversation, or unpin it
+  const togglePin = async (messageId: string) => {
+    if (!user || !canPinMessages) return;
+    const unpin = pinnedMessages.some((pin) => pin.messageId === messageId);
+    const target = messages.find((message) => message.id === messageId);
+    if (!unpin && (!target || target.deletedAt)) return;
+
+    const pin: MessagePin = {
+      targetId: messageId,
+      ...(unpin && { unpin: true }),
+    };
+    const pinnedAt = new Date().toISOString();
+    setPinnedMessages((prev) =>
+      unpin
+        ? removePin(prev, messageId)
+        : addPin(prev, { messageId, pinnedBy: user.id, pinnedAt }),
+    );
+    await dispatchMessage({
+      id: newMessageId(),
+      senderId: user.id,
+      timestamp: pinnedAt,
+      content: JSON.stringify(pin),
+      type: "pin",
+    });
+  };
+
   const sendTyping = (isTyping: boolean) => {
     if (socket && socket.connected) {
-      socket.emit('typing', { isTyping });
+      if (groupIdRef.current) {
+        socket.emit("group_typing", { groupId: groupIdRef.current, isTyping });
+      } else {
+        socket.emit("typing", {
+          isTyping,
+          recipientId: recipientIdRef.current,
+        });
+      }
     }
     // In fallback mode, typing indicators are disabled
   };
 
   const sendFile = async (file: File): Promise<void> => {
     try {
-      // Convert file to base64 for transmission
+      // Convert file to base64 for local display
       const reader = new FileReader();
       const fileData = await new Promise<string>((resolve, reject) => {
         reader.onload = () => resolve(reader.result as string);
@@ -368,24 +1379,63 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
       });
 
       // Create media content
-      const mediaContent = {
+      const mediaContent: MediaContent = {
         data: fileData,
         fileName: file.name,
         fileType: file.type,
-        fileSize: file.size
+        fileSize: file.size,
       };
 
       // Send as message with type based on file type
-      let messageType = 'file';
-      if (file.type.startsWith('image/')) {
-        messageType = 'image';
-      } else if (file.type.startsWith('video/')) {
-        messageType = 'video';
+      let messageType = "file";
+      if (file.type.startsWith("image/")) {
+        messageType = "image";
+      } else if (file.type.startsWith("video/")) {
+        messageType = "video";
       }
 
-      sendMessage(JSON.stringify(mediaContent), messageType);
+      const localMessage = createLocalMessage(
+        JSON.stringify(mediaContent),
+        messageType,
+      );
+      let wireContent = localMessage.content as string;
+
+      // Encrypt the file under its own key; the key rides inside the ratchet
+      // or group envelope. Group messages are always encrypted.
+      if (
+        groupIdRef.current ||
+        strictEncryption ||
+        (partnerId && getSession(partnerId))
+      ) {
+        const encrypted = await encryptFileForPartner(file, {
+          senderId: localMessage.senderId,
+          messageId: localMessage.id,
+          timestamp: localMessage.timestamp,
+        });
+        if (!encrypted) {
+          throw new Error("Failed to encrypt file");
+        }
+
+        const encryptedMedia: MediaContent = {
+          data: JSON.stringify(encrypted.encryptedFile),
+          fileName: file.name,
+          fileType: file.type,
+          fileSize: file.size,
+          fileKey: encrypted.fileKey,
+        };
+        wireContent = JSON.stringify(encryptedMedia);
+      }
+
+      setMessages((prev) => [...prev, localMessage]);
+      await dispatchMessage({
+        id: localMessage.id,
+        senderId: localMessage.senderId,
+        timestamp: localMessage.timestamp,
+        content: wireContent,
+        type: messageType,
+      });
     } catch (error) {
-      console.error('Failed to send file:', error);
+      console.error("Failed to send file:", error);
       throw error;
     }
   };
@@ -394,30 +1444,53 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
     setMessages([]);
   };
 
+  const setStrictEncryption = (enabled: boolean) => {
+    setStrictEncryptionState(enabled);
+    localStorage.setItem(STRICT_ENCRYPTION_STORAGE_KEY, String(enabled));
+  };
+
+  // Restart the ratchet with the current partner and ask them to do the same
+  const resetEncryptionSession = async () => {
+    if (!partnerId) return;
+
+    await resetSession(partnerId);
+    socket?.emit("session_reset", { recipientId: partnerId });
+  };
+
   const value: SocketContextType = {
     socket,
     isConnected,
     messages,
     sendMessage,
     sendFile,
+    editMessage,
+    deleteMessage,
+    canDeleteMessage,
+    toggleReaction,
+    pinnedMessages,
+    canPinMessages,
+    togglePin,
     sendTyping,
     partnerTyping,
     partnerOnline,
     clearMessages,
     keyExchangeComplete,
+    resetEncryptionSession,
+    strictEncryption,
+    setStrictEncryption,
+    queuedMessageCount,
+    sendError,
   };
 
   return (
-    <SocketContext.Provider value={value}>
-      {children}
-    </SocketContext.Provider>
+    <SocketContext.Provider value={value}>{children}</SocketContext.Provider>
   );
 };
 
 export const useSocket = (): SocketContextType => {
   const context = useContext(SocketContext);
   if (context === undefined) {
-    throw new Error('useSocket must be used within a SocketProvider');
+    throw new Error("useSocket must be used within a SocketProvider");
   }
   return context;
 };
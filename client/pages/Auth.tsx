@@ -1,17 +1,23 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { motion, AnimatePresence } from 'framer-motion';
-import { useAuth } from '../contexts/AuthContext';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Alert, AlertDescription } from '@/components/ui/alert';
-import { 
-  Loader2, 
-  Shield, 
-  MessageCircle, 
-  Lock, 
-  Eye, 
+import React, { useState, useEffect, useRef } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { useAuth } from "../contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Loader2,
+  Shield,
+  MessageCircle,
+  Lock,
+  Eye,
   EyeOff,
   Sparkles,
   Zap,
@@ -28,17 +34,18 @@ import {
   Heart,
   Star,
   Cpu,
-  Rocket
-} from 'lucide-react';
+  Rocket,
+} from "lucide-react";
 
 export default function Auth() {
-  const { login, signup } = useAuth();
+  const { login, signup, completeTwoFactorLogin, requestPasswordReset } =
+    useAuth();
   const [isLogin, setIsLogin] = useState(true);
   const [isLoading, setIsLoading] = useState(false);
-  const [email, setEmail] = useState('');
-  const [password, setPassword] = useState('');
-  const [confirmPassword, setConfirmPassword] = useState('');
-  const [error, setError] = useState('');
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState("");
   const [showPassword, setShowPassword] = useState(false);
   const [focusedField, setFocusedField] = useState<string | null>(null);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
@@ -46,12 +53,19 @@ export default function Auth() {
   const [passwordStrength, setPasswordStrength] = useState(0);
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
   const [currentTheme, setCurrentTheme] = useState(0);
+  // Set once the password checks out on an account with 2FA
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [isForgotPassword, setIsForgotPassword] = useState(false);
+  const [notice, setNotice] = useState("");
   const emailRef = useRef<HTMLInputElement>(null);
   const passwordRef = useRef<HTMLInputElement>(null);
   const confirmPasswordRef = useRef<HTMLInputElement>(null);
 
   // Optimized particles - reduced from 50 to 6 for performance
-  const [particles, setParticles] = useState<Array<{ id: number; x: number; y: number; delay: number }>>([]);
+  const [particles, setParticles] = useState<
+    Array<{ id: number; x: number; y: number; delay: number }>
+  >([]);
 
   useEffect(() => {
     // Generate fewer, more efficient particles
@@ -59,7 +73,7 @@ export default function Auth() {
       id: i,
       x: Math.random() * 100,
       y: Math.random() * 100,
-      delay: Math.random() * 2
+      delay: Math.random() * 2,
     }));
     setParticles(newParticles);
 
@@ -70,28 +84,28 @@ export default function Auth() {
       mouseTimeout = setTimeout(() => {
         setMousePosition({
           x: (e.clientX / window.innerWidth) * 100,
-          y: (e.clientY / window.innerHeight) * 100
+          y: (e.clientY / window.innerHeight) * 100,
         });
       }, 16); // ~60fps throttling
     };
 
     // Auto theme cycling
     const themeInterval = setInterval(() => {
-      setCurrentTheme(prev => (prev + 1) % 4);
+      setCurrentTheme((prev) => (prev + 1) % 4);
     }, 15000);
 
     // Listen for online/offline status
     const handleOnline = () => setIsOnline(true);
     const handleOffline = () => setIsOnline(false);
-    
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
-    window.addEventListener('mousemove', handleMouseMove);
-    
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    window.addEventListener("mousemove", handleMouseMove);
+
     return () => {
-      window.removeEventListener('online', handleOnline);
-      window.removeEventListener('offline', handleOffline);
-      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      window.removeEventListener("mousemove", handleMouseMove);
       clearInterval(themeInterval);
       clearTimeout(mouseTimeout);
     };
@@ -111,103 +125,184 @@ export default function Auth() {
     setPasswordStrength(calculateStrength(password));
   }, [password]);
 
+  const handleTwoFactorSubmit = async () => {
+    if (!challengeToken || !twoFactorCode.trim()) {
+      setError("Please enter your authentication code");
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const result = await completeTwoFactorLogin(
+        challengeToken,
+        twoFactorCode.trim(),
+      );
+      if (result.success) {
+        setShowSuccess(true);
+        setTimeout(() => setShowSuccess(false), 3000);
+      } else {
+        setError(result.message || "An error occurred");
+      }
+    } catch (error) {
+      setError("Network error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleForgotPasswordSubmit = async () => {
+    if (!email) {
+      setError("Please enter your email address");
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const result = await requestPasswordReset(email);
+      if (result.success) {
+        setNotice(result.message || "Check your email for a reset link");
+      } else {
+        setError(result.message || "An error occurred");
+      }
+    } catch (error) {
+      setError("Network error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setError('');
+    setError("");
+    setNotice("");
     setIsLoading(true);
 
+    if (challengeToken) {
+      return handleTwoFactorSubmit();
+    }
+
+    if (isForgotPassword) {
+      return handleForgotPasswordSubmit();
+    }
+
     if (!email || !password) {
-      setError('Please fill in all fields');
+      setError("Please fill in all fields");
       setIsLoading(false);
       return;
     }
 
     if (!isLogin && password !== confirmPassword) {
-      setError('Passwords do not match');
+      setError("Passwords do not match");
       setIsLoading(false);
       return;
     }
 
     if (!isLogin && passwordStrength < 60) {
-      setError('Password is too weak. Please use a stronger password.');
+      setError("Password is too weak. Please use a stronger password.");
       setIsLoading(false);
       return;
     }
 
     if (!isOnline) {
-      setError('No internet connection. Please check your network.');
+      setError("No internet connection. Please check your network.");
       setIsLoading(false);
       return;
     }
 
     try {
-      const result = isLogin 
+      const result = isLogin
         ? await login(email, password)
         : await signup(email, password);
 
-      if (result.success) {
+      if (result.twoFactorRequired && result.challengeToken) {
+        setChallengeToken(result.challengeToken);
+        setTwoFactorCode("");
+      } else if (result.success) {
         setShowSuccess(true);
         setTimeout(() => setShowSuccess(false), 3000);
       } else {
-        setError(result.message || 'An error occurred');
+        setError(result.message || "An error occurred");
       }
     } catch (error) {
-      setError('Network error occurred');
+      setError("Network error occurred");
     } finally {
       setIsLoading(false);
     }
   };
 
-  const focusInput = (field: 'email' | 'password' | 'confirmPassword') => {
+  const focusInput = (field: "email" | "password" | "confirmPassword") => {
     const refs = {
       email: emailRef,
       password: passwordRef,
-      confirmPassword: confirmPasswordRef
+      confirmPassword: confirmPasswordRef,
     };
     refs[field]?.current?.focus();
   };
 
   const toggleMode = () => {
+    if (challengeToken) {
+      // Back to the password step
+      setChallengeToken(null);
+      setTwoFactorCode("");
+      setPassword("");
+      setError("");
+      return;
+    }
+
+    if (isForgotPassword) {
+      setIsForgotPassword(false);
+      setError("");
+      setNotice("");
+      return;
+    }
+
     setIsLogin(!isLogin);
-    setError('');
-    setEmail('');
-    setPassword('');
-    setConfirmPassword('');
+    setError("");
+    setEmail("");
+    setPassword("");
+    setConfirmPassword("");
+  };
+
+  const showForgotPassword = () => {
+    setIsForgotPassword(true);
+    setPassword("");
+    setError("");
+    setNotice("");
   };
 
   const getPasswordStrengthColor = () => {
-    if (passwordStrength >= 80) return 'bg-green-500';
-    if (passwordStrength >= 60) return 'bg-yellow-500';
-    if (passwordStrength >= 40) return 'bg-orange-500';
-    return 'bg-red-500';
+    if (passwordStrength >= 80) return "bg-green-500";
+    if (passwordStrength >= 60) return "bg-yellow-500";
+    if (passwordStrength >= 40) return "bg-orange-500";
+    return "bg-red-500";
   };
 
   const getPasswordStrengthText = () => {
-    if (passwordStrength >= 80) return 'Very Strong';
-    if (passwordStrength >= 60) return 'Strong';
-    if (passwordStrength >= 40) return 'Medium';
-    if (passwordStrength >= 20) return 'Weak';
-    return 'Very Weak';
+    if (passwordStrength >= 80) return "Very Strong";
+    if (passwordStrength >= 60) return "Strong";
+    if (passwordStrength >= 40) return "Medium";
+    if (passwordStrength >= 20) return "Weak";
+    return "Very Weak";
   };
 
   const getThemeGradients = () => {
     const themes = [
       {
         bg: "linear-gradient(135deg, #667eea 0%, #764ba2 100%)",
-        name: "Ocean Twilight"
+        name: "Ocean Twilight",
       },
       {
         bg: "linear-gradient(135deg, #f093fb 0%, #f5576c 100%)",
-        name: "Sunset Bloom"
+        name: "Sunset Bloom",
       },
       {
         bg: "linear-gradient(135deg, #4facfe 0%, #00f2fe 100%)",
-        name: "Arctic Aurora"
+        name: "Arctic Aurora",
       },
       {
         bg: "linear-gradient(135deg, #43e97b 0%, #38f9d7 100%)",
-        name: "Forest Glow"
-      }
+        name: "Forest Glow",
+      },
     ];
     return themes[currentTheme];
   };
@@ -218,9 +313,9 @@ export default function Auth() {
       opacity: 1,
       transition: {
         duration: 0.6,
-        staggerChildren: 0.1
-      }
-    }
+        staggerChildren: 0.1,
+      },
+    },
   };
 
   const itemVariants = {
@@ -230,9 +325,9 @@ export default function Auth() {
       opacity: 1,
       transition: {
         duration: 0.5,
-        ease: "easeOut"
-      }
-    }
+        ease: "easeOut",
+      },
+    },
   };
 
   const floatingVariants = {
@@ -242,61 +337,71 @@ export default function Auth() {
       transition: {
         duration: 8,
         repeat: Infinity,
-        ease: "easeInOut"
-      }
-    }
+        ease: "easeInOut",
+      },
+    },
   };
 
   return (
     <div className="min-h-screen relative overflow-hidden">
       {/* Optimized gradient background with mouse interaction */}
-      <motion.div 
+      <motion.div
         className="absolute inset-0"
         style={{
           background: getThemeGradients().bg,
-          transform: `translate(${mousePosition.x * 0.01}px, ${mousePosition.y * 0.01}px)`
+          transform: `translate(${mousePosition.x * 0.01}px, ${mousePosition.y * 0.01}px)`,
         }}
         transition={{
           duration: 0.8,
-          ease: "easeOut"
+          ease: "easeOut",
         }}
       />
-      
+
       {/* Interactive mesh gradient overlay */}
       <motion.div
         className="absolute inset-0 opacity-20"
         style={{
-          background: `radial-gradient(circle at ${mousePosition.x}% ${mousePosition.y}%, rgba(255,255,255,0.3) 0%, transparent 50%)`
+          background: `radial-gradient(circle at ${mousePosition.x}% ${mousePosition.y}%, rgba(255,255,255,0.3) 0%, transparent 50%)`,
         }}
         transition={{ duration: 0.3 }}
       />
 
       {/* Optimized floating particles with unique shapes */}
       {particles.map((particle, index) => {
-        const shapes = ['rounded-full', 'rounded-[2rem]', 'rounded-[3rem]', 'rounded-[1rem] rotate-45'];
-        const sizes = ['w-4 h-4', 'w-6 h-2', 'w-2 h-6', 'w-3 h-3'];
-        const colors = ['bg-white/20', 'bg-purple-300/30', 'bg-pink-300/30', 'bg-cyan-300/30'];
-        
+        const shapes = [
+          "rounded-full",
+          "rounded-[2rem]",
+          "rounded-[3rem]",
+          "rounded-[1rem] rotate-45",
+        ];
+        const sizes = ["w-4 h-4", "w-6 h-2", "w-2 h-6", "w-3 h-3"];
+        const colors = [
+          "bg-white/20",
+          "bg-purple-300/30",
+          "bg-pink-300/30",
+          "bg-cyan-300/30",
+        ];
+
         return (
           <motion.div
             key={particle.id}
             className={`absolute ${sizes[index % 4]} ${colors[index % 4]} ${shapes[index % 4]} backdrop-blur-sm will-change-transform`}
             style={{
               left: `${particle.x}%`,
-              top: `${particle.y}%`
+              top: `${particle.y}%`,
             }}
             animate={{
               y: [0, -30, 0],
               x: [0, Math.sin(index) * 10, 0],
               opacity: [0.3, 0.8, 0.3],
               scale: [0.8, 1.1, 0.8],
-              rotate: [0, 90, 180]
+              rotate: [0, 90, 180],
             }}
             transition={{
               duration: 12 + index * 2,
               repeat: Infinity,
               delay: particle.delay,
-              ease: "easeInOut"
+              ease: "easeInOut",
             }}
           />
         );
@@ -313,19 +418,19 @@ export default function Auth() {
         className="absolute top-40 right-32 w-24 h-24 bg-gradient-to-br from-blue-400/15 to-cyan-600/15 rounded-full backdrop-blur-md border border-white/10 shadow-2xl will-change-transform"
         variants={floatingVariants}
         animate="animate"
-        style={{ animationDelay: '2s' }}
+        style={{ animationDelay: "2s" }}
         whileHover={{ scale: 1.05, rotate: -10 }}
       />
       <motion.div
         className="absolute bottom-32 left-1/4 w-20 h-20 bg-gradient-to-br from-green-400/15 to-emerald-600/15 rounded-[2rem] backdrop-blur-md border border-white/10 shadow-2xl will-change-transform"
         variants={floatingVariants}
         animate="animate"
-        style={{ animationDelay: '4s' }}
+        style={{ animationDelay: "4s" }}
         whileHover={{ scale: 1.05, rotate: 8 }}
       />
 
       {/* Enhanced status bar with theme name and network */}
-      <motion.div 
+      <motion.div
         className="fixed top-4 right-4 z-50 flex items-center space-x-3"
         initial={{ opacity: 0, y: -20 }}
         animate={{ opacity: 1, y: 0 }}
@@ -337,20 +442,28 @@ export default function Auth() {
           whileHover={{ scale: 1.05 }}
           whileTap={{ scale: 0.95 }}
         >
-          <span className="text-xs font-medium">{getThemeGradients().name}</span>
+          <span className="text-xs font-medium">
+            {getThemeGradients().name}
+          </span>
         </motion.div>
-        
+
         {/* Network status */}
-        <motion.div 
+        <motion.div
           className={`flex items-center space-x-2 px-3 py-2 rounded-[1.5rem] backdrop-blur-md ${
-            isOnline ? 'bg-green-500/20 text-green-300' : 'bg-red-500/20 text-red-300'
+            isOnline
+              ? "bg-green-500/20 text-green-300"
+              : "bg-red-500/20 text-red-300"
           } border border-white/20`}
           whileHover={{ scale: 1.05 }}
           whileTap={{ scale: 0.95 }}
         >
-          {isOnline ? <Wifi className="w-4 h-4" /> : <WifiOff className="w-4 h-4" />}
+          {isOnline ? (
+            <Wifi className="w-4 h-4" />
+          ) : (
+            <WifiOff className="w-4 h-4" />
+          )}
           <span className="text-xs font-medium">
-            {isOnline ? 'Online' : 'Offline'}
+            {isOnline ? "Online" : "Offline"}
           </span>
         </motion.div>
       </motion.div>
@@ -374,7 +487,9 @@ export default function Auth() {
             </motion.div>
             <div className="space-y-1">
               <span className="font-bold text-sm">Welcome to SecureChat!</span>
-              <div className="text-xs text-white/80">Authentication successful</div>
+              <div className="text-xs text-white/80">
+                Authentication successful
+              </div>
             </div>
           </motion.div>
         )}
@@ -382,23 +497,20 @@ export default function Auth() {
 
       {/* Main content */}
       <div className="relative z-10 min-h-screen flex items-center justify-center p-4 sm:p-6 touch-manipulation">
-        <motion.div 
+        <motion.div
           className="w-full max-w-md space-y-8"
           variants={containerVariants}
           initial="hidden"
           animate="visible"
         >
           {/* Brand header */}
-          <motion.div 
-            className="text-center space-y-6"
-            variants={itemVariants}
-          >
-            <motion.div 
+          <motion.div className="text-center space-y-6" variants={itemVariants}>
+            <motion.div
               className="mx-auto w-24 h-24 bg-gradient-to-br from-white/20 to-white/10 backdrop-blur-xl rounded-[2.5rem] flex items-center justify-center shadow-2xl border border-white/30 relative overflow-hidden"
-              whileHover={{ 
-                scale: 1.1, 
+              whileHover={{
+                scale: 1.1,
                 rotate: 5,
-                boxShadow: "0 25px 50px -12px rgba(0, 0, 0, 0.25)"
+                boxShadow: "0 25px 50px -12px rgba(0, 0, 0, 0.25)",
               }}
               whileTap={{ scale: 0.95 }}
             >
@@ -406,19 +518,19 @@ export default function Auth() {
                 className="absolute inset-0 bg-gradient-to-br from-transparent via-white/10 to-transparent"
                 animate={{
                   x: [-100, 100],
-                  opacity: [0, 1, 0]
+                  opacity: [0, 1, 0],
                 }}
                 transition={{
                   duration: 3,
                   repeat: Infinity,
-                  ease: "easeInOut"
+                  ease: "easeInOut",
                 }}
               />
               <MessageCircle className="w-12 h-12 text-white drop-shadow-lg relative z-10" />
             </motion.div>
 
             <div className="space-y-2">
-              <motion.h1 
+              <motion.h1
                 className="text-5xl font-bold text-white drop-shadow-lg"
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
@@ -426,7 +538,7 @@ export default function Auth() {
               >
                 SecureChat
               </motion.h1>
-              <motion.p 
+              <motion.p
                 className="text-white/90 text-xl font-medium drop-shadow-sm"
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
@@ -444,29 +556,39 @@ export default function Auth() {
               <motion.div
                 className="absolute inset-0 bg-gradient-to-br from-white/5 via-transparent to-transparent opacity-50"
                 animate={{
-                  opacity: [0.3, 0.7, 0.3]
+                  opacity: [0.3, 0.7, 0.3],
                 }}
                 transition={{
                   duration: 4,
                   repeat: Infinity,
-                  ease: "easeInOut"
+                  ease: "easeInOut",
                 }}
               />
-              
+
               <CardHeader className="text-center space-y-4 pb-6 relative z-10">
                 <motion.div
-                  key={isLogin ? 'login' : 'signup'}
+                  key={isLogin ? "login" : "signup"}
                   initial={{ opacity: 0, x: isLogin ? -20 : 20 }}
                   animate={{ opacity: 1, x: 0 }}
                   transition={{ duration: 0.3 }}
                 >
                   <CardTitle className="text-2xl text-white font-bold">
-                    {isLogin ? 'Welcome back' : 'Create account'}
+                    {challengeToken
+                      ? "Two-step verification"
+                      : isForgotPassword
+                        ? "Reset password"
+                        : isLogin
+                          ? "Welcome back"
+                          : "Create account"}
                   </CardTitle>
                   <CardDescription className="text-white/80 text-base">
-                    {isLogin 
-                      ? 'Sign in to your secure chat account' 
-                      : 'Join the most secure chat platform'}
+                    {challengeToken
+                      ? "One more step to confirm it's you"
+                      : isForgotPassword
+                        ? "We'll email you a link to choose a new one"
+                        : isLogin
+                          ? "Sign in to your secure chat account"
+                          : "Join the most secure chat platform"}
                   </CardDescription>
                 </motion.div>
               </CardHeader>
@@ -482,211 +604,324 @@ export default function Auth() {
                         transition={{ duration: 0.3 }}
                       >
                         <Alert className="bg-red-500/20 border-red-400/50 text-white backdrop-blur-sm rounded-[1.5rem]">
-                          <AlertDescription className="font-medium">{error}</AlertDescription>
+                          <AlertDescription className="font-medium">
+                            {error}
+                          </AlertDescription>
                         </Alert>
                       </motion.div>
                     )}
-                  </AnimatePresence>
-
-                  <motion.div 
-                    className="space-y-2"
-                    variants={itemVariants}
-                  >
-                    <Label htmlFor="email" className="text-white font-semibold text-sm flex items-center space-x-2">
-                      <Mail className="w-4 h-4" />
-                      <span>Email address</span>
-                    </Label>
-                    <motion.div
-                      className={`relative transition-all duration-300 cursor-pointer group ${
-                        focusedField === 'email' ? 'scale-105' : ''
-                      }`}
-                      onClick={() => focusInput('email')}
-                      whileHover={{ scale: 1.02 }}
-                      whileTap={{ scale: 0.98 }}
-                    >
-                      <Input
-                        ref={emailRef}
-                        id="email"
-                        type="email"
-                        autoComplete="email"
-                        inputMode="email"
-                        value={email}
-                        onChange={(e) => setEmail(e.target.value)}
-                        onFocus={() => setFocusedField('email')}
-                        onBlur={() => setFocusedField(null)}
-                        className="bg-white/10 border-white/20 text-white placeholder:text-white/60 focus:border-white/60 focus:bg-white/20 backdrop-blur-sm h-16 rounded-[2rem] transition-all duration-300 text-lg pl-6 pr-12 focus:outline-none focus:ring-2 focus:ring-white/30 focus:ring-offset-2 focus:ring-offset-transparent group-hover:bg-white/15"
-                        placeholder="Enter your email"
-                        disabled={isLoading}
-                        style={{ fontSize: '16px' }}
-                      />
+                    {notice && (
                       <motion.div
-                        className="absolute right-4 top-1/2 transform -translate-y-1/2 text-white/40 group-hover:text-white/60 transition-colors"
+                        initial={{ opacity: 0, y: -10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -10 }}
+                        transition={{ duration: 0.3 }}
                       >
-                        <Mail className="w-5 h-5" />
+                        <Alert className="bg-green-500/20 border-green-400/50 text-white backdrop-blur-sm rounded-[1.5rem]">
+                          <AlertDescription className="font-medium">
+                            {notice}
+                          </AlertDescription>
+                        </Alert>
                       </motion.div>
-                      <motion.div
-                        className="absolute inset-0 rounded-[2rem] border-2 pointer-events-none"
-                        animate={{
-                          borderColor: focusedField === 'email' ? 'rgba(255,255,255,0.4)' : 'transparent',
-                          boxShadow: focusedField === 'email' ? '0 0 30px rgba(255,255,255,0.3)' : 'none'
-                        }}
-                        transition={{ duration: 0.2 }}
-                      />
-                    </motion.div>
-                  </motion.div>
+                    )}
+                  </AnimatePresence>
 
-                  <motion.div 
-                    className="space-y-3"
-                    variants={itemVariants}
-                  >
-                    <Label htmlFor="password" className="text-white font-semibold text-sm flex items-center space-x-2">
-                      <KeyRound className="w-4 h-4" />
-                      <span>Password</span>
-                    </Label>
+                  {challengeToken ? (
                     <motion.div
-                      className={`relative transition-all duration-300 cursor-pointer group ${
-                        focusedField === 'password' ? 'scale-105' : ''
-                      }`}
-                      onClick={() => focusInput('password')}
-                      whileHover={{ scale: 1.02 }}
-                      whileTap={{ scale: 0.98 }}
+                      className="space-y-2"
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ duration: 0.3 }}
                     >
+                      <Label
+                        htmlFor="twoFactorCode"
+                        className="text-white font-semibold text-sm flex items-center space-x-2"
+                      >
+                        <Fingerprint className="w-4 h-4" />
+                        <span>Authentication code</span>
+                      </Label>
                       <Input
-                        ref={passwordRef}
-                        id="password"
-                        type={showPassword ? 'text' : 'password'}
-                        autoComplete={isLogin ? 'current-password' : 'new-password'}
-                        value={password}
-                        onChange={(e) => setPassword(e.target.value)}
-                        onFocus={() => setFocusedField('password')}
-                        onBlur={() => setFocusedField(null)}
-                        className="bg-white/10 border-white/20 text-white placeholder:text-white/60 focus:border-white/60 focus:bg-white/20 backdrop-blur-sm h-16 rounded-[2rem] pr-12 transition-all duration-300 text-lg pl-6 focus:outline-none focus:ring-2 focus:ring-white/30 focus:ring-offset-2 focus:ring-offset-transparent group-hover:bg-white/15"
-                        placeholder="Enter your password"
+                        id="twoFactorCode"
+                        type="text"
+                        autoComplete="one-time-code"
+                        autoFocus
+                        value={twoFactorCode}
+                        onChange={(e) => setTwoFactorCode(e.target.value)}
+                        className="bg-white/10 border-white/20 text-white placeholder:text-white/60 focus:border-white/60 focus:bg-white/20 backdrop-blur-sm h-16 rounded-[2rem] transition-all duration-300 text-lg pl-6 pr-12 tracking-widest focus:outline-none focus:ring-2 focus:ring-white/30"
+                        placeholder="123456"
                         disabled={isLoading}
-                        style={{ fontSize: '16px' }}
-                      />
-                      <Button
-                        type="button"
-                        variant="ghost"
-                        size="sm"
-                        className="absolute right-3 top-1/2 transform -translate-y-1/2 text-white/60 hover:text-white hover:bg-white/10 h-10 w-10 rounded-[1rem] transition-all duration-200"
-                        onClick={() => setShowPassword(!showPassword)}
-                      >
-                        {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
-                      </Button>
-                      <motion.div
-                        className="absolute inset-0 rounded-[2rem] border-2 pointer-events-none"
-                        animate={{
-                          borderColor: focusedField === 'password' ? 'rgba(255,255,255,0.4)' : 'transparent',
-                          boxShadow: focusedField === 'password' ? '0 0 30px rgba(255,255,255,0.3)' : 'none'
-                        }}
-                        transition={{ duration: 0.2 }}
+                        style={{ fontSize: "16px" }}
                       />
+                      <p className="text-white/60 text-sm">
+                        Enter the 6-digit code from your authenticator app, or
+                        one of your recovery codes.
+                      </p>
                     </motion.div>
-                    
-                    {/* Password strength indicator */}
-                    {!isLogin && password && (
-                      <motion.div
-                        initial={{ opacity: 0, height: 0 }}
-                        animate={{ opacity: 1, height: 'auto' }}
-                        exit={{ opacity: 0, height: 0 }}
-                        className="space-y-2"
-                      >
-                        <div className="flex justify-between text-xs text-white/70">
-                          <span>Password strength</span>
-                          <span className={passwordStrength >= 60 ? 'text-green-400' : 'text-yellow-400'}>
-                            {getPasswordStrengthText()}
-                          </span>
-                        </div>
-                        <div className="w-full bg-white/20 rounded-[1.5rem] h-3 overflow-hidden relative">
-                          <motion.div
-                            className={`h-full rounded-[1.5rem] transition-all duration-300 ${getPasswordStrengthColor()} relative overflow-hidden`}
-                            initial={{ width: 0 }}
-                            animate={{ width: `${passwordStrength}%` }}
-                            transition={{ duration: 0.3 }}
-                          >
-                            <motion.div
-                              className="absolute inset-0 bg-gradient-to-r from-transparent via-white/30 to-transparent"
-                              animate={{
-                                x: [-100, 100]
-                              }}
-                              transition={{
-                                duration: 2,
-                                repeat: Infinity,
-                                ease: "easeInOut"
-                              }}
-                            />
-                          </motion.div>
-                        </div>
-                      </motion.div>
-                    )}
-                  </motion.div>
-
-                  <AnimatePresence>
-                    {!isLogin && (
-                      <motion.div 
-                        className="space-y-2"
-                        initial={{ opacity: 0, height: 0 }}
-                        animate={{ opacity: 1, height: 'auto' }}
-                        exit={{ opacity: 0, height: 0 }}
-                        transition={{ duration: 0.3 }}
-                      >
-                        <Label htmlFor="confirmPassword" className="text-white font-semibold text-sm">
-                          Confirm Password
+                  ) : (
+                    <>
+                      <motion.div className="space-y-2" variants={itemVariants}>
+                        <Label
+                          htmlFor="email"
+                          className="text-white font-semibold text-sm flex items-center space-x-2"
+                        >
+                          <Mail className="w-4 h-4" />
+                          <span>Email address</span>
                         </Label>
                         <motion.div
                           className={`relative transition-all duration-300 cursor-pointer group ${
-                            focusedField === 'confirmPassword' ? 'scale-105' : ''
+                            focusedField === "email" ? "scale-105" : ""
                           }`}
-                          onClick={() => focusInput('confirmPassword')}
+                          onClick={() => focusInput("email")}
                           whileHover={{ scale: 1.02 }}
                           whileTap={{ scale: 0.98 }}
                         >
                           <Input
-                            ref={confirmPasswordRef}
-                            id="confirmPassword"
-                            type={showPassword ? 'text' : 'password'}
-                            autoComplete="new-password"
-                            value={confirmPassword}
-                            onChange={(e) => setConfirmPassword(e.target.value)}
-                            onFocus={() => setFocusedField('confirmPassword')}
+                            ref={emailRef}
+                            id="email"
+                            type="email"
+                            autoComplete="email"
+                            inputMode="email"
+                            value={email}
+                            onChange={(e) => setEmail(e.target.value)}
+                            onFocus={() => setFocusedField("email")}
                             onBlur={() => setFocusedField(null)}
                             className="bg-white/10 border-white/20 text-white placeholder:text-white/60 focus:border-white/60 focus:bg-white/20 backdrop-blur-sm h-16 rounded-[2rem] transition-all duration-300 text-lg pl-6 pr-12 focus:outline-none focus:ring-2 focus:ring-white/30 focus:ring-offset-2 focus:ring-offset-transparent group-hover:bg-white/15"
-                            placeholder="Confirm your password"
+                            placeholder="Enter your email"
                             disabled={isLoading}
-                            style={{ fontSize: '16px' }}
+                            style={{ fontSize: "16px" }}
                           />
+                          <motion.div className="absolute right-4 top-1/2 transform -translate-y-1/2 text-white/40 group-hover:text-white/60 transition-colors">
+                            <Mail className="w-5 h-5" />
+                          </motion.div>
                           <motion.div
                             className="absolute inset-0 rounded-[2rem] border-2 pointer-events-none"
                             animate={{
-                              borderColor: focusedField === 'confirmPassword' ? 'rgba(255,255,255,0.4)' : 'transparent',
-                              boxShadow: focusedField === 'confirmPassword' ? '0 0 30px rgba(255,255,255,0.3)' : 'none'
+                              borderColor:
+                                focusedField === "email"
+                                  ? "rgba(255,255,255,0.4)"
+                                  : "transparent",
+                              boxShadow:
+                                focusedField === "email"
+                                  ? "0 0 30px rgba(255,255,255,0.3)"
+                                  : "none",
                             }}
                             transition={{ duration: 0.2 }}
                           />
-                          {/* Enhanced password match indicator */}
-                          {confirmPassword && (
+                        </motion.div>
+                      </motion.div>
+
+                      {!isForgotPassword && (
+                        <>
+                          <motion.div
+                            className="space-y-3"
+                            variants={itemVariants}
+                          >
+                            <Label
+                              htmlFor="password"
+                              className="text-white font-semibold text-sm flex items-center space-x-2"
+                            >
+                              <KeyRound className="w-4 h-4" />
+                              <span>Password</span>
+                            </Label>
                             <motion.div
-                              className={`absolute right-4 top-1/2 transform -translate-y-1/2 w-8 h-8 rounded-full flex items-center justify-center ${
-                                confirmPassword === password 
-                                  ? 'bg-green-500/20 text-green-400' 
-                                  : 'bg-red-500/20 text-red-400'
+                              className={`relative transition-all duration-300 cursor-pointer group ${
+                                focusedField === "password" ? "scale-105" : ""
                               }`}
-                              initial={{ opacity: 0, scale: 0 }}
-                              animate={{ opacity: 1, scale: 1 }}
-                              transition={{ duration: 0.3, type: "spring" }}
+                              onClick={() => focusInput("password")}
+                              whileHover={{ scale: 1.02 }}
+                              whileTap={{ scale: 0.98 }}
                             >
-                              {confirmPassword === password ? (
-                                <CheckCircle className="w-5 h-5" />
-                              ) : (
-                                <span className="text-sm font-bold">✕</span>
-                              )}
+                              <Input
+                                ref={passwordRef}
+                                id="password"
+                                type={showPassword ? "text" : "password"}
+                                autoComplete={
+                                  isLogin ? "current-password" : "new-password"
+                                }
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                onFocus={() => setFocusedField("password")}
+                                onBlur={() => setFocusedField(null)}
+                                className="bg-white/10 border-white/20 text-white placeholder:text-white/60 focus:border-white/60 focus:bg-white/20 backdrop-blur-sm h-16 rounded-[2rem] pr-12 transition-all duration-300 text-lg pl-6 focus:outline-none focus:ring-2 focus:ring-white/30 focus:ring-offset-2 focus:ring-offset-transparent group-hover:bg-white/15"
+                                placeholder="Enter your password"
+                                disabled={isLoading}
+                                style={{ fontSize: "16px" }}
+                              />
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                className="absolute right-3 top-1/2 transform -translate-y-1/2 text-white/60 hover:text-white hover:bg-white/10 h-10 w-10 rounded-[1rem] transition-all duration-200"
+                                onClick={() => setShowPassword(!showPassword)}
+                              >
+                                {showPassword ? (
+                                  <EyeOff className="w-5 h-5" />
+                                ) : (
+                                  <Eye className="w-5 h-5" />
+                                )}
+                              </Button>
+                              <motion.div
+                                className="absolute inset-0 rounded-[2rem] border-2 pointer-events-none"
+                                animate={{
+                                  borderColor:
+                                    focusedField === "password"
+                                      ? "rgba(255,255,255,0.4)"
+                                      : "transparent",
+                                  boxShadow:
+                                    focusedField === "password"
+                                      ? "0 0 30px rgba(255,255,255,0.3)"
+                                      : "none",
+                                }}
+                                transition={{ duration: 0.2 }}
+                              />
                             </motion.div>
-                          )}
-                        </motion.div>
-                      </motion.div>
-                    )}
-                  </AnimatePresence>
+
+                            {isLogin && (
+                              <div className="text-right">
+                                <button
+                                  type="button"
+                                  onClick={showForgotPassword}
+                                  className="text-white/70 hover:text-white text-sm underline underline-offset-4 transition-colors"
+                                  disabled={isLoading}
+                                >
+                                  Forgot password?
+                                </button>
+                              </div>
+                            )}
+
+                            {/* Password strength indicator */}
+                            {!isLogin && password && (
+                              <motion.div
+                                initial={{ opacity: 0, height: 0 }}
+                                animate={{ opacity: 1, height: "auto" }}
+                                exit={{ opacity: 0, height: 0 }}
+                                className="space-y-2"
+                              >
+                                <div className="flex justify-between text-xs text-white/70">
+                                  <span>Password strength</span>
+                                  <span
+                                    className={
+                                      passwordStrength >= 60
+                                        ? "text-green-400"
+                                        : "text-yellow-400"
+                                    }
+                                  >
+                                    {getPasswordStrengthText()}
+                                  </span>
+                                </div>
+                                <div className="w-full bg-white/20 rounded-[1.5rem] h-3 overflow-hidden relative">
+                                  <motion.div
+                                    className={`h-full rounded-[1.5rem] transition-all duration-300 ${getPasswordStrengthColor()} relative overflow-hidden`}
+                                    initial={{ width: 0 }}
+                                    animate={{ width: `${passwordStrength}%` }}
+                                    transition={{ duration: 0.3 }}
+                                  >
+                                    <motion.div
+                                      className="absolute inset-0 bg-gradient-to-r from-transparent via-white/30 to-transparent"
+                                      animate={{
+                                        x: [-100, 100],
+                                      }}
+                                      transition={{
+                                        duration: 2,
+                                        repeat: Infinity,
+                                        ease: "easeInOut",
+                                      }}
+                                    />
+                                  </motion.div>
+                                </div>
+                              </motion.div>
+                            )}
+                          </motion.div>
+
+                          <AnimatePresence>
+                            {!isLogin && (
+                              <motion.div
+                                className="space-y-2"
+                                initial={{ opacity: 0, height: 0 }}
+                                animate={{ opacity: 1, height: "auto" }}
+                                exit={{ opacity: 0, height: 0 }}
+                                transition={{ duration: 0.3 }}
+                              >
+                                <Label
+                                  htmlFor="confirmPassword"
+                                  className="text-white font-semibold text-sm"
+                                >
+                                  Confirm Password
+                                </Label>
+                                <motion.div
+                                  className={`relative transition-all duration-300 cursor-pointer group ${
+                                    focusedField === "confirmPassword"
+                                      ? "scale-105"
+                                      : ""
+                                  }`}
+                                  onClick={() => focusInput("confirmPassword")}
+                                  whileHover={{ scale: 1.02 }}
+                                  whileTap={{ scale: 0.98 }}
+                                >
+                                  <Input
+                                    ref={confirmPasswordRef}
+                                    id="confirmPassword"
+                                    type={showPassword ? "text" : "password"}
+                                    autoComplete="new-password"
+                                    value={confirmPassword}
+                                    onChange={(e) =>
+                                      setConfirmPassword(e.target.value)
+                                    }
+                                    onFocus={() =>
+                                      setFocusedField("confirmPassword")
+                                    }
+                                    onBlur={() => setFocusedField(null)}
+                                    className="bg-white/10 border-white/20 text-white placeholder:text-white/60 focus:border-white/60 focus:bg-white/20 backdrop-blur-sm h-16 rounded-[2rem] transition-all duration-300 text-lg pl-6 pr-12 focus:outline-none focus:ring-2 focus:ring-white/30 focus:ring-offset-2 focus:ring-offset-transparent group-hover:bg-white/15"
+                                    placeholder="Confirm your password"
+                                    disabled={isLoading}
+                                    style={{ fontSize: "16px" }}
+                                  />
+                                  <motion.div
+                                    className="absolute inset-0 rounded-[2rem] border-2 pointer-events-none"
+                                    animate={{
+                                      borderColor:
+                                        focusedField === "confirmPassword"
+                                          ? "rgba(255,255,255,0.4)"
+                                          : "transparent",
+                                      boxShadow:
+                                        focusedField === "confirmPassword"
+                                          ? "0 0 30px rgba(255,255,255,0.3)"
+                                          : "none",
+                                    }}
+                                    transition={{ duration: 0.2 }}
+                                  />
+                                  {/* Enhanced password match indicator */}
+                                  {confirmPassword && (
+                                    <motion.div
+                                      className={`absolute right-4 top-1/2 transform -translate-y-1/2 w-8 h-8 rounded-full flex items-center justify-center ${
+                                        confirmPassword === password
+                                          ? "bg-green-500/20 text-green-400"
+                                          : "bg-red-500/20 text-red-400"
+                                      }`}
+                                      initial={{ opacity: 0, scale: 0 }}
+                                      animate={{ opacity: 1, scale: 1 }}
+                                      transition={{
+                                        duration: 0.3,
+                                        type: "spring",
+                                      }}
+                                    >
+                                      {confirmPassword === password ? (
+                                        <CheckCircle className="w-5 h-5" />
+                                      ) : (
+                                        <span className="text-sm font-bold">
+                                          ✕
+                                        </span>
+                                      )}
+                                    </motion.div>
+                                  )}
+                                </motion.div>
+                              </motion.div>
+                            )}
+                          </AnimatePresence>
+                        </>
+                      )}
+                    </>
+                  )}
 
                   <motion.div variants={itemVariants}>
                     <Button
@@ -700,12 +935,12 @@ export default function Auth() {
                         className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent"
                         animate={{
                           x: [-100, 400],
-                          opacity: [0, 1, 0]
+                          opacity: [0, 1, 0],
                         }}
                         transition={{
                           duration: 2,
                           repeat: Infinity,
-                          ease: "easeInOut"
+                          ease: "easeInOut",
                         }}
                       />
                       <AnimatePresence mode="wait">
@@ -729,7 +964,15 @@ export default function Auth() {
                             className="flex items-center space-x-2 relative z-10"
                           >
                             <Lock className="w-5 h-5" />
-                            <span>{isLogin ? 'Sign In' : 'Create Account'}</span>
+                            <span>
+                              {challengeToken
+                                ? "Verify"
+                                : isForgotPassword
+                                  ? "Send Reset Link"
+                                  : isLogin
+                                    ? "Sign In"
+                                    : "Create Account"}
+                            </span>
                             <ArrowRight className="w-5 h-5" />
                           </motion.div>
                         )}
@@ -737,7 +980,7 @@ export default function Auth() {
                     </Button>
                   </motion.div>
 
-                  <motion.div 
+                  <motion.div
                     className="text-center pt-4"
                     variants={itemVariants}
                   >
@@ -749,9 +992,11 @@ export default function Auth() {
                       whileHover={{ scale: 1.05 }}
                       whileTap={{ scale: 0.95 }}
                     >
-                      {isLogin 
-                        ? "Don't have an account? Sign up" 
-                        : 'Already have an account? Sign in'}
+                      {challengeToken || isForgotPassword
+                        ? "Back to sign in"
+                        : isLogin
+                          ? "Don't have an account? Sign up"
+                          : "Already have an account? Sign in"}
                     </motion.button>
                   </motion.div>
                 </form>
@@ -760,7 +1005,7 @@ export default function Auth() {
           </motion.div>
 
           {/* Enhanced Security features */}
-          <motion.div 
+          <motion.div
             className="bg-white/5 backdrop-blur-xl rounded-[2.5rem] p-6 border border-white/10 shadow-xl relative overflow-hidden"
             variants={itemVariants}
           >
@@ -768,31 +1013,56 @@ export default function Auth() {
             <motion.div
               className="absolute inset-0 opacity-10"
               style={{
-                backgroundImage: 'radial-gradient(circle at 2px 2px, white 1px, transparent 0)',
-                backgroundSize: '20px 20px'
+                backgroundImage:
+                  "radial-gradient(circle at 2px 2px, white 1px, transparent 0)",
+                backgroundSize: "20px 20px",
               }}
               animate={{
-                backgroundPosition: ['0px 0px', '20px 20px']
+                backgroundPosition: ["0px 0px", "20px 20px"],
               }}
               transition={{
                 duration: 8,
                 repeat: Infinity,
-                ease: "linear"
+                ease: "linear",
               }}
             />
-            
+
             <h3 className="text-white font-bold text-xl mb-6 flex items-center relative z-10">
               <Shield className="w-6 h-6 mr-3 text-green-400" />
               Security & Features
             </h3>
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 relative z-10">
               {[
-                { icon: CheckCircle, text: 'End-to-end encryption with AES-256', color: 'text-green-400' },
-                { icon: Zap, text: 'RSA/ECDH key exchange protocol', color: 'text-yellow-400' },
-                { icon: Shield, text: 'No message storage on servers', color: 'text-blue-400' },
-                { icon: Globe, text: 'Real-time translation support', color: 'text-purple-400' },
-                { icon: Fingerprint, text: 'Biometric authentication ready', color: 'text-pink-400' },
-                { icon: Star, text: 'Zero-knowledge architecture', color: 'text-indigo-400' }
+                {
+                  icon: CheckCircle,
+                  text: "End-to-end encryption with AES-256",
+                  color: "text-green-400",
+                },
+                {
+                  icon: Zap,
+                  text: "RSA/ECDH key exchange protocol",
+                  color: "text-yellow-400",
+                },
+                {
+                  icon: Shield,
+                  text: "No message storage on servers",
+                  color: "text-blue-400",
+                },
+                {
+                  icon: Globe,
+                  text: "Real-time translation support",
+                  color: "text-purple-400",
+                },
+                {
+                  icon: Fingerprint,
+                  text: "Biometric authentication ready",
+                  color: "text-pink-400",
+                },
+                {
+                  icon: Star,
+                  text: "Zero-knowledge architecture",
+                  color: "text-indigo-400",
+                },
               ].map((feature, index) => (
                 <motion.div
                   key={index}
@@ -809,13 +1079,15 @@ export default function Auth() {
                   >
                     <feature.icon className={`w-5 h-5 ${feature.color}`} />
                   </motion.div>
-                  <span className="text-white/90 text-sm leading-relaxed font-medium">{feature.text}</span>
+                  <span className="text-white/90 text-sm leading-relaxed font-medium">
+                    {feature.text}
+                  </span>
                 </motion.div>
               ))}
             </div>
-            
+
             {/* App stats */}
-            <motion.div 
+            <motion.div
               className="mt-6 pt-6 border-t border-white/10 relative z-10"
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
@@ -1,13 +1,20 @@
-import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { motion, AnimatePresence } from 'framer-motion';
-import { useAuth } from '../contexts/AuthContext';
-import { useSocket } from '../contexts/SocketContext';
-import { useEncryption } from '../contexts/EncryptionContext';
-import { useTranslation } from '../contexts/TranslationContext';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Card, CardContent, CardHeader } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
+import React, {
+  useState,
+  useEffect,
+  useRef,
+  useCallback,
+  useMemo,
+} from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { useAuth } from "../contexts/AuthContext";
+import { useSocket } from "../contexts/SocketContext";
+import { useEncryption } from "../contexts/EncryptionContext";
+import { useContacts } from "../contexts/ContactContext";
+import { useTranslation } from "../contexts/TranslationContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
 import {
   Send,
   Shield,
@@ -18,6 +25,7 @@ import {
   MessageCircle,
   User,
   ShieldCheck,
+  ShieldAlert,
   AlertTriangle,
   Paperclip,
   Smile,
@@ -35,14 +43,27 @@ import {
   Heart,
   Coffee,
   Music,
-  ArrowLeft
-} from 'lucide-react';
-import { ChatMessage, FileUpload, MediaContent } from '@shared/api';
-import MessageBubble from '../components/MessageBubble';
-import MediaUpload from '../components/MediaUpload';
-import EmojiPicker from '../components/EmojiPicker';
-import TranslationSettings from '../components/TranslationSettings';
-import DebugPanel from '../components/DebugPanel';
+  ArrowLeft,
+  SmilePlus,
+  Pin,
+} from "lucide-react";
+import { ChatMessage, FileUpload, MediaContent } from "@shared/api";
+import MessageBubble from "../components/MessageBubble";
+import MessageReactions from "../components/MessageReactions";
+import ThreadView from "../components/ThreadView";
+import PinnedMessagesDrawer from "../components/PinnedMessagesDrawer";
+import MediaUpload from "../components/MediaUpload";
+import EmojiPicker from "../components/EmojiPicker";
+import TranslationSettings from "../components/TranslationSettings";
+import { canEditMessage } from "../utils/messageEdits";
+import {
+  countThreadReplies,
+  getThreadReplies,
+  messageElementId,
+  quotePreview,
+} from "../utils/messageThreads";
+import DebugPanel from "../components/DebugPanel";
+import SafetyNumberVerification from "../components/SafetyNumberVerification";
 
 interface ChatProps {
   partner: { id: string; email: string };
@@ -52,33 +73,61 @@ interface ChatProps {
 
 export default function Chat({ partner, onDisconnect, onBack }: ChatProps) {
   const { user } = useAuth();
-  const { 
-    messages, 
-    sendMessage, 
-    sendTyping, 
-    partnerTyping, 
-    partnerOnline, 
+  const {
+    messages,
+    sendMessage,
+    sendTyping,
+    partnerTyping,
+    partnerOnline,
     isConnected,
-    sendFile 
+    sendFile,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+    pinnedMessages,
+    canPinMessages,
+    togglePin,
+    queuedMessageCount,
   } = useSocket();
-  // Encryption is handled in SocketContext
-  const { 
-    isTranslationEnabled, 
-    targetLanguage, 
+  // Encryption is handled in SocketContext; only identity keys are needed here
+  const { partnerPublicKey, partnerId } = useEncryption();
+  const { contacts, clearContactVerification } = useContacts();
+  const {
+    isTranslationEnabled,
+    targetLanguage,
     translateMessage,
-    supportedLanguages 
+    supportedLanguages,
   } = useTranslation();
 
-  const [newMessage, setNewMessage] = useState('');
+  const [newMessage, setNewMessage] = useState("");
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
   const [showTranslationSettings, setShowTranslationSettings] = useState(false);
   const [showMediaUpload, setShowMediaUpload] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [searchQuery, setSearchQuery] = useState("");
   const [showSearch, setShowSearch] = useState(false);
-  const [messageReactions, setMessageReactions] = useState<{[key: string]: string[]}>({});
+  const [reactingTo, setReactingTo] = useState<string | null>(null); // Message the emoji picker reacts to
+  const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
+  const [threadRootId, setThreadRootId] = useState<string | null>(null);
+  const [showPinned, setShowPinned] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<
+    string | null
+  >(null);
   const [chatTheme, setChatTheme] = useState(0);
   const [showDebugPanel, setShowDebugPanel] = useState(false);
+  const [showVerification, setShowVerification] = useState(false);
+
+  // A verified contact presenting a different identity key may be an attacker
+  const partnerContact = contacts.find((c) => c.id === partner.id);
+  const verifiedKeyChanged =
+    !!partnerContact?.verified &&
+    partnerId === partner.id &&
+    !!partnerPublicKey &&
+    partnerContact.verifiedKey !== partnerPublicKey;
+  const partnerName =
+    partnerContact?.displayName || partnerContact?.profileName || partner.email;
+  const senderName = (senderId: string) =>
+    senderId === user?.id ? "You" : partnerName;
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -87,44 +136,67 @@ export default function Chat({ partner, onDisconnect, onBack }: ChatProps) {
   // Optimized message filtering
   const filteredMessages = useMemo(() => {
     if (!searchQuery) return messages;
-    return messages.filter(msg => 
-      msg.content.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      msg.senderEmail.toLowerCase().includes(searchQuery.toLowerCase())
+    return messages.filter(
+      (msg) =>
+        msg.content.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        msg.senderEmail.toLowerCase().includes(searchQuery.toLowerCase()),
     );
   }, [messages, searchQuery]);
 
+  const messagesById = useMemo(
+    () => new Map(messages.map((message) => [message.id, message])),
+    [messages],
+  );
+  const threadReplyCounts = useMemo(
+    () => countThreadReplies(messages),
+    [messages],
+  );
+  const threadRoot = threadRootId ? messagesById.get(threadRootId) : undefined;
+  const pinnedIds = useMemo(
+    () => new Set(pinnedMessages.map((pin) => pin.messageId)),
+    [pinnedMessages],
+  );
+
+  const quoteFor = (messageId: string) => {
+    const original = messagesById.get(messageId);
+    return {
+      sender: original && senderName(original.senderId),
+      text: quotePreview(original),
+    };
+  };
+
   // Chat themes for unique design
   const chatThemes = [
     {
       name: "Ocean Breeze",
       bg: "linear-gradient(135deg, #667eea 0%, #764ba2 100%)",
       messageUser: "from-blue-500 to-purple-600",
-      messagePartner: "from-gray-600 to-gray-700"
+      messagePartner: "from-gray-600 to-gray-700",
     },
     {
       name: "Sunset Glow",
       bg: "linear-gradient(135deg, #f093fb 0%, #f5576c 100%)",
       messageUser: "from-pink-500 to-rose-600",
-      messagePartner: "from-gray-600 to-gray-700"
+      messagePartner: "from-gray-600 to-gray-700",
     },
     {
       name: "Forest Night",
       bg: "linear-gradient(135deg, #134e5e 0%, #71b280 100%)",
       messageUser: "from-green-500 to-emerald-600",
-      messagePartner: "from-gray-600 to-gray-700"
-    }
+      messagePartner: "from-gray-600 to-gray-700",
+    },
   ];
 
   const currentTheme = chatThemes[chatTheme];
 
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
   useEffect(() => {
     // Auto-cycle chat themes
     const themeInterval = setInterval(() => {
-      setChatTheme(prev => (prev + 1) % chatThemes.length);
+      setChatTheme((prev) => (prev + 1) % chatThemes.length);
     }, 30000);
 
     return () => clearInterval(themeInterval);
@@ -136,65 +208,110 @@ export default function Chat({ partner, onDisconnect, onBack }: ChatProps) {
     try {
       // For now, send messages as plain text since encryption is handled in SocketContext
       // The SocketContext will handle encryption with available keys
-      sendMessage(newMessage, 'text');
-      setNewMessage('');
+      sendMessage(newMessage, "text", replyingTo?.id);
+      setNewMessage("");
+      setReplyingTo(null);
       setIsTyping(false);
     } catch (error) {
-      console.error('Failed to send message:', error);
-    }
-  }, [newMessage, sendMessage]);
-
-  const handleTyping = useCallback((value: string) => {
-    setNewMessage(value);
-    
-    if (!isTyping) {
-      setIsTyping(true);
-      sendTyping(true);
+      console.error("Failed to send message:", error);
     }
+  }, [newMessage, sendMessage, replyingTo]);
 
-    clearTimeout(typingTimeoutRef.current);
-    typingTimeoutRef.current = setTimeout(() => {
-      setIsTyping(false);
-      sendTyping(false);
-    }, 1000);
-  }, [isTyping, sendTyping]);
-
-  const handleFileUpload = useCallback(async (file: File) => {
-    try {
-      await sendFile(file);
-      setShowMediaUpload(false);
-    } catch (error) {
-      console.error('Failed to send file:', error);
-    }
-  }, [sendFile]);
+  const handleReplyToMessage = useCallback((message: ChatMessage) => {
+    setReplyingTo(message);
+    inputRef.current?.focus();
+  }, []);
 
-  const addReaction = useCallback((messageId: string, emoji: string) => {
-    setMessageReactions(prev => ({
-      ...prev,
-      [messageId]: [...(prev[messageId] || []), emoji]
-    }));
+  // Scroll to a message and flash it
+  const jumpToMessage = useCallback((messageId: string) => {
+    setSearchQuery("");
+    setShowPinned(false);
+    setThreadRootId(null);
+    document
+      .getElementById(messageElementId(messageId))
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    setHighlightedMessageId(messageId);
+    setTimeout(
+      () =>
+        setHighlightedMessageId((current) =>
+          current === messageId ? null : current,
+        ),
+      2000,
+    );
   }, []);
 
+  const handleTyping = useCallback(
+    (value: string) => {
+      setNewMessage(value);
+
+      if (!isTyping) {
+        setIsTyping(true);
+        sendTyping(true);
+      }
+
+      clearTimeout(typingTimeoutRef.current);
+      typingTimeoutRef.current = setTimeout(() => {
+        setIsTyping(false);
+        sendTyping(false);
+      }, 1000);
+    },
+    [isTyping, sendTyping],
+  );
+
+  const handleFileUpload = useCallback(
+    async (file: File) => {
+      try {
+        await sendFile(file);
+        setShowMediaUpload(false);
+      } catch (error) {
+        console.error("Failed to send file:", error);
+      }
+    },
+    [sendFile],
+  );
+
   const quickActions = [
-    { icon: Phone, label: "Voice Call", action: () => console.log('Voice call') },
-    { icon: Video, label: "Video Call", action: () => console.log('Video call') },
+    {
+      icon: Phone,
+      label: "Voice Call",
+      action: () => console.log("Voice call"),
+    },
+    {
+      icon: Video,
+      label: "Video Call",
+      action: () => console.log("Video call"),
+    },
     { icon: Search, label: "Search", action: () => setShowSearch(!showSearch) },
-    { icon: Settings, label: "Settings", action: () => setShowTranslationSettings(true) },
-    { icon: AlertTriangle, label: "Debug", action: () => setShowDebugPanel(true) }
+    { icon: Pin, label: "Pinned Messages", action: () => setShowPinned(true) },
+    {
+      icon: Settings,
+      label: "Settings",
+      action: () => setShowTranslationSettings(true),
+    },
+    {
+      icon: ShieldCheck,
+      label: "Verify Safety Number",
+      action: () => setShowVerification(true),
+    },
+    {
+      icon: AlertTriangle,
+      label: "Debug",
+      action: () => setShowDebugPanel(true),
+    },
   ];
 
-  const quickReactions = ['❤️', '😊', '👍', '😂', '😮', '😢'];
+  const quickReactions = ["❤️", "😊", "👍", "😂", "😮", "😢"];
 
   return (
     <div className="h-screen flex flex-col relative overflow-hidden">
       {/* Animated background */}
-      <motion.div 
+      <motion.div
         className="absolute inset-0"
         style={{ background: currentTheme.bg }}
         animate={{ opacity: [0.8, 1, 0.8] }}
         transition={{ duration: 4, repeat: Infinity, ease: "easeInOut" }}
       />
-      
+
       {/* Floating elements for ambiance */}
       <div className="absolute inset-0 pointer-events-none">
         {[...Array(4)].map((_, i) => (
@@ -203,24 +320,24 @@ export default function Chat({ partner, onDisconnect, onBack }: ChatProps) {
             className={`absolute w-4 h-4 rounded-full bg-white/10 backdrop-blur-sm`}
             style={{
               left: `${Math.random() * 100}%`,
-              top: `${Math.random() * 100}%`
+              top: `${Math.random() * 100}%`,
             }}
             animate={{
               y: [0, -20, 0],
               opacity: [0.3, 0.8, 0.3],
-              scale: [0.8, 1.2, 0.8]
+              scale: [0.8, 1.2, 0.8],
             }}
             transition={{
               duration: 6 + i * 2,
               repeat: Infinity,
-              ease: "easeInOut"
+              ease: "easeInOut",
             }}
           />
         ))}
       </div>
 
       {/* Header */}
-      <motion.header 
+      <motion.header
         className="relative z-10 bg-white/10 backdrop-blur-xl border-b border-white/20"
         initial={{ y: -50, opacity: 0 }}
         animate={{ y: 0, opacity: 1 }}
@@ -239,7 +356,7 @@ export default function Chat({ partner, onDisconnect, onBack }: ChatProps) {
                 <ArrowLeft className="w-5 h-5" />
               </motion.button>
             )}
-            <motion.div 
+            <motion.div
               className="relative"
               whileHover={{ scale: 1.1 }}
               whileTap={{ scale: 0.9 }}
@@ -248,25 +365,27 @@ export default function Chat({ partner, onDisconnect, onBack }: ChatProps) {
                 <User className="w-6 h-6 text-white" />
               </div>
               {partnerOnline && (
-                <motion.div 
+                <motion.div
                   className="absolute -bottom-1 -right-1 w-4 h-4 bg-green-500 rounded-full border-2 border-white"
                   animate={{ scale: [1, 1.2, 1] }}
                   transition={{ duration: 2, repeat: Infinity }}
                 />
               )}
             </motion.div>
-            
+
             <div>
-              <h2 className="text-white font-semibold text-lg">{partner.email}</h2>
+              <h2 className="text-white font-semibold text-lg">
+                {partner.email}
+              </h2>
               <div className="flex items-center space-x-2">
-                <motion.div 
-                  className={`w-2 h-2 rounded-full ${partnerOnline ? 'bg-green-400' : 'bg-gray-400'}`}
+                <motion.div
+                  className={`w-2 h-2 rounded-full ${partnerOnline ? "bg-green-400" : "bg-gray-400"}`}
                   animate={partnerOnline ? { opacity: [0.5, 1, 0.5] } : {}}
                   transition={{ duration: 2, repeat: Infinity }}
                 />
                 <span className="text-white/70 text-sm">
-                  {partnerOnline ? 'Online' : 'Offline'}
-                  {partnerTyping && ' • typing...'}
+                  {partnerOnline ? "Online" : "Offline"}
+                  {partnerTyping && " • typing..."}
                 </span>
               </div>
             </div>
@@ -285,7 +404,7 @@ export default function Chat({ partner, onDisconnect, onBack }: ChatProps) {
                 <action.icon className="w-5 h-5" />
               </motion.button>
             ))}
-            
+
             <motion.button
               onClick={onDisconnect}
               className="w-10 h-10 bg-red-500/20 hover:bg-red-500/30 rounded-[1rem] flex items-center justify-center text-red-300 hover:text-red-200 transition-all duration-200 backdrop-blur-sm"
@@ -303,7 +422,7 @@ export default function Chat({ partner, onDisconnect, onBack }: ChatProps) {
             <motion.div
               className="px-4 pb-4"
               initial={{ height: 0, opacity: 0 }}
-              animate={{ height: 'auto', opacity: 1 }}
+              animate={{ height: "auto", opacity: 1 }}
               exit={{ height: 0, opacity: 0 }}
               transition={{ duration: 0.3 }}
             >
@@ -318,12 +437,14 @@ export default function Chat({ partner, onDisconnect, onBack }: ChatProps) {
         </AnimatePresence>
 
         {/* Theme indicator */}
-        <motion.div 
+        <motion.div
           className="absolute top-4 left-1/2 transform -translate-x-1/2 px-3 py-1 bg-white/10 rounded-[1rem] backdrop-blur-sm"
           animate={{ y: [0, -2, 0] }}
           transition={{ duration: 3, repeat: Infinity }}
         >
-          <span className="text-white/80 text-xs font-medium">{currentTheme.name}</span>
+          <span className="text-white/80 text-xs font-medium">
+            {currentTheme.name}
+          </span>
         </motion.div>
       </motion.header>
 
@@ -333,15 +454,16 @@ export default function Chat({ partner, onDisconnect, onBack }: ChatProps) {
           {filteredMessages.map((message, index) => (
             <motion.div
               key={`${message.id}-${index}`}
-              className={`flex ${message.senderEmail === user?.email ? 'justify-end' : 'justify-start'}`}
+              id={messageElementId(message.id)}
+              className={`flex ${message.senderEmail === user?.email ? "justify-end" : "justify-start"}`}
               initial={{ opacity: 0, y: 20, scale: 0.8 }}
               animate={{ opacity: 1, y: 0, scale: 1 }}
               exit={{ opacity: 0, y: -20, scale: 0.8 }}
-              transition={{ 
-                duration: 0.3, 
+              transition={{
+                duration: 0.3,
                 delay: index * 0.05,
                 type: "spring",
-                bounce: 0.3
+                bounce: 0.3,
               }}
               layout
             >
@@ -351,6 +473,10 @@ export default function Chat({ partner, onDisconnect, onBack }: ChatProps) {
                     message.senderEmail === user?.email
                       ? `bg-gradient-to-br ${currentTheme.messageUser} text-white`
                       : `bg-gradient-to-br ${currentTheme.messagePartner} text-white`
+                  } ${pinnedIds.has(message.id) ? "ring-2 ring-yellow-400/50" : ""} ${
+                    highlightedMessageId === message.id
+                      ? "ring-2 ring-white/70"
+                      : ""
                   }`}
                   whileHover={{ scale: 1.02, y: -2 }}
                   transition={{ duration: 0.2 }}
@@ -360,62 +486,94 @@ export default function Chat({ partner, onDisconnect, onBack }: ChatProps) {
                     className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent"
                     animate={{
                       x: [-100, 100],
-                      opacity: [0, 1, 0]
+                      opacity: [0, 1, 0],
                     }}
                     transition={{
                       duration: 3,
                       repeat: Infinity,
-                      ease: "easeInOut"
+                      ease: "easeInOut",
                     }}
                   />
-                  
-                  <MessageBubble 
-                    message={message} 
-                    isOwn={message.senderEmail === user?.email}
-                    onReact={(emoji) => addReaction(message.id, emoji)}
+
+                  <MessageBubble
+                    message={message}
+                    isOwn={message.senderId === user?.id}
+                    onReact={(emoji) => toggleReaction(message.id, emoji)}
+                    onEdit={
+                      canEditMessage(message, user?.id)
+                        ? (text) => editMessage(message.id, text)
+                        : undefined
+                    }
+                    onDelete={
+                      message.senderId === user?.id
+                        ? () => deleteMessage(message.id)
+                        : undefined
+                    }
+                    onReply={() => handleReplyToMessage(message)}
+                    quote={
+                      message.replyTo ? quoteFor(message.replyTo) : undefined
+                    }
+                    onQuoteClick={
+                      message.replyTo
+                        ? () => jumpToMessage(message.replyTo!)
+                        : undefined
+                    }
+                    replyCount={threadReplyCounts.get(message.id)}
+                    onOpenThread={() => setThreadRootId(message.id)}
+                    isPinned={pinnedIds.has(message.id)}
+                    onTogglePin={
+                      canPinMessages && !message.deletedAt
+                        ? () => togglePin(message.id)
+                        : undefined
+                    }
                   />
-                  
+
                   {/* Message reactions */}
-                  {messageReactions[message.id] && (
-                    <div className="mt-2 flex flex-wrap gap-1">
-                      {messageReactions[message.id].map((reaction, i) => (
-                        <motion.span
-                          key={i}
-                          className="text-sm bg-white/20 rounded-full px-2 py-1"
-                          initial={{ scale: 0 }}
-                          animate={{ scale: 1 }}
-                          transition={{ delay: i * 0.1 }}
-                        >
-                          {reaction}
-                        </motion.span>
-                      ))}
-                    </div>
-                  )}
+                  <MessageReactions
+                    message={message}
+                    userId={user?.id}
+                    reactorName={() => partnerName}
+                    onToggle={(emoji) => toggleReaction(message.id, emoji)}
+                  />
                 </motion.div>
 
                 {/* Quick reactions on hover */}
-                <motion.div
-                  className="absolute -top-8 left-1/2 transform -translate-x-1/2 flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity duration-200"
-                  initial={{ y: 10 }}
-                  whileHover={{ y: 0 }}
-                >
-                  {quickReactions.map((emoji, i) => (
+                {!message.deletedAt && (
+                  <motion.div
+                    className="absolute -top-8 left-1/2 transform -translate-x-1/2 flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity duration-200"
+                    initial={{ y: 10 }}
+                    whileHover={{ y: 0 }}
+                  >
+                    {quickReactions.map((emoji, i) => (
+                      <motion.button
+                        key={i}
+                        onClick={() => toggleReaction(message.id, emoji)}
+                        className="w-8 h-8 bg-white/10 backdrop-blur-md rounded-full flex items-center justify-center hover:bg-white/20 transition-all duration-200"
+                        whileHover={{ scale: 1.2 }}
+                        whileTap={{ scale: 0.9 }}
+                      >
+                        <span className="text-sm">{emoji}</span>
+                      </motion.button>
+                    ))}
                     <motion.button
-                      key={i}
-                      onClick={() => addReaction(message.id, emoji)}
+                      onClick={() => {
+                        setReactingTo(message.id);
+                        setShowEmojiPicker(true);
+                      }}
                       className="w-8 h-8 bg-white/10 backdrop-blur-md rounded-full flex items-center justify-center hover:bg-white/20 transition-all duration-200"
                       whileHover={{ scale: 1.2 }}
                       whileTap={{ scale: 0.9 }}
+                      title="More reactions"
                     >
-                      <span className="text-sm">{emoji}</span>
+                      <SmilePlus className="w-4 h-4 text-white" />
                     </motion.button>
-                  ))}
-                </motion.div>
+                  </motion.div>
+                )}
               </div>
             </motion.div>
           ))}
         </AnimatePresence>
-        
+
         {/* Typing indicator */}
         <AnimatePresence>
           {partnerTyping && (
@@ -435,7 +593,7 @@ export default function Chat({ partner, onDisconnect, onBack }: ChatProps) {
                       transition={{
                         duration: 0.6,
                         repeat: Infinity,
-                        delay: i * 0.2
+                        delay: i * 0.2,
                       }}
                     />
                   ))}
@@ -444,17 +602,46 @@ export default function Chat({ partner, onDisconnect, onBack }: ChatProps) {
             </motion.div>
           )}
         </AnimatePresence>
-        
+
         <div ref={messagesEndRef} />
       </div>
 
       {/* Input section */}
-      <motion.div 
+      <motion.div
         className="relative z-10 p-4 bg-white/5 backdrop-blur-xl border-t border-white/20"
         initial={{ y: 50, opacity: 0 }}
         animate={{ y: 0, opacity: 1 }}
         transition={{ duration: 0.5, delay: 0.2 }}
       >
+        {/* Reply preview */}
+        <AnimatePresence>
+          {replyingTo && (
+            <motion.div
+              className="mb-3 p-3 bg-white/10 rounded-[1.5rem] border border-white/20 flex items-start justify-between"
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: "auto" }}
+              exit={{ opacity: 0, height: 0 }}
+            >
+              <div className="min-w-0">
+                <span className="text-white/70 text-sm">
+                  Replying to {senderName(replyingTo.senderId)}
+                </span>
+                <p className="text-white/80 text-sm mt-1 truncate">
+                  {quotePreview(replyingTo)}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setReplyingTo(null)}
+                className="text-white/70 hover:text-white h-6 w-6 p-0"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
         <div className="flex items-end space-x-3">
           <div className="flex space-x-2">
             <motion.button
@@ -465,9 +652,12 @@ export default function Chat({ partner, onDisconnect, onBack }: ChatProps) {
             >
               <Paperclip className="w-5 h-5" />
             </motion.button>
-            
+
             <motion.button
-              onClick={() => setShowEmojiPicker(!showEmojiPicker)}
+              onClick={() => {
+                setReactingTo(null);
+                setShowEmojiPicker(!showEmojiPicker);
+              }}
               className="w-12 h-12 bg-white/10 hover:bg-white/20 rounded-[1.5rem] flex items-center justify-center text-white/70 hover:text-white transition-all duration-200 backdrop-blur-sm"
               whileHover={{ scale: 1.1, rotate: -5 }}
               whileTap={{ scale: 0.9 }}
@@ -475,21 +665,21 @@ export default function Chat({ partner, onDisconnect, onBack }: ChatProps) {
               <Smile className="w-5 h-5" />
             </motion.button>
           </div>
-          
+
           <div className="flex-1 relative">
             <Input
               ref={inputRef}
               value={newMessage}
               onChange={(e) => handleTyping(e.target.value)}
-              onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
+              onKeyPress={(e) => e.key === "Enter" && handleSendMessage()}
               placeholder="Type a message..."
               className="bg-white/10 border-white/20 text-white placeholder:text-white/60 rounded-[2rem] pr-12 h-12 backdrop-blur-sm focus:ring-2 focus:ring-white/30 transition-all duration-200"
               disabled={!isConnected}
-              style={{ fontSize: '16px' }}
+              style={{ fontSize: "16px" }}
             />
-            
+
             {isTranslationEnabled && (
-              <motion.div 
+              <motion.div
                 className="absolute right-12 top-1/2 transform -translate-y-1/2"
                 animate={{ rotate: [0, 360] }}
                 transition={{ duration: 4, repeat: Infinity, ease: "linear" }}
@@ -498,7 +688,7 @@ export default function Chat({ partner, onDisconnect, onBack }: ChatProps) {
               </motion.div>
             )}
           </div>
-          
+
           <motion.button
             onClick={handleSendMessage}
             disabled={!newMessage.trim() || !isConnected}
@@ -526,6 +716,34 @@ export default function Chat({ partner, onDisconnect, onBack }: ChatProps) {
         </AnimatePresence>
       </motion.div>
 
+      {/* Thread */}
+      <AnimatePresence>
+        {threadRoot && (
+          <ThreadView
+            root={threadRoot}
+            replies={getThreadReplies(messages, threadRoot.id)}
+            userId={user?.id}
+            senderName={senderName}
+            onReply={(text) => sendMessage(text, "text", threadRoot.id)}
+            onJumpToMessage={jumpToMessage}
+            onClose={() => setThreadRootId(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Pinned messages */}
+      <AnimatePresence>
+        {showPinned && (
+          <PinnedMessagesDrawer
+            pins={pinnedMessages}
+            senderName={senderName}
+            onJumpToMessage={jumpToMessage}
+            onUnpin={canPinMessages ? togglePin : undefined}
+            onClose={() => setShowPinned(false)}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Emoji Picker */}
       <AnimatePresence>
         {showEmojiPicker && (
@@ -538,7 +756,11 @@ export default function Chat({ partner, onDisconnect, onBack }: ChatProps) {
           >
             <EmojiPicker
               onEmojiSelect={(emoji) => {
-                setNewMessage(prev => prev + emoji);
+                if (reactingTo) {
+                  toggleReaction(reactingTo, emoji);
+                } else {
+                  setNewMessage((prev) => prev + emoji);
+                }
                 setShowEmojiPicker(false);
               }}
               onClose={() => setShowEmojiPicker(false)}
@@ -601,6 +823,63 @@ export default function Chat({ partner, onDisconnect, onBack }: ChatProps) {
         )}
       </AnimatePresence>
 
+      {/* Safety number verification */}
+      <AnimatePresence>
+        {showVerification && (
+          <SafetyNumberVerification
+            partner={partner}
+            onClose={() => setShowVerification(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Verified key changed - blocks the chat until the user decides */}
+      {verifiedKeyChanged && !showVerification && (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-md flex items-center justify-center z-[60] p-4">
+          <Card className="w-full max-w-md bg-red-500/10 backdrop-blur-xl border-red-400/50 shadow-2xl rounded-3xl">
+            <CardHeader className="pb-2">
+              <div className="flex items-center space-x-3 text-red-300">
+                <ShieldAlert className="w-6 h-6" />
+                <h3 className="font-semibold text-lg">Safety number changed</h3>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-white/80 text-sm">
+                You verified {partner.email}, but their identity key has
+                changed. They may have reinstalled or switched devices, or
+                someone may be intercepting your messages. Verify the new safety
+                number before you continue.
+              </p>
+              <div className="flex flex-col space-y-2">
+                <Button
+                  onClick={() => setShowVerification(true)}
+                  className="w-full rounded-xl bg-white/20 hover:bg-white/30 text-white"
+                >
+                  <ShieldCheck className="w-4 h-4 mr-2" />
+                  Verify new safety number
+                </Button>
+                <Button
+                  variant="ghost"
+                  onClick={() => clearContactVerification(partner.id)}
+                  className="w-full rounded-xl text-white/70 hover:bg-white/10"
+                >
+                  Continue without verifying
+                </Button>
+                {onBack && (
+                  <Button
+                    variant="ghost"
+                    onClick={onBack}
+                    className="w-full rounded-xl text-white/70 hover:bg-white/10"
+                  >
+                    Back to contacts
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       {/* Security indicator */}
       <motion.div
         className="fixed bottom-4 right-4 bg-green-500/20 backdrop-blur-md border border-green-400/50 text-green-300 px-3 py-2 rounded-[1.5rem] flex items-center space-x-2 z-40"
@@ -608,7 +887,11 @@ export default function Chat({ partner, onDisconnect, onBack }: ChatProps) {
         transition={{ duration: 3, repeat: Infinity }}
       >
         <ShieldCheck className="w-4 h-4" />
-        <span className="text-xs font-medium">End-to-End Encrypted</span>
+        <span className="text-xs font-medium">
+          {queuedMessageCount > 0
+            ? `${queuedMessageCount} waiting for encryption`
+            : "End-to-End Encrypted"}
+        </span>
       </motion.div>
     </div>
   );
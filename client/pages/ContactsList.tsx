@@ -1,15 +1,16 @@
-import React, { useState, useEffect } from 'react';
-import { motion, AnimatePresence } from 'framer-motion';
-import { useAuth } from '../contexts/AuthContext';
-import { useContacts, Contact, Group } from '../contexts/ContactContext';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
-import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import ProfileSettings from '../components/ProfileSettings';
-import ContactRename from '../components/ContactRename';
+import React, { useState, useEffect } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { useAuth } from "../contexts/AuthContext";
+import { useContacts, Contact, Group } from "../contexts/ContactContext";
+import { PublicProfile } from "@shared/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import ProfileSettings from "../components/ProfileSettings";
+import ContactRename from "../components/ContactRename";
 import {
   Users,
   Search,
@@ -35,21 +36,35 @@ import {
   AlertCircle,
   CheckCircle,
   Edit2,
-  User
-} from 'lucide-react';
+  User,
+  X,
+  Ban,
+  Mail,
+  Loader2,
+} from "lucide-react";
 
 interface ContactsListProps {
   onSelectContact: (contact: Contact) => void;
-  onCreateGroup: (contacts: Contact[]) => void;
+  onCreateGroup: (group: Group) => void;
   onBack: () => void;
 }
 
-export default function ContactsList({ onSelectContact, onCreateGroup, onBack }: ContactsListProps) {
-  const { user } = useAuth();
+// What to call someone who isn't a contact yet, such as on a friend request
+const profileName = (profile?: PublicProfile) =>
+  profile?.displayName ||
+  (profile?.username ? `@${profile.username}` : profile?.email || "Someone");
+
+export default function ContactsList({
+  onSelectContact,
+  onCreateGroup,
+  onBack,
+}: ContactsListProps) {
+  const { user, resendVerificationEmail } = useAuth();
   const {
     contacts,
     groups,
-    pendingRequests,
+    incomingRequests,
+    outgoingRequests,
     currentInviteCode,
     userProfile,
     generateNewInviteCode,
@@ -57,6 +72,8 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
     sendFriendRequest,
     acceptFriendRequest,
     rejectFriendRequest,
+    cancelFriendRequest,
+    blockUser,
     searchContacts,
     getFavoriteContacts,
     getOnlineContacts,
@@ -64,51 +81,57 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
     createGroup,
     renameContact,
     isLoading,
-    error
+    error,
   } = useContacts();
 
-  const [searchQuery, setSearchQuery] = useState('');
-  const [activeTab, setActiveTab] = useState<'contacts' | 'groups' | 'invites' | 'requests'>('contacts');
+  const [searchQuery, setSearchQuery] = useState("");
+  const [activeTab, setActiveTab] = useState<
+    "contacts" | "groups" | "invites" | "requests"
+  >("contacts");
   const [selectedContacts, setSelectedContacts] = useState<string[]>([]);
   const [isSelectionMode, setIsSelectionMode] = useState(false);
   const [copiedCode, setCopiedCode] = useState(false);
-  const [filterBy, setFilterBy] = useState<'all' | 'online' | 'favorites' | 'recent'>('all');
+  const [filterBy, setFilterBy] = useState<
+    "all" | "online" | "favorites" | "recent"
+  >("all");
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [showQRCode, setShowQRCode] = useState(false);
-  const [newFriendEmail, setNewFriendEmail] = useState('');
-  const [addFriendCode, setAddFriendCode] = useState('');
+  const [newFriendHandle, setNewFriendHandle] = useState("");
+  const [addFriendCode, setAddFriendCode] = useState("");
   const [showAddFriend, setShowAddFriend] = useState(false);
-  const [successMessage, setSuccessMessage] = useState('');
+  const [successMessage, setSuccessMessage] = useState("");
+  const [verificationNotice, setVerificationNotice] = useState("");
+  const [isResendingVerification, setIsResendingVerification] = useState(false);
   const [showProfileSettings, setShowProfileSettings] = useState(false);
   const [renamingContact, setRenamingContact] = useState<Contact | null>(null);
 
   useEffect(() => {
     const handleOnline = () => setIsOnline(true);
     const handleOffline = () => setIsOnline(false);
-    
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
-    
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+
     return () => {
-      window.removeEventListener('online', handleOnline);
-      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
     };
   }, []);
 
   const getFilteredContacts = () => {
     let filteredContacts = contacts;
-    
+
     if (searchQuery) {
       filteredContacts = searchContacts(searchQuery);
     } else {
       switch (filterBy) {
-        case 'online':
+        case "online":
           filteredContacts = getOnlineContacts();
           break;
-        case 'favorites':
+        case "favorites":
           filteredContacts = getFavoriteContacts();
           break;
-        case 'recent':
+        case "recent":
           filteredContacts = getRecentContacts();
           break;
         default:
@@ -120,28 +143,36 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
   };
 
   const filteredContacts = getFilteredContacts();
-  const filteredGroups = groups.filter(group =>
-    group.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    group.description?.toLowerCase().includes(searchQuery.toLowerCase())
+  const filteredGroups = groups.filter(
+    (group) =>
+      group.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      group.description?.toLowerCase().includes(searchQuery.toLowerCase()),
   );
 
   const handleSelectContact = (contact: Contact) => {
     if (isSelectionMode) {
-      setSelectedContacts(prev =>
+      setSelectedContacts((prev) =>
         prev.includes(contact.id)
-          ? prev.filter(id => id !== contact.id)
-          : [...prev, contact.id]
+          ? prev.filter((id) => id !== contact.id)
+          : [...prev, contact.id],
       );
     } else {
       onSelectContact(contact);
     }
   };
 
-  const handleCreateGroup = () => {
-    const selectedContactObjects = contacts.filter(c => selectedContacts.includes(c.id));
+  const handleCreateGroup = async () => {
+    const selectedContactObjects = contacts.filter((c) =>
+      selectedContacts.includes(c.id),
+    );
     if (selectedContactObjects.length >= 1) {
-      const newGroup = createGroup(`Group with ${selectedContactObjects.map(c => c.username || c.email).join(', ')}`, selectedContactObjects);
-      onCreateGroup(selectedContactObjects);
+      const newGroup = await createGroup(
+        `Group with ${selectedContactObjects.map((c) => c.username || c.email).join(", ")}`,
+        selectedContactObjects,
+      );
+      if (!newGroup) return;
+
+      onCreateGroup(newGroup);
       setIsSelectionMode(false);
       setSelectedContacts([]);
     }
@@ -149,48 +180,56 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
 
   const copyInviteCode = async () => {
     if (!currentInviteCode) return;
-    
+
     try {
       await navigator.clipboard.writeText(currentInviteCode.code);
       setCopiedCode(true);
       setTimeout(() => setCopiedCode(false), 2000);
     } catch (error) {
-      console.error('Failed to copy code:', error);
+      console.error("Failed to copy code:", error);
     }
   };
 
   const handleAddFriendByCode = async () => {
     if (!addFriendCode.trim()) return;
-    
-    const success = await addFriendByCode(addFriendCode, {
-      email: `user_${addFriendCode.toLowerCase()}@example.com`,
-      username: `User ${addFriendCode}`
-    });
-    
+
+    const success = await addFriendByCode(addFriendCode);
+
     if (success) {
-      setAddFriendCode('');
-      setSuccessMessage('Friend added successfully!');
-      setTimeout(() => setSuccessMessage(''), 3000);
+      setAddFriendCode("");
+      setSuccessMessage("Friend added successfully!");
+      setTimeout(() => setSuccessMessage(""), 3000);
     }
   };
 
   const handleSendFriendRequest = async () => {
-    if (!newFriendEmail.trim()) return;
-    
-    const success = await sendFriendRequest(newFriendEmail);
+    if (!newFriendHandle.trim()) return;
+
+    const success = await sendFriendRequest(newFriendHandle);
     if (success) {
-      setNewFriendEmail('');
-      setSuccessMessage('Friend request sent!');
-      setTimeout(() => setSuccessMessage(''), 3000);
+      setNewFriendHandle("");
+      setSuccessMessage("Friend request sent!");
+      setTimeout(() => setSuccessMessage(""), 3000);
+    }
+  };
+
+  const handleAcceptFriendRequest = async (requestId: string) => {
+    if (await acceptFriendRequest(requestId)) {
+      setSuccessMessage("Friend request accepted!");
+      setTimeout(() => setSuccessMessage(""), 3000);
     }
   };
 
   const getStatusColor = (status?: string) => {
     switch (status) {
-      case 'online': return 'bg-green-500';
-      case 'away': return 'bg-yellow-500';
-      case 'busy': return 'bg-red-500';
-      default: return 'bg-gray-500';
+      case "online":
+        return "bg-green-500";
+      case "away":
+        return "bg-yellow-500";
+      case "busy":
+        return "bg-red-500";
+      default:
+        return "bg-gray-500";
     }
   };
 
@@ -200,30 +239,50 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
     const hours = Math.floor(diff / 3600000);
     const days = Math.floor(diff / 86400000);
 
-    if (minutes < 1) return 'Just now';
+    if (minutes < 1) return "Just now";
     if (minutes < 60) return `${minutes}m ago`;
     if (hours < 24) return `${hours}h ago`;
     return `${days}d ago`;
   };
 
   const tabs = [
-    { id: 'contacts', label: 'Contacts', icon: Users, count: contacts.length },
-    { id: 'groups', label: 'Groups', icon: MessageCircle, count: groups.length },
-    { id: 'requests', label: 'Requests', icon: UserPlus, count: pendingRequests.length },
-    { id: 'invites', label: 'Invite', icon: UserPlus, count: 0 }
+    { id: "contacts", label: "Contacts", icon: Users, count: contacts.length },
+    {
+      id: "groups",
+      label: "Groups",
+      icon: MessageCircle,
+      count: groups.length,
+    },
+    {
+      id: "requests",
+      label: "Requests",
+      icon: UserPlus,
+      count: incomingRequests.length,
+    },
+    { id: "invites", label: "Invite", icon: UserPlus, count: 0 },
   ] as const;
 
   const filters = [
-    { id: 'all', label: 'All', icon: Users },
-    { id: 'online', label: 'Online', icon: Wifi },
-    { id: 'favorites', label: 'Favorites', icon: Star },
-    { id: 'recent', label: 'Recent', icon: Clock }
+    { id: "all", label: "All", icon: Users },
+    { id: "online", label: "Online", icon: Wifi },
+    { id: "favorites", label: "Favorites", icon: Star },
+    { id: "recent", label: "Recent", icon: Clock },
   ] as const;
 
+  const handleResendVerification = async () => {
+    setIsResendingVerification(true);
+    const result = await resendVerificationEmail();
+    setVerificationNotice(
+      result.message ||
+        (result.success ? "Verification email sent" : "Failed to send email"),
+    );
+    setIsResendingVerification(false);
+  };
+
   return (
     <div className="h-screen flex flex-col bg-gradient-to-br from-purple-600 via-blue-600 to-cyan-600 relative overflow-hidden">
       {/* Header */}
-      <motion.header 
+      <motion.header
         className="relative z-10 bg-white/10 backdrop-blur-xl border-b border-white/20"
         initial={{ y: -50, opacity: 0 }}
         animate={{ y: 0, opacity: 1 }}
@@ -239,7 +298,7 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
             >
               <ArrowLeft className="w-5 h-5" />
             </motion.button>
-            
+
             <div className="flex items-center space-x-3">
               <motion.div
                 onClick={() => setShowProfileSettings(true)}
@@ -250,7 +309,13 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
                 <Avatar className="w-12 h-12 border-2 border-white/20">
                   <AvatarImage src={userProfile?.avatar} />
                   <AvatarFallback className="bg-gradient-to-br from-purple-400 to-blue-500 text-white font-bold">
-                    {userProfile?.username?.charAt(0) || userProfile?.email.charAt(0).toUpperCase()}
+                    {(
+                      userProfile?.displayName ||
+                      userProfile?.username ||
+                      userProfile?.email
+                    )
+                      ?.charAt(0)
+                      .toUpperCase()}
                   </AvatarFallback>
                 </Avatar>
               </motion.div>
@@ -258,7 +323,9 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
               <div>
                 <h1 className="text-2xl font-bold text-white">SecureChat</h1>
                 <p className="text-white/70 text-sm">
-                  {isOnline ? `${getOnlineContacts().length} online` : 'Offline'}
+                  {isOnline
+                    ? `${getOnlineContacts().length} online`
+                    : "Offline"}
                 </p>
               </div>
             </div>
@@ -268,9 +335,9 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
             <motion.button
               onClick={() => setIsSelectionMode(!isSelectionMode)}
               className={`w-10 h-10 rounded-[1rem] flex items-center justify-center transition-all duration-200 backdrop-blur-sm ${
-                isSelectionMode 
-                  ? 'bg-blue-500/30 text-blue-300' 
-                  : 'bg-white/10 hover:bg-white/20 text-white/70 hover:text-white'
+                isSelectionMode
+                  ? "bg-blue-500/30 text-blue-300"
+                  : "bg-white/10 hover:bg-white/20 text-white/70 hover:text-white"
               }`}
               whileHover={{ scale: 1.1 }}
               whileTap={{ scale: 0.9 }}
@@ -307,41 +374,42 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
             <motion.div
               className="bg-white/5 border-t border-white/10 p-4"
               initial={{ height: 0, opacity: 0 }}
-              animate={{ height: 'auto', opacity: 1 }}
+              animate={{ height: "auto", opacity: 1 }}
               exit={{ height: 0, opacity: 0 }}
               transition={{ duration: 0.3 }}
             >
               <div className="space-y-3">
                 <div className="flex space-x-2">
                   <Input
-                    placeholder="Enter friend's email"
-                    value={newFriendEmail}
-                    onChange={(e) => setNewFriendEmail(e.target.value)}
+                    placeholder="Friend's @handle or email"
+                    value={newFriendHandle}
+                    onChange={(e) => setNewFriendHandle(e.target.value)}
                     className="bg-white/10 border-white/20 text-white placeholder:text-white/60 rounded-[1.5rem] flex-1"
-                    type="email"
                   />
                   <Button
                     onClick={handleSendFriendRequest}
-                    disabled={!newFriendEmail.trim() || isLoading}
+                    disabled={!newFriendHandle.trim() || isLoading}
                     className="bg-blue-500 hover:bg-blue-600 text-white rounded-[1.5rem]"
                   >
                     <Send className="w-4 h-4" />
                   </Button>
                 </div>
-                
+
                 <div className="flex items-center text-white/60 text-sm">
                   <div className="flex-1 h-px bg-white/20"></div>
                   <span className="px-3">or use invite code</span>
                   <div className="flex-1 h-px bg-white/20"></div>
                 </div>
-                
+
                 <div className="flex space-x-2">
                   <Input
                     placeholder="Enter invite code"
                     value={addFriendCode}
-                    onChange={(e) => setAddFriendCode(e.target.value.toUpperCase())}
+                    onChange={(e) =>
+                      setAddFriendCode(e.target.value.toUpperCase())
+                    }
                     className="bg-white/10 border-white/20 text-white placeholder:text-white/60 rounded-[1.5rem] flex-1 uppercase tracking-wider text-center"
-                    maxLength={8}
+                    maxLength={12}
                   />
                   <Button
                     onClick={handleAddFriendByCode}
@@ -379,8 +447,8 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
                 onClick={() => setActiveTab(tab.id)}
                 className={`flex items-center space-x-2 px-4 py-2 rounded-[1.5rem] transition-all duration-200 ${
                   isActive
-                    ? 'bg-white/20 text-white shadow-lg'
-                    : 'bg-white/5 text-white/70 hover:bg-white/10 hover:text-white'
+                    ? "bg-white/20 text-white shadow-lg"
+                    : "bg-white/5 text-white/70 hover:bg-white/10 hover:text-white"
                 }`}
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
@@ -388,7 +456,10 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
                 <tab.icon className="w-4 h-4" />
                 <span className="text-sm font-medium">{tab.label}</span>
                 {tab.count > 0 && (
-                  <Badge variant="secondary" className="bg-white/20 text-white text-xs">
+                  <Badge
+                    variant="secondary"
+                    className="bg-white/20 text-white text-xs"
+                  >
                     {tab.count}
                   </Badge>
                 )}
@@ -398,8 +469,8 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
         </div>
 
         {/* Filters for contacts tab */}
-        {activeTab === 'contacts' && (
-          <motion.div 
+        {activeTab === "contacts" && (
+          <motion.div
             className="flex items-center space-x-2 px-4 pb-4 overflow-x-auto"
             initial={{ opacity: 0, y: -10 }}
             animate={{ opacity: 1, y: 0 }}
@@ -413,8 +484,8 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
                   onClick={() => setFilterBy(filter.id as any)}
                   className={`flex items-center space-x-1 px-3 py-1 rounded-[1rem] transition-all duration-200 whitespace-nowrap ${
                     isActive
-                      ? 'bg-white/20 text-white'
-                      : 'bg-white/5 text-white/60 hover:bg-white/10 hover:text-white'
+                      ? "bg-white/20 text-white"
+                      : "bg-white/5 text-white/60 hover:bg-white/10 hover:text-white"
                   }`}
                   whileHover={{ scale: 1.05 }}
                   whileTap={{ scale: 0.95 }}
@@ -427,6 +498,34 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
           </motion.div>
         )}
 
+        {/* Connecting with people needs a verified address */}
+        {user && !user.emailVerified && (
+          <div className="px-4 pb-4">
+            <Alert className="bg-amber-500/20 border-amber-400/50 text-amber-100 backdrop-blur-sm rounded-[1.5rem]">
+              <Mail className="w-4 h-4" />
+              <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+                <span>
+                  {verificationNotice ||
+                    `Verify ${user.email} to add friends and join groups. Check your inbox for the link.`}
+                </span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={handleResendVerification}
+                  disabled={isResendingVerification}
+                  className="text-white hover:bg-white/10 rounded-[1rem]"
+                >
+                  {isResendingVerification ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    "Resend email"
+                  )}
+                </Button>
+              </AlertDescription>
+            </Alert>
+          </div>
+        )}
+
         {/* Success/Error Messages */}
         <AnimatePresence>
           {(successMessage || error) && (
@@ -436,15 +535,19 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
               animate={{ opacity: 1, y: 0 }}
               exit={{ opacity: 0, y: -10 }}
             >
-              <Alert className={`${
-                successMessage 
-                  ? 'bg-green-500/20 border-green-400/50 text-green-300' 
-                  : 'bg-red-500/20 border-red-400/50 text-red-300'
-              } backdrop-blur-sm rounded-[1.5rem]`}>
-                {successMessage ? <CheckCircle className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
-                <AlertDescription>
-                  {successMessage || error}
-                </AlertDescription>
+              <Alert
+                className={`${
+                  successMessage
+                    ? "bg-green-500/20 border-green-400/50 text-green-300"
+                    : "bg-red-500/20 border-red-400/50 text-red-300"
+                } backdrop-blur-sm rounded-[1.5rem]`}
+              >
+                {successMessage ? (
+                  <CheckCircle className="w-4 h-4" />
+                ) : (
+                  <AlertCircle className="w-4 h-4" />
+                )}
+                <AlertDescription>{successMessage || error}</AlertDescription>
               </Alert>
             </motion.div>
           )}
@@ -455,7 +558,7 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
       <div className="flex-1 overflow-hidden relative z-10">
         <div className="h-full overflow-y-auto p-4 space-y-4">
           <AnimatePresence mode="wait">
-            {activeTab === 'contacts' && (
+            {activeTab === "contacts" && (
               <motion.div
                 key="contacts"
                 initial={{ opacity: 0, x: -20 }}
@@ -475,9 +578,11 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
                       whileHover={{ scale: 1.02, y: -2 }}
                       whileTap={{ scale: 0.98 }}
                     >
-                      <Card 
+                      <Card
                         className={`bg-white/10 backdrop-blur-sm border-white/20 hover:bg-white/15 transition-all duration-200 cursor-pointer relative overflow-hidden ${
-                          isSelected ? 'ring-2 ring-blue-400/50 bg-blue-500/20' : ''
+                          isSelected
+                            ? "ring-2 ring-blue-400/50 bg-blue-500/20"
+                            : ""
                         }`}
                         onClick={() => handleSelectContact(contact)}
                       >
@@ -486,19 +591,33 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
                             <div className="flex items-center space-x-3">
                               <div className="relative">
                                 <div className="w-12 h-12 bg-gradient-to-br from-purple-400 to-blue-500 rounded-[1.5rem] flex items-center justify-center text-white font-semibold text-lg border-2 border-white/20">
-                                  {contact.username?.charAt(0) || contact.email.charAt(0).toUpperCase()}
+                                  {(
+                                    contact.displayName ||
+                                    contact.profileName ||
+                                    contact.username ||
+                                    contact.email
+                                  )
+                                    .charAt(0)
+                                    .toUpperCase()}
                                 </div>
-                                <motion.div 
+                                <motion.div
                                   className={`absolute -bottom-1 -right-1 w-4 h-4 ${getStatusColor(contact.status)} rounded-full border-2 border-white`}
-                                  animate={contact.isOnline ? { scale: [1, 1.2, 1] } : {}}
+                                  animate={
+                                    contact.isOnline
+                                      ? { scale: [1, 1.2, 1] }
+                                      : {}
+                                  }
                                   transition={{ duration: 2, repeat: Infinity }}
                                 />
                               </div>
-                              
+
                               <div className="flex-1 min-w-0">
                                 <div className="flex items-center space-x-2">
                                   <h3 className="text-white font-medium truncate">
-                                    {contact.displayName || contact.username || contact.email}
+                                    {contact.displayName ||
+                                      contact.profileName ||
+                                      contact.username ||
+                                      contact.email}
                                   </h3>
                                   {contact.isFavorite && (
                                     <Heart className="w-4 h-4 text-red-400 fill-current" />
@@ -509,11 +628,12 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
                                 </div>
 
                                 <p className="text-white/60 text-sm truncate">
-                                  {contact.lastMessage?.content || contact.email}
+                                  {contact.lastMessage?.content ||
+                                    contact.email}
                                 </p>
                               </div>
                             </div>
-                            
+
                             <div className="flex flex-col items-end space-y-2">
                               {contact.unreadCount! > 0 && (
                                 <motion.div
@@ -548,7 +668,7 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
                     </motion.div>
                   );
                 })}
-                
+
                 {filteredContacts.length === 0 && (
                   <motion.div
                     initial={{ opacity: 0, y: 20 }}
@@ -556,9 +676,13 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
                     className="text-center py-12"
                   >
                     <Users className="w-16 h-16 text-white/30 mx-auto mb-4" />
-                    <h3 className="text-white text-lg font-medium mb-2">No contacts found</h3>
+                    <h3 className="text-white text-lg font-medium mb-2">
+                      No contacts found
+                    </h3>
                     <p className="text-white/60 text-sm mb-4">
-                      {searchQuery ? 'Try adjusting your search' : 'Start by adding some friends'}
+                      {searchQuery
+                        ? "Try adjusting your search"
+                        : "Start by adding some friends"}
                     </p>
                     <Button
                       onClick={() => setShowAddFriend(true)}
@@ -572,7 +696,135 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
               </motion.div>
             )}
 
-            {activeTab === 'invites' && (
+            {activeTab === "requests" && (
+              <motion.div
+                key="requests"
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                exit={{ opacity: 0, x: 20 }}
+                transition={{ duration: 0.3 }}
+                className="space-y-3"
+              >
+                {incomingRequests.map((request, index) => (
+                  <motion.div
+                    key={request.id}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: index * 0.05, duration: 0.3 }}
+                  >
+                    <Card className="bg-white/10 backdrop-blur-sm border-white/20">
+                      <CardContent className="p-4">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center space-x-3 min-w-0">
+                            <div className="w-12 h-12 bg-gradient-to-br from-purple-400 to-blue-500 rounded-[1.5rem] flex items-center justify-center text-white font-semibold text-lg border-2 border-white/20">
+                              {profileName(request.from)
+                                .replace(/^@/, "")
+                                .charAt(0)
+                                .toUpperCase()}
+                            </div>
+                            <div className="min-w-0">
+                              <h3 className="text-white font-medium truncate">
+                                {profileName(request.from)}
+                              </h3>
+                              <p className="text-white/60 text-sm truncate">
+                                {request.from?.displayName &&
+                                  request.from.username &&
+                                  `@${request.from.username} · `}
+                                Wants to connect ·{" "}
+                                {formatLastSeen(request.createdAt)}
+                              </p>
+                            </div>
+                          </div>
+
+                          <div className="flex items-center space-x-2">
+                            <Button
+                              size="sm"
+                              onClick={() =>
+                                handleAcceptFriendRequest(request.id)
+                              }
+                              disabled={isLoading}
+                              className="bg-green-500 hover:bg-green-600 text-white rounded-full"
+                              title="Accept"
+                            >
+                              <Check className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => rejectFriendRequest(request.id)}
+                              disabled={isLoading}
+                              className="bg-white/10 hover:bg-white/20 text-white border-white/20 rounded-full"
+                              title="Decline"
+                            >
+                              <X className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => blockUser(request.fromUserId)}
+                              disabled={isLoading}
+                              className="bg-white/10 hover:bg-red-500/30 text-white border-white/20 rounded-full"
+                              title="Block"
+                            >
+                              <Ban className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </motion.div>
+                ))}
+
+                {outgoingRequests.length > 0 && (
+                  <div className="space-y-2 pt-2">
+                    <h4 className="text-white/70 text-sm font-medium px-1">
+                      Sent
+                    </h4>
+                    {outgoingRequests.map((request) => (
+                      <div
+                        key={request.id}
+                        className="flex items-center justify-between bg-white/5 border border-white/10 rounded-[1.5rem] px-4 py-3"
+                      >
+                        <div className="flex items-center space-x-2 min-w-0">
+                          <Clock className="w-4 h-4 text-white/50" />
+                          <span className="text-white/80 text-sm truncate">
+                            {profileName(request.to)}
+                          </span>
+                        </div>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => cancelFriendRequest(request.id)}
+                          disabled={isLoading}
+                          className="text-white/70 hover:text-white hover:bg-white/10"
+                        >
+                          Cancel
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {incomingRequests.length === 0 &&
+                  outgoingRequests.length === 0 && (
+                    <motion.div
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      className="text-center py-12"
+                    >
+                      <UserPlus className="w-16 h-16 text-white/30 mx-auto mb-4" />
+                      <h3 className="text-white text-lg font-medium mb-2">
+                        No friend requests
+                      </h3>
+                      <p className="text-white/60 text-sm">
+                        Requests you send or receive will show up here
+                      </p>
+                    </motion.div>
+                  )}
+              </motion.div>
+            )}
+
+            {activeTab === "invites" && (
               <motion.div
                 key="invites"
                 initial={{ opacity: 0, x: -20 }}
@@ -591,7 +843,7 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
                   <CardContent className="space-y-4 relative z-10">
                     <div className="bg-white/10 rounded-[1.5rem] p-4 text-center">
                       <div className="text-3xl font-bold text-white tracking-wider mb-2">
-                        {currentInviteCode?.code || 'LOADING...'}
+                        {currentInviteCode?.code || "LOADING..."}
                       </div>
                       <p className="text-white/60 text-sm">
                         Share this code with friends to connect securely
@@ -600,7 +852,7 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
                         Code refreshes daily
                       </p>
                     </div>
-                    
+
                     <div className="flex space-x-2">
                       <Button
                         onClick={copyInviteCode}
@@ -620,7 +872,7 @@ export default function ContactsList({ onSelectContact, onCreateGroup, onBack }:
                           </>
                         )}
                       </Button>
-                      
+
                       <Button
                         onClick={generateNewInviteCode}
                         className="bg-purple-500 hover:bg-purple-600 text-white"
@@ -1,20 +1,26 @@
-import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { motion, AnimatePresence } from 'framer-motion';
-import { useAuth } from '../contexts/AuthContext';
-import { useSocket } from '../contexts/SocketContext';
-import { useEncryption } from '../contexts/EncryptionContext';
-import { useTranslation } from '../contexts/TranslationContext';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Card, CardContent, CardHeader } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
-import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { 
-  Send, 
-  Users, 
-  ArrowLeft, 
-  Wifi, 
+import React, {
+  useState,
+  useEffect,
+  useRef,
+  useCallback,
+  useMemo,
+} from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { useAuth } from "../contexts/AuthContext";
+import { useSocket } from "../contexts/SocketContext";
+import { useTranslation } from "../contexts/TranslationContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import {
+  Send,
+  Users,
+  ArrowLeft,
+  Wifi,
   WifiOff,
+  AlertCircle,
   MessageCircle,
   ShieldCheck,
   Paperclip,
@@ -41,13 +47,24 @@ import {
   EyeOff,
   Zap,
   Crown,
-  Shield
-} from 'lucide-react';
-import { ChatMessage, FileUpload, MediaContent } from '@shared/api';
-import MessageBubble from '../components/MessageBubble';
-import MediaUpload from '../components/MediaUpload';
-import EmojiPicker from '../components/EmojiPicker';
-import TranslationSettings from '../components/TranslationSettings';
+  Shield,
+  SmilePlus,
+} from "lucide-react";
+import { ChatMessage, FileUpload, MediaContent } from "@shared/api";
+import MessageBubble from "../components/MessageBubble";
+import MessageReactions from "../components/MessageReactions";
+import ThreadView from "../components/ThreadView";
+import PinnedMessagesDrawer from "../components/PinnedMessagesDrawer";
+import MediaUpload from "../components/MediaUpload";
+import EmojiPicker from "../components/EmojiPicker";
+import TranslationSettings from "../components/TranslationSettings";
+import { canEditMessage } from "../utils/messageEdits";
+import {
+  countThreadReplies,
+  getThreadReplies,
+  messageElementId,
+  quotePreview,
+} from "../utils/messageThreads";
 
 interface GroupMember {
   id: string;
@@ -56,7 +73,7 @@ interface GroupMember {
   avatar?: string;
   isOnline: boolean;
   isTyping?: boolean;
-  role: 'admin' | 'member';
+  role: "admin" | "member";
   joinedAt: string;
   lastSeen?: string;
 }
@@ -74,7 +91,7 @@ interface GroupInfo {
     allowMemberInvites: boolean;
     requireAdminApproval: boolean;
     allowMemberMessages: boolean;
-    encryptionLevel: 'standard' | 'enhanced';
+    encryptionLevel: "standard" | "enhanced";
   };
 }
 
@@ -84,39 +101,54 @@ interface GroupChatProps {
   onUpdateGroup: (group: GroupInfo) => void;
 }
 
-export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatProps) {
+export default function GroupChat({
+  group,
+  onBack,
+  onUpdateGroup,
+}: GroupChatProps) {
   const { user } = useAuth();
-  const { 
-    messages, 
-    sendMessage, 
-    sendTyping, 
-    partnerTyping, 
-    partnerOnline, 
+  const {
+    messages,
+    sendMessage,
+    sendTyping,
+    partnerTyping,
+    partnerOnline,
     isConnected,
-    sendFile 
+    sendFile,
+    editMessage,
+    deleteMessage,
+    canDeleteMessage,
+    toggleReaction,
+    pinnedMessages,
+    canPinMessages,
+    togglePin,
+    sendError,
   } = useSocket();
-  const { encryptMessage } = useEncryption();
-  const { 
-    isTranslationEnabled, 
-    targetLanguage, 
+  const {
+    isTranslationEnabled,
+    targetLanguage,
     translateMessage,
-    supportedLanguages 
+    supportedLanguages,
   } = useTranslation();
 
-  const [newMessage, setNewMessage] = useState('');
+  const [newMessage, setNewMessage] = useState("");
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
   const [showTranslationSettings, setShowTranslationSettings] = useState(false);
   const [showMediaUpload, setShowMediaUpload] = useState(false);
   const [showGroupInfo, setShowGroupInfo] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [searchQuery, setSearchQuery] = useState("");
   const [showSearch, setShowSearch] = useState(false);
   const [selectedMessage, setSelectedMessage] = useState<string | null>(null);
   const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
   const [showMembers, setShowMembers] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
-  const [pinnedMessages, setPinnedMessages] = useState<string[]>([]);
   const [showPinned, setShowPinned] = useState(false);
+  const [reactingTo, setReactingTo] = useState<string | null>(null); // Message the emoji picker reacts to
+  const [threadRootId, setThreadRootId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<
+    string | null
+  >(null);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -134,100 +166,173 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
       }
     };
 
-    window.addEventListener('resize', handleResize);
-    return () => window.removeEventListener('resize', handleResize);
+    window.addEventListener("resize", handleResize);
+    return () => window.removeEventListener("resize", handleResize);
   }, []);
 
   // Optimized message filtering
   const filteredMessages = useMemo(() => {
     let msgs = messages;
-    
+
     if (searchQuery) {
-      msgs = msgs.filter(msg => 
-        msg.content.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        msg.senderEmail?.toLowerCase().includes(searchQuery.toLowerCase())
+      msgs = msgs.filter(
+        (msg) =>
+          msg.content.toLowerCase().includes(searchQuery.toLowerCase()) ||
+          msg.senderEmail?.toLowerCase().includes(searchQuery.toLowerCase()),
       );
     }
-    
-    if (showPinned) {
-      msgs = msgs.filter(msg => pinnedMessages.includes(msg.id));
-    }
-    
+
     return msgs;
-  }, [messages, searchQuery, showPinned, pinnedMessages]);
+  }, [messages, searchQuery]);
+
+  const pinnedIds = useMemo(
+    () => new Set(pinnedMessages.map((pin) => pin.messageId)),
+    [pinnedMessages],
+  );
+
+  const onlineMembers = group.members.filter((member) => member.isOnline);
+  const typingMembers = group.members.filter((member) => member.isTyping);
+  const currentUserRole =
+    group.members.find((m) => m.id === user?.id)?.role || "member";
+  const canManageGroup = currentUserRole === "admin";
 
-  const onlineMembers = group.members.filter(member => member.isOnline);
-  const typingMembers = group.members.filter(member => member.isTyping);
-  const currentUserRole = group.members.find(m => m.id === user?.id)?.role || 'member';
-  const canManageGroup = currentUserRole === 'admin';
+  const memberName = (memberId: string) => {
+    const member = group.members.find((m) => m.id === memberId);
+    return member?.username || member?.email || "Someone";
+  };
+
+  const senderName = (senderId: string) =>
+    senderId === user?.id ? "You" : memberName(senderId);
+
+  const quickReactions = ["❤️", "😊", "👍", "😂", "😮", "😢"];
+
+  const messagesById = useMemo(
+    () => new Map(messages.map((message) => [message.id, message])),
+    [messages],
+  );
+  const threadReplyCounts = useMemo(
+    () => countThreadReplies(messages),
+    [messages],
+  );
+  const threadRoot = threadRootId ? messagesById.get(threadRootId) : undefined;
+
+  const quoteFor = (messageId: string) => {
+    const original = messagesById.get(messageId);
+    return {
+      sender: original && senderName(original.senderId),
+      text: quotePreview(original),
+    };
+  };
 
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
   const handleSendMessage = useCallback(async () => {
     if (!newMessage.trim()) return;
 
     try {
-      let messageToSend = newMessage;
-      
-      // Add reply reference if replying
-      if (replyingTo) {
-        messageToSend = `@${replyingTo.senderEmail}: ${newMessage}`;
-        setReplyingTo(null);
-      }
-
-      const encryptedMessage = await encryptMessage(messageToSend);
-      await sendMessage(encryptedMessage, 'text');
-      setNewMessage('');
+      // Goes out to the group's members through the server
+      await sendMessage(newMessage, "text", replyingTo?.id);
+      setReplyingTo(null);
+      setNewMessage("");
       setIsTyping(false);
     } catch (error) {
-      console.error('Failed to send message:', error);
-    }
-  }, [newMessage, encryptMessage, sendMessage, replyingTo]);
-
-  const handleTyping = useCallback((value: string) => {
-    setNewMessage(value);
-    
-    if (!isTyping) {
-      setIsTyping(true);
-      sendTyping(true);
+      console.error("Failed to send message:", error);
     }
+  }, [newMessage, sendMessage, replyingTo]);
 
-    clearTimeout(typingTimeoutRef.current);
-    typingTimeoutRef.current = setTimeout(() => {
-      setIsTyping(false);
-      sendTyping(false);
-    }, 1000);
-  }, [isTyping, sendTyping]);
+  const handleTyping = useCallback(
+    (value: string) => {
+      setNewMessage(value);
 
-  const handleFileUpload = useCallback(async (file: File) => {
-    try {
-      await sendFile(file);
-      setShowMediaUpload(false);
-    } catch (error) {
-      console.error('Failed to send file:', error);
-    }
-  }, [sendFile]);
+      if (!isTyping) {
+        setIsTyping(true);
+        sendTyping(true);
+      }
 
-  const handlePinMessage = useCallback((messageId: string) => {
-    setPinnedMessages(prev => 
-      prev.includes(messageId) 
-        ? prev.filter(id => id !== messageId)
-        : [...prev, messageId]
-    );
-  }, []);
+      clearTimeout(typingTimeoutRef.current);
+      typingTimeoutRef.current = setTimeout(() => {
+        setIsTyping(false);
+        sendTyping(false);
+      }, 1000);
+    },
+    [isTyping, sendTyping],
+  );
+
+  const handleFileUpload = useCallback(
+    async (file: File) => {
+      try {
+        await sendFile(file);
+        setShowMediaUpload(false);
+      } catch (error) {
+        console.error("Failed to send file:", error);
+      }
+    },
+    [sendFile],
+  );
+
+  const handlePinMessage = useCallback(
+    (messageId: string) => {
+      togglePin(messageId);
+    },
+    [togglePin],
+  );
 
   const handleReplyToMessage = useCallback((message: ChatMessage) => {
     setReplyingTo(message);
     inputRef.current?.focus();
   }, []);
 
+  // Scroll to a message and flash it
+  const jumpToMessage = useCallback((messageId: string) => {
+    setSearchQuery("");
+    setShowPinned(false);
+    setThreadRootId(null);
+    document
+      .getElementById(messageElementId(messageId))
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    setHighlightedMessageId(messageId);
+    setTimeout(
+      () =>
+        setHighlightedMessageId((current) =>
+          current === messageId ? null : current,
+        ),
+      2000,
+    );
+  }, []);
+
   const quickActions = [
-    { icon: Phone, label: "Voice Call", action: () => console.log('Voice call'), color: "text-green-400" },
-    { icon: Video, label: "Video Call", action: () => console.log('Video call'), color: "text-blue-400" },
-    { icon: Search, label: "Search", action: () => setShowSearch(!showSearch), color: "text-yellow-400" },
-    { icon: Info, label: "Group Info", action: () => setShowGroupInfo(true), color: "text-purple-400" }
+    {
+      icon: Phone,
+      label: "Voice Call",
+      action: () => console.log("Voice call"),
+      color: "text-green-400",
+    },
+    {
+      icon: Video,
+      label: "Video Call",
+      action: () => console.log("Video call"),
+      color: "text-blue-400",
+    },
+    {
+      icon: Search,
+      label: "Search",
+      action: () => setShowSearch(!showSearch),
+      color: "text-yellow-400",
+    },
+    {
+      icon: Pin,
+      label: "Pinned Messages",
+      action: () => setShowPinned(true),
+      color: "text-yellow-400",
+    },
+    {
+      icon: Info,
+      label: "Group Info",
+      action: () => setShowGroupInfo(true),
+      color: "text-purple-400",
+    },
   ];
 
   return (
@@ -240,18 +345,18 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
             className="absolute w-20 h-20 rounded-full bg-white/5 backdrop-blur-sm"
             style={{
               left: `${Math.random() * 100}%`,
-              top: `${Math.random() * 100}%`
+              top: `${Math.random() * 100}%`,
             }}
             animate={{
               x: [0, 30, 0],
               y: [0, -30, 0],
               opacity: [0.3, 0.6, 0.3],
-              scale: [1, 1.1, 1]
+              scale: [1, 1.1, 1],
             }}
             transition={{
               duration: 10 + i * 2,
               repeat: Infinity,
-              ease: "easeInOut"
+              ease: "easeInOut",
             }}
           />
         ))}
@@ -269,15 +374,17 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
           >
             <motion.div
               className="absolute right-0 top-0 h-full w-80 bg-white/10 backdrop-blur-xl border-l border-white/20"
-              initial={{ x: '100%' }}
+              initial={{ x: "100%" }}
               animate={{ x: 0 }}
-              exit={{ x: '100%' }}
-              transition={{ type: 'spring', damping: 20 }}
+              exit={{ x: "100%" }}
+              transition={{ type: "spring", damping: 20 }}
               onClick={(e) => e.stopPropagation()}
             >
               <div className="p-4 h-full overflow-y-auto">
                 <div className="flex items-center justify-between mb-6">
-                  <h3 className="text-white text-lg font-semibold">Group Members</h3>
+                  <h3 className="text-white text-lg font-semibold">
+                    Group Members
+                  </h3>
                   <Button
                     variant="ghost"
                     size="sm"
@@ -287,7 +394,7 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
                     ×
                   </Button>
                 </div>
-                
+
                 <div className="space-y-3">
                   {group.members.map((member) => (
                     <motion.div
@@ -298,29 +405,32 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
                       <div className="relative">
                         <Avatar className="w-10 h-10">
                           <AvatarFallback className="bg-gradient-to-br from-purple-400 to-blue-500 text-white">
-                            {member.username?.charAt(0) || member.email.charAt(0).toUpperCase()}
+                            {member.username?.charAt(0) ||
+                              member.email.charAt(0).toUpperCase()}
                           </AvatarFallback>
                         </Avatar>
                         {member.isOnline && (
-                          <motion.div 
+                          <motion.div
                             className="absolute -bottom-1 -right-1 w-3 h-3 bg-green-500 rounded-full border-2 border-white"
                             animate={{ scale: [1, 1.2, 1] }}
                             transition={{ duration: 2, repeat: Infinity }}
                           />
                         )}
                       </div>
-                      
+
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center space-x-2">
                           <p className="text-white font-medium truncate">
                             {member.username || member.email}
                           </p>
-                          {member.role === 'admin' && (
+                          {member.role === "admin" && (
                             <Crown className="w-4 h-4 text-yellow-400" />
                           )}
                         </div>
                         <p className="text-white/60 text-xs">
-                          {member.isOnline ? 'Online' : `Last seen ${member.lastSeen ? new Date(member.lastSeen).toLocaleDateString() : 'recently'}`}
+                          {member.isOnline
+                            ? "Online"
+                            : `Last seen ${member.lastSeen ? new Date(member.lastSeen).toLocaleDateString() : "recently"}`}
                         </p>
                       </div>
                     </motion.div>
@@ -335,7 +445,7 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
       {/* Main Chat Area */}
       <div className="flex-1 flex flex-col relative z-10">
         {/* Header */}
-        <motion.header 
+        <motion.header
           className="bg-white/10 backdrop-blur-xl border-b border-white/20 p-4"
           initial={{ y: -50, opacity: 0 }}
           animate={{ y: 0, opacity: 1 }}
@@ -351,13 +461,13 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
               >
                 <ArrowLeft className="w-5 h-5" />
               </motion.button>
-              
+
               <div className="flex items-center space-x-3">
                 <div className="relative">
                   <div className="w-12 h-12 bg-gradient-to-br from-green-400 to-blue-500 rounded-[1.5rem] flex items-center justify-center text-white border-2 border-white/20">
                     <MessageCircle className="w-6 h-6" />
                   </div>
-                  <motion.div 
+                  <motion.div
                     className="absolute -bottom-1 -right-1 w-4 h-4 bg-blue-500 rounded-full flex items-center justify-center text-white text-xs font-bold border-2 border-white"
                     animate={{ scale: [1, 1.1, 1] }}
                     transition={{ duration: 2, repeat: Infinity }}
@@ -365,11 +475,13 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
                     {onlineMembers.length}
                   </motion.div>
                 </div>
-                
+
                 <div>
                   <h2 className="text-white font-semibold text-lg flex items-center space-x-2">
                     <span>{group.name}</span>
-                    {group.isPrivate && <Shield className="w-4 h-4 text-yellow-400" />}
+                    {group.isPrivate && (
+                      <Shield className="w-4 h-4 text-yellow-400" />
+                    )}
                   </h2>
                   <div className="flex items-center space-x-2 text-white/70 text-sm">
                     <span>{group.members.length} members</span>
@@ -405,7 +517,7 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
                   <action.icon className="w-5 h-5" />
                 </motion.button>
               ))}
-              
+
               {isMobile && (
                 <motion.button
                   onClick={() => setShowSidebar(true)}
@@ -425,7 +537,7 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
               <motion.div
                 className="mt-4"
                 initial={{ height: 0, opacity: 0 }}
-                animate={{ height: 'auto', opacity: 1 }}
+                animate={{ height: "auto", opacity: 1 }}
                 exit={{ height: 0, opacity: 0 }}
                 transition={{ duration: 0.3 }}
               >
@@ -443,7 +555,7 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
                     variant="outline"
                     size="sm"
                     onClick={() => setShowPinned(!showPinned)}
-                    className={`bg-white/10 border-white/20 text-white hover:bg-white/20 ${showPinned ? 'bg-blue-500/30' : ''}`}
+                    className={`bg-white/10 border-white/20 text-white hover:bg-white/20 ${showPinned ? "bg-blue-500/30" : ""}`}
                   >
                     <Pin className="w-4 h-4" />
                   </Button>
@@ -465,7 +577,7 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
                   <div className="flex items-center space-x-2">
                     <Reply className="w-4 h-4 text-blue-400" />
                     <span className="text-white/70 text-sm">
-                      Replying to {replyingTo.senderEmail}
+                      Replying to {senderName(replyingTo.senderId)}
                     </span>
                   </div>
                   <Button
@@ -478,7 +590,7 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
                   </Button>
                 </div>
                 <p className="text-white/80 text-sm mt-1 truncate">
-                  {replyingTo.content}
+                  {quotePreview(replyingTo)}
                 </p>
               </motion.div>
             )}
@@ -491,15 +603,16 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
             {filteredMessages.map((message, index) => (
               <motion.div
                 key={`${message.id}-${index}`}
-                className={`flex ${message.senderId === user?.id ? 'justify-end' : 'justify-start'}`}
+                id={messageElementId(message.id)}
+                className={`flex ${message.senderId === user?.id ? "justify-end" : "justify-start"}`}
                 initial={{ opacity: 0, y: 20, scale: 0.8 }}
                 animate={{ opacity: 1, y: 0, scale: 1 }}
                 exit={{ opacity: 0, y: -20, scale: 0.8 }}
-                transition={{ 
-                  duration: 0.3, 
+                transition={{
+                  duration: 0.3,
                   delay: index * 0.02,
                   type: "spring",
-                  bounce: 0.3
+                  bounce: 0.3,
                 }}
                 layout
               >
@@ -513,23 +626,29 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
                         </AvatarFallback>
                       </Avatar>
                       <span className="text-white/70 text-xs font-medium">
-                        {group.members.find(m => m.email === message.senderEmail)?.username || message.senderEmail}
+                        {group.members.find(
+                          (m) => m.email === message.senderEmail,
+                        )?.username || message.senderEmail}
                       </span>
                     </div>
                   )}
-                  
+
                   <motion.div
                     className={`p-4 rounded-[2rem] backdrop-blur-sm border border-white/20 relative overflow-hidden ${
                       message.senderId === user?.id
-                        ? 'bg-gradient-to-br from-blue-500 to-purple-600 text-white'
-                        : 'bg-gradient-to-br from-gray-600 to-gray-700 text-white'
-                    } ${pinnedMessages.includes(message.id) ? 'ring-2 ring-yellow-400/50' : ''}`}
+                        ? "bg-gradient-to-br from-blue-500 to-purple-600 text-white"
+                        : "bg-gradient-to-br from-gray-600 to-gray-700 text-white"
+                    } ${pinnedIds.has(message.id) ? "ring-2 ring-yellow-400/50" : ""} ${
+                      highlightedMessageId === message.id
+                        ? "ring-2 ring-white/70"
+                        : ""
+                    }`}
                     whileHover={{ scale: 1.02, y: -2 }}
                     transition={{ duration: 0.2 }}
                     onLongPress={() => setSelectedMessage(message.id)}
                   >
                     {/* Pinned indicator */}
-                    {pinnedMessages.includes(message.id) && (
+                    {pinnedIds.has(message.id) && (
                       <motion.div
                         className="absolute top-2 right-2"
                         animate={{ rotate: [0, 10, -10, 0] }}
@@ -539,18 +658,74 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
                       </motion.div>
                     )}
 
-                    <MessageBubble 
-                      message={message} 
+                    <MessageBubble
+                      message={message}
                       isOwn={message.senderId === user?.id}
-                      onReact={(emoji) => console.log('React:', emoji)}
+                      onReact={(emoji) => toggleReaction(message.id, emoji)}
+                      onEdit={
+                        canEditMessage(message, user?.id)
+                          ? (text) => editMessage(message.id, text)
+                          : undefined
+                      }
+                      onDelete={
+                        canDeleteMessage(message)
+                          ? () => deleteMessage(message.id)
+                          : undefined
+                      }
+                      onReply={() => handleReplyToMessage(message)}
+                      quote={
+                        message.replyTo ? quoteFor(message.replyTo) : undefined
+                      }
+                      onQuoteClick={
+                        message.replyTo
+                          ? () => jumpToMessage(message.replyTo!)
+                          : undefined
+                      }
+                      replyCount={threadReplyCounts.get(message.id)}
+                      onOpenThread={() => setThreadRootId(message.id)}
                     />
-                    
+
+                    <MessageReactions
+                      message={message}
+                      userId={user?.id}
+                      reactorName={memberName}
+                      onToggle={(emoji) => toggleReaction(message.id, emoji)}
+                    />
+
                     {/* Message actions on hover */}
                     <motion.div
                       className="absolute -top-8 right-0 flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity duration-200"
                       initial={{ y: 10 }}
                       whileHover={{ y: 0 }}
                     >
+                      {!message.deletedAt &&
+                        quickReactions.map((emoji, i) => (
+                          <motion.button
+                            key={i}
+                            onClick={() => toggleReaction(message.id, emoji)}
+                            className="w-8 h-8 bg-white/10 backdrop-blur-md rounded-full flex items-center justify-center hover:bg-white/20 transition-all duration-200"
+                            whileHover={{ scale: 1.2 }}
+                            whileTap={{ scale: 0.9 }}
+                          >
+                            <span className="text-sm">{emoji}</span>
+                          </motion.button>
+                        ))}
+
+                      {!message.deletedAt && (
+                        <motion.button
+                          onClick={() => {
+                            setReactingTo(message.id);
+                            setShowEmojiPicker(true);
+                          }}
+                          className="w-8 h-8 bg-white/10 backdrop-blur-md rounded-full flex items-center justify-center hover:bg-white/20 transition-all duration-200"
+                          whileHover={{ scale: 1.2 }}
+                          whileTap={{ scale: 0.9 }}
+                          title="More reactions"
+                        >
+                          <SmilePlus className="w-4 h-4 text-white" />
+                        </motion.button>
+                      )}
+
                       <motion.button
                         onClick={() => handleReplyToMessage(message)}
                         className="w-8 h-8 bg-white/10 backdrop-blur-md rounded-full flex items-center justify-center hover:bg-white/20 transition-all duration-200"
@@ -560,21 +735,25 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
                       >
                         <Reply className="w-4 h-4 text-white" />
                       </motion.button>
-                      
-                      {canManageGroup && (
+
+                      {canPinMessages && !message.deletedAt && (
                         <motion.button
                           onClick={() => handlePinMessage(message.id)}
                           className="w-8 h-8 bg-white/10 backdrop-blur-md rounded-full flex items-center justify-center hover:bg-white/20 transition-all duration-200"
                           whileHover={{ scale: 1.2 }}
                           whileTap={{ scale: 0.9 }}
-                          title="Pin Message"
+                          title={
+                            pinnedIds.has(message.id)
+                              ? "Unpin Message"
+                              : "Pin Message"
+                          }
                         >
                           <Pin className="w-4 h-4 text-white" />
                         </motion.button>
                       )}
-                      
+
                       <motion.button
-                        onClick={() => console.log('More options')}
+                        onClick={() => console.log("More options")}
                         className="w-8 h-8 bg-white/10 backdrop-blur-md rounded-full flex items-center justify-center hover:bg-white/20 transition-all duration-200"
                         whileHover={{ scale: 1.2 }}
                         whileTap={{ scale: 0.9 }}
@@ -588,7 +767,7 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
               </motion.div>
             ))}
           </AnimatePresence>
-          
+
           {/* Typing indicators for multiple users */}
           <AnimatePresence>
             {typingMembers.length > 0 && (
@@ -609,26 +788,28 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
                           transition={{
                             duration: 0.6,
                             repeat: Infinity,
-                            delay: i * 0.2
+                            delay: i * 0.2,
                           }}
                         />
                       ))}
                     </div>
                     <span className="text-white/70 text-sm">
-                      {typingMembers.map(m => m.username || m.email).join(', ')} 
-                      {typingMembers.length === 1 ? ' is' : ' are'} typing...
+                      {typingMembers
+                        .map((m) => m.username || m.email)
+                        .join(", ")}
+                      {typingMembers.length === 1 ? " is" : " are"} typing...
                     </span>
                   </div>
                 </div>
               </motion.div>
             )}
           </AnimatePresence>
-          
+
           <div ref={messagesEndRef} />
         </div>
 
         {/* Input section */}
-        <motion.div 
+        <motion.div
           className="p-4 bg-white/5 backdrop-blur-xl border-t border-white/20"
           initial={{ y: 50, opacity: 0 }}
           animate={{ y: 0, opacity: 1 }}
@@ -644,9 +825,12 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
               >
                 <Paperclip className="w-5 h-5" />
               </motion.button>
-              
+
               <motion.button
-                onClick={() => setShowEmojiPicker(!showEmojiPicker)}
+                onClick={() => {
+                  setReactingTo(null);
+                  setShowEmojiPicker(!showEmojiPicker);
+                }}
                 className="w-12 h-12 bg-white/10 hover:bg-white/20 rounded-[1.5rem] flex items-center justify-center text-white/70 hover:text-white transition-all duration-200 backdrop-blur-sm"
                 whileHover={{ scale: 1.1, rotate: -5 }}
                 whileTap={{ scale: 0.9 }}
@@ -654,21 +838,21 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
                 <Smile className="w-5 h-5" />
               </motion.button>
             </div>
-            
+
             <div className="flex-1 relative">
               <Input
                 ref={inputRef}
                 value={newMessage}
                 onChange={(e) => handleTyping(e.target.value)}
-                onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
+                onKeyPress={(e) => e.key === "Enter" && handleSendMessage()}
                 placeholder={`Message ${group.name}...`}
                 className="bg-white/10 border-white/20 text-white placeholder:text-white/60 rounded-[2rem] pr-12 h-12 backdrop-blur-sm focus:ring-2 focus:ring-white/30 transition-all duration-200"
                 disabled={!isConnected}
-                style={{ fontSize: '16px' }}
+                style={{ fontSize: "16px" }}
               />
-              
+
               {isTranslationEnabled && (
-                <motion.div 
+                <motion.div
                   className="absolute right-12 top-1/2 transform -translate-y-1/2"
                   animate={{ rotate: [0, 360] }}
                   transition={{ duration: 4, repeat: Infinity, ease: "linear" }}
@@ -677,7 +861,7 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
                 </motion.div>
               )}
             </div>
-            
+
             <motion.button
               onClick={handleSendMessage}
               disabled={!newMessage.trim() || !isConnected}
@@ -702,13 +886,24 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
                 <span>Connection lost. Reconnecting...</span>
               </motion.div>
             )}
+            {isConnected && sendError && (
+              <motion.div
+                className="mt-3 flex items-center justify-center space-x-2 text-red-300 text-sm"
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -10 }}
+              >
+                <AlertCircle className="w-4 h-4" />
+                <span>{sendError}</span>
+              </motion.div>
+            )}
           </AnimatePresence>
         </motion.div>
       </div>
 
       {/* Desktop Members Sidebar */}
       {!isMobile && (
-        <motion.div 
+        <motion.div
           className="w-80 bg-white/5 backdrop-blur-xl border-l border-white/20 p-4 overflow-y-auto"
           initial={{ x: 300, opacity: 0 }}
           animate={{ x: 0, opacity: 1 }}
@@ -717,7 +912,9 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
           <div className="space-y-6">
             {/* Group actions */}
             <div className="space-y-2">
-              <h3 className="text-white font-semibold text-lg">Quick Actions</h3>
+              <h3 className="text-white font-semibold text-lg">
+                Quick Actions
+              </h3>
               <div className="grid grid-cols-2 gap-2">
                 <Button
                   variant="outline"
@@ -725,14 +922,18 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
                   className="bg-white/10 border-white/20 text-white hover:bg-white/20"
                   onClick={() => setIsMuted(!isMuted)}
                 >
-                  {isMuted ? <VolumeX className="w-4 h-4 mr-2" /> : <Volume2 className="w-4 h-4 mr-2" />}
-                  {isMuted ? 'Unmute' : 'Mute'}
+                  {isMuted ? (
+                    <VolumeX className="w-4 h-4 mr-2" />
+                  ) : (
+                    <Volume2 className="w-4 h-4 mr-2" />
+                  )}
+                  {isMuted ? "Unmute" : "Mute"}
                 </Button>
                 <Button
                   variant="outline"
                   size="sm"
                   className="bg-white/10 border-white/20 text-white hover:bg-white/20"
-                  onClick={() => console.log('Leave group')}
+                  onClick={() => console.log("Leave group")}
                 >
                   <ArrowLeft className="w-4 h-4 mr-2" />
                   Leave
@@ -743,19 +944,21 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
             {/* Members list */}
             <div className="space-y-3">
               <div className="flex items-center justify-between">
-                <h3 className="text-white font-semibold">Members ({group.members.length})</h3>
+                <h3 className="text-white font-semibold">
+                  Members ({group.members.length})
+                </h3>
                 {canManageGroup && (
                   <Button
                     variant="ghost"
                     size="sm"
                     className="text-white/70 hover:text-white"
-                    onClick={() => console.log('Add member')}
+                    onClick={() => console.log("Add member")}
                   >
                     <UserPlus className="w-4 h-4" />
                   </Button>
                 )}
               </div>
-              
+
               <div className="space-y-2">
                 {group.members.map((member) => (
                   <motion.div
@@ -766,34 +969,40 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
                     <div className="relative">
                       <Avatar className="w-10 h-10">
                         <AvatarFallback className="bg-gradient-to-br from-purple-400 to-blue-500 text-white">
-                          {member.username?.charAt(0) || member.email.charAt(0).toUpperCase()}
+                          {member.username?.charAt(0) ||
+                            member.email.charAt(0).toUpperCase()}
                         </AvatarFallback>
                       </Avatar>
                       {member.isOnline && (
-                        <motion.div 
+                        <motion.div
                           className="absolute -bottom-1 -right-1 w-3 h-3 bg-green-500 rounded-full border-2 border-white"
                           animate={{ scale: [1, 1.2, 1] }}
                           transition={{ duration: 2, repeat: Infinity }}
                         />
                       )}
                     </div>
-                    
+
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center space-x-2">
                         <p className="text-white font-medium truncate">
                           {member.username || member.email}
                         </p>
-                        {member.role === 'admin' && (
+                        {member.role === "admin" && (
                           <Crown className="w-4 h-4 text-yellow-400" />
                         )}
                         {member.id === user?.id && (
-                          <Badge variant="outline" className="bg-white/10 text-white/70 text-xs border-white/20">
+                          <Badge
+                            variant="outline"
+                            className="bg-white/10 text-white/70 text-xs border-white/20"
+                          >
                             You
                           </Badge>
                         )}
                       </div>
                       <p className="text-white/60 text-xs">
-                        {member.isOnline ? 'Online' : `Last seen ${member.lastSeen ? new Date(member.lastSeen).toLocaleDateString() : 'recently'}`}
+                        {member.isOnline
+                          ? "Online"
+                          : `Last seen ${member.lastSeen ? new Date(member.lastSeen).toLocaleDateString() : "recently"}`}
                       </p>
                     </div>
                   </motion.div>
@@ -807,14 +1016,20 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
               <div className="bg-white/5 rounded-[1.5rem] p-3 space-y-2">
                 <div className="flex items-center justify-between">
                   <span className="text-white/70 text-sm">Encryption</span>
-                  <Badge variant="outline" className="bg-green-500/20 text-green-400 border-green-400/50">
+                  <Badge
+                    variant="outline"
+                    className="bg-green-500/20 text-green-400 border-green-400/50"
+                  >
                     {group.settings.encryptionLevel}
                   </Badge>
                 </div>
                 <div className="flex items-center justify-between">
                   <span className="text-white/70 text-sm">Privacy</span>
-                  <Badge variant="outline" className="bg-white/10 text-white/70 border-white/20">
-                    {group.isPrivate ? 'Private' : 'Public'}
+                  <Badge
+                    variant="outline"
+                    className="bg-white/10 text-white/70 border-white/20"
+                  >
+                    {group.isPrivate ? "Private" : "Public"}
                   </Badge>
                 </div>
               </div>
@@ -824,6 +1039,32 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
       )}
 
       {/* Overlays */}
+      <AnimatePresence>
+        {showPinned && (
+          <PinnedMessagesDrawer
+            pins={pinnedMessages}
+            senderName={senderName}
+            onJumpToMessage={jumpToMessage}
+            onUnpin={canPinMessages ? handlePinMessage : undefined}
+            onClose={() => setShowPinned(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {threadRoot && (
+          <ThreadView
+            root={threadRoot}
+            replies={getThreadReplies(messages, threadRoot.id)}
+            userId={user?.id}
+            senderName={memberName}
+            onReply={(text) => sendMessage(text, "text", threadRoot.id)}
+            onJumpToMessage={jumpToMessage}
+            onClose={() => setThreadRootId(null)}
+          />
+        )}
+      </AnimatePresence>
+
       <AnimatePresence>
         {showEmojiPicker && (
           <motion.div
@@ -835,7 +1076,11 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
           >
             <EmojiPicker
               onEmojiSelect={(emoji) => {
-                setNewMessage(prev => prev + emoji);
+                if (reactingTo) {
+                  toggleReaction(reactingTo, emoji);
+                } else {
+                  setNewMessage((prev) => prev + emoji);
+                }
                 setShowEmojiPicker(false);
               }}
               onClose={() => setShowEmojiPicker(false)}
@@ -890,7 +1135,7 @@ export default function GroupChat({ group, onBack, onUpdateGroup }: GroupChatPro
       </AnimatePresence>
 
       {/* Security indicator */}
-      <motion.div 
+      <motion.div
         className="fixed bottom-4 right-4 bg-green-500/20 backdrop-blur-md border border-green-400/50 text-green-300 px-3 py-2 rounded-[1.5rem] flex items-center space-x-2 z-40"
         animate={{ y: [0, -2, 0] }}
         transition={{ duration: 3, repeat: Infinity }}
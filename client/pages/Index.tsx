@@ -1,17 +1,17 @@
-import React, { useState, useEffect } from 'react';
-import { useAuth } from '../contexts/AuthContext';
-import { SocketProvider } from '../contexts/SocketContext';
-import { ContactProvider } from '../contexts/ContactContext';
-import Auth from './Auth';
-import Pairing from './Pairing';
-import Chat from './Chat';
-import ContactsList from './ContactsList';
-import GroupChat from './GroupChat';
-import { Loader2, MessageCircle, Shield, Wifi, Users } from 'lucide-react';
-import { ConnectionStatus } from '@shared/api';
-import { motion, AnimatePresence } from 'framer-motion';
+import React, { useState, useEffect } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { SocketProvider } from "../contexts/SocketContext";
+import { useContacts } from "../contexts/ContactContext";
+import Auth from "./Auth";
+import Pairing from "./Pairing";
+import Chat from "./Chat";
+import ContactsList from "./ContactsList";
+import GroupChat from "./GroupChat";
+import { Loader2, MessageCircle, Shield, Wifi, Users } from "lucide-react";
+import { ConnectionStatus } from "@shared/api";
+import { motion, AnimatePresence } from "framer-motion";
 
-type AppState = 'auth' | 'contacts' | 'pairing' | 'chat' | 'group-chat';
+type AppState = "auth" | "contacts" | "pairing" | "chat" | "group-chat";
 
 interface Contact {
   id: string;
@@ -20,7 +20,7 @@ interface Contact {
   avatar?: string;
   isOnline: boolean;
   lastSeen?: string;
-  status?: 'online' | 'away' | 'busy' | 'offline';
+  status?: "online" | "away" | "busy" | "offline";
   unreadCount?: number;
   isTyping?: boolean;
   isFavorite?: boolean;
@@ -40,7 +40,7 @@ interface GroupMember {
   avatar?: string;
   isOnline: boolean;
   isTyping?: boolean;
-  role: 'admin' | 'member';
+  role: "admin" | "member";
   joinedAt: string;
   lastSeen?: string;
 }
@@ -58,13 +58,14 @@ interface GroupInfo {
     allowMemberInvites: boolean;
     requireAdminApproval: boolean;
     allowMemberMessages: boolean;
-    encryptionLevel: 'standard' | 'enhanced';
+    encryptionLevel: "standard" | "enhanced";
   };
 }
 
 export default function Index() {
-  const { isAuthenticated, isLoading, token, user } = useAuth();
-  const [appState, setAppState] = useState<AppState>('auth');
+  const { isAuthenticated, isLoading, token } = useAuth();
+  const { groups } = useContacts();
+  const [appState, setAppState] = useState<AppState>("auth");
   const [partner, setPartner] = useState<Contact | null>(null);
   const [currentGroup, setCurrentGroup] = useState<GroupInfo | null>(null);
   const [isCheckingConnection, setIsCheckingConnection] = useState(false);
@@ -72,7 +73,7 @@ export default function Index() {
     totalContacts: 0,
     onlineContacts: 0,
     activeGroups: 0,
-    unreadMessages: 0
+    unreadMessages: 0,
   });
 
   // Check connection status when authenticated
@@ -86,34 +87,34 @@ export default function Index() {
   const checkConnectionStatus = async () => {
     setIsCheckingConnection(true);
     try {
-      const response = await fetch('/api/pairing/status', {
+      const response = await fetch("/api/pairing/status", {
         headers: {
-          'Authorization': `Bearer ${token}`,
+          Authorization: `Bearer ${token}`,
         },
       });
 
       if (response.ok) {
         const status: ConnectionStatus = await response.json();
-        
+
         if (status.isConnected && status.partnerEmail) {
           // Convert to Contact format
           const partnerContact: Contact = {
             id: status.partnerId!,
             email: status.partnerEmail,
             isOnline: true,
-            status: 'online'
+            status: "online",
           };
           setPartner(partnerContact);
-          setAppState('chat');
+          setAppState("chat");
         } else {
-          setAppState('contacts');
+          setAppState("contacts");
         }
       } else {
-        setAppState('contacts');
+        setAppState("contacts");
       }
     } catch (error) {
-      console.error('Failed to check connection status:', error);
-      setAppState('contacts');
+      console.error("Failed to check connection status:", error);
+      setAppState("contacts");
     } finally {
       setIsCheckingConnection(false);
     }
@@ -127,78 +128,47 @@ export default function Index() {
         totalContacts: 12,
         onlineContacts: 7,
         activeGroups: 3,
-        unreadMessages: 5
+        unreadMessages: 5,
       });
     }, 1000);
   };
 
   const handleSelectContact = (contact: Contact) => {
     setPartner(contact);
-    setAppState('chat');
+    setAppState("chat");
   };
 
-  const handleCreateGroup = (contacts: Contact[]) => {
-    // Create a new group with selected contacts
-    const newGroup: GroupInfo = {
-      id: `group-${Date.now()}`,
-      name: `Group with ${contacts.map(c => c.username || c.email).join(', ')}`,
-      description: 'New group chat',
-      isPrivate: false,
-      createdAt: new Date().toISOString(),
-      createdBy: user?.id || '',
-      members: [
-        // Add current user as admin
-        {
-          id: user?.id || '',
-          email: user?.email || '',
-          username: user?.username,
-          isOnline: true,
-          role: 'admin' as const,
-          joinedAt: new Date().toISOString()
-        },
-        // Add selected contacts as members
-        ...contacts.map(contact => ({
-          id: contact.id,
-          email: contact.email,
-          username: contact.username,
-          isOnline: contact.isOnline,
-          role: 'member' as const,
-          joinedAt: new Date().toISOString(),
-          lastSeen: contact.lastSeen
-        }))
-      ],
-      settings: {
-        allowMemberInvites: true,
-        requireAdminApproval: false,
-        allowMemberMessages: true,
-        encryptionLevel: 'enhanced'
-      }
-    };
-
-    setCurrentGroup(newGroup);
-    setAppState('group-chat');
+  // The group comes back from the server already created
+  const handleCreateGroup = (group: GroupInfo) => {
+    setCurrentGroup(group);
+    setAppState("group-chat");
   };
 
   const handleBackToContacts = () => {
     setPartner(null);
     setCurrentGroup(null);
-    setAppState('contacts');
+    setAppState("contacts");
   };
 
   const handleDisconnect = () => {
     setPartner(null);
     setCurrentGroup(null);
-    setAppState('contacts');
+    setAppState("contacts");
   };
 
   const handleBackToAuth = () => {
-    setAppState('auth');
+    setAppState("auth");
   };
 
   const handleUpdateGroup = (updatedGroup: GroupInfo) => {
     setCurrentGroup(updatedGroup);
   };
 
+  // Follow membership and role changes pushed by the server
+  const liveGroup =
+    currentGroup &&
+    (groups.find((group) => group.id === currentGroup.id) ?? currentGroup);
+
   // Enhanced loading screen with stats
   if (isLoading || isCheckingConnection) {
     return (
@@ -211,24 +181,24 @@ export default function Index() {
               className="absolute w-32 h-32 rounded-full bg-white/5 backdrop-blur-sm"
               style={{
                 left: `${Math.random() * 100}%`,
-                top: `${Math.random() * 100}%`
+                top: `${Math.random() * 100}%`,
               }}
               animate={{
                 x: [0, 30, 0],
                 y: [0, -30, 0],
                 opacity: [0.3, 0.6, 0.3],
-                scale: [1, 1.1, 1]
+                scale: [1, 1.1, 1],
               }}
               transition={{
                 duration: 8 + i * 2,
                 repeat: Infinity,
-                ease: "easeInOut"
+                ease: "easeInOut",
               }}
             />
           ))}
         </div>
 
-        <motion.div 
+        <motion.div
           className="glass bg-white/10 backdrop-blur-xl rounded-[2.5rem] p-8 border border-white/20 shadow-2xl relative overflow-hidden max-w-md w-full mx-4"
           initial={{ opacity: 0, scale: 0.8, y: 50 }}
           animate={{ opacity: 1, scale: 1, y: 0 }}
@@ -239,19 +209,19 @@ export default function Index() {
             className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent"
             animate={{
               x: [-100, 100],
-              opacity: [0, 1, 0]
+              opacity: [0, 1, 0],
             }}
             transition={{
               duration: 2,
               repeat: Infinity,
-              ease: "easeInOut"
+              ease: "easeInOut",
             }}
           />
-          
+
           <div className="relative z-10">
             {/* Header */}
             <div className="text-center mb-6">
-              <motion.div 
+              <motion.div
                 className="w-16 h-16 bg-gradient-to-br from-white/20 to-white/10 backdrop-blur-xl rounded-[2rem] flex items-center justify-center mx-auto mb-4 border border-white/30"
                 animate={{ rotate: [0, 360] }}
                 transition={{ duration: 3, repeat: Infinity, ease: "linear" }}
@@ -270,7 +240,7 @@ export default function Index() {
 
             {/* Stats preview */}
             {connectionStats.totalContacts > 0 && (
-              <motion.div 
+              <motion.div
                 className="grid grid-cols-2 gap-4"
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
@@ -279,14 +249,18 @@ export default function Index() {
                 <div className="bg-white/10 rounded-[1.5rem] p-3 text-center backdrop-blur-sm">
                   <div className="flex items-center justify-center text-blue-400 mb-1">
                     <Users className="w-4 h-4 mr-1" />
-                    <span className="font-bold">{connectionStats.totalContacts}</span>
+                    <span className="font-bold">
+                      {connectionStats.totalContacts}
+                    </span>
                   </div>
                   <p className="text-white/70 text-xs">Contacts</p>
                 </div>
                 <div className="bg-white/10 rounded-[1.5rem] p-3 text-center backdrop-blur-sm">
                   <div className="flex items-center justify-center text-green-400 mb-1">
                     <Wifi className="w-4 h-4 mr-1" />
-                    <span className="font-bold">{connectionStats.onlineContacts}</span>
+                    <span className="font-bold">
+                      {connectionStats.onlineContacts}
+                    </span>
                   </div>
                   <p className="text-white/70 text-xs">Online</p>
                 </div>
@@ -294,7 +268,7 @@ export default function Index() {
             )}
 
             {/* Security badge */}
-            <motion.div 
+            <motion.div
               className="mt-6 flex items-center justify-center space-x-2 text-green-300"
               animate={{ opacity: [0.7, 1, 0.7] }}
               transition={{ duration: 2, repeat: Infinity }}
@@ -315,7 +289,7 @@ export default function Index() {
 
   return (
     <AnimatePresence mode="wait">
-      {appState === 'contacts' && (
+      {appState === "contacts" && (
         <motion.div
           key="contacts"
           initial={{ opacity: 0, x: -50 }}
@@ -331,7 +305,7 @@ export default function Index() {
         </motion.div>
       )}
 
-      {appState === 'pairing' && (
+      {appState === "pairing" && (
         <motion.div
           key="pairing"
           initial={{ opacity: 0, x: -50 }}
@@ -340,20 +314,22 @@ export default function Index() {
           transition={{ duration: 0.3 }}
         >
           <SocketProvider>
-            <Pairing onPaired={(partnerInfo) => {
-              const contact: Contact = {
-                id: partnerInfo.id,
-                email: partnerInfo.email,
-                isOnline: true,
-                status: 'online'
-              };
-              handleSelectContact(contact);
-            }} />
+            <Pairing
+              onPaired={(partnerInfo) => {
+                const contact: Contact = {
+                  id: partnerInfo.id,
+                  email: partnerInfo.email,
+                  isOnline: true,
+                  status: "online",
+                };
+                handleSelectContact(contact);
+              }}
+            />
           </SocketProvider>
         </motion.div>
       )}
 
-      {appState === 'chat' && partner && (
+      {appState === "chat" && partner && (
         <motion.div
           key="chat"
           initial={{ opacity: 0, x: -50 }}
@@ -361,13 +337,13 @@ export default function Index() {
           exit={{ opacity: 0, x: 50 }}
           transition={{ duration: 0.3 }}
         >
-          <SocketProvider>
+          <SocketProvider recipientId={partner.id}>
             <Chat partner={partner} onDisconnect={handleDisconnect} />
           </SocketProvider>
         </motion.div>
       )}
 
-      {appState === 'group-chat' && currentGroup && (
+      {appState === "group-chat" && liveGroup && (
         <motion.div
           key="group-chat"
           initial={{ opacity: 0, x: -50 }}
@@ -375,9 +351,9 @@ export default function Index() {
           exit={{ opacity: 0, x: 50 }}
           transition={{ duration: 0.3 }}
         >
-          <SocketProvider>
-            <GroupChat 
-              group={currentGroup} 
+          <SocketProvider groupId={liveGroup.id}>
+            <GroupChat
+              group={liveGroup}
               onBack={handleBackToContacts}
               onUpdateGroup={handleUpdateGroup}
             />
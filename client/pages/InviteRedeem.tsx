@@ -0,0 +1,185 @@
+import React, { useState, useEffect } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+import { useContacts } from "../contexts/ContactContext";
+import Auth from "./Auth";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2, Shield, UserPlus, Users, Clock } from "lucide-react";
+import { InviteCode, InviteCodeResponse } from "@shared/api";
+
+// Where /invite/:code links land: show who sent the invite and connect only
+// once the user confirms
+export default function InviteRedeem() {
+  const { code = "" } = useParams<{ code: string }>();
+  const navigate = useNavigate();
+  const { isAuthenticated, isLoading: isAuthLoading, token, user } = useAuth();
+  const {
+    addFriendByCode,
+    isLoading: isRedeeming,
+    error: redeemError,
+  } = useContacts();
+  const [invite, setInvite] = useState<InviteCode | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+  const [fetchError, setFetchError] = useState("");
+
+  useEffect(() => {
+    if (isAuthenticated && token) {
+      fetchInvite();
+    }
+  }, [isAuthenticated, token, code]);
+
+  const fetchInvite = async () => {
+    setIsFetching(true);
+    setFetchError("");
+    try {
+      const response = await fetch(
+        `/api/invites/${encodeURIComponent(code.toUpperCase())}`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      );
+      const data: InviteCodeResponse = await response.json();
+
+      if (data.success && data.invite) {
+        setInvite(data.invite);
+      } else {
+        setFetchError(data.message || "This invite is no longer valid");
+      }
+    } catch (error) {
+      console.error("Failed to load invite:", error);
+      setFetchError("Network error occurred. Please try again.");
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  const handleAccept = async () => {
+    if (await addFriendByCode(code)) {
+      navigate("/", { replace: true });
+    }
+  };
+
+  if (isAuthLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-violet-600 via-purple-600 to-blue-700 flex items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-white" />
+      </div>
+    );
+  }
+
+  // Sign in first; this page picks up again afterwards
+  if (!isAuthenticated) {
+    return <Auth />;
+  }
+
+  const isOwnInvite = invite?.createdBy === user?.id;
+  const isGroupInvite = invite?.type === "group";
+  const creator = invite?.metadata?.creator;
+  const creatorName =
+    creator?.displayName ||
+    (creator?.username ? `@${creator.username}` : creator?.email);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-violet-600 via-purple-600 to-blue-700 flex items-center justify-center p-4">
+      <Card className="glass bg-white/10 backdrop-blur-md border-white/20 w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto w-16 h-16 bg-white/20 rounded-full flex items-center justify-center mb-4">
+            {isGroupInvite ? (
+              <Users className="w-8 h-8 text-white" />
+            ) : (
+              <UserPlus className="w-8 h-8 text-white" />
+            )}
+          </div>
+          <CardTitle className="text-2xl text-white">
+            {isGroupInvite ? "Group Invite" : "Friend Invite"}
+          </CardTitle>
+          <CardDescription className="text-purple-100">
+            Code <span className="font-mono">{code.toUpperCase()}</span>
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {isFetching && (
+            <div className="flex items-center justify-center space-x-3 text-white">
+              <Loader2 className="w-5 h-5 animate-spin" />
+              <span>Checking invite...</span>
+            </div>
+          )}
+
+          {(fetchError || redeemError) && (
+            <Alert className="bg-red-500/20 border-red-400/30 text-red-100">
+              <AlertDescription>{fetchError || redeemError}</AlertDescription>
+            </Alert>
+          )}
+
+          {invite && (
+            <>
+              <div className="glass bg-white/5 rounded-lg p-4 border border-white/10 space-y-2">
+                {isGroupInvite && (
+                  <div>
+                    <p className="text-sm text-purple-200">Group:</p>
+                    <p className="text-white font-medium">
+                      {invite.metadata?.groupName}
+                    </p>
+                  </div>
+                )}
+                <div>
+                  <p className="text-sm text-purple-200">Invited by:</p>
+                  <p className="text-white font-medium">
+                    {creatorName ?? "Unknown user"}
+                  </p>
+                </div>
+              </div>
+
+              <div className="space-y-3 text-sm text-purple-100">
+                <div className="flex items-center">
+                  <Shield className="w-4 h-4 mr-3 text-green-400" />
+                  End-to-end encrypted once connected
+                </div>
+                <div className="flex items-center">
+                  <Clock className="w-4 h-4 mr-3 text-blue-400" />
+                  Expires {new Date(invite.expiresAt).toLocaleString()}
+                </div>
+              </div>
+
+              {isOwnInvite ? (
+                <p className="text-center text-sm text-purple-100">
+                  This is your own invite. Share it with someone you want to
+                  connect with.
+                </p>
+              ) : (
+                <Button
+                  onClick={handleAccept}
+                  disabled={isRedeeming}
+                  className="w-full bg-white text-purple-700 hover:bg-white/90 font-semibold py-6"
+                >
+                  {isRedeeming ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : null}
+                  {isGroupInvite ? "Join Group" : "Connect"}
+                </Button>
+              )}
+            </>
+          )}
+
+          <Button
+            variant="ghost"
+            onClick={() => navigate("/", { replace: true })}
+            className="w-full text-white hover:bg-white/10"
+          >
+            Not now
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,28 +1,37 @@
-import React, { useState, useEffect } from 'react';
-import { useAuth } from '../contexts/AuthContext';
-import { useSocket } from '../contexts/SocketContext';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Badge } from '@/components/ui/badge';
-import { 
-  Loader2, 
-  Copy, 
-  RefreshCw, 
-  Users, 
-  Clock, 
+import React, { useState, useEffect, useRef } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { useSocket } from "../contexts/SocketContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import {
+  Loader2,
+  Copy,
+  RefreshCw,
+  Users,
+  Clock,
   Shield,
   CheckCircle,
-  UserPlus
-} from 'lucide-react';
-import { 
-  GenerateCodeResponse, 
-  ConnectCodeResponse, 
-  ConnectionStatus 
-} from '@shared/api';
+  UserPlus,
+} from "lucide-react";
+import {
+  GenerateCodeResponse,
+  ConnectCodeResponse,
+  ConnectionStatus,
+} from "@shared/api";
+
+// Without the dash the code is shown with
+const PAIRING_CODE_LENGTH = 10;
 
 interface PairingProps {
   onPaired: (partnerInfo: { id: string; email: string }) => void;
@@ -31,48 +40,45 @@ interface PairingProps {
 export default function Pairing({ onPaired }: PairingProps) {
   const { token, user } = useAuth();
   const { clearMessages } = useSocket();
-  const [activeTab, setActiveTab] = useState('generate');
-  
+  const [activeTab, setActiveTab] = useState("generate");
+
   // Generate code state
-  const [generatedCode, setGeneratedCode] = useState('');
+  const [generatedCode, setGeneratedCode] = useState("");
   const [codeExpiry, setCodeExpiry] = useState<Date | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [generateError, setGenerateError] = useState('');
-  
+  const [generateError, setGenerateError] = useState("");
+
   // Connect code state
-  const [connectCode, setConnectCode] = useState('');
+  const [connectCode, setConnectCode] = useState("");
   const [isConnecting, setIsConnecting] = useState(false);
-  const [connectError, setConnectError] = useState('');
+  const [connectError, setConnectError] = useState("");
   const [connectSuccess, setConnectSuccess] = useState(false);
-  
+
   // Connection status
-  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus | null>(null);
+  const [connectionStatus, setConnectionStatus] =
+    useState<ConnectionStatus | null>(null);
   const [isCheckingStatus, setIsCheckingStatus] = useState(true);
-  const [partner, setPartner] = useState<{ id: string; email: string } | null>(null);
+  const [partner, setPartner] = useState<{ id: string; email: string } | null>(
+    null,
+  );
 
   // Timer for code expiry
   const [timeLeft, setTimeLeft] = useState<number>(0);
 
-  // Check connection status on mount and clean up any stale connections
+  // Connections that existed before this screen opened; pairing adds one
+  // alongside them, so only a connection missing from here is the new partner
+  const knownConnectionIdsRef = useRef<Set<string> | null>(null);
+
+  // Check connection status on mount
   useEffect(() => {
-    // First, try to disconnect any existing connection
-    disconnectExisting().then(() => {
-      checkConnectionStatus();
-    });
+    checkConnectionStatus();
   }, []);
 
-  const disconnectExisting = async () => {
-    try {
-      await fetch('/api/pairing/disconnect', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-    } catch (error) {
-      console.log('No existing connection to disconnect');
-    }
-  };
+  const findNewConnection = (status: ConnectionStatus) =>
+    status.connections?.find(
+      (connection) =>
+        !knownConnectionIdsRef.current?.has(connection.connectionId),
+    );
 
   // Update timer for code expiry
   useEffect(() => {
@@ -83,7 +89,7 @@ export default function Pairing({ onPaired }: PairingProps) {
 
         if (diff <= 0) {
           setTimeLeft(0);
-          setGeneratedCode('');
+          setGeneratedCode("");
           setCodeExpiry(null);
         } else {
           setTimeLeft(Math.floor(diff / 1000));
@@ -96,37 +102,37 @@ export default function Pairing({ onPaired }: PairingProps) {
 
   // Continuous polling to check for partner connections
   useEffect(() => {
-    if (!connectionStatus?.isConnected && !isCheckingStatus) {
+    if (!partner && !isCheckingStatus) {
       const pollInterval = setInterval(async () => {
         try {
-          console.log('Polling for connection status...');
-          const response = await fetch('/api/pairing/status', {
+          console.log("Polling for connection status...");
+          const response = await fetch("/api/pairing/status", {
             headers: {
-              'Authorization': `Bearer ${token}`,
+              Authorization: `Bearer ${token}`,
             },
           });
 
           if (response.ok) {
             const status: ConnectionStatus = await response.json();
-            console.log('Connection status:', status);
-
-            if (status.isConnected && status.partnerEmail) {
-              console.log('Partner connected! Transitioning to chat...');
-              setPartner({
-                id: status.partnerId!,
-                email: status.partnerEmail,
-              });
+            console.log("Connection status:", status);
+
+            const newConnection = findNewConnection(status);
+            if (newConnection?.partnerEmail) {
+              console.log("Partner connected! Transitioning to chat...");
+              const partnerInfo = {
+                id: newConnection.partnerId,
+                email: newConnection.partnerEmail,
+              };
+              setPartner(partnerInfo);
+              setConnectionStatus(status);
               clearMessages();
 
               // Transition to chat immediately
-              onPaired({
-                id: status.partnerId!,
-                email: status.partnerEmail,
-              });
+              onPaired(partnerInfo);
             }
           }
         } catch (error) {
-          console.error('Polling error:', error);
+          console.error("Polling error:", error);
         }
       }, 2000); // Poll every 2 seconds for faster response
 
@@ -134,29 +140,25 @@ export default function Pairing({ onPaired }: PairingProps) {
         clearInterval(pollInterval);
       };
     }
-  }, [connectionStatus?.isConnected, isCheckingStatus, token, onPaired, clearMessages]);
+  }, [partner, isCheckingStatus, token, onPaired, clearMessages]);
 
   const checkConnectionStatus = async () => {
     try {
-      const response = await fetch('/api/pairing/status', {
+      const response = await fetch("/api/pairing/status", {
         headers: {
-          'Authorization': `Bearer ${token}`,
+          Authorization: `Bearer ${token}`,
         },
       });
 
       if (response.ok) {
         const status: ConnectionStatus = await response.json();
         setConnectionStatus(status);
-        
-        if (status.isConnected && status.partnerEmail) {
-          setPartner({
-            id: status.partnerId!,
-            email: status.partnerEmail,
-          });
-        }
+        knownConnectionIdsRef.current = new Set(
+          status.connections?.map((connection) => connection.connectionId),
+        );
       }
     } catch (error) {
-      console.error('Failed to check connection status:', error);
+      console.error("Failed to check connection status:", error);
     } finally {
       setIsCheckingStatus(false);
     }
@@ -164,16 +166,13 @@ export default function Pairing({ onPaired }: PairingProps) {
 
   const generateCode = async () => {
     setIsGenerating(true);
-    setGenerateError('');
+    setGenerateError("");
 
     try {
-      // First, clean up any existing connections
-      await disconnectExisting();
-
-      const response = await fetch('/api/pairing/generate-code', {
-        method: 'POST',
+      const response = await fetch("/api/pairing/generate-code", {
+        method: "POST",
         headers: {
-          'Authorization': `Bearer ${token}`,
+          Authorization: `Bearer ${token}`,
         },
       });
 
@@ -183,37 +182,34 @@ export default function Pairing({ onPaired }: PairingProps) {
         setGeneratedCode(data.code);
         setCodeExpiry(new Date(data.expiresAt!));
       } else {
-        setGenerateError(data.message || 'Failed to generate code');
+        setGenerateError(data.message || "Failed to generate code");
       }
     } catch (error) {
-      console.error('Generate code error:', error);
-      setGenerateError('Network error occurred. Please try again.');
+      console.error("Generate code error:", error);
+      setGenerateError("Network error occurred. Please try again.");
     } finally {
       setIsGenerating(false);
     }
   };
 
-  const connectWithCode = async () => {
-    if (!connectCode.trim()) {
-      setConnectError('Please enter a code');
+  const connectWithCode = async (code = connectCode) => {
+    if (!code.trim()) {
+      setConnectError("Please enter a code");
       return;
     }
 
     setIsConnecting(true);
-    setConnectError('');
+    setConnectError("");
     setConnectSuccess(false);
 
     try {
-      // First, clean up any existing connections
-      await disconnectExisting();
-
-      const response = await fetch('/api/pairing/connect-code', {
-        method: 'POST',
+      const response = await fetch("/api/pairing/connect-code", {
+        method: "POST",
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
         },
-        body: JSON.stringify({ code: connectCode.trim().toUpperCase() }),
+        body: JSON.stringify({ code: code.trim().toUpperCase() }),
       });
 
       const data: ConnectCodeResponse = await response.json();
@@ -232,7 +228,7 @@ export default function Pairing({ onPaired }: PairingProps) {
           isConnected: true,
           partnerId: partnerInfo.id,
           partnerEmail: partnerInfo.email,
-          connectionId: 'new-connection'
+          connectionId: data.connectionId,
         });
 
         // Add a small delay for smooth transition
@@ -240,11 +236,11 @@ export default function Pairing({ onPaired }: PairingProps) {
           onPaired(partnerInfo);
         }, 1500);
       } else {
-        setConnectError(data.message || 'Failed to connect');
+        setConnectError(data.message || "Failed to connect");
       }
     } catch (error) {
-      console.error('Connection error:', error);
-      setConnectError('Network error occurred. Please try again.');
+      console.error("Connection error:", error);
+      setConnectError("Network error occurred. Please try again.");
     } finally {
       setIsConnecting(false);
     }
@@ -259,7 +255,7 @@ export default function Pairing({ onPaired }: PairingProps) {
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
+    return `${mins}:${secs.toString().padStart(2, "0")}`;
   };
 
   if (isCheckingStatus) {
@@ -333,7 +329,9 @@ export default function Pairing({ onPaired }: PairingProps) {
           {/* Header */}
           <div className="text-center space-y-2">
             <h1 className="text-3xl font-bold text-white">Connect Securely</h1>
-            <p className="text-purple-100">Generate a code or enter a partner's code to start chatting</p>
+            <p className="text-purple-100">
+              Generate a code or enter a partner's code to start chatting
+            </p>
           </div>
 
           {/* Main card */}
@@ -345,16 +343,20 @@ export default function Pairing({ onPaired }: PairingProps) {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+              <Tabs
+                value={activeTab}
+                onValueChange={setActiveTab}
+                className="w-full"
+              >
                 <TabsList className="grid w-full grid-cols-2 bg-white/10 border border-white/20">
-                  <TabsTrigger 
-                    value="generate" 
+                  <TabsTrigger
+                    value="generate"
                     className="text-white data-[state=active]:bg-white/20 data-[state=active]:text-white"
                   >
                     Generate Code
                   </TabsTrigger>
-                  <TabsTrigger 
-                    value="connect" 
+                  <TabsTrigger
+                    value="connect"
                     className="text-white data-[state=active]:bg-white/20 data-[state=active]:text-white"
                   >
                     Enter Code
@@ -371,7 +373,9 @@ export default function Pairing({ onPaired }: PairingProps) {
                   {generatedCode ? (
                     <div className="space-y-4">
                       <div className="glass bg-white/5 rounded-lg p-6 text-center border border-white/10">
-                        <Label className="text-purple-200 text-sm">Your Code</Label>
+                        <Label className="text-purple-200 text-sm">
+                          Your Code
+                        </Label>
                         <div className="flex items-center justify-center space-x-2 mt-2">
                           <span className="text-3xl font-mono font-bold text-white tracking-wider">
                             {generatedCode}
@@ -385,19 +389,23 @@ export default function Pairing({ onPaired }: PairingProps) {
                             <Copy className="w-4 h-4" />
                           </Button>
                         </div>
-                        
+
                         <div className="mt-3 space-y-2">
                           {timeLeft > 0 && (
                             <div className="flex items-center justify-center space-x-2 text-purple-200">
                               <Clock className="w-4 h-4" />
-                              <span className="text-sm">Expires in {formatTime(timeLeft)}</span>
+                              <span className="text-sm">
+                                Expires in {formatTime(timeLeft)}
+                              </span>
                             </div>
                           )}
 
                           {generatedCode && timeLeft > 0 && (
                             <div className="flex items-center justify-center space-x-2 text-blue-300">
                               <div className="w-2 h-2 bg-blue-400 rounded-full animate-pulse"></div>
-                              <span className="text-sm">Waiting for partner to connect...</span>
+                              <span className="text-sm">
+                                Waiting for partner to connect...
+                              </span>
                             </div>
                           )}
                         </div>
@@ -421,7 +429,8 @@ export default function Pairing({ onPaired }: PairingProps) {
                   ) : (
                     <div className="space-y-4">
                       <p className="text-purple-100 text-sm">
-                        Generate a unique code that your partner can use to connect with you securely.
+                        Generate a unique code that your partner can use to
+                        connect with you securely.
                       </p>
                       <Button
                         onClick={generateCode}
@@ -433,7 +442,9 @@ export default function Pairing({ onPaired }: PairingProps) {
                         ) : (
                           <UserPlus className="w-5 h-5 mr-2" />
                         )}
-                        {isGenerating ? 'Generating...' : 'Generate Pairing Code'}
+                        {isGenerating
+                          ? "Generating..."
+                          : "Generate Pairing Code"}
                       </Button>
                     </div>
                   )}
@@ -457,7 +468,10 @@ export default function Pairing({ onPaired }: PairingProps) {
 
                   <div className="space-y-4">
                     <div className="space-y-2">
-                      <Label htmlFor="connectCode" className="text-white font-medium">
+                      <Label
+                        htmlFor="connectCode"
+                        className="text-white font-medium"
+                      >
                         Partner's Code
                       </Label>
                       <Input
@@ -467,20 +481,25 @@ export default function Pairing({ onPaired }: PairingProps) {
                         onChange={(e) => {
                           const value = e.target.value.toUpperCase();
                           setConnectCode(value);
-                          // Auto-submit when 6 characters are entered
-                          if (value.length === 6 && !isConnecting) {
-                            setTimeout(() => connectWithCode(), 500);
+                          // Auto-submit once the whole code is in, dash or not.
+                          // Wrong guesses count against rate limits, so only then.
+                          if (
+                            value.replace(/[^A-Z0-9]/g, "").length ===
+                              PAIRING_CODE_LENGTH &&
+                            !isConnecting
+                          ) {
+                            setTimeout(() => connectWithCode(value), 500);
                           }
                         }}
                         className="bg-white/10 border-white/20 text-white placeholder:text-purple-200 focus:border-white/40 font-mono text-center text-lg tracking-wider"
                         placeholder="ENTER CODE"
                         disabled={isConnecting}
-                        maxLength={6}
+                        maxLength={PAIRING_CODE_LENGTH + 1}
                       />
                     </div>
 
                     <Button
-                      onClick={connectWithCode}
+                      onClick={() => connectWithCode()}
                       disabled={isConnecting || !connectCode.trim()}
                       className="w-full bg-white text-purple-700 hover:bg-white/90 font-semibold py-6"
                     >
@@ -489,11 +508,11 @@ export default function Pairing({ onPaired }: PairingProps) {
                       ) : (
                         <Users className="w-5 h-5 mr-2" />
                       )}
-                      {isConnecting ? 'Connecting...' : 'Connect with Partner'}
+                      {isConnecting ? "Connecting..." : "Connect with Partner"}
                     </Button>
 
                     <p className="text-purple-100 text-sm text-center">
-                      Enter the 6-character code shared by your partner
+                      Enter the 10-character code shared by your partner
                     </p>
                   </div>
                 </TabsContent>
@@ -506,9 +525,11 @@ export default function Pairing({ onPaired }: PairingProps) {
             <div className="flex items-start space-x-3">
               <Shield className="w-5 h-5 text-green-400 mt-0.5" />
               <div>
-                <p className="text-white font-medium text-sm">Secure Connection</p>
+                <p className="text-white font-medium text-sm">
+                  Secure Connection
+                </p>
                 <p className="text-purple-200 text-xs mt-1">
-                  All communications are protected with end-to-end encryption. 
+                  All communications are protected with end-to-end encryption.
                   Codes expire after 5 minutes for maximum security.
                 </p>
               </div>
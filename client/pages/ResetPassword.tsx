@@ -0,0 +1,141 @@
+import React, { useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { KeyRound, Loader2 } from "lucide-react";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Where /reset-password links from the reset email land
+export default function ResetPassword() {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { resetPassword } = useAuth();
+  const token = searchParams.get("token") ?? "";
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [done, setDone] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Use at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await resetPassword(token, password);
+    setIsSaving(false);
+
+    if (result.success) {
+      setDone(true);
+    } else {
+      setError(result.message || "Failed to reset password");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-violet-600 via-purple-600 to-blue-700 flex items-center justify-center p-4">
+      <Card className="glass bg-white/10 backdrop-blur-md border-white/20 w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto w-16 h-16 bg-white/20 rounded-full flex items-center justify-center mb-4">
+            <KeyRound className="w-8 h-8 text-white" />
+          </div>
+          <CardTitle className="text-2xl text-white">
+            Choose a New Password
+          </CardTitle>
+          <CardDescription className="text-purple-100">
+            Every device signed in to your account will be signed out
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {done ? (
+            <div className="space-y-6">
+              <Alert className="bg-green-500/20 border-green-400/30 text-green-100">
+                <AlertDescription>
+                  Password changed. Sign in with your new password.
+                </AlertDescription>
+              </Alert>
+              <Button
+                onClick={() => navigate("/", { replace: true })}
+                className="w-full bg-white text-purple-700 hover:bg-white/90 font-semibold py-6"
+              >
+                Sign In
+              </Button>
+            </div>
+          ) : !token ? (
+            <Alert className="bg-red-500/20 border-red-400/30 text-red-100">
+              <AlertDescription>
+                This link is missing its reset token. Request a new one from the
+                sign in page.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <Alert className="bg-red-500/20 border-red-400/30 text-red-100">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="newPassword" className="text-white">
+                  New password
+                </Label>
+                <Input
+                  id="newPassword"
+                  type="password"
+                  autoComplete="new-password"
+                  autoFocus
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="bg-white/10 border-white/20 text-white placeholder:text-white/60"
+                  disabled={isSaving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmNewPassword" className="text-white">
+                  Confirm new password
+                </Label>
+                <Input
+                  id="confirmNewPassword"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className="bg-white/10 border-white/20 text-white placeholder:text-white/60"
+                  disabled={isSaving}
+                />
+              </div>
+              <Button
+                type="submit"
+                disabled={isSaving}
+                className="w-full bg-white text-purple-700 hover:bg-white/90 font-semibold py-6"
+              >
+                {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Reset Password
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import React, { useState, useEffect, useRef } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2, MailCheck } from "lucide-react";
+
+// Where /verify-email links from the verification email land. Works signed
+// out too: the token in the link is all the server needs.
+export default function VerifyEmail() {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { verifyEmail } = useAuth();
+  const [status, setStatus] = useState<"verifying" | "verified" | "failed">(
+    "verifying",
+  );
+  const [message, setMessage] = useState("");
+  // Tokens work once, so never send the same one twice
+  const attemptedRef = useRef(false);
+
+  useEffect(() => {
+    if (attemptedRef.current) return;
+    attemptedRef.current = true;
+
+    const token = searchParams.get("token");
+    if (!token) {
+      setStatus("failed");
+      setMessage("This link is missing its verification token");
+      return;
+    }
+
+    verifyEmail(token).then((result) => {
+      setStatus(result.success ? "verified" : "failed");
+      setMessage(result.message || "");
+    });
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-violet-600 via-purple-600 to-blue-700 flex items-center justify-center p-4">
+      <Card className="glass bg-white/10 backdrop-blur-md border-white/20 w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto w-16 h-16 bg-white/20 rounded-full flex items-center justify-center mb-4">
+            <MailCheck className="w-8 h-8 text-white" />
+          </div>
+          <CardTitle className="text-2xl text-white">
+            Email Verification
+          </CardTitle>
+          <CardDescription className="text-purple-100">
+            {status === "verified"
+              ? "You can now connect with people"
+              : "Confirming your email address"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {status === "verifying" && (
+            <div className="flex items-center justify-center space-x-3 text-white">
+              <Loader2 className="w-5 h-5 animate-spin" />
+              <span>Verifying...</span>
+            </div>
+          )}
+
+          {status === "verified" && (
+            <Alert className="bg-green-500/20 border-green-400/30 text-green-100">
+              <AlertDescription>{message || "Email verified"}</AlertDescription>
+            </Alert>
+          )}
+
+          {status === "failed" && (
+            <Alert className="bg-red-500/20 border-red-400/30 text-red-100">
+              <AlertDescription>
+                {message || "This link is invalid or has expired"}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <Button
+            onClick={() => navigate("/", { replace: true })}
+            disabled={status === "verifying"}
+            className="w-full bg-white text-purple-700 hover:bg-white/90 font-semibold py-6"
+          >
+            Continue
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
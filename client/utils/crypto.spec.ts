@@ -0,0 +1,180 @@
+import { describe, it, expect } from "vitest";
+import {
+  generateKeyPair,
+  deriveSessionKeys,
+  encryptMessage,
+  decryptMessage,
+  encryptFile,
+  decryptFile,
+  isValidEncryptedFile,
+  cleanEncryptedMessage,
+  bytesToBase64,
+  base64ToBytes,
+  ENCRYPTION_PROTOCOL_VERSION,
+} from "./crypto";
+
+describe("deriveSessionKeys", () => {
+  it("should give each side matching send and receive keys", async () => {
+    const alice = await generateKeyPair();
+    const bob = await generateKeyPair();
+
+    const aliceKeys = await deriveSessionKeys(
+      alice.privateKey,
+      alice.publicKey,
+      bob.publicKey,
+    );
+    const bobKeys = await deriveSessionKeys(
+      bob.privateKey,
+      bob.publicKey,
+      alice.publicKey,
+    );
+
+    expect(aliceKeys.sendKey).toBe(bobKeys.receiveKey);
+    expect(aliceKeys.receiveKey).toBe(bobKeys.sendKey);
+    expect(aliceKeys.sendKey).not.toBe(aliceKeys.receiveKey);
+  });
+
+  it("should not be computable from the public keys alone", async () => {
+    const alice = await generateKeyPair();
+    const bob = await generateKeyPair();
+    const eve = await generateKeyPair();
+
+    const aliceKeys = await deriveSessionKeys(
+      alice.privateKey,
+      alice.publicKey,
+      bob.publicKey,
+    );
+    const eveKeys = await deriveSessionKeys(
+      eve.privateKey,
+      alice.publicKey,
+      bob.publicKey,
+    );
+
+    expect(eveKeys.sendKey).not.toBe(aliceKeys.sendKey);
+    expect(eveKeys.receiveKey).not.toBe(aliceKeys.receiveKey);
+  });
+});
+
+describe("encryptMessage", () => {
+  const aad = {
+    senderId: "alice",
+    messageId: "alice-1",
+    timestamp: "2024-01-01T00:00:00.000Z",
+  };
+
+  async function pair() {
+    const alice = await generateKeyPair();
+    const bob = await generateKeyPair();
+    const aliceKeys = await deriveSessionKeys(
+      alice.privateKey,
+      alice.publicKey,
+      bob.publicKey,
+    );
+    const bobKeys = await deriveSessionKeys(
+      bob.privateKey,
+      bob.publicKey,
+      alice.publicKey,
+    );
+    return { aliceKeys, bobKeys };
+  }
+
+  it("should round-trip through the partner's receive key", async () => {
+    const { aliceKeys, bobKeys } = await pair();
+
+    const encrypted = await encryptMessage("hello bob", aliceKeys.sendKey, aad);
+    expect(encrypted.v).toBe(ENCRYPTION_PROTOCOL_VERSION);
+    expect(encrypted.alg).toBe("AES-256-GCM");
+    expect(encrypted.aad).toEqual(aad);
+    expect(await decryptMessage(encrypted, bobKeys.receiveKey)).toBe(
+      "hello bob",
+    );
+  });
+
+  it("should reject tampered ciphertext", async () => {
+    const { aliceKeys, bobKeys } = await pair();
+    const encrypted = await encryptMessage("hello bob", aliceKeys.sendKey, aad);
+
+    const bytes = base64ToBytes(encrypted.ciphertext);
+    bytes[0] ^= 0x01;
+    const tampered = { ...encrypted, ciphertext: bytesToBase64(bytes) };
+
+    await expect(decryptMessage(tampered, bobKeys.receiveKey)).rejects.toThrow(
+      /Authentication failed/,
+    );
+  });
+
+  it("should reject tampered associated data", async () => {
+    const { aliceKeys, bobKeys } = await pair();
+    const encrypted = await encryptMessage("hello bob", aliceKeys.sendKey, aad);
+    const tampered = { ...encrypted, aad: { ...aad, senderId: "mallory" } };
+
+    await expect(decryptMessage(tampered, bobKeys.receiveKey)).rejects.toThrow(
+      /Authentication failed/,
+    );
+  });
+
+  it("should authenticate the reply reference", async () => {
+    const { aliceKeys, bobKeys } = await pair();
+    const reply = { ...aad, replyTo: "bob-7" };
+    const encrypted = await encryptMessage("yes", aliceKeys.sendKey, reply);
+
+    expect(encrypted.aad).toEqual(reply);
+    expect(await decryptMessage(encrypted, bobKeys.receiveKey)).toBe("yes");
+
+    const { replyTo: _, ...stripped } = reply;
+    await expect(
+      decryptMessage({ ...encrypted, aad: stripped }, bobKeys.receiveKey),
+    ).rejects.toThrow(/Authentication failed/);
+    await expect(
+      decryptMessage(
+        { ...encrypted, aad: { ...reply, replyTo: "bob-8" } },
+        bobKeys.receiveKey,
+      ),
+    ).rejects.toThrow(/Authentication failed/);
+  });
+
+  it("should round-trip files with authenticated metadata", async () => {
+    const { aliceKeys, bobKeys } = await pair();
+    const data = new Uint8Array([1, 2, 3, 4]).buffer;
+
+    const encrypted = await encryptFile(
+      data,
+      "a.png",
+      "image/png",
+      aliceKeys.sendKey,
+      aad,
+    );
+    expect(isValidEncryptedFile(encrypted)).toBe(true);
+    expect(
+      new Uint8Array(await decryptFile(encrypted, bobKeys.receiveKey)),
+    ).toEqual(new Uint8Array([1, 2, 3, 4]));
+
+    await expect(
+      decryptFile({ ...encrypted, fileName: "b.exe" }, bobKeys.receiveKey),
+    ).rejects.toThrow();
+  });
+});
+
+describe("cleanEncryptedMessage", () => {
+  it("should reject unversioned legacy messages", () => {
+    expect(
+      cleanEncryptedMessage({
+        encryptedContent: "U2FsdGVkX1+abc",
+        encryptedKey: "hash",
+        iv: "AAAAAAAAAAAAAAAAAAAAAA==",
+      }),
+    ).toBeNull();
+  });
+
+  it("should reject unknown versions", () => {
+    expect(
+      cleanEncryptedMessage({
+        v: 99,
+        alg: "AES-256-GCM",
+        nonce: "AAAAAAAAAAAAAAAA",
+        ciphertext: "AAAA",
+        aad: { senderId: "a", messageId: "b", timestamp: "c" },
+      }),
+    ).toBeNull();
+  });
+});
@@ -1,271 +1,517 @@
-import CryptoJS from 'crypto-js';
+import CryptoJS from "crypto-js";
 
 export interface KeyPair {
   publicKey: string;
   privateKey: string;
 }
 
+/**
+ * Wire format version for 1:1 encrypted envelopes. Version 4 envelopes are
+ * AES-256-GCM with sender, message ID, timestamp, any reply reference and
+ * (for chat messages) the Double Ratchet header bound in as associated data.
+ * Earlier versions (static session keys, AES-CBC without a MAC, unversioned
+ * legacy) are rejected.
+ */
+export const ENCRYPTION_PROTOCOL_VERSION = 4;
+export const ENVELOPE_ALGORITHM = "AES-256-GCM";
+
+/**
+ * Metadata authenticated (but not encrypted) alongside the ciphertext
+ */
+export interface EnvelopeAad {
+  senderId: string;
+  messageId: string;
+  timestamp: string;
+  replyTo?: string; // The message this one replies to
+}
+
+/**
+ * Double Ratchet message header: the sender's current ratchet public key, the
+ * length of its previous sending chain and this message's index in the chain
+ */
+export interface RatchetHeader {
+  dh: string;
+  pn: number;
+  n: number;
+}
+
+/**
+ * X3DH header carried by messages sent before the recipient has replied, so
+ * they can derive the same session from the prekeys the sender used
+ */
+export interface PreKeyHeader {
+  identityKey: string;
+  ephemeralKey: string;
+  signedPreKeyId: number;
+  oneTimePreKeyId?: number;
+}
+
 export interface EncryptedMessage {
-  encryptedContent: string;
-  encryptedKey: string;
-  iv: string;
+  v: number;
+  alg: typeof ENVELOPE_ALGORITHM;
+  nonce: string;
+  ciphertext: string;
+  aad: EnvelopeAad;
+  header?: RatchetHeader;
+  prekey?: PreKeyHeader;
 }
 
-export interface EncryptedFile {
-  encryptedData: string;
-  encryptedKey: string;
-  iv: string;
+/**
+ * Directional keys derived from an ECDH agreement between two identity keys.
+ * Both are base64-encoded raw 256-bit keys; they seed the ratchet session.
+ */
+export interface SessionKeys {
+  sendKey: string;
+  receiveKey: string;
+}
+
+/**
+ * An encrypted file is an envelope whose file metadata is also authenticated
+ */
+export interface EncryptedFile extends EncryptedMessage {
   fileName: string;
   fileType: string;
   fileSize: number;
 }
 
+const ECDH_PARAMS: EcKeyImportParams = { name: "ECDH", namedCurve: "P-256" };
+const ECDSA_PARAMS: EcKeyImportParams = { name: "ECDSA", namedCurve: "P-256" };
+const SESSION_KEY_INFO = "builder-pixel-works/session-keys/v2";
+
 /**
- * Generate a secure key pair for encryption
+ * Encode raw bytes as Base64
+ */
+export function bytesToBase64(bytes: ArrayBuffer | Uint8Array): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = "";
+  for (let i = 0; i < view.length; i++) {
+    binary += String.fromCharCode(view[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode Base64 into raw bytes
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Generate an ECDH (P-256) identity key pair for key agreement
  */
 export async function generateKeyPair(): Promise<KeyPair> {
+  const keyPair = await crypto.subtle.generateKey(ECDH_PARAMS, true, [
+    "deriveBits",
+  ]);
+
+  const publicKey = await crypto.subtle.exportKey("spki", keyPair.publicKey);
+  const privateKey = await crypto.subtle.exportKey("pkcs8", keyPair.privateKey);
+
+  return {
+    publicKey: bytesToBase64(publicKey),
+    privateKey: bytesToBase64(privateKey),
+  };
+}
+
+/**
+ * Generate an ECDSA (P-256) key pair for signing prekeys and group messages.
+ * The identity key is an ECDH key, but on the same curve it can still sign
+ * once, to vouch for the signing key (see x3dh.generatePreKeys).
+ */
+export async function generateSigningKeyPair(): Promise<KeyPair> {
+  const keyPair = await crypto.subtle.generateKey(ECDSA_PARAMS, true, [
+    "sign",
+    "verify",
+  ]);
+
+  const publicKey = await crypto.subtle.exportKey("spki", keyPair.publicKey);
+  const privateKey = await crypto.subtle.exportKey("pkcs8", keyPair.privateKey);
+
+  return {
+    publicKey: bytesToBase64(publicKey),
+    privateKey: bytesToBase64(privateKey),
+  };
+}
+
+/**
+ * Sign a string (typically a Base64 public key) with an ECDSA private key
+ */
+export async function signData(
+  privateKey: string,
+  data: string,
+): Promise<string> {
+  const signingKey = await crypto.subtle.importKey(
+    "pkcs8",
+    base64ToBytes(privateKey),
+    ECDSA_PARAMS,
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    { name: "ECDSA", hash: "SHA-256" },
+    signingKey,
+    new TextEncoder().encode(data),
+  );
+  return bytesToBase64(signature);
+}
+
+/**
+ * Verify an ECDSA signature made by signData. Malformed keys or signatures
+ * verify as false rather than throwing.
+ */
+export async function verifySignature(
+  publicKey: string,
+  data: string,
+  signature: string,
+): Promise<boolean> {
   try {
-    // Use Web Crypto API for better security
-    const keyPair = await window.crypto.subtle.generateKey(
+    const verifyKey = await crypto.subtle.importKey(
+      "spki",
+      base64ToBytes(publicKey),
+      ECDSA_PARAMS,
+      false,
+      ["verify"],
+    );
+    return await crypto.subtle.verify(
+      { name: "ECDSA", hash: "SHA-256" },
+      verifyKey,
+      base64ToBytes(signature),
+      new TextEncoder().encode(data),
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Raw ECDH (P-256) shared secret between a private and a public key
+ */
+export async function computeSharedSecret(
+  privateKey: string,
+  publicKey: string,
+): Promise<ArrayBuffer> {
+  const ownPrivate = await crypto.subtle.importKey(
+    "pkcs8",
+    base64ToBytes(privateKey),
+    ECDH_PARAMS,
+    false,
+    ["deriveBits"],
+  );
+  const partnerPublic = await crypto.subtle.importKey(
+    "spki",
+    base64ToBytes(publicKey),
+    ECDH_PARAMS,
+    false,
+    [],
+  );
+
+  return crypto.subtle.deriveBits(
+    { name: "ECDH", public: partnerPublic },
+    ownPrivate,
+    256,
+  );
+}
+
+/**
+ * Run ECDH between our private key and the partner's public key and expand the
+ * result with HKDF into one key per direction. The two keys are assigned by
+ * ordering the public keys, so each side's send key is the other's receive key.
+ * Only the holders of either private key can compute them; the public keys
+ * relayed through the server are not enough.
+ */
+export async function deriveSessionKeys(
+  privateKey: string,
+  publicKey: string,
+  partnerPublicKey: string,
+): Promise<SessionKeys> {
+  if (publicKey === partnerPublicKey) {
+    throw new Error("Partner public key matches our own");
+  }
+
+  const sharedSecret = await computeSharedSecret(privateKey, partnerPublicKey);
+
+  // Bind both identities into the derivation so a key can't be reused across pairs
+  const [lowKey, highKey] = [publicKey, partnerPublicKey].sort();
+  const salt = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(lowKey + highKey),
+  );
+
+  const hkdfKey = await crypto.subtle.importKey(
+    "raw",
+    sharedSecret,
+    "HKDF",
+    false,
+    ["deriveBits"],
+  );
+  const okm = new Uint8Array(
+    await crypto.subtle.deriveBits(
       {
-        name: "RSA-OAEP",
-        modulusLength: 2048,
-        publicExponent: new Uint8Array([1, 0, 1]),
+        name: "HKDF",
         hash: "SHA-256",
+        salt,
+        info: new TextEncoder().encode(SESSION_KEY_INFO),
       },
-      true,
-      ["encrypt", "decrypt"]
-    );
+      hkdfKey,
+      512,
+    ),
+  );
 
-    const publicKey = await window.crypto.subtle.exportKey("spki", keyPair.publicKey);
-    const privateKey = await window.crypto.subtle.exportKey("pkcs8", keyPair.privateKey);
+  const lowToHigh = bytesToBase64(okm.slice(0, 32));
+  const highToLow = bytesToBase64(okm.slice(32, 64));
 
-    return {
-      publicKey: btoa(String.fromCharCode(...new Uint8Array(publicKey))),
-      privateKey: btoa(String.fromCharCode(...new Uint8Array(privateKey)))
-    };
-  } catch (error) {
-    console.error('Web Crypto API failed, using fallback:', error);
-    // Fallback to CryptoJS for compatibility
-    const publicKey = CryptoJS.lib.WordArray.random(256).toString();
-    const privateKey = CryptoJS.lib.WordArray.random(256).toString();
-    return { publicKey, privateKey };
-  }
+  return publicKey === lowKey
+    ? { sendKey: lowToHigh, receiveKey: highToLow }
+    : { sendKey: highToLow, receiveKey: lowToHigh };
 }
 
 /**
- * Encrypt a text message using AES-256 with shared key
+ * Import a base64 message or file key for AES-GCM
  */
-export function encryptMessage(
-  message: string,
-  sharedKey: string
-): EncryptedMessage {
-  try {
-    // Generate random IV
-    const iv = CryptoJS.lib.WordArray.random(16); // 128 bits
-
-    // Create a consistent key from the shared key
-    const key = CryptoJS.SHA256(sharedKey);
-
-    // Encrypt message with AES-256
-    const encryptedContent = CryptoJS.AES.encrypt(message, key, {
-      iv: iv,
-      mode: CryptoJS.mode.CBC,
-      padding: CryptoJS.pad.Pkcs7
-    }).toString();
-
-    // For symmetric encryption, we don't need to encrypt the key separately
-    // Just use a hash of the shared key as verification
-    const keyHash = CryptoJS.SHA256(sharedKey).toString(CryptoJS.enc.Base64);
-
-    return {
-      encryptedContent,
-      encryptedKey: keyHash, // Store key hash for verification
-      iv: iv.toString(CryptoJS.enc.Base64)
-    };
-  } catch (error) {
-    console.error('Encryption failed:', error);
-    throw new Error('Failed to encrypt message');
+async function importAesKey(key: string, usage: KeyUsage): Promise<CryptoKey> {
+  const raw = base64ToBytes(key);
+  if (raw.length !== 32) {
+    throw new Error("Encryption key must be 256 bits");
   }
+  return crypto.subtle.importKey("raw", raw, "AES-GCM", false, [usage]);
 }
 
 /**
- * Decrypt a text message
+ * Serialize the authenticated fields of an envelope. The version and algorithm
+ * are included so a downgraded header fails authentication.
  */
-export function decryptMessage(
-  encryptedMessage: EncryptedMessage,
-  sharedKey: string
-): string {
-  try {
-    // Validate input
-    if (!encryptedMessage || !sharedKey) {
-      throw new Error('Missing encryption parameters');
-    }
-
-    if (!encryptedMessage.encryptedContent || !encryptedMessage.encryptedKey || !encryptedMessage.iv) {
-      throw new Error('Invalid encrypted message structure');
-    }
-
-    console.log('🔓 Starting symmetric decryption process...');
-    console.log('📦 Encrypted content length:', encryptedMessage.encryptedContent.length);
-    console.log('🔐 IV:', encryptedMessage.iv);
+function encodeAad(
+  aad: EnvelopeAad,
+  extra: (string | number)[] = [],
+): Uint8Array {
+  return new TextEncoder().encode(
+    JSON.stringify([
+      ENCRYPTION_PROTOCOL_VERSION,
+      ENVELOPE_ALGORITHM,
+      aad.senderId,
+      aad.messageId,
+      aad.timestamp,
+      // Tagged, and only when set, so envelopes without a reply encode as before
+      ...(aad.replyTo ? ["reply", aad.replyTo] : []),
+      ...extra,
+    ]),
+  );
+}
 
-    // Verify key hash (optional security check)
-    const expectedKeyHash = CryptoJS.SHA256(sharedKey).toString(CryptoJS.enc.Base64);
-    if (encryptedMessage.encryptedKey !== expectedKeyHash) {
-      console.warn('⚠️ Key hash mismatch - possible key incompatibility');
-    }
+function headerAadFields(
+  header?: RatchetHeader,
+  prekey?: PreKeyHeader,
+): (string | number)[] {
+  return [
+    ...(header ? ["ratchet", header.dh, header.pn, header.n] : []),
+    ...(prekey
+      ? [
+          "prekey",
+          prekey.identityKey,
+          prekey.ephemeralKey,
+          prekey.signedPreKeyId,
+          prekey.oneTimePreKeyId ?? -1,
+        ]
+      : []),
+  ];
+}
 
-    // Create consistent key from shared key
-    const key = CryptoJS.SHA256(sharedKey);
+async function sealBytes(
+  plaintext: Uint8Array,
+  key: string,
+  aad: EnvelopeAad,
+  extra: (string | number)[] = [],
+  header?: RatchetHeader,
+  prekey?: PreKeyHeader,
+): Promise<EncryptedMessage> {
+  const nonce = crypto.getRandomValues(new Uint8Array(12)); // 96 bits
+  const cryptoKey = await importAesKey(key, "encrypt");
+  const ciphertext = await crypto.subtle.encrypt(
+    {
+      name: "AES-GCM",
+      iv: nonce,
+      additionalData: encodeAad(aad, [
+        ...headerAadFields(header, prekey),
+        ...extra,
+      ]),
+    },
+    cryptoKey,
+    plaintext,
+  );
 
-    // Parse IV
-    let iv: CryptoJS.lib.WordArray;
-    try {
-      iv = CryptoJS.enc.Base64.parse(encryptedMessage.iv);
-      if (!iv || iv.sigBytes <= 0) {
-        throw new Error('Invalid IV format');
-      }
-    } catch (ivError) {
-      console.error('IV parsing failed:', ivError);
-      throw new Error('Invalid IV Base64 format');
-    }
+  const envelope: EncryptedMessage = {
+    v: ENCRYPTION_PROTOCOL_VERSION,
+    alg: ENVELOPE_ALGORITHM,
+    nonce: bytesToBase64(nonce),
+    ciphertext: bytesToBase64(ciphertext),
+    aad: {
+      senderId: aad.senderId,
+      messageId: aad.messageId,
+      timestamp: aad.timestamp,
+      ...(aad.replyTo && { replyTo: aad.replyTo }),
+    },
+  };
+  if (header) {
+    envelope.header = { dh: header.dh, pn: header.pn, n: header.n };
+  }
+  if (prekey) {
+    envelope.prekey = { ...prekey };
+  }
+  return envelope;
+}
 
-    console.log('🔐 IV parsed successfully');
+async function openBytes(
+  envelope: EncryptedMessage,
+  key: string,
+  extra: (string | number)[] = [],
+): Promise<ArrayBuffer> {
+  if (
+    envelope.v !== ENCRYPTION_PROTOCOL_VERSION ||
+    envelope.alg !== ENVELOPE_ALGORITHM
+  ) {
+    throw new Error(
+      `Unsupported envelope version: ${envelope.v}/${envelope.alg}`,
+    );
+  }
 
-    // Decrypt the message
-    const decryptedMessage = CryptoJS.AES.decrypt(
-      encryptedMessage.encryptedContent,
-      key,
+  const cryptoKey = await importAesKey(key, "decrypt");
+  try {
+    return await crypto.subtle.decrypt(
       {
-        iv: iv,
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      }
+        name: "AES-GCM",
+        iv: base64ToBytes(envelope.nonce),
+        additionalData: encodeAad(envelope.aad, [
+          ...headerAadFields(envelope.header, envelope.prekey),
+          ...extra,
+        ]),
+      },
+      cryptoKey,
+      base64ToBytes(envelope.ciphertext),
     );
+  } catch {
+    // WebCrypto reports a failed tag check as a bare OperationError
+    throw new Error(
+      "Authentication failed - ciphertext or metadata was tampered with",
+    );
+  }
+}
 
-    // Check if decryption was successful
-    if (!decryptedMessage || decryptedMessage.sigBytes <= 0) {
-      throw new Error('Message decryption failed - no data');
+/**
+ * Encrypt a text message into an AES-256-GCM envelope. Ratchet sessions pass
+ * the message header (and, until the partner replies, the X3DH header) so it
+ * is authenticated together with the ciphertext.
+ */
+export async function encryptMessage(
+  message: string,
+  messageKey: string,
+  aad: EnvelopeAad,
+  header?: RatchetHeader,
+  prekey?: PreKeyHeader,
+): Promise<EncryptedMessage> {
+  try {
+    return await sealBytes(
+      new TextEncoder().encode(message),
+      messageKey,
+      aad,
+      [],
+      header,
+      prekey,
+    );
+  } catch (error) {
+    console.error("Encryption failed:", error);
+    throw new Error("Failed to encrypt message");
+  }
+}
+
+/**
+ * Decrypt a text message envelope. Fails if the ciphertext or any
+ * authenticated metadata was modified.
+ */
+export async function decryptMessage(
+  encryptedMessage: EncryptedMessage,
+  messageKey: string,
+): Promise<string> {
+  try {
+    // Validate input
+    if (!encryptedMessage || !messageKey) {
+      throw new Error("Missing encryption parameters");
     }
 
-    // Convert to UTF-8 with error handling
+    const plaintextBytes = await openBytes(encryptedMessage, messageKey);
+
+    // The tag check already passed, so invalid UTF-8 here means a buggy sender
     let plaintext: string;
     try {
-      plaintext = decryptedMessage.toString(CryptoJS.enc.Utf8);
-      if (!plaintext || plaintext.length === 0) {
-        throw new Error('Decrypted message is empty');
-      }
-    } catch (utf8Error) {
-      console.error('UTF-8 conversion failed for message:', utf8Error);
-      // Try Latin1 as fallback
-      try {
-        plaintext = decryptedMessage.toString(CryptoJS.enc.Latin1);
-        console.warn('⚠️ Used Latin1 fallback for message decoding');
-        if (!plaintext || plaintext.length === 0) {
-          throw new Error('Fallback decoding also failed');
-        }
-      } catch (fallbackError) {
-        console.error('Fallback decoding failed:', fallbackError);
-        throw new Error('Message contains malformed data - unable to decode');
-      }
+      plaintext = new TextDecoder("utf-8", { fatal: true }).decode(
+        plaintextBytes,
+      );
+    } catch {
+      throw new Error("Message contains malformed UTF-8");
     }
 
-    console.log('✅ Message decrypted successfully, length:', plaintext.length);
+    console.log("✅ Message decrypted successfully, length:", plaintext.length);
     return plaintext;
   } catch (error) {
-    console.error('Decryption failed:', error);
+    console.error("Decryption failed:", error);
     throw new Error(`Failed to decrypt message: ${error.message}`);
   }
 }
 
 /**
- * Encrypt a file (image, video, etc.)
+ * Generate a random 256-bit key for a single file
+ */
+export function generateFileKey(): string {
+  return bytesToBase64(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * Encrypt a file (image, video, etc.). Files use their own key from
+ * generateFileKey, which travels inside a ratchet-encrypted message.
  */
-export function encryptFile(
+export async function encryptFile(
   fileData: ArrayBuffer,
   fileName: string,
   fileType: string,
-  sharedKey: string
-): EncryptedFile {
+  fileKey: string,
+  aad: EnvelopeAad,
+): Promise<EncryptedFile> {
   try {
-    // Convert ArrayBuffer to Base64
-    const base64Data = btoa(String.fromCharCode(...new Uint8Array(fileData)));
-
-    // Generate random IV
-    const iv = CryptoJS.lib.WordArray.random(16);
-
-    // Create consistent key from shared key
-    const key = CryptoJS.SHA256(sharedKey);
-
-    // Encrypt file data with AES-256
-    const encryptedData = CryptoJS.AES.encrypt(base64Data, key, {
-      iv: iv,
-      mode: CryptoJS.mode.CBC,
-      padding: CryptoJS.pad.Pkcs7
-    }).toString();
-
-    // Store key hash for verification
-    const keyHash = CryptoJS.SHA256(sharedKey).toString(CryptoJS.enc.Base64);
-
-    return {
-      encryptedData,
-      encryptedKey: keyHash,
-      iv: iv.toString(CryptoJS.enc.Base64),
+    const fileSize = fileData.byteLength;
+    const envelope = await sealBytes(new Uint8Array(fileData), fileKey, aad, [
       fileName,
       fileType,
-      fileSize: fileData.byteLength
-    };
+      fileSize,
+    ]);
+
+    return { ...envelope, fileName, fileType, fileSize };
   } catch (error) {
-    console.error('File encryption failed:', error);
-    throw new Error('Failed to encrypt file');
+    console.error("File encryption failed:", error);
+    throw new Error("Failed to encrypt file");
   }
 }
 
 /**
  * Decrypt a file
  */
-export function decryptFile(
+export async function decryptFile(
   encryptedFile: EncryptedFile,
-  sharedKey: string
-): ArrayBuffer {
+  fileKey: string,
+): Promise<ArrayBuffer> {
   try {
-    // Verify key hash (optional security check)
-    const expectedKeyHash = CryptoJS.SHA256(sharedKey).toString(CryptoJS.enc.Base64);
-    if (encryptedFile.encryptedKey !== expectedKeyHash) {
-      console.warn('⚠️ File key hash mismatch - possible key incompatibility');
-    }
-
-    // Create consistent key from shared key
-    const key = CryptoJS.SHA256(sharedKey);
-
-    // Parse IV
-    const iv = CryptoJS.enc.Base64.parse(encryptedFile.iv);
-
-    // Decrypt the file data
-    const decryptedData = CryptoJS.AES.decrypt(
-      encryptedFile.encryptedData,
-      key,
-      {
-        iv: iv,
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      }
-    );
-
-    const base64Data = decryptedData.toString(CryptoJS.enc.Utf8);
-
-    // Convert Base64 back to ArrayBuffer
-    const binaryString = atob(base64Data);
-    const bytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
-
-    return bytes.buffer;
+    return await openBytes(encryptedFile, fileKey, [
+      encryptedFile.fileName,
+      encryptedFile.fileType,
+      encryptedFile.fileSize,
+    ]);
   } catch (error) {
-    console.error('File decryption failed:', error);
-    throw new Error('Failed to decrypt file');
+    console.error("File decryption failed:", error);
+    throw new Error("Failed to decrypt file");
   }
 }
 
@@ -273,7 +519,7 @@ export function decryptFile(
  * Generate a secure random salt
  */
 export function generateSalt(): string {
-  return CryptoJS.lib.WordArray.random(128/8).toString();
+  return CryptoJS.lib.WordArray.random(128 / 8).toString();
 }
 
 /**
@@ -283,29 +529,95 @@ export function sha256(input: string): string {
   return CryptoJS.SHA256(input).toString();
 }
 
+/**
+ * Validate the associated data block of an envelope
+ */
+function isValidEnvelopeAad(aad: any): aad is EnvelopeAad {
+  return (
+    typeof aad === "object" &&
+    aad !== null &&
+    typeof aad.senderId === "string" &&
+    aad.senderId.length > 0 &&
+    typeof aad.messageId === "string" &&
+    aad.messageId.length > 0 &&
+    typeof aad.timestamp === "string" &&
+    aad.timestamp.length > 0 &&
+    (aad.replyTo === undefined ||
+      (typeof aad.replyTo === "string" && aad.replyTo.length > 0))
+  );
+}
+
+/**
+ * Validate a Double Ratchet header
+ */
+export function isValidRatchetHeader(header: any): header is RatchetHeader {
+  return (
+    typeof header === "object" &&
+    header !== null &&
+    typeof header.dh === "string" &&
+    header.dh.length > 0 &&
+    Number.isInteger(header.pn) &&
+    header.pn >= 0 &&
+    Number.isInteger(header.n) &&
+    header.n >= 0
+  );
+}
+
+/**
+ * Validate an X3DH prekey header
+ */
+export function isValidPreKeyHeader(prekey: any): prekey is PreKeyHeader {
+  return (
+    typeof prekey === "object" &&
+    prekey !== null &&
+    typeof prekey.identityKey === "string" &&
+    prekey.identityKey.length > 0 &&
+    typeof prekey.ephemeralKey === "string" &&
+    prekey.ephemeralKey.length > 0 &&
+    Number.isInteger(prekey.signedPreKeyId) &&
+    (prekey.oneTimePreKeyId === undefined ||
+      Number.isInteger(prekey.oneTimePreKeyId))
+  );
+}
+
 /**
  * Validate if an object is a valid encrypted message
  */
 export function isValidEncryptedMessage(data: any): data is EncryptedMessage {
-  if (typeof data !== 'object' || data === null) {
-    console.log('🔍 Invalid encrypted message: not an object');
+  if (typeof data !== "object" || data === null) {
+    console.log("🔍 Invalid encrypted message: not an object");
     return false;
   }
 
-  const hasContent = typeof data.encryptedContent === 'string' && data.encryptedContent.length > 0;
-  const hasKey = typeof data.encryptedKey === 'string' && data.encryptedKey.length > 0;
-  const hasIv = typeof data.iv === 'string' && data.iv.length > 0;
-
-  console.log('🔍 Validating encrypted message:', {
-    hasContent,
-    hasKey,
-    hasIv,
-    contentLength: data.encryptedContent?.length,
-    keyLength: data.encryptedKey?.length,
-    ivLength: data.iv?.length
+  const hasVersion =
+    data.v === ENCRYPTION_PROTOCOL_VERSION && data.alg === ENVELOPE_ALGORITHM;
+  const hasNonce = typeof data.nonce === "string" && data.nonce.length > 0;
+  const hasCiphertext =
+    typeof data.ciphertext === "string" && data.ciphertext.length > 0;
+  const hasAad = isValidEnvelopeAad(data.aad);
+  const hasValidHeader =
+    data.header === undefined || isValidRatchetHeader(data.header);
+  const hasValidPreKey =
+    data.prekey === undefined || isValidPreKeyHeader(data.prekey);
+
+  console.log("🔍 Validating encrypted message:", {
+    version: data.v,
+    alg: data.alg,
+    hasNonce,
+    hasCiphertext,
+    hasAad,
+    hasValidHeader,
+    hasValidPreKey,
   });
 
-  return hasContent && hasKey && hasIv;
+  return (
+    hasVersion &&
+    hasNonce &&
+    hasCiphertext &&
+    hasAad &&
+    hasValidHeader &&
+    hasValidPreKey
+  );
 }
 
 /**
@@ -332,49 +644,93 @@ export function isValidBase64(str: string): boolean {
  * Clean and validate encrypted message data
  */
 export function cleanEncryptedMessage(data: any): EncryptedMessage | null {
-  if (!data || typeof data !== 'object') {
-    console.error('🧹 Invalid encrypted message data type');
+  if (!data || typeof data !== "object") {
+    console.error("🧹 Invalid encrypted message data type");
+    return null;
+  }
+
+  if (
+    data.v !== ENCRYPTION_PROTOCOL_VERSION ||
+    data.alg !== ENVELOPE_ALGORITHM
+  ) {
+    console.error(
+      "🧹 Unsupported encrypted message version:",
+      data.v,
+      data.alg,
+    );
     return null;
   }
 
   try {
     // Clean and validate each field
-    const encryptedContent = typeof data.encryptedContent === 'string'
-      ? data.encryptedContent.trim()
-      : '';
-    const encryptedKey = typeof data.encryptedKey === 'string'
-      ? data.encryptedKey.trim()
-      : '';
-    const iv = typeof data.iv === 'string'
-      ? data.iv.trim()
-      : '';
-
-    // Validate Base64 format for IV (required for proper decryption)
-    if (!isValidBase64(iv)) {
-      console.error('🧹 Invalid IV Base64 format');
+    const nonce = typeof data.nonce === "string" ? data.nonce.trim() : "";
+    const ciphertext =
+      typeof data.ciphertext === "string" ? data.ciphertext.trim() : "";
+
+    if (!nonce || !ciphertext || !isValidEnvelopeAad(data.aad)) {
+      console.error("🧹 Missing required encrypted message fields");
+      return null;
+    }
+
+    if (data.header !== undefined && !isValidRatchetHeader(data.header)) {
+      console.error("🧹 Invalid ratchet header");
+      return null;
+    }
+
+    if (data.prekey !== undefined && !isValidPreKeyHeader(data.prekey)) {
+      console.error("🧹 Invalid prekey header");
       return null;
     }
 
-    if (!encryptedContent || !encryptedKey || !iv) {
-      console.error('🧹 Missing required encrypted message fields');
+    // Validate Base64 format (required for proper decryption)
+    if (!isValidBase64(nonce) || !isValidBase64(ciphertext)) {
+      console.error("🧹 Invalid nonce or ciphertext Base64 format");
+      return null;
+    }
+
+    if (base64ToBytes(nonce).length !== 12) {
+      console.error("🧹 Invalid nonce length");
       return null;
     }
 
     const cleaned: EncryptedMessage = {
-      encryptedContent,
-      encryptedKey,
-      iv
+      v: ENCRYPTION_PROTOCOL_VERSION,
+      alg: ENVELOPE_ALGORITHM,
+      nonce,
+      ciphertext,
+      aad: {
+        senderId: data.aad.senderId,
+        messageId: data.aad.messageId,
+        timestamp: data.aad.timestamp,
+        ...(data.aad.replyTo !== undefined && { replyTo: data.aad.replyTo }),
+      },
     };
+    if (data.header !== undefined) {
+      cleaned.header = {
+        dh: data.header.dh,
+        pn: data.header.pn,
+        n: data.header.n,
+      };
+    }
+    if (data.prekey !== undefined) {
+      cleaned.prekey = {
+        identityKey: data.prekey.identityKey,
+        ephemeralKey: data.prekey.ephemeralKey,
+        signedPreKeyId: data.prekey.signedPreKeyId,
+        ...(data.prekey.oneTimePreKeyId !== undefined
+          ? { oneTimePreKeyId: data.prekey.oneTimePreKeyId }
+          : {}),
+      };
+    }
 
-    console.log('🧹 Cleaned encrypted message:', {
-      contentLength: cleaned.encryptedContent.length,
-      keyLength: cleaned.encryptedKey.length,
-      ivLength: cleaned.iv.length
+    console.log("🧹 Cleaned encrypted message:", {
+      ciphertextLength: cleaned.ciphertext.length,
+      messageId: cleaned.aad.messageId,
     });
 
     return cleaned;
   } catch (error) {
-    console.error('🧹 Failed to clean encrypted message:', error);
+    console.error("🧹 Failed to clean encrypted message:", error);
     return null;
   }
 }
@@ -384,14 +740,10 @@ export function cleanEncryptedMessage(data: any): EncryptedMessage | null {
  */
 export function isValidEncryptedFile(data: any): data is EncryptedFile {
   return (
-    typeof data === 'object' &&
-    data !== null &&
-    typeof data.encryptedData === 'string' &&
-    typeof data.encryptedKey === 'string' &&
-    typeof data.iv === 'string' &&
-    typeof data.fileName === 'string' &&
-    typeof data.fileType === 'string' &&
-    typeof data.fileSize === 'number'
+    isValidEncryptedMessage(data) &&
+    typeof (data as any).fileName === "string" &&
+    typeof (data as any).fileType === "string" &&
+    typeof (data as any).fileSize === "number"
   );
 }
 
@@ -402,7 +754,7 @@ export function fileToArrayBuffer(file: File): Promise<ArrayBuffer> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = () => resolve(reader.result as ArrayBuffer);
-    reader.onerror = () => reject(new Error('Failed to read file'));
+    reader.onerror = () => reject(new Error("Failed to read file"));
     reader.readAsArrayBuffer(file);
   });
 }
@@ -0,0 +1,364 @@
+import { describe, it, expect } from "vitest";
+import { generateKeyPair, generateSigningKeyPair } from "./crypto";
+import {
+  encryptForGroup,
+  decryptFromGroup,
+  generateGroupKeyPair,
+  createGroupKeyDistribution,
+  openGroupKeyDistribution,
+  addGroupKeyEpoch,
+  GroupKeyPair,
+  GroupKeyRing,
+  GroupMemberKey,
+  trustedSigningKey,
+} from "./groupCrypto";
+import { generatePreKeys } from "./x3dh";
+
+async function createMember(userId: string) {
+  const identity = await generateKeyPair();
+  const signing = await generateSigningKeyPair();
+  const memberKey: GroupMemberKey = {
+    userId,
+    publicKey: identity.publicKey,
+    signingKey: signing.publicKey,
+    joinedAt: new Date(0).toISOString(),
+    keyVersion: 1,
+  };
+  return { userId, identity, signing, memberKey };
+}
+
+type Member = Awaited<ReturnType<typeof createMember>>;
+
+// The admin starts an epoch and every member on its roster opens their copy
+async function startEpoch(
+  admin: Member,
+  members: Member[],
+  keyRings: Map<string, GroupKeyRing | null>,
+  keyVersion = 1,
+  encryptionLevel: "standard" | "enhanced" = "standard",
+): Promise<GroupKeyPair> {
+  const groupKey = await generateGroupKeyPair(
+    "group-1",
+    members.map((member) => member.userId),
+    keyVersion,
+    encryptionLevel,
+  );
+  const distribution = await createGroupKeyDistribution(
+    groupKey,
+    members.map((member) => member.memberKey),
+    admin.userId,
+    admin.signing.privateKey,
+  );
+
+  for (const member of members) {
+    const opened = await openGroupKeyDistribution(
+      distribution,
+      member.identity.privateKey,
+      member.userId,
+      admin.signing.publicKey,
+    );
+    keyRings.set(
+      member.userId,
+      addGroupKeyEpoch(keyRings.get(member.userId) ?? null, opened),
+    );
+  }
+  return groupKey;
+}
+
+describe("encryptForGroup", () => {
+  it("should let every member decrypt and verify the sender", async () => {
+    const alice = await createMember("alice");
+    const bob = await createMember("bob");
+    const carol = await createMember("carol");
+    const keyRings = new Map<string, GroupKeyRing | null>();
+    const groupKey = await startEpoch(alice, [alice, bob, carol], keyRings);
+
+    const encrypted = await encryptForGroup(
+      "hello group",
+      groupKey,
+      ["carol", "bob", "alice"],
+      "alice",
+      alice.signing.privateKey,
+    );
+
+    for (const member of [alice, bob, carol]) {
+      expect(
+        await decryptFromGroup(
+          encrypted,
+          keyRings.get(member.userId)!,
+          alice.signing.publicKey,
+        ),
+      ).toBe("hello group");
+    }
+  });
+
+  it("should not hand the epoch key to anyone off the roster", async () => {
+    const alice = await createMember("alice");
+    const bob = await createMember("bob");
+    const outsider = await createMember("outsider");
+    const groupKey = await generateGroupKeyPair("group-1", ["alice", "bob"]);
+    const distribution = await createGroupKeyDistribution(
+      groupKey,
+      [alice.memberKey, bob.memberKey],
+      "alice",
+      alice.signing.privateKey,
+    );
+
+    await expect(
+      openGroupKeyDistribution(
+        distribution,
+        outsider.identity.privateKey,
+        "outsider",
+        alice.signing.publicKey,
+      ),
+    ).rejects.toThrow(/member/);
+    // Using bob's slot without bob's identity key fails too
+    await expect(
+      openGroupKeyDistribution(
+        distribution,
+        outsider.identity.privateKey,
+        "bob",
+        alice.signing.publicKey,
+      ),
+    ).rejects.toThrow();
+  });
+
+  it("should reject unsigned and wrongly signed messages", async () => {
+    const alice = await createMember("alice");
+    const bob = await createMember("bob");
+    const mallory = await createMember("mallory");
+    const keyRings = new Map<string, GroupKeyRing | null>();
+    const groupKey = await startEpoch(alice, [alice, bob], keyRings);
+    const encrypted = await encryptForGroup(
+      "from alice",
+      groupKey,
+      ["alice", "bob"],
+      "alice",
+      alice.signing.privateKey,
+    );
+
+    const { signature: _signature, ...unsigned } = encrypted;
+    await expect(
+      decryptFromGroup(
+        unsigned as any,
+        keyRings.get("bob")!,
+        alice.signing.publicKey,
+      ),
+    ).rejects.toThrow();
+
+    // Mallory re-signs a message that claims to come from alice
+    const forged = await encryptForGroup(
+      "from alice, honest",
+      groupKey,
+      ["alice", "bob"],
+      "alice",
+      mallory.signing.privateKey,
+    );
+    await expect(
+      decryptFromGroup(forged, keyRings.get("bob")!, alice.signing.publicKey),
+    ).rejects.toThrow(/signature/);
+  });
+
+  it("should keep the sender's message ID and authenticate what it replies to", async () => {
+    const alice = await createMember("alice");
+    const bob = await createMember("bob");
+    const keyRings = new Map<string, GroupKeyRing | null>();
+    const groupKey = await startEpoch(alice, [alice, bob], keyRings);
+    const encrypted = await encryptForGroup(
+      "agreed",
+      groupKey,
+      ["alice", "bob"],
+      "alice",
+      alice.signing.privateKey,
+      {
+        messageId: "alice-1",
+        timestamp: "2025-01-01T12:00:00.000Z",
+        replyTo: "bob-1",
+      },
+    );
+
+    expect(encrypted).toMatchObject({
+      messageId: "alice-1",
+      timestamp: "2025-01-01T12:00:00.000Z",
+      replyTo: "bob-1",
+    });
+    expect(
+      await decryptFromGroup(
+        encrypted,
+        keyRings.get("bob")!,
+        alice.signing.publicKey,
+      ),
+    ).toBe("agreed");
+
+    // Pointing the reply somewhere else breaks the signature
+    await expect(
+      decryptFromGroup(
+        { ...encrypted, replyTo: "bob-2" },
+        keyRings.get("bob")!,
+        alice.signing.publicKey,
+      ),
+    ).rejects.toThrow(/signature/);
+  });
+
+  it("should reject tampered content", async () => {
+    const alice = await createMember("alice");
+    const bob = await createMember("bob");
+    const keyRings = new Map<string, GroupKeyRing | null>();
+    const groupKey = await startEpoch(alice, [alice, bob], keyRings);
+    const encrypted = await encryptForGroup(
+      "original",
+      groupKey,
+      ["alice", "bob"],
+      "alice",
+      alice.signing.privateKey,
+    );
+
+    await expect(
+      decryptFromGroup(
+        { ...encrypted, timestamp: new Date(0).toISOString() },
+        keyRings.get("bob")!,
+        alice.signing.publicKey,
+      ),
+    ).rejects.toThrow();
+  });
+});
+
+describe("group key epochs", () => {
+  it("should refuse to encrypt to a stale roster", async () => {
+    const alice = await createMember("alice");
+    const bob = await createMember("bob");
+    const carol = await createMember("carol");
+    const groupKey = await startEpoch(alice, [alice, bob, carol], new Map());
+
+    // Carol was removed but the epoch hasn't been rotated yet
+    await expect(
+      encryptForGroup(
+        "carol shouldn't read this",
+        groupKey,
+        ["alice", "bob"],
+        "alice",
+        alice.signing.privateKey,
+      ),
+    ).rejects.toThrow(/rotate/);
+  });
+
+  it("should lock a removed member out of the next epoch but keep history readable", async () => {
+    const alice = await createMember("alice");
+    const bob = await createMember("bob");
+    const carol = await createMember("carol");
+    const keyRings = new Map<string, GroupKeyRing | null>();
+
+    const first = await startEpoch(alice, [alice, bob, carol], keyRings);
+    const before = await encryptForGroup(
+      "before",
+      first,
+      ["alice", "bob", "carol"],
+      "bob",
+      bob.signing.privateKey,
+    );
+
+    const second = await startEpoch(alice, [alice, bob], keyRings, 2);
+    const after = await encryptForGroup(
+      "after",
+      second,
+      ["alice", "bob"],
+      "alice",
+      alice.signing.privateKey,
+    );
+    expect(after.keyVersion).toBe(2);
+
+    const bobRing = keyRings.get("bob")!;
+    expect(bobRing.currentVersion).toBe(2);
+    expect(await decryptFromGroup(before, bobRing, bob.signing.publicKey)).toBe(
+      "before",
+    );
+    expect(
+      await decryptFromGroup(after, bobRing, alice.signing.publicKey),
+    ).toBe("after");
+
+    // Carol keeps epoch 1 but never received epoch 2
+    const carolRing = keyRings.get("carol")!;
+    expect(carolRing.currentVersion).toBe(1);
+    await expect(
+      decryptFromGroup(after, carolRing, alice.signing.publicKey),
+    ).rejects.toThrow(/epoch/);
+
+    // ...and can't post into the new epoch by relabelling her old key
+    const fromCarol = await encryptForGroup(
+      "still here",
+      { ...first, keyVersion: 2 },
+      ["alice", "bob", "carol"],
+      "carol",
+      carol.signing.privateKey,
+    );
+    await expect(
+      decryptFromGroup(fromCarol, bobRing, carol.signing.publicKey),
+    ).rejects.toThrow(/not a member/);
+  });
+
+  it("should rotate enhanced groups with RSA-OAEP epoch keys", async () => {
+    const alice = await createMember("alice");
+    const bob = await createMember("bob");
+    const keyRings = new Map<string, GroupKeyRing | null>();
+    const groupKey = await startEpoch(
+      alice,
+      [alice, bob],
+      keyRings,
+      1,
+      "enhanced",
+    );
+    expect(groupKey.algorithm).toBe("RSA-OAEP-4096");
+
+    const encrypted = await encryptForGroup(
+      "enhanced",
+      groupKey,
+      ["alice", "bob"],
+      "alice",
+      alice.signing.privateKey,
+    );
+    expect(encrypted.ephemeralKey).toBeUndefined();
+    expect(
+      await decryptFromGroup(
+        encrypted,
+        keyRings.get("bob")!,
+        alice.signing.publicKey,
+      ),
+    ).toBe("enhanced");
+  }, 60000);
+});
+
+describe("trustedSigningKey", () => {
+  it("should only take a signing key the member's identity key signed", async () => {
+    const identity = await generateKeyPair();
+    const { upload } = await generatePreKeys(identity);
+    const keys = {
+      identityKey: upload.identityKey,
+      signingKey: upload.signingKey,
+      identitySignature: upload.identitySignature,
+    };
+    const substituted = (await generateSigningKeyPair()).publicKey;
+
+    expect(await trustedSigningKey(keys)).toBe(keys.signingKey);
+    expect(await trustedSigningKey(keys, identity.publicKey)).toBe(
+      keys.signingKey,
+    );
+    expect(
+      await trustedSigningKey({ ...keys, signingKey: substituted }),
+    ).toBeNull();
+    expect(await trustedSigningKey(undefined)).toBeNull();
+  });
+
+  it("should refuse keys for an identity other than the verified one", async () => {
+    const verified = await generateKeyPair();
+    // A whole new identity, consistently signed, that the server swapped in
+    const { upload } = await generatePreKeys(await generateKeyPair());
+    const keys = {
+      identityKey: upload.identityKey,
+      signingKey: upload.signingKey,
+      identitySignature: upload.identitySignature,
+    };
+
+    expect(await trustedSigningKey(keys)).toBe(keys.signingKey);
+    expect(await trustedSigningKey(keys, verified.publicKey)).toBeNull();
+  });
+});
@@ -1,52 +1,92 @@
-import CryptoJS from 'crypto-js';
-import { 
-  KeyPair, 
-  EncryptedMessage, 
-  EncryptedFile, 
+import CryptoJS from "crypto-js";
+import {
+  KeyPair,
   generateKeyPair,
-  encryptMessage,
-  decryptMessage,
-  encryptFile,
-  decryptFile
-} from './crypto';
+  computeSharedSecret,
+  signData,
+  verifySignature,
+  bytesToBase64,
+  base64ToBytes,
+} from "./crypto";
+import { verifySigningKey } from "./x3dh";
+import type { InviteCode, MemberKeys } from "@shared/api";
+
+/**
+ * Wire format version for group messages. Groups hold one key pair per epoch
+ * and start a new epoch whenever a member is removed or leaves. The epoch's
+ * private key is wrapped for each member with ECDH (P-256) against their
+ * identity key; each message encrypts a fresh AES-256-GCM content key to the
+ * epoch's public key and is signed by the sender's ECDSA signing key.
+ * Version 2 wrapped every message for every member and had no epochs, and
+ * version 1 used CryptoJS with the public key as a passphrase. Both are rejected.
+ */
+export const GROUP_PROTOCOL_VERSION = 3;
+const GROUP_KEY_WRAP_INFO = "builder-pixel-works/group-key-wrap/v3";
+const GROUP_KEY_STORAGE_PREFIX = "groupKeys.";
+const RSA_OAEP_PARAMS = { name: "RSA-OAEP", hash: "SHA-512" };
+
+export type GroupKeyAlgorithm = "ECDH-P256" | "RSA-OAEP-4096";
 
 export interface GroupKeyPair extends KeyPair {
+  groupId: string;
+  keyVersion: number; // Epoch, bumped every time the roster shrinks
+  createdAt: string;
+  algorithm: GroupKeyAlgorithm; // RSA-OAEP for 'enhanced' groups
+  roster: string[]; // Sorted IDs of the members the epoch key was given to
+}
+
+// Every epoch this device has held for a group. Past epochs are kept so
+// history stays readable; only the current one is used to send.
+export interface GroupKeyRing {
+  groupId: string;
+  currentVersion: number;
+  epochs: { [keyVersion: number]: GroupKeyPair };
+}
+
+export interface GroupKeyDistribution {
+  v: number; // See GROUP_PROTOCOL_VERSION
   groupId: string;
   keyVersion: number;
+  algorithm: GroupKeyAlgorithm;
+  publicKey: string; // The epoch's public key
+  roster: string[];
+  createdBy: string;
   createdAt: string;
+  ephemeralKey: string; // Distributor's one-off ECDH key the wrapping keys were derived from
+  encryptedKeys: { [userId: string]: string }; // Epoch private key wrapped for each member (nonce || ciphertext)
+  signature: string; // Distributor's ECDSA signature over every other field
 }
 
 export interface GroupEncryptedMessage {
+  v: number; // See GROUP_PROTOCOL_VERSION
   groupId: string;
   senderId: string;
-  encryptedContent: string;
-  encryptedKeys: { [userId: string]: string }; // AES key encrypted for each member
-  iv: string;
-  keyVersion: number;
+  encryptedContent: string; // AES-256-GCM ciphertext with appended tag, Base64
+  encryptedKey: string; // Content key encrypted to the epoch's public key
+  ephemeralKey?: string; // Sender's one-off ECDH key, for ECDH epochs only
+  iv: string; // 96-bit GCM nonce for the content
+  keyVersion: number; // Epoch the content key was encrypted to
   timestamp: string;
   messageId: string;
+  replyTo?: string; // The message this one answers
+  signature: string; // Sender's ECDSA signature over every other field
 }
 
+// What the sender may choose for a message; the rest is filled in
+export type GroupMessageHeader = Partial<
+  Pick<GroupEncryptedMessage, "messageId" | "timestamp" | "replyTo">
+>;
+
 export interface GroupMemberKey {
   userId: string;
-  publicKey: string;
+  publicKey: string; // ECDH identity key, used to wrap epoch keys
+  signingKey: string; // ECDSA key that verifies the member's messages
   joinedAt: string;
   keyVersion: number;
 }
 
-export interface InviteCode {
-  code: string;
-  groupId?: string;
-  createdBy: string;
-  expiresAt: string;
-  maxUses: number;
-  currentUses: number;
-  type: 'friend' | 'group';
-  metadata?: {
-    groupName?: string;
-    encryptionLevel?: 'standard' | 'enhanced';
-  };
-}
+// Invite codes are issued by the server (POST /api/invites)
+export type { InviteCode };
 
 export interface SecureSession {
   sessionId: string;
@@ -60,191 +100,636 @@ export interface SecureSession {
   isActive: boolean;
 }
 
+function normalizeRoster(memberIds: string[]): string[] {
+  return Array.from(new Set(memberIds)).sort();
+}
+
+/**
+ * Whether an epoch was distributed to exactly these members
+ */
+export function isCurrentRoster(
+  groupKey: GroupKeyPair,
+  memberIds: string[],
+): boolean {
+  const roster = normalizeRoster(memberIds);
+  return (
+    roster.length === groupKey.roster.length &&
+    roster.every((userId, index) => userId === groupKey.roster[index])
+  );
+}
+
 /**
- * Generate a group-specific key pair
+ * The signing key to check a member's messages and key distributions
+ * against. The server publishes it, so it's only taken if the member's
+ * identity key signed it, and once their safety number has been verified,
+ * only alongside the identity key that was verified. Null otherwise.
  */
-export async function generateGroupKeyPair(groupId: string): Promise<GroupKeyPair> {
-  const keyPair = await generateKeyPair();
-  
+export async function trustedSigningKey(
+  keys: MemberKeys | undefined,
+  verifiedIdentityKey?: string,
+): Promise<string | null> {
+  if (
+    !keys ||
+    (verifiedIdentityKey && keys.identityKey !== verifiedIdentityKey)
+  ) {
+    return null;
+  }
+  return (await verifySigningKey(keys)) ? keys.signingKey : null;
+}
+
+/**
+ * Generate the key pair for one group epoch. 'enhanced' groups use RSA-OAEP,
+ * everything else uses ECDH.
+ */
+export async function generateGroupKeyPair(
+  groupId: string,
+  memberIds: string[],
+  keyVersion: number = 1,
+  encryptionLevel: "standard" | "enhanced" = "standard",
+): Promise<GroupKeyPair> {
+  const enhanced = encryptionLevel === "enhanced";
+  const keyPair = enhanced
+    ? await generateEnhancedKeyPair()
+    : await generateKeyPair();
+
   return {
     ...keyPair,
     groupId,
-    keyVersion: 1,
-    createdAt: new Date().toISOString()
+    keyVersion,
+    createdAt: new Date().toISOString(),
+    algorithm: enhanced ? "RSA-OAEP-4096" : "ECDH-P256",
+    roster: normalizeRoster(memberIds),
   };
 }
 
 /**
- * Generate an enhanced key pair for group admins with additional security
+ * Generate an enhanced key pair for group admins with additional security.
+ * Throws rather than falling back to an ECDH key, which the epoch would then
+ * label with the wrong algorithm.
  */
 export async function generateEnhancedKeyPair(): Promise<KeyPair> {
-  try {
-    // Use stronger encryption for enhanced security
-    const keyPair = await window.crypto.subtle.generateKey(
-      {
-        name: "RSA-OAEP",
-        modulusLength: 4096, // Stronger than standard 2048
-        publicExponent: new Uint8Array([1, 0, 1]),
-        hash: "SHA-512", // Stronger hash
-      },
-      true,
-      ["encrypt", "decrypt"]
+  // Use stronger encryption for enhanced security
+  const keyPair = await crypto.subtle.generateKey(
+    {
+      ...RSA_OAEP_PARAMS,
+      modulusLength: 4096, // Stronger than standard 2048
+      publicExponent: new Uint8Array([1, 0, 1]),
+    },
+    true,
+    ["encrypt", "decrypt"],
+  );
+
+  const publicKey = await crypto.subtle.exportKey("spki", keyPair.publicKey);
+  const privateKey = await crypto.subtle.exportKey("pkcs8", keyPair.privateKey);
+
+  return {
+    publicKey: bytesToBase64(publicKey),
+    privateKey: bytesToBase64(privateKey),
+  };
+}
+
+/**
+ * Bytes that bind a wrapped key to where it may be used, so it can't be
+ * replayed into another group, epoch, message or member
+ */
+function wrapContext(...context: string[]): Uint8Array {
+  return new TextEncoder().encode(
+    JSON.stringify([GROUP_KEY_WRAP_INFO, ...context]),
+  );
+}
+
+/**
+ * Derive the AES-GCM key that wraps a key between two ECDH key pairs
+ */
+async function deriveWrappingKey(
+  privateKey: string,
+  publicKey: string,
+  context: Uint8Array,
+): Promise<CryptoKey> {
+  const sharedSecret = await computeSharedSecret(privateKey, publicKey);
+  const hkdfKey = await crypto.subtle.importKey(
+    "raw",
+    sharedSecret,
+    "HKDF",
+    false,
+    ["deriveKey"],
+  );
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(32), info: context },
+    hkdfKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+async function wrapWithEcdh(
+  privateKey: string,
+  publicKey: string,
+  context: Uint8Array,
+  keyBytes: Uint8Array,
+): Promise<string> {
+  const wrappingKey = await deriveWrappingKey(privateKey, publicKey, context);
+  const nonce = crypto.getRandomValues(new Uint8Array(12));
+  const wrapped = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv: nonce },
+      wrappingKey,
+      keyBytes,
+    ),
+  );
+
+  const combined = new Uint8Array(nonce.length + wrapped.length);
+  combined.set(nonce);
+  combined.set(wrapped, nonce.length);
+  return bytesToBase64(combined);
+}
+
+async function unwrapWithEcdh(
+  privateKey: string,
+  publicKey: string,
+  context: Uint8Array,
+  wrappedKey: string,
+): Promise<Uint8Array> {
+  const wrapped = base64ToBytes(wrappedKey);
+  const wrappingKey = await deriveWrappingKey(privateKey, publicKey, context);
+  return new Uint8Array(
+    await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: wrapped.slice(0, 12) },
+      wrappingKey,
+      wrapped.slice(12),
+    ),
+  );
+}
+
+/**
+ * Associated data for the content ciphertext
+ */
+function groupContentAad(
+  message: Pick<
+    GroupEncryptedMessage,
+    | "v"
+    | "groupId"
+    | "senderId"
+    | "messageId"
+    | "timestamp"
+    | "keyVersion"
+    | "replyTo"
+  >,
+): Uint8Array {
+  return new TextEncoder().encode(
+    JSON.stringify([
+      message.v,
+      message.groupId,
+      message.senderId,
+      message.messageId,
+      message.timestamp,
+      message.keyVersion,
+      message.replyTo ?? null,
+    ]),
+  );
+}
+
+/**
+ * Canonical serialization of everything the sender signs
+ */
+function groupSignaturePayload(
+  message: Omit<GroupEncryptedMessage, "signature">,
+): string {
+  return JSON.stringify([
+    message.v,
+    message.groupId,
+    message.senderId,
+    message.messageId,
+    message.timestamp,
+    message.keyVersion,
+    message.iv,
+    message.encryptedContent,
+    message.encryptedKey,
+    message.ephemeralKey ?? null,
+    message.replyTo ?? null,
+  ]);
+}
+
+/**
+ * Canonical serialization of everything the distributor signs
+ */
+function distributionSignaturePayload(
+  distribution: Omit<GroupKeyDistribution, "signature">,
+): string {
+  const wrappedKeys = Object.keys(distribution.encryptedKeys)
+    .sort()
+    .map((userId) => [userId, distribution.encryptedKeys[userId]]);
+
+  return JSON.stringify([
+    distribution.v,
+    distribution.groupId,
+    distribution.keyVersion,
+    distribution.algorithm,
+    distribution.publicKey,
+    distribution.roster,
+    distribution.createdBy,
+    distribution.createdAt,
+    distribution.ephemeralKey,
+    wrappedKeys,
+  ]);
+}
+
+/**
+ * Wrap an epoch's private key for every member on its roster and sign the
+ * result. Fails if a roster member has no identity key, since a member left
+ * without the key couldn't read the group.
+ */
+export async function createGroupKeyDistribution(
+  groupKey: GroupKeyPair,
+  memberKeys: Pick<GroupMemberKey, "userId" | "publicKey">[],
+  senderId: string,
+  signingPrivateKey: string,
+): Promise<GroupKeyDistribution> {
+  const ephemeral = await generateKeyPair();
+  const privateKeyBytes = new TextEncoder().encode(groupKey.privateKey);
+  const encryptedKeys: { [userId: string]: string } = {};
+
+  for (const userId of groupKey.roster) {
+    const member = memberKeys.find((key) => key.userId === userId);
+    if (!member?.publicKey) {
+      throw new Error(`No identity key for group member ${userId}`);
+    }
+    encryptedKeys[userId] = await wrapWithEcdh(
+      ephemeral.privateKey,
+      member.publicKey,
+      wrapContext(
+        "epoch",
+        groupKey.groupId,
+        String(groupKey.keyVersion),
+        userId,
+      ),
+      privateKeyBytes,
     );
+  }
 
-    const publicKey = await window.crypto.subtle.exportKey("spki", keyPair.publicKey);
-    const privateKey = await window.crypto.subtle.exportKey("pkcs8", keyPair.privateKey);
+  const unsigned: Omit<GroupKeyDistribution, "signature"> = {
+    v: GROUP_PROTOCOL_VERSION,
+    groupId: groupKey.groupId,
+    keyVersion: groupKey.keyVersion,
+    algorithm: groupKey.algorithm,
+    publicKey: groupKey.publicKey,
+    roster: groupKey.roster,
+    createdBy: senderId,
+    createdAt: groupKey.createdAt,
+    ephemeralKey: ephemeral.publicKey,
+    encryptedKeys,
+  };
 
-    return {
-      publicKey: btoa(String.fromCharCode(...new Uint8Array(publicKey))),
-      privateKey: btoa(String.fromCharCode(...new Uint8Array(privateKey)))
-    };
-  } catch (error) {
-    console.error('Enhanced key generation failed, using standard:', error);
-    return generateKeyPair();
+  return {
+    ...unsigned,
+    signature: await signData(
+      signingPrivateKey,
+      distributionSignaturePayload(unsigned),
+    ),
+  };
+}
+
+/**
+ * Verify a key distribution against the distributor's signing key (see
+ * trustedSigningKey) and unwrap the epoch key for this member
+ */
+export async function openGroupKeyDistribution(
+  distribution: GroupKeyDistribution,
+  privateKey: string,
+  userId: string,
+  distributorSigningKey: string,
+): Promise<GroupKeyPair> {
+  if (!isValidGroupKeyDistribution(distribution)) {
+    throw new Error("Unsupported or malformed group key distribution");
+  }
+
+  const { signature, ...unsigned } = distribution;
+  if (
+    !(await verifySignature(
+      distributorSigningKey,
+      distributionSignaturePayload(unsigned),
+      signature,
+    ))
+  ) {
+    throw new Error("Invalid distributor signature");
+  }
+
+  const wrappedKey = distribution.encryptedKeys[userId];
+  if (!distribution.roster.includes(userId) || !wrappedKey) {
+    throw new Error("Not a member of this group epoch");
   }
+
+  const privateKeyBytes = await unwrapWithEcdh(
+    privateKey,
+    distribution.ephemeralKey,
+    wrapContext(
+      "epoch",
+      distribution.groupId,
+      String(distribution.keyVersion),
+      userId,
+    ),
+    wrappedKey,
+  );
+
+  return {
+    publicKey: distribution.publicKey,
+    privateKey: new TextDecoder("utf-8", { fatal: true }).decode(
+      privateKeyBytes,
+    ),
+    groupId: distribution.groupId,
+    keyVersion: distribution.keyVersion,
+    createdAt: distribution.createdAt,
+    algorithm: distribution.algorithm,
+    roster: distribution.roster,
+  };
 }
 
 /**
- * Encrypt a message for multiple recipients (group chat)
+ * Encrypt a message for a group. A fresh content key encrypts the message
+ * once and is encrypted to the current epoch's public key; the result is
+ * signed with the sender's signing key. Refuses to send if the group's
+ * members no longer match the epoch's roster, so a removed member's copy of
+ * the key is never used again. The header lets the sender keep its own
+ * message ID, so edits, reactions and replies can refer to the message.
  */
-export function encryptForGroup(
+export async function encryptForGroup(
   message: string,
-  memberKeys: GroupMemberKey[],
+  groupKey: GroupKeyPair,
+  memberIds: string[],
   senderId: string,
-  groupId: string
-): GroupEncryptedMessage {
+  signingPrivateKey: string,
+  {
+    messageId = generateMessageId(),
+    timestamp = new Date().toISOString(),
+    replyTo,
+  }: GroupMessageHeader = {},
+): Promise<GroupEncryptedMessage> {
+  if (!isCurrentRoster(groupKey, memberIds)) {
+    throw new Error(
+      "Group members changed since this key epoch; rotate the group key first",
+    );
+  }
+  if (!groupKey.roster.includes(senderId)) {
+    throw new Error("Sender is not a member of this group epoch");
+  }
+
   try {
-    // Generate random AES key and IV for this message
-    const aesKey = CryptoJS.lib.WordArray.random(32); // 256 bits
-    const iv = CryptoJS.lib.WordArray.random(16); // 128 bits
-    
-    // Encrypt message with AES-256
-    const encryptedContent = CryptoJS.AES.encrypt(message, aesKey, {
-      iv: iv,
-      mode: CryptoJS.mode.CBC,
-      padding: CryptoJS.pad.Pkcs7
-    }).toString();
-    
-    // Encrypt AES key for each group member
-    const encryptedKeys: { [userId: string]: string } = {};
-    for (const member of memberKeys) {
-      try {
-        const encryptedKey = CryptoJS.AES.encrypt(
-          aesKey.toString(CryptoJS.enc.Base64),
-          member.publicKey
-        ).toString();
-        encryptedKeys[member.userId] = encryptedKey;
-      } catch (error) {
-        console.error(`Failed to encrypt for user ${member.userId}:`, error);
-        // Continue with other members
-      }
-    }
-    
-    return {
+    const { groupId, keyVersion } = groupKey;
+
+    // Generate random content key and nonce for this message
+    const contentKeyBytes = crypto.getRandomValues(new Uint8Array(32)); // 256 bits
+    const iv = crypto.getRandomValues(new Uint8Array(12)); // 96 bits
+    const contentKey = await crypto.subtle.importKey(
+      "raw",
+      contentKeyBytes,
+      "AES-GCM",
+      false,
+      ["encrypt"],
+    );
+
+    const header = {
+      v: GROUP_PROTOCOL_VERSION,
       groupId,
       senderId,
-      encryptedContent,
-      encryptedKeys,
-      iv: iv.toString(CryptoJS.enc.Base64),
-      keyVersion: 1,
-      timestamp: new Date().toISOString(),
-      messageId: generateMessageId()
+      messageId,
+      timestamp,
+      keyVersion,
+      ...(replyTo && { replyTo }),
+    };
+    const encryptedContent = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: groupContentAad(header) },
+      contentKey,
+      new TextEncoder().encode(message),
+    );
+
+    // Encrypt the content key to the epoch
+    const context = wrapContext(
+      "message",
+      groupId,
+      String(keyVersion),
+      messageId,
+    );
+    let encryptedKey: string;
+    let ephemeralKey: string | undefined;
+    if (groupKey.algorithm === "RSA-OAEP-4096") {
+      const publicKey = await crypto.subtle.importKey(
+        "spki",
+        base64ToBytes(groupKey.publicKey),
+        RSA_OAEP_PARAMS,
+        false,
+        ["encrypt"],
+      );
+      encryptedKey = bytesToBase64(
+        await crypto.subtle.encrypt(
+          { name: "RSA-OAEP", label: context },
+          publicKey,
+          contentKeyBytes,
+        ),
+      );
+    } else {
+      const ephemeral = await generateKeyPair();
+      encryptedKey = await wrapWithEcdh(
+        ephemeral.privateKey,
+        groupKey.publicKey,
+        context,
+        contentKeyBytes,
+      );
+      ephemeralKey = ephemeral.publicKey;
+    }
+
+    const unsigned: Omit<GroupEncryptedMessage, "signature"> = {
+      ...header,
+      encryptedContent: bytesToBase64(encryptedContent),
+      encryptedKey,
+      ...(ephemeralKey ? { ephemeralKey } : {}),
+      iv: bytesToBase64(iv),
+    };
+
+    return {
+      ...unsigned,
+      signature: await signData(
+        signingPrivateKey,
+        groupSignaturePayload(unsigned),
+      ),
     };
   } catch (error) {
-    console.error('Group encryption failed:', error);
-    throw new Error('Failed to encrypt message for group');
+    console.error("Group encryption failed:", error);
+    throw new Error("Failed to encrypt message for group");
   }
 }
 
 /**
- * Decrypt a group message
+ * Check a group message's signature against the sender's signing key
  */
-export function decryptFromGroup(
+export async function verifyGroupMessage(
   encryptedMessage: GroupEncryptedMessage,
-  privateKey: string,
-  userId: string
-): string {
+  senderSigningKey: string,
+): Promise<boolean> {
+  if (
+    typeof encryptedMessage.signature !== "string" ||
+    !encryptedMessage.signature
+  ) {
+    return false;
+  }
+
+  const { signature, ...unsigned } = encryptedMessage;
+  return verifySignature(
+    senderSigningKey,
+    groupSignaturePayload(unsigned),
+    signature,
+  );
+}
+
+/**
+ * Decrypt a group message with the key of the epoch it was sent in. The
+ * signature is checked against the sender's signing key (see
+ * trustedSigningKey, never one named by the message) before anything is
+ * decrypted, and the sender must have been on that epoch's roster.
+ */
+export async function decryptFromGroup(
+  encryptedMessage: GroupEncryptedMessage,
+  keyRing: GroupKeyRing,
+  senderSigningKey: string,
+): Promise<string> {
   try {
-    // Get the encrypted AES key for this user
-    const encryptedAesKey = encryptedMessage.encryptedKeys[userId];
-    if (!encryptedAesKey) {
-      throw new Error('No encryption key found for this user');
+    if (
+      !isValidGroupEncryptedMessage(encryptedMessage) ||
+      encryptedMessage.groupId !== keyRing.groupId
+    ) {
+      throw new Error("Unsupported or malformed group message");
+    }
+
+    if (!(await verifyGroupMessage(encryptedMessage, senderSigningKey))) {
+      throw new Error("Invalid sender signature");
     }
-    
-    // Decrypt the AES key
-    const decryptedKeyBytes = CryptoJS.AES.decrypt(encryptedAesKey, privateKey);
-    const aesKeyString = decryptedKeyBytes.toString(CryptoJS.enc.Utf8);
-    const aesKey = CryptoJS.enc.Base64.parse(aesKeyString);
-    
-    // Parse IV
-    const iv = CryptoJS.enc.Base64.parse(encryptedMessage.iv);
-    
+
+    const groupKey = keyRing.epochs[encryptedMessage.keyVersion];
+    if (!groupKey) {
+      throw new Error(`No key for group epoch ${encryptedMessage.keyVersion}`);
+    }
+    if (!groupKey.roster.includes(encryptedMessage.senderId)) {
+      throw new Error("Sender was not a member of this group epoch");
+    }
+
+    // Recover the content key
+    const context = wrapContext(
+      "message",
+      encryptedMessage.groupId,
+      String(encryptedMessage.keyVersion),
+      encryptedMessage.messageId,
+    );
+    let contentKeyBytes: ArrayBuffer | Uint8Array;
+    if (groupKey.algorithm === "RSA-OAEP-4096") {
+      const privateKey = await crypto.subtle.importKey(
+        "pkcs8",
+        base64ToBytes(groupKey.privateKey),
+        RSA_OAEP_PARAMS,
+        false,
+        ["decrypt"],
+      );
+      contentKeyBytes = await crypto.subtle.decrypt(
+        { name: "RSA-OAEP", label: context },
+        privateKey,
+        base64ToBytes(encryptedMessage.encryptedKey),
+      );
+    } else {
+      if (!encryptedMessage.ephemeralKey) {
+        throw new Error("Missing ephemeral key");
+      }
+      contentKeyBytes = await unwrapWithEcdh(
+        groupKey.privateKey,
+        encryptedMessage.ephemeralKey,
+        context,
+        encryptedMessage.encryptedKey,
+      );
+    }
+    const contentKey = await crypto.subtle.importKey(
+      "raw",
+      contentKeyBytes,
+      "AES-GCM",
+      false,
+      ["decrypt"],
+    );
+
     // Decrypt the message
-    const decryptedMessage = CryptoJS.AES.decrypt(
-      encryptedMessage.encryptedContent,
-      aesKey,
+    const decryptedMessage = await crypto.subtle.decrypt(
       {
-        iv: iv,
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      }
+        name: "AES-GCM",
+        iv: base64ToBytes(encryptedMessage.iv),
+        additionalData: groupContentAad(encryptedMessage),
+      },
+      contentKey,
+      base64ToBytes(encryptedMessage.encryptedContent),
     );
-    
-    return decryptedMessage.toString(CryptoJS.enc.Utf8);
+
+    return new TextDecoder("utf-8", { fatal: true }).decode(decryptedMessage);
   } catch (error) {
-    console.error('Group decryption failed:', error);
-    throw new Error('Failed to decrypt group message');
+    console.error("Group decryption failed:", error);
+    throw new Error(`Failed to decrypt group message: ${error.message}`);
   }
 }
 
 /**
- * Generate a secure invite code
+ * Add an epoch to a group's key ring. An epoch that arrives late doesn't
+ * replace a newer current one.
  */
-export function generateInviteCode(
-  type: 'friend' | 'group',
-  createdBy: string,
-  options: {
-    groupId?: string;
-    groupName?: string;
-    expiresInHours?: number;
-    maxUses?: number;
-    encryptionLevel?: 'standard' | 'enhanced';
-  } = {}
-): InviteCode {
-  const code = generateSecureCode(8);
-  const expiresAt = new Date();
-  expiresAt.setHours(expiresAt.getHours() + (options.expiresInHours || 24));
-  
+export function addGroupKeyEpoch(
+  keyRing: GroupKeyRing | null,
+  groupKey: GroupKeyPair,
+): GroupKeyRing {
   return {
-    code,
-    groupId: options.groupId,
-    createdBy,
-    expiresAt: expiresAt.toISOString(),
-    maxUses: options.maxUses || 10,
-    currentUses: 0,
-    type,
-    metadata: {
-      groupName: options.groupName,
-      encryptionLevel: options.encryptionLevel || 'standard'
-    }
+    groupId: groupKey.groupId,
+    currentVersion: Math.max(keyRing?.currentVersion ?? 0, groupKey.keyVersion),
+    epochs: { ...(keyRing?.epochs ?? {}), [groupKey.keyVersion]: groupKey },
   };
 }
 
+export function currentGroupKey(
+  keyRing: GroupKeyRing | null,
+): GroupKeyPair | null {
+  return keyRing?.epochs[keyRing.currentVersion] ?? null;
+}
+
+export function loadGroupKeyRing(groupId: string): GroupKeyRing | null {
+  const saved = localStorage.getItem(`${GROUP_KEY_STORAGE_PREFIX}${groupId}`);
+  if (!saved) return null;
+
+  try {
+    return JSON.parse(saved);
+  } catch (error) {
+    console.error("Failed to load group keys:", error);
+    localStorage.removeItem(`${GROUP_KEY_STORAGE_PREFIX}${groupId}`);
+    return null;
+  }
+}
+
+export function saveGroupKeyRing(keyRing: GroupKeyRing) {
+  localStorage.setItem(
+    `${GROUP_KEY_STORAGE_PREFIX}${keyRing.groupId}`,
+    JSON.stringify(keyRing),
+  );
+}
+
+export function deleteGroupKeyRing(groupId: string) {
+  localStorage.removeItem(`${GROUP_KEY_STORAGE_PREFIX}${groupId}`);
+}
+
 /**
  * Generate a secure random code
  */
 export function generateSecureCode(length: number = 8): string {
-  const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-  let result = '';
-  
+  const characters = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+  let result = "";
+
   // Use crypto.getRandomValues for secure randomness
   const randomValues = new Uint8Array(length);
   crypto.getRandomValues(randomValues);
-  
+
   for (let i = 0; i < length; i++) {
     result += characters[randomValues[i] % characters.length];
   }
-  
+
   return result;
 }
 
@@ -262,17 +747,17 @@ export function generateMessageId(): string {
  */
 export function createSecureSession(userId: string): SecureSession {
   const deviceId = generateDeviceId();
-  
+
   return {
     sessionId: generateSecureCode(16),
     userId,
     deviceId,
-    publicKey: '', // To be set when keys are generated
+    publicKey: "", // To be set when keys are generated
     createdAt: new Date().toISOString(),
     lastActive: new Date().toISOString(),
     ipAddress: undefined, // Server-side only
     userAgent: navigator.userAgent,
-    isActive: true
+    isActive: true,
   };
 }
 
@@ -280,13 +765,13 @@ export function createSecureSession(userId: string): SecureSession {
  * Generate a unique device ID
  */
 export function generateDeviceId(): string {
-  const stored = localStorage.getItem('secureChat_deviceId');
+  const stored = localStorage.getItem("secureChat_deviceId");
   if (stored) {
     return stored;
   }
-  
+
   const deviceId = generateSecureCode(12);
-  localStorage.setItem('secureChat_deviceId', deviceId);
+  localStorage.setItem("secureChat_deviceId", deviceId);
   return deviceId;
 }
 
@@ -321,13 +806,13 @@ export function isInviteCodeExhausted(inviteCode: InviteCode): boolean {
 export function generateQRCodeData(inviteCode: InviteCode): string {
   const baseUrl = window.location.origin;
   const inviteUrl = `${baseUrl}/invite/${inviteCode.code}`;
-  
+
   return JSON.stringify({
     url: inviteUrl,
     code: inviteCode.code,
     type: inviteCode.type,
-    app: 'SecureChat',
-    version: '1.0'
+    app: "SecureChat",
+    version: "1.0",
   });
 }
 
@@ -337,25 +822,25 @@ export function generateQRCodeData(inviteCode: InviteCode): string {
 export function encryptLocalData(data: any, userKey: string): string {
   try {
     const dataString = JSON.stringify(data);
-    const salt = CryptoJS.lib.WordArray.random(128/8);
+    const salt = CryptoJS.lib.WordArray.random(128 / 8);
     const key = CryptoJS.PBKDF2(userKey, salt, {
-      keySize: 256/32,
-      iterations: 1000
+      keySize: 256 / 32,
+      iterations: 1000,
     });
-    
-    const iv = CryptoJS.lib.WordArray.random(128/8);
+
+    const iv = CryptoJS.lib.WordArray.random(128 / 8);
     const encrypted = CryptoJS.AES.encrypt(dataString, key, {
       iv: iv,
       mode: CryptoJS.mode.CBC,
-      padding: CryptoJS.pad.Pkcs7
+      padding: CryptoJS.pad.Pkcs7,
     });
-    
+
     // Combine salt, iv, and encrypted data
     const combined = salt.concat(iv).concat(encrypted.ciphertext);
     return combined.toString(CryptoJS.enc.Base64);
   } catch (error) {
-    console.error('Local data encryption failed:', error);
-    throw new Error('Failed to encrypt local data');
+    console.error("Local data encryption failed:", error);
+    throw new Error("Failed to encrypt local data");
   }
 }
 
@@ -365,32 +850,28 @@ export function encryptLocalData(data: any, userKey: string): string {
 export function decryptLocalData(encryptedData: string, userKey: string): any {
   try {
     const combined = CryptoJS.enc.Base64.parse(encryptedData);
-    
+
     // Extract salt (16 bytes), iv (16 bytes), and ciphertext
     const salt = CryptoJS.lib.WordArray.create(combined.words.slice(0, 4));
     const iv = CryptoJS.lib.WordArray.create(combined.words.slice(4, 8));
     const ciphertext = CryptoJS.lib.WordArray.create(combined.words.slice(8));
-    
+
     const key = CryptoJS.PBKDF2(userKey, salt, {
-      keySize: 256/32,
-      iterations: 1000
+      keySize: 256 / 32,
+      iterations: 1000,
     });
-    
-    const decrypted = CryptoJS.AES.decrypt(
-      { ciphertext },
-      key,
-      {
-        iv: iv,
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      }
-    );
-    
+
+    const decrypted = CryptoJS.AES.decrypt({ ciphertext }, key, {
+      iv: iv,
+      mode: CryptoJS.mode.CBC,
+      padding: CryptoJS.pad.Pkcs7,
+    });
+
     const decryptedString = decrypted.toString(CryptoJS.enc.Utf8);
     return JSON.parse(decryptedString);
   } catch (error) {
-    console.error('Local data decryption failed:', error);
-    throw new Error('Failed to decrypt local data');
+    console.error("Local data decryption failed:", error);
+    throw new Error("Failed to decrypt local data");
   }
 }
 
@@ -399,66 +880,157 @@ export function decryptLocalData(encryptedData: string, userKey: string): any {
  */
 export function generateBackupPhrase(): string[] {
   const wordList = [
-    'abandon', 'ability', 'able', 'about', 'above', 'absent', 'absorb', 'abstract',
-    'absurd', 'abuse', 'access', 'accident', 'account', 'accuse', 'achieve', 'acid',
-    'acoustic', 'acquire', 'across', 'action', 'actor', 'actress', 'actual', 'adapt',
-    'add', 'addict', 'address', 'adjust', 'admit', 'adult', 'advance', 'advice',
-    'aerobic', 'affair', 'afford', 'afraid', 'again', 'agent', 'agree', 'ahead',
-    'aim', 'air', 'airport', 'aisle', 'alarm', 'album', 'alcohol', 'alert',
-    'alien', 'all', 'alley', 'allow', 'almost', 'alone', 'alpha', 'already',
-    'also', 'alter', 'always', 'amateur', 'amazing', 'among', 'amount', 'amused'
+    "abandon",
+    "ability",
+    "able",
+    "about",
+    "above",
+    "absent",
+    "absorb",
+    "abstract",
+    "absurd",
+    "abuse",
+    "access",
+    "accident",
+    "account",
+    "accuse",
+    "achieve",
+    "acid",
+    "acoustic",
+    "acquire",
+    "across",
+    "action",
+    "actor",
+    "actress",
+    "actual",
+    "adapt",
+    "add",
+    "addict",
+    "address",
+    "adjust",
+    "admit",
+    "adult",
+    "advance",
+    "advice",
+    "aerobic",
+    "affair",
+    "afford",
+    "afraid",
+    "again",
+    "agent",
+    "agree",
+    "ahead",
+    "aim",
+    "air",
+    "airport",
+    "aisle",
+    "alarm",
+    "album",
+    "alcohol",
+    "alert",
+    "alien",
+    "all",
+    "alley",
+    "allow",
+    "almost",
+    "alone",
+    "alpha",
+    "already",
+    "also",
+    "alter",
+    "always",
+    "amateur",
+    "amazing",
+    "among",
+    "amount",
+    "amused",
   ];
-  
+
   const phrase: string[] = [];
   const randomValues = new Uint8Array(12);
   crypto.getRandomValues(randomValues);
-  
+
   for (let i = 0; i < 12; i++) {
     const index = randomValues[i] % wordList.length;
     phrase.push(wordList[index]);
   }
-  
+
   return phrase;
 }
 
 /**
  * Validate if object is a valid group encrypted message
  */
-export function isValidGroupEncryptedMessage(data: any): data is GroupEncryptedMessage {
+export function isValidGroupEncryptedMessage(
+  data: any,
+): data is GroupEncryptedMessage {
   return (
-    typeof data === 'object' &&
+    typeof data === "object" &&
     data !== null &&
-    typeof data.groupId === 'string' &&
-    typeof data.senderId === 'string' &&
-    typeof data.encryptedContent === 'string' &&
-    typeof data.encryptedKeys === 'object' &&
-    typeof data.iv === 'string' &&
-    typeof data.keyVersion === 'number' &&
-    typeof data.timestamp === 'string' &&
-    typeof data.messageId === 'string'
+    data.v === GROUP_PROTOCOL_VERSION &&
+    typeof data.groupId === "string" &&
+    typeof data.senderId === "string" &&
+    typeof data.encryptedContent === "string" &&
+    typeof data.encryptedKey === "string" &&
+    (data.ephemeralKey === undefined ||
+      typeof data.ephemeralKey === "string") &&
+    typeof data.iv === "string" &&
+    typeof data.keyVersion === "number" &&
+    typeof data.timestamp === "string" &&
+    typeof data.messageId === "string" &&
+    (data.replyTo === undefined || typeof data.replyTo === "string") &&
+    typeof data.signature === "string"
+  );
+}
+
+/**
+ * Validate if object is a valid group key distribution
+ */
+export function isValidGroupKeyDistribution(
+  data: any,
+): data is GroupKeyDistribution {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    data.v === GROUP_PROTOCOL_VERSION &&
+    typeof data.groupId === "string" &&
+    typeof data.keyVersion === "number" &&
+    (data.algorithm === "ECDH-P256" || data.algorithm === "RSA-OAEP-4096") &&
+    typeof data.publicKey === "string" &&
+    Array.isArray(data.roster) &&
+    data.roster.every((userId: unknown) => typeof userId === "string") &&
+    typeof data.createdBy === "string" &&
+    typeof data.createdAt === "string" &&
+    typeof data.ephemeralKey === "string" &&
+    typeof data.encryptedKeys === "object" &&
+    data.encryptedKeys !== null &&
+    typeof data.signature === "string"
   );
 }
 
 /**
  * Calculate encryption strength score
  */
-export function calculateEncryptionStrength(keyLength: number, algorithm: string): number {
+export function calculateEncryptionStrength(
+  keyLength: number,
+  algorithm: string,
+): number {
   let score = 0;
-  
+
   // Key length scoring
   if (keyLength >= 4096) score += 40;
   else if (keyLength >= 2048) score += 30;
   else if (keyLength >= 1024) score += 20;
   else score += 10;
-  
+
   // Algorithm scoring
-  if (algorithm.includes('SHA-512')) score += 30;
-  else if (algorithm.includes('SHA-256')) score += 25;
+  if (algorithm.includes("SHA-512")) score += 30;
+  else if (algorithm.includes("SHA-256")) score += 25;
   else score += 15;
-  
+
   // Additional security features
   score += 30; // For AES-256, IV usage, etc.
-  
+
   return Math.min(score, 100);
 }
 
@@ -468,7 +1040,7 @@ export function calculateEncryptionStrength(keyLength: number, algorithm: string
 export function createSecurityAuditEntry(
   action: string,
   userId: string,
-  details: any = {}
+  details: any = {},
 ): any {
   return {
     id: generateMessageId(),
@@ -477,22 +1049,32 @@ export function createSecurityAuditEntry(
     userId,
     sessionId: getCurrentSessionId(),
     deviceId: generateDeviceId(),
-    ipAddress: 'client-side', // Server will populate real IP
+    ipAddress: "client-side", // Server will populate real IP
     userAgent: navigator.userAgent,
     details,
-    severity: getSeverityLevel(action)
+    severity: getSeverityLevel(action),
   };
 }
 
 function getCurrentSessionId(): string {
-  return sessionStorage.getItem('secureChat_sessionId') || 'unknown';
+  return sessionStorage.getItem("secureChat_sessionId") || "unknown";
 }
 
-function getSeverityLevel(action: string): 'low' | 'medium' | 'high' | 'critical' {
-  const highSeverityActions = ['key_compromised', 'unauthorized_access', 'encryption_failed'];
-  const mediumSeverityActions = ['key_rotation', 'group_member_removed', 'suspicious_login'];
-  
-  if (highSeverityActions.includes(action)) return 'high';
-  if (mediumSeverityActions.includes(action)) return 'medium';
-  return 'low';
+function getSeverityLevel(
+  action: string,
+): "low" | "medium" | "high" | "critical" {
+  const highSeverityActions = [
+    "key_compromised",
+    "unauthorized_access",
+    "encryption_failed",
+  ];
+  const mediumSeverityActions = [
+    "key_rotation",
+    "group_member_removed",
+    "suspicious_login",
+  ];
+
+  if (highSeverityActions.includes(action)) return "high";
+  if (mediumSeverityActions.includes(action)) return "medium";
+  return "low";
 }
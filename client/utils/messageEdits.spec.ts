@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { ChatMessage } from "@shared/api";
+import {
+  EDIT_WINDOW_MINUTES,
+  applyDeletion,
+  applyEdit,
+  canEditMessage,
+  parseDeletion,
+  parseEdit,
+} from "./messageEdits";
+
+const sentAt = "2025-01-01T12:00:00.000Z";
+const minutesLater = (minutes: number) =>
+  new Date(new Date(sentAt).getTime() + minutes * 60 * 1000).toISOString();
+
+const message: ChatMessage = {
+  id: "m1",
+  senderId: "alice",
+  content: "helo",
+  timestamp: sentAt,
+  type: "text",
+  deliveryStatus: "read",
+};
+
+describe("message edits", () => {
+  it("should only let the sender edit text, within the window", () => {
+    expect(canEditMessage(message, "alice", minutesLater(1))).toBe(true);
+    expect(canEditMessage(message, "bob", minutesLater(1))).toBe(false);
+    expect(
+      canEditMessage(message, "alice", minutesLater(EDIT_WINDOW_MINUTES + 1)),
+    ).toBe(false);
+    expect(
+      canEditMessage({ ...message, type: "image" }, "alice", minutesLater(1)),
+    ).toBe(false);
+  });
+
+  it("should keep earlier versions in the history", () => {
+    const first = applyEdit(message, "hello", minutesLater(1));
+    const second = applyEdit(first, "hello!", minutesLater(2));
+
+    expect(second.content).toBe("hello!");
+    expect(second.editedAt).toBe(minutesLater(2));
+    expect(second.editHistory).toEqual([
+      { content: "helo", timestamp: sentAt },
+      { content: "hello", timestamp: minutesLater(1) },
+    ]);
+  });
+
+  it("should leave nothing of a deleted message's content", () => {
+    const edited = applyEdit(message, "hello", minutesLater(1));
+
+    expect(applyDeletion(edited, "alice", minutesLater(3))).toEqual({
+      id: "m1",
+      senderId: "alice",
+      timestamp: sentAt,
+      type: "text",
+      content: "",
+      deliveryStatus: "read",
+      deletedAt: minutesLater(3),
+    });
+    expect(applyDeletion(edited, "carol", minutesLater(3)).deletedBy).toBe(
+      "carol",
+    );
+    expect(
+      canEditMessage(
+        applyDeletion(edited, "alice", minutesLater(3)),
+        "alice",
+        minutesLater(4),
+      ),
+    ).toBe(false);
+  });
+
+  it("should reject malformed changes", () => {
+    expect(parseEdit(JSON.stringify({ targetId: "m1", text: "hi" }))).toEqual({
+      targetId: "m1",
+      text: "hi",
+    });
+    expect(parseEdit(JSON.stringify({ targetId: "m1", text: " " }))).toBeNull();
+    expect(parseEdit("not json")).toBeNull();
+    expect(
+      parseDeletion(JSON.stringify({ targetId: "m1", extra: true })),
+    ).toEqual({ targetId: "m1" });
+    expect(parseDeletion(JSON.stringify({ targetId: 7 }))).toBeNull();
+  });
+});
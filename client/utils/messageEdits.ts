@@ -0,0 +1,103 @@
+import { ChatMessage, MessageDeletion, MessageEdit } from "@shared/api";
+
+/**
+ * Edits and deletions of earlier messages. Both travel as messages of their
+ * own ('edit' and 'delete'), encrypted like any other, and each side applies
+ * them to its copy of the conversation. Nothing here trusts the relay: the
+ * receiving side checks who changed the message and, for edits, when.
+ */
+
+// How long after sending a message it can still be edited. Receivers enforce
+// it too, so every client should be built with the same value.
+export const EDIT_WINDOW_MINUTES =
+  Number(import.meta.env.VITE_MESSAGE_EDIT_WINDOW_MINUTES) || 15;
+
+export const isWithinEditWindow = (
+  sentAt: string,
+  at: string | Date = new Date(),
+): boolean =>
+  new Date(at).getTime() - new Date(sentAt).getTime() <=
+  EDIT_WINDOW_MINUTES * 60 * 1000;
+
+/**
+ * Whether the user may edit the message (at the given time). Only the sender's
+ * own text messages can be, and only for a while.
+ */
+export const canEditMessage = (
+  message: ChatMessage,
+  userId: string | undefined,
+  at: string | Date = new Date(),
+) =>
+  !!userId &&
+  message.senderId === userId &&
+  message.type === "text" &&
+  !message.deletedAt &&
+  isWithinEditWindow(message.timestamp, at);
+
+/**
+ * The message with new text, the old text kept in its history
+ */
+export const applyEdit = (
+  message: ChatMessage,
+  text: string,
+  editedAt: string,
+): ChatMessage => ({
+  ...message,
+  content: text,
+  editedAt,
+  editHistory: [
+    ...(message.editHistory ?? []),
+    {
+      content: message.content as string,
+      timestamp: message.editedAt ?? message.timestamp,
+    },
+  ],
+});
+
+/**
+ * What's left of a deleted message: who sent it and when, and nothing of
+ * what it said
+ */
+export const applyDeletion = (
+  message: ChatMessage,
+  deletedBy: string,
+  deletedAt: string,
+): ChatMessage => ({
+  id: message.id,
+  senderId: message.senderId,
+  timestamp: message.timestamp,
+  type: "text",
+  content: "",
+  ...(message.deliveryStatus && { deliveryStatus: message.deliveryStatus }),
+  deletedAt,
+  ...(deletedBy !== message.senderId && { deletedBy }),
+});
+
+const parseChange = (content: string): Record<string, unknown> | null => {
+  try {
+    const change = JSON.parse(content);
+    return typeof change?.targetId === "string" && change.targetId
+      ? change
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * The edit a decrypted 'edit' message carries, or null if it's malformed
+ */
+export const parseEdit = (content: string): MessageEdit | null => {
+  const change = parseChange(content);
+  return change && typeof change.text === "string" && change.text.trim()
+    ? { targetId: change.targetId as string, text: change.text }
+    : null;
+};
+
+/**
+ * The deletion a decrypted 'delete' message carries, or null if it's malformed
+ */
+export const parseDeletion = (content: string): MessageDeletion | null => {
+  const change = parseChange(content);
+  return change ? { targetId: change.targetId as string } : null;
+};
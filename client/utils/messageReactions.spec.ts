@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import { ChatMessage, MessageReaction } from "@shared/api";
+import { applyReaction, hasReacted, parseReaction } from "./messageReactions";
+import { generateKeyPair, generateSigningKeyPair } from "./crypto";
+import {
+  addGroupKeyEpoch,
+  createGroupKeyDistribution,
+  decryptFromGroup,
+  encryptForGroup,
+  generateGroupKeyPair,
+  openGroupKeyDistribution,
+} from "./groupCrypto";
+
+// Bob in a group with alice, opening what she sends as it comes off the relay
+async function sendToGroup(content: string) {
+  const alice = {
+    identity: await generateKeyPair(),
+    signing: await generateSigningKeyPair(),
+  };
+  const bob = await generateKeyPair();
+  const groupKey = await generateGroupKeyPair("group-1", ["alice", "bob"]);
+  const distribution = await createGroupKeyDistribution(
+    groupKey,
+    [
+      { userId: "alice", publicKey: alice.identity.publicKey },
+      { userId: "bob", publicKey: bob.publicKey },
+    ],
+    "alice",
+    alice.signing.privateKey,
+  );
+  const bobKeys = addGroupKeyEpoch(
+    null,
+    await openGroupKeyDistribution(
+      distribution,
+      bob.privateKey,
+      "bob",
+      alice.signing.publicKey,
+    ),
+  );
+
+  const envelope = await encryptForGroup(
+    content,
+    groupKey,
+    ["alice", "bob"],
+    "alice",
+    alice.signing.privateKey,
+  );
+  return decryptFromGroup(envelope, bobKeys, alice.signing.publicKey);
+}
+
+const message: ChatMessage = {
+  id: "m1",
+  senderId: "alice",
+  content: "lunch?",
+  timestamp: "2025-01-01T12:00:00.000Z",
+  type: "text",
+};
+
+describe("message reactions", () => {
+  it("should tally reactors per emoji", () => {
+    let reacted = applyReaction(message, "bob", "👍");
+    reacted = applyReaction(reacted, "carol", "👍");
+    reacted = applyReaction(reacted, "bob", "😂");
+    reacted = applyReaction(reacted, "bob", "👍"); // Repeats change nothing
+
+    expect(reacted.reactions).toEqual({
+      "👍": ["bob", "carol"],
+      "😂": ["bob"],
+    });
+    expect(hasReacted(reacted, "carol", "👍")).toBe(true);
+    expect(hasReacted(reacted, "carol", "😂")).toBe(false);
+  });
+
+  it("should drop emoji once every reaction is taken back", () => {
+    let reacted = applyReaction(message, "bob", "👍");
+    reacted = applyReaction(reacted, "bob", "😂");
+    reacted = applyReaction(reacted, "bob", "👍", true);
+
+    expect(reacted.reactions).toEqual({ "😂": ["bob"] });
+    expect(applyReaction(reacted, "bob", "😂", true).reactions).toBeUndefined();
+    expect(applyReaction(reacted, "carol", "😂", true)).toBe(reacted);
+  });
+
+  it("should reach the rest of a group through group encryption, removals included", async () => {
+    const own = { ...message, senderId: "bob" };
+    const reaction: MessageReaction = { targetId: own.id, emoji: "👍" };
+
+    const received = parseReaction(await sendToGroup(JSON.stringify(reaction)));
+    expect(received).toEqual(reaction);
+    const reacted = applyReaction(
+      own,
+      "alice",
+      received!.emoji,
+      received!.remove,
+    );
+    expect(reacted.reactions).toEqual({ "👍": ["alice"] });
+
+    const removal = parseReaction(
+      await sendToGroup(JSON.stringify({ ...reaction, remove: true })),
+    );
+    expect(
+      applyReaction(reacted, "alice", removal!.emoji, removal!.remove)
+        .reactions,
+    ).toBeUndefined();
+  });
+
+  it("should reject malformed reactions", () => {
+    expect(
+      parseReaction(JSON.stringify({ targetId: "m1", emoji: "👍" })),
+    ).toEqual({ targetId: "m1", emoji: "👍" });
+    expect(
+      parseReaction(
+        JSON.stringify({ targetId: "m1", emoji: "👍", remove: true }),
+      ),
+    ).toEqual({
+      targetId: "m1",
+      emoji: "👍",
+      remove: true,
+    });
+    expect(
+      parseReaction(JSON.stringify({ targetId: "m1", emoji: "" })),
+    ).toBeNull();
+    expect(
+      parseReaction(JSON.stringify({ targetId: "m1", emoji: "x".repeat(100) })),
+    ).toBeNull();
+    expect(parseReaction(JSON.stringify({ emoji: "👍" }))).toBeNull();
+    expect(parseReaction("not json")).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+import { ChatMessage, MessageReaction } from "@shared/api";
+
+/**
+ * Reactions to messages. Each one travels as a 'reaction' message of its own,
+ * encrypted like any other, naming the message and the emoji; taking it back
+ * sends the same with remove set. Every side keeps the tally on its copy of
+ * the message, so applying a reaction twice changes nothing.
+ */
+
+// Long enough for emoji built from several code points (skin tones, flags,
+// families), short enough that nobody reacts with a paragraph
+const MAX_EMOJI_LENGTH = 32;
+
+export const hasReacted = (
+  message: ChatMessage,
+  userId: string | undefined,
+  emoji: string,
+) => !!userId && !!message.reactions?.[emoji]?.includes(userId);
+
+/**
+ * The message with the reaction added or taken back. Emoji nobody reacts
+ * with any more are dropped.
+ */
+export const applyReaction = (
+  message: ChatMessage,
+  reactorId: string,
+  emoji: string,
+  remove = false,
+): ChatMessage => {
+  const reactorIds = message.reactions?.[emoji] ?? [];
+  if (
+    remove ? !reactorIds.includes(reactorId) : reactorIds.includes(reactorId)
+  ) {
+    return message;
+  }
+
+  const { [emoji]: _, ...others } = message.reactions ?? {};
+  const updated = remove
+    ? reactorIds.filter((id) => id !== reactorId)
+    : [...reactorIds, reactorId];
+  const reactions =
+    updated.length > 0 ? { ...others, [emoji]: updated } : others;
+
+  const { reactions: __, ...rest } = message;
+  return Object.keys(reactions).length > 0 ? { ...rest, reactions } : rest;
+};
+
+/**
+ * The reaction a decrypted 'reaction' message carries, or null if it's
+ * malformed
+ */
+export const parseReaction = (content: string): MessageReaction | null => {
+  try {
+    const reaction = JSON.parse(content);
+    if (
+      typeof reaction?.targetId !== "string" ||
+      !reaction.targetId ||
+      typeof reaction.emoji !== "string" ||
+      !reaction.emoji.trim() ||
+      reaction.emoji.length > MAX_EMOJI_LENGTH
+    ) {
+      return null;
+    }
+    return {
+      targetId: reaction.targetId,
+      emoji: reaction.emoji,
+      ...(reaction.remove === true && { remove: true }),
+    };
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { ChatMessage } from "@shared/api";
+import {
+  countThreadReplies,
+  findThreadRoot,
+  getThreadReplies,
+  quotePreview,
+} from "./messageThreads";
+import { generateKeyPair, generateSigningKeyPair } from "./crypto";
+import {
+  GroupMessageHeader,
+  addGroupKeyEpoch,
+  createGroupKeyDistribution,
+  decryptFromGroup,
+  encryptForGroup,
+  generateGroupKeyPair,
+  openGroupKeyDistribution,
+} from "./groupCrypto";
+
+const message = (id: string, replyTo?: string): ChatMessage => ({
+  id,
+  senderId: "alice",
+  content: `text of ${id}`,
+  timestamp: "2025-01-01T12:00:00.000Z",
+  type: "text",
+  ...(replyTo && { replyTo }),
+});
+
+const messages = [
+  message("root"),
+  message("a", "root"),
+  message("other"),
+  message("b", "a"),
+  message("c", "root"),
+  message("orphan", "missing"),
+];
+
+describe("message threads", () => {
+  it("should follow replies back to the message that started the thread", () => {
+    expect(findThreadRoot(messages, "b")).toBe("root");
+    expect(findThreadRoot(messages, "root")).toBe("root");
+    expect(findThreadRoot(messages, "orphan")).toBe("orphan");
+  });
+
+  it("should collect nested replies in order", () => {
+    expect(getThreadReplies(messages, "root").map((m) => m.id)).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+    expect(getThreadReplies(messages, "other")).toEqual([]);
+    expect(countThreadReplies(messages)).toEqual(new Map([["root", 3]]));
+  });
+
+  it("should survive reply loops", () => {
+    const looped = [message("x", "y"), message("y", "x")];
+    expect(["x", "y"]).toContain(findThreadRoot(looped, "x"));
+  });
+
+  it("should keep a group reply's link to the original through group encryption", async () => {
+    const alice = {
+      identity: await generateKeyPair(),
+      signing: await generateSigningKeyPair(),
+    };
+    const bob = await generateKeyPair();
+    const groupKey = await generateGroupKeyPair("group-1", ["alice", "bob"]);
+    const distribution = await createGroupKeyDistribution(
+      groupKey,
+      [
+        { userId: "alice", publicKey: alice.identity.publicKey },
+        { userId: "bob", publicKey: bob.publicKey },
+      ],
+      "alice",
+      alice.signing.privateKey,
+    );
+    const bobKeys = addGroupKeyEpoch(
+      null,
+      await openGroupKeyDistribution(
+        distribution,
+        bob.privateKey,
+        "bob",
+        alice.signing.publicKey,
+      ),
+    );
+
+    // Bob rebuilds the message from the envelope, as SocketContext does
+    const header: GroupMessageHeader = {
+      messageId: "d",
+      timestamp: "2025-01-01T12:05:00.000Z",
+      replyTo: "b",
+    };
+    const envelope = await encryptForGroup(
+      "reply to b",
+      groupKey,
+      ["alice", "bob"],
+      "alice",
+      alice.signing.privateKey,
+      header,
+    );
+    const received: ChatMessage = {
+      id: envelope.messageId,
+      senderId: envelope.senderId,
+      content: await decryptFromGroup(
+        envelope,
+        bobKeys,
+        alice.signing.publicKey,
+      ),
+      timestamp: envelope.timestamp,
+      type: "text",
+      ...(envelope.replyTo && { replyTo: envelope.replyTo }),
+    };
+
+    expect(received).toMatchObject({
+      id: "d",
+      replyTo: "b",
+      content: "reply to b",
+    });
+    const withReply = [...messages, received];
+    expect(findThreadRoot(withReply, "d")).toBe("root");
+    expect(getThreadReplies(withReply, "root").map((m) => m.id)).toEqual([
+      "a",
+      "b",
+      "c",
+      "d",
+    ]);
+  });
+
+  it("should describe what a reply quotes", () => {
+    expect(quotePreview(messages[0])).toBe("text of root");
+    expect(
+      quotePreview({
+        ...messages[0],
+        content: "",
+        deletedAt: "2025-01-01T12:01:00.000Z",
+      }),
+    ).toBe("This message was deleted");
+    expect(quotePreview(undefined)).toBe("Original message not available");
+  });
+});
@@ -0,0 +1,81 @@
+import { ChatMessage, MediaContent } from "@shared/api";
+
+/**
+ * Replies and threads. A reply names the message it answers (replyTo, carried
+ * in the envelope's authenticated data); a thread is a message that starts no
+ * chain of its own, with every reply that leads back to it.
+ */
+
+// Far more than any real conversation nests; stops a loop of forged references
+const MAX_THREAD_DEPTH = 100;
+
+const rootOf = (byId: Map<string, ChatMessage>, messageId: string): string => {
+  let rootId = messageId;
+  for (let depth = 0; depth < MAX_THREAD_DEPTH; depth++) {
+    const parentId = byId.get(rootId)?.replyTo;
+    if (!parentId || !byId.has(parentId)) break;
+    rootId = parentId;
+  }
+  return rootId;
+};
+
+const indexById = (messages: ChatMessage[]) =>
+  new Map(messages.map((message) => [message.id, message]));
+
+/**
+ * The ID of the message a thread starts with. A reply to a message we don't
+ * have counts as its own root.
+ */
+export const findThreadRoot = (
+  messages: ChatMessage[],
+  messageId: string,
+): string => rootOf(indexById(messages), messageId);
+
+/**
+ * Every reply in the thread a message starts, in the order they arrived
+ */
+export const getThreadReplies = (
+  messages: ChatMessage[],
+  rootId: string,
+): ChatMessage[] => {
+  const byId = indexById(messages);
+  return messages.filter(
+    (message) =>
+      message.id !== rootId &&
+      message.replyTo &&
+      rootOf(byId, message.id) === rootId,
+  );
+};
+
+/**
+ * How many replies each thread has, by root message ID
+ */
+export const countThreadReplies = (
+  messages: ChatMessage[],
+): Map<string, number> => {
+  const byId = indexById(messages);
+  const counts = new Map<string, number>();
+  for (const message of messages) {
+    if (!message.replyTo) continue;
+    const rootId = rootOf(byId, message.id);
+    if (rootId !== message.id) {
+      counts.set(rootId, (counts.get(rootId) ?? 0) + 1);
+    }
+  }
+  return counts;
+};
+
+/**
+ * One line standing in for a message in a reply's quote
+ */
+export const quotePreview = (message: ChatMessage | undefined): string => {
+  if (!message) return "Original message not available";
+  if (message.deletedAt) return "This message was deleted";
+  if (typeof message.content === "string") return message.content;
+  return message.type === "image"
+    ? "📷 Photo"
+    : `📎 ${(message.content as MediaContent).fileName}`;
+};
+
+// The element a message is rendered in, for jumping to it
+export const messageElementId = (messageId: string) => `message-${messageId}`;
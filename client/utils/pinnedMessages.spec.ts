@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import { ChatMessage, MessagePin } from "@shared/api";
+import {
+  MAX_PINS,
+  PinnedMessage,
+  addPin,
+  parsePin,
+  removePin,
+  syncPins,
+} from "./pinnedMessages";
+import { generateKeyPair, generateSigningKeyPair } from "./crypto";
+import {
+  addGroupKeyEpoch,
+  createGroupKeyDistribution,
+  decryptFromGroup,
+  encryptForGroup,
+  generateGroupKeyPair,
+  openGroupKeyDistribution,
+} from "./groupCrypto";
+
+const pin = (messageId: string): PinnedMessage => ({
+  messageId,
+  pinnedBy: "alice",
+  pinnedAt: "2025-01-01T12:00:00.000Z",
+});
+
+const message: ChatMessage = {
+  id: "m1",
+  senderId: "bob",
+  content: "meeting at 3",
+  timestamp: "2025-01-01T11:00:00.000Z",
+  type: "text",
+};
+
+describe("pinned messages", () => {
+  it("should keep the newest pin first and cap the list", () => {
+    let pins = addPin([], pin("a"));
+    pins = addPin(pins, pin("b"));
+    pins = addPin(pins, pin("a"));
+    expect(pins.map((p) => p.messageId)).toEqual(["a", "b"]);
+
+    for (let i = 0; i < MAX_PINS; i++) pins = addPin(pins, pin(`m${i}`));
+    expect(pins).toHaveLength(MAX_PINS);
+    expect(pins.some((p) => p.messageId === "b")).toBe(false);
+
+    expect(removePin(pins, "missing")).toBe(pins);
+    expect(removePin(pins, "m0")).toHaveLength(MAX_PINS - 1);
+  });
+
+  it("should remember pinned messages and forget deleted ones", () => {
+    const synced = syncPins([pin("m1"), pin("gone")], [message]);
+    expect(synced[0]).toMatchObject({
+      senderId: "bob",
+      preview: "meeting at 3",
+      sentAt: message.timestamp,
+    });
+    expect(synced[1]).toEqual(pin("gone"));
+    expect(syncPins(synced, [message])).toBe(synced);
+
+    const deleted = {
+      ...message,
+      content: "",
+      deletedAt: "2025-01-01T12:30:00.000Z",
+    };
+    expect(syncPins(synced, [deleted]).map((p) => p.messageId)).toEqual([
+      "gone",
+    ]);
+  });
+
+  it("should pin and unpin for a group through group encryption", async () => {
+    const alice = {
+      identity: await generateKeyPair(),
+      signing: await generateSigningKeyPair(),
+    };
+    const bob = await generateKeyPair();
+    const groupKey = await generateGroupKeyPair("group-1", ["alice", "bob"]);
+    const distribution = await createGroupKeyDistribution(
+      groupKey,
+      [
+        { userId: "alice", publicKey: alice.identity.publicKey },
+        { userId: "bob", publicKey: bob.publicKey },
+      ],
+      "alice",
+      alice.signing.privateKey,
+    );
+    const bobKeys = addGroupKeyEpoch(
+      null,
+      await openGroupKeyDistribution(
+        distribution,
+        bob.privateKey,
+        "bob",
+        alice.signing.publicKey,
+      ),
+    );
+    const receive = async (change: MessagePin) => {
+      const envelope = await encryptForGroup(
+        JSON.stringify(change),
+        groupKey,
+        ["alice", "bob"],
+        "alice",
+        alice.signing.privateKey,
+      );
+      return parsePin(
+        await decryptFromGroup(envelope, bobKeys, alice.signing.publicKey),
+      );
+    };
+
+    const pinned = await receive({ targetId: message.id });
+    expect(pinned).toEqual({ targetId: "m1" });
+    const pins = addPin([], {
+      messageId: pinned!.targetId,
+      pinnedBy: "alice",
+      pinnedAt: "2025-01-01T12:10:00.000Z",
+    });
+    expect(pins.map((p) => p.messageId)).toEqual(["m1"]);
+
+    const unpinned = await receive({ targetId: message.id, unpin: true });
+    expect(unpinned?.unpin).toBe(true);
+    expect(removePin(pins, unpinned!.targetId)).toEqual([]);
+  });
+
+  it("should reject malformed pins", () => {
+    expect(parsePin(JSON.stringify({ targetId: "m1" }))).toEqual({
+      targetId: "m1",
+    });
+    expect(parsePin(JSON.stringify({ targetId: "m1", unpin: true }))).toEqual({
+      targetId: "m1",
+      unpin: true,
+    });
+    expect(parsePin(JSON.stringify({ unpin: true }))).toBeNull();
+    expect(parsePin("{")).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+import { ChatMessage, MessagePin } from "@shared/api";
+import { quotePreview } from "./messageThreads";
+
+/**
+ * Pinned messages, kept per conversation on this device. Pinning and
+ * unpinning travel as 'pin' messages, encrypted like any other. Messages
+ * themselves aren't kept after a reload, so each pin remembers enough of its
+ * message to still be listed.
+ */
+
+export interface PinnedMessage {
+  messageId: string;
+  pinnedBy: string;
+  pinnedAt: string;
+  // Filled in from the message while we have it
+  senderId?: string;
+  preview?: string;
+  sentAt?: string;
+}
+
+const PINS_STORAGE_PREFIX = "secureChat_pins_";
+// The oldest pins make way past this
+export const MAX_PINS = 50;
+
+/**
+ * Which conversation a set of pins belongs to
+ */
+export const pinsKey = (
+  groupId?: string,
+  recipientId?: string,
+): string | null =>
+  groupId ? `group:${groupId}` : recipientId ? `user:${recipientId}` : null;
+
+export function loadPins(key: string | null): PinnedMessage[] {
+  if (!key) return [];
+  const saved = localStorage.getItem(`${PINS_STORAGE_PREFIX}${key}`);
+  if (!saved) return [];
+
+  try {
+    const pins = JSON.parse(saved);
+    return Array.isArray(pins) ? pins : [];
+  } catch (error) {
+    console.error("Failed to load pinned messages:", error);
+    localStorage.removeItem(`${PINS_STORAGE_PREFIX}${key}`);
+    return [];
+  }
+}
+
+export function savePins(key: string, pins: PinnedMessage[]) {
+  if (pins.length === 0) {
+    localStorage.removeItem(`${PINS_STORAGE_PREFIX}${key}`);
+    return;
+  }
+  localStorage.setItem(`${PINS_STORAGE_PREFIX}${key}`, JSON.stringify(pins));
+}
+
+/**
+ * The pins with this one first. Pinning a pinned message moves it up.
+ */
+export const addPin = (
+  pins: PinnedMessage[],
+  pin: PinnedMessage,
+): PinnedMessage[] =>
+  [
+    pin,
+    ...pins.filter((existing) => existing.messageId !== pin.messageId),
+  ].slice(0, MAX_PINS);
+
+export const removePin = (
+  pins: PinnedMessage[],
+  messageId: string,
+): PinnedMessage[] =>
+  pins.some((pin) => pin.messageId === messageId)
+    ? pins.filter((pin) => pin.messageId !== messageId)
+    : pins;
+
+/**
+ * Bring the pins up to date with the messages we have: fill in what each
+ * pinned message says, and drop pins of messages deleted for everyone.
+ * Returns the same array when nothing changed.
+ */
+export const syncPins = (
+  pins: PinnedMessage[],
+  messages: ChatMessage[],
+): PinnedMessage[] => {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  let changed = false;
+
+  const synced = pins.flatMap((pin) => {
+    const message = byId.get(pin.messageId);
+    if (!message) return [pin];
+    if (message.deletedAt) {
+      changed = true;
+      return [];
+    }
+
+    const preview = quotePreview(message);
+    if (
+      pin.senderId === message.senderId &&
+      pin.preview === preview &&
+      pin.sentAt === message.timestamp
+    ) {
+      return [pin];
+    }
+    changed = true;
+    return [
+      {
+        ...pin,
+        senderId: message.senderId,
+        preview,
+        sentAt: message.timestamp,
+      },
+    ];
+  });
+
+  return changed ? synced : pins;
+};
+
+/**
+ * The pin a decrypted 'pin' message carries, or null if it's malformed
+ */
+export const parsePin = (content: string): MessagePin | null => {
+  try {
+    const pin = JSON.parse(content);
+    if (typeof pin?.targetId !== "string" || !pin.targetId) return null;
+    return {
+      targetId: pin.targetId,
+      ...(pin.unpin === true && { unpin: true }),
+    };
+  } catch {
+    return null;
+  }
+};
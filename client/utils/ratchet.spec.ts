@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { generateKeyPair, EncryptedMessage } from "./crypto";
+import { RatchetSession } from "./ratchet";
+
+function aad(senderId: string, n: number) {
+  return {
+    senderId,
+    messageId: `${senderId}-${n}`,
+    timestamp: new Date(n).toISOString(),
+  };
+}
+
+// Alice is the initiator, with the lower identity key
+async function createPair() {
+  const [aliceIdentity, bobIdentity] = [
+    await generateKeyPair(),
+    await generateKeyPair(),
+  ].sort((a, b) => (a.publicKey < b.publicKey ? -1 : 1));
+  const alice = await RatchetSession.initialize(
+    aliceIdentity,
+    bobIdentity.publicKey,
+  );
+  const bob = await RatchetSession.initialize(
+    bobIdentity,
+    aliceIdentity.publicKey,
+  );
+  return { alice, bob };
+}
+
+describe("RatchetSession", () => {
+  it("should keep the responder from sending until the initiator's ratchet key arrives", async () => {
+    const { alice, bob } = await createPair();
+    expect(alice.canSend).toBe(true);
+    expect(bob.canSend).toBe(false);
+    await expect(bob.encrypt("too early", aad("bob", 1))).rejects.toThrow(
+      /no sending chain/,
+    );
+
+    const fromAlice = await alice.encrypt("hi bob", aad("alice", 1));
+    expect(await bob.decrypt(fromAlice)).toBe("hi bob");
+    expect(bob.canSend).toBe(true);
+    const fromBob = await bob.encrypt("hi alice", aad("bob", 2));
+    expect(await alice.decrypt(fromBob)).toBe("hi alice");
+  });
+
+  it("should drop the identity-derived chain from a persisted responder", async () => {
+    const { alice, bob } = await createPair();
+    // What responders used to persist: a sending chain before hearing anything
+    const legacy = { ...bob.toJSON(), sendChainKey: alice.toJSON().rootKey };
+
+    expect(RatchetSession.fromJSON(legacy).canSend).toBe(false);
+  });
+
+  it("should rotate ratchet keys as the conversation changes direction", async () => {
+    const { alice, bob } = await createPair();
+
+    const m1 = await alice.encrypt("one", aad("alice", 1));
+    expect(await bob.decrypt(m1)).toBe("one");
+    const m2 = await bob.encrypt("two", aad("bob", 2));
+    expect(await alice.decrypt(m2)).toBe("two");
+    const m3 = await alice.encrypt("three", aad("alice", 3));
+    expect(await bob.decrypt(m3)).toBe("three");
+
+    expect(m3.header!.dh).not.toBe(m1.header!.dh);
+  });
+
+  it("should decrypt out-of-order messages with skipped keys", async () => {
+    const { alice, bob } = await createPair();
+    const sent: EncryptedMessage[] = [];
+    for (let i = 0; i < 4; i++) {
+      sent.push(await alice.encrypt(`msg ${i}`, aad("alice", i)));
+    }
+
+    expect(await bob.decrypt(sent[2])).toBe("msg 2");
+    expect(await bob.decrypt(sent[0])).toBe("msg 0");
+    expect(await bob.decrypt(sent[3])).toBe("msg 3");
+    expect(await bob.decrypt(sent[1])).toBe("msg 1");
+  });
+
+  it("should not decrypt the same message twice", async () => {
+    const { alice, bob } = await createPair();
+    const message = await alice.encrypt("once", aad("alice", 1));
+
+    expect(await bob.decrypt(message)).toBe("once");
+    await expect(bob.decrypt(message)).rejects.toThrow();
+  });
+
+  it("should leave state untouched when a forged message fails", async () => {
+    const { alice, bob } = await createPair();
+    const message = await alice.encrypt("real", aad("alice", 1));
+    const forged = { ...message, header: { ...message.header!, n: 5 } };
+
+    await expect(bob.decrypt(forged)).rejects.toThrow();
+    expect(await bob.decrypt(message)).toBe("real");
+  });
+
+  it("should survive a round trip through persisted state", async () => {
+    const { alice, bob } = await createPair();
+    const m1 = await alice.encrypt("before", aad("alice", 1));
+    expect(await bob.decrypt(m1)).toBe("before");
+
+    const restoredBob = RatchetSession.fromJSON(
+      JSON.parse(JSON.stringify(bob.toJSON())),
+    );
+    const m2 = await restoredBob.encrypt("after", aad("bob", 2));
+    expect(await alice.decrypt(m2)).toBe("after");
+  });
+});
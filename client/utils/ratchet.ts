@@ -0,0 +1,537 @@
+import {
+  KeyPair,
+  EnvelopeAad,
+  EncryptedMessage,
+  RatchetHeader,
+  PreKeyHeader,
+  generateKeyPair,
+  computeSharedSecret,
+  deriveSessionKeys,
+  encryptMessage,
+  decryptMessage,
+  bytesToBase64,
+  base64ToBytes,
+} from "./crypto";
+
+/**
+ * Signal-style Double Ratchet for 1:1 chats.
+ *
+ * Every message is encrypted with a fresh message key from a symmetric chain,
+ * and the chains are re-keyed with a new ECDH exchange each time the
+ * conversation changes direction. Message keys are deleted after use, so a
+ * leaked state does not expose earlier traffic.
+ *
+ * Sessions are seeded either from the identity key agreement in
+ * deriveSessionKeys, when both sides are online and exchanged keys, or from an
+ * X3DH shared key when the sender started from the recipient's prekey bundle.
+ *
+ * For identity-seeded sessions the party with the lower identity key acts as
+ * initiator. The responder has no sending chain until the initiator's first
+ * ratchet key arrives: one derived from the identity keys alone would be the
+ * same after every reset and never forward secret. Until then it has to
+ * start from the initiator's prekey bundle instead (see canSend).
+ */
+
+const RATCHET_STATE_VERSION = 1;
+const ROOT_KDF_INFO = "builder-pixel-works/ratchet/root";
+const STORAGE_PREFIX = "ratchetSession.";
+
+// Bounds on how many message keys we derive ahead for out-of-order delivery
+export const MAX_SKIP = 1000;
+const MAX_STORED_SKIPPED_KEYS = 2000;
+
+export interface RatchetState {
+  version: number;
+  partnerIdentityKey: string;
+  rootKey: string;
+  dhSelf: KeyPair;
+  dhRemote: string | null;
+  sendChainKey: string | null;
+  receiveChainKey: string | null;
+  sendCount: number;
+  receiveCount: number;
+  previousSendCount: number;
+  // `${ratchetPublicKey}:${n}` -> message key, in insertion order
+  skippedKeys: Record<string, string>;
+  // X3DH header to attach until the partner replies (prekey initiators only)
+  pendingPreKey?: PreKeyHeader | null;
+  // Ephemeral key of the X3DH handshake this session was built from, if any
+  baseKey?: string;
+}
+
+async function hmac(key: string, data: Uint8Array): Promise<Uint8Array> {
+  const hmacKey = await crypto.subtle.importKey(
+    "raw",
+    base64ToBytes(key),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  return new Uint8Array(await crypto.subtle.sign("HMAC", hmacKey, data));
+}
+
+/**
+ * KDF_RK: mix a DH output into the root key, yielding a new root and chain key
+ */
+async function kdfRoot(
+  rootKey: string,
+  dhOutput: ArrayBuffer,
+): Promise<[string, string]> {
+  const hkdfKey = await crypto.subtle.importKey(
+    "raw",
+    dhOutput,
+    "HKDF",
+    false,
+    ["deriveBits"],
+  );
+  const okm = new Uint8Array(
+    await crypto.subtle.deriveBits(
+      {
+        name: "HKDF",
+        hash: "SHA-256",
+        salt: base64ToBytes(rootKey),
+        info: new TextEncoder().encode(ROOT_KDF_INFO),
+      },
+      hkdfKey,
+      512,
+    ),
+  );
+  return [bytesToBase64(okm.slice(0, 32)), bytesToBase64(okm.slice(32, 64))];
+}
+
+/**
+ * KDF_CK: advance a chain key, yielding the next chain key and a message key
+ */
+async function kdfChain(chainKey: string): Promise<[string, string]> {
+  const messageKey = await hmac(chainKey, new Uint8Array([0x01]));
+  const nextChainKey = await hmac(chainKey, new Uint8Array([0x02]));
+  return [bytesToBase64(nextChainKey), bytesToBase64(messageKey)];
+}
+
+function skippedKeyId(dh: string, n: number): string {
+  return `${dh}:${n}`;
+}
+
+function cloneState(state: RatchetState): RatchetState {
+  return JSON.parse(JSON.stringify(state));
+}
+
+export class RatchetSession {
+  private state: RatchetState;
+  private persist?: (state: RatchetState) => void;
+  // Encrypt/decrypt calls mutate shared state, so they run one at a time
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private constructor(
+    state: RatchetState,
+    persist?: (state: RatchetState) => void,
+  ) {
+    this.state = state;
+    this.persist = persist;
+  }
+
+  /**
+   * Start a fresh session from both identity keys. Both sides arrive at
+   * matching states without exchanging anything beyond their public keys.
+   */
+  static async initialize(
+    identity: KeyPair,
+    partnerIdentityKey: string,
+    persist?: (state: RatchetState) => void,
+  ): Promise<RatchetSession> {
+    const { sendKey, receiveKey } = await deriveSessionKeys(
+      identity.privateKey,
+      identity.publicKey,
+      partnerIdentityKey,
+    );
+    const isInitiator = identity.publicKey < partnerIdentityKey;
+
+    // deriveSessionKeys hands the low->high key to the lower identity as its
+    // send key; use that as the shared root
+    const sharedRoot = isInitiator ? sendKey : receiveKey;
+
+    let state: RatchetState;
+    if (isInitiator) {
+      const dhSelf = await generateKeyPair();
+      const [rootKey, sendChainKey] = await kdfRoot(
+        sharedRoot,
+        await computeSharedSecret(dhSelf.privateKey, partnerIdentityKey),
+      );
+      state = {
+        version: RATCHET_STATE_VERSION,
+        partnerIdentityKey,
+        rootKey,
+        dhSelf,
+        dhRemote: partnerIdentityKey,
+        sendChainKey,
+        receiveChainKey: null,
+        sendCount: 0,
+        receiveCount: 0,
+        previousSendCount: 0,
+        skippedKeys: {},
+      };
+    } else {
+      state = {
+        version: RATCHET_STATE_VERSION,
+        partnerIdentityKey,
+        rootKey: sharedRoot,
+        dhSelf: {
+          publicKey: identity.publicKey,
+          privateKey: identity.privateKey,
+        },
+        dhRemote: null,
+        sendChainKey: null,
+        receiveChainKey: null,
+        sendCount: 0,
+        receiveCount: 0,
+        previousSendCount: 0,
+        skippedKeys: {},
+      };
+    }
+
+    const session = new RatchetSession(state, persist);
+    session.persist?.(session.toJSON());
+    return session;
+  }
+
+  /**
+   * Start a session as the sender of an X3DH handshake. The recipient's signed
+   * prekey stands in for its first ratchet key, and every message carries the
+   * X3DH header until the recipient replies.
+   */
+  static async initiateFromPreKeys(
+    sharedKey: string,
+    partnerIdentityKey: string,
+    signedPreKey: string,
+    prekey: PreKeyHeader,
+    persist?: (state: RatchetState) => void,
+  ): Promise<RatchetSession> {
+    const dhSelf = await generateKeyPair();
+    const [rootKey, sendChainKey] = await kdfRoot(
+      sharedKey,
+      await computeSharedSecret(dhSelf.privateKey, signedPreKey),
+    );
+
+    const session = new RatchetSession(
+      {
+        version: RATCHET_STATE_VERSION,
+        partnerIdentityKey,
+        rootKey,
+        dhSelf,
+        dhRemote: signedPreKey,
+        sendChainKey,
+        receiveChainKey: null,
+        sendCount: 0,
+        receiveCount: 0,
+        previousSendCount: 0,
+        skippedKeys: {},
+        pendingPreKey: prekey,
+        baseKey: prekey.ephemeralKey,
+      },
+      persist,
+    );
+    session.persist?.(session.toJSON());
+    return session;
+  }
+
+  /**
+   * Start a session as the recipient of an X3DH handshake. The session can't
+   * send until it has decrypted the sender's first message.
+   */
+  static respondFromPreKeys(
+    sharedKey: string,
+    partnerIdentityKey: string,
+    signedPreKeyPair: KeyPair,
+    prekey: PreKeyHeader,
+    persist?: (state: RatchetState) => void,
+  ): RatchetSession {
+    // Not persisted until the first message authenticates
+    return new RatchetSession(
+      {
+        version: RATCHET_STATE_VERSION,
+        partnerIdentityKey,
+        rootKey: sharedKey,
+        dhSelf: {
+          publicKey: signedPreKeyPair.publicKey,
+          privateKey: signedPreKeyPair.privateKey,
+        },
+        dhRemote: null,
+        sendChainKey: null,
+        receiveChainKey: null,
+        sendCount: 0,
+        receiveCount: 0,
+        previousSendCount: 0,
+        skippedKeys: {},
+        baseKey: prekey.ephemeralKey,
+      },
+      persist,
+    );
+  }
+
+  /**
+   * Restore a session from persisted state
+   */
+  static fromJSON(
+    state: RatchetState,
+    persist?: (state: RatchetState) => void,
+  ): RatchetSession {
+    if (!state || state.version !== RATCHET_STATE_VERSION) {
+      throw new Error("Unsupported ratchet state version");
+    }
+    const restored = cloneState(state);
+    // Identity-seeded responders used to send on a chain derived from the
+    // identity keys alone; drop it until the initiator's ratchet key arrives
+    if (!restored.dhRemote && !restored.baseKey) {
+      restored.sendChainKey = null;
+    }
+    return new RatchetSession(restored, persist);
+  }
+
+  toJSON(): RatchetState {
+    return cloneState(this.state);
+  }
+
+  get partnerIdentityKey(): string {
+    return this.state.partnerIdentityKey;
+  }
+
+  get baseKey(): string | undefined {
+    return this.state.baseKey;
+  }
+
+  // False for an identity-seeded responder that hasn't heard from the
+  // initiator yet
+  get canSend(): boolean {
+    return !!this.state.sendChainKey;
+  }
+
+  /**
+   * Encrypt a message with the next sending message key
+   */
+  encrypt(plaintext: string, aad: EnvelopeAad): Promise<EncryptedMessage> {
+    return this.enqueue(async () => {
+      const next = cloneState(this.state);
+      if (!next.sendChainKey) {
+        throw new Error("Ratchet session has no sending chain");
+      }
+
+      const [chainKey, messageKey] = await kdfChain(next.sendChainKey);
+      const header: RatchetHeader = {
+        dh: next.dhSelf.publicKey,
+        pn: next.previousSendCount,
+        n: next.sendCount,
+      };
+      next.sendChainKey = chainKey;
+      next.sendCount += 1;
+
+      const envelope = await encryptMessage(
+        plaintext,
+        messageKey,
+        aad,
+        header,
+        next.pendingPreKey ?? undefined,
+      );
+      this.commit(next);
+      return envelope;
+    });
+  }
+
+  /**
+   * Decrypt a message, stepping the DH ratchet when the sender has moved to a
+   * new ratchet key. State only advances if the message authenticates, so a
+   * forged or corrupted envelope cannot desynchronise the session.
+   */
+  decrypt(envelope: EncryptedMessage): Promise<string> {
+    return this.enqueue(async () => {
+      const header = envelope.header;
+      if (!header) {
+        throw new Error("Envelope has no ratchet header");
+      }
+
+      const next = cloneState(this.state);
+
+      // Out-of-order message whose key we derived earlier
+      const skippedId = skippedKeyId(header.dh, header.n);
+      const skippedKey = next.skippedKeys[skippedId];
+      if (skippedKey) {
+        const plaintext = await decryptMessage(envelope, skippedKey);
+        delete next.skippedKeys[skippedId];
+        next.pendingPreKey = null;
+        this.commit(next);
+        return plaintext;
+      }
+
+      if (header.dh !== next.dhRemote) {
+        await skipMessageKeys(next, header.pn);
+        await dhRatchet(next, header.dh);
+      }
+      await skipMessageKeys(next, header.n);
+
+      const [chainKey, messageKey] = await kdfChain(next.receiveChainKey!);
+      next.receiveChainKey = chainKey;
+      next.receiveCount += 1;
+
+      const plaintext = await decryptMessage(envelope, messageKey);
+      // Anything from the partner means it has the session; stop sending X3DH headers
+      next.pendingPreKey = null;
+      this.commit(next);
+      return plaintext;
+    });
+  }
+
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private commit(next: RatchetState) {
+    this.state = next;
+    this.persist?.(cloneState(next));
+  }
+}
+
+/**
+ * Derive and store receiving message keys up to (but not including) `until`,
+ * so messages that arrive later can still be decrypted
+ */
+async function skipMessageKeys(state: RatchetState, until: number) {
+  if (!state.receiveChainKey || !state.dhRemote) {
+    return;
+  }
+  if (until - state.receiveCount > MAX_SKIP) {
+    throw new Error("Too many skipped messages");
+  }
+
+  while (state.receiveCount < until) {
+    const [chainKey, messageKey] = await kdfChain(state.receiveChainKey);
+    state.skippedKeys[skippedKeyId(state.dhRemote, state.receiveCount)] =
+      messageKey;
+    state.receiveChainKey = chainKey;
+    state.receiveCount += 1;
+  }
+
+  // Drop the oldest keys once the cache is full
+  const ids = Object.keys(state.skippedKeys);
+  for (let i = 0; i < ids.length - MAX_STORED_SKIPPED_KEYS; i++) {
+    delete state.skippedKeys[ids[i]];
+  }
+}
+
+/**
+ * DH ratchet step on receiving a new ratchet public key from the partner
+ */
+async function dhRatchet(state: RatchetState, remoteKey: string) {
+  state.previousSendCount = state.sendCount;
+  state.sendCount = 0;
+  state.receiveCount = 0;
+  state.dhRemote = remoteKey;
+
+  [state.rootKey, state.receiveChainKey] = await kdfRoot(
+    state.rootKey,
+    await computeSharedSecret(state.dhSelf.privateKey, remoteKey),
+  );
+
+  state.dhSelf = await generateKeyPair();
+  [state.rootKey, state.sendChainKey] = await kdfRoot(
+    state.rootKey,
+    await computeSharedSecret(state.dhSelf.privateKey, remoteKey),
+  );
+}
+
+function storageKey(contactId: string): string {
+  return `${STORAGE_PREFIX}${contactId}`;
+}
+
+function persistTo(contactId: string) {
+  return (state: RatchetState) => {
+    localStorage.setItem(storageKey(contactId), JSON.stringify(state));
+  };
+}
+
+/**
+ * Load the persisted session for a contact, if any
+ */
+export function loadRatchetSession(contactId: string): RatchetSession | null {
+  const saved = localStorage.getItem(storageKey(contactId));
+  if (!saved) return null;
+
+  try {
+    return RatchetSession.fromJSON(JSON.parse(saved), persistTo(contactId));
+  } catch (error) {
+    console.error("Failed to load ratchet session:", error);
+    localStorage.removeItem(storageKey(contactId));
+    return null;
+  }
+}
+
+/**
+ * Create (or replace) the persisted session for a contact
+ */
+export function createRatchetSession(
+  contactId: string,
+  identity: KeyPair,
+  partnerIdentityKey: string,
+): Promise<RatchetSession> {
+  return RatchetSession.initialize(
+    identity,
+    partnerIdentityKey,
+    persistTo(contactId),
+  );
+}
+
+/**
+ * Create (or replace) the persisted session for a contact we reached through
+ * its prekey bundle
+ */
+export function createPreKeyInitiatorSession(
+  contactId: string,
+  sharedKey: string,
+  partnerIdentityKey: string,
+  signedPreKey: string,
+  prekey: PreKeyHeader,
+): Promise<RatchetSession> {
+  return RatchetSession.initiateFromPreKeys(
+    sharedKey,
+    partnerIdentityKey,
+    signedPreKey,
+    prekey,
+    persistTo(contactId),
+  );
+}
+
+/**
+ * Build the session for a contact that reached us through our prekey bundle.
+ * It replaces any stored session once its first message decrypts.
+ */
+export function createPreKeyResponderSession(
+  contactId: string,
+  sharedKey: string,
+  partnerIdentityKey: string,
+  signedPreKeyPair: KeyPair,
+  prekey: PreKeyHeader,
+): RatchetSession {
+  return RatchetSession.respondFromPreKeys(
+    sharedKey,
+    partnerIdentityKey,
+    signedPreKeyPair,
+    prekey,
+    persistTo(contactId),
+  );
+}
+
+/**
+ * Forget the session for a contact
+ */
+export function deleteRatchetSession(contactId: string) {
+  localStorage.removeItem(storageKey(contactId));
+}
+
+/**
+ * Forget every persisted session
+ */
+export function clearRatchetSessions() {
+  Object.keys(localStorage)
+    .filter((key) => key.startsWith(STORAGE_PREFIX))
+    .forEach((key) => localStorage.removeItem(key));
+}
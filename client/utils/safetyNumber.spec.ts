@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { generateKeyPair } from "./crypto";
+import {
+  computeSafetyNumber,
+  formatSafetyNumber,
+  safetyNumberQrPayload,
+  matchesSafetyNumber,
+} from "./safetyNumber";
+
+describe("computeSafetyNumber", () => {
+  it("should give both sides the same 60 digits", async () => {
+    const alice = await generateKeyPair();
+    const bob = await generateKeyPair();
+
+    const fromAlice = await computeSafetyNumber(
+      "alice",
+      alice.publicKey,
+      "bob",
+      bob.publicKey,
+    );
+    const fromBob = await computeSafetyNumber(
+      "bob",
+      bob.publicKey,
+      "alice",
+      alice.publicKey,
+    );
+
+    expect(fromAlice).toMatch(/^\d{60}$/);
+    expect(fromAlice).toBe(fromBob);
+    expect(formatSafetyNumber(fromAlice)).toHaveLength(12);
+  });
+
+  it("should change when a key is swapped", async () => {
+    const alice = await generateKeyPair();
+    const bob = await generateKeyPair();
+    const mallory = await generateKeyPair();
+
+    const real = await computeSafetyNumber(
+      "alice",
+      alice.publicKey,
+      "bob",
+      bob.publicKey,
+    );
+    const swapped = await computeSafetyNumber(
+      "alice",
+      alice.publicKey,
+      "bob",
+      mallory.publicKey,
+    );
+
+    expect(swapped).not.toBe(real);
+  });
+});
+
+describe("matchesSafetyNumber", () => {
+  const safetyNumber = "12345".repeat(12);
+
+  it("should accept the QR payload and the spaced display form", () => {
+    expect(
+      matchesSafetyNumber(safetyNumberQrPayload(safetyNumber), safetyNumber),
+    ).toBe(true);
+    expect(
+      matchesSafetyNumber(
+        formatSafetyNumber(safetyNumber).join(" "),
+        safetyNumber,
+      ),
+    ).toBe(true);
+  });
+
+  it("should reject anything else", () => {
+    expect(matchesSafetyNumber("", safetyNumber)).toBe(false);
+    expect(matchesSafetyNumber("54321".repeat(12), safetyNumber)).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+import { base64ToBytes } from "./crypto";
+
+/**
+ * Safety numbers let two users check out of band that the identity keys the
+ * relay handed them are the real ones.
+ *
+ * Each side's fingerprint is an iterated SHA-512 over its identity key and user
+ * ID, cut into six 5-digit blocks. The two fingerprints are sorted before they
+ * are joined, so both users see the same 60 digits. The QR code carries the
+ * same number, so scanning the partner's screen checks it in one step.
+ */
+
+const FINGERPRINT_VERSION = 0;
+const FINGERPRINT_ITERATIONS = 5200;
+export const VERIFICATION_QR_PREFIX = "bpw-verify:1:";
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * 30-digit fingerprint of one identity key
+ */
+async function fingerprint(
+  userId: string,
+  identityKey: string,
+): Promise<string> {
+  const key = base64ToBytes(identityKey);
+  let hash = concatBytes(
+    new Uint8Array([0, FINGERPRINT_VERSION]),
+    key,
+    new TextEncoder().encode(userId),
+  );
+
+  // Stretch so a colliding key pair is expensive to search for
+  for (let i = 0; i < FINGERPRINT_ITERATIONS; i++) {
+    hash = new Uint8Array(
+      await crypto.subtle.digest("SHA-512", concatBytes(hash, key)),
+    );
+  }
+
+  let digits = "";
+  for (let offset = 0; offset < 30; offset += 5) {
+    let chunk = 0;
+    for (let i = 0; i < 5; i++) {
+      chunk = chunk * 256 + hash[offset + i];
+    }
+    digits += (chunk % 100000).toString().padStart(5, "0");
+  }
+  return digits;
+}
+
+/**
+ * Compute the 60-digit safety number for a pair of identities. The result is
+ * the same whichever side computes it.
+ */
+export async function computeSafetyNumber(
+  ownId: string,
+  ownIdentityKey: string,
+  partnerId: string,
+  partnerIdentityKey: string,
+): Promise<string> {
+  const fingerprints = await Promise.all([
+    fingerprint(ownId, ownIdentityKey),
+    fingerprint(partnerId, partnerIdentityKey),
+  ]);
+  return fingerprints.sort().join("");
+}
+
+/**
+ * Split a safety number into 5-digit blocks for display
+ */
+export function formatSafetyNumber(safetyNumber: string): string[] {
+  return safetyNumber.match(/.{1,5}/g) ?? [];
+}
+
+/**
+ * Text encoded in the verification QR code
+ */
+export function safetyNumberQrPayload(safetyNumber: string): string {
+  return `${VERIFICATION_QR_PREFIX}${safetyNumber}`;
+}
+
+/**
+ * Check a scanned QR payload or typed number against our safety number
+ */
+export function matchesSafetyNumber(
+  scanned: string,
+  safetyNumber: string,
+): boolean {
+  const trimmed = scanned.trim();
+  const digits = trimmed.startsWith(VERIFICATION_QR_PREFIX)
+    ? trimmed.slice(VERIFICATION_QR_PREFIX.length)
+    : trimmed.replace(/\s+/g, "");
+  return digits.length > 0 && digits === safetyNumber;
+}
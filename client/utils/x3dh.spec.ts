@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import { PreKeyBundle } from "@shared/api";
+import { generateKeyPair, KeyPair } from "./crypto";
+import { RatchetSession } from "./ratchet";
+import {
+  generatePreKeys,
+  initiateX3DH,
+  respondX3DH,
+  verifyPreKeyBundle,
+  LocalPreKeys,
+} from "./x3dh";
+
+function aad(senderId: string, n: number) {
+  return {
+    senderId,
+    messageId: `${senderId}-${n}`,
+    timestamp: new Date(n).toISOString(),
+  };
+}
+
+// What the server hands out: the uploaded bundle plus one one-time prekey
+async function publishBundle(
+  identity: KeyPair,
+): Promise<{ local: LocalPreKeys; bundle: PreKeyBundle }> {
+  const { local, upload } = await generatePreKeys(identity);
+  const bundle: PreKeyBundle = {
+    userId: "bob",
+    identityKey: upload.identityKey,
+    signingKey: upload.signingKey,
+    identitySignature: upload.identitySignature,
+    signedPreKey: upload.signedPreKey,
+    oneTimePreKey: upload.oneTimePreKeys[0],
+  };
+  return { local, bundle };
+}
+
+describe("X3DH", () => {
+  it("should derive the same key on both sides", async () => {
+    const alice = await generateKeyPair();
+    const bob = await generateKeyPair();
+    const { local, bundle } = await publishBundle(bob);
+
+    const { sharedKey, prekey } = await initiateX3DH(alice, bundle);
+    expect(prekey.oneTimePreKeyId).toBe(bundle.oneTimePreKey!.keyId);
+    expect(await respondX3DH(bob, local, prekey)).toBe(sharedKey);
+  });
+
+  it("should work without a one-time prekey", async () => {
+    const alice = await generateKeyPair();
+    const bob = await generateKeyPair();
+    const { local, bundle } = await publishBundle(bob);
+    delete bundle.oneTimePreKey;
+
+    const { sharedKey, prekey } = await initiateX3DH(alice, bundle);
+    expect(prekey.oneTimePreKeyId).toBeUndefined();
+    expect(await respondX3DH(bob, local, prekey)).toBe(sharedKey);
+  });
+
+  it("should reject a bundle with a substituted signed prekey", async () => {
+    const alice = await generateKeyPair();
+    const { bundle } = await publishBundle(await generateKeyPair());
+    const mallory = await generateKeyPair();
+    const forged = {
+      ...bundle,
+      signedPreKey: { ...bundle.signedPreKey, publicKey: mallory.publicKey },
+    };
+
+    expect(await verifyPreKeyBundle(bundle)).toBe(true);
+    expect(await verifyPreKeyBundle(forged)).toBe(false);
+    await expect(initiateX3DH(alice, forged)).rejects.toThrow(/signature/);
+  });
+
+  it("should reject a bundle whose signing key the identity key didn't sign", async () => {
+    const alice = await generateKeyPair();
+    const bob = await generateKeyPair();
+    const { bundle } = await publishBundle(bob);
+    // The server swaps in its own signing key and re-signs the prekey with it
+    const { bundle: mallorys } = await publishBundle(await generateKeyPair());
+    const forged = {
+      ...bundle,
+      signingKey: mallorys.signingKey,
+      signedPreKey: mallorys.signedPreKey,
+    };
+
+    expect(await verifyPreKeyBundle(forged)).toBe(false);
+    await expect(initiateX3DH(alice, forged)).rejects.toThrow(/signature/);
+  });
+
+  it("should seed a ratchet session the recipient can answer", async () => {
+    const alice = await generateKeyPair();
+    const bob = await generateKeyPair();
+    const { local, bundle } = await publishBundle(bob);
+
+    const { sharedKey, prekey } = await initiateX3DH(alice, bundle);
+    const aliceSession = await RatchetSession.initiateFromPreKeys(
+      sharedKey,
+      bundle.identityKey,
+      bundle.signedPreKey.publicKey,
+      prekey,
+    );
+    const first = await aliceSession.encrypt(
+      "sent while offline",
+      aad("alice", 1),
+    );
+    expect(first.prekey).toEqual(prekey);
+
+    // Bob comes online later and rebuilds the session from the header
+    const bobSession = RatchetSession.respondFromPreKeys(
+      await respondX3DH(bob, local, first.prekey!),
+      first.prekey!.identityKey,
+      local.signedPreKey.keyPair,
+      first.prekey!,
+    );
+    expect(await bobSession.decrypt(first)).toBe("sent while offline");
+
+    const reply = await bobSession.encrypt("got it", aad("bob", 2));
+    expect(reply.prekey).toBeUndefined();
+    expect(await aliceSession.decrypt(reply)).toBe("got it");
+
+    const next = await aliceSession.encrypt("great", aad("alice", 3));
+    expect(next.prekey).toBeUndefined();
+    expect(await bobSession.decrypt(next)).toBe("great");
+  });
+});
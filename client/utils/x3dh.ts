@@ -0,0 +1,264 @@
+import {
+  MemberKeys,
+  OneTimePreKey,
+  PreKeyBundle,
+  PreKeyBundleUpload,
+} from "@shared/api";
+import {
+  KeyPair,
+  PreKeyHeader,
+  generateKeyPair,
+  generateSigningKeyPair,
+  computeSharedSecret,
+  signData,
+  verifySignature,
+  bytesToBase64,
+} from "./crypto";
+
+/**
+ * X3DH key agreement against server-hosted prekey bundles.
+ *
+ * Each client uploads its identity key, a signed prekey and a batch of
+ * one-time prekeys. A sender fetches the recipient's bundle (consuming one
+ * one-time prekey), derives a shared key with a fresh ephemeral key and sends
+ * the X3DH header with its first messages. The recipient re-derives the same
+ * key from its private prekeys whenever it comes online, so the first message
+ * can be encrypted while the recipient is offline.
+ */
+
+const X3DH_INFO = "builder-pixel-works/x3dh/v1";
+const STORAGE_KEY = "preKeys.v1";
+
+// How many one-time prekeys to generate per upload
+export const ONE_TIME_PREKEY_BATCH = 100;
+
+/**
+ * Private halves of our prekeys, kept on this device only
+ */
+export interface LocalPreKeys {
+  identityKey: string;
+  signing: KeyPair;
+  identitySignature: string;
+  signedPreKey: { keyId: number; keyPair: KeyPair; signature: string };
+  oneTimePreKeys: Record<number, KeyPair>;
+  nextOneTimePreKeyId: number;
+}
+
+/**
+ * Generate `count` one-time prekeys, recording the private halves in `local`
+ * and returning the public halves for upload
+ */
+export async function generateOneTimePreKeys(
+  local: LocalPreKeys,
+  count: number = ONE_TIME_PREKEY_BATCH,
+): Promise<OneTimePreKey[]> {
+  const oneTimePreKeys: OneTimePreKey[] = [];
+  for (let i = 0; i < count; i++) {
+    const keyId = local.nextOneTimePreKeyId++;
+    const keyPair = await generateKeyPair();
+    local.oneTimePreKeys[keyId] = keyPair;
+    oneTimePreKeys.push({ keyId, publicKey: keyPair.publicKey });
+  }
+  return oneTimePreKeys;
+}
+
+/**
+ * Generate a signing key, signed prekey and first batch of one-time prekeys
+ * for an identity key pair. The identity key signs the signing key, so
+ * everything the signing key signs traces back to the identity that safety
+ * numbers verify.
+ */
+export async function generatePreKeys(
+  identity: KeyPair,
+): Promise<{ local: LocalPreKeys; upload: PreKeyBundleUpload }> {
+  const signing = await generateSigningKeyPair();
+  const signedPreKeyPair = await generateKeyPair();
+
+  const local: LocalPreKeys = {
+    identityKey: identity.publicKey,
+    signing,
+    identitySignature: await signData(identity.privateKey, signing.publicKey),
+    signedPreKey: {
+      keyId: 1,
+      keyPair: signedPreKeyPair,
+      signature: await signData(signing.privateKey, signedPreKeyPair.publicKey),
+    },
+    oneTimePreKeys: {},
+    nextOneTimePreKeyId: 1,
+  };
+  const oneTimePreKeys = await generateOneTimePreKeys(local);
+
+  return {
+    local,
+    upload: {
+      identityKey: local.identityKey,
+      signingKey: signing.publicKey,
+      identitySignature: local.identitySignature,
+      signedPreKey: {
+        keyId: local.signedPreKey.keyId,
+        publicKey: signedPreKeyPair.publicKey,
+        signature: local.signedPreKey.signature,
+      },
+      oneTimePreKeys,
+    },
+  };
+}
+
+/**
+ * Check that the signing key was signed by the identity key it's published
+ * with. The server hands both out, so a signing key that isn't tied to the
+ * identity key could be anyone's.
+ */
+export async function verifySigningKey(keys: MemberKeys): Promise<boolean> {
+  return verifySignature(
+    keys.identityKey,
+    keys.signingKey,
+    keys.identitySignature,
+  );
+}
+
+/**
+ * Check that the bundle's signing key was signed by its identity key, and its
+ * signed prekey by the signing key
+ */
+export async function verifyPreKeyBundle(
+  bundle: PreKeyBundle,
+): Promise<boolean> {
+  return (
+    (await verifySigningKey(bundle)) &&
+    (await verifySignature(
+      bundle.signingKey,
+      bundle.signedPreKey.publicKey,
+      bundle.signedPreKey.signature,
+    ))
+  );
+}
+
+/**
+ * SK = HKDF(F || DH1 || DH2 || DH3 [|| DH4]), with F = 32 0xFF bytes as in the
+ * X3DH spec so the input never looks like a single DH output
+ */
+async function deriveX3DHKey(dhOutputs: ArrayBuffer[]): Promise<string> {
+  const ikm = new Uint8Array(32 + dhOutputs.length * 32);
+  ikm.fill(0xff, 0, 32);
+  dhOutputs.forEach((output, i) =>
+    ikm.set(new Uint8Array(output), 32 + i * 32),
+  );
+
+  const hkdfKey = await crypto.subtle.importKey("raw", ikm, "HKDF", false, [
+    "deriveBits",
+  ]);
+  const sharedKey = await crypto.subtle.deriveBits(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new Uint8Array(32),
+      info: new TextEncoder().encode(X3DH_INFO),
+    },
+    hkdfKey,
+    256,
+  );
+  return bytesToBase64(sharedKey);
+}
+
+/**
+ * Sender side: derive a shared key from the recipient's bundle. The returned
+ * header travels with our first messages so the recipient can do the same.
+ */
+export async function initiateX3DH(
+  identity: KeyPair,
+  bundle: PreKeyBundle,
+): Promise<{ sharedKey: string; prekey: PreKeyHeader }> {
+  if (!(await verifyPreKeyBundle(bundle))) {
+    throw new Error("Prekey bundle signature is invalid");
+  }
+
+  const ephemeral = await generateKeyPair();
+  const dhOutputs = [
+    await computeSharedSecret(
+      identity.privateKey,
+      bundle.signedPreKey.publicKey,
+    ),
+    await computeSharedSecret(ephemeral.privateKey, bundle.identityKey),
+    await computeSharedSecret(
+      ephemeral.privateKey,
+      bundle.signedPreKey.publicKey,
+    ),
+  ];
+  if (bundle.oneTimePreKey) {
+    dhOutputs.push(
+      await computeSharedSecret(
+        ephemeral.privateKey,
+        bundle.oneTimePreKey.publicKey,
+      ),
+    );
+  }
+
+  const prekey: PreKeyHeader = {
+    identityKey: identity.publicKey,
+    ephemeralKey: ephemeral.publicKey,
+    signedPreKeyId: bundle.signedPreKey.keyId,
+  };
+  if (bundle.oneTimePreKey) {
+    prekey.oneTimePreKeyId = bundle.oneTimePreKey.keyId;
+  }
+
+  return { sharedKey: await deriveX3DHKey(dhOutputs), prekey };
+}
+
+/**
+ * Recipient side: derive the sender's shared key from our private prekeys.
+ * The one-time prekey is not deleted here; callers consume it only once the
+ * first message has authenticated.
+ */
+export async function respondX3DH(
+  identity: KeyPair,
+  local: LocalPreKeys,
+  prekey: PreKeyHeader,
+): Promise<string> {
+  if (prekey.signedPreKeyId !== local.signedPreKey.keyId) {
+    throw new Error("Unknown signed prekey");
+  }
+
+  const signedPreKey = local.signedPreKey.keyPair;
+  const dhOutputs = [
+    await computeSharedSecret(signedPreKey.privateKey, prekey.identityKey),
+    await computeSharedSecret(identity.privateKey, prekey.ephemeralKey),
+    await computeSharedSecret(signedPreKey.privateKey, prekey.ephemeralKey),
+  ];
+  if (prekey.oneTimePreKeyId !== undefined) {
+    const oneTimePreKey = local.oneTimePreKeys[prekey.oneTimePreKeyId];
+    if (!oneTimePreKey) {
+      throw new Error("One-time prekey already used or unknown");
+    }
+    dhOutputs.push(
+      await computeSharedSecret(oneTimePreKey.privateKey, prekey.ephemeralKey),
+    );
+  }
+
+  return deriveX3DHKey(dhOutputs);
+}
+
+/**
+ * Load our private prekeys, if any
+ */
+export function loadLocalPreKeys(): LocalPreKeys | null {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return null;
+
+  try {
+    return JSON.parse(saved);
+  } catch (error) {
+    console.error("Failed to load prekeys:", error);
+    localStorage.removeItem(STORAGE_KEY);
+    return null;
+  }
+}
+
+export function saveLocalPreKeys(local: LocalPreKeys) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(local));
+}
+
+export function clearLocalPreKeys() {
+  localStorage.removeItem(STORAGE_KEY);
+}
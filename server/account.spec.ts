@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import bcrypt from "bcryptjs";
+import { MemoryStorage, getStorage, setStorage } from "./storage";
+import { ApiError } from "./errors";
+import { createGroup, getGroupDetails } from "./groups";
+import { createSession, isSessionActive } from "./sessions";
+import {
+  AccountDeletion,
+  deleteAccount,
+  exportAccountData,
+  onAccountDeleted,
+} from "./account";
+
+const statusOf = async (action: () => unknown) => {
+  try {
+    await action();
+  } catch (caught) {
+    if (caught instanceof ApiError) return caught.status;
+    throw caught;
+  }
+  return null;
+};
+
+const deletions: AccountDeletion[] = [];
+onAccountDeleted((deletion) => deletions.push(deletion));
+
+describe("account deletion and export", () => {
+  beforeEach(() => {
+    deletions.length = 0;
+    const storage = new MemoryStorage();
+    for (const id of ["alice", "bob", "carol"]) {
+      storage.createUser({
+        id,
+        email: `${id}@example.com`,
+        passwordHash: bcrypt.hashSync("password", 4),
+        emailVerified: true,
+        createdAt: new Date(0).toISOString(),
+      });
+    }
+    for (const partnerId of ["bob", "carol"]) {
+      storage.saveConnection({
+        id: `alice-${partnerId}`,
+        userId1: "alice",
+        userId2: partnerId,
+        createdAt: new Date(0).toISOString(),
+        isActive: true,
+      });
+    }
+    setStorage(storage);
+  });
+
+  it("should need the password again", async () => {
+    expect(await statusOf(() => deleteAccount("alice", "wrong"))).toBe(401);
+    expect(getStorage().getUserById("alice")).not.toBeNull();
+    expect(deletions).toEqual([]);
+  });
+
+  it("should delete the user and tell their connections", async () => {
+    const { session } = createSession("alice");
+    await deleteAccount("alice", "password");
+
+    expect(getStorage().getUserById("alice")).toBeNull();
+    expect(getStorage().getConnectionsForUser("bob")).toEqual([]);
+    expect(isSessionActive(session.sessionId, "alice")).toBe(false);
+    expect(deletions).toHaveLength(1);
+    expect(deletions[0].partnerIds.sort()).toEqual(["bob", "carol"]);
+  });
+
+  it("should hand the user's groups to someone else", async () => {
+    const group = createGroup("alice", {
+      name: "Book club",
+      memberIds: ["bob"],
+    });
+    await deleteAccount("alice", "password");
+
+    const members = getGroupDetails(group.id)?.members ?? [];
+    expect(members.map((member) => [member.userId, member.role])).toEqual([
+      ["bob", "admin"],
+    ]);
+  });
+
+  it("should export what the server holds without the password hash", () => {
+    createSession("alice", { deviceId: "laptop" });
+    const data = exportAccountData("alice");
+
+    expect(data.user).toEqual({
+      id: "alice",
+      email: "alice@example.com",
+      emailVerified: true,
+      createdAt: new Date(0).toISOString(),
+    });
+    expect(data.sessions.map((session) => session.deviceId)).toEqual([
+      "laptop",
+    ]);
+    expect(data.connections).toHaveLength(2);
+    expect(JSON.stringify(data)).not.toContain("passwordHash");
+  });
+});
@@ -0,0 +1,99 @@
+import bcrypt from "bcryptjs";
+import { AccountExport } from "@shared/api";
+import { getStorage } from "./storage";
+import { ApiError } from "./errors";
+import { getBlockedUsers, getFriendRequests } from "./friends";
+import { getGroupsForUser, leaveGroup } from "./groups";
+import { getInvitesForUser } from "./invites";
+import { toUser } from "./profiles";
+import { getPartnerIdsForUser } from "./routes/pairing";
+import { getPublicPreKeys } from "./routes/prekeys";
+import { getSessionsForUser, revokeAllSessions } from "./sessions";
+import {
+  getTwoFactorStatus,
+  isTwoFactorEnabled,
+  verifySecondFactor,
+} from "./twoFactor";
+
+export interface AccountDeletion {
+  userId: string;
+  partnerIds: string[]; // Who the user was connected to, to tell them
+}
+
+type AccountDeletedListener = (deletion: AccountDeletion) => void;
+const accountDeletedListeners: AccountDeletedListener[] = [];
+
+/**
+ * Register a callback for after an account is deleted
+ */
+export const onAccountDeleted = (listener: AccountDeletedListener) => {
+  accountDeletedListeners.push(listener);
+};
+
+/**
+ * Delete the account and everything the server keeps for it. A signed-in
+ * token isn't enough on its own: the password has to be entered again, and
+ * a second factor when the account has one.
+ */
+export const deleteAccount = async (
+  userId: string,
+  password: unknown,
+  code?: unknown,
+) => {
+  const storage = getStorage();
+  const user = storage.getUserById(userId);
+  if (!user) {
+    throw new ApiError(404, "User not found");
+  }
+  if (
+    typeof password !== "string" ||
+    !(await bcrypt.compare(password, user.passwordHash))
+  ) {
+    throw new ApiError(401, "Incorrect password");
+  }
+  if (isTwoFactorEnabled(userId)) {
+    verifySecondFactor(userId, code);
+  }
+
+  const partnerIds = getPartnerIdsForUser(userId);
+
+  // Leave groups the usual way first, so each one keeps an admin and the
+  // remaining members hear about it
+  for (const membership of storage.getGroupMembershipsForUser(userId)) {
+    leaveGroup(membership.groupId, userId);
+  }
+  revokeAllSessions(userId);
+  storage.deleteUser(userId);
+
+  accountDeletedListeners.forEach((listener) =>
+    listener({ userId, partnerIds }),
+  );
+};
+
+/**
+ * Everything the server holds about the user, as one JSON document
+ */
+export const exportAccountData = (userId: string): AccountExport => {
+  const storage = getStorage();
+  const user = storage.getUserById(userId);
+  if (!user) {
+    throw new ApiError(404, "User not found");
+  }
+
+  return {
+    exportedAt: new Date().toISOString(),
+    user: toUser(user),
+    sessions: getSessionsForUser(userId),
+    twoFactor: getTwoFactorStatus(userId),
+    connections: storage.getConnectionsForUser(userId),
+    groups: getGroupsForUser(userId),
+    inviteCodes: getInvitesForUser(userId),
+    friendRequests: getFriendRequests(userId),
+    blockedUsers: getBlockedUsers(userId),
+    preKeys: getPublicPreKeys(userId),
+    queuedMessages: {
+      incoming: storage.getQueuedMessages(userId),
+      outgoing: storage.getQueuedMessagesFromSender(userId),
+    },
+  };
+};
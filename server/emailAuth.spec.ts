@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import bcrypt from "bcryptjs";
+import { MemoryStorage, getStorage, setStorage } from "./storage";
+import { ApiError } from "./errors";
+import { OutboxMailer, setMailer } from "./mailer";
+import { createSession, isSessionActive } from "./sessions";
+import {
+  requestPasswordReset,
+  resetPassword,
+  sendVerificationEmail,
+  verifyEmail,
+} from "./emailAuth";
+
+const statusOf = async (action: () => unknown) => {
+  try {
+    await action();
+  } catch (caught) {
+    if (caught instanceof ApiError) return caught.status;
+    throw caught;
+  }
+  return null;
+};
+
+// The token from the link in the last message sent
+const lastToken = (mailer: OutboxMailer) => {
+  const match =
+    mailer.sent[mailer.sent.length - 1]?.text.match(/token=([\w-]+)/);
+  return match?.[1] ?? "";
+};
+
+describe("email verification and password reset", () => {
+  let mailer: OutboxMailer;
+
+  beforeEach(() => {
+    const storage = new MemoryStorage();
+    storage.createUser({
+      id: "alice",
+      email: "alice@example.com",
+      passwordHash: "hash",
+      emailVerified: false,
+      createdAt: new Date(0).toISOString(),
+    });
+    setStorage(storage);
+    mailer = new OutboxMailer();
+    setMailer(mailer);
+  });
+
+  it("should verify the address from the emailed link, once", async () => {
+    await sendVerificationEmail("alice");
+    expect(mailer.sent[0].to).toBe("alice@example.com");
+
+    const token = lastToken(mailer);
+    expect(verifyEmail(token).emailVerified).toBe(true);
+    expect(getStorage().getUserById("alice")?.emailVerified).toBe(true);
+    expect(await statusOf(() => verifyEmail(token))).toBe(400);
+    expect(await statusOf(() => sendVerificationEmail("alice"))).toBe(409);
+  });
+
+  it("should only honour the newest verification link", async () => {
+    await sendVerificationEmail("alice");
+    const first = lastToken(mailer);
+    await sendVerificationEmail("alice");
+
+    expect(await statusOf(() => verifyEmail(first))).toBe(400);
+    verifyEmail(lastToken(mailer));
+  });
+
+  it("should reset the password and sign out every device", async () => {
+    const { session } = createSession("alice");
+    expect(isSessionActive(session.sessionId, "alice")).toBe(true);
+    await requestPasswordReset("alice@example.com");
+    const token = lastToken(mailer);
+
+    expect(await statusOf(() => verifyEmail(token))).toBe(400);
+    await resetPassword(token, "new password");
+
+    const user = getStorage().getUserById("alice")!;
+    expect(await bcrypt.compare("new password", user.passwordHash)).toBe(true);
+    expect(user.emailVerified).toBe(true);
+    expect(isSessionActive(session.sessionId, "alice")).toBe(false);
+    expect(await statusOf(() => resetPassword(token, "another one"))).toBe(400);
+  });
+
+  it("should send nothing for an address without an account", async () => {
+    await requestPasswordReset("nobody@example.com");
+    expect(mailer.sent).toHaveLength(0);
+  });
+});
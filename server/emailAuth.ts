@@ -0,0 +1,148 @@
+import { createHash, randomBytes } from "crypto";
+import bcrypt from "bcryptjs";
+import { getStorage, EmailTokenPurpose, StoredUser } from "./storage";
+import { ApiError } from "./errors";
+import { getMailer } from "./mailer";
+import { revokeAllSessions } from "./sessions";
+
+export const EMAIL_VERIFICATION_TTL_HOURS = 24;
+export const PASSWORD_RESET_TTL_MINUTES = 30;
+
+const MAX_EMAIL_LENGTH = 254;
+
+// Deliberately loose: one @, something either side, a dot in the domain.
+// The verification email is the real check.
+export const isValidEmail = (email: unknown): email is string =>
+  typeof email === "string" &&
+  email.length <= MAX_EMAIL_LENGTH &&
+  /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+// Links in mail point here. Taken from config rather than the request's Host
+// header, which a caller could set to their own site.
+const appUrl = () =>
+  (process.env.APP_URL || "http://localhost:8080").replace(/\/+$/, "");
+
+const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+// Replaces any earlier token for the same purpose, so only the newest link works
+const issueToken = (
+  userId: string,
+  purpose: EmailTokenPurpose,
+  ttlMs: number,
+): string => {
+  const storage = getStorage();
+  storage.deleteExpiredEmailTokens(new Date().toISOString());
+  storage.deleteEmailTokensForUser(userId, purpose);
+
+  const token = randomBytes(32).toString("base64url");
+  storage.saveEmailToken({
+    tokenHash: hashToken(token),
+    userId,
+    purpose,
+    createdAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + ttlMs).toISOString(),
+  });
+  return token;
+};
+
+// The user the token was issued to. Tokens work once.
+const redeemToken = (
+  token: unknown,
+  purpose: EmailTokenPurpose,
+): StoredUser => {
+  const storage = getStorage();
+  const stored =
+    typeof token === "string" && token
+      ? storage.getEmailToken(hashToken(token))
+      : null;
+  const user = stored ? storage.getUserById(stored.userId) : null;
+
+  if (
+    !stored ||
+    stored.purpose !== purpose ||
+    new Date(stored.expiresAt) <= new Date() ||
+    !user
+  ) {
+    throw new ApiError(400, "This link is invalid or has expired");
+  }
+  storage.deleteEmailToken(stored.tokenHash);
+  return user;
+};
+
+/**
+ * Email the user a link that verifies their address
+ */
+export const sendVerificationEmail = async (userId: string) => {
+  const user = getStorage().getUserById(userId);
+  if (!user) {
+    throw new ApiError(404, "User not found");
+  }
+  if (user.emailVerified) {
+    throw new ApiError(409, "Email is already verified");
+  }
+
+  const token = issueToken(
+    user.id,
+    "verify_email",
+    EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000,
+  );
+  await getMailer().send({
+    to: user.email,
+    subject: "Verify your SecureChat email address",
+    text:
+      `Confirm this address to start connecting with people on SecureChat:\n\n` +
+      `${appUrl()}/verify-email?token=${token}\n\n` +
+      `The link works for ${EMAIL_VERIFICATION_TTL_HOURS} hours. If you didn't sign up, ignore this email.`,
+  });
+};
+
+export const verifyEmail = (token: unknown): StoredUser => {
+  const user = redeemToken(token, "verify_email");
+  const verified = { ...user, emailVerified: true };
+  getStorage().updateUser(verified);
+  return verified;
+};
+
+/**
+ * Email a reset link if the address has an account. Says nothing either way,
+ * so the endpoint can't be used to find out who has signed up.
+ */
+export const requestPasswordReset = async (email: unknown) => {
+  const user =
+    typeof email === "string"
+      ? getStorage().getUserByEmail(email.trim())
+      : null;
+  if (!user) return;
+
+  const token = issueToken(
+    user.id,
+    "reset_password",
+    PASSWORD_RESET_TTL_MINUTES * 60 * 1000,
+  );
+  await getMailer().send({
+    to: user.email,
+    subject: "Reset your SecureChat password",
+    text:
+      `Someone asked to reset the password for this SecureChat account. To choose a new one:\n\n` +
+      `${appUrl()}/reset-password?token=${token}\n\n` +
+      `The link works for ${PASSWORD_RESET_TTL_MINUTES} minutes. If it wasn't you, ignore this email; ` +
+      `your password stays the same.`,
+  });
+};
+
+/**
+ * Set a new password from a reset link and sign out every device, in case
+ * the old password is why it was reset. Getting the link also proves the
+ * user reads that inbox, so it verifies the address too.
+ */
+export const resetPassword = async (token: unknown, password: unknown) => {
+  if (typeof password !== "string" || !password) {
+    throw new ApiError(400, "Password is required");
+  }
+
+  const user = redeemToken(token, "reset_password");
+  const passwordHash = await bcrypt.hash(password, 12);
+  getStorage().updateUser({ ...user, passwordHash, emailVerified: true });
+  revokeAllSessions(user.id);
+};
@@ -0,0 +1,37 @@
+import { Response } from "express";
+import { ApiResponse } from "@shared/api";
+
+/**
+ * A request the caller isn't allowed to make, or that doesn't fit the
+ * current state. `status` is the HTTP status to answer with.
+ */
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/**
+ * Answer with the error's own status, or a 500 for anything unexpected
+ */
+export const sendApiError = (
+  res: Response,
+  error: unknown,
+  context: string,
+) => {
+  if (error instanceof ApiError) {
+    const response: ApiResponse = { success: false, message: error.message };
+    return res.status(error.status).json(response);
+  }
+
+  console.error(`${context} error:`, error);
+  const response: ApiResponse = {
+    success: false,
+    message: "Internal server error",
+  };
+  res.status(500).json(response);
+};
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MemoryStorage, getStorage, setStorage } from "./storage";
+import { ApiError } from "./errors";
+import {
+  FriendRequestChange,
+  acceptFriendRequest,
+  blockUser,
+  cancelFriendRequest,
+  getFriendRequests,
+  onFriendRequestChange,
+  rejectFriendRequest,
+  sendFriendRequest,
+} from "./friends";
+
+const statusOf = (error: () => unknown) => {
+  try {
+    error();
+  } catch (caught) {
+    if (caught instanceof ApiError) return caught.status;
+    throw caught;
+  }
+  return null;
+};
+
+const changes: FriendRequestChange[] = [];
+onFriendRequestChange((change) => changes.push(change));
+
+describe("friend requests", () => {
+  beforeEach(() => {
+    const storage = new MemoryStorage();
+    for (const id of ["alice", "bob", "carol"]) {
+      storage.createUser({
+        id,
+        email: `${id}@example.com`,
+        passwordHash: "hash",
+        emailVerified: true,
+        username: id,
+        createdAt: new Date(0).toISOString(),
+      });
+    }
+    setStorage(storage);
+    changes.length = 0;
+  });
+
+  it("should connect the two users when a request is accepted", () => {
+    const { request } = sendFriendRequest("alice", "bob@example.com")!;
+
+    expect(changes.map((c) => [c.action, c.notifyUserId])).toEqual([
+      ["received", "bob"],
+    ]);
+    expect(getFriendRequests("bob").incoming.map((r) => r.from)).toEqual([
+      { id: "alice", username: "alice", email: "alice@example.com" },
+    ]);
+    expect(statusOf(() => sendFriendRequest("alice", "bob@example.com"))).toBe(
+      409,
+    );
+    expect(statusOf(() => acceptFriendRequest(request.id, "alice"))).toBe(404);
+
+    const { connectionId } = acceptFriendRequest(request.id, "bob");
+    expect(getStorage().getConnection(connectionId!)?.isActive).toBe(true);
+    expect(changes[1]).toMatchObject({
+      action: "accepted",
+      notifyUserId: "alice",
+      connectionId,
+    });
+    expect(changes[1].request.to?.email).toBe("bob@example.com");
+    expect(getFriendRequests("alice").outgoing).toEqual([]);
+    expect(statusOf(() => sendFriendRequest("bob", "alice@example.com"))).toBe(
+      409,
+    );
+  });
+
+  it("should find the recipient by handle, typed loosely", () => {
+    const { request } = sendFriendRequest("alice", "@Bob")!;
+    expect(request.toUserId).toBe("bob");
+    expect(request.to?.email).toBeUndefined();
+    expect(sendFriendRequest("alice", "nobody")).toBeNull();
+  });
+
+  it("should accept a crossed request instead of sending a second one", () => {
+    sendFriendRequest("alice", "bob@example.com");
+
+    expect(
+      sendFriendRequest("bob", "alice@example.com")!.connectionId,
+    ).toBeDefined();
+    expect(getFriendRequests("bob").incoming).toEqual([]);
+  });
+
+  it("should let the recipient reject and the sender cancel", () => {
+    const toBob = sendFriendRequest("alice", "bob@example.com")!.request;
+    const toCarol = sendFriendRequest("alice", "carol@example.com")!.request;
+
+    expect(statusOf(() => cancelFriendRequest(toBob.id, "bob"))).toBe(404);
+    rejectFriendRequest(toBob.id, "bob");
+    cancelFriendRequest(toCarol.id, "alice");
+
+    expect(changes.slice(2).map((c) => [c.action, c.notifyUserId])).toEqual([
+      ["rejected", "alice"],
+      ["cancelled", "carol"],
+    ]);
+    expect(getFriendRequests("alice").outgoing).toEqual([]);
+  });
+
+  it("should hide blockers and drop what was pending between the two", () => {
+    sendFriendRequest("alice", "bob@example.com");
+    blockUser("bob", "alice");
+
+    expect(getFriendRequests("bob").incoming).toEqual([]);
+    expect(statusOf(() => sendFriendRequest("bob", "alice@example.com"))).toBe(
+      403,
+    );
+
+    // Blockers and accounts that don't exist look the same, and nothing is sent
+    changes.length = 0;
+    expect(sendFriendRequest("alice", "bob@example.com")).toBeNull();
+    expect(sendFriendRequest("alice", "nobody@example.com")).toBeNull();
+    expect(getFriendRequests("bob").incoming).toEqual([]);
+    expect(getFriendRequests("alice").outgoing).toEqual([]);
+    expect(changes).toEqual([]);
+  });
+});
@@ -0,0 +1,236 @@
+import { v4 as uuidv4 } from "uuid";
+import { FriendRequest, FriendRequestAction, UserBlock } from "@shared/api";
+import { getStorage } from "./storage";
+import { ApiError } from "./errors";
+import { connectUsers } from "./routes/pairing";
+import { normalizeHandle, toPublicProfile } from "./profiles";
+
+export interface FriendRequestChange {
+  action: FriendRequestAction;
+  request: FriendRequest;
+  connectionId?: string;
+  notifyUserId: string; // The other side of the request from whoever acted
+}
+
+export interface FriendRequestResult {
+  request: FriendRequest;
+  connectionId?: string; // Set once the two users are connected
+}
+
+type FriendRequestListener = (change: FriendRequestChange) => void;
+const friendRequestListeners: FriendRequestListener[] = [];
+
+/**
+ * Register a callback for after a friend request is sent, answered or withdrawn
+ */
+export const onFriendRequestChange = (listener: FriendRequestListener) => {
+  friendRequestListeners.push(listener);
+};
+
+const notifyFriendRequestChange = (change: FriendRequestChange) => {
+  friendRequestListeners.forEach((listener) => listener(change));
+};
+
+// The two sides' profiles. The sender chose to reach out, so their address
+// goes with the request; the recipient's only once they're connected, so a
+// request never shows the sender a stranger's address.
+const withProfiles = (
+  request: FriendRequest,
+  connected = false,
+): FriendRequest => {
+  const storage = getStorage();
+  const from = storage.getUserById(request.fromUserId);
+  const to = storage.getUserById(request.toUserId);
+  return {
+    ...request,
+    ...(from && { from: toPublicProfile(from, true) }),
+    ...(to && { to: toPublicProfile(to, connected) }),
+  };
+};
+
+// Handles may be typed with or without the @; anything else with an @ in it
+// is taken for an email address
+const findRecipient = (recipient: unknown) => {
+  const storage = getStorage();
+  const typed = typeof recipient === "string" ? recipient.trim() : "";
+  if (!typed) return null;
+  return typed.includes("@") && !typed.startsWith("@")
+    ? storage.getUserByEmail(typed)
+    : storage.getUserByUsername(normalizeHandle(typed));
+};
+
+const isConnected = (userIdA: string, userIdB: string) =>
+  !!getStorage().findConnection(userIdA, userIdB)?.isActive;
+
+// Only the side named by `role` may act on a request; anyone else is told it
+// doesn't exist
+const requireRequest = (
+  requestId: string,
+  userId: string,
+  role: "fromUserId" | "toUserId",
+): FriendRequest => {
+  const request = getStorage().getFriendRequest(requestId);
+  if (!request || request[role] !== userId) {
+    throw new ApiError(404, "Friend request not found");
+  }
+  return request;
+};
+
+const removeRequest = (
+  request: FriendRequest,
+  action: FriendRequestAction,
+  notifyUserId: string,
+) => {
+  getStorage().deleteFriendRequest(request.id);
+  notifyFriendRequestChange({
+    action,
+    request: withProfiles(request),
+    notifyUserId,
+  });
+};
+
+/**
+ * Ask another user to connect, by handle or email address. If they already
+ * asked us, that request is accepted instead. Someone who has blocked the
+ * sender looks the same as an unknown handle or address.
+ */
+export const sendFriendRequest = (
+  fromUserId: string,
+  recipient: string,
+): FriendRequestResult | null => {
+  const storage = getStorage();
+  const target = findRecipient(recipient);
+
+  // Nobody to send it to. The sender isn't told, so requests can't be used
+  // to find out which handles and addresses have accounts, or who blocked them.
+  if (!target || storage.getBlock(target.id, fromUserId)) {
+    return null;
+  }
+  if (target.id === fromUserId) {
+    throw new ApiError(400, "You can't send a friend request to yourself");
+  }
+  if (storage.getBlock(fromUserId, target.id)) {
+    throw new ApiError(403, "Unblock this user to send them a friend request");
+  }
+  if (isConnected(fromUserId, target.id)) {
+    throw new ApiError(409, "You are already connected to this user");
+  }
+  if (storage.findFriendRequest(fromUserId, target.id)) {
+    throw new ApiError(409, "Friend request already sent");
+  }
+
+  const reverse = storage.findFriendRequest(target.id, fromUserId);
+  if (reverse) {
+    return acceptFriendRequest(reverse.id, fromUserId);
+  }
+
+  const request: FriendRequest = {
+    id: uuidv4(),
+    fromUserId,
+    toUserId: target.id,
+    createdAt: new Date().toISOString(),
+  };
+  storage.saveFriendRequest(request);
+
+  const shown = withProfiles(request);
+  notifyFriendRequestChange({
+    action: "received",
+    request: shown,
+    notifyUserId: target.id,
+  });
+  return { request: shown };
+};
+
+/**
+ * Requests waiting for the user's answer, and the user's own that haven't
+ * been answered yet, oldest first
+ */
+export const getFriendRequests = (userId: string) => {
+  const storage = getStorage();
+  return {
+    incoming: storage
+      .getIncomingFriendRequests(userId)
+      .map((request) => withProfiles(request)),
+    outgoing: storage
+      .getOutgoingFriendRequests(userId)
+      .map((request) => withProfiles(request)),
+  };
+};
+
+/**
+ * Accept a request sent to the user, connecting the two of them
+ */
+export const acceptFriendRequest = (
+  requestId: string,
+  userId: string,
+): FriendRequestResult => {
+  const request = requireRequest(requestId, userId, "toUserId");
+  const connection = connectUsers(request.fromUserId, request.toUserId);
+  getStorage().deleteFriendRequest(request.id);
+
+  const shown = withProfiles(request, true);
+  notifyFriendRequestChange({
+    action: "accepted",
+    request: shown,
+    connectionId: connection.id,
+    notifyUserId: request.fromUserId,
+  });
+  return { request: shown, connectionId: connection.id };
+};
+
+export const rejectFriendRequest = (requestId: string, userId: string) => {
+  const request = requireRequest(requestId, userId, "toUserId");
+  removeRequest(request, "rejected", request.fromUserId);
+};
+
+export const cancelFriendRequest = (requestId: string, userId: string) => {
+  const request = requireRequest(requestId, userId, "fromUserId");
+  removeRequest(request, "cancelled", request.toUserId);
+};
+
+/**
+ * Block another user: pending requests either way are dropped, any
+ * connection between the two ends, and they can't send new requests
+ */
+export const blockUser = (userId: string, blockedId: string): UserBlock => {
+  const storage = getStorage();
+  const blocked =
+    typeof blockedId === "string" ? storage.getUserById(blockedId) : null;
+
+  if (!blocked) {
+    throw new ApiError(404, "User not found");
+  }
+  if (blocked.id === userId) {
+    throw new ApiError(400, "You can't block yourself");
+  }
+
+  const incoming = storage.findFriendRequest(blocked.id, userId);
+  if (incoming) removeRequest(incoming, "rejected", blocked.id);
+  const outgoing = storage.findFriendRequest(userId, blocked.id);
+  if (outgoing) removeRequest(outgoing, "cancelled", blocked.id);
+
+  const connection = storage.findConnection(userId, blocked.id);
+  if (connection?.isActive) {
+    storage.saveConnection({ ...connection, isActive: false });
+  }
+
+  const block: UserBlock = storage.getBlock(userId, blocked.id) ?? {
+    blockerId: userId,
+    blockedId: blocked.id,
+    createdAt: new Date().toISOString(),
+  };
+  storage.saveBlock(block);
+  return { ...block, blocked: toPublicProfile(blocked) };
+};
+
+export const unblockUser = (userId: string, blockedId: string) => {
+  getStorage().deleteBlock(userId, blockedId);
+};
+
+export const getBlockedUsers = (userId: string): UserBlock[] => {
+  const storage = getStorage();
+  return storage.getBlocksForUser(userId).map((block) => {
+    const blocked = storage.getUserById(block.blockedId);
+    return blocked ? { ...block, blocked: toPublicProfile(blocked) } : block;
+  });
+};
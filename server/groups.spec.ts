@@ -0,0 +1,242 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MemoryStorage, getStorage, setStorage } from "./storage";
+import { ApiError } from "./errors";
+import {
+  approveMember,
+  createGroup,
+  getDeletionRecipients,
+  getGroupDetails,
+  getGroupDetailsForMember,
+  getGroupRecipients,
+  getKeyDistributionRecipients,
+  getPinRecipients,
+  inviteMember,
+  joinGroup,
+  leaveGroup,
+  removeMember,
+  setMemberRole,
+  updateGroup,
+} from "./groups";
+
+const statusOf = (error: () => unknown) => {
+  try {
+    error();
+  } catch (caught) {
+    if (caught instanceof ApiError) return caught.status;
+    throw caught;
+  }
+  return null;
+};
+
+describe("groups", () => {
+  beforeEach(() => {
+    const storage = new MemoryStorage();
+    for (const id of ["alice", "bob", "carol", "dave"]) {
+      storage.createUser({
+        id,
+        email: `${id}@example.com`,
+        passwordHash: "hash",
+        emailVerified: true,
+        createdAt: new Date(0).toISOString(),
+      });
+    }
+    const connect = (userId1: string, userId2: string) =>
+      storage.saveConnection({
+        id: `${userId1}-${userId2}`,
+        userId1,
+        userId2,
+        createdAt: new Date(0).toISOString(),
+        isActive: true,
+      });
+    connect("alice", "bob");
+    connect("alice", "carol");
+    connect("bob", "dave");
+    setStorage(storage);
+  });
+
+  it("should only add the creator's connections", () => {
+    const group = createGroup("alice", { name: "Team", memberIds: ["bob"] });
+
+    expect(group.members.map((m) => [m.userId, m.role, m.status])).toEqual([
+      ["alice", "admin", "active"],
+      ["bob", "member", "active"],
+    ]);
+    expect(
+      statusOf(() =>
+        createGroup("alice", { name: "Team", memberIds: ["dave"] }),
+      ),
+    ).toBe(403);
+    expect(
+      statusOf(() => createGroup("alice", { name: " ", memberIds: [] })),
+    ).toBe(400);
+  });
+
+  it("should only show members' addresses to their connections", () => {
+    const { id } = createGroup("alice", {
+      name: "Team",
+      memberIds: ["bob", "carol"],
+    });
+    const emailsSeenBy = (viewerId: string) =>
+      getGroupDetailsForMember(id, viewerId).members.map(
+        (m) => m.profile?.email,
+      );
+
+    expect(emailsSeenBy("alice")).toEqual([
+      "alice@example.com",
+      "bob@example.com",
+      "carol@example.com",
+    ]);
+    // Bob and Carol only share the group
+    expect(emailsSeenBy("bob")).toEqual([
+      "alice@example.com",
+      "bob@example.com",
+      undefined,
+    ]);
+    expect(getGroupDetails(id)?.members.map((m) => m.profile)).toEqual([
+      { id: "alice" },
+      { id: "bob" },
+      { id: "carol" },
+    ]);
+  });
+
+  it("should fan out to active members only", () => {
+    const { id } = createGroup("alice", { name: "Team", memberIds: ["bob"] });
+    inviteMember(id, "alice", "carol");
+
+    expect(getGroupRecipients(id, "alice")).toEqual(["bob"]);
+    expect(statusOf(() => getGroupRecipients(id, "carol"))).toBe(403);
+
+    joinGroup(id, "carol");
+    expect(getGroupRecipients(id, "alice").sort()).toEqual(["bob", "carol"]);
+    expect(statusOf(() => joinGroup(id, "dave"))).toBe(403);
+  });
+
+  it("should hold members invited by non-admins for approval when required", () => {
+    const { id } = createGroup("alice", {
+      name: "Team",
+      memberIds: ["bob"],
+      settings: { requireAdminApproval: true },
+    });
+
+    inviteMember(id, "bob", "dave");
+    expect(
+      joinGroup(id, "dave").members.find((m) => m.userId === "dave")?.status,
+    ).toBe("pending");
+    expect(statusOf(() => approveMember(id, "bob", "dave"))).toBe(403);
+
+    approveMember(id, "alice", "dave");
+    expect(getGroupRecipients(id, "alice").sort()).toEqual(["bob", "dave"]);
+  });
+
+  it("should enforce permissions and settings", () => {
+    const { id } = createGroup("alice", {
+      name: "Team",
+      memberIds: ["bob", "carol"],
+    });
+
+    expect(statusOf(() => removeMember(id, "bob", "carol"))).toBe(403);
+    expect(statusOf(() => updateGroup(id, "bob", { name: "Renamed" }))).toBe(
+      403,
+    );
+
+    updateGroup(id, "alice", {
+      settings: { allowMemberMessages: false, allowMemberInvites: false },
+    });
+    expect(statusOf(() => getGroupRecipients(id, "bob"))).toBe(403);
+    expect(statusOf(() => inviteMember(id, "bob", "dave"))).toBe(403);
+
+    setMemberRole(id, "alice", "bob", "admin");
+    expect(getGroupRecipients(id, "bob").sort()).toEqual(["alice", "carol"]);
+    // Only the creator removes admins, and nobody removes the creator
+    expect(statusOf(() => removeMember(id, "bob", "alice"))).toBe(403);
+    expect(statusOf(() => setMemberRole(id, "bob", "alice", "member"))).toBe(
+      403,
+    );
+
+    removeMember(id, "bob", "carol");
+    expect(getGroupRecipients(id, "alice")).toEqual(["bob"]);
+  });
+
+  it("should relay deletions from any active member, even where only admins post", () => {
+    const { id } = createGroup("alice", {
+      name: "Team",
+      memberIds: ["bob", "carol"],
+    });
+    updateGroup(id, "alice", { settings: { allowMemberMessages: false } });
+
+    expect(getDeletionRecipients(id, "bob").sort()).toEqual(["alice", "carol"]);
+    expect(getDeletionRecipients(id, "alice").sort()).toEqual(["bob", "carol"]);
+    expect(statusOf(() => getDeletionRecipients(id, "dave"))).toBe(403);
+  });
+
+  it("should only let members who can edit the group pin messages", () => {
+    const { id } = createGroup("alice", {
+      name: "Team",
+      memberIds: ["bob", "carol"],
+    });
+
+    expect(getPinRecipients(id, "alice").sort()).toEqual(["bob", "carol"]);
+    expect(statusOf(() => getPinRecipients(id, "bob"))).toBe(403);
+    expect(statusOf(() => getPinRecipients(id, "dave"))).toBe(403);
+
+    updateGroup(id, "alice", { settings: { allowNameChange: true } });
+    expect(getPinRecipients(id, "bob").sort()).toEqual(["alice", "carol"]);
+  });
+
+  it("should only take new key epochs from admins", () => {
+    const { id } = createGroup("alice", {
+      name: "Team",
+      memberIds: ["bob", "carol"],
+    });
+
+    expect(getKeyDistributionRecipients(id, "alice").sort()).toEqual([
+      "bob",
+      "carol",
+    ]);
+    expect(statusOf(() => getKeyDistributionRecipients(id, "bob"))).toBe(403);
+    expect(statusOf(() => getKeyDistributionRecipients(id, "dave"))).toBe(403);
+
+    setMemberRole(id, "alice", "bob", "admin");
+    expect(getKeyDistributionRecipients(id, "bob").sort()).toEqual([
+      "alice",
+      "carol",
+    ]);
+  });
+
+  it("should publish the keys members uploaded with their prekeys", () => {
+    const { id } = createGroup("alice", { name: "Team", memberIds: ["bob"] });
+    getStorage().savePreKeys({
+      userId: "bob",
+      identityKey: "bob-identity",
+      signingKey: "bob-signing",
+      identitySignature: "bob-signature",
+      signedPreKey: {
+        keyId: 1,
+        publicKey: "bob-prekey",
+        signature: "bob-prekey-signature",
+      },
+      oneTimePreKeys: [{ keyId: 1, publicKey: "bob-one-time" }],
+    });
+
+    const members = getGroupDetailsForMember(id, "alice").members;
+    expect(members.find((m) => m.userId === "bob")?.keys).toEqual({
+      identityKey: "bob-identity",
+      signingKey: "bob-signing",
+      identitySignature: "bob-signature",
+    });
+    expect(members.find((m) => m.userId === "alice")?.keys).toBeUndefined();
+  });
+
+  it("should hand over admin when the last one leaves", () => {
+    const { id } = createGroup("alice", {
+      name: "Team",
+      memberIds: ["bob", "carol"],
+    });
+
+    const group = leaveGroup(id, "alice");
+    expect(group?.members.find((m) => m.userId === "bob")?.role).toBe("admin");
+
+    leaveGroup(id, "bob");
+    expect(leaveGroup(id, "carol")).toBeNull();
+  });
+});
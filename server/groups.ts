@@ -0,0 +1,709 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  ChatGroup,
+  ChatGroupDetails,
+  ChatGroupMember,
+  CreateGroupRequest,
+  GroupChangeAction,
+  GroupPermissions,
+  GroupRole,
+  GroupSettings,
+  MemberKeys,
+  UpdateGroupRequest,
+} from "@shared/api";
+import { getStorage } from "./storage";
+import { ApiError } from "./errors";
+import { toPublicProfile } from "./profiles";
+
+const MAX_GROUP_NAME_LENGTH = 100;
+const MAX_GROUP_DESCRIPTION_LENGTH = 500;
+
+export const DEFAULT_GROUP_SETTINGS: GroupSettings = {
+  allowMemberInvites: true,
+  requireAdminApproval: false,
+  allowMemberMessages: true,
+  encryptionLevel: "enhanced",
+  allowNameChange: false,
+};
+
+export interface GroupChange {
+  groupId: string;
+  action: GroupChangeAction;
+  actorId: string;
+  userId?: string;
+  affectedUserIds: string[]; // Users whose membership changed, so their rooms need syncing
+}
+
+type GroupChangeListener = (change: GroupChange) => void;
+const groupChangeListeners: GroupChangeListener[] = [];
+
+/**
+ * Register a callback for after a group or its membership changes
+ */
+export const onGroupChange = (listener: GroupChangeListener) => {
+  groupChangeListeners.push(listener);
+};
+
+const notifyGroupChange = (change: GroupChange) => {
+  groupChangeListeners.forEach((listener) => listener(change));
+};
+
+// Admins can do everything; what members can do follows the group settings
+export const permissionsFor = (
+  role: GroupRole,
+  settings: GroupSettings,
+): GroupPermissions =>
+  role === "admin"
+    ? {
+        canInvite: true,
+        canRemoveMembers: true,
+        canEditGroup: true,
+        canDeleteMessages: true,
+      }
+    : {
+        canInvite: settings.allowMemberInvites,
+        canRemoveMembers: false,
+        canEditGroup: settings.allowNameChange,
+        canDeleteMessages: false,
+      };
+
+const isConnected = (userIdA: string, userIdB: string) =>
+  !!getStorage().findConnection(userIdA, userIdB)?.isActive;
+
+const requireGroup = (groupId: string): ChatGroup => {
+  const group = getStorage().getGroup(groupId);
+  if (!group) {
+    throw new ApiError(404, "Group not found");
+  }
+  return group;
+};
+
+// Members who haven't joined yet, or are waiting for approval, can't act in the group
+const requireActiveMember = (
+  groupId: string,
+  userId: string,
+): ChatGroupMember => {
+  const member = getStorage().getGroupMember(groupId, userId);
+  if (!member || member.status !== "active") {
+    throw new ApiError(403, "You are not a member of this group");
+  }
+  return member;
+};
+
+const validateName = (name: unknown): string => {
+  const trimmed = typeof name === "string" ? name.trim() : "";
+  if (!trimmed || trimmed.length > MAX_GROUP_NAME_LENGTH) {
+    throw new ApiError(
+      400,
+      `Group name must be 1-${MAX_GROUP_NAME_LENGTH} characters`,
+    );
+  }
+  return trimmed;
+};
+
+const validateDescription = (description: unknown): string | undefined => {
+  if (description === undefined) return undefined;
+  if (
+    typeof description !== "string" ||
+    description.length > MAX_GROUP_DESCRIPTION_LENGTH
+  ) {
+    throw new ApiError(
+      400,
+      `Description must be at most ${MAX_GROUP_DESCRIPTION_LENGTH} characters`,
+    );
+  }
+  return description;
+};
+
+// Only known boolean flags and encryption levels are taken from the client
+const mergeSettings = (
+  current: GroupSettings,
+  updates: Partial<GroupSettings> = {},
+): GroupSettings => {
+  const merged = { ...current };
+  for (const key of [
+    "allowMemberInvites",
+    "requireAdminApproval",
+    "allowMemberMessages",
+    "allowNameChange",
+  ] as const) {
+    if (typeof updates[key] === "boolean") {
+      merged[key] = updates[key];
+    }
+  }
+  if (
+    updates.encryptionLevel === "standard" ||
+    updates.encryptionLevel === "enhanced"
+  ) {
+    merged.encryptionLevel = updates.encryptionLevel;
+  }
+  return merged;
+};
+
+const newMember = (
+  groupId: string,
+  userId: string,
+  role: GroupRole,
+  status: ChatGroupMember["status"],
+  settings: GroupSettings,
+  invitedBy?: string,
+): ChatGroupMember => ({
+  groupId,
+  userId,
+  role,
+  status,
+  permissions: permissionsFor(role, settings),
+  ...(invitedBy && { invitedBy }),
+  joinedAt: new Date().toISOString(),
+});
+
+// The keys a member published with their prekey bundle, which the rest of
+// the group encrypts epoch keys to and checks their messages against
+const memberKeys = (userId: string): MemberKeys | null => {
+  const preKeys = getStorage().getPreKeys(userId);
+  return preKeys
+    ? {
+        identityKey: preKeys.identityKey,
+        signingKey: preKeys.signingKey,
+        identitySignature: preKeys.identitySignature,
+      }
+    : null;
+};
+
+/**
+ * The group with each member's public profile and keys. Sharing a group
+ * doesn't share email addresses: the viewer only sees those of people
+ * they're connected to, and without a viewer (e.g. for the whole room) nobody's.
+ */
+export const getGroupDetails = (
+  groupId: string,
+  viewerId?: string,
+): ChatGroupDetails | null => {
+  const storage = getStorage();
+  const group = storage.getGroup(groupId);
+  if (!group) return null;
+
+  const members = storage.getGroupMembers(groupId).map((member) => {
+    const user = storage.getUserById(member.userId);
+    const showEmail =
+      !!viewerId &&
+      (member.userId === viewerId || isConnected(viewerId, member.userId));
+    const keys = memberKeys(member.userId);
+    return {
+      ...member,
+      ...(user && { profile: toPublicProfile(user, showEmail) }),
+      ...(keys && { keys }),
+    };
+  });
+  return { ...group, members };
+};
+
+/**
+ * Groups the user belongs to or has been invited to
+ */
+export const getGroupsForUser = (userId: string): ChatGroupDetails[] =>
+  getStorage()
+    .getGroupMembershipsForUser(userId)
+    .map((member) => getGroupDetails(member.groupId, userId))
+    .filter((group): group is ChatGroupDetails => group !== null);
+
+export const getGroupDetailsForMember = (
+  groupId: string,
+  userId: string,
+): ChatGroupDetails => {
+  requireGroup(groupId);
+  if (!getStorage().getGroupMember(groupId, userId)) {
+    throw new ApiError(404, "Group not found");
+  }
+  return getGroupDetails(groupId, userId)!;
+};
+
+/**
+ * Groups whose room the user's socket belongs in
+ */
+export const getActiveGroupIdsForUser = (userId: string): string[] =>
+  getStorage()
+    .getGroupMembershipsForUser(userId)
+    .filter((member) => member.status === "active")
+    .map((member) => member.groupId);
+
+export const isActiveGroupMember = (groupId: string, userId: string): boolean =>
+  getStorage().getGroupMember(groupId, userId)?.status === "active";
+
+/**
+ * Create a group with the creator as its admin. The initial members are
+ * picked from the creator's connections and join straight away.
+ */
+export const createGroup = (
+  creatorId: string,
+  request: CreateGroupRequest,
+): ChatGroupDetails => {
+  const name = validateName(request?.name);
+  const description = validateDescription(request.description);
+  const memberIds = Array.isArray(request.memberIds)
+    ? Array.from(
+        new Set(
+          request.memberIds.filter(
+            (id) => typeof id === "string" && id !== creatorId,
+          ),
+        ),
+      )
+    : [];
+
+  if (memberIds.some((memberId) => !isConnected(creatorId, memberId))) {
+    throw new ApiError(403, "You can only add people you are connected to");
+  }
+
+  const storage = getStorage();
+  const group: ChatGroup = {
+    id: uuidv4(),
+    name,
+    ...(description !== undefined && { description }),
+    createdBy: creatorId,
+    createdAt: new Date().toISOString(),
+    settings: mergeSettings(DEFAULT_GROUP_SETTINGS, request.settings),
+  };
+
+  storage.saveGroup(group);
+  storage.saveGroupMember(
+    newMember(group.id, creatorId, "admin", "active", group.settings),
+  );
+  for (const memberId of memberIds) {
+    storage.saveGroupMember(
+      newMember(
+        group.id,
+        memberId,
+        "member",
+        "active",
+        group.settings,
+        creatorId,
+      ),
+    );
+  }
+
+  notifyGroupChange({
+    groupId: group.id,
+    action: "created",
+    actorId: creatorId,
+    affectedUserIds: [creatorId, ...memberIds],
+  });
+  return getGroupDetails(group.id, creatorId)!;
+};
+
+/**
+ * Change the name, description or settings. Settings changes that affect
+ * what members may do are applied to every member's permissions.
+ */
+export const updateGroup = (
+  groupId: string,
+  actorId: string,
+  request: UpdateGroupRequest,
+): ChatGroupDetails => {
+  const storage = getStorage();
+  const group = requireGroup(groupId);
+  const actor = requireActiveMember(groupId, actorId);
+
+  if (!actor.permissions.canEditGroup) {
+    throw new ApiError(403, "You can't edit this group");
+  }
+  if (request?.settings && actor.role !== "admin") {
+    throw new ApiError(403, "Only admins can change group settings");
+  }
+
+  const updated: ChatGroup = {
+    ...group,
+    ...(request.name !== undefined && { name: validateName(request.name) }),
+    ...(request.description !== undefined && {
+      description: validateDescription(request.description),
+    }),
+    settings: mergeSettings(group.settings, request.settings),
+  };
+  storage.saveGroup(updated);
+
+  for (const member of storage.getGroupMembers(groupId)) {
+    storage.saveGroupMember({
+      ...member,
+      permissions: permissionsFor(member.role, updated.settings),
+    });
+  }
+
+  notifyGroupChange({
+    groupId,
+    action: "updated",
+    actorId,
+    affectedUserIds: [],
+  });
+  return getGroupDetails(groupId, actorId)!;
+};
+
+/**
+ * Invite one of the actor's connections. The invitee has to join before
+ * they receive anything.
+ */
+export const inviteMember = (
+  groupId: string,
+  actorId: string,
+  userId: string,
+): ChatGroupDetails => {
+  const storage = getStorage();
+  const group = requireGroup(groupId);
+  const actor = requireActiveMember(groupId, actorId);
+
+  if (!actor.permissions.canInvite) {
+    throw new ApiError(403, "You can't invite people to this group");
+  }
+  if (typeof userId !== "string" || !storage.getUserById(userId)) {
+    throw new ApiError(404, "User not found");
+  }
+  if (!isConnected(actorId, userId)) {
+    throw new ApiError(403, "You can only invite people you are connected to");
+  }
+
+  const existing = storage.getGroupMember(groupId, userId);
+  if (existing?.status === "invited") {
+    return getGroupDetails(groupId, actorId)!;
+  }
+  if (existing) {
+    throw new ApiError(409, "Already a member of this group");
+  }
+
+  storage.saveGroupMember(
+    newMember(groupId, userId, "member", "invited", group.settings, actorId),
+  );
+  notifyGroupChange({
+    groupId,
+    action: "invited",
+    actorId,
+    userId,
+    affectedUserIds: [userId],
+  });
+  return getGroupDetails(groupId, actorId)!;
+};
+
+/**
+ * Accept an invitation. If the group requires approval, an invitation from
+ * a non-admin leaves the member pending until an admin approves them.
+ */
+export const joinGroup = (
+  groupId: string,
+  userId: string,
+): ChatGroupDetails => {
+  const storage = getStorage();
+  const group = requireGroup(groupId);
+  const member = storage.getGroupMember(groupId, userId);
+
+  if (!member) {
+    throw new ApiError(403, "You have not been invited to this group");
+  }
+  if (member.status !== "invited") {
+    return getGroupDetails(groupId, userId)!;
+  }
+
+  const inviter = member.invitedBy
+    ? storage.getGroupMember(groupId, member.invitedBy)
+    : null;
+  const needsApproval =
+    group.settings.requireAdminApproval && inviter?.role !== "admin";
+  storage.saveGroupMember({
+    ...member,
+    status: needsApproval ? "pending" : "active",
+    joinedAt: new Date().toISOString(),
+  });
+
+  notifyGroupChange({
+    groupId,
+    action: needsApproval ? "requested" : "joined",
+    actorId: userId,
+    userId,
+    affectedUserIds: [userId],
+  });
+  return getGroupDetails(groupId, userId)!;
+};
+
+/**
+ * Join through a group invite code. The code stands in for an invitation
+ * from its creator, so it stops working once they can no longer invite.
+ */
+export const joinWithInvite = (
+  groupId: string,
+  inviterId: string,
+  userId: string,
+): ChatGroupDetails => {
+  const storage = getStorage();
+  const group = requireGroup(groupId);
+  const inviter = storage.getGroupMember(groupId, inviterId);
+
+  if (inviter?.status !== "active" || !inviter.permissions.canInvite) {
+    throw new ApiError(410, "This invite is no longer valid");
+  }
+
+  const existing = storage.getGroupMember(groupId, userId);
+  if (existing && existing.status !== "invited") {
+    throw new ApiError(409, "Already a member of this group");
+  }
+
+  const needsApproval =
+    group.settings.requireAdminApproval && inviter.role !== "admin";
+  storage.saveGroupMember(
+    newMember(
+      groupId,
+      userId,
+      "member",
+      needsApproval ? "pending" : "active",
+      group.settings,
+      inviterId,
+    ),
+  );
+
+  notifyGroupChange({
+    groupId,
+    action: needsApproval ? "requested" : "joined",
+    actorId: userId,
+    userId,
+    affectedUserIds: [userId],
+  });
+  return getGroupDetails(groupId, userId)!;
+};
+
+export const approveMember = (
+  groupId: string,
+  actorId: string,
+  userId: string,
+): ChatGroupDetails => {
+  const storage = getStorage();
+  requireGroup(groupId);
+  const actor = requireActiveMember(groupId, actorId);
+
+  if (actor.role !== "admin") {
+    throw new ApiError(403, "Only admins can approve members");
+  }
+
+  const member = storage.getGroupMember(groupId, userId);
+  if (!member || member.status !== "pending") {
+    throw new ApiError(404, "No pending request from this user");
+  }
+
+  storage.saveGroupMember({ ...member, status: "active" });
+  notifyGroupChange({
+    groupId,
+    action: "approved",
+    actorId,
+    userId,
+    affectedUserIds: [userId],
+  });
+  return getGroupDetails(groupId, actorId)!;
+};
+
+// A group always keeps an admin: if the last one goes, the longest-standing
+// member takes over. A group with no active members left is deleted.
+const removeMembership = (groupId: string, userId: string) => {
+  const storage = getStorage();
+  const group = requireGroup(groupId);
+  storage.deleteGroupMember(groupId, userId);
+
+  const active = storage
+    .getGroupMembers(groupId)
+    .filter((member) => member.status === "active");
+  if (active.length === 0) {
+    storage.deleteGroup(groupId);
+    return;
+  }
+
+  if (!active.some((member) => member.role === "admin")) {
+    const [successor] = active;
+    storage.saveGroupMember({
+      ...successor,
+      role: "admin",
+      permissions: permissionsFor("admin", group.settings),
+    });
+  }
+};
+
+/**
+ * Leave a group, or decline an invitation
+ */
+export const leaveGroup = (
+  groupId: string,
+  userId: string,
+): ChatGroupDetails | null => {
+  requireGroup(groupId);
+  if (!getStorage().getGroupMember(groupId, userId)) {
+    throw new ApiError(404, "You are not a member of this group");
+  }
+
+  removeMembership(groupId, userId);
+  notifyGroupChange({
+    groupId,
+    action: "left",
+    actorId: userId,
+    userId,
+    affectedUserIds: [userId],
+  });
+  return getGroupDetails(groupId, userId);
+};
+
+/**
+ * Remove someone else from the group. The creator can't be removed, and only
+ * the creator can remove other admins.
+ */
+export const removeMember = (
+  groupId: string,
+  actorId: string,
+  userId: string,
+): ChatGroupDetails | null => {
+  const storage = getStorage();
+  const group = requireGroup(groupId);
+  const actor = requireActiveMember(groupId, actorId);
+
+  if (userId === actorId) {
+    throw new ApiError(400, "Leave the group instead of removing yourself");
+  }
+  if (!actor.permissions.canRemoveMembers) {
+    throw new ApiError(403, "You can't remove members from this group");
+  }
+
+  const member = storage.getGroupMember(groupId, userId);
+  if (!member) {
+    throw new ApiError(404, "Not a member of this group");
+  }
+  if (
+    userId === group.createdBy ||
+    (member.role === "admin" && actorId !== group.createdBy)
+  ) {
+    throw new ApiError(403, "You can't remove this admin");
+  }
+
+  removeMembership(groupId, userId);
+  notifyGroupChange({
+    groupId,
+    action: "removed",
+    actorId,
+    userId,
+    affectedUserIds: [userId],
+  });
+  return getGroupDetails(groupId, actorId);
+};
+
+/**
+ * Promote a member to admin or demote an admin. The creator stays an admin.
+ */
+export const setMemberRole = (
+  groupId: string,
+  actorId: string,
+  userId: string,
+  role: GroupRole,
+): ChatGroupDetails => {
+  const storage = getStorage();
+  const group = requireGroup(groupId);
+  const actor = requireActiveMember(groupId, actorId);
+
+  if (actor.role !== "admin") {
+    throw new ApiError(403, "Only admins can change roles");
+  }
+
+  const member = requireActiveMember(groupId, userId);
+  if (role === "member" && userId === group.createdBy) {
+    throw new ApiError(403, "The group creator can't be demoted");
+  }
+
+  storage.saveGroupMember({
+    ...member,
+    role,
+    permissions: permissionsFor(role, group.settings),
+  });
+  notifyGroupChange({
+    groupId,
+    action: "role_changed",
+    actorId,
+    userId,
+    affectedUserIds: [],
+  });
+  return getGroupDetails(groupId, actorId)!;
+};
+
+/**
+ * Who a member's message goes to: every other active member. Throws if the
+ * sender isn't an active member, or the group only lets admins post.
+ */
+export const getGroupRecipients = (
+  groupId: string,
+  senderId: string,
+): string[] => {
+  const group = requireGroup(groupId);
+  const sender = requireActiveMember(groupId, senderId);
+
+  if (!group.settings.allowMemberMessages && sender.role !== "admin") {
+    throw new ApiError(403, "Only admins can send messages in this group");
+  }
+
+  return getStorage()
+    .getGroupMembers(groupId)
+    .filter(
+      (member) => member.status === "active" && member.userId !== senderId,
+    )
+    .map((member) => member.userId);
+};
+
+/**
+ * Who a deletion of one of the group's messages goes to: every other active
+ * member, even in groups where only admins may post. The relay doesn't know
+ * who wrote which message, so each recipient checks that the deleter is its
+ * sender or has canDeleteMessages before applying it.
+ */
+export const getDeletionRecipients = (
+  groupId: string,
+  actorId: string,
+): string[] => {
+  requireGroup(groupId);
+  requireActiveMember(groupId, actorId);
+
+  return getStorage()
+    .getGroupMembers(groupId)
+    .filter((member) => member.status === "active" && member.userId !== actorId)
+    .map((member) => member.userId);
+};
+
+/**
+ * Who pinning or unpinning one of the group's messages goes to. Pins change
+ * the group for everyone, so they take canEditGroup.
+ */
+export const getPinRecipients = (
+  groupId: string,
+  actorId: string,
+): string[] => {
+  requireGroup(groupId);
+  const actor = requireActiveMember(groupId, actorId);
+
+  if (!actor.permissions.canEditGroup) {
+    throw new ApiError(
+      403,
+      "You don't have permission to pin messages in this group",
+    );
+  }
+
+  return getStorage()
+    .getGroupMembers(groupId)
+    .filter((member) => member.status === "active" && member.userId !== actorId)
+    .map((member) => member.userId);
+};
+
+/**
+ * Who a new key epoch for the group goes to. Only admins start epochs, and
+ * every other active member needs the key to read what follows.
+ */
+export const getKeyDistributionRecipients = (
+  groupId: string,
+  actorId: string,
+): string[] => {
+  requireGroup(groupId);
+  const actor = requireActiveMember(groupId, actorId);
+
+  if (actor.role !== "admin") {
+    throw new ApiError(403, "Only admins can distribute group keys");
+  }
+
+  return getStorage()
+    .getGroupMembers(groupId)
+    .filter((member) => member.status === "active" && member.userId !== actorId)
+    .map((member) => member.userId);
+};
@@ -3,34 +3,237 @@ import express from "express";
 import cors from "cors";
 import { createServer } from "http";
 import { Server } from "socket.io";
+import { v4 as uuidv4 } from "uuid";
 import { handleDemo } from "./routes/demo";
-import { 
-  handleSignup, 
-  handleLogin, 
-  handleVerifyToken, 
-  verifyToken, 
-  getUserById 
+import {
+  handleSignup,
+  handleLogin,
+  handleLoginTwoFactor,
+  handleVerifyToken,
+  handleRefreshToken,
+  handleLogout,
+  handleListSessions,
+  handleRevokeSession,
+  handleRevokeAllSessions,
+  handleSendVerificationEmail,
+  handleVerifyEmail,
+  handleForgotPassword,
+  handleResetPassword,
+  verifyToken,
+  getUserById,
 } from "./routes/auth";
-import { 
-  handleGenerateCode, 
-  handleConnectCode, 
-  handleGetConnectionStatus, 
-  handleDisconnect, 
-  authenticateUser, 
-  getPartnerIdForUser 
+import {
+  handleGenerateCode,
+  handleConnectCode,
+  handleGetConnectionStatus,
+  handleDisconnect,
+  authenticateUser,
+  requireVerifiedEmail,
+  getPartnerIdsForUser,
+  resolveRecipient,
 } from "./routes/pairing";
-import { WebSocketMessage } from "@shared/api";
+import {
+  handleUploadPreKeys,
+  handleAddOneTimePreKeys,
+  handleGetPreKeyBundle,
+  handleGetPreKeyCount,
+  onPreKeysLow,
+  getOneTimePreKeyCount,
+  hasPreKeyBundle,
+  PREKEY_LOW_WATERMARK,
+} from "./routes/prekeys";
+import {
+  handleListGroups,
+  handleCreateGroup,
+  handleGetGroup,
+  handleUpdateGroup,
+  handleInviteGroupMember,
+  handleJoinGroup,
+  handleLeaveGroup,
+  handleApproveGroupMember,
+  handleRemoveGroupMember,
+  handlePromoteGroupMember,
+  handleDemoteGroupMember,
+} from "./routes/groups";
+import {
+  directoryRateLimit,
+  emailTokenRateLimit,
+  loginRateLimit,
+  pairingRateLimit,
+  passwordResetRateLimit,
+  preKeyBundleRateLimit,
+  reauthRateLimit,
+  signupRateLimit,
+  twoFactorLoginRateLimit,
+  verificationEmailRateLimit,
+} from "./rateLimit";
+import {
+  handleTwoFactorStatus,
+  handleTwoFactorSetup,
+  handleEnableTwoFactor,
+  handleDisableTwoFactor,
+  handleRegenerateRecoveryCodes,
+} from "./routes/twoFactor";
+import { handleDeleteAccount, handleExportAccount } from "./routes/account";
+import {
+  handleCheckHandle,
+  handleConnectionProfiles,
+  handleLookupHandle,
+  handleUpdateProfile,
+} from "./routes/users";
+import {
+  handleListInvites,
+  handleCreateInvite,
+  handleGetInvite,
+  handleRedeemInvite,
+  handleRevokeInvite,
+} from "./routes/invites";
+import {
+  handleListFriendRequests,
+  handleSendFriendRequest,
+  handleAcceptFriendRequest,
+  handleRejectFriendRequest,
+  handleCancelFriendRequest,
+  handleListBlocks,
+  handleBlockUser,
+  handleUnblockUser,
+} from "./routes/friends";
+import {
+  queueMessage,
+  getPendingMessages,
+  acknowledgeMessage,
+  expireQueuedMessages,
+  isValidMessageId,
+  groupCopyId,
+  originalMessageId,
+  receiptMessageIds,
+} from "./messageQueue";
+import {
+  onGroupChange,
+  getGroupDetails,
+  getGroupRecipients,
+  getDeletionRecipients,
+  getPinRecipients,
+  getKeyDistributionRecipients,
+  getActiveGroupIdsForUser,
+  isActiveGroupMember,
+} from "./groups";
+import { onFriendRequestChange } from "./friends";
+import { onSessionRevoked } from "./sessions";
+import { onAccountDeleted } from "./account";
+import { sendsReadReceipts } from "./profiles";
+import { ApiError } from "./errors";
+import { QueuedMessage } from "./storage";
+import {
+  ConversationTarget,
+  DeliveryNotice,
+  FriendRequestUpdate,
+  GroupUpdate,
+  MessageChangeRequest,
+  MessageSentNotice,
+  OutgoingSocketMessage,
+  ReadReceiptNotice,
+  ReadReceiptRequest,
+  UserDeletedNotice,
+  WebSocketMessage,
+} from "@shared/api";
+
+// Shape check for 1:1 encrypted envelopes. The relay can't decrypt them; it
+// only makes sure clients aren't sending plaintext.
+const isEncryptedEnvelope = (content: unknown): boolean => {
+  if (typeof content !== "object" || content === null) return false;
+  const envelope = content as Record<string, any>;
+  return (
+    typeof envelope.v === "number" &&
+    typeof envelope.alg === "string" &&
+    typeof envelope.nonce === "string" &&
+    typeof envelope.ciphertext === "string" &&
+    typeof envelope.aad === "object" &&
+    envelope.aad !== null
+  );
+};
+
+// Same for group envelopes (see client/utils/groupCrypto), which must also
+// name the group they were sent to
+const isEncryptedGroupEnvelope = (
+  content: unknown,
+  groupId: string,
+): boolean => {
+  if (typeof content !== "object" || content === null) return false;
+  const envelope = content as Record<string, any>;
+  return (
+    typeof envelope.v === "number" &&
+    envelope.groupId === groupId &&
+    typeof envelope.encryptedContent === "string" &&
+    typeof envelope.encryptedKey === "string" &&
+    typeof envelope.iv === "string" &&
+    typeof envelope.signature === "string"
+  );
+};
+
+// New group key epochs travel as group messages of their own type. The
+// epoch key inside is wrapped for each member, so they count as encrypted.
+const KEY_DISTRIBUTION_TYPE = "key_distribution";
+
+const isGroupKeyDistribution = (content: unknown, groupId: string): boolean => {
+  if (typeof content !== "object" || content === null) return false;
+  const distribution = content as Record<string, any>;
+  return (
+    typeof distribution.v === "number" &&
+    distribution.groupId === groupId &&
+    typeof distribution.keyVersion === "number" &&
+    typeof distribution.publicKey === "string" &&
+    typeof distribution.encryptedKeys === "object" &&
+    distribution.encryptedKeys !== null &&
+    typeof distribution.signature === "string"
+  );
+};
+
+const QUEUE_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Sent through edit_message and delete_message only
+const MESSAGE_CHANGE_TYPES = new Set(["edit", "delete"]);
+
+const groupRoom = (groupId: string) => `group:${groupId}`;
+
+// Group copies go out under the sender's message ID; the recipient
+// acknowledges with that ID and the group ID
+const toWebSocketMessage = (queued: QueuedMessage): WebSocketMessage => ({
+  type: queued.groupId ? "group_message" : "message",
+  data: {
+    messageId: originalMessageId(queued),
+    ...(queued.groupId && { groupId: queued.groupId }),
+    senderId: queued.senderId,
+    content: queued.content, // Can be encrypted object or plain string
+    type: queued.type,
+    ...(queued.replyTo && { replyTo: queued.replyTo }),
+    timestamp: queued.createdAt,
+  },
+  timestamp: new Date().toISOString(),
+});
+
+// What the sender is told about a delivered or expired message
+const toDeliveryNotice = (queued: QueuedMessage): DeliveryNotice => ({
+  messageId: originalMessageId(queued),
+  ...(queued.groupId && {
+    groupId: queued.groupId,
+    recipientId: queued.recipientId,
+  }),
+});
 
 export function createAppServer() {
+  // Reject plaintext on send_message so a client can't downgrade a conversation
+  const requireEncryption = process.env.REQUIRE_E2EE === "true";
+
   const app = express();
   const httpServer = createServer(app);
-  
+
   // Setup Socket.IO with CORS
   const io = new Server(httpServer, {
     cors: {
       origin: "*", // In production, specify your domain
-      methods: ["GET", "POST"]
-    }
+      methods: ["GET", "POST"],
+    },
   });
 
   // Middleware
@@ -47,17 +250,188 @@ export function createAppServer() {
   app.get("/api/demo", handleDemo);
 
   // Authentication routes
-  app.post("/api/auth/signup", handleSignup);
-  app.post("/api/auth/login", handleLogin);
+  app.post("/api/auth/signup", signupRateLimit, handleSignup);
+  app.post("/api/auth/login", loginRateLimit, handleLogin);
+  app.post(
+    "/api/auth/login/2fa",
+    twoFactorLoginRateLimit,
+    handleLoginTwoFactor,
+  );
   app.get("/api/auth/verify", handleVerifyToken);
+  app.post("/api/auth/refresh", handleRefreshToken);
+  app.post("/api/auth/verify-email", emailTokenRateLimit, handleVerifyEmail);
+  app.post(
+    "/api/auth/verify-email/send",
+    authenticateUser,
+    verificationEmailRateLimit,
+    handleSendVerificationEmail,
+  );
+  app.post(
+    "/api/auth/forgot-password",
+    passwordResetRateLimit,
+    handleForgotPassword,
+  );
+  app.post(
+    "/api/auth/reset-password",
+    emailTokenRateLimit,
+    handleResetPassword,
+  );
+  app.post("/api/auth/logout", authenticateUser, handleLogout);
+  app.get("/api/auth/sessions", authenticateUser, handleListSessions);
+  app.delete("/api/auth/sessions", authenticateUser, handleRevokeAllSessions);
+  app.delete(
+    "/api/auth/sessions/:sessionId",
+    authenticateUser,
+    handleRevokeSession,
+  );
+
+  // Two-factor authentication
+  app.get("/api/auth/2fa", authenticateUser, handleTwoFactorStatus);
+  app.post("/api/auth/2fa/setup", authenticateUser, handleTwoFactorSetup);
+  app.post("/api/auth/2fa/enable", authenticateUser, handleEnableTwoFactor);
+  app.post("/api/auth/2fa/disable", authenticateUser, handleDisableTwoFactor);
+  app.post(
+    "/api/auth/2fa/recovery-codes",
+    authenticateUser,
+    handleRegenerateRecoveryCodes,
+  );
+  app.get("/api/auth/export", authenticateUser, handleExportAccount);
+  app.delete(
+    "/api/auth/account",
+    authenticateUser,
+    reauthRateLimit,
+    handleDeleteAccount,
+  );
 
   // Pairing routes (require authentication)
-  app.post("/api/pairing/generate-code", authenticateUser, handleGenerateCode);
-  app.post("/api/pairing/connect-code", authenticateUser, handleConnectCode);
+  app.post(
+    "/api/pairing/generate-code",
+    authenticateUser,
+    requireVerifiedEmail,
+    handleGenerateCode,
+  );
+  app.post(
+    "/api/pairing/connect-code",
+    authenticateUser,
+    requireVerifiedEmail,
+    pairingRateLimit,
+    handleConnectCode,
+  );
   app.get("/api/pairing/status", authenticateUser, handleGetConnectionStatus);
   app.post("/api/pairing/disconnect", authenticateUser, handleDisconnect);
 
-  // WebSocket authentication middleware
+  // Prekey bundle routes (require authentication)
+  app.post("/api/keys/bundle", authenticateUser, handleUploadPreKeys);
+  app.post("/api/keys/one-time", authenticateUser, handleAddOneTimePreKeys);
+  app.get(
+    "/api/keys/bundle/:userId",
+    authenticateUser,
+    preKeyBundleRateLimit,
+    handleGetPreKeyBundle,
+  );
+  app.get("/api/keys/count", authenticateUser, handleGetPreKeyCount);
+
+  // Group routes (require authentication)
+  app.get("/api/groups", authenticateUser, handleListGroups);
+  app.post("/api/groups", authenticateUser, handleCreateGroup);
+  app.get("/api/groups/:groupId", authenticateUser, handleGetGroup);
+  app.patch("/api/groups/:groupId", authenticateUser, handleUpdateGroup);
+  app.post(
+    "/api/groups/:groupId/invite",
+    authenticateUser,
+    handleInviteGroupMember,
+  );
+  app.post("/api/groups/:groupId/join", authenticateUser, handleJoinGroup);
+  app.post("/api/groups/:groupId/leave", authenticateUser, handleLeaveGroup);
+  app.post(
+    "/api/groups/:groupId/members/:userId/approve",
+    authenticateUser,
+    handleApproveGroupMember,
+  );
+  app.post(
+    "/api/groups/:groupId/members/:userId/promote",
+    authenticateUser,
+    handlePromoteGroupMember,
+  );
+  app.post(
+    "/api/groups/:groupId/members/:userId/demote",
+    authenticateUser,
+    handleDemoteGroupMember,
+  );
+  app.delete(
+    "/api/groups/:groupId/members/:userId",
+    authenticateUser,
+    handleRemoveGroupMember,
+  );
+
+  // Invite code routes (require authentication)
+  app.get("/api/invites", authenticateUser, handleListInvites);
+  app.post(
+    "/api/invites",
+    authenticateUser,
+    requireVerifiedEmail,
+    handleCreateInvite,
+  );
+  app.get("/api/invites/:code", authenticateUser, handleGetInvite);
+  app.post(
+    "/api/invites/:code/redeem",
+    authenticateUser,
+    requireVerifiedEmail,
+    handleRedeemInvite,
+  );
+  app.delete("/api/invites/:code", authenticateUser, handleRevokeInvite);
+
+  // Profile and handle routes (require authentication)
+  app.patch("/api/users/me", authenticateUser, handleUpdateProfile);
+  app.get("/api/users/connections", authenticateUser, handleConnectionProfiles);
+  app.get(
+    "/api/users/handle-available",
+    authenticateUser,
+    directoryRateLimit,
+    handleCheckHandle,
+  );
+  app.get(
+    "/api/users/by-handle/:handle",
+    authenticateUser,
+    directoryRateLimit,
+    handleLookupHandle,
+  );
+
+  // Friend request routes (require authentication)
+  app.get("/api/friends/requests", authenticateUser, handleListFriendRequests);
+  app.post(
+    "/api/friends/requests",
+    authenticateUser,
+    requireVerifiedEmail,
+    directoryRateLimit,
+    handleSendFriendRequest,
+  );
+  app.post(
+    "/api/friends/requests/:requestId/accept",
+    authenticateUser,
+    requireVerifiedEmail,
+    handleAcceptFriendRequest,
+  );
+  app.post(
+    "/api/friends/requests/:requestId/reject",
+    authenticateUser,
+    handleRejectFriendRequest,
+  );
+  app.delete(
+    "/api/friends/requests/:requestId",
+    authenticateUser,
+    handleCancelFriendRequest,
+  );
+  app.get("/api/friends/blocks", authenticateUser, handleListBlocks);
+  app.post("/api/friends/blocks", authenticateUser, handleBlockUser);
+  app.delete(
+    "/api/friends/blocks/:userId",
+    authenticateUser,
+    handleUnblockUser,
+  );
+
+  // WebSocket authentication middleware. verifyToken only passes access
+  // tokens, so a sign-in still waiting on its second factor can't connect.
   io.use((socket, next) => {
     const token = socket.handshake.auth.token;
     if (!token) {
@@ -76,119 +450,511 @@ export function createAppServer() {
 
     socket.userId = user.id;
     socket.userEmail = user.email;
+    socket.data.sessionId = decoded.sessionId;
     next();
   });
 
-  // Store active socket connections and public keys
-  const userSockets = new Map<string, string>(); // userId -> socketId
+  // Store active socket connections and public keys. A user signed in on
+  // several devices has a socket for each.
+  const userSockets = new Map<string, Set<string>>(); // userId -> socketIds
   const userPublicKeys = new Map<string, string>(); // userId -> publicKey
 
+  const getUserSockets = (userId: string) =>
+    Array.from(userSockets.get(userId) ?? [], (socketId) =>
+      io.sockets.sockets.get(socketId),
+    ).filter((socket): socket is NonNullable<typeof socket> => !!socket);
+
+  // Send to every device the user has online. Returns false if they have none.
+  const emitToUser = (
+    userId: string,
+    event: string,
+    payload: unknown,
+  ): boolean => {
+    const socketIds = userSockets.get(userId);
+    // io.to([]) would broadcast to everyone
+    if (!socketIds?.size) return false;
+    io.to(Array.from(socketIds)).emit(event, payload);
+    return true;
+  };
+
+  // Ask online users to top up their one-time prekeys as others consume them
+  onPreKeysLow((userId, remaining) => {
+    emitToUser(userId, "prekeys_low", { remaining });
+  });
+
+  // Drop undelivered messages past their TTL and tell senders who are online
+  const queueSweep = setInterval(() => {
+    for (const expired of expireQueuedMessages()) {
+      emitToUser(
+        expired.senderId,
+        "message_expired",
+        toDeliveryNotice(expired),
+      );
+    }
+  }, QUEUE_SWEEP_INTERVAL_MS);
+  queueSweep.unref();
+  httpServer.on("close", () => clearInterval(queueSweep));
+
+  // Keep group rooms in line with membership and tell everyone involved.
+  // Users who were just removed or invited aren't in the room, so they're
+  // told directly.
+  onGroupChange((change) => {
+    const room = groupRoom(change.groupId);
+    const group = getGroupDetails(change.groupId);
+    const update: GroupUpdate = {
+      groupId: change.groupId,
+      action: change.action,
+      actorId: change.actorId,
+      userId: change.userId,
+      group,
+    };
+
+    for (const userId of change.affectedUserIds) {
+      const isMember = isActiveGroupMember(change.groupId, userId);
+      for (const memberSocket of getUserSockets(userId)) {
+        if (isMember) {
+          memberSocket.join(room);
+        } else {
+          memberSocket.leave(room);
+          memberSocket.emit("group_updated", update);
+        }
+      }
+    }
+
+    io.to(room).emit("group_updated", update);
+    if (!group) {
+      io.in(room).socketsLeave(room);
+    }
+  });
+
+  // A revoked session loses its socket at once, not when its token expires.
+  // The user's other devices stay connected.
+  onSessionRevoked((session) => {
+    for (const socket of getUserSockets(session.userId)) {
+      if (socket.data.sessionId === session.sessionId) {
+        socket.emit("session_revoked", { sessionId: session.sessionId });
+        socket.disconnect(true);
+      }
+    }
+  });
+
+  // Let a deleted user's connections drop the conversation. The user's own
+  // sockets already went when their sessions were revoked.
+  onAccountDeleted(({ userId, partnerIds }) => {
+    userPublicKeys.delete(userId);
+    const notice: UserDeletedNotice = { userId };
+    for (const partnerId of partnerIds) {
+      emitToUser(partnerId, "user_deleted", notice);
+    }
+  });
+
+  // Tell the other side of a friend request as soon as it changes
+  onFriendRequestChange((change) => {
+    const update: FriendRequestUpdate = {
+      action: change.action,
+      request: change.request,
+      connectionId: change.connectionId,
+    };
+    emitToUser(change.notifyUserId, "friend_request_updated", update);
+  });
+
   // WebSocket connection handling
   io.on("connection", (socket: any) => {
     console.log(`User connected: ${socket.userEmail} (${socket.userId})`);
-    
-    // Store user's socket connection
-    userSockets.set(socket.userId, socket.id);
-
-    // Notify partner about connection
-    const partnerId = getPartnerIdForUser(socket.userId);
-    if (partnerId) {
-      const partnerSocketId = userSockets.get(partnerId);
-      if (partnerSocketId) {
-        const message: WebSocketMessage = {
-          type: "user_connected",
-          data: { userId: socket.userId, email: socket.userEmail },
-          timestamp: new Date().toISOString(),
-        };
-        io.to(partnerSocketId).emit("message", message);
-
-        // Exchange public keys if both users have them
-        const partnerPublicKey = userPublicKeys.get(partnerId);
-        const userPublicKey = userPublicKeys.get(socket.userId);
-        
-        if (partnerPublicKey) {
-          socket.emit("key_exchange", { 
-            publicKey: partnerPublicKey, 
-            userId: partnerId 
-          });
-        }
-        
-        if (userPublicKey && partnerSocketId) {
-          io.to(partnerSocketId).emit("key_exchange", { 
-            publicKey: userPublicKey, 
-            userId: socket.userId 
-          });
-        }
+
+    // Store user's socket connection alongside any other devices
+    const socketIds = userSockets.get(socket.userId) ?? new Set<string>();
+    socketIds.add(socket.id);
+    userSockets.set(socket.userId, socketIds);
+
+    // Answer a send the server refused, naming the message so the client can
+    // mark it failed
+    const rejectMessage = (
+      messageId: unknown,
+      message: string,
+      groupId?: unknown,
+    ) => {
+      const notice: MessageSentNotice = {
+        success: false,
+        ...(isValidMessageId(messageId) && { messageId }),
+        ...(typeof groupId === "string" && { groupId }),
+        message,
+      };
+      socket.emit("message_sent", notice);
+    };
+
+    // Bundles may have been drained while the user was offline
+    const remainingPreKeys = getOneTimePreKeyCount(socket.userId);
+    if (
+      hasPreKeyBundle(socket.userId) &&
+      remainingPreKeys < PREKEY_LOW_WATERMARK
+    ) {
+      socket.emit("prekeys_low", { remaining: remainingPreKeys });
+    }
+
+    for (const groupId of getActiveGroupIdsForUser(socket.userId)) {
+      socket.join(groupRoom(groupId));
+    }
+
+    // Deliver whatever arrived while the user was away; each stays queued until acknowledged
+    for (const queued of getPendingMessages(socket.userId)) {
+      socket.emit("message", toWebSocketMessage(queued));
+    }
+
+    // Notify every online partner and swap public keys with each
+    for (const partnerId of getPartnerIdsForUser(socket.userId)) {
+      const message: WebSocketMessage = {
+        type: "user_connected",
+        data: { userId: socket.userId, email: socket.userEmail },
+        timestamp: new Date().toISOString(),
+      };
+      if (!emitToUser(partnerId, "message", message)) continue;
+
+      // Exchange public keys if both users have them
+      const partnerPublicKey = userPublicKeys.get(partnerId);
+      const userPublicKey = userPublicKeys.get(socket.userId);
+
+      if (partnerPublicKey) {
+        socket.emit("key_exchange", {
+          publicKey: partnerPublicKey,
+          userId: partnerId,
+        });
+      }
+
+      if (userPublicKey) {
+        emitToUser(partnerId, "key_exchange", {
+          publicKey: userPublicKey,
+          userId: socket.userId,
+        });
       }
     }
 
-    // Handle key exchange
-    socket.on("key_exchange", (data: { publicKey: string }) => {
-      console.log(`Received public key from ${socket.userEmail}`);
-      
-      // Store the public key
-      userPublicKeys.set(socket.userId, data.publicKey);
-      
-      // Send to partner if connected
-      const partnerId = getPartnerIdForUser(socket.userId);
-      if (partnerId) {
-        const partnerSocketId = userSockets.get(partnerId);
-        if (partnerSocketId) {
-          io.to(partnerSocketId).emit("key_exchange", {
+    // Handle key exchange. The key is the user's own, so without a target it
+    // goes to every online partner.
+    socket.on(
+      "key_exchange",
+      (data: { publicKey: string } & ConversationTarget) => {
+        console.log(`Received public key from ${socket.userEmail}`);
+
+        // Store the public key
+        userPublicKeys.set(socket.userId, data.publicKey);
+
+        const targeted = Boolean(data.recipientId || data.conversationId);
+        const recipientId = targeted
+          ? resolveRecipient(socket.userId, data)
+          : null;
+        if (targeted && !recipientId) return;
+
+        const partnerIds = recipientId
+          ? [recipientId]
+          : getPartnerIdsForUser(socket.userId);
+        for (const partnerId of partnerIds) {
+          const forwarded = emitToUser(partnerId, "key_exchange", {
             publicKey: data.publicKey,
-            userId: socket.userId
+            userId: socket.userId,
           });
-          console.log(`Forwarded public key to partner ${partnerId}`);
+          if (forwarded) {
+            console.log(`Forwarded public key to partner ${partnerId}`);
+          }
         }
+      },
+    );
+
+    // Relay ratchet session resets so both sides restart from the identity keys
+    socket.on("session_reset", (data: ConversationTarget) => {
+      const partnerId = resolveRecipient(socket.userId, data);
+      if (
+        partnerId &&
+        emitToUser(partnerId, "session_reset", { userId: socket.userId })
+      ) {
+        console.log(`Forwarded session reset to partner ${partnerId}`);
       }
     });
 
-    // Handle incoming messages (can be encrypted or plain text)
-    socket.on("send_message", (data: { content: string | object; type: string }) => {
+    // Handle incoming messages (can be encrypted or plain text). Messages are
+    // queued for the recipient and delivered now if they're online, otherwise
+    // on their next connection.
+    const relayToPartner = (data: OutgoingSocketMessage, type: string) => {
       try {
-        const partnerId = getPartnerIdForUser(socket.userId);
+        const partnerId = resolveRecipient(socket.userId, data);
         if (!partnerId) {
-          socket.emit("error", { message: "No active connection" });
+          rejectMessage(data?.messageId, "No active connection");
           return;
         }
 
-        const partnerSocketId = userSockets.get(partnerId);
-        if (!partnerSocketId) {
-          socket.emit("error", { message: "Partner not online" });
+        if (requireEncryption && !isEncryptedEnvelope(data.content)) {
+          rejectMessage(
+            data.messageId,
+            "Messages must be end-to-end encrypted",
+          );
           return;
         }
 
-        const message: WebSocketMessage = {
-          type: "message",
-          data: {
-            senderId: socket.userId,
-            content: data.content, // Can be encrypted object or plain string
-            type: data.type || "text",
-            timestamp: new Date().toISOString(),
-          },
-          timestamp: new Date().toISOString(),
-        };
+        // Older clients don't send an ID; they just can't retry safely
+        const messageId = isValidMessageId(data.messageId)
+          ? data.messageId
+          : uuidv4();
+        const replyTo = isValidMessageId(data.replyTo)
+          ? data.replyTo
+          : undefined;
+        const queued = queueMessage(
+          socket.userId,
+          partnerId,
+          messageId,
+          data.content,
+          type,
+          undefined,
+          replyTo,
+        );
+        if (!queued) {
+          rejectMessage(data.messageId, "Duplicate message ID");
+          return;
+        }
 
         // Send to partner
-        io.to(partnerSocketId).emit("message", message);
-        
+        const delivered = emitToUser(
+          partnerId,
+          "message",
+          toWebSocketMessage(queued),
+        );
+
         // Send confirmation back to sender
-        socket.emit("message_sent", { success: true });
+        const notice: MessageSentNotice = {
+          success: true,
+          messageId,
+          queued: !delivered,
+          expiresAt: queued.expiresAt,
+        };
+        socket.emit("message_sent", notice);
       } catch (error) {
         console.error("Message sending error:", error);
-        socket.emit("error", { message: "Failed to send message" });
+        rejectMessage(data?.messageId, "Failed to send message");
+      }
+    };
+
+    // Group messages go to every other active member. Each member gets their
+    // own queued copy, so one member acknowledging doesn't affect the others.
+    const relayToGroup = (
+      data: OutgoingSocketMessage,
+      type: string,
+      getRecipients: () => string[],
+    ) => {
+      try {
+        const recipientIds = getRecipients();
+
+        const sealed =
+          type === KEY_DISTRIBUTION_TYPE
+            ? isGroupKeyDistribution(data.content, data.groupId!)
+            : isEncryptedGroupEnvelope(data.content, data.groupId!);
+        if (requireEncryption && !sealed) {
+          rejectMessage(
+            data.messageId,
+            "Messages must be end-to-end encrypted",
+            data.groupId,
+          );
+          return;
+        }
+
+        const messageId = isValidMessageId(data.messageId)
+          ? data.messageId
+          : uuidv4();
+        const replyTo = isValidMessageId(data.replyTo)
+          ? data.replyTo
+          : undefined;
+        const copies: QueuedMessage[] = [];
+        for (const recipientId of recipientIds) {
+          const queued = queueMessage(
+            socket.userId,
+            recipientId,
+            groupCopyId(messageId, recipientId),
+            data.content,
+            type,
+            data.groupId,
+            replyTo,
+          );
+          if (!queued) {
+            rejectMessage(data.messageId, "Duplicate message ID", data.groupId);
+            return;
+          }
+          copies.push(queued);
+        }
+
+        let allOnline = true;
+        for (const queued of copies) {
+          if (
+            !emitToUser(
+              queued.recipientId,
+              "message",
+              toWebSocketMessage(queued),
+            )
+          ) {
+            allOnline = false;
+          }
+        }
+
+        const notice: MessageSentNotice = {
+          success: true,
+          messageId,
+          groupId: data.groupId,
+          queued: !allOnline,
+          expiresAt: copies[0]?.expiresAt,
+        };
+        socket.emit("message_sent", notice);
+      } catch (error) {
+        if (error instanceof ApiError) {
+          rejectMessage(data?.messageId, error.message, data?.groupId);
+          return;
+        }
+        console.error("Group message sending error:", error);
+        rejectMessage(data?.messageId, "Failed to send message", data?.groupId);
+      }
+    };
+
+    // Changes to earlier messages have events of their own, where the relay
+    // can check them
+    const messageType = (data: OutgoingSocketMessage): string | null => {
+      const type =
+        typeof data?.type === "string" && data.type ? data.type : "text";
+      return MESSAGE_CHANGE_TYPES.has(type) ? null : type;
+    };
+
+    socket.on("send_message", (data: OutgoingSocketMessage) => {
+      const type = messageType(data);
+      if (!type) {
+        rejectMessage(data?.messageId, "Unsupported message type");
+        return;
+      }
+      relayToPartner(data, type);
+    });
+
+    socket.on("send_group_message", (data: OutgoingSocketMessage) => {
+      const type = messageType(data);
+      if (!type) {
+        rejectMessage(
+          data?.messageId,
+          "Unsupported message type",
+          data?.groupId,
+        );
+        return;
+      }
+      // Pins go to everyone, but only from members who may edit the group;
+      // key epochs only from admins
+      const getRecipients =
+        type === "pin"
+          ? getPinRecipients
+          : type === KEY_DISTRIBUTION_TYPE
+            ? getKeyDistributionRecipients
+            : getGroupRecipients;
+      relayToGroup(data, type, () =>
+        getRecipients(data.groupId!, socket.userId),
+      );
+    });
+
+    // Edits and deletions travel like messages, encrypted and queued, and
+    // name the message they change. The relay only checks group membership;
+    // recipients check that an edit comes from the message's sender and that
+    // a deletion comes from its sender or someone allowed to delete messages.
+    socket.on("edit_message", (data: MessageChangeRequest) => {
+      if (!isValidMessageId(data?.targetId)) {
+        rejectMessage(
+          data?.messageId,
+          "Say which message to edit",
+          data?.groupId,
+        );
+        return;
+      }
+      if (typeof data.groupId === "string") {
+        relayToGroup(data, "edit", () =>
+          getGroupRecipients(data.groupId!, socket.userId),
+        );
+      } else {
+        relayToPartner(data, "edit");
+      }
+    });
+
+    socket.on("delete_message", (data: MessageChangeRequest) => {
+      if (!isValidMessageId(data?.targetId)) {
+        rejectMessage(
+          data?.messageId,
+          "Say which message to delete",
+          data?.groupId,
+        );
+        return;
+      }
+      if (typeof data.groupId === "string") {
+        relayToGroup(data, "delete", () =>
+          getDeletionRecipients(data.groupId!, socket.userId),
+        );
+      } else {
+        relayToPartner(data, "delete");
+      }
+    });
+
+    // The recipient has the message; stop holding it and tell the sender
+    socket.on(
+      "message_ack",
+      (data: { messageId: string; groupId?: string }) => {
+        try {
+          if (!isValidMessageId(data?.messageId)) return;
+
+          const queueId =
+            typeof data.groupId === "string"
+              ? groupCopyId(data.messageId, socket.userId)
+              : data.messageId;
+          const delivered = acknowledgeMessage(socket.userId, queueId);
+          if (!delivered) return;
+
+          emitToUser(
+            delivered.senderId,
+            "message_delivered",
+            toDeliveryNotice(delivered),
+          );
+        } catch (error) {
+          console.error("Message acknowledgement error:", error);
+        }
+      },
+    );
+
+    // The reader has seen these messages; tell whoever sent them, unless the
+    // reader turned read receipts off. The relay only checks that the two
+    // share the conversation; it doesn't know who sent which message.
+    socket.on("message_read", (data: ReadReceiptRequest) => {
+      try {
+        const messageIds = receiptMessageIds(data?.messageIds);
+        if (messageIds.length === 0 || !sendsReadReceipts(socket.userId))
+          return;
+
+        let senderId: string | null;
+        if (typeof data.groupId === "string") {
+          senderId =
+            typeof data.senderId === "string" &&
+            isActiveGroupMember(data.groupId, socket.userId) &&
+            isActiveGroupMember(data.groupId, data.senderId)
+              ? data.senderId
+              : null;
+        } else {
+          senderId = resolveRecipient(socket.userId, data);
+        }
+
+        if (senderId && senderId !== socket.userId) {
+          const notice: ReadReceiptNotice = {
+            messageIds,
+            readerId: socket.userId,
+            ...(typeof data.groupId === "string" && { groupId: data.groupId }),
+          };
+          emitToUser(senderId, "message_read", notice);
+        }
+      } catch (error) {
+        console.error("Read receipt error:", error);
       }
     });
 
     // Handle typing indicators
-    socket.on("typing", (data: { isTyping: boolean }) => {
+    socket.on("typing", (data: { isTyping: boolean } & ConversationTarget) => {
       try {
-        const partnerId = getPartnerIdForUser(socket.userId);
+        const partnerId = resolveRecipient(socket.userId, data);
         if (!partnerId) return;
 
-        const partnerSocketId = userSockets.get(partnerId);
-        if (!partnerSocketId) return;
-
         const message: WebSocketMessage = {
           type: "typing",
           data: {
@@ -198,32 +964,60 @@ export function createAppServer() {
           timestamp: new Date().toISOString(),
         };
 
-        io.to(partnerSocketId).emit("message", message);
+        emitToUser(partnerId, "message", message);
       } catch (error) {
         console.error("Typing indicator error:", error);
       }
     });
 
+    // Group typing indicators go to the rest of the room
+    socket.on(
+      "group_typing",
+      (data: { groupId: string; isTyping: boolean }) => {
+        try {
+          if (
+            typeof data?.groupId !== "string" ||
+            !isActiveGroupMember(data.groupId, socket.userId)
+          )
+            return;
+
+          const message: WebSocketMessage = {
+            type: "typing",
+            data: {
+              userId: socket.userId,
+              groupId: data.groupId,
+              isTyping: data.isTyping,
+            },
+            timestamp: new Date().toISOString(),
+          };
+
+          socket.to(groupRoom(data.groupId)).emit("message", message);
+        } catch (error) {
+          console.error("Group typing indicator error:", error);
+        }
+      },
+    );
+
     // Handle disconnection
     socket.on("disconnect", () => {
       console.log(`User disconnected: ${socket.userEmail} (${socket.userId})`);
-      
-      // Remove from active connections
+
+      // Remove this device only; the user may still be online on others
+      const remaining = userSockets.get(socket.userId);
+      remaining?.delete(socket.id);
+      if (remaining?.size) return;
+
       userSockets.delete(socket.userId);
       userPublicKeys.delete(socket.userId);
 
-      // Notify partner about disconnection
-      const partnerId = getPartnerIdForUser(socket.userId);
-      if (partnerId) {
-        const partnerSocketId = userSockets.get(partnerId);
-        if (partnerSocketId) {
-          const message: WebSocketMessage = {
-            type: "user_disconnected",
-            data: { userId: socket.userId, email: socket.userEmail },
-            timestamp: new Date().toISOString(),
-          };
-          io.to(partnerSocketId).emit("message", message);
-        }
+      // Notify every online partner about disconnection
+      for (const partnerId of getPartnerIdsForUser(socket.userId)) {
+        const message: WebSocketMessage = {
+          type: "user_disconnected",
+          data: { userId: socket.userId, email: socket.userEmail },
+          timestamp: new Date().toISOString(),
+        };
+        emitToUser(partnerId, "message", message);
       }
     });
   });
@@ -249,15 +1043,185 @@ export function createServer() {
   app.get("/api/demo", handleDemo);
 
   // Authentication routes
-  app.post("/api/auth/signup", handleSignup);
-  app.post("/api/auth/login", handleLogin);
+  app.post("/api/auth/signup", signupRateLimit, handleSignup);
+  app.post("/api/auth/login", loginRateLimit, handleLogin);
+  app.post(
+    "/api/auth/login/2fa",
+    twoFactorLoginRateLimit,
+    handleLoginTwoFactor,
+  );
   app.get("/api/auth/verify", handleVerifyToken);
+  app.post("/api/auth/refresh", handleRefreshToken);
+  app.post("/api/auth/verify-email", emailTokenRateLimit, handleVerifyEmail);
+  app.post(
+    "/api/auth/verify-email/send",
+    authenticateUser,
+    verificationEmailRateLimit,
+    handleSendVerificationEmail,
+  );
+  app.post(
+    "/api/auth/forgot-password",
+    passwordResetRateLimit,
+    handleForgotPassword,
+  );
+  app.post(
+    "/api/auth/reset-password",
+    emailTokenRateLimit,
+    handleResetPassword,
+  );
+  app.post("/api/auth/logout", authenticateUser, handleLogout);
+  app.get("/api/auth/sessions", authenticateUser, handleListSessions);
+  app.delete("/api/auth/sessions", authenticateUser, handleRevokeAllSessions);
+  app.delete(
+    "/api/auth/sessions/:sessionId",
+    authenticateUser,
+    handleRevokeSession,
+  );
+
+  // Two-factor authentication
+  app.get("/api/auth/2fa", authenticateUser, handleTwoFactorStatus);
+  app.post("/api/auth/2fa/setup", authenticateUser, handleTwoFactorSetup);
+  app.post("/api/auth/2fa/enable", authenticateUser, handleEnableTwoFactor);
+  app.post("/api/auth/2fa/disable", authenticateUser, handleDisableTwoFactor);
+  app.post(
+    "/api/auth/2fa/recovery-codes",
+    authenticateUser,
+    handleRegenerateRecoveryCodes,
+  );
+  app.get("/api/auth/export", authenticateUser, handleExportAccount);
+  app.delete(
+    "/api/auth/account",
+    authenticateUser,
+    reauthRateLimit,
+    handleDeleteAccount,
+  );
 
   // Pairing routes (require authentication)
-  app.post("/api/pairing/generate-code", authenticateUser, handleGenerateCode);
-  app.post("/api/pairing/connect-code", authenticateUser, handleConnectCode);
+  app.post(
+    "/api/pairing/generate-code",
+    authenticateUser,
+    requireVerifiedEmail,
+    handleGenerateCode,
+  );
+  app.post(
+    "/api/pairing/connect-code",
+    authenticateUser,
+    requireVerifiedEmail,
+    pairingRateLimit,
+    handleConnectCode,
+  );
   app.get("/api/pairing/status", authenticateUser, handleGetConnectionStatus);
   app.post("/api/pairing/disconnect", authenticateUser, handleDisconnect);
 
+  // Prekey bundle routes (require authentication)
+  app.post("/api/keys/bundle", authenticateUser, handleUploadPreKeys);
+  app.post("/api/keys/one-time", authenticateUser, handleAddOneTimePreKeys);
+  app.get(
+    "/api/keys/bundle/:userId",
+    authenticateUser,
+    preKeyBundleRateLimit,
+    handleGetPreKeyBundle,
+  );
+  app.get("/api/keys/count", authenticateUser, handleGetPreKeyCount);
+
+  // Group routes (require authentication)
+  app.get("/api/groups", authenticateUser, handleListGroups);
+  app.post("/api/groups", authenticateUser, handleCreateGroup);
+  app.get("/api/groups/:groupId", authenticateUser, handleGetGroup);
+  app.patch("/api/groups/:groupId", authenticateUser, handleUpdateGroup);
+  app.post(
+    "/api/groups/:groupId/invite",
+    authenticateUser,
+    handleInviteGroupMember,
+  );
+  app.post("/api/groups/:groupId/join", authenticateUser, handleJoinGroup);
+  app.post("/api/groups/:groupId/leave", authenticateUser, handleLeaveGroup);
+  app.post(
+    "/api/groups/:groupId/members/:userId/approve",
+    authenticateUser,
+    handleApproveGroupMember,
+  );
+  app.post(
+    "/api/groups/:groupId/members/:userId/promote",
+    authenticateUser,
+    handlePromoteGroupMember,
+  );
+  app.post(
+    "/api/groups/:groupId/members/:userId/demote",
+    authenticateUser,
+    handleDemoteGroupMember,
+  );
+  app.delete(
+    "/api/groups/:groupId/members/:userId",
+    authenticateUser,
+    handleRemoveGroupMember,
+  );
+
+  // Invite code routes (require authentication)
+  app.get("/api/invites", authenticateUser, handleListInvites);
+  app.post(
+    "/api/invites",
+    authenticateUser,
+    requireVerifiedEmail,
+    handleCreateInvite,
+  );
+  app.get("/api/invites/:code", authenticateUser, handleGetInvite);
+  app.post(
+    "/api/invites/:code/redeem",
+    authenticateUser,
+    requireVerifiedEmail,
+    handleRedeemInvite,
+  );
+  app.delete("/api/invites/:code", authenticateUser, handleRevokeInvite);
+
+  // Profile and handle routes (require authentication)
+  app.patch("/api/users/me", authenticateUser, handleUpdateProfile);
+  app.get("/api/users/connections", authenticateUser, handleConnectionProfiles);
+  app.get(
+    "/api/users/handle-available",
+    authenticateUser,
+    directoryRateLimit,
+    handleCheckHandle,
+  );
+  app.get(
+    "/api/users/by-handle/:handle",
+    authenticateUser,
+    directoryRateLimit,
+    handleLookupHandle,
+  );
+
+  // Friend request routes (require authentication)
+  app.get("/api/friends/requests", authenticateUser, handleListFriendRequests);
+  app.post(
+    "/api/friends/requests",
+    authenticateUser,
+    requireVerifiedEmail,
+    directoryRateLimit,
+    handleSendFriendRequest,
+  );
+  app.post(
+    "/api/friends/requests/:requestId/accept",
+    authenticateUser,
+    requireVerifiedEmail,
+    handleAcceptFriendRequest,
+  );
+  app.post(
+    "/api/friends/requests/:requestId/reject",
+    authenticateUser,
+    handleRejectFriendRequest,
+  );
+  app.delete(
+    "/api/friends/requests/:requestId",
+    authenticateUser,
+    handleCancelFriendRequest,
+  );
+  app.get("/api/friends/blocks", authenticateUser, handleListBlocks);
+  app.post("/api/friends/blocks", authenticateUser, handleBlockUser);
+  app.delete(
+    "/api/friends/blocks/:userId",
+    authenticateUser,
+    handleUnblockUser,
+  );
+
   return app;
 }
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { MemoryStorage, getStorage, setStorage } from "./storage";
+import { ApiError } from "./errors";
+import { blockUser } from "./friends";
+import { createGroup } from "./groups";
+import {
+  createInvite,
+  getInvitePreview,
+  redeemInvite,
+  revokeInvite,
+} from "./invites";
+
+const statusOf = (error: () => unknown) => {
+  try {
+    error();
+  } catch (caught) {
+    if (caught instanceof ApiError) return caught.status;
+    throw caught;
+  }
+  return null;
+};
+
+describe("invites", () => {
+  beforeEach(() => {
+    const storage = new MemoryStorage();
+    for (const id of ["alice", "bob", "carol", "dave"]) {
+      storage.createUser({
+        id,
+        email: `${id}@example.com`,
+        passwordHash: "hash",
+        emailVerified: true,
+        createdAt: new Date(0).toISOString(),
+      });
+    }
+    storage.saveConnection({
+      id: "alice-bob",
+      userId1: "alice",
+      userId2: "bob",
+      createdAt: new Date(0).toISOString(),
+      isActive: true,
+    });
+    setStorage(storage);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should connect whoever redeems a friend code, up to its max uses", () => {
+    const { code } = createInvite("alice", { type: "friend", maxUses: 2 });
+
+    expect(code).toMatch(/^[A-Z0-9]{10}$/);
+    expect(
+      getInvitePreview(code.toLowerCase(), "bob").metadata?.creator,
+    ).toEqual({ id: "alice", email: "alice@example.com" });
+    // Strangers holding the code don't learn the creator's address
+    expect(getInvitePreview(code, "carol").metadata?.creator).toEqual({
+      id: "alice",
+    });
+    expect(statusOf(() => redeemInvite(code, "alice"))).toBe(400);
+
+    const redemption = redeemInvite(code, "carol");
+    expect(redemption).toMatchObject({
+      type: "friend",
+      partnerId: "alice",
+      partner: { email: "alice@example.com" },
+    });
+    expect(getStorage().getConnection(redemption.connectionId!)?.isActive).toBe(
+      true,
+    );
+
+    // Someone already connected doesn't use the code up
+    expect(redeemInvite(code, "bob").connectionId).toBe("alice-bob");
+    expect(getStorage().getInviteCode(code)?.currentUses).toBe(1);
+
+    redeemInvite(code, "dave");
+    expect(statusOf(() => getInvitePreview(code, "carol"))).toBe(410);
+  });
+
+  it("should not reconnect users who blocked each other", () => {
+    const { code } = createInvite("alice", { type: "friend" });
+
+    blockUser("bob", "alice");
+    expect(statusOf(() => redeemInvite(code, "bob"))).toBe(404);
+    expect(getStorage().findConnection("alice", "bob")?.isActive).toBe(false);
+
+    blockUser("alice", "carol");
+    expect(statusOf(() => redeemInvite(code, "carol"))).toBe(404);
+    expect(getStorage().getInviteCode(code)?.currentUses).toBe(0);
+  });
+
+  it("should add redeemers of a group code to the group", () => {
+    const { id } = createGroup("alice", {
+      name: "Team",
+      memberIds: ["bob"],
+      settings: { requireAdminApproval: true },
+    });
+    const fromAdmin = createInvite("alice", { type: "group", groupId: id });
+    const fromMember = createInvite("bob", { type: "group", groupId: id });
+
+    expect(fromAdmin.metadata?.groupName).toBe("Team");
+    expect(
+      statusOf(() => createInvite("carol", { type: "group", groupId: id })),
+    ).toBe(403);
+
+    const { group } = redeemInvite(fromMember.code, "carol");
+    expect(group?.members.find((m) => m.userId === "carol")?.status).toBe(
+      "pending",
+    );
+    expect(statusOf(() => redeemInvite(fromAdmin.code, "carol"))).toBe(409);
+  });
+
+  it("should reject expired and revoked codes", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+    const expiring = createInvite("alice", {
+      type: "friend",
+      expiresInHours: 1,
+    });
+    const revoked = createInvite("alice", { type: "friend" });
+
+    expect(
+      statusOf(() => createInvite("alice", { type: "friend", maxUses: 0 })),
+    ).toBe(400);
+    expect(statusOf(() => revokeInvite(revoked.code, "bob"))).toBe(403);
+    revokeInvite(revoked.code, "alice");
+    expect(statusOf(() => redeemInvite(revoked.code, "carol"))).toBe(404);
+
+    vi.setSystemTime(Date.now() + 2 * 60 * 60 * 1000);
+    expect(statusOf(() => redeemInvite(expiring.code, "carol"))).toBe(410);
+  });
+});
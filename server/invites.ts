@@ -0,0 +1,227 @@
+import { randomInt } from "crypto";
+import {
+  CreateInviteRequest,
+  InviteCode,
+  RedeemInviteResponse,
+} from "@shared/api";
+import { getStorage } from "./storage";
+import { ApiError } from "./errors";
+import { joinWithInvite } from "./groups";
+import { connectUsers } from "./routes/pairing";
+import { toPublicProfile } from "./profiles";
+
+const INVITE_CODE_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+const INVITE_CODE_LENGTH = 10;
+
+export const DEFAULT_INVITE_MAX_USES = 10;
+export const MAX_INVITE_USES = 100;
+export const DEFAULT_INVITE_EXPIRY_HOURS = 24;
+export const MAX_INVITE_EXPIRY_HOURS = 7 * 24;
+
+export type InviteRedemption = Omit<
+  RedeemInviteResponse,
+  "success" | "message"
+>;
+
+const generateUniqueCode = (): string => {
+  let code: string;
+  do {
+    code = Array.from(
+      { length: INVITE_CODE_LENGTH },
+      () => INVITE_CODE_ALPHABET[randomInt(INVITE_CODE_ALPHABET.length)],
+    ).join("");
+  } while (getStorage().getInviteCode(code));
+  return code;
+};
+
+const cleanExpiredInvites = () => {
+  getStorage().deleteExpiredInviteCodes(new Date().toISOString());
+};
+
+// Whole numbers within the limit, or the default when left out
+const validateLimit = (
+  value: unknown,
+  fallback: number,
+  max: number,
+  label: string,
+): number => {
+  if (value === undefined) return fallback;
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    value < 1 ||
+    value > max
+  ) {
+    throw new ApiError(400, `${label} must be between 1 and ${max}`);
+  }
+  return value;
+};
+
+// What the redeemer sees before accepting: who sent it, and for group codes
+// which group. Anyone holding the code can look, so the creator's address is
+// only shown to themselves and people already connected to them.
+const withMetadata = (invite: InviteCode, viewerId: string): InviteCode => {
+  const storage = getStorage();
+  const group = invite.groupId ? storage.getGroup(invite.groupId) : null;
+  const creator = storage.getUserById(invite.createdBy);
+  const showEmail =
+    viewerId === invite.createdBy ||
+    !!storage.findConnection(invite.createdBy, viewerId)?.isActive;
+  return {
+    ...invite,
+    metadata: {
+      ...(creator && { creator: toPublicProfile(creator, showEmail) }),
+      ...(group && {
+        groupName: group.name,
+        encryptionLevel: group.settings.encryptionLevel,
+      }),
+    },
+  };
+};
+
+// Codes are shown upper case, but people type them however they like
+const requireUsableInvite = (code: unknown): InviteCode => {
+  const storage = getStorage();
+  const normalized = typeof code === "string" ? code.trim().toUpperCase() : "";
+  const invite = normalized ? storage.getInviteCode(normalized) : null;
+
+  if (!invite) {
+    throw new ApiError(404, "Invalid or revoked invite code");
+  }
+  if (new Date(invite.expiresAt) <= new Date()) {
+    storage.deleteInviteCode(invite.code);
+    throw new ApiError(410, "This invite has expired");
+  }
+  if (invite.currentUses >= invite.maxUses) {
+    throw new ApiError(410, "This invite has been used up");
+  }
+  return invite;
+};
+
+/**
+ * Register a new invite code. Group codes can only be made by members who
+ * are allowed to invite.
+ */
+export const createInvite = (
+  userId: string,
+  request: CreateInviteRequest,
+): InviteCode => {
+  cleanExpiredInvites();
+  const storage = getStorage();
+
+  if (request?.type !== "friend" && request?.type !== "group") {
+    throw new ApiError(400, "Invite type must be friend or group");
+  }
+  if (request.type === "group") {
+    const member =
+      typeof request.groupId === "string"
+        ? storage.getGroupMember(request.groupId, userId)
+        : null;
+    if (member?.status !== "active" || !member.permissions.canInvite) {
+      throw new ApiError(403, "You can't invite people to this group");
+    }
+  }
+
+  const maxUses = validateLimit(
+    request.maxUses,
+    DEFAULT_INVITE_MAX_USES,
+    MAX_INVITE_USES,
+    "Max uses",
+  );
+  const expiresInHours = validateLimit(
+    request.expiresInHours,
+    DEFAULT_INVITE_EXPIRY_HOURS,
+    MAX_INVITE_EXPIRY_HOURS,
+    "Expiry hours",
+  );
+
+  const invite: InviteCode = {
+    code: generateUniqueCode(),
+    type: request.type,
+    createdBy: userId,
+    ...(request.type === "group" && { groupId: request.groupId }),
+    createdAt: new Date().toISOString(),
+    expiresAt: new Date(
+      Date.now() + expiresInHours * 60 * 60 * 1000,
+    ).toISOString(),
+    maxUses,
+    currentUses: 0,
+  };
+  storage.saveInviteCode(invite);
+  return withMetadata(invite, userId);
+};
+
+/**
+ * The user's own codes that haven't expired, newest first
+ */
+export const getInvitesForUser = (userId: string): InviteCode[] => {
+  cleanExpiredInvites();
+  return getStorage()
+    .getInviteCodesForUser(userId)
+    .map((invite) => withMetadata(invite, userId));
+};
+
+export const getInvitePreview = (code: string, userId: string): InviteCode =>
+  withMetadata(requireUsableInvite(code), userId);
+
+/**
+ * Use up one redemption of a code. A friend code connects the redeemer to
+ * its creator; a group code adds them to the group, pending approval if the
+ * group requires it.
+ */
+export const redeemInvite = (
+  code: string,
+  userId: string,
+): InviteRedemption => {
+  const storage = getStorage();
+  const invite = requireUsableInvite(code);
+
+  if (invite.createdBy === userId) {
+    throw new ApiError(400, "You can't redeem your own invite");
+  }
+
+  let redemption: InviteRedemption;
+  if (invite.type === "group") {
+    redemption = {
+      type: "group",
+      group: joinWithInvite(invite.groupId!, invite.createdBy, userId),
+    };
+  } else {
+    const creator = storage.getUserById(invite.createdBy);
+    if (!creator) {
+      throw new ApiError(404, "Invalid or revoked invite code");
+    }
+    // Redeeming a friend's code again doesn't use it up
+    const alreadyConnected = !!storage.findConnection(creator.id, userId)
+      ?.isActive;
+    const connection = connectUsers(creator.id, userId);
+    redemption = {
+      type: "friend",
+      partnerId: creator.id,
+      // Now connected, so they share addresses like any other connection
+      partner: toPublicProfile(creator, true),
+      connectionId: connection.id,
+    };
+    if (alreadyConnected) return redemption;
+  }
+
+  storage.saveInviteCode({ ...invite, currentUses: invite.currentUses + 1 });
+  return redemption;
+};
+
+/**
+ * Delete a code so it can't be redeemed any more. Only its creator can.
+ */
+export const revokeInvite = (code: string, userId: string) => {
+  const storage = getStorage();
+  const invite =
+    typeof code === "string" ? storage.getInviteCode(code.toUpperCase()) : null;
+
+  if (!invite) {
+    throw new ApiError(404, "Invite not found");
+  }
+  if (invite.createdBy !== userId) {
+    throw new ApiError(403, "Only the creator can revoke an invite");
+  }
+  storage.deleteInviteCode(invite.code);
+};
@@ -0,0 +1,109 @@
+import { appendFileSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import nodemailer, { Transporter } from "nodemailer";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Sends the server's email. Callers go through getMailer, so the transport
+ * can be swapped by config and tests can read what would have been sent.
+ */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = "SecureChat <no-reply@localhost>";
+
+export class SmtpMailer implements Mailer {
+  private transport: Transporter;
+
+  constructor(
+    options: string | nodemailer.TransportOptions,
+    private from = DEFAULT_FROM,
+  ) {
+    this.transport = nodemailer.createTransport(options);
+  }
+
+  async send(message: MailMessage) {
+    await this.transport.sendMail({ from: this.from, ...message });
+  }
+}
+
+/**
+ * Delivers nowhere: keeps each message in `sent` and logs it, and appends it
+ * to a JSON-lines file when given a path. For local development and tests.
+ */
+export class OutboxMailer implements Mailer {
+  readonly sent: MailMessage[] = [];
+
+  constructor(private path?: string) {}
+
+  async send(message: MailMessage) {
+    this.sent.push(message);
+    console.log(
+      `📧 Mail to ${message.to}: ${message.subject}\n${message.text}`,
+    );
+
+    if (this.path) {
+      mkdirSync(dirname(this.path), { recursive: true });
+      appendFileSync(
+        this.path,
+        JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + "\n",
+      );
+    }
+  }
+}
+
+/**
+ * Build the mailer named by MAIL_DRIVER: "outbox" (the default) or "smtp",
+ * configured by SMTP_URL or SMTP_HOST/SMTP_PORT/SMTP_USER/SMTP_PASS.
+ */
+export const createMailer = (env: NodeJS.ProcessEnv = process.env): Mailer => {
+  const driver = env.MAIL_DRIVER ?? "outbox";
+
+  switch (driver) {
+    case "outbox":
+      return new OutboxMailer(env.MAIL_OUTBOX_PATH);
+    case "smtp": {
+      const from = env.MAIL_FROM || DEFAULT_FROM;
+      if (env.SMTP_URL) {
+        return new SmtpMailer(env.SMTP_URL, from);
+      }
+      if (!env.SMTP_HOST) {
+        throw new Error("MAIL_DRIVER=smtp needs SMTP_URL or SMTP_HOST");
+      }
+      const port = Number(env.SMTP_PORT || 587);
+      return new SmtpMailer(
+        {
+          host: env.SMTP_HOST,
+          port,
+          secure: port === 465,
+          ...(env.SMTP_USER && {
+            auth: { user: env.SMTP_USER, pass: env.SMTP_PASS },
+          }),
+        } as nodemailer.TransportOptions,
+        from,
+      );
+    }
+    default:
+      throw new Error(`Unknown MAIL_DRIVER: ${driver}`);
+  }
+};
+
+let mailer: Mailer | null = null;
+
+// Created on first use so tests can call setMailer before any handler runs
+export const getMailer = (): Mailer => {
+  if (!mailer) {
+    mailer = createMailer();
+  }
+  return mailer;
+};
+
+export const setMailer = (next: Mailer) => {
+  mailer = next;
+};
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import { MemoryStorage, setStorage } from "./storage";
+import {
+  queueMessage,
+  getPendingMessages,
+  acknowledgeMessage,
+  expireQueuedMessages,
+  groupCopyId,
+  originalMessageId,
+  receiptMessageIds,
+  MAX_RECEIPT_MESSAGES,
+  MESSAGE_TTL_HOURS,
+} from "./messageQueue";
+
+describe("message queue", () => {
+  beforeEach(() => {
+    setStorage(new MemoryStorage());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should hold messages until the recipient acknowledges them", () => {
+    queueMessage("alice", "bob", "m1", { ciphertext: "1" }, "text");
+    queueMessage("alice", "bob", "m2", { ciphertext: "2" }, "text");
+
+    expect(getPendingMessages("bob").map((m) => m.id)).toEqual(["m1", "m2"]);
+
+    // Only the recipient can acknowledge, and only once
+    expect(acknowledgeMessage("mallory", "m1")).toBeNull();
+    expect(acknowledgeMessage("bob", "m1")?.senderId).toBe("alice");
+    expect(acknowledgeMessage("bob", "m1")).toBeNull();
+
+    expect(getPendingMessages("bob").map((m) => m.id)).toEqual(["m2"]);
+  });
+
+  it("should treat a resend as the same message", () => {
+    const first = queueMessage("alice", "bob", "m1", "hi", "text");
+    const retry = queueMessage("alice", "bob", "m1", "hi", "text");
+
+    expect(retry).toEqual(first);
+    expect(getPendingMessages("bob")).toHaveLength(1);
+    // Someone else can't claim the ID
+    expect(queueMessage("mallory", "bob", "m1", "hi", "text")).toBeNull();
+  });
+
+  it("should keep a separate copy of a group message per recipient", () => {
+    for (const recipientId of ["bob", "carol"]) {
+      queueMessage(
+        "alice",
+        recipientId,
+        groupCopyId("m1", recipientId),
+        "hi",
+        "text",
+        "group-1",
+      );
+    }
+
+    const [copy] = getPendingMessages("bob");
+    expect(copy.groupId).toBe("group-1");
+    expect(originalMessageId(copy)).toBe("m1");
+
+    acknowledgeMessage("bob", groupCopyId("m1", "bob"));
+    expect(getPendingMessages("bob")).toEqual([]);
+    expect(getPendingMessages("carol").map(originalMessageId)).toEqual(["m1"]);
+  });
+
+  it("should expire messages after the TTL", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+    queueMessage("alice", "bob", "m1", "hi", "text");
+
+    vi.setSystemTime(Date.now() + (MESSAGE_TTL_HOURS - 1) * 60 * 60 * 1000);
+    expect(expireQueuedMessages()).toEqual([]);
+
+    vi.setSystemTime(Date.now() + 2 * 60 * 60 * 1000);
+    expect(expireQueuedMessages().map((m) => m.id)).toEqual(["m1"]);
+    expect(getPendingMessages("bob")).toEqual([]);
+  });
+
+  it("should keep only valid, distinct IDs in a read receipt", () => {
+    expect(
+      receiptMessageIds(["m1", "m1", "", 7, "x".repeat(200), "m2"]),
+    ).toEqual(["m1", "m2"]);
+    expect(receiptMessageIds("m1")).toEqual([]);
+
+    const many = Array.from(
+      { length: MAX_RECEIPT_MESSAGES + 5 },
+      (_, i) => `m${i}`,
+    );
+    expect(receiptMessageIds(many)).toHaveLength(MAX_RECEIPT_MESSAGES);
+  });
+});
@@ -0,0 +1,110 @@
+import { getStorage, QueuedMessage } from "./storage";
+
+// How long an undelivered message is held before it is dropped
+export const MESSAGE_TTL_HOURS =
+  Number(process.env.MESSAGE_TTL_HOURS) || 7 * 24;
+const MAX_MESSAGE_ID_LENGTH = 128;
+// Most message IDs one read receipt may name
+export const MAX_RECEIPT_MESSAGES = 100;
+
+export const isValidMessageId = (messageId: unknown): messageId is string =>
+  typeof messageId === "string" &&
+  messageId.length > 0 &&
+  messageId.length <= MAX_MESSAGE_ID_LENGTH;
+
+/**
+ * The valid, distinct message IDs a read receipt names, at most
+ * MAX_RECEIPT_MESSAGES of them
+ */
+export const receiptMessageIds = (messageIds: unknown): string[] =>
+  Array.isArray(messageIds)
+    ? [...new Set(messageIds.filter(isValidMessageId))].slice(
+        0,
+        MAX_RECEIPT_MESSAGES,
+      )
+    : [];
+
+/**
+ * A group message is queued once per recipient, each copy under its own ID
+ */
+export const groupCopyId = (messageId: string, recipientId: string) =>
+  `${messageId}:${recipientId}`;
+
+/**
+ * The ID the sender gave a message, for telling the sender about it
+ */
+export const originalMessageId = (message: QueuedMessage): string =>
+  message.groupId
+    ? message.id.slice(0, -(message.recipientId.length + 1))
+    : message.id;
+
+/**
+ * Hold a message until its recipient acknowledges it. Every message goes
+ * through the queue, online recipient or not, so a message that was emitted
+ * but never acknowledged is delivered again on the next connection.
+ *
+ * The sender's message ID is the key. Sending the same ID again (a client
+ * retry) returns the message already queued instead of a second copy; an ID
+ * already used by another sender returns null.
+ */
+export const queueMessage = (
+  senderId: string,
+  recipientId: string,
+  messageId: string,
+  content: string | object,
+  type: string,
+  groupId?: string,
+  replyTo?: string,
+): QueuedMessage | null => {
+  const storage = getStorage();
+  const existing = storage.getQueuedMessage(messageId);
+  if (existing) {
+    return existing.senderId === senderId ? existing : null;
+  }
+
+  const now = Date.now();
+  const message: QueuedMessage = {
+    id: messageId,
+    senderId,
+    recipientId,
+    content,
+    type,
+    ...(groupId && { groupId }),
+    ...(replyTo && { replyTo }),
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + MESSAGE_TTL_HOURS * 60 * 60 * 1000).toISOString(),
+  };
+  storage.enqueueMessage(message);
+  return message;
+};
+
+/**
+ * Messages waiting for a user, oldest first. Expired ones are dropped first.
+ */
+export const getPendingMessages = (recipientId: string): QueuedMessage[] => {
+  expireQueuedMessages();
+  return getStorage().getQueuedMessages(recipientId);
+};
+
+/**
+ * The recipient confirmed a message; drop it from the queue. Returns the
+ * message so the sender can be told, or null if it wasn't queued for this user
+ * (already acknowledged, expired, or someone else's).
+ */
+export const acknowledgeMessage = (
+  recipientId: string,
+  messageId: string,
+): QueuedMessage | null => {
+  const storage = getStorage();
+  const message = storage.getQueuedMessage(messageId);
+  if (!message || message.recipientId !== recipientId) return null;
+
+  storage.deleteQueuedMessage(messageId);
+  return message;
+};
+
+/**
+ * Drop messages past their TTL and return them so senders can be told
+ */
+export const expireQueuedMessages = (): QueuedMessage[] =>
+  getStorage().deleteExpiredQueuedMessages(new Date().toISOString());
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MemoryStorage, getStorage, setStorage } from "./storage";
+import { ApiError } from "./errors";
+import {
+  checkHandle,
+  getConnectionProfiles,
+  lookupHandle,
+  sendsReadReceipts,
+  updateProfile,
+} from "./profiles";
+
+const statusOf = (error: () => unknown) => {
+  try {
+    error();
+  } catch (caught) {
+    if (caught instanceof ApiError) return caught.status;
+    throw caught;
+  }
+  return null;
+};
+
+describe("profiles and handles", () => {
+  beforeEach(() => {
+    const storage = new MemoryStorage();
+    for (const id of ["alice", "bob", "carol"]) {
+      storage.createUser({
+        id,
+        email: `${id}@example.com`,
+        passwordHash: "hash",
+        emailVerified: true,
+        createdAt: new Date(0).toISOString(),
+      });
+    }
+    setStorage(storage);
+  });
+
+  it("should store handles lowercase and keep them unique", () => {
+    expect(updateProfile("alice", { username: "@Alice_1" }).username).toBe(
+      "alice_1",
+    );
+    expect(statusOf(() => updateProfile("bob", { username: "ALICE_1" }))).toBe(
+      409,
+    );
+    expect(checkHandle("bob", "alice_1")).toBe("That handle is taken");
+    expect(checkHandle("alice", "alice_1")).toBeNull();
+  });
+
+  it("should refuse handles that are malformed or reserved", () => {
+    for (const handle of ["ab", "1alice", "al ice", "a".repeat(21), "admin"]) {
+      expect(statusOf(() => updateProfile("alice", { username: handle }))).toBe(
+        400,
+      );
+    }
+  });
+
+  it("should set and clear the display name and avatar", () => {
+    const avatar = "data:image/png;base64,iVBORw0KGgo=";
+    const user = updateProfile("alice", {
+      displayName: "  Alice   Liddell ",
+      avatar,
+    });
+    expect(user).toMatchObject({ displayName: "Alice Liddell", avatar });
+    expect(user).not.toHaveProperty("passwordHash");
+
+    expect(
+      statusOf(() => updateProfile("alice", { avatar: "javascript:alert(1)" })),
+    ).toBe(400);
+    expect(
+      updateProfile("alice", { displayName: null, avatar: "" }).avatar,
+    ).toBeUndefined();
+    expect(getStorage().getUserById("alice")?.displayName).toBeUndefined();
+  });
+
+  it("should send read receipts unless they're turned off", () => {
+    expect(sendsReadReceipts("alice")).toBe(true);
+    expect(updateProfile("alice", { readReceipts: false }).readReceipts).toBe(
+      false,
+    );
+    expect(sendsReadReceipts("alice")).toBe(false);
+    expect(
+      statusOf(() => updateProfile("alice", { readReceipts: "no" as any })),
+    ).toBe(400);
+  });
+
+  it("should find exact handles without showing strangers an email", () => {
+    updateProfile("bob", { username: "bob", displayName: "Bob" });
+
+    expect(lookupHandle("alice", "@BOB")).toEqual({
+      id: "bob",
+      username: "bob",
+      displayName: "Bob",
+    });
+    expect(statusOf(() => lookupHandle("alice", "bo"))).toBe(404);
+
+    getStorage().saveBlock({
+      blockerId: "bob",
+      blockedId: "carol",
+      createdAt: new Date(0).toISOString(),
+    });
+    expect(statusOf(() => lookupHandle("carol", "bob"))).toBe(404);
+  });
+
+  it("should share emails between connected users", () => {
+    updateProfile("bob", { username: "bob" });
+    getStorage().saveConnection({
+      id: "alice-bob",
+      userId1: "alice",
+      userId2: "bob",
+      createdAt: new Date(0).toISOString(),
+      isActive: true,
+    });
+
+    expect(lookupHandle("alice", "bob").email).toBe("bob@example.com");
+    expect(getConnectionProfiles("alice")).toEqual([
+      { id: "bob", username: "bob", email: "bob@example.com" },
+    ]);
+  });
+});
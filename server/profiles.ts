@@ -0,0 +1,192 @@
+import { PublicProfile, UpdateProfileRequest, User } from "@shared/api";
+import { getStorage, StoredUser } from "./storage";
+import { ApiError } from "./errors";
+
+export const MIN_HANDLE_LENGTH = 3;
+export const MAX_HANDLE_LENGTH = 20;
+export const MAX_DISPLAY_NAME_LENGTH = 50;
+// Clients send a small square thumbnail, well under Express's 100kb body limit
+export const MAX_AVATAR_LENGTH = 64 * 1024;
+
+const HANDLE_PATTERN = /^[a-z][a-z0-9_]*$/;
+const AVATAR_PATTERN =
+  /^data:image\/(png|jpeg|webp|gif);base64,[A-Za-z0-9+/]+=*$/;
+
+// Handles people could mistake for the service itself
+const RESERVED_HANDLES = new Set([
+  "admin",
+  "administrator",
+  "support",
+  "help",
+  "securechat",
+  "system",
+  "root",
+  "me",
+]);
+
+// Handles are case-insensitive; a leading @ is how people tend to type them
+export const normalizeHandle = (handle: unknown): string =>
+  typeof handle === "string"
+    ? handle.trim().replace(/^@/, "").toLowerCase()
+    : "";
+
+/**
+ * Why a (normalized) handle can't be used by anyone, or null if it's fine
+ */
+export const handleProblem = (handle: string): string | null => {
+  if (handle.length < MIN_HANDLE_LENGTH || handle.length > MAX_HANDLE_LENGTH) {
+    return `Handles are ${MIN_HANDLE_LENGTH} to ${MAX_HANDLE_LENGTH} characters`;
+  }
+  if (!HANDLE_PATTERN.test(handle)) {
+    return "Handles start with a letter and use only letters, numbers and underscores";
+  }
+  if (RESERVED_HANDLES.has(handle)) {
+    return "That handle is reserved";
+  }
+  return null;
+};
+
+/**
+ * The account as its owner sees it
+ */
+export const toUser = ({ passwordHash, ...user }: StoredUser): User => user;
+
+/**
+ * What another user may see. The email address is only shown between
+ * connected users, who already share it.
+ */
+export const toPublicProfile = (
+  user: StoredUser,
+  includeEmail = false,
+): PublicProfile => ({
+  id: user.id,
+  ...(user.username && { username: user.username }),
+  ...(user.displayName && { displayName: user.displayName }),
+  ...(user.avatar && { avatar: user.avatar }),
+  ...(includeEmail && { email: user.email }),
+});
+
+/**
+ * Whether the user could take the handle: null if so, otherwise why not.
+ * Their own current handle counts as available.
+ */
+export const checkHandle = (userId: string, handle: unknown): string | null => {
+  const normalized = normalizeHandle(handle);
+  const problem = handleProblem(normalized);
+  if (problem) return problem;
+
+  const owner = getStorage().getUserByUsername(normalized);
+  return owner && owner.id !== userId ? "That handle is taken" : null;
+};
+
+const cleanDisplayName = (displayName: unknown): string | undefined => {
+  if (displayName === null || displayName === undefined) return undefined;
+  if (typeof displayName !== "string") {
+    throw new ApiError(400, "Display name must be text");
+  }
+  const trimmed = displayName.trim().replace(/\s+/g, " ");
+  if (trimmed.length > MAX_DISPLAY_NAME_LENGTH) {
+    throw new ApiError(
+      400,
+      `Display names are at most ${MAX_DISPLAY_NAME_LENGTH} characters`,
+    );
+  }
+  return trimmed || undefined;
+};
+
+const cleanAvatar = (avatar: unknown): string | undefined => {
+  if (avatar === null || avatar === undefined || avatar === "")
+    return undefined;
+  if (typeof avatar !== "string" || !AVATAR_PATTERN.test(avatar)) {
+    throw new ApiError(400, "Avatar must be a PNG, JPEG, WebP or GIF image");
+  }
+  if (avatar.length > MAX_AVATAR_LENGTH) {
+    throw new ApiError(413, "Avatar image is too large");
+  }
+  return avatar;
+};
+
+/**
+ * Change the user's handle, display name, avatar or read receipt setting.
+ * Fields left out of the request are kept.
+ */
+export const updateProfile = (
+  userId: string,
+  request: UpdateProfileRequest,
+): User => {
+  const storage = getStorage();
+  const user = storage.getUserById(userId);
+  if (!user) {
+    throw new ApiError(404, "User not found");
+  }
+
+  const updated: StoredUser = { ...user };
+  if (request.username !== undefined) {
+    const handle = normalizeHandle(request.username);
+    const problem = handleProblem(handle);
+    if (problem) {
+      throw new ApiError(400, problem);
+    }
+    const owner = storage.getUserByUsername(handle);
+    if (owner && owner.id !== userId) {
+      throw new ApiError(409, "That handle is taken");
+    }
+    updated.username = handle;
+  }
+  if (request.displayName !== undefined) {
+    updated.displayName = cleanDisplayName(request.displayName);
+  }
+  if (request.avatar !== undefined) {
+    updated.avatar = cleanAvatar(request.avatar);
+  }
+  if (request.readReceipts !== undefined) {
+    if (typeof request.readReceipts !== "boolean") {
+      throw new ApiError(400, "readReceipts must be true or false");
+    }
+    updated.readReceipts = request.readReceipts;
+  }
+
+  storage.updateUser(updated);
+  return toUser(updated);
+};
+
+// Read receipts are on unless the user turned them off
+export const sendsReadReceipts = (userId: string): boolean =>
+  getStorage().getUserById(userId)?.readReceipts !== false;
+
+/**
+ * Find someone by their exact handle. There's no searching or listing, and
+ * someone who has blocked the user looks the same as a handle nobody has.
+ */
+export const lookupHandle = (
+  userId: string,
+  handle: unknown,
+): PublicProfile => {
+  const storage = getStorage();
+  const normalized = normalizeHandle(handle);
+  const target = normalized ? storage.getUserByUsername(normalized) : null;
+
+  if (!target || storage.getBlock(target.id, userId)) {
+    throw new ApiError(404, "No one has that handle");
+  }
+  return toPublicProfile(
+    target,
+    !!storage.findConnection(userId, target.id)?.isActive,
+  );
+};
+
+/**
+ * Current profiles of everyone the user is connected to
+ */
+export const getConnectionProfiles = (userId: string): PublicProfile[] => {
+  const storage = getStorage();
+  return storage
+    .getConnectionsForUser(userId)
+    .map((connection) =>
+      storage.getUserById(
+        connection.userId1 === userId ? connection.userId2 : connection.userId1,
+      ),
+    )
+    .filter((partner): partner is StoredUser => !!partner)
+    .map((partner) => toPublicProfile(partner, true));
+};
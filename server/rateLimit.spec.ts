@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { EventEmitter } from "events";
+import { RateLimiter, rateLimit } from "./rateLimit";
+
+const MINUTE = 60 * 1000;
+const rule = {
+  maxFailures: 3,
+  windowMs: 10 * MINUTE,
+  lockoutMs: MINUTE,
+  maxLockoutMs: 4 * MINUTE,
+};
+
+const failTimes = (limiter: RateLimiter, key: string, count: number) => {
+  for (let i = 0; i < count; i++) limiter.recordFailure(key);
+};
+
+// Just enough of an Express response for the middleware
+const fakeResponse = () => {
+  const res = Object.assign(new EventEmitter(), {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: undefined as unknown,
+    set(name: string, value: string) {
+      res.headers[name] = value;
+      return res;
+    },
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+  });
+  return res;
+};
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should lock a key out once it has too many failures", () => {
+    const limiter = new RateLimiter(rule);
+
+    failTimes(limiter, "ip:1", 2);
+    expect(limiter.retryAfterMs("ip:1")).toBe(0);
+    limiter.recordFailure("ip:1");
+    expect(limiter.retryAfterMs("ip:1")).toBe(MINUTE);
+    expect(limiter.retryAfterMs("ip:2")).toBe(0);
+  });
+
+  it("should double each lockout up to the limit", () => {
+    const limiter = new RateLimiter(rule);
+    const lockouts: number[] = [];
+
+    for (let i = 0; i < 4; i++) {
+      failTimes(limiter, "ip:1", 3);
+      lockouts.push(limiter.retryAfterMs("ip:1"));
+      vi.setSystemTime(Date.now() + limiter.retryAfterMs("ip:1"));
+    }
+    expect(lockouts).toEqual([MINUTE, 2 * MINUTE, 4 * MINUTE, 4 * MINUTE]);
+  });
+
+  it("should forget failures after a window or a success", () => {
+    const limiter = new RateLimiter(rule);
+
+    failTimes(limiter, "ip:1", 2);
+    vi.setSystemTime(Date.now() + 11 * MINUTE);
+    limiter.recordFailure("ip:1");
+    expect(limiter.retryAfterMs("ip:1")).toBe(0);
+
+    failTimes(limiter, "account:alice", 2);
+    limiter.recordSuccess("account:alice");
+    limiter.recordFailure("account:alice");
+    expect(limiter.retryAfterMs("account:alice")).toBe(0);
+  });
+
+  it("should answer 429 while locked out and count failed responses", () => {
+    const limiter = new RateLimiter(rule);
+    const middleware = rateLimit({ limiter, key: () => "ip:1" });
+    const attempt = (status: number) => {
+      const res = fakeResponse();
+      const next = vi.fn();
+      middleware({} as any, res as any, next);
+      if (next.mock.calls.length) {
+        res.statusCode = status;
+        res.emit("finish");
+      }
+      return res;
+    };
+
+    attempt(200);
+    attempt(401);
+    attempt(401);
+    expect(attempt(401).statusCode).toBe(401);
+
+    const throttled = attempt(200);
+    expect(throttled.statusCode).toBe(429);
+    expect(throttled.headers["Retry-After"]).toBe("60");
+    expect(throttled.body).toEqual({
+      success: false,
+      message: "Too many attempts. Try again in 60 seconds.",
+    });
+  });
+
+  it("should reserve attempts so parallel requests can't slip past the limit", () => {
+    const limiter = new RateLimiter(rule);
+    const middleware = rateLimit({
+      limiter,
+      key: () => "account:alice",
+      resetOnSuccess: true,
+    });
+    const start = () => {
+      const res = fakeResponse();
+      const next = vi.fn();
+      middleware({} as any, res as any, next);
+      return { res, passed: next.mock.calls.length > 0 };
+    };
+    const finish = (res: ReturnType<typeof fakeResponse>, status: number) => {
+      res.statusCode = status;
+      res.emit("finish");
+      res.emit("close");
+    };
+
+    // Three guesses in flight use up the limit before any has failed
+    const inFlight = [start(), start(), start()];
+    expect(inFlight.every((attempt) => attempt.passed)).toBe(true);
+    const fourth = start();
+    expect(fourth.passed).toBe(false);
+    expect(fourth.res.statusCode).toBe(429);
+
+    // Successes hand their reservations back
+    finish(inFlight[0].res, 200);
+    const later = start();
+    expect(later.passed).toBe(true);
+
+    // Hanging up hands it back without counting either way
+    inFlight[1].res.emit("close");
+    expect(limiter.retryAfterMs("account:alice")).toBe(0);
+
+    // Failures still count, and lock the key out at the limit
+    finish(inFlight[2].res, 401);
+    finish(later.res, 401);
+    const last = start();
+    expect(last.passed).toBe(true);
+    finish(last.res, 401);
+    expect(limiter.retryAfterMs("account:alice")).toBe(MINUTE);
+    expect(start().passed).toBe(false);
+  });
+});
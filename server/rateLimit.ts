@@ -0,0 +1,339 @@
+import { Request, RequestHandler } from "express";
+import { ApiResponse } from "@shared/api";
+
+export interface RateLimitRule {
+  maxFailures: number; // Within one window, before locking out
+  windowMs: number;
+  lockoutMs: number; // The first lockout; each one after that doubles
+  maxLockoutMs: number;
+}
+
+interface LimitEntry {
+  windowStart: number;
+  failures: number;
+  lockouts: number; // Lockouts in a row, for the doubling
+  lockedUntil: number;
+  lastFailure: number;
+  pending: number; // Reserved attempts that haven't finished yet
+}
+
+// How long to wait when attempts already in flight could use up what's left
+// of the window; they finish in well under this
+const IN_FLIGHT_RETRY_MS = 1000;
+
+/**
+ * Counts failures per key (an IP, an account) and locks a key out once it
+ * has too many. Each lockout is twice as long as the one before, until the
+ * key has been quiet for a full max-lockout period. Attempts are reserved
+ * before they're handled, so parallel requests can't all get past the check
+ * before any of them has failed.
+ *
+ * Counters live in memory rather than in Storage: they're written on every
+ * attempt and only matter for minutes, and a restart forgiving them is fine.
+ */
+export class RateLimiter {
+  private entries = new Map<string, LimitEntry>();
+  private lastPrune = Date.now();
+
+  constructor(private rule: RateLimitRule) {}
+
+  /**
+   * How long until the key may try again; 0 if it may now
+   */
+  retryAfterMs(key: string): number {
+    const entry = this.entries.get(key);
+    return entry ? Math.max(entry.lockedUntil - Date.now(), 0) : 0;
+  }
+
+  /**
+   * Reserve an attempt for the key, counted against its limit until it's
+   * released. Returns 0 if reserved, otherwise how long until it may try again.
+   */
+  reserve(key: string): number {
+    const now = Date.now();
+    this.prune(now);
+
+    const entry = this.currentEntry(key, now);
+    if (entry.lockedUntil > now) {
+      return entry.lockedUntil - now;
+    }
+    if (entry.failures + entry.pending >= this.rule.maxFailures) {
+      return IN_FLIGHT_RETRY_MS;
+    }
+    entry.pending++;
+    this.entries.set(key, entry);
+    return 0;
+  }
+
+  // Give back a reservation once its attempt has finished, before recording
+  // how it went
+  release(key: string) {
+    const entry = this.entries.get(key);
+    if (entry && entry.pending > 0) {
+      entry.pending--;
+    }
+  }
+
+  recordFailure(key: string) {
+    const now = Date.now();
+    this.prune(now);
+
+    const entry = this.currentEntry(key, now);
+    entry.failures++;
+    entry.lastFailure = now;
+    if (entry.failures >= this.rule.maxFailures) {
+      const lockoutMs = Math.min(
+        this.rule.lockoutMs * 2 ** entry.lockouts,
+        this.rule.maxLockoutMs,
+      );
+      entry.lockedUntil = now + lockoutMs;
+      entry.lockouts++;
+      entry.windowStart = now;
+      entry.failures = 0;
+    }
+    this.entries.set(key, entry);
+  }
+
+  // A success wipes the slate, e.g. for an account whose owner got the
+  // password right, apart from other attempts still in flight
+  recordSuccess(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry?.pending) {
+      this.entries.delete(key);
+      return;
+    }
+    this.entries.set(key, {
+      ...this.newEntry(Date.now()),
+      pending: entry.pending,
+    });
+  }
+
+  private newEntry(now: number): LimitEntry {
+    return {
+      windowStart: now,
+      failures: 0,
+      lockouts: 0,
+      lockedUntil: 0,
+      lastFailure: now,
+      pending: 0,
+    };
+  }
+
+  // The key's entry with an expired window or lockout streak cleared
+  private currentEntry(key: string, now: number): LimitEntry {
+    const entry = this.entries.get(key) ?? this.newEntry(now);
+    if (now - entry.lastFailure > this.rule.maxLockoutMs) {
+      entry.lockouts = 0;
+    }
+    if (now - entry.windowStart > this.rule.windowMs) {
+      entry.windowStart = now;
+      entry.failures = 0;
+    }
+    return entry;
+  }
+
+  // Forget keys that are unlocked, have nothing in flight and have been
+  // quiet long enough that their lockouts no longer count
+  private prune(now: number) {
+    if (now - this.lastPrune < this.rule.windowMs) return;
+    this.lastPrune = now;
+    for (const [key, entry] of this.entries.entries()) {
+      if (
+        entry.lockedUntil <= now &&
+        !entry.pending &&
+        now - entry.lastFailure > this.rule.maxLockoutMs
+      ) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+interface RateLimitOptions {
+  limiter: RateLimiter;
+  // Which counter the request belongs to; requests without one pass through
+  key: (req: Request) => string | undefined;
+  countAll?: boolean; // Count every request, not just failed ones
+  resetOnSuccess?: boolean;
+}
+
+/**
+ * Middleware that answers 429 while the request's key is locked out, and
+ * otherwise reserves an attempt for the request and counts it by the status
+ * the route answers with.
+ */
+export const rateLimit = ({
+  limiter,
+  key,
+  countAll,
+  resetOnSuccess,
+}: RateLimitOptions): RequestHandler => {
+  return (req, res, next) => {
+    const limitKey = key(req);
+    if (!limitKey) return next();
+
+    const retryAfterMs = limiter.reserve(limitKey);
+    if (retryAfterMs > 0) {
+      const retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
+      res.set("Retry-After", String(retryAfterSeconds));
+      const response: ApiResponse = {
+        success: false,
+        message: `Too many attempts. Try again in ${retryAfterSeconds} seconds.`,
+      };
+      return res.status(429).json(response);
+    }
+
+    // A request the client hung up on never answered anyone, so it only
+    // gives back its reservation (unless every request counts)
+    let settled = false;
+    const settle = (finished: boolean) => {
+      if (settled) return;
+      settled = true;
+      limiter.release(limitKey);
+
+      const failed =
+        finished && res.statusCode >= 400 && res.statusCode !== 429;
+      if (failed || countAll) {
+        limiter.recordFailure(limitKey);
+      } else if (finished && resetOnSuccess) {
+        limiter.recordSuccess(limitKey);
+      }
+    };
+    res.on("finish", () => settle(true));
+    res.on("close", () => settle(false));
+    next();
+  };
+};
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const byIp = (req: Request) => `ip:${req.ip}`;
+const byEmail = (req: Request) =>
+  typeof req.body?.email === "string"
+    ? `account:${req.body.email.trim().toLowerCase()}`
+    : undefined;
+// Set by authenticateUser, which runs first
+const byUser = (req: any) => (req.user ? `account:${req.user.id}` : undefined);
+
+// Shared addresses (offices, mobile carriers) sign in for many people, so
+// IPs get more room than a single account does
+const IP_RULE: RateLimitRule = {
+  maxFailures: 20,
+  windowMs: 15 * MINUTE,
+  lockoutMs: MINUTE,
+  maxLockoutMs: HOUR,
+};
+const ACCOUNT_RULE: RateLimitRule = {
+  maxFailures: 5,
+  windowMs: 15 * MINUTE,
+  lockoutMs: MINUTE,
+  maxLockoutMs: HOUR,
+};
+// For requests that send an email, counting every one
+const MAIL_RULE: RateLimitRule = {
+  maxFailures: 3,
+  windowMs: HOUR,
+  lockoutMs: 15 * MINUTE,
+  maxLockoutMs: 6 * HOUR,
+};
+
+export const loginRateLimit: RequestHandler[] = [
+  rateLimit({ limiter: new RateLimiter(IP_RULE), key: byIp }),
+  rateLimit({
+    limiter: new RateLimiter(ACCOUNT_RULE),
+    key: byEmail,
+    resetOnSuccess: true,
+  }),
+];
+
+// The code is checked per account by verifySecondFactor; this covers the IP
+export const twoFactorLoginRateLimit: RequestHandler[] = [
+  rateLimit({ limiter: new RateLimiter(IP_RULE), key: byIp }),
+];
+
+// Every signup counts, successful or not, to slow down mass registration
+export const signupRateLimit: RequestHandler[] = [
+  rateLimit({
+    limiter: new RateLimiter({
+      maxFailures: 10,
+      windowMs: HOUR,
+      lockoutMs: 10 * MINUTE,
+      maxLockoutMs: 6 * HOUR,
+    }),
+    key: byIp,
+    countAll: true,
+  }),
+];
+
+// Guesses count against the account as well as the IP
+export const pairingRateLimit: RequestHandler[] = [
+  rateLimit({ limiter: new RateLimiter(IP_RULE), key: byIp }),
+  rateLimit({
+    limiter: new RateLimiter({ ...ACCOUNT_RULE, maxFailures: 10 }),
+    key: byUser,
+  }),
+];
+
+// Each request sends an email, so count them all, per IP and per address
+export const passwordResetRateLimit: RequestHandler[] = [
+  rateLimit({ limiter: new RateLimiter(IP_RULE), key: byIp, countAll: true }),
+  rateLimit({
+    limiter: new RateLimiter(MAIL_RULE),
+    key: byEmail,
+    countAll: true,
+  }),
+];
+
+export const verificationEmailRateLimit: RequestHandler[] = [
+  rateLimit({
+    limiter: new RateLimiter(MAIL_RULE),
+    key: byUser,
+    countAll: true,
+  }),
+];
+
+// For links from email: wrong tokens count against the IP
+export const emailTokenRateLimit: RequestHandler[] = [
+  rateLimit({ limiter: new RateLimiter(IP_RULE), key: byIp }),
+];
+
+// Password checks for signed-in actions, such as deleting the account
+export const reauthRateLimit: RequestHandler[] = [
+  rateLimit({
+    limiter: new RateLimiter(ACCOUNT_RULE),
+    key: byUser,
+    resetOnSuccess: true,
+  }),
+];
+
+// Every bundle fetch uses up one of the target's one-time prekeys, so count
+// them all, to keep anyone from draining a contact's stock
+export const preKeyBundleRateLimit: RequestHandler[] = [
+  rateLimit({
+    limiter: new RateLimiter({
+      maxFailures: 30,
+      windowMs: 15 * MINUTE,
+      lockoutMs: 5 * MINUTE,
+      maxLockoutMs: HOUR,
+    }),
+    key: byUser,
+    countAll: true,
+  }),
+];
+
+// Handle lookups, availability checks and friend requests can all say
+// whether an account exists, so every one counts, to keep the directory
+// from being walked
+export const directoryRateLimit: RequestHandler[] = [
+  rateLimit({
+    limiter: new RateLimiter({
+      maxFailures: 60,
+      windowMs: 15 * MINUTE,
+      lockoutMs: MINUTE,
+      maxLockoutMs: HOUR,
+    }),
+    key: byUser,
+    countAll: true,
+  }),
+];
@@ -0,0 +1,31 @@
+import { RequestHandler } from "express";
+import {
+  AccountExportResponse,
+  ApiResponse,
+  DeleteAccountRequest,
+} from "@shared/api";
+import { sendApiError } from "../errors";
+import { deleteAccount, exportAccountData } from "../account";
+
+export const handleDeleteAccount: RequestHandler = async (req: any, res) => {
+  try {
+    const { password, code }: DeleteAccountRequest = req.body ?? {};
+    await deleteAccount(req.user.id, password, code);
+    const response: ApiResponse = { success: true, message: "Account deleted" };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Delete account");
+  }
+};
+
+export const handleExportAccount: RequestHandler = (req: any, res) => {
+  try {
+    const response: AccountExportResponse = {
+      success: true,
+      export: exportAccountData(req.user.id),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Export account");
+  }
+};
@@ -1,41 +1,128 @@
-import { RequestHandler } from "express";
+import { Request, RequestHandler } from "express";
 import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
 import { v4 as uuidv4 } from "uuid";
-import { AuthRequest, AuthResponse, User } from "@shared/api";
+import {
+  ApiResponse,
+  AuthRequest,
+  AuthResponse,
+  ForgotPasswordRequest,
+  RefreshTokenRequest,
+  ResetPasswordRequest,
+  SessionListResponse,
+  TwoFactorLoginRequest,
+  User,
+  VerifyEmailRequest,
+} from "@shared/api";
+import { getStorage, StoredUser } from "../storage";
+import { sendApiError } from "../errors";
+import {
+  SessionOrigin,
+  createSession,
+  getSessionsForUser,
+  isSessionActive,
+  revokeAllSessions,
+  revokeSession,
+  rotateRefreshToken,
+} from "../sessions";
+import { isTwoFactorEnabled, verifySecondFactor } from "../twoFactor";
+import { toUser } from "../profiles";
+import {
+  isValidEmail,
+  requestPasswordReset,
+  resetPassword,
+  sendVerificationEmail,
+  verifyEmail,
+} from "../emailAuth";
 
-// In-memory storage for demo (in production, use a real database)
-const users: Map<string, User & { passwordHash: string }> = new Map();
-const usersByEmail: Map<string, User & { passwordHash: string }> = new Map();
+const JWT_SECRET =
+  process.env.JWT_SECRET || "secure-chat-secret-key-change-in-production";
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+// Time allowed between the password and the second factor
+const CHALLENGE_TOKEN_TTL_SECONDS = 5 * 60;
 
-const JWT_SECRET = process.env.JWT_SECRET || "secure-chat-secret-key-change-in-production";
+// Both kinds of token are signed with the same secret, so each says what it
+// is for and is only accepted there
+type TokenPurpose = "access" | "2fa_challenge";
 
-// Helper function to generate JWT token
-const generateToken = (userId: string): string => {
-  return jwt.sign({ userId }, JWT_SECRET, { expiresIn: "7d" });
+// Access tokens are short-lived and tied to a session; the refresh token
+// gets a new one
+const generateToken = (userId: string, sessionId: string): string => {
+  const purpose: TokenPurpose = "access";
+  return jwt.sign({ userId, sessionId, purpose }, JWT_SECRET, {
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  });
 };
 
-// Helper function to verify JWT token
-export const verifyToken = (token: string): { userId: string } | null => {
+// Proves the password was right, and nothing more
+const generateChallengeToken = (userId: string): string => {
+  const purpose: TokenPurpose = "2fa_challenge";
+  return jwt.sign({ userId, purpose }, JWT_SECRET, {
+    expiresIn: CHALLENGE_TOKEN_TTL_SECONDS,
+  });
+};
+
+// Helper function to verify JWT token. Only fully signed-in access tokens
+// pass; tokens from revoked sessions fail even before they expire.
+export const verifyToken = (
+  token: string,
+): { userId: string; sessionId: string } | null => {
   try {
-    return jwt.verify(token, JWT_SECRET) as { userId: string };
+    const decoded = jwt.verify(token, JWT_SECRET) as {
+      userId: string;
+      sessionId?: string;
+      purpose?: TokenPurpose;
+    };
+    if (
+      decoded.purpose !== "access" ||
+      !decoded.sessionId ||
+      !isSessionActive(decoded.sessionId, decoded.userId)
+    ) {
+      return null;
+    }
+    return { userId: decoded.userId, sessionId: decoded.sessionId };
   } catch {
     return null;
   }
 };
 
-// Helper function to get user by ID
-export const getUserById = (id: string): User | null => {
-  const user = users.get(id);
-  if (!user) return null;
-  
+const verifyChallengeToken = (token: unknown): string | null => {
+  if (typeof token !== "string") return null;
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as {
+      userId: string;
+      purpose?: TokenPurpose;
+    };
+    return decoded.purpose === "2fa_challenge" ? decoded.userId : null;
+  } catch {
+    return null;
+  }
+};
+
+const sessionOrigin = (req: Request): SessionOrigin => ({
+  deviceId: req.body?.deviceId,
+  userAgent: req.get("user-agent"),
+  ipAddress: req.ip,
+});
+
+// Start a session and answer with its tokens
+const signIn = (user: StoredUser, req: Request): AuthResponse => {
+  const { session, refreshToken } = createSession(user.id, sessionOrigin(req));
   return {
-    id: user.id,
-    email: user.email,
-    createdAt: user.createdAt,
+    success: true,
+    user: toUser(user),
+    token: generateToken(user.id, session.sessionId),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
   };
 };
 
+// Helper function to get user by ID
+export const getUserById = (id: string): User | null => {
+  const user = getStorage().getUserById(id);
+  return user ? toUser(user) : null;
+};
+
 export const handleSignup: RequestHandler = async (req, res) => {
   try {
     const { email, password }: AuthRequest = req.body;
@@ -49,8 +136,16 @@ export const handleSignup: RequestHandler = async (req, res) => {
       return res.status(400).json(response);
     }
 
+    if (!isValidEmail(email)) {
+      const response: AuthResponse = {
+        success: false,
+        message: "Enter a valid email address",
+      };
+      return res.status(400).json(response);
+    }
+
     // Check if user already exists
-    if (usersByEmail.has(email)) {
+    if (getStorage().getUserByEmail(email)) {
       const response: AuthResponse = {
         success: false,
         message: "User already exists with this email",
@@ -62,31 +157,24 @@ export const handleSignup: RequestHandler = async (req, res) => {
     const passwordHash = await bcrypt.hash(password, 12);
 
     // Create user
-    const user: User & { passwordHash: string } = {
+    const user: StoredUser = {
       id: uuidv4(),
       email,
       passwordHash,
+      emailVerified: false,
       createdAt: new Date().toISOString(),
     };
 
     // Store user
-    users.set(user.id, user);
-    usersByEmail.set(email, user);
+    getStorage().createUser(user);
 
-    // Generate token
-    const token = generateToken(user.id);
+    // Signing up shouldn't fail because mail is slow or down; the user can
+    // ask for another email later
+    sendVerificationEmail(user.id).catch((error) =>
+      console.error("Verification email error:", error),
+    );
 
-    const response: AuthResponse = {
-      success: true,
-      user: {
-        id: user.id,
-        email: user.email,
-        createdAt: user.createdAt,
-      },
-      token,
-    };
-
-    res.status(201).json(response);
+    res.status(201).json(signIn(user, req));
   } catch (error) {
     console.error("Signup error:", error);
     const response: AuthResponse = {
@@ -111,7 +199,7 @@ export const handleLogin: RequestHandler = async (req, res) => {
     }
 
     // Find user
-    const user = usersByEmail.get(email);
+    const user = getStorage().getUserByEmail(email);
     if (!user) {
       const response: AuthResponse = {
         success: false,
@@ -130,20 +218,17 @@ export const handleLogin: RequestHandler = async (req, res) => {
       return res.status(401).json(response);
     }
 
-    // Generate token
-    const token = generateToken(user.id);
-
-    const response: AuthResponse = {
-      success: true,
-      user: {
-        id: user.id,
-        email: user.email,
-        createdAt: user.createdAt,
-      },
-      token,
-    };
+    // The password alone isn't enough; the client comes back with a code
+    if (isTwoFactorEnabled(user.id)) {
+      const response: AuthResponse = {
+        success: true,
+        twoFactorRequired: true,
+        challengeToken: generateChallengeToken(user.id),
+      };
+      return res.json(response);
+    }
 
-    res.json(response);
+    res.json(signIn(user, req));
   } catch (error) {
     console.error("Login error:", error);
     const response: AuthResponse = {
@@ -154,23 +239,48 @@ export const handleLogin: RequestHandler = async (req, res) => {
   }
 };
 
+// Second step of signing in to an account with 2FA
+export const handleLoginTwoFactor: RequestHandler = (req, res) => {
+  try {
+    const { challengeToken, code }: TwoFactorLoginRequest = req.body ?? {};
+    const userId = verifyChallengeToken(challengeToken);
+    const user = userId ? getStorage().getUserById(userId) : null;
+    if (!user) {
+      const response: AuthResponse = {
+        success: false,
+        message: "Sign-in expired; enter your password again",
+      };
+      return res.status(401).json(response);
+    }
+
+    verifySecondFactor(user.id, code);
+    res.json(signIn(user, req));
+  } catch (error) {
+    sendApiError(res, error, "Two-factor login");
+  }
+};
+
 export const handleVerifyToken: RequestHandler = (req, res) => {
   try {
     const authHeader = req.headers.authorization;
     if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      return res.status(401).json({ success: false, message: "No token provided" });
+      return res
+        .status(401)
+        .json({ success: false, message: "No token provided" });
     }
 
     const token = authHeader.substring(7);
     const decoded = verifyToken(token);
-    
+
     if (!decoded) {
       return res.status(401).json({ success: false, message: "Invalid token" });
     }
 
     const user = getUserById(decoded.userId);
     if (!user) {
-      return res.status(401).json({ success: false, message: "User not found" });
+      return res
+        .status(401)
+        .json({ success: false, message: "User not found" });
     }
 
     const response: AuthResponse = {
@@ -184,3 +294,136 @@ export const handleVerifyToken: RequestHandler = (req, res) => {
     res.status(500).json({ success: false, message: "Internal server error" });
   }
 };
+
+export const handleRefreshToken: RequestHandler = (req, res) => {
+  try {
+    const { refreshToken }: RefreshTokenRequest = req.body ?? {};
+    const { session, refreshToken: rotated } = rotateRefreshToken(
+      refreshToken,
+      sessionOrigin(req),
+    );
+
+    const user = getUserById(session.userId);
+    if (!user) {
+      return res
+        .status(401)
+        .json({ success: false, message: "User not found" });
+    }
+
+    const response: AuthResponse = {
+      success: true,
+      user,
+      token: generateToken(user.id, session.sessionId),
+      refreshToken: rotated,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Refresh token");
+  }
+};
+
+export const handleLogout: RequestHandler = (req: any, res) => {
+  try {
+    revokeSession(req.user.id, req.sessionId);
+    const response: ApiResponse = { success: true, message: "Logged out" };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Logout");
+  }
+};
+
+export const handleListSessions: RequestHandler = (req: any, res) => {
+  try {
+    const response: SessionListResponse = {
+      success: true,
+      sessions: getSessionsForUser(req.user.id, req.sessionId),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "List sessions");
+  }
+};
+
+export const handleRevokeSession: RequestHandler = (req: any, res) => {
+  try {
+    revokeSession(req.user.id, req.params.sessionId);
+    const response: ApiResponse = { success: true, message: "Session revoked" };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Revoke session");
+  }
+};
+
+// ?exceptCurrent=true keeps the session making the request signed in
+export const handleRevokeAllSessions: RequestHandler = (req: any, res) => {
+  try {
+    const keepSessionId =
+      req.query.exceptCurrent === "true" ? req.sessionId : undefined;
+    revokeAllSessions(req.user.id, keepSessionId);
+    const response: ApiResponse = {
+      success: true,
+      message: "Sessions revoked",
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Revoke sessions");
+  }
+};
+
+export const handleSendVerificationEmail: RequestHandler = async (
+  req: any,
+  res,
+) => {
+  try {
+    await sendVerificationEmail(req.user.id);
+    const response: ApiResponse = {
+      success: true,
+      message: "Verification email sent",
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Send verification email");
+  }
+};
+
+export const handleVerifyEmail: RequestHandler = (req, res) => {
+  try {
+    const { token }: VerifyEmailRequest = req.body ?? {};
+    verifyEmail(token);
+    const response: ApiResponse = { success: true, message: "Email verified" };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Verify email");
+  }
+};
+
+// Answers the same whether or not the address has an account, and even if
+// the mail fails, so nobody can probe for accounts with it
+export const handleForgotPassword: RequestHandler = async (req, res) => {
+  const { email }: ForgotPasswordRequest = req.body ?? {};
+  try {
+    await requestPasswordReset(email);
+  } catch (error) {
+    console.error("Password reset email error:", error);
+  }
+  const response: ApiResponse = {
+    success: true,
+    message: "If an account uses that address, we've sent it a reset link",
+  };
+  res.json(response);
+};
+
+export const handleResetPassword: RequestHandler = async (req, res) => {
+  try {
+    const { token, password }: ResetPasswordRequest = req.body ?? {};
+    await resetPassword(token, password);
+    const response: ApiResponse = {
+      success: true,
+      message: "Password changed. Sign in with your new password.",
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Reset password");
+  }
+};
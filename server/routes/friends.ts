@@ -0,0 +1,124 @@
+import { RequestHandler } from "express";
+import {
+  ApiResponse,
+  BlockListResponse,
+  BlockUserRequest,
+  FriendRequestListResponse,
+  FriendRequestResponse,
+  SendFriendRequestRequest,
+} from "@shared/api";
+import { sendApiError } from "../errors";
+import {
+  acceptFriendRequest,
+  blockUser,
+  cancelFriendRequest,
+  getBlockedUsers,
+  getFriendRequests,
+  rejectFriendRequest,
+  sendFriendRequest,
+  unblockUser,
+} from "../friends";
+
+export const handleListFriendRequests: RequestHandler = (req: any, res) => {
+  try {
+    const response: FriendRequestListResponse = {
+      success: true,
+      ...getFriendRequests(req.user.id),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "List friend requests");
+  }
+};
+
+export const handleSendFriendRequest: RequestHandler = (req: any, res) => {
+  try {
+    const { recipient }: SendFriendRequestRequest = req.body ?? {};
+    const result = sendFriendRequest(req.user.id, recipient);
+    // The same answer whether or not there was anyone to send it to; only a
+    // request that connects the two, which they'd already sent us, says more
+    const response: FriendRequestResponse = result?.connectionId
+      ? { success: true, ...result }
+      : { success: true, message: "Friend request sent" };
+    res.status(201).json(response);
+  } catch (error) {
+    sendApiError(res, error, "Send friend request");
+  }
+};
+
+export const handleAcceptFriendRequest: RequestHandler = (req: any, res) => {
+  try {
+    const response: FriendRequestResponse = {
+      success: true,
+      ...acceptFriendRequest(req.params.requestId, req.user.id),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Accept friend request");
+  }
+};
+
+export const handleRejectFriendRequest: RequestHandler = (req: any, res) => {
+  try {
+    rejectFriendRequest(req.params.requestId, req.user.id);
+    const response: ApiResponse = {
+      success: true,
+      message: "Friend request rejected",
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Reject friend request");
+  }
+};
+
+export const handleCancelFriendRequest: RequestHandler = (req: any, res) => {
+  try {
+    cancelFriendRequest(req.params.requestId, req.user.id);
+    const response: ApiResponse = {
+      success: true,
+      message: "Friend request cancelled",
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Cancel friend request");
+  }
+};
+
+export const handleListBlocks: RequestHandler = (req: any, res) => {
+  try {
+    const response: BlockListResponse = {
+      success: true,
+      blocks: getBlockedUsers(req.user.id),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "List blocked users");
+  }
+};
+
+export const handleBlockUser: RequestHandler = (req: any, res) => {
+  try {
+    const { userId }: BlockUserRequest = req.body ?? {};
+    blockUser(req.user.id, userId);
+    const response: BlockListResponse = {
+      success: true,
+      blocks: getBlockedUsers(req.user.id),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Block user");
+  }
+};
+
+export const handleUnblockUser: RequestHandler = (req: any, res) => {
+  try {
+    unblockUser(req.user.id, req.params.userId);
+    const response: BlockListResponse = {
+      success: true,
+      blocks: getBlockedUsers(req.user.id),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Unblock user");
+  }
+};
@@ -0,0 +1,166 @@
+import { RequestHandler } from "express";
+import {
+  CreateGroupRequest,
+  GroupListResponse,
+  GroupResponse,
+  InviteGroupMemberRequest,
+  UpdateGroupRequest,
+} from "@shared/api";
+import { sendApiError } from "../errors";
+import {
+  approveMember,
+  createGroup,
+  getGroupDetailsForMember,
+  getGroupsForUser,
+  inviteMember,
+  joinGroup,
+  leaveGroup,
+  removeMember,
+  setMemberRole,
+  updateGroup,
+} from "../groups";
+
+export const handleListGroups: RequestHandler = (req: any, res) => {
+  try {
+    const response: GroupListResponse = {
+      success: true,
+      groups: getGroupsForUser(req.user.id),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "List groups");
+  }
+};
+
+export const handleCreateGroup: RequestHandler = (req: any, res) => {
+  try {
+    const request: CreateGroupRequest = req.body;
+    const response: GroupResponse = {
+      success: true,
+      group: createGroup(req.user.id, request),
+    };
+    res.status(201).json(response);
+  } catch (error) {
+    sendApiError(res, error, "Create group");
+  }
+};
+
+export const handleGetGroup: RequestHandler = (req: any, res) => {
+  try {
+    const response: GroupResponse = {
+      success: true,
+      group: getGroupDetailsForMember(req.params.groupId, req.user.id),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Get group");
+  }
+};
+
+export const handleUpdateGroup: RequestHandler = (req: any, res) => {
+  try {
+    const request: UpdateGroupRequest = req.body;
+    const response: GroupResponse = {
+      success: true,
+      group: updateGroup(req.params.groupId, req.user.id, request),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Update group");
+  }
+};
+
+export const handleInviteGroupMember: RequestHandler = (req: any, res) => {
+  try {
+    const { userId }: InviteGroupMemberRequest = req.body ?? {};
+    const response: GroupResponse = {
+      success: true,
+      group: inviteMember(req.params.groupId, req.user.id, userId),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Invite group member");
+  }
+};
+
+export const handleJoinGroup: RequestHandler = (req: any, res) => {
+  try {
+    const response: GroupResponse = {
+      success: true,
+      group: joinGroup(req.params.groupId, req.user.id),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Join group");
+  }
+};
+
+export const handleLeaveGroup: RequestHandler = (req: any, res) => {
+  try {
+    const response: GroupResponse = {
+      success: true,
+      group: leaveGroup(req.params.groupId, req.user.id),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Leave group");
+  }
+};
+
+export const handleApproveGroupMember: RequestHandler = (req: any, res) => {
+  try {
+    const response: GroupResponse = {
+      success: true,
+      group: approveMember(req.params.groupId, req.user.id, req.params.userId),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Approve group member");
+  }
+};
+
+export const handleRemoveGroupMember: RequestHandler = (req: any, res) => {
+  try {
+    const response: GroupResponse = {
+      success: true,
+      group: removeMember(req.params.groupId, req.user.id, req.params.userId),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Remove group member");
+  }
+};
+
+export const handlePromoteGroupMember: RequestHandler = (req: any, res) => {
+  try {
+    const response: GroupResponse = {
+      success: true,
+      group: setMemberRole(
+        req.params.groupId,
+        req.user.id,
+        req.params.userId,
+        "admin",
+      ),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Promote group member");
+  }
+};
+
+export const handleDemoteGroupMember: RequestHandler = (req: any, res) => {
+  try {
+    const response: GroupResponse = {
+      success: true,
+      group: setMemberRole(
+        req.params.groupId,
+        req.user.id,
+        req.params.userId,
+        "member",
+      ),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Demote group member");
+  }
+};
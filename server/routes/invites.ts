@@ -0,0 +1,75 @@
+import { RequestHandler } from "express";
+import {
+  ApiResponse,
+  CreateInviteRequest,
+  InviteCodeListResponse,
+  InviteCodeResponse,
+  RedeemInviteResponse,
+} from "@shared/api";
+import { sendApiError } from "../errors";
+import {
+  createInvite,
+  getInvitePreview,
+  getInvitesForUser,
+  redeemInvite,
+  revokeInvite,
+} from "../invites";
+
+export const handleListInvites: RequestHandler = (req: any, res) => {
+  try {
+    const response: InviteCodeListResponse = {
+      success: true,
+      invites: getInvitesForUser(req.user.id),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "List invites");
+  }
+};
+
+export const handleCreateInvite: RequestHandler = (req: any, res) => {
+  try {
+    const request: CreateInviteRequest = req.body;
+    const response: InviteCodeResponse = {
+      success: true,
+      invite: createInvite(req.user.id, request),
+    };
+    res.status(201).json(response);
+  } catch (error) {
+    sendApiError(res, error, "Create invite");
+  }
+};
+
+export const handleGetInvite: RequestHandler = (req: any, res) => {
+  try {
+    const response: InviteCodeResponse = {
+      success: true,
+      invite: getInvitePreview(req.params.code, req.user.id),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Get invite");
+  }
+};
+
+export const handleRedeemInvite: RequestHandler = (req: any, res) => {
+  try {
+    const response: RedeemInviteResponse = {
+      success: true,
+      ...redeemInvite(req.params.code, req.user.id),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Redeem invite");
+  }
+};
+
+export const handleRevokeInvite: RequestHandler = (req: any, res) => {
+  try {
+    revokeInvite(req.params.code, req.user.id);
+    const response: ApiResponse = { success: true, message: "Invite revoked" };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Revoke invite");
+  }
+};
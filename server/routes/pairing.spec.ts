@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MemoryStorage, getStorage, setStorage } from "../storage";
+import {
+  getPartnerIdsForUser,
+  handleConnectCode,
+  resolveRecipient,
+} from "./pairing";
+
+// Just enough of an Express response for the handler
+const fakeResponse = () => {
+  const res = {
+    statusCode: 200,
+    body: undefined as any,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+  };
+  return res;
+};
+
+describe("resolveRecipient", () => {
+  beforeEach(() => {
+    const storage = new MemoryStorage();
+    const connect = (
+      id: string,
+      userId1: string,
+      userId2: string,
+      isActive = true,
+    ) =>
+      storage.saveConnection({
+        id,
+        userId1,
+        userId2,
+        createdAt: new Date().toISOString(),
+        isActive,
+      });
+
+    connect("conn-ab", "alice", "bob");
+    connect("conn-ca", "carol", "alice");
+    connect("conn-bc", "bob", "carol", false);
+    setStorage(storage);
+  });
+
+  it("should route to any partner with an active connection", () => {
+    expect(resolveRecipient("alice", { recipientId: "bob" })).toBe("bob");
+    expect(resolveRecipient("alice", { recipientId: "carol" })).toBe("carol");
+    expect(resolveRecipient("alice", { conversationId: "conn-ca" })).toBe(
+      "carol",
+    );
+    expect(getPartnerIdsForUser("alice").sort()).toEqual(["bob", "carol"]);
+  });
+
+  it("should refuse targets without an active connection", () => {
+    expect(resolveRecipient("alice", {})).toBeNull();
+    expect(resolveRecipient("alice", { recipientId: "mallory" })).toBeNull();
+    expect(resolveRecipient("bob", { recipientId: "carol" })).toBeNull();
+    // Someone else's conversation
+    expect(resolveRecipient("bob", { conversationId: "conn-ca" })).toBeNull();
+  });
+});
+
+describe("handleConnectCode", () => {
+  beforeEach(() => {
+    const storage = new MemoryStorage();
+    for (const id of ["alice", "bob"]) {
+      storage.createUser({
+        id,
+        email: `${id}@example.com`,
+        passwordHash: "hash",
+        emailVerified: true,
+        createdAt: new Date(0).toISOString(),
+      });
+    }
+    storage.savePairingCode({
+      code: "ABCDEFGHJK",
+      userId: "alice",
+      expiresAt: new Date(Date.now() + 60 * 1000).toISOString(),
+      isUsed: false,
+      attemptsRemaining: 5,
+    });
+    setStorage(storage);
+  });
+
+  const connectWithCode = (userId: string) => {
+    const res = fakeResponse();
+    handleConnectCode(
+      { user: { id: userId }, body: { code: "ABCD-EFGHJK" } } as any,
+      res as any,
+      () => {},
+    );
+    return res;
+  };
+
+  it("should connect whoever enters the code", () => {
+    const res = connectWithCode("bob");
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({ success: true, partnerId: "alice" });
+    expect(getStorage().findConnection("alice", "bob")?.isActive).toBe(true);
+  });
+
+  it("should not connect users when either has blocked the other", () => {
+    getStorage().saveBlock({
+      blockerId: "alice",
+      blockedId: "bob",
+      createdAt: new Date().toISOString(),
+    });
+    expect(connectWithCode("bob").statusCode).toBe(404);
+
+    getStorage().deleteBlock("alice", "bob");
+    getStorage().saveBlock({
+      blockerId: "bob",
+      blockedId: "alice",
+      createdAt: new Date().toISOString(),
+    });
+    expect(connectWithCode("bob").statusCode).toBe(404);
+    expect(getStorage().findConnection("alice", "bob")).toBeNull();
+  });
+});
@@ -1,49 +1,71 @@
 import { RequestHandler } from "express";
+import { randomInt, timingSafeEqual } from "crypto";
 import { v4 as uuidv4 } from "uuid";
-import { 
-  PairingCode, 
-  GenerateCodeResponse, 
-  ConnectCodeRequest, 
+import {
+  ApiResponse,
+  PairingCode,
+  GenerateCodeResponse,
+  ConnectCodeRequest,
   ConnectCodeResponse,
   Connection,
-  ConnectionStatus
+  ConnectionStatus,
+  ConnectionSummary,
+  ConversationTarget,
+  DisconnectRequest,
 } from "@shared/api";
 import { verifyToken, getUserById } from "./auth";
-
-// In-memory storage for demo (in production, use a real database)
-const pairingCodes: Map<string, PairingCode> = new Map();
-const connections: Map<string, Connection> = new Map();
-const userConnections: Map<string, string> = new Map(); // userId -> connectionId
-
-// Helper function to generate a unique 6-digit code
+import { getStorage } from "../storage";
+import { ApiError, sendApiError } from "../errors";
+
+const PAIRING_CODE_LENGTH = 10;
+const PAIRING_NAMEPLATE_LENGTH = 4;
+const PAIRING_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // No 0/O or 1/I
+const PAIRING_CODE_TTL_MS = 5 * 60 * 1000;
+// Wrong secrets a code survives; with a 6-character secret that leaves a
+// guesser about a one in 200 million chance per code
+export const PAIRING_CODE_ATTEMPTS = 5;
+
+const randomCodeChars = (length: number) =>
+  Array.from(
+    { length },
+    () => PAIRING_CODE_ALPHABET[randomInt(PAIRING_CODE_ALPHABET.length)],
+  ).join("");
+
+// The nameplate has to be unique among live codes; the secret doesn't
 const generateUniqueCode = (): string => {
-  let code: string;
+  let nameplate: string;
   do {
-    code = Math.random().toString(36).substring(2, 8).toUpperCase();
-  } while (pairingCodes.has(code));
-  return code;
+    nameplate = randomCodeChars(PAIRING_NAMEPLATE_LENGTH);
+  } while (getStorage().getPairingCodeByNameplate(nameplate));
+  return (
+    nameplate + randomCodeChars(PAIRING_CODE_LENGTH - PAIRING_NAMEPLATE_LENGTH)
+  );
 };
 
+// Shown as "ABCD-EFGHJK"; people type it with or without the dash
+const formatPairingCode = (code: string) =>
+  `${code.slice(0, PAIRING_NAMEPLATE_LENGTH)}-${code.slice(PAIRING_NAMEPLATE_LENGTH)}`;
+
+const normalizePairingCode = (code: string) =>
+  code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
 // Helper function to clean expired codes
 const cleanExpiredCodes = () => {
-  const now = new Date();
-  for (const [code, pairingCode] of pairingCodes.entries()) {
-    if (new Date(pairingCode.expiresAt) <= now) {
-      pairingCodes.delete(code);
-    }
-  }
+  getStorage().deleteExpiredPairingCodes(new Date().toISOString());
 };
 
 // Middleware to authenticate requests
 const authenticateUser = (req: any, res: any, next: any) => {
   const authHeader = req.headers.authorization;
   if (!authHeader || !authHeader.startsWith("Bearer ")) {
-    return res.status(401).json({ success: false, message: "No token provided" });
+    return res
+      .status(401)
+      .json({ success: false, message: "No token provided" });
   }
 
   const token = authHeader.substring(7);
   const decoded = verifyToken(token);
-  
+
   if (!decoded) {
     return res.status(401).json({ success: false, message: "Invalid token" });
   }
@@ -54,6 +76,20 @@ const authenticateUser = (req: any, res: any, next: any) => {
   }
 
   req.user = user;
+  req.sessionId = decoded.sessionId;
+  next();
+};
+
+// Mounted after authenticateUser on routes that connect people. Until an
+// address is verified, anyone could be behind it.
+export const requireVerifiedEmail = (req: any, res: any, next: any) => {
+  if (!req.user?.emailVerified) {
+    const response: ApiResponse = {
+      success: false,
+      message: "Verify your email address before connecting with anyone",
+    };
+    return res.status(403).json(response);
+  }
   next();
 };
 
@@ -64,35 +100,23 @@ export const handleGenerateCode: RequestHandler = (req: any, res) => {
 
     const userId = req.user.id;
 
-    // Clean up any stale connections for this user first
-    const existingConnectionId = userConnections.get(userId);
-    if (existingConnectionId) {
-      const existingConnection = connections.get(existingConnectionId);
-      if (existingConnection) {
-        // Remove stale connection
-        userConnections.delete(existingConnection.userId1);
-        userConnections.delete(existingConnection.userId2);
-        connections.delete(existingConnectionId);
-        console.log(`Cleaned up stale connection ${existingConnectionId} for user ${userId}`);
-      }
-    }
-
     // Generate unique code
     const code = generateUniqueCode();
-    const expiresAt = new Date(Date.now() + 5 * 60 * 1000).toISOString(); // 5 minutes
+    const expiresAt = new Date(Date.now() + PAIRING_CODE_TTL_MS).toISOString();
 
     const pairingCode: PairingCode = {
       code,
       userId,
       expiresAt,
       isUsed: false,
+      attemptsRemaining: PAIRING_CODE_ATTEMPTS,
     };
 
-    pairingCodes.set(code, pairingCode);
+    getStorage().savePairingCode(pairingCode);
 
     const response: GenerateCodeResponse = {
       success: true,
-      code,
+      code: formatPairingCode(code),
       expiresAt,
     };
 
@@ -112,6 +136,7 @@ export const handleConnectCode: RequestHandler = (req: any, res) => {
     // Clean expired codes first
     cleanExpiredCodes();
 
+    const storage = getStorage();
     const userId = req.user.id;
     const { code }: ConnectCodeRequest = req.body;
 
@@ -123,32 +148,37 @@ export const handleConnectCode: RequestHandler = (req: any, res) => {
       return res.status(400).json(response);
     }
 
-    // Clean up any stale connections for this user first
-    const existingConnectionId = userConnections.get(userId);
-    if (existingConnectionId) {
-      const existingConnection = connections.get(existingConnectionId);
-      if (existingConnection) {
-        // Remove stale connection
-        userConnections.delete(existingConnection.userId1);
-        userConnections.delete(existingConnection.userId2);
-        connections.delete(existingConnectionId);
-        console.log(`Cleaned up stale connection ${existingConnectionId} for user ${userId}`);
-      }
+    // Find the pairing code by its nameplate, then check the secret. Both
+    // kinds of miss get the same answer.
+    const entered = typeof code === "string" ? normalizePairingCode(code) : "";
+    const pairingCode =
+      entered.length === PAIRING_CODE_LENGTH
+        ? storage.getPairingCodeByNameplate(
+            entered.slice(0, PAIRING_NAMEPLATE_LENGTH),
+          )
+        : null;
+    const invalidCode: ConnectCodeResponse = {
+      success: false,
+      message: "Invalid or expired code",
+    };
+    if (!pairingCode) {
+      return res.status(404).json(invalidCode);
     }
 
-    // Find the pairing code
-    const pairingCode = pairingCodes.get(code.toUpperCase());
-    if (!pairingCode) {
-      const response: ConnectCodeResponse = {
-        success: false,
-        message: "Invalid or expired code",
-      };
-      return res.status(404).json(response);
+    if (!timingSafeEqual(Buffer.from(pairingCode.code), Buffer.from(entered))) {
+      const attemptsRemaining = pairingCode.attemptsRemaining - 1;
+      if (attemptsRemaining > 0) {
+        storage.savePairingCode({ ...pairingCode, attemptsRemaining });
+      } else {
+        // Someone is guessing at this code; its owner will need a new one
+        storage.deletePairingCode(pairingCode.code);
+      }
+      return res.status(404).json(invalidCode);
     }
 
     // Check if code is expired
     if (new Date(pairingCode.expiresAt) <= new Date()) {
-      pairingCodes.delete(code.toUpperCase());
+      storage.deletePairingCode(pairingCode.code);
       const response: ConnectCodeResponse = {
         success: false,
         message: "Code has expired",
@@ -184,72 +214,54 @@ export const handleConnectCode: RequestHandler = (req: any, res) => {
       return res.status(404).json(response);
     }
 
-    // Create connection
-    const connectionId = uuidv4();
-    const connection: Connection = {
-      id: connectionId,
-      userId1: pairingCode.userId,
-      userId2: userId,
-      createdAt: new Date().toISOString(),
-      isActive: true,
-    };
-
-    // Store connection
-    connections.set(connectionId, connection);
-    userConnections.set(pairingCode.userId, connectionId);
-    userConnections.set(userId, connectionId);
+    const connection = connectUsers(pairingCode.userId, userId);
 
-    // Mark code as used and remove it
-    pairingCode.isUsed = true;
-    pairingCodes.delete(code.toUpperCase());
+    // Codes are single use
+    storage.deletePairingCode(pairingCode.code);
 
     const response: ConnectCodeResponse = {
       success: true,
       partnerId: partner.id,
       partnerEmail: partner.email,
+      connectionId: connection.id,
     };
 
     res.json(response);
   } catch (error) {
-    console.error("Connect code error:", error);
-    const response: ConnectCodeResponse = {
-      success: false,
-      message: "Internal server error",
-    };
-    res.status(500).json(response);
+    sendApiError(res, error, "Connect code");
   }
 };
 
 export const handleGetConnectionStatus: RequestHandler = (req: any, res) => {
   try {
     const userId = req.user.id;
-    const connectionId = userConnections.get(userId);
-
-    if (!connectionId) {
+    const connections: ConnectionSummary[] = getStorage()
+      .getConnectionsForUser(userId)
+      .map((connection) => {
+        const partnerId = getOtherUserId(connection, userId);
+        return {
+          connectionId: connection.id,
+          partnerId,
+          partnerEmail: getUserById(partnerId)?.email,
+          createdAt: connection.createdAt,
+        };
+      });
+
+    if (connections.length === 0) {
       const response: ConnectionStatus = {
         isConnected: false,
+        connections,
       };
       return res.json(response);
     }
 
-    const connection = connections.get(connectionId);
-    if (!connection || !connection.isActive) {
-      userConnections.delete(userId);
-      const response: ConnectionStatus = {
-        isConnected: false,
-      };
-      return res.json(response);
-    }
-
-    // Get partner info
-    const partnerId = connection.userId1 === userId ? connection.userId2 : connection.userId1;
-    const partner = getUserById(partnerId);
-
+    const [newest] = connections;
     const response: ConnectionStatus = {
       isConnected: true,
-      partnerId,
-      partnerEmail: partner?.email,
-      connectionId,
+      partnerId: newest.partnerId,
+      partnerEmail: newest.partnerEmail,
+      connectionId: newest.connectionId,
+      connections,
     };
 
     res.json(response);
@@ -261,21 +273,26 @@ export const handleGetConnectionStatus: RequestHandler = (req: any, res) => {
 
 export const handleDisconnect: RequestHandler = (req: any, res) => {
   try {
+    const storage = getStorage();
     const userId = req.user.id;
-    const connectionId = userConnections.get(userId);
+    const { connectionId, partnerId }: DisconnectRequest = req.body ?? {};
+
+    let targets = storage.getConnectionsForUser(userId);
+    if (connectionId) {
+      targets = targets.filter((connection) => connection.id === connectionId);
+    } else if (partnerId) {
+      targets = targets.filter(
+        (connection) => getOtherUserId(connection, userId) === partnerId,
+      );
+    }
 
-    if (!connectionId) {
+    if (targets.length === 0) {
       return res.json({ success: true, message: "Already disconnected" });
     }
 
-    const connection = connections.get(connectionId);
-    if (connection) {
-      // Mark connection as inactive
-      connection.isActive = false;
-      
-      // Remove both users from active connections
-      userConnections.delete(connection.userId1);
-      userConnections.delete(connection.userId2);
+    // Mark connections as inactive
+    for (const connection of targets) {
+      storage.saveConnection({ ...connection, isActive: false });
     }
 
     res.json({ success: true, message: "Disconnected successfully" });
@@ -289,17 +306,61 @@ export const handleDisconnect: RequestHandler = (req: any, res) => {
 export { authenticateUser };
 
 // Export helper functions for WebSocket usage
-export const getUserConnection = (userId: string): Connection | null => {
-  const connectionId = userConnections.get(userId);
-  if (!connectionId) return null;
-  
-  const connection = connections.get(connectionId);
-  return connection?.isActive ? connection : null;
+const getOtherUserId = (connection: Connection, userId: string): string =>
+  connection.userId1 === userId ? connection.userId2 : connection.userId1;
+
+/**
+ * Connect two users. Connections are per pair, so connecting again revives
+ * the existing one. If either has blocked the other, the other side looks
+ * like an unknown user, whichever way they tried to connect.
+ */
+export const connectUsers = (userIdA: string, userIdB: string): Connection => {
+  const storage = getStorage();
+  if (
+    storage.getBlock(userIdA, userIdB) ||
+    storage.getBlock(userIdB, userIdA)
+  ) {
+    throw new ApiError(404, "User not found");
+  }
+
+  const existing = storage.findConnection(userIdA, userIdB);
+  const connection: Connection = existing
+    ? { ...existing, isActive: true }
+    : {
+        id: uuidv4(),
+        userId1: userIdA,
+        userId2: userIdB,
+        createdAt: new Date().toISOString(),
+        isActive: true,
+      };
+
+  storage.saveConnection(connection);
+  return connection;
 };
 
-export const getPartnerIdForUser = (userId: string): string | null => {
-  const connection = getUserConnection(userId);
-  if (!connection) return null;
-  
-  return connection.userId1 === userId ? connection.userId2 : connection.userId1;
+export const getPartnerIdsForUser = (userId: string): string[] =>
+  getStorage()
+    .getConnectionsForUser(userId)
+    .map((connection) => getOtherUserId(connection, userId));
+
+/**
+ * Work out who a socket event is addressed to. The target is a connection ID
+ * or a user ID; either way there has to be an active connection between the
+ * two users, otherwise null.
+ */
+export const resolveRecipient = (
+  userId: string,
+  target: ConversationTarget,
+): string | null => {
+  const storage = getStorage();
+  const connection = target?.conversationId
+    ? storage.getConnection(target.conversationId)
+    : target?.recipientId
+      ? storage.findConnection(userId, target.recipientId)
+      : null;
+
+  if (!connection?.isActive) return null;
+  if (connection.userId1 !== userId && connection.userId2 !== userId)
+    return null;
+  return getOtherUserId(connection, userId);
 };
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MemoryStorage, getStorage, setStorage } from "../storage";
+import { handleGetPreKeyBundle } from "./prekeys";
+
+// Just enough of an Express response for the handler
+const fakeResponse = () => {
+  const res = {
+    statusCode: 200,
+    body: undefined as any,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+  };
+  return res;
+};
+
+const fetchBundle = (requesterId: string, userId: string) => {
+  const res = fakeResponse();
+  handleGetPreKeyBundle(
+    { user: { id: requesterId }, params: { userId } } as any,
+    res as any,
+    () => {},
+  );
+  return res;
+};
+
+describe("handleGetPreKeyBundle", () => {
+  beforeEach(() => {
+    const storage = new MemoryStorage();
+    for (const id of ["alice", "bob", "carol", "mallory"]) {
+      storage.createUser({
+        id,
+        email: `${id}@example.com`,
+        passwordHash: "hash",
+        emailVerified: true,
+        createdAt: new Date(0).toISOString(),
+      });
+    }
+    storage.savePreKeys({
+      userId: "alice",
+      identityKey: "identity",
+      signingKey: "signing",
+      identitySignature: "signature",
+      signedPreKey: {
+        keyId: 1,
+        publicKey: "signed",
+        signature: "signed-signature",
+      },
+      oneTimePreKeys: [
+        { keyId: 2, publicKey: "two" },
+        { keyId: 3, publicKey: "three" },
+      ],
+    });
+    storage.saveConnection({
+      id: "alice-bob",
+      userId1: "alice",
+      userId2: "bob",
+      createdAt: new Date(0).toISOString(),
+      isActive: true,
+    });
+    storage.saveFriendRequest({
+      id: "req-1",
+      fromUserId: "carol",
+      toUserId: "alice",
+      createdAt: new Date(0).toISOString(),
+    });
+    setStorage(storage);
+  });
+
+  it("should hand contacts and pending friends one one-time prekey each", () => {
+    expect(fetchBundle("bob", "alice").body.bundle).toMatchObject({
+      userId: "alice",
+      oneTimePreKey: { keyId: 2 },
+    });
+    expect(fetchBundle("carol", "alice").body.bundle.oneTimePreKey.keyId).toBe(
+      3,
+    );
+    expect(
+      fetchBundle("bob", "alice").body.bundle.oneTimePreKey,
+    ).toBeUndefined();
+  });
+
+  it("should not let strangers spend a user's prekeys", () => {
+    const res = fetchBundle("mallory", "alice");
+
+    expect(res.statusCode).toBe(404);
+    expect(getStorage().getPreKeys("alice")?.oneTimePreKeys).toHaveLength(2);
+  });
+});
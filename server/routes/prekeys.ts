@@ -0,0 +1,318 @@
+import { RequestHandler } from "express";
+import {
+  OneTimePreKey,
+  OneTimePreKeysUpload,
+  PreKeyBundle,
+  PreKeyBundleResponse,
+  PreKeyBundleUpload,
+  PreKeyCountResponse,
+  SignedPreKey,
+} from "@shared/api";
+import { getUserById } from "./auth";
+import { StoredPreKeys, getStorage } from "../storage";
+
+// Clients are asked to top up once their one-time prekeys drop below this
+export const PREKEY_LOW_WATERMARK = 20;
+const MAX_ONE_TIME_PREKEYS = 200;
+
+type PreKeysLowListener = (userId: string, remaining: number) => void;
+const preKeysLowListeners: PreKeysLowListener[] = [];
+
+/**
+ * Register a callback for when a user's one-time prekey stock runs low
+ */
+export const onPreKeysLow = (listener: PreKeysLowListener) => {
+  preKeysLowListeners.push(listener);
+};
+
+const notifyIfLow = (userId: string, remaining: number) => {
+  if (remaining >= PREKEY_LOW_WATERMARK) return;
+
+  console.warn(`One-time prekeys low for user ${userId}: ${remaining} left`);
+  preKeysLowListeners.forEach((listener) => listener(userId, remaining));
+};
+
+// Bundles are only for people the user is connected to or trading friend
+// requests with. Anyone else could spend the user's one-time prekeys.
+const mayFetchBundle = (requesterId: string, userId: string) => {
+  const storage = getStorage();
+  return (
+    !!storage.findConnection(requesterId, userId)?.isActive ||
+    !!storage.findFriendRequest(requesterId, userId) ||
+    !!storage.findFriendRequest(userId, requesterId)
+  );
+};
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.length > 0;
+
+const isValidOneTimePreKey = (key: any): key is OneTimePreKey =>
+  !!key && Number.isInteger(key.keyId) && isNonEmptyString(key.publicKey);
+
+const isValidSignedPreKey = (key: any): key is SignedPreKey =>
+  isValidOneTimePreKey(key) && isNonEmptyString((key as any).signature);
+
+// Helper function to check an ECDSA P-256 signature over a Base64 public key.
+// The identity key is an ECDH key on the same curve, and signs the signing key.
+const verifyKeySignature = async (
+  signingKey: string,
+  signedKey: string,
+  signature: string,
+): Promise<boolean> => {
+  try {
+    const publicKey = await crypto.subtle.importKey(
+      "spki",
+      Buffer.from(signingKey, "base64"),
+      { name: "ECDSA", namedCurve: "P-256" },
+      false,
+      ["verify"],
+    );
+    return await crypto.subtle.verify(
+      { name: "ECDSA", hash: "SHA-256" },
+      publicKey,
+      Buffer.from(signature, "base64"),
+      new TextEncoder().encode(signedKey),
+    );
+  } catch {
+    return false;
+  }
+};
+
+// Drop malformed and duplicate one-time prekeys
+const mergeOneTimePreKeys = (
+  existing: OneTimePreKey[],
+  incoming: OneTimePreKey[],
+) => {
+  const seen = new Set(existing.map((key) => key.keyId));
+  const merged = [...existing];
+  for (const key of incoming) {
+    if (isValidOneTimePreKey(key) && !seen.has(key.keyId)) {
+      seen.add(key.keyId);
+      merged.push({ keyId: key.keyId, publicKey: key.publicKey });
+    }
+  }
+  return merged.slice(0, MAX_ONE_TIME_PREKEYS);
+};
+
+export const handleUploadPreKeys: RequestHandler = async (req: any, res) => {
+  try {
+    const userId = req.user.id;
+    const upload: PreKeyBundleUpload = req.body;
+
+    if (
+      !upload ||
+      !isNonEmptyString(upload.identityKey) ||
+      !isNonEmptyString(upload.signingKey) ||
+      !isNonEmptyString(upload.identitySignature) ||
+      !isValidSignedPreKey(upload.signedPreKey) ||
+      !Array.isArray(upload.oneTimePreKeys)
+    ) {
+      const response: PreKeyCountResponse = {
+        success: false,
+        message:
+          "Identity key, signing key, signed prekey and one-time prekeys are required",
+      };
+      return res.status(400).json(response);
+    }
+
+    const signaturesValid =
+      (await verifyKeySignature(
+        upload.identityKey,
+        upload.signingKey,
+        upload.identitySignature,
+      )) &&
+      (await verifyKeySignature(
+        upload.signingKey,
+        upload.signedPreKey.publicKey,
+        upload.signedPreKey.signature,
+      ));
+
+    if (!signaturesValid) {
+      const response: PreKeyCountResponse = {
+        success: false,
+        message: "Invalid prekey signature",
+      };
+      return res.status(400).json(response);
+    }
+
+    // A new identity invalidates every prekey signed for the old one
+    const storage = getStorage();
+    const existing = storage.getPreKeys(userId);
+    const keepOneTimePreKeys =
+      existing?.identityKey === upload.identityKey
+        ? existing.oneTimePreKeys
+        : [];
+
+    const stored: StoredPreKeys = {
+      userId,
+      identityKey: upload.identityKey,
+      signingKey: upload.signingKey,
+      identitySignature: upload.identitySignature,
+      signedPreKey: {
+        keyId: upload.signedPreKey.keyId,
+        publicKey: upload.signedPreKey.publicKey,
+        signature: upload.signedPreKey.signature,
+      },
+      oneTimePreKeys: mergeOneTimePreKeys(
+        keepOneTimePreKeys,
+        upload.oneTimePreKeys,
+      ),
+    };
+    storage.savePreKeys(stored);
+
+    const count = stored.oneTimePreKeys.length;
+    const response: PreKeyCountResponse = {
+      success: true,
+      count,
+      lowStock: count < PREKEY_LOW_WATERMARK,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Upload prekeys error:", error);
+    const response: PreKeyCountResponse = {
+      success: false,
+      message: "Internal server error",
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const handleAddOneTimePreKeys: RequestHandler = (req: any, res) => {
+  try {
+    const userId = req.user.id;
+    const { oneTimePreKeys }: OneTimePreKeysUpload = req.body;
+
+    const storage = getStorage();
+    const stored = storage.getPreKeys(userId);
+    if (!stored) {
+      const response: PreKeyCountResponse = {
+        success: false,
+        message: "Upload a prekey bundle first",
+      };
+      return res.status(404).json(response);
+    }
+
+    if (!Array.isArray(oneTimePreKeys)) {
+      const response: PreKeyCountResponse = {
+        success: false,
+        message: "One-time prekeys are required",
+      };
+      return res.status(400).json(response);
+    }
+
+    stored.oneTimePreKeys = mergeOneTimePreKeys(
+      stored.oneTimePreKeys,
+      oneTimePreKeys,
+    );
+    storage.savePreKeys(stored);
+
+    const count = stored.oneTimePreKeys.length;
+    const response: PreKeyCountResponse = {
+      success: true,
+      count,
+      lowStock: count < PREKEY_LOW_WATERMARK,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Add one-time prekeys error:", error);
+    const response: PreKeyCountResponse = {
+      success: false,
+      message: "Internal server error",
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const handleGetPreKeyBundle: RequestHandler = (req: any, res) => {
+  try {
+    const requesterId = req.user.id;
+    const { userId } = req.params;
+
+    if (userId === requesterId) {
+      const response: PreKeyBundleResponse = {
+        success: false,
+        message: "Cannot fetch your own prekey bundle",
+      };
+      return res.status(400).json(response);
+    }
+
+    const storage = getStorage();
+    const stored = mayFetchBundle(requesterId, userId)
+      ? storage.getPreKeys(userId)
+      : null;
+    if (!stored || !getUserById(userId)) {
+      const response: PreKeyBundleResponse = {
+        success: false,
+        message: "No prekey bundle for this user",
+      };
+      return res.status(404).json(response);
+    }
+
+    // Each one-time prekey is handed out exactly once
+    const oneTimePreKey = storage.takeOneTimePreKey(userId);
+
+    const bundle: PreKeyBundle = {
+      userId,
+      identityKey: stored.identityKey,
+      signingKey: stored.signingKey,
+      identitySignature: stored.identitySignature,
+      signedPreKey: stored.signedPreKey,
+      ...(oneTimePreKey ? { oneTimePreKey } : {}),
+    };
+
+    notifyIfLow(userId, getOneTimePreKeyCount(userId));
+
+    const response: PreKeyBundleResponse = {
+      success: true,
+      bundle,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Get prekey bundle error:", error);
+    const response: PreKeyBundleResponse = {
+      success: false,
+      message: "Internal server error",
+    };
+    res.status(500).json(response);
+  }
+};
+
+export const handleGetPreKeyCount: RequestHandler = (req: any, res) => {
+  try {
+    const count = getOneTimePreKeyCount(req.user.id);
+    const response: PreKeyCountResponse = {
+      success: true,
+      count,
+      lowStock: count < PREKEY_LOW_WATERMARK,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Get prekey count error:", error);
+    const response: PreKeyCountResponse = {
+      success: false,
+      message: "Internal server error",
+    };
+    res.status(500).json(response);
+  }
+};
+
+// Export helper functions for WebSocket usage
+export const getOneTimePreKeyCount = (userId: string): number => {
+  return getStorage().getPreKeys(userId)?.oneTimePreKeys.length ?? 0;
+};
+
+export const hasPreKeyBundle = (userId: string): boolean => {
+  return !!getStorage().getPreKeys(userId);
+};
+
+// The user's public keys as uploaded, for their data export
+export const getPublicPreKeys = (userId: string) => {
+  const stored = getStorage().getPreKeys(userId);
+  if (!stored) return null;
+  return {
+    identityKey: stored.identityKey,
+    signingKey: stored.signingKey,
+    signedPreKey: { ...stored.signedPreKey },
+    oneTimePreKeys: stored.oneTimePreKeys.map((key) => ({ ...key })),
+  };
+};
@@ -0,0 +1,83 @@
+import { RequestHandler } from "express";
+import {
+  ApiResponse,
+  RecoveryCodesResponse,
+  TwoFactorCodeRequest,
+  TwoFactorSetupResponse,
+  TwoFactorStatusResponse,
+} from "@shared/api";
+import { sendApiError } from "../errors";
+import {
+  beginTwoFactorSetup,
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+} from "../twoFactor";
+
+export const handleTwoFactorStatus: RequestHandler = (req: any, res) => {
+  try {
+    const response: TwoFactorStatusResponse = {
+      success: true,
+      ...getTwoFactorStatus(req.user.id),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Two-factor status");
+  }
+};
+
+export const handleTwoFactorSetup: RequestHandler = (req: any, res) => {
+  try {
+    const response: TwoFactorSetupResponse = {
+      success: true,
+      ...beginTwoFactorSetup(req.user.id),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Two-factor setup");
+  }
+};
+
+export const handleEnableTwoFactor: RequestHandler = (req: any, res) => {
+  try {
+    const { code }: TwoFactorCodeRequest = req.body ?? {};
+    const response: RecoveryCodesResponse = {
+      success: true,
+      recoveryCodes: enableTwoFactor(req.user.id, code),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Enable two-factor");
+  }
+};
+
+export const handleDisableTwoFactor: RequestHandler = (req: any, res) => {
+  try {
+    const { code }: TwoFactorCodeRequest = req.body ?? {};
+    disableTwoFactor(req.user.id, code);
+    const response: ApiResponse = {
+      success: true,
+      message: "Two-factor authentication disabled",
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Disable two-factor");
+  }
+};
+
+export const handleRegenerateRecoveryCodes: RequestHandler = (
+  req: any,
+  res,
+) => {
+  try {
+    const { code }: TwoFactorCodeRequest = req.body ?? {};
+    const response: RecoveryCodesResponse = {
+      success: true,
+      recoveryCodes: regenerateRecoveryCodes(req.user.id, code),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Regenerate recovery codes");
+  }
+};
@@ -0,0 +1,66 @@
+import { RequestHandler } from "express";
+import {
+  HandleAvailabilityResponse,
+  ProfileResponse,
+  PublicProfileListResponse,
+  PublicProfileResponse,
+  UpdateProfileRequest,
+} from "@shared/api";
+import { sendApiError } from "../errors";
+import {
+  checkHandle,
+  getConnectionProfiles,
+  lookupHandle,
+  updateProfile,
+} from "../profiles";
+
+export const handleUpdateProfile: RequestHandler = (req: any, res) => {
+  try {
+    const request: UpdateProfileRequest = req.body ?? {};
+    const response: ProfileResponse = {
+      success: true,
+      user: updateProfile(req.user.id, request),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Update profile");
+  }
+};
+
+export const handleCheckHandle: RequestHandler = (req: any, res) => {
+  try {
+    const reason = checkHandle(req.user.id, req.query.handle);
+    const response: HandleAvailabilityResponse = {
+      success: true,
+      available: !reason,
+      ...(reason && { reason }),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Check handle");
+  }
+};
+
+export const handleLookupHandle: RequestHandler = (req: any, res) => {
+  try {
+    const response: PublicProfileResponse = {
+      success: true,
+      profile: lookupHandle(req.user.id, req.params.handle),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Look up handle");
+  }
+};
+
+export const handleConnectionProfiles: RequestHandler = (req: any, res) => {
+  try {
+    const response: PublicProfileListResponse = {
+      success: true,
+      profiles: getConnectionProfiles(req.user.id),
+    };
+    res.json(response);
+  } catch (error) {
+    sendApiError(res, error, "Connection profiles");
+  }
+};
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { MemoryStorage, setStorage } from "./storage";
+import { ApiError } from "./errors";
+import {
+  REFRESH_TOKEN_TTL_DAYS,
+  createSession,
+  getSessionsForUser,
+  isSessionActive,
+  onSessionRevoked,
+  revokeAllSessions,
+  revokeSession,
+  rotateRefreshToken,
+} from "./sessions";
+
+const statusOf = (error: () => unknown) => {
+  try {
+    error();
+  } catch (caught) {
+    if (caught instanceof ApiError) return caught.status;
+    throw caught;
+  }
+  return null;
+};
+
+const revoked: string[] = [];
+onSessionRevoked((session) => revoked.push(session.sessionId));
+
+describe("sessions", () => {
+  beforeEach(() => {
+    setStorage(new MemoryStorage());
+    revoked.length = 0;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should rotate refresh tokens and revoke the session when one is reused", () => {
+    const { session, refreshToken } = createSession("alice", {
+      deviceId: "laptop",
+      userAgent: "Firefox",
+    });
+
+    const rotated = rotateRefreshToken(refreshToken);
+    expect(rotated.session.sessionId).toBe(session.sessionId);
+    expect(rotated.refreshToken).not.toBe(refreshToken);
+
+    // The old token was already swapped, so someone else has it
+    expect(statusOf(() => rotateRefreshToken(refreshToken))).toBe(401);
+    expect(revoked).toEqual([session.sessionId]);
+    expect(isSessionActive(session.sessionId, "alice")).toBe(false);
+    expect(statusOf(() => rotateRefreshToken(rotated.refreshToken))).toBe(401);
+  });
+
+  it("should list sessions without their secrets and mark the current one", () => {
+    const laptop = createSession("alice", { deviceId: "laptop" }).session;
+    createSession("alice", { deviceId: "phone" });
+    createSession("bob");
+
+    const sessions = getSessionsForUser("alice", laptop.sessionId);
+    expect(sessions.map((s) => s.deviceId).sort()).toEqual(["laptop", "phone"]);
+    expect(sessions.find((s) => s.isCurrent)?.deviceId).toBe("laptop");
+    expect(sessions.some((s) => "refreshTokenHash" in s)).toBe(false);
+  });
+
+  it("should revoke one session or all but the current one", () => {
+    const laptop = createSession("alice").session;
+    const phone = createSession("alice").session;
+    const tablet = createSession("alice").session;
+
+    expect(statusOf(() => revokeSession("bob", phone.sessionId))).toBe(404);
+    revokeSession("alice", phone.sessionId);
+    expect(isSessionActive(phone.sessionId, "alice")).toBe(false);
+
+    revokeAllSessions("alice", laptop.sessionId);
+    expect(revoked).toEqual([phone.sessionId, tablet.sessionId]);
+    expect(getSessionsForUser("alice").map((s) => s.sessionId)).toEqual([
+      laptop.sessionId,
+    ]);
+  });
+
+  it("should stop working once the refresh token expires", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+    const { session, refreshToken } = createSession("alice");
+
+    vi.setSystemTime(
+      Date.now() + (REFRESH_TOKEN_TTL_DAYS + 1) * 24 * 60 * 60 * 1000,
+    );
+    expect(isSessionActive(session.sessionId, "alice")).toBe(false);
+    expect(statusOf(() => rotateRefreshToken(refreshToken))).toBe(401);
+  });
+});
@@ -0,0 +1,190 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import { Session } from "@shared/api";
+import { getStorage, StoredSession } from "./storage";
+import { ApiError } from "./errors";
+
+export const REFRESH_TOKEN_TTL_DAYS = 30;
+
+const MAX_DEVICE_ID_LENGTH = 64;
+const MAX_USER_AGENT_LENGTH = 256;
+
+export interface SessionOrigin {
+  deviceId?: unknown;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface IssuedSession {
+  session: StoredSession;
+  refreshToken: string;
+}
+
+type SessionRevokedListener = (session: StoredSession) => void;
+const sessionRevokedListeners: SessionRevokedListener[] = [];
+
+/**
+ * Register a callback for after a session is revoked, to cut off anything
+ * still running under it
+ */
+export const onSessionRevoked = (listener: SessionRevokedListener) => {
+  sessionRevokedListeners.push(listener);
+};
+
+const hashSecret = (secret: string) =>
+  createHash("sha256").update(secret).digest("hex");
+
+const refreshExpiry = () =>
+  new Date(
+    Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000,
+  ).toISOString();
+
+// Refresh tokens are "<sessionId>.<secret>"; only the secret's hash is stored
+const newRefreshSecret = () => randomBytes(32).toString("base64url");
+
+const parseRefreshToken = (refreshToken: unknown) => {
+  if (typeof refreshToken !== "string") return null;
+  const separator = refreshToken.indexOf(".");
+  if (separator <= 0) return null;
+  return {
+    sessionId: refreshToken.slice(0, separator),
+    secret: refreshToken.slice(separator + 1),
+  };
+};
+
+const removeSession = (session: StoredSession) => {
+  getStorage().deleteSession(session.sessionId);
+  sessionRevokedListeners.forEach((listener) => listener(session));
+};
+
+// What the user sees of a session; the refresh token hash stays on the server
+const toSession = (
+  { refreshTokenHash, ...session }: StoredSession,
+  currentSessionId?: string,
+): Session => ({
+  ...session,
+  isCurrent: session.sessionId === currentSessionId,
+});
+
+/**
+ * Start a session for a sign-in. The device ID comes from the client, so it
+ * is only a label.
+ */
+export const createSession = (
+  userId: string,
+  origin: SessionOrigin = {},
+): IssuedSession => {
+  const storage = getStorage();
+  storage.deleteExpiredSessions(new Date().toISOString());
+
+  const deviceId =
+    typeof origin.deviceId === "string" && origin.deviceId.trim()
+      ? origin.deviceId.trim().slice(0, MAX_DEVICE_ID_LENGTH)
+      : "unknown";
+  const secret = newRefreshSecret();
+  const now = new Date().toISOString();
+  const session: StoredSession = {
+    sessionId: uuidv4(),
+    userId,
+    deviceId,
+    refreshTokenHash: hashSecret(secret),
+    ...(origin.userAgent && {
+      userAgent: origin.userAgent.slice(0, MAX_USER_AGENT_LENGTH),
+    }),
+    ...(origin.ipAddress && { ipAddress: origin.ipAddress }),
+    createdAt: now,
+    lastActive: now,
+    expiresAt: refreshExpiry(),
+  };
+
+  storage.saveSession(session);
+  return { session, refreshToken: `${session.sessionId}.${secret}` };
+};
+
+/**
+ * Swap a refresh token for a new one. Each token works once: presenting one
+ * that was already swapped means it leaked, so the whole session is revoked.
+ */
+export const rotateRefreshToken = (
+  refreshToken: unknown,
+  origin: SessionOrigin = {},
+): IssuedSession => {
+  const storage = getStorage();
+  const parsed = parseRefreshToken(refreshToken);
+  const session = parsed ? storage.getSession(parsed.sessionId) : null;
+
+  if (!parsed || !session) {
+    throw new ApiError(401, "Invalid refresh token");
+  }
+  if (new Date(session.expiresAt) <= new Date()) {
+    removeSession(session);
+    throw new ApiError(401, "Session has expired");
+  }
+
+  const presented = Buffer.from(hashSecret(parsed.secret));
+  const expected = Buffer.from(session.refreshTokenHash);
+  if (
+    presented.length !== expected.length ||
+    !timingSafeEqual(presented, expected)
+  ) {
+    removeSession(session);
+    throw new ApiError(401, "Refresh token was already used; session revoked");
+  }
+
+  const secret = newRefreshSecret();
+  const rotated: StoredSession = {
+    ...session,
+    refreshTokenHash: hashSecret(secret),
+    ...(origin.userAgent && {
+      userAgent: origin.userAgent.slice(0, MAX_USER_AGENT_LENGTH),
+    }),
+    ...(origin.ipAddress && { ipAddress: origin.ipAddress }),
+    lastActive: new Date().toISOString(),
+    expiresAt: refreshExpiry(),
+  };
+  storage.saveSession(rotated);
+  return { session: rotated, refreshToken: `${session.sessionId}.${secret}` };
+};
+
+/**
+ * Whether an access token's session is still live. Revoking a session stops
+ * its access tokens straight away, without waiting for them to expire.
+ */
+export const isSessionActive = (sessionId: string, userId: string): boolean => {
+  const session = getStorage().getSession(sessionId);
+  return (
+    !!session &&
+    session.userId === userId &&
+    new Date(session.expiresAt) > new Date()
+  );
+};
+
+export const getSessionsForUser = (
+  userId: string,
+  currentSessionId?: string,
+): Session[] => {
+  const storage = getStorage();
+  storage.deleteExpiredSessions(new Date().toISOString());
+  return storage
+    .getSessionsForUser(userId)
+    .map((session) => toSession(session, currentSessionId));
+};
+
+export const revokeSession = (userId: string, sessionId: string) => {
+  const session = getStorage().getSession(sessionId);
+  if (!session || session.userId !== userId) {
+    throw new ApiError(404, "Session not found");
+  }
+  removeSession(session);
+};
+
+/**
+ * Revoke every session the user has, or every one but `keepSessionId`
+ */
+export const revokeAllSessions = (userId: string, keepSessionId?: string) => {
+  for (const session of getStorage().getSessionsForUser(userId)) {
+    if (session.sessionId !== keepSessionId) {
+      removeSession(session);
+    }
+  }
+};
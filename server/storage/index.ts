@@ -0,0 +1,46 @@
+import { MemoryStorage } from "./memory";
+import { SqliteStorage } from "./sqlite";
+import { Storage } from "./types";
+
+export * from "./types";
+export { MemoryStorage } from "./memory";
+export { SqliteStorage } from "./sqlite";
+
+const DEFAULT_SQLITE_PATH = "data/secure-chat.db";
+
+/**
+ * Build the storage backend named by STORAGE_DRIVER: "memory" (the default,
+ * wiped on restart) or "sqlite" (persisted to SQLITE_PATH).
+ */
+export const createStorage = (
+  env: NodeJS.ProcessEnv = process.env,
+): Storage => {
+  const driver = env.STORAGE_DRIVER ?? "memory";
+
+  switch (driver) {
+    case "memory":
+      return new MemoryStorage();
+    case "sqlite":
+      return new SqliteStorage(env.SQLITE_PATH || DEFAULT_SQLITE_PATH);
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+};
+
+let storage: Storage | null = null;
+
+// Created on first use so tests can call setStorage before any handler runs
+export const getStorage = (): Storage => {
+  if (!storage) {
+    storage = createStorage();
+  }
+  return storage;
+};
+
+// Swap the backend, e.g. for a fake in tests. Closes the one it replaces.
+export const setStorage = (next: Storage) => {
+  if (storage && storage !== next) {
+    storage.close();
+  }
+  storage = next;
+};
@@ -0,0 +1,473 @@
+import {
+  ChatGroup,
+  ChatGroupMember,
+  Connection,
+  FriendRequest,
+  InviteCode,
+  OneTimePreKey,
+  PairingCode,
+  UserBlock,
+} from "@shared/api";
+import {
+  EmailTokenPurpose,
+  QueuedMessage,
+  Storage,
+  StoredEmailToken,
+  StoredPreKeys,
+  StoredSession,
+  StoredTwoFactor,
+  StoredUser,
+} from "./types";
+
+const copyPreKeys = (preKeys: StoredPreKeys): StoredPreKeys => ({
+  ...preKeys,
+  signedPreKey: { ...preKeys.signedPreKey },
+  oneTimePreKeys: preKeys.oneTimePreKeys.map((key) => ({ ...key })),
+});
+
+const copyMember = (member: ChatGroupMember): ChatGroupMember => ({
+  ...member,
+  permissions: { ...member.permissions },
+});
+
+/**
+ * Storage that lives for the lifetime of the process. Records are copied in
+ * and out so callers can't change stored state without saving it, which
+ * keeps behaviour the same as the SQLite backend.
+ */
+export class MemoryStorage implements Storage {
+  private users = new Map<string, StoredUser>();
+  private usersByEmail = new Map<string, string>(); // email -> userId
+  private usersByUsername = new Map<string, string>(); // username -> userId
+  private emailTokens = new Map<string, StoredEmailToken>(); // tokenHash -> token
+  private sessions = new Map<string, StoredSession>();
+  private twoFactors = new Map<string, StoredTwoFactor>(); // userId -> settings
+  private preKeys = new Map<string, StoredPreKeys>(); // userId -> bundle
+  private pairingCodes = new Map<string, PairingCode>();
+  private connections = new Map<string, Connection>();
+  private queuedMessages = new Map<string, QueuedMessage>();
+  private groups = new Map<string, ChatGroup>();
+  private groupMembers = new Map<string, ChatGroupMember>(); // "groupId/userId" -> member
+  private inviteCodes = new Map<string, InviteCode>();
+  private friendRequests = new Map<string, FriendRequest>();
+  private blocks = new Map<string, UserBlock>(); // "blockerId/blockedId" -> block
+
+  createUser(user: StoredUser) {
+    if (this.usersByEmail.has(user.email)) {
+      throw new Error(`User already exists: ${user.email}`);
+    }
+    if (user.username && this.usersByUsername.has(user.username)) {
+      throw new Error(`Username taken: ${user.username}`);
+    }
+    this.users.set(user.id, { ...user });
+    this.usersByEmail.set(user.email, user.id);
+    if (user.username) this.usersByUsername.set(user.username, user.id);
+  }
+
+  getUserById(id: string) {
+    const user = this.users.get(id);
+    return user ? { ...user } : null;
+  }
+
+  getUserByEmail(email: string) {
+    const userId = this.usersByEmail.get(email);
+    return userId ? this.getUserById(userId) : null;
+  }
+
+  getUserByUsername(username: string) {
+    const userId = this.usersByUsername.get(username);
+    return userId ? this.getUserById(userId) : null;
+  }
+
+  updateUser(user: StoredUser) {
+    const existing = this.users.get(user.id);
+    if (!existing) return;
+    const usernameOwner = user.username
+      ? this.usersByUsername.get(user.username)
+      : undefined;
+    if (usernameOwner && usernameOwner !== user.id) {
+      throw new Error(`Username taken: ${user.username}`);
+    }
+    if (existing.email !== user.email) {
+      this.usersByEmail.delete(existing.email);
+      this.usersByEmail.set(user.email, user.id);
+    }
+    if (existing.username !== user.username) {
+      if (existing.username) this.usersByUsername.delete(existing.username);
+      if (user.username) this.usersByUsername.set(user.username, user.id);
+    }
+    this.users.set(user.id, { ...user });
+  }
+
+  deleteUser(id: string) {
+    const user = this.users.get(id);
+    if (!user) return;
+    this.users.delete(id);
+    this.usersByEmail.delete(user.email);
+    if (user.username) this.usersByUsername.delete(user.username);
+    this.twoFactors.delete(id);
+    this.preKeys.delete(id);
+
+    const removeWhere = <T>(
+      records: Map<string, T>,
+      belongsToUser: (record: T) => boolean,
+    ) => {
+      for (const [key, record] of records.entries()) {
+        if (belongsToUser(record)) records.delete(key);
+      }
+    };
+    removeWhere(this.emailTokens, (token) => token.userId === id);
+    removeWhere(this.sessions, (session) => session.userId === id);
+    removeWhere(this.pairingCodes, (pairingCode) => pairingCode.userId === id);
+    removeWhere(
+      this.connections,
+      (connection) => connection.userId1 === id || connection.userId2 === id,
+    );
+    removeWhere(this.groupMembers, (member) => member.userId === id);
+    removeWhere(this.inviteCodes, (invite) => invite.createdBy === id);
+    removeWhere(
+      this.friendRequests,
+      (request) => request.fromUserId === id || request.toUserId === id,
+    );
+    removeWhere(
+      this.blocks,
+      (block) => block.blockerId === id || block.blockedId === id,
+    );
+    removeWhere(
+      this.queuedMessages,
+      (message) => message.senderId === id || message.recipientId === id,
+    );
+  }
+
+  saveEmailToken(token: StoredEmailToken) {
+    this.emailTokens.set(token.tokenHash, { ...token });
+  }
+
+  getEmailToken(tokenHash: string) {
+    const token = this.emailTokens.get(tokenHash);
+    return token ? { ...token } : null;
+  }
+
+  deleteEmailToken(tokenHash: string) {
+    this.emailTokens.delete(tokenHash);
+  }
+
+  deleteEmailTokensForUser(userId: string, purpose: EmailTokenPurpose) {
+    for (const [tokenHash, token] of this.emailTokens.entries()) {
+      if (token.userId === userId && token.purpose === purpose) {
+        this.emailTokens.delete(tokenHash);
+      }
+    }
+  }
+
+  deleteExpiredEmailTokens(now: string) {
+    for (const [tokenHash, token] of this.emailTokens.entries()) {
+      if (token.expiresAt <= now) {
+        this.emailTokens.delete(tokenHash);
+      }
+    }
+  }
+
+  saveSession(session: StoredSession) {
+    this.sessions.set(session.sessionId, { ...session });
+  }
+
+  getSession(id: string) {
+    const session = this.sessions.get(id);
+    return session ? { ...session } : null;
+  }
+
+  getSessionsForUser(userId: string) {
+    return Array.from(this.sessions.values())
+      .filter((session) => session.userId === userId)
+      .sort((a, b) => b.lastActive.localeCompare(a.lastActive))
+      .map((session) => ({ ...session }));
+  }
+
+  deleteSession(id: string) {
+    this.sessions.delete(id);
+  }
+
+  deleteExpiredSessions(now: string) {
+    for (const [id, session] of this.sessions.entries()) {
+      if (session.expiresAt <= now) {
+        this.sessions.delete(id);
+      }
+    }
+  }
+
+  saveTwoFactor(twoFactor: StoredTwoFactor) {
+    this.twoFactors.set(twoFactor.userId, {
+      ...twoFactor,
+      recoveryCodeHashes: [...twoFactor.recoveryCodeHashes],
+    });
+  }
+
+  getTwoFactor(userId: string) {
+    const twoFactor = this.twoFactors.get(userId);
+    return twoFactor
+      ? { ...twoFactor, recoveryCodeHashes: [...twoFactor.recoveryCodeHashes] }
+      : null;
+  }
+
+  deleteTwoFactor(userId: string) {
+    this.twoFactors.delete(userId);
+  }
+
+  savePreKeys(preKeys: StoredPreKeys) {
+    this.preKeys.set(preKeys.userId, copyPreKeys(preKeys));
+  }
+
+  getPreKeys(userId: string) {
+    const preKeys = this.preKeys.get(userId);
+    return preKeys ? copyPreKeys(preKeys) : null;
+  }
+
+  takeOneTimePreKey(userId: string): OneTimePreKey | null {
+    const key = this.preKeys.get(userId)?.oneTimePreKeys.shift();
+    return key ? { ...key } : null;
+  }
+
+  deletePreKeys(userId: string) {
+    this.preKeys.delete(userId);
+  }
+
+  savePairingCode(pairingCode: PairingCode) {
+    this.pairingCodes.set(pairingCode.code, { ...pairingCode });
+  }
+
+  getPairingCode(code: string) {
+    const pairingCode = this.pairingCodes.get(code);
+    return pairingCode ? { ...pairingCode } : null;
+  }
+
+  getPairingCodeByNameplate(nameplate: string) {
+    const pairingCode = Array.from(this.pairingCodes.values()).find(
+      (candidate) => candidate.code.startsWith(nameplate),
+    );
+    return pairingCode ? { ...pairingCode } : null;
+  }
+
+  deletePairingCode(code: string) {
+    this.pairingCodes.delete(code);
+  }
+
+  deleteExpiredPairingCodes(now: string) {
+    for (const [code, pairingCode] of this.pairingCodes.entries()) {
+      if (pairingCode.expiresAt <= now) {
+        this.pairingCodes.delete(code);
+      }
+    }
+  }
+
+  saveConnection(connection: Connection) {
+    this.connections.set(connection.id, { ...connection });
+  }
+
+  getConnection(id: string) {
+    const connection = this.connections.get(id);
+    return connection ? { ...connection } : null;
+  }
+
+  deleteConnection(id: string) {
+    this.connections.delete(id);
+  }
+
+  getConnectionsForUser(userId: string) {
+    return Array.from(this.connections.values())
+      .filter(
+        (connection) =>
+          connection.isActive &&
+          (connection.userId1 === userId || connection.userId2 === userId),
+      )
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((connection) => ({ ...connection }));
+  }
+
+  findConnection(userIdA: string, userIdB: string) {
+    // Active first, then newest, same as the SQLite query
+    const [connection] = Array.from(this.connections.values())
+      .filter(
+        (connection) =>
+          (connection.userId1 === userIdA && connection.userId2 === userIdB) ||
+          (connection.userId1 === userIdB && connection.userId2 === userIdA),
+      )
+      .sort(
+        (a, b) =>
+          Number(b.isActive) - Number(a.isActive) ||
+          b.createdAt.localeCompare(a.createdAt),
+      );
+    return connection ? { ...connection } : null;
+  }
+
+  saveGroup(group: ChatGroup) {
+    this.groups.set(group.id, { ...group, settings: { ...group.settings } });
+  }
+
+  getGroup(id: string) {
+    const group = this.groups.get(id);
+    return group ? { ...group, settings: { ...group.settings } } : null;
+  }
+
+  deleteGroup(id: string) {
+    this.groups.delete(id);
+    for (const member of this.getGroupMembers(id)) {
+      this.deleteGroupMember(id, member.userId);
+    }
+  }
+
+  saveGroupMember(member: ChatGroupMember) {
+    this.groupMembers.set(
+      `${member.groupId}/${member.userId}`,
+      copyMember(member),
+    );
+  }
+
+  getGroupMember(groupId: string, userId: string) {
+    const member = this.groupMembers.get(`${groupId}/${userId}`);
+    return member ? copyMember(member) : null;
+  }
+
+  getGroupMembers(groupId: string) {
+    return Array.from(this.groupMembers.values())
+      .filter((member) => member.groupId === groupId)
+      .sort((a, b) => a.joinedAt.localeCompare(b.joinedAt))
+      .map(copyMember);
+  }
+
+  getGroupMembershipsForUser(userId: string) {
+    return Array.from(this.groupMembers.values())
+      .filter((member) => member.userId === userId)
+      .map(copyMember);
+  }
+
+  deleteGroupMember(groupId: string, userId: string) {
+    this.groupMembers.delete(`${groupId}/${userId}`);
+  }
+
+  saveInviteCode(invite: InviteCode) {
+    const { metadata, ...stored } = invite;
+    this.inviteCodes.set(invite.code, stored);
+  }
+
+  getInviteCode(code: string) {
+    const invite = this.inviteCodes.get(code);
+    return invite ? { ...invite } : null;
+  }
+
+  getInviteCodesForUser(userId: string) {
+    return Array.from(this.inviteCodes.values())
+      .filter((invite) => invite.createdBy === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((invite) => ({ ...invite }));
+  }
+
+  deleteInviteCode(code: string) {
+    this.inviteCodes.delete(code);
+  }
+
+  deleteExpiredInviteCodes(now: string) {
+    for (const [code, invite] of this.inviteCodes.entries()) {
+      if (invite.expiresAt <= now) {
+        this.inviteCodes.delete(code);
+      }
+    }
+  }
+
+  saveFriendRequest(request: FriendRequest) {
+    const { from, to, ...stored } = request;
+    this.friendRequests.set(request.id, stored);
+  }
+
+  getFriendRequest(id: string) {
+    const request = this.friendRequests.get(id);
+    return request ? { ...request } : null;
+  }
+
+  findFriendRequest(fromUserId: string, toUserId: string) {
+    const request = Array.from(this.friendRequests.values()).find(
+      (request) =>
+        request.fromUserId === fromUserId && request.toUserId === toUserId,
+    );
+    return request ? { ...request } : null;
+  }
+
+  getIncomingFriendRequests(userId: string) {
+    return Array.from(this.friendRequests.values())
+      .filter((request) => request.toUserId === userId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map((request) => ({ ...request }));
+  }
+
+  getOutgoingFriendRequests(userId: string) {
+    return Array.from(this.friendRequests.values())
+      .filter((request) => request.fromUserId === userId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map((request) => ({ ...request }));
+  }
+
+  deleteFriendRequest(id: string) {
+    this.friendRequests.delete(id);
+  }
+
+  saveBlock(block: UserBlock) {
+    const { blocked, ...stored } = block;
+    this.blocks.set(`${block.blockerId}/${block.blockedId}`, stored);
+  }
+
+  getBlock(blockerId: string, blockedId: string) {
+    const block = this.blocks.get(`${blockerId}/${blockedId}`);
+    return block ? { ...block } : null;
+  }
+
+  getBlocksForUser(blockerId: string) {
+    return Array.from(this.blocks.values())
+      .filter((block) => block.blockerId === blockerId)
+      .map((block) => ({ ...block }));
+  }
+
+  deleteBlock(blockerId: string, blockedId: string) {
+    this.blocks.delete(`${blockerId}/${blockedId}`);
+  }
+
+  enqueueMessage(message: QueuedMessage) {
+    this.queuedMessages.set(message.id, { ...message });
+  }
+
+  getQueuedMessage(id: string) {
+    const message = this.queuedMessages.get(id);
+    return message ? { ...message } : null;
+  }
+
+  getQueuedMessages(recipientId: string) {
+    // Map iteration follows insertion order, so this is oldest first
+    return Array.from(this.queuedMessages.values())
+      .filter((message) => message.recipientId === recipientId)
+      .map((message) => ({ ...message }));
+  }
+
+  getQueuedMessagesFromSender(senderId: string) {
+    return Array.from(this.queuedMessages.values())
+      .filter((message) => message.senderId === senderId)
+      .map((message) => ({ ...message }));
+  }
+
+  deleteQueuedMessage(id: string) {
+    this.queuedMessages.delete(id);
+  }
+
+  deleteExpiredQueuedMessages(now: string) {
+    const removed: QueuedMessage[] = [];
+    for (const [id, message] of this.queuedMessages.entries()) {
+      if (message.expiresAt <= now) {
+        this.queuedMessages.delete(id);
+        removed.push(message);
+      }
+    }
+    return removed;
+  }
+
+  close() {
+    // Nothing to release
+  }
+}
@@ -0,0 +1,269 @@
+import type Database from "better-sqlite3";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+/**
+ * Schema changes, applied in order. Never edit a migration that has shipped;
+ * add a new one with the next version instead.
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: "initial schema",
+    up: `
+      CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        password_hash TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE pairing_codes (
+        code TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        is_used INTEGER NOT NULL DEFAULT 0
+      );
+
+      CREATE TABLE connections (
+        id TEXT PRIMARY KEY,
+        user_id1 TEXT NOT NULL,
+        user_id2 TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        is_active INTEGER NOT NULL
+      );
+
+      CREATE TABLE user_connections (
+        user_id TEXT PRIMARY KEY,
+        connection_id TEXT NOT NULL
+      );
+
+      CREATE TABLE queued_messages (
+        id TEXT PRIMARY KEY,
+        sender_id TEXT NOT NULL,
+        recipient_id TEXT NOT NULL,
+        content TEXT NOT NULL,
+        type TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      );
+
+      CREATE INDEX queued_messages_recipient ON queued_messages (recipient_id, created_at);
+    `,
+  },
+  {
+    version: 2,
+    name: "many-to-many connections",
+    up: `
+      DROP TABLE user_connections;
+
+      CREATE INDEX connections_user1 ON connections (user_id1);
+      CREATE INDEX connections_user2 ON connections (user_id2);
+    `,
+  },
+  {
+    version: 3,
+    name: "groups",
+    up: `
+      CREATE TABLE chat_groups (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        created_by TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        settings TEXT NOT NULL
+      );
+
+      CREATE TABLE chat_group_members (
+        group_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        role TEXT NOT NULL,
+        status TEXT NOT NULL,
+        permissions TEXT NOT NULL,
+        invited_by TEXT,
+        joined_at TEXT NOT NULL,
+        PRIMARY KEY (group_id, user_id)
+      );
+
+      CREATE INDEX chat_group_members_user ON chat_group_members (user_id);
+
+      ALTER TABLE queued_messages ADD COLUMN group_id TEXT;
+    `,
+  },
+  {
+    version: 4,
+    name: "invite codes",
+    up: `
+      CREATE TABLE invite_codes (
+        code TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        group_id TEXT,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        max_uses INTEGER NOT NULL,
+        current_uses INTEGER NOT NULL
+      );
+
+      CREATE INDEX invite_codes_created_by ON invite_codes (created_by, created_at);
+    `,
+  },
+  {
+    version: 5,
+    name: "friend requests and blocks",
+    up: `
+      CREATE TABLE friend_requests (
+        id TEXT PRIMARY KEY,
+        from_user_id TEXT NOT NULL,
+        to_user_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        UNIQUE (from_user_id, to_user_id)
+      );
+
+      CREATE INDEX friend_requests_to_user ON friend_requests (to_user_id, created_at);
+
+      CREATE TABLE user_blocks (
+        blocker_id TEXT NOT NULL,
+        blocked_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (blocker_id, blocked_id)
+      );
+    `,
+  },
+  {
+    version: 6,
+    name: "sessions",
+    up: `
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        device_id TEXT NOT NULL,
+        refresh_token_hash TEXT NOT NULL,
+        user_agent TEXT,
+        ip_address TEXT,
+        created_at TEXT NOT NULL,
+        last_active TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      );
+
+      CREATE INDEX sessions_user ON sessions (user_id, last_active);
+    `,
+  },
+  {
+    version: 7,
+    name: "two-factor authentication",
+    up: `
+      CREATE TABLE two_factor (
+        user_id TEXT PRIMARY KEY,
+        secret TEXT NOT NULL,
+        enabled INTEGER NOT NULL,
+        recovery_code_hashes TEXT NOT NULL,
+        last_used_step INTEGER,
+        failed_attempts INTEGER NOT NULL,
+        locked_until TEXT,
+        created_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 8,
+    name: "pairing code attempt budgets",
+    // Codes from before this have no budget left, so they stop working;
+    // they were only ever good for five minutes
+    up: `
+      ALTER TABLE pairing_codes ADD COLUMN attempts_remaining INTEGER NOT NULL DEFAULT 0;
+    `,
+  },
+  {
+    version: 9,
+    name: "email verification and password reset",
+    // Nobody has verified an address yet, including existing accounts
+    up: `
+      ALTER TABLE users ADD COLUMN email_verified INTEGER NOT NULL DEFAULT 0;
+
+      CREATE TABLE email_tokens (
+        token_hash TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        purpose TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      );
+
+      CREATE INDEX email_tokens_user ON email_tokens (user_id, purpose);
+    `,
+  },
+  {
+    version: 10,
+    name: "profiles and handles",
+    // Handles are stored lowercase, so the unique index is case-insensitive
+    // in effect. Existing accounts pick one later.
+    up: `
+      ALTER TABLE users ADD COLUMN username TEXT;
+      ALTER TABLE users ADD COLUMN display_name TEXT;
+      ALTER TABLE users ADD COLUMN avatar TEXT;
+
+      CREATE UNIQUE INDEX users_username ON users (username);
+    `,
+  },
+  {
+    version: 11,
+    name: "read receipt setting",
+    // NULL is the default, which sends them
+    up: `
+      ALTER TABLE users ADD COLUMN read_receipts INTEGER;
+    `,
+  },
+  {
+    version: 12,
+    name: "reply references",
+    up: `
+      ALTER TABLE queued_messages ADD COLUMN reply_to TEXT;
+    `,
+  },
+  {
+    version: 13,
+    name: "prekeys",
+    // Bundles used to live in memory only, so everyone uploads again on
+    // their next sign-in
+    up: `
+      CREATE TABLE prekey_bundles (
+        user_id TEXT PRIMARY KEY,
+        identity_key TEXT NOT NULL,
+        signing_key TEXT NOT NULL,
+        identity_signature TEXT NOT NULL,
+        signed_prekey TEXT NOT NULL
+      );
+
+      CREATE TABLE one_time_prekeys (
+        user_id TEXT NOT NULL,
+        key_id INTEGER NOT NULL,
+        public_key TEXT NOT NULL,
+        PRIMARY KEY (user_id, key_id)
+      );
+    `,
+  },
+];
+
+/**
+ * Bring a database up to the latest schema. The applied version is tracked
+ * in SQLite's user_version pragma; each migration runs in its own transaction.
+ */
+export const runMigrations = (db: Database.Database): number => {
+  const current = db.pragma("user_version", { simple: true }) as number;
+
+  for (const migration of migrations) {
+    if (migration.version <= current) continue;
+
+    db.transaction(() => {
+      db.exec(migration.up);
+      db.pragma(`user_version = ${migration.version}`);
+    })();
+    console.log(`Applied migration ${migration.version}: ${migration.name}`);
+  }
+
+  return db.pragma("user_version", { simple: true }) as number;
+};
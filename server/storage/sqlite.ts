@@ -0,0 +1,935 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import {
+  ChatGroup,
+  ChatGroupMember,
+  Connection,
+  FriendRequest,
+  InviteCode,
+  OneTimePreKey,
+  PairingCode,
+  UserBlock,
+} from "@shared/api";
+import {
+  EmailTokenPurpose,
+  QueuedMessage,
+  Storage,
+  StoredEmailToken,
+  StoredPreKeys,
+  StoredSession,
+  StoredTwoFactor,
+  StoredUser,
+} from "./types";
+import { runMigrations } from "./migrations";
+
+interface UserRow {
+  id: string;
+  email: string;
+  password_hash: string;
+  email_verified: number;
+  username: string | null;
+  display_name: string | null;
+  avatar: string | null;
+  read_receipts: number | null;
+  created_at: string;
+}
+
+interface EmailTokenRow {
+  token_hash: string;
+  user_id: string;
+  purpose: EmailTokenPurpose;
+  created_at: string;
+  expires_at: string;
+}
+
+interface SessionRow {
+  id: string;
+  user_id: string;
+  device_id: string;
+  refresh_token_hash: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_active: string;
+  expires_at: string;
+}
+
+interface TwoFactorRow {
+  user_id: string;
+  secret: string;
+  enabled: number;
+  recovery_code_hashes: string; // JSON array
+  last_used_step: number | null;
+  failed_attempts: number;
+  locked_until: string | null;
+  created_at: string;
+}
+
+interface PreKeyBundleRow {
+  user_id: string;
+  identity_key: string;
+  signing_key: string;
+  identity_signature: string;
+  signed_prekey: string; // JSON
+}
+
+interface OneTimePreKeyRow {
+  user_id: string;
+  key_id: number;
+  public_key: string;
+}
+
+interface PairingCodeRow {
+  code: string;
+  user_id: string;
+  expires_at: string;
+  is_used: number;
+  attempts_remaining: number;
+}
+
+interface ConnectionRow {
+  id: string;
+  user_id1: string;
+  user_id2: string;
+  created_at: string;
+  is_active: number;
+}
+
+interface GroupRow {
+  id: string;
+  name: string;
+  description: string | null;
+  created_by: string;
+  created_at: string;
+  settings: string;
+}
+
+interface GroupMemberRow {
+  group_id: string;
+  user_id: string;
+  role: string;
+  status: string;
+  permissions: string;
+  invited_by: string | null;
+  joined_at: string;
+}
+
+interface InviteCodeRow {
+  code: string;
+  type: string;
+  created_by: string;
+  group_id: string | null;
+  created_at: string;
+  expires_at: string;
+  max_uses: number;
+  current_uses: number;
+}
+
+interface FriendRequestRow {
+  id: string;
+  from_user_id: string;
+  to_user_id: string;
+  created_at: string;
+}
+
+interface UserBlockRow {
+  blocker_id: string;
+  blocked_id: string;
+  created_at: string;
+}
+
+interface QueuedMessageRow {
+  id: string;
+  sender_id: string;
+  recipient_id: string;
+  content: string;
+  type: string;
+  group_id: string | null;
+  reply_to: string | null;
+  created_at: string;
+  expires_at: string;
+}
+
+const toUser = (row: UserRow): StoredUser => ({
+  id: row.id,
+  email: row.email,
+  passwordHash: row.password_hash,
+  emailVerified: row.email_verified === 1,
+  ...(row.username !== null && { username: row.username }),
+  ...(row.display_name !== null && { displayName: row.display_name }),
+  ...(row.avatar !== null && { avatar: row.avatar }),
+  ...(row.read_receipts !== null && { readReceipts: row.read_receipts === 1 }),
+  createdAt: row.created_at,
+});
+
+const toEmailToken = (row: EmailTokenRow): StoredEmailToken => ({
+  tokenHash: row.token_hash,
+  userId: row.user_id,
+  purpose: row.purpose,
+  createdAt: row.created_at,
+  expiresAt: row.expires_at,
+});
+
+const toSession = (row: SessionRow): StoredSession => ({
+  sessionId: row.id,
+  userId: row.user_id,
+  deviceId: row.device_id,
+  refreshTokenHash: row.refresh_token_hash,
+  ...(row.user_agent !== null && { userAgent: row.user_agent }),
+  ...(row.ip_address !== null && { ipAddress: row.ip_address }),
+  createdAt: row.created_at,
+  lastActive: row.last_active,
+  expiresAt: row.expires_at,
+});
+
+const toTwoFactor = (row: TwoFactorRow): StoredTwoFactor => ({
+  userId: row.user_id,
+  secret: row.secret,
+  enabled: row.enabled === 1,
+  recoveryCodeHashes: JSON.parse(row.recovery_code_hashes),
+  ...(row.last_used_step !== null && { lastUsedStep: row.last_used_step }),
+  failedAttempts: row.failed_attempts,
+  ...(row.locked_until !== null && { lockedUntil: row.locked_until }),
+  createdAt: row.created_at,
+});
+
+const toOneTimePreKey = (row: OneTimePreKeyRow): OneTimePreKey => ({
+  keyId: row.key_id,
+  publicKey: row.public_key,
+});
+
+const toPairingCode = (row: PairingCodeRow): PairingCode => ({
+  code: row.code,
+  userId: row.user_id,
+  expiresAt: row.expires_at,
+  isUsed: row.is_used === 1,
+  attemptsRemaining: row.attempts_remaining,
+});
+
+const toConnection = (row: ConnectionRow): Connection => ({
+  id: row.id,
+  userId1: row.user_id1,
+  userId2: row.user_id2,
+  createdAt: row.created_at,
+  isActive: row.is_active === 1,
+});
+
+const toGroup = (row: GroupRow): ChatGroup => ({
+  id: row.id,
+  name: row.name,
+  ...(row.description !== null && { description: row.description }),
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+  settings: JSON.parse(row.settings),
+});
+
+const toGroupMember = (row: GroupMemberRow): ChatGroupMember => ({
+  groupId: row.group_id,
+  userId: row.user_id,
+  role: row.role as ChatGroupMember["role"],
+  status: row.status as ChatGroupMember["status"],
+  permissions: JSON.parse(row.permissions),
+  ...(row.invited_by !== null && { invitedBy: row.invited_by }),
+  joinedAt: row.joined_at,
+});
+
+const toInviteCode = (row: InviteCodeRow): InviteCode => ({
+  code: row.code,
+  type: row.type as InviteCode["type"],
+  createdBy: row.created_by,
+  ...(row.group_id !== null && { groupId: row.group_id }),
+  createdAt: row.created_at,
+  expiresAt: row.expires_at,
+  maxUses: row.max_uses,
+  currentUses: row.current_uses,
+});
+
+const toFriendRequest = (row: FriendRequestRow): FriendRequest => ({
+  id: row.id,
+  fromUserId: row.from_user_id,
+  toUserId: row.to_user_id,
+  createdAt: row.created_at,
+});
+
+const toUserBlock = (row: UserBlockRow): UserBlock => ({
+  blockerId: row.blocker_id,
+  blockedId: row.blocked_id,
+  createdAt: row.created_at,
+});
+
+const toQueuedMessage = (row: QueuedMessageRow): QueuedMessage => ({
+  id: row.id,
+  senderId: row.sender_id,
+  recipientId: row.recipient_id,
+  content: JSON.parse(row.content),
+  type: row.type,
+  ...(row.group_id !== null && { groupId: row.group_id }),
+  ...(row.reply_to !== null && { replyTo: row.reply_to }),
+  createdAt: row.created_at,
+  expiresAt: row.expires_at,
+});
+
+/**
+ * File-backed storage. Pass ":memory:" for a throwaway database.
+ */
+export class SqliteStorage implements Storage {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    if (filename !== ":memory:") {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    runMigrations(this.db);
+  }
+
+  createUser(user: StoredUser) {
+    this.db
+      .prepare(
+        `INSERT INTO users (id, email, password_hash, email_verified, username, display_name, avatar, read_receipts, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        user.id,
+        user.email,
+        user.passwordHash,
+        user.emailVerified ? 1 : 0,
+        user.username ?? null,
+        user.displayName ?? null,
+        user.avatar ?? null,
+        user.readReceipts === undefined ? null : Number(user.readReceipts),
+        user.createdAt,
+      );
+  }
+
+  getUserById(id: string) {
+    const row = this.db.prepare("SELECT * FROM users WHERE id = ?").get(id) as
+      | UserRow
+      | undefined;
+    return row ? toUser(row) : null;
+  }
+
+  getUserByEmail(email: string) {
+    const row = this.db
+      .prepare("SELECT * FROM users WHERE email = ?")
+      .get(email) as UserRow | undefined;
+    return row ? toUser(row) : null;
+  }
+
+  getUserByUsername(username: string) {
+    const row = this.db
+      .prepare("SELECT * FROM users WHERE username = ?")
+      .get(username) as UserRow | undefined;
+    return row ? toUser(row) : null;
+  }
+
+  updateUser(user: StoredUser) {
+    this.db
+      .prepare(
+        `UPDATE users SET email = ?, password_hash = ?, email_verified = ?, username = ?, display_name = ?, avatar = ?,
+         read_receipts = ? WHERE id = ?`,
+      )
+      .run(
+        user.email,
+        user.passwordHash,
+        user.emailVerified ? 1 : 0,
+        user.username ?? null,
+        user.displayName ?? null,
+        user.avatar ?? null,
+        user.readReceipts === undefined ? null : Number(user.readReceipts),
+        user.id,
+      );
+  }
+
+  deleteUser(id: string) {
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM email_tokens WHERE user_id = ?").run(id);
+      this.db.prepare("DELETE FROM sessions WHERE user_id = ?").run(id);
+      this.db.prepare("DELETE FROM two_factor WHERE user_id = ?").run(id);
+      this.db.prepare("DELETE FROM one_time_prekeys WHERE user_id = ?").run(id);
+      this.db.prepare("DELETE FROM prekey_bundles WHERE user_id = ?").run(id);
+      this.db.prepare("DELETE FROM pairing_codes WHERE user_id = ?").run(id);
+      this.db
+        .prepare("DELETE FROM connections WHERE user_id1 = ? OR user_id2 = ?")
+        .run(id, id);
+      this.db
+        .prepare("DELETE FROM chat_group_members WHERE user_id = ?")
+        .run(id);
+      this.db.prepare("DELETE FROM invite_codes WHERE created_by = ?").run(id);
+      this.db
+        .prepare(
+          "DELETE FROM friend_requests WHERE from_user_id = ? OR to_user_id = ?",
+        )
+        .run(id, id);
+      this.db
+        .prepare(
+          "DELETE FROM user_blocks WHERE blocker_id = ? OR blocked_id = ?",
+        )
+        .run(id, id);
+      this.db
+        .prepare(
+          "DELETE FROM queued_messages WHERE sender_id = ? OR recipient_id = ?",
+        )
+        .run(id, id);
+      this.db.prepare("DELETE FROM users WHERE id = ?").run(id);
+    })();
+  }
+
+  saveEmailToken(token: StoredEmailToken) {
+    this.db
+      .prepare(
+        `INSERT INTO email_tokens (token_hash, user_id, purpose, created_at, expires_at) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (token_hash) DO UPDATE SET
+           user_id = excluded.user_id, purpose = excluded.purpose,
+           created_at = excluded.created_at, expires_at = excluded.expires_at`,
+      )
+      .run(
+        token.tokenHash,
+        token.userId,
+        token.purpose,
+        token.createdAt,
+        token.expiresAt,
+      );
+  }
+
+  getEmailToken(tokenHash: string) {
+    const row = this.db
+      .prepare("SELECT * FROM email_tokens WHERE token_hash = ?")
+      .get(tokenHash) as EmailTokenRow | undefined;
+    return row ? toEmailToken(row) : null;
+  }
+
+  deleteEmailToken(tokenHash: string) {
+    this.db
+      .prepare("DELETE FROM email_tokens WHERE token_hash = ?")
+      .run(tokenHash);
+  }
+
+  deleteEmailTokensForUser(userId: string, purpose: EmailTokenPurpose) {
+    this.db
+      .prepare("DELETE FROM email_tokens WHERE user_id = ? AND purpose = ?")
+      .run(userId, purpose);
+  }
+
+  deleteExpiredEmailTokens(now: string) {
+    this.db.prepare("DELETE FROM email_tokens WHERE expires_at <= ?").run(now);
+  }
+
+  saveSession(session: StoredSession) {
+    this.db
+      .prepare(
+        `INSERT INTO sessions (id, user_id, device_id, refresh_token_hash, user_agent, ip_address, created_at, last_active, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           refresh_token_hash = excluded.refresh_token_hash, user_agent = excluded.user_agent,
+           ip_address = excluded.ip_address, last_active = excluded.last_active, expires_at = excluded.expires_at`,
+      )
+      .run(
+        session.sessionId,
+        session.userId,
+        session.deviceId,
+        session.refreshTokenHash,
+        session.userAgent ?? null,
+        session.ipAddress ?? null,
+        session.createdAt,
+        session.lastActive,
+        session.expiresAt,
+      );
+  }
+
+  getSession(id: string) {
+    const row = this.db
+      .prepare("SELECT * FROM sessions WHERE id = ?")
+      .get(id) as SessionRow | undefined;
+    return row ? toSession(row) : null;
+  }
+
+  getSessionsForUser(userId: string) {
+    const rows = this.db
+      .prepare(
+        "SELECT * FROM sessions WHERE user_id = ? ORDER BY last_active DESC, rowid DESC",
+      )
+      .all(userId) as SessionRow[];
+    return rows.map(toSession);
+  }
+
+  deleteSession(id: string) {
+    this.db.prepare("DELETE FROM sessions WHERE id = ?").run(id);
+  }
+
+  deleteExpiredSessions(now: string) {
+    this.db.prepare("DELETE FROM sessions WHERE expires_at <= ?").run(now);
+  }
+
+  saveTwoFactor(twoFactor: StoredTwoFactor) {
+    this.db
+      .prepare(
+        `INSERT INTO two_factor (user_id, secret, enabled, recovery_code_hashes, last_used_step, failed_attempts, locked_until, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (user_id) DO UPDATE SET
+           secret = excluded.secret, enabled = excluded.enabled, recovery_code_hashes = excluded.recovery_code_hashes,
+           last_used_step = excluded.last_used_step, failed_attempts = excluded.failed_attempts,
+           locked_until = excluded.locked_until, created_at = excluded.created_at`,
+      )
+      .run(
+        twoFactor.userId,
+        twoFactor.secret,
+        twoFactor.enabled ? 1 : 0,
+        JSON.stringify(twoFactor.recoveryCodeHashes),
+        twoFactor.lastUsedStep ?? null,
+        twoFactor.failedAttempts,
+        twoFactor.lockedUntil ?? null,
+        twoFactor.createdAt,
+      );
+  }
+
+  getTwoFactor(userId: string) {
+    const row = this.db
+      .prepare("SELECT * FROM two_factor WHERE user_id = ?")
+      .get(userId) as TwoFactorRow | undefined;
+    return row ? toTwoFactor(row) : null;
+  }
+
+  deleteTwoFactor(userId: string) {
+    this.db.prepare("DELETE FROM two_factor WHERE user_id = ?").run(userId);
+  }
+
+  savePreKeys(preKeys: StoredPreKeys) {
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `INSERT INTO prekey_bundles (user_id, identity_key, signing_key, identity_signature, signed_prekey)
+           VALUES (?, ?, ?, ?, ?)
+           ON CONFLICT (user_id) DO UPDATE SET
+             identity_key = excluded.identity_key, signing_key = excluded.signing_key,
+             identity_signature = excluded.identity_signature, signed_prekey = excluded.signed_prekey`,
+        )
+        .run(
+          preKeys.userId,
+          preKeys.identityKey,
+          preKeys.signingKey,
+          preKeys.identitySignature,
+          JSON.stringify(preKeys.signedPreKey),
+        );
+
+      this.db
+        .prepare("DELETE FROM one_time_prekeys WHERE user_id = ?")
+        .run(preKeys.userId);
+      const insertKey = this.db.prepare(
+        "INSERT INTO one_time_prekeys (user_id, key_id, public_key) VALUES (?, ?, ?)",
+      );
+      for (const key of preKeys.oneTimePreKeys) {
+        insertKey.run(preKeys.userId, key.keyId, key.publicKey);
+      }
+    })();
+  }
+
+  getPreKeys(userId: string) {
+    const row = this.db
+      .prepare("SELECT * FROM prekey_bundles WHERE user_id = ?")
+      .get(userId) as PreKeyBundleRow | undefined;
+    if (!row) return null;
+
+    const keys = this.db
+      .prepare(
+        "SELECT * FROM one_time_prekeys WHERE user_id = ? ORDER BY rowid",
+      )
+      .all(userId) as OneTimePreKeyRow[];
+    return {
+      userId: row.user_id,
+      identityKey: row.identity_key,
+      signingKey: row.signing_key,
+      identitySignature: row.identity_signature,
+      signedPreKey: JSON.parse(row.signed_prekey),
+      oneTimePreKeys: keys.map(toOneTimePreKey),
+    };
+  }
+
+  takeOneTimePreKey(userId: string) {
+    const row = this.db
+      .prepare(
+        `DELETE FROM one_time_prekeys
+         WHERE rowid = (SELECT rowid FROM one_time_prekeys WHERE user_id = ? ORDER BY rowid LIMIT 1)
+         RETURNING *`,
+      )
+      .get(userId) as OneTimePreKeyRow | undefined;
+    return row ? toOneTimePreKey(row) : null;
+  }
+
+  deletePreKeys(userId: string) {
+    this.db.transaction(() => {
+      this.db
+        .prepare("DELETE FROM one_time_prekeys WHERE user_id = ?")
+        .run(userId);
+      this.db
+        .prepare("DELETE FROM prekey_bundles WHERE user_id = ?")
+        .run(userId);
+    })();
+  }
+
+  savePairingCode(pairingCode: PairingCode) {
+    this.db
+      .prepare(
+        `INSERT INTO pairing_codes (code, user_id, expires_at, is_used, attempts_remaining) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (code) DO UPDATE SET
+           user_id = excluded.user_id, expires_at = excluded.expires_at, is_used = excluded.is_used,
+           attempts_remaining = excluded.attempts_remaining`,
+      )
+      .run(
+        pairingCode.code,
+        pairingCode.userId,
+        pairingCode.expiresAt,
+        pairingCode.isUsed ? 1 : 0,
+        pairingCode.attemptsRemaining,
+      );
+  }
+
+  getPairingCode(code: string) {
+    const row = this.db
+      .prepare("SELECT * FROM pairing_codes WHERE code = ?")
+      .get(code) as PairingCodeRow | undefined;
+    return row ? toPairingCode(row) : null;
+  }
+
+  getPairingCodeByNameplate(nameplate: string) {
+    const row = this.db
+      .prepare(
+        "SELECT * FROM pairing_codes WHERE substr(code, 1, length(?)) = ?",
+      )
+      .get(nameplate, nameplate) as PairingCodeRow | undefined;
+    return row ? toPairingCode(row) : null;
+  }
+
+  deletePairingCode(code: string) {
+    this.db.prepare("DELETE FROM pairing_codes WHERE code = ?").run(code);
+  }
+
+  deleteExpiredPairingCodes(now: string) {
+    this.db.prepare("DELETE FROM pairing_codes WHERE expires_at <= ?").run(now);
+  }
+
+  saveConnection(connection: Connection) {
+    this.db
+      .prepare(
+        `INSERT INTO connections (id, user_id1, user_id2, created_at, is_active) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           user_id1 = excluded.user_id1, user_id2 = excluded.user_id2,
+           created_at = excluded.created_at, is_active = excluded.is_active`,
+      )
+      .run(
+        connection.id,
+        connection.userId1,
+        connection.userId2,
+        connection.createdAt,
+        connection.isActive ? 1 : 0,
+      );
+  }
+
+  getConnection(id: string) {
+    const row = this.db
+      .prepare("SELECT * FROM connections WHERE id = ?")
+      .get(id) as ConnectionRow | undefined;
+    return row ? toConnection(row) : null;
+  }
+
+  deleteConnection(id: string) {
+    this.db.prepare("DELETE FROM connections WHERE id = ?").run(id);
+  }
+
+  getConnectionsForUser(userId: string) {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM connections WHERE is_active = 1 AND (user_id1 = ? OR user_id2 = ?)
+         ORDER BY created_at DESC`,
+      )
+      .all(userId, userId) as ConnectionRow[];
+    return rows.map(toConnection);
+  }
+
+  findConnection(userIdA: string, userIdB: string) {
+    // Databases from the one-partner era can hold several rows per pair; prefer the live one
+    const row = this.db
+      .prepare(
+        `SELECT * FROM connections
+         WHERE (user_id1 = ? AND user_id2 = ?) OR (user_id1 = ? AND user_id2 = ?)
+         ORDER BY is_active DESC, created_at DESC LIMIT 1`,
+      )
+      .get(userIdA, userIdB, userIdB, userIdA) as ConnectionRow | undefined;
+    return row ? toConnection(row) : null;
+  }
+
+  saveGroup(group: ChatGroup) {
+    this.db
+      .prepare(
+        `INSERT INTO chat_groups (id, name, description, created_by, created_at, settings)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           name = excluded.name, description = excluded.description, settings = excluded.settings`,
+      )
+      .run(
+        group.id,
+        group.name,
+        group.description ?? null,
+        group.createdBy,
+        group.createdAt,
+        JSON.stringify(group.settings),
+      );
+  }
+
+  getGroup(id: string) {
+    const row = this.db
+      .prepare("SELECT * FROM chat_groups WHERE id = ?")
+      .get(id) as GroupRow | undefined;
+    return row ? toGroup(row) : null;
+  }
+
+  deleteGroup(id: string) {
+    this.db.transaction(() => {
+      this.db
+        .prepare("DELETE FROM chat_group_members WHERE group_id = ?")
+        .run(id);
+      this.db.prepare("DELETE FROM chat_groups WHERE id = ?").run(id);
+    })();
+  }
+
+  saveGroupMember(member: ChatGroupMember) {
+    this.db
+      .prepare(
+        `INSERT INTO chat_group_members (group_id, user_id, role, status, permissions, invited_by, joined_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (group_id, user_id) DO UPDATE SET
+           role = excluded.role, status = excluded.status, permissions = excluded.permissions,
+           invited_by = excluded.invited_by, joined_at = excluded.joined_at`,
+      )
+      .run(
+        member.groupId,
+        member.userId,
+        member.role,
+        member.status,
+        JSON.stringify(member.permissions),
+        member.invitedBy ?? null,
+        member.joinedAt,
+      );
+  }
+
+  getGroupMember(groupId: string, userId: string) {
+    const row = this.db
+      .prepare(
+        "SELECT * FROM chat_group_members WHERE group_id = ? AND user_id = ?",
+      )
+      .get(groupId, userId) as GroupMemberRow | undefined;
+    return row ? toGroupMember(row) : null;
+  }
+
+  getGroupMembers(groupId: string) {
+    const rows = this.db
+      .prepare(
+        "SELECT * FROM chat_group_members WHERE group_id = ? ORDER BY joined_at, rowid",
+      )
+      .all(groupId) as GroupMemberRow[];
+    return rows.map(toGroupMember);
+  }
+
+  getGroupMembershipsForUser(userId: string) {
+    const rows = this.db
+      .prepare("SELECT * FROM chat_group_members WHERE user_id = ?")
+      .all(userId) as GroupMemberRow[];
+    return rows.map(toGroupMember);
+  }
+
+  deleteGroupMember(groupId: string, userId: string) {
+    this.db
+      .prepare(
+        "DELETE FROM chat_group_members WHERE group_id = ? AND user_id = ?",
+      )
+      .run(groupId, userId);
+  }
+
+  saveInviteCode(invite: InviteCode) {
+    this.db
+      .prepare(
+        `INSERT INTO invite_codes (code, type, created_by, group_id, created_at, expires_at, max_uses, current_uses)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (code) DO UPDATE SET
+           expires_at = excluded.expires_at, max_uses = excluded.max_uses, current_uses = excluded.current_uses`,
+      )
+      .run(
+        invite.code,
+        invite.type,
+        invite.createdBy,
+        invite.groupId ?? null,
+        invite.createdAt,
+        invite.expiresAt,
+        invite.maxUses,
+        invite.currentUses,
+      );
+  }
+
+  getInviteCode(code: string) {
+    const row = this.db
+      .prepare("SELECT * FROM invite_codes WHERE code = ?")
+      .get(code) as InviteCodeRow | undefined;
+    return row ? toInviteCode(row) : null;
+  }
+
+  getInviteCodesForUser(userId: string) {
+    const rows = this.db
+      .prepare(
+        "SELECT * FROM invite_codes WHERE created_by = ? ORDER BY created_at DESC, rowid DESC",
+      )
+      .all(userId) as InviteCodeRow[];
+    return rows.map(toInviteCode);
+  }
+
+  deleteInviteCode(code: string) {
+    this.db.prepare("DELETE FROM invite_codes WHERE code = ?").run(code);
+  }
+
+  deleteExpiredInviteCodes(now: string) {
+    this.db.prepare("DELETE FROM invite_codes WHERE expires_at <= ?").run(now);
+  }
+
+  saveFriendRequest(request: FriendRequest) {
+    this.db
+      .prepare(
+        `INSERT INTO friend_requests (id, from_user_id, to_user_id, created_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT (id) DO NOTHING`,
+      )
+      .run(request.id, request.fromUserId, request.toUserId, request.createdAt);
+  }
+
+  getFriendRequest(id: string) {
+    const row = this.db
+      .prepare("SELECT * FROM friend_requests WHERE id = ?")
+      .get(id) as FriendRequestRow | undefined;
+    return row ? toFriendRequest(row) : null;
+  }
+
+  findFriendRequest(fromUserId: string, toUserId: string) {
+    const row = this.db
+      .prepare(
+        "SELECT * FROM friend_requests WHERE from_user_id = ? AND to_user_id = ?",
+      )
+      .get(fromUserId, toUserId) as FriendRequestRow | undefined;
+    return row ? toFriendRequest(row) : null;
+  }
+
+  getIncomingFriendRequests(userId: string) {
+    const rows = this.db
+      .prepare(
+        "SELECT * FROM friend_requests WHERE to_user_id = ? ORDER BY created_at, rowid",
+      )
+      .all(userId) as FriendRequestRow[];
+    return rows.map(toFriendRequest);
+  }
+
+  getOutgoingFriendRequests(userId: string) {
+    const rows = this.db
+      .prepare(
+        "SELECT * FROM friend_requests WHERE from_user_id = ? ORDER BY created_at, rowid",
+      )
+      .all(userId) as FriendRequestRow[];
+    return rows.map(toFriendRequest);
+  }
+
+  deleteFriendRequest(id: string) {
+    this.db.prepare("DELETE FROM friend_requests WHERE id = ?").run(id);
+  }
+
+  saveBlock(block: UserBlock) {
+    this.db
+      .prepare(
+        `INSERT INTO user_blocks (blocker_id, blocked_id, created_at) VALUES (?, ?, ?)
+         ON CONFLICT (blocker_id, blocked_id) DO NOTHING`,
+      )
+      .run(block.blockerId, block.blockedId, block.createdAt);
+  }
+
+  getBlock(blockerId: string, blockedId: string) {
+    const row = this.db
+      .prepare(
+        "SELECT * FROM user_blocks WHERE blocker_id = ? AND blocked_id = ?",
+      )
+      .get(blockerId, blockedId) as UserBlockRow | undefined;
+    return row ? toUserBlock(row) : null;
+  }
+
+  getBlocksForUser(blockerId: string) {
+    const rows = this.db
+      .prepare(
+        "SELECT * FROM user_blocks WHERE blocker_id = ? ORDER BY created_at, rowid",
+      )
+      .all(blockerId) as UserBlockRow[];
+    return rows.map(toUserBlock);
+  }
+
+  deleteBlock(blockerId: string, blockedId: string) {
+    this.db
+      .prepare(
+        "DELETE FROM user_blocks WHERE blocker_id = ? AND blocked_id = ?",
+      )
+      .run(blockerId, blockedId);
+  }
+
+  enqueueMessage(message: QueuedMessage) {
+    this.db
+      .prepare(
+        `INSERT INTO queued_messages (id, sender_id, recipient_id, content, type, group_id, reply_to, created_at, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        message.id,
+        message.senderId,
+        message.recipientId,
+        JSON.stringify(message.content),
+        message.type,
+        message.groupId ?? null,
+        message.replyTo ?? null,
+        message.createdAt,
+        message.expiresAt,
+      );
+  }
+
+  getQueuedMessage(id: string) {
+    const row = this.db
+      .prepare("SELECT * FROM queued_messages WHERE id = ?")
+      .get(id) as QueuedMessageRow | undefined;
+    return row ? toQueuedMessage(row) : null;
+  }
+
+  getQueuedMessages(recipientId: string) {
+    const rows = this.db
+      .prepare(
+        "SELECT * FROM queued_messages WHERE recipient_id = ? ORDER BY created_at, rowid",
+      )
+      .all(recipientId) as QueuedMessageRow[];
+    return rows.map(toQueuedMessage);
+  }
+
+  getQueuedMessagesFromSender(senderId: string) {
+    const rows = this.db
+      .prepare(
+        "SELECT * FROM queued_messages WHERE sender_id = ? ORDER BY created_at, rowid",
+      )
+      .all(senderId) as QueuedMessageRow[];
+    return rows.map(toQueuedMessage);
+  }
+
+  deleteQueuedMessage(id: string) {
+    this.db.prepare("DELETE FROM queued_messages WHERE id = ?").run(id);
+  }
+
+  deleteExpiredQueuedMessages(now: string) {
+    const rows = this.db
+      .prepare("DELETE FROM queued_messages WHERE expires_at <= ? RETURNING *")
+      .all(now) as QueuedMessageRow[];
+    return rows.map(toQueuedMessage);
+  }
+
+  close() {
+    this.db.close();
+  }
+}
@@ -0,0 +1,596 @@
+import { describe, it, expect } from "vitest";
+import Database from "better-sqlite3";
+import { MemoryStorage } from "./memory";
+import { SqliteStorage } from "./sqlite";
+import { migrations, runMigrations } from "./migrations";
+import { Storage } from "./types";
+
+const backends: [string, () => Storage][] = [
+  ["MemoryStorage", () => new MemoryStorage()],
+  ["SqliteStorage", () => new SqliteStorage(":memory:")],
+];
+
+describe.each(backends)("%s", (_name, createStorage) => {
+  it("should store users and find them by id and email", () => {
+    const storage = createStorage();
+    const user = {
+      id: "user-1",
+      email: "alice@example.com",
+      passwordHash: "hash",
+      emailVerified: false,
+      createdAt: new Date(0).toISOString(),
+    };
+
+    storage.createUser(user);
+    expect(storage.getUserById("user-1")).toEqual(user);
+    expect(storage.getUserByEmail("alice@example.com")).toEqual(user);
+    expect(storage.getUserByEmail("bob@example.com")).toBeNull();
+    expect(() => storage.createUser({ ...user, id: "user-2" })).toThrow();
+
+    const updated = { ...user, passwordHash: "new-hash", emailVerified: true };
+    storage.updateUser(updated);
+    expect(storage.getUserByEmail("alice@example.com")).toEqual(updated);
+  });
+
+  it("should keep usernames unique and find users by them", () => {
+    const storage = createStorage();
+    const user = (id: string, email: string) => ({
+      id,
+      email,
+      passwordHash: "hash",
+      emailVerified: true,
+      createdAt: new Date(0).toISOString(),
+    });
+    storage.createUser(user("user-1", "alice@example.com"));
+    storage.createUser(user("user-2", "bob@example.com"));
+
+    const named = {
+      ...user("user-1", "alice@example.com"),
+      username: "alice",
+      displayName: "Alice",
+      avatar: "data:,",
+      readReceipts: false,
+    };
+    storage.updateUser(named);
+    expect(storage.getUserByUsername("alice")).toEqual(named);
+    expect(() =>
+      storage.updateUser({
+        ...user("user-2", "bob@example.com"),
+        username: "alice",
+      }),
+    ).toThrow();
+
+    storage.updateUser({ ...named, username: "alice2" });
+    expect(storage.getUserByUsername("alice")).toBeNull();
+    expect(storage.getUserByUsername("alice2")?.id).toBe("user-1");
+  });
+
+  it("should keep email tokens per purpose until used or expired", () => {
+    const storage = createStorage();
+    const token = (
+      tokenHash: string,
+      purpose: "verify_email" | "reset_password",
+      expiresAt: string,
+    ) => ({
+      tokenHash,
+      userId: "user-1",
+      purpose,
+      createdAt: "2025-01-01T00:00:00.000Z",
+      expiresAt,
+    });
+
+    storage.saveEmailToken(
+      token("verify", "verify_email", "2025-01-02T00:00:00.000Z"),
+    );
+    storage.saveEmailToken(
+      token("reset", "reset_password", "2025-01-01T00:30:00.000Z"),
+    );
+    expect(storage.getEmailToken("verify")?.purpose).toBe("verify_email");
+
+    storage.deleteExpiredEmailTokens("2025-01-01T01:00:00.000Z");
+    expect(storage.getEmailToken("reset")).toBeNull();
+    storage.deleteEmailTokensForUser("user-1", "reset_password");
+    expect(storage.getEmailToken("verify")).not.toBeNull();
+    storage.deleteEmailTokensForUser("user-1", "verify_email");
+    expect(storage.getEmailToken("verify")).toBeNull();
+  });
+
+  it("should list sessions by latest activity and drop expired ones", () => {
+    const storage = createStorage();
+    const session = (
+      sessionId: string,
+      lastActive: string,
+      expiresAt: string,
+    ) => ({
+      sessionId,
+      userId: "user-1",
+      deviceId: `device-${sessionId}`,
+      refreshTokenHash: "hash",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      lastActive,
+      expiresAt,
+    });
+
+    const laptop = {
+      ...session("s1", "2025-01-02T00:00:00.000Z", "2025-02-01T00:00:00.000Z"),
+      userAgent: "Firefox",
+    };
+    storage.saveSession(laptop);
+    storage.saveSession(
+      session("s2", "2025-01-03T00:00:00.000Z", "2025-01-10T00:00:00.000Z"),
+    );
+    expect(storage.getSession("s1")).toEqual(laptop);
+    expect(
+      storage.getSessionsForUser("user-1").map((s) => s.sessionId),
+    ).toEqual(["s2", "s1"]);
+
+    storage.saveSession({
+      ...laptop,
+      refreshTokenHash: "rotated",
+      lastActive: "2025-01-04T00:00:00.000Z",
+    });
+    expect(
+      storage.getSessionsForUser("user-1").map((s) => s.sessionId),
+    ).toEqual(["s1", "s2"]);
+    expect(storage.getSession("s1")?.refreshTokenHash).toBe("rotated");
+
+    storage.deleteExpiredSessions("2025-01-15T00:00:00.000Z");
+    expect(storage.getSession("s2")).toBeNull();
+    storage.deleteSession("s1");
+    expect(storage.getSessionsForUser("user-1")).toEqual([]);
+  });
+
+  it("should store two-factor settings with their recovery codes", () => {
+    const storage = createStorage();
+    const twoFactor = {
+      userId: "user-1",
+      secret: "JBSWY3DPEHPK3PXP",
+      enabled: false,
+      recoveryCodeHashes: [],
+      failedAttempts: 0,
+      createdAt: "2025-01-01T00:00:00.000Z",
+    };
+
+    storage.saveTwoFactor(twoFactor);
+    expect(storage.getTwoFactor("user-1")).toEqual(twoFactor);
+
+    const enabled = {
+      ...twoFactor,
+      enabled: true,
+      recoveryCodeHashes: ["a", "b"],
+      lastUsedStep: 42,
+    };
+    storage.saveTwoFactor(enabled);
+    expect(storage.getTwoFactor("user-1")).toEqual(enabled);
+
+    storage.deleteTwoFactor("user-1");
+    expect(storage.getTwoFactor("user-1")).toBeNull();
+  });
+
+  it("should hand out each one-time prekey once, oldest first", () => {
+    const storage = createStorage();
+    const bundle = {
+      userId: "user-1",
+      identityKey: "identity",
+      signingKey: "signing",
+      identitySignature: "signature",
+      signedPreKey: {
+        keyId: 1,
+        publicKey: "signed",
+        signature: "signed-signature",
+      },
+      oneTimePreKeys: [
+        { keyId: 2, publicKey: "two" },
+        { keyId: 3, publicKey: "three" },
+      ],
+    };
+
+    storage.savePreKeys(bundle);
+    expect(storage.getPreKeys("user-1")).toEqual(bundle);
+    expect(storage.takeOneTimePreKey("user-1")).toEqual({
+      keyId: 2,
+      publicKey: "two",
+    });
+    expect(storage.getPreKeys("user-1")?.oneTimePreKeys).toEqual([
+      { keyId: 3, publicKey: "three" },
+    ]);
+    expect(storage.takeOneTimePreKey("user-1")?.keyId).toBe(3);
+    expect(storage.takeOneTimePreKey("user-1")).toBeNull();
+    expect(storage.takeOneTimePreKey("user-2")).toBeNull();
+
+    storage.savePreKeys({
+      ...bundle,
+      oneTimePreKeys: [{ keyId: 4, publicKey: "four" }],
+    });
+    expect(
+      storage.getPreKeys("user-1")?.oneTimePreKeys.map((key) => key.keyId),
+    ).toEqual([4]);
+    storage.deletePreKeys("user-1");
+    expect(storage.getPreKeys("user-1")).toBeNull();
+  });
+
+  it("should expire pairing codes and find them by nameplate", () => {
+    const storage = createStorage();
+    storage.savePairingCode({
+      code: "OLDC123456",
+      userId: "user-1",
+      expiresAt: "2020-01-01T00:00:00.000Z",
+      isUsed: false,
+      attemptsRemaining: 5,
+    });
+    storage.savePairingCode({
+      code: "NEWC123456",
+      userId: "user-1",
+      expiresAt: "2030-01-01T00:00:00.000Z",
+      isUsed: false,
+      attemptsRemaining: 5,
+    });
+
+    storage.deleteExpiredPairingCodes("2025-01-01T00:00:00.000Z");
+    expect(storage.getPairingCode("OLDC123456")).toBeNull();
+    expect(storage.getPairingCode("NEWC123456")?.userId).toBe("user-1");
+    expect(storage.getPairingCodeByNameplate("NEWC")?.attemptsRemaining).toBe(
+      5,
+    );
+    expect(storage.getPairingCodeByNameplate("NEWX")).toBeNull();
+  });
+
+  it("should only change connections when they are saved", () => {
+    const storage = createStorage();
+    storage.saveConnection({
+      id: "conn-1",
+      userId1: "user-1",
+      userId2: "user-2",
+      createdAt: new Date(0).toISOString(),
+      isActive: true,
+    });
+
+    const connection = storage.getConnection("conn-1")!;
+    connection.isActive = false;
+    expect(storage.getConnection("conn-1")?.isActive).toBe(true);
+
+    storage.saveConnection(connection);
+    expect(storage.getConnection("conn-1")?.isActive).toBe(false);
+  });
+
+  it("should keep many connections per user", () => {
+    const storage = createStorage();
+    const connect = (
+      id: string,
+      userId1: string,
+      userId2: string,
+      createdAt: string,
+    ) =>
+      storage.saveConnection({
+        id,
+        userId1,
+        userId2,
+        createdAt,
+        isActive: true,
+      });
+
+    connect("conn-1", "user-1", "user-2", "2025-01-01T00:00:00.000Z");
+    connect("conn-2", "user-3", "user-1", "2025-01-02T00:00:00.000Z");
+    connect("conn-3", "user-2", "user-3", "2025-01-03T00:00:00.000Z");
+
+    expect(storage.getConnectionsForUser("user-1").map((c) => c.id)).toEqual([
+      "conn-2",
+      "conn-1",
+    ]);
+    expect(storage.findConnection("user-1", "user-3")?.id).toBe("conn-2");
+    expect(storage.findConnection("user-3", "user-1")?.id).toBe("conn-2");
+    expect(storage.findConnection("user-1", "user-4")).toBeNull();
+
+    storage.saveConnection({
+      ...storage.getConnection("conn-1")!,
+      isActive: false,
+    });
+    expect(storage.getConnectionsForUser("user-1").map((c) => c.id)).toEqual([
+      "conn-2",
+    ]);
+  });
+
+  it("should store groups and their members", () => {
+    const storage = createStorage();
+    const group = {
+      id: "group-1",
+      name: "Team",
+      createdBy: "user-1",
+      createdAt: new Date(0).toISOString(),
+      settings: {
+        allowMemberInvites: true,
+        requireAdminApproval: false,
+        allowMemberMessages: true,
+        encryptionLevel: "standard" as const,
+        allowNameChange: false,
+      },
+    };
+    const member = (userId: string, joinedAt: string) => ({
+      groupId: "group-1",
+      userId,
+      role: "member" as const,
+      status: "active" as const,
+      permissions: {
+        canInvite: true,
+        canRemoveMembers: false,
+        canEditGroup: false,
+        canDeleteMessages: false,
+      },
+      joinedAt,
+    });
+
+    storage.saveGroup(group);
+    storage.saveGroupMember(member("user-2", "2025-01-02T00:00:00.000Z"));
+    storage.saveGroupMember({
+      ...member("user-1", "2025-01-01T00:00:00.000Z"),
+      role: "admin",
+    });
+    expect(storage.getGroup("group-1")).toEqual(group);
+    expect(storage.getGroupMembers("group-1").map((m) => m.userId)).toEqual([
+      "user-1",
+      "user-2",
+    ]);
+    expect(storage.getGroupMember("group-1", "user-1")?.role).toBe("admin");
+    expect(storage.getGroupMembershipsForUser("user-2")).toEqual([
+      member("user-2", "2025-01-02T00:00:00.000Z"),
+    ]);
+
+    storage.deleteGroupMember("group-1", "user-2");
+    expect(storage.getGroupMember("group-1", "user-2")).toBeNull();
+
+    storage.deleteGroup("group-1");
+    expect(storage.getGroup("group-1")).toBeNull();
+    expect(storage.getGroupMembershipsForUser("user-1")).toEqual([]);
+  });
+
+  it("should store invite codes without their metadata", () => {
+    const storage = createStorage();
+    const invite = (code: string, createdAt: string, expiresAt: string) => ({
+      code,
+      type: "friend" as const,
+      createdBy: "user-1",
+      createdAt,
+      expiresAt,
+      maxUses: 10,
+      currentUses: 0,
+    });
+
+    const expiring = invite(
+      "OLDCODE123",
+      "2025-01-01T00:00:00.000Z",
+      "2025-01-02T00:00:00.000Z",
+    );
+    storage.saveInviteCode({
+      ...expiring,
+      metadata: { creator: { id: "user-1" } },
+    });
+    storage.saveInviteCode(
+      invite(
+        "NEWCODE123",
+        "2025-01-03T00:00:00.000Z",
+        "2030-01-01T00:00:00.000Z",
+      ),
+    );
+    expect(storage.getInviteCode("OLDCODE123")).toEqual(expiring);
+    expect(storage.getInviteCodesForUser("user-1").map((i) => i.code)).toEqual([
+      "NEWCODE123",
+      "OLDCODE123",
+    ]);
+
+    storage.saveInviteCode({
+      ...storage.getInviteCode("NEWCODE123")!,
+      currentUses: 1,
+    });
+    expect(storage.getInviteCode("NEWCODE123")?.currentUses).toBe(1);
+
+    storage.deleteExpiredInviteCodes("2025-01-15T00:00:00.000Z");
+    expect(storage.getInviteCode("OLDCODE123")).toBeNull();
+    storage.deleteInviteCode("NEWCODE123");
+    expect(storage.getInviteCodesForUser("user-1")).toEqual([]);
+  });
+
+  it("should store friend requests per direction and one-way blocks", () => {
+    const storage = createStorage();
+    const request = (
+      id: string,
+      fromUserId: string,
+      toUserId: string,
+      createdAt: string,
+    ) => ({
+      id,
+      fromUserId,
+      toUserId,
+      createdAt,
+    });
+
+    const first = request(
+      "req-1",
+      "user-1",
+      "user-2",
+      "2025-01-01T00:00:00.000Z",
+    );
+    storage.saveFriendRequest({
+      ...first,
+      to: { id: "user-2", username: "bob" },
+    });
+    storage.saveFriendRequest(
+      request("req-2", "user-3", "user-2", "2025-01-02T00:00:00.000Z"),
+    );
+    expect(storage.getFriendRequest("req-1")).toEqual(first);
+    expect(storage.findFriendRequest("user-1", "user-2")?.id).toBe("req-1");
+    expect(storage.findFriendRequest("user-2", "user-1")).toBeNull();
+    expect(
+      storage.getIncomingFriendRequests("user-2").map((r) => r.id),
+    ).toEqual(["req-1", "req-2"]);
+    expect(
+      storage.getOutgoingFriendRequests("user-1").map((r) => r.id),
+    ).toEqual(["req-1"]);
+
+    storage.deleteFriendRequest("req-1");
+    expect(
+      storage.getIncomingFriendRequests("user-2").map((r) => r.id),
+    ).toEqual(["req-2"]);
+
+    storage.saveBlock({
+      blockerId: "user-2",
+      blockedId: "user-3",
+      createdAt: "2025-01-03T00:00:00.000Z",
+    });
+    expect(storage.getBlock("user-2", "user-3")?.createdAt).toBe(
+      "2025-01-03T00:00:00.000Z",
+    );
+    expect(storage.getBlock("user-3", "user-2")).toBeNull();
+    expect(storage.getBlocksForUser("user-2").map((b) => b.blockedId)).toEqual([
+      "user-3",
+    ]);
+
+    storage.deleteBlock("user-2", "user-3");
+    expect(storage.getBlocksForUser("user-2")).toEqual([]);
+  });
+
+  it("should return queued messages oldest first and drop expired ones", () => {
+    const storage = createStorage();
+    const queued = (id: string, createdAt: string, expiresAt: string) => ({
+      id,
+      senderId: "user-1",
+      recipientId: "user-2",
+      content: { v: 4, ciphertext: id },
+      type: "text",
+      createdAt,
+      expiresAt,
+    });
+
+    storage.enqueueMessage(
+      queued("a", "2025-01-01T00:00:00.000Z", "2025-01-02T00:00:00.000Z"),
+    );
+    storage.enqueueMessage(
+      queued("b", "2025-01-01T00:00:01.000Z", "2025-02-01T00:00:00.000Z"),
+    );
+    storage.enqueueMessage({
+      ...queued("c", "2025-01-01T00:00:02.000Z", "2025-02-01T00:00:00.000Z"),
+      replyTo: "a",
+    });
+
+    expect(storage.getQueuedMessages("user-2").map((m) => m.id)).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+    expect(storage.getQueuedMessages("user-2")[0].content).toEqual({
+      v: 4,
+      ciphertext: "a",
+    });
+    expect(storage.getQueuedMessages("user-2")[0].replyTo).toBeUndefined();
+    expect(storage.getQueuedMessage("c")?.replyTo).toBe("a");
+    expect(storage.getQueuedMessages("user-1")).toEqual([]);
+    expect(
+      storage.getQueuedMessagesFromSender("user-1").map((m) => m.id),
+    ).toEqual(["a", "b", "c"]);
+
+    expect(storage.getQueuedMessage("b")?.recipientId).toBe("user-2");
+    expect(
+      storage
+        .deleteExpiredQueuedMessages("2025-01-15T00:00:00.000Z")
+        .map((m) => m.id),
+    ).toEqual(["a"]);
+    storage.deleteQueuedMessage("b");
+    expect(storage.getQueuedMessages("user-2").map((m) => m.id)).toEqual(["c"]);
+  });
+
+  it("should delete everything kept for a user along with them", () => {
+    const storage = createStorage();
+    const createdAt = "2025-01-01T00:00:00.000Z";
+    const expiresAt = "2025-02-01T00:00:00.000Z";
+    for (const id of ["user-1", "user-2"]) {
+      storage.createUser({
+        id,
+        email: `${id}@example.com`,
+        passwordHash: "hash",
+        emailVerified: true,
+        createdAt,
+      });
+    }
+
+    storage.saveConnection({
+      id: "conn-1",
+      userId1: "user-2",
+      userId2: "user-1",
+      createdAt,
+      isActive: true,
+    });
+    storage.savePairingCode({
+      code: "ABCDEFGHJK",
+      userId: "user-1",
+      expiresAt,
+      isUsed: false,
+      attemptsRemaining: 5,
+    });
+    storage.savePreKeys({
+      userId: "user-1",
+      identityKey: "identity",
+      signingKey: "signing",
+      identitySignature: "signature",
+      signedPreKey: {
+        keyId: 1,
+        publicKey: "signed",
+        signature: "signed-signature",
+      },
+      oneTimePreKeys: [{ keyId: 2, publicKey: "two" }],
+    });
+    storage.saveFriendRequest({
+      id: "req-1",
+      fromUserId: "user-2",
+      toUserId: "user-1",
+      createdAt,
+    });
+    storage.saveBlock({ blockerId: "user-1", blockedId: "user-2", createdAt });
+    storage.saveInviteCode({
+      code: "INVITE01",
+      type: "friend",
+      createdBy: "user-1",
+      createdAt,
+      expiresAt,
+      maxUses: 10,
+      currentUses: 0,
+    });
+    const message = {
+      senderId: "user-1",
+      recipientId: "user-2",
+      content: "hi",
+      type: "text",
+      createdAt,
+      expiresAt,
+    };
+    storage.enqueueMessage({ ...message, id: "sent" });
+    storage.enqueueMessage({
+      ...message,
+      id: "received",
+      senderId: "user-2",
+      recipientId: "user-1",
+    });
+
+    storage.deleteUser("user-1");
+
+    expect(storage.getUserById("user-1")).toBeNull();
+    expect(storage.getUserByEmail("user-1@example.com")).toBeNull();
+    expect(storage.getConnectionsForUser("user-2")).toEqual([]);
+    expect(storage.getPairingCode("ABCDEFGHJK")).toBeNull();
+    expect(storage.getPreKeys("user-1")).toBeNull();
+    expect(storage.getIncomingFriendRequests("user-1")).toEqual([]);
+    expect(storage.getBlock("user-1", "user-2")).toBeNull();
+    expect(storage.getInviteCode("INVITE01")).toBeNull();
+    expect(storage.getQueuedMessages("user-2")).toEqual([]);
+    expect(storage.getUserById("user-2")).not.toBeNull();
+  });
+});
+
+describe("runMigrations", () => {
+  it("should apply every migration once", () => {
+    const db = new Database(":memory:");
+    const latest = migrations[migrations.length - 1].version;
+
+    expect(runMigrations(db)).toBe(latest);
+    expect(runMigrations(db)).toBe(latest);
+    db.close();
+  });
+});
@@ -0,0 +1,173 @@
+import {
+  ChatGroup,
+  ChatGroupMember,
+  Connection,
+  FriendRequest,
+  InviteCode,
+  OneTimePreKey,
+  PairingCode,
+  Session,
+  SignedPreKey,
+  User,
+  UserBlock,
+} from "@shared/api";
+
+export interface StoredUser extends User {
+  passwordHash: string;
+}
+
+export type EmailTokenPurpose = "verify_email" | "reset_password";
+
+// A single-use token sent by email. Only its hash is kept, so the links in
+// sent mail can't be rebuilt from the database.
+export interface StoredEmailToken {
+  tokenHash: string;
+  userId: string;
+  purpose: EmailTokenPurpose;
+  createdAt: string;
+  expiresAt: string;
+}
+
+// A user's TOTP second factor. It only guards sign-in once `enabled`, which
+// happens when the first code from the authenticator app checks out.
+export interface StoredTwoFactor {
+  userId: string;
+  secret: string; // Base32, as shown to the authenticator app
+  enabled: boolean;
+  recoveryCodeHashes: string[]; // SHA-256 of each unused recovery code
+  lastUsedStep?: number; // Newest TOTP time step accepted, so codes can't be replayed
+  failedAttempts: number; // Wrong codes since the last right one
+  lockedUntil?: string;
+  createdAt: string;
+}
+
+export interface StoredSession extends Omit<Session, "isCurrent"> {
+  refreshTokenHash: string; // SHA-256 of the current refresh token's secret
+}
+
+// A user's published X3DH keys. Each one-time prekey is handed out once,
+// oldest first, then forgotten.
+export interface StoredPreKeys {
+  userId: string;
+  identityKey: string;
+  signingKey: string;
+  identitySignature: string;
+  signedPreKey: SignedPreKey;
+  oneTimePreKeys: OneTimePreKey[];
+}
+
+// A message held for a recipient who wasn't online to receive it
+export interface QueuedMessage {
+  id: string;
+  senderId: string;
+  recipientId: string;
+  content: string | object; // Encrypted envelope or plain string, stored as-is
+  type: string;
+  groupId?: string; // Set on each member's copy of a group message
+  replyTo?: string; // The message a plaintext message replies to; envelopes carry their own
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Everything the server persists. Route handlers go through this interface
+ * (via getStorage) rather than holding their own Maps, so the backend can be
+ * swapped by config and tests can inject their own.
+ *
+ * Methods are synchronous: both implementations answer without I/O waits
+ * (better-sqlite3 is synchronous), and the socket middleware looks users up
+ * inline.
+ */
+export interface Storage {
+  // Users
+  createUser(user: StoredUser): void;
+  getUserById(id: string): StoredUser | null;
+  getUserByEmail(email: string): StoredUser | null;
+  getUserByUsername(username: string): StoredUser | null; // Usernames are unique
+  updateUser(user: StoredUser): void;
+  // Also deletes everything kept for the user: email tokens, sessions, two-factor
+  // settings, prekeys, pairing codes, connections, group memberships, invite
+  // codes, friend requests, blocks either way and queued messages to or from
+  // them
+  deleteUser(id: string): void;
+
+  // Email tokens
+  saveEmailToken(token: StoredEmailToken): void;
+  getEmailToken(tokenHash: string): StoredEmailToken | null;
+  deleteEmailToken(tokenHash: string): void;
+  deleteEmailTokensForUser(userId: string, purpose: EmailTokenPurpose): void;
+  deleteExpiredEmailTokens(now: string): void;
+
+  // Sessions, newest activity first
+  saveSession(session: StoredSession): void;
+  getSession(id: string): StoredSession | null;
+  getSessionsForUser(userId: string): StoredSession[];
+  deleteSession(id: string): void;
+  deleteExpiredSessions(now: string): void;
+
+  // Two-factor settings, one record per user
+  saveTwoFactor(twoFactor: StoredTwoFactor): void;
+  getTwoFactor(userId: string): StoredTwoFactor | null;
+  deleteTwoFactor(userId: string): void;
+
+  // Prekeys, one bundle per user. Saving replaces the whole bundle.
+  savePreKeys(preKeys: StoredPreKeys): void;
+  getPreKeys(userId: string): StoredPreKeys | null;
+  takeOneTimePreKey(userId: string): OneTimePreKey | null; // Removes the oldest
+  deletePreKeys(userId: string): void;
+
+  // Pairing codes
+  savePairingCode(pairingCode: PairingCode): void;
+  getPairingCode(code: string): PairingCode | null;
+  getPairingCodeByNameplate(nameplate: string): PairingCode | null; // The code starting with it
+  deletePairingCode(code: string): void;
+  deleteExpiredPairingCodes(now: string): void;
+
+  // Connections. A user can be connected to any number of others, with at
+  // most one connection per pair.
+  saveConnection(connection: Connection): void;
+  getConnection(id: string): Connection | null;
+  deleteConnection(id: string): void;
+  getConnectionsForUser(userId: string): Connection[]; // Active only, newest first
+  findConnection(userIdA: string, userIdB: string): Connection | null;
+
+  // Groups. Deleting a group deletes its memberships.
+  saveGroup(group: ChatGroup): void;
+  getGroup(id: string): ChatGroup | null;
+  deleteGroup(id: string): void;
+  saveGroupMember(member: ChatGroupMember): void;
+  getGroupMember(groupId: string, userId: string): ChatGroupMember | null;
+  getGroupMembers(groupId: string): ChatGroupMember[]; // Oldest membership first
+  getGroupMembershipsForUser(userId: string): ChatGroupMember[];
+  deleteGroupMember(groupId: string, userId: string): void;
+
+  // Invite codes. Metadata is filled in when a code is shown, not stored.
+  saveInviteCode(invite: InviteCode): void;
+  getInviteCode(code: string): InviteCode | null;
+  getInviteCodesForUser(userId: string): InviteCode[]; // Newest first
+  deleteInviteCode(code: string): void;
+  deleteExpiredInviteCodes(now: string): void;
+
+  // Friend requests, at most one per direction between two users, oldest
+  // first. Blocks are one-way.
+  saveFriendRequest(request: FriendRequest): void;
+  getFriendRequest(id: string): FriendRequest | null;
+  findFriendRequest(fromUserId: string, toUserId: string): FriendRequest | null;
+  getIncomingFriendRequests(userId: string): FriendRequest[];
+  getOutgoingFriendRequests(userId: string): FriendRequest[];
+  deleteFriendRequest(id: string): void;
+  saveBlock(block: UserBlock): void;
+  getBlock(blockerId: string, blockedId: string): UserBlock | null;
+  getBlocksForUser(blockerId: string): UserBlock[];
+  deleteBlock(blockerId: string, blockedId: string): void;
+
+  // Queued messages, oldest first
+  enqueueMessage(message: QueuedMessage): void;
+  getQueuedMessage(id: string): QueuedMessage | null;
+  getQueuedMessages(recipientId: string): QueuedMessage[];
+  getQueuedMessagesFromSender(senderId: string): QueuedMessage[];
+  deleteQueuedMessage(id: string): void;
+  deleteExpiredQueuedMessages(now: string): QueuedMessage[]; // Returns what was removed
+
+  close(): void;
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { MemoryStorage, getStorage, setStorage } from "./storage";
+import { ApiError } from "./errors";
+import {
+  MAX_FAILED_ATTEMPTS,
+  RECOVERY_CODE_COUNT,
+  beginTwoFactorSetup,
+  disableTwoFactor,
+  enableTwoFactor,
+  generateTotp,
+  getTwoFactorStatus,
+  isTwoFactorEnabled,
+  verifySecondFactor,
+} from "./twoFactor";
+
+const statusOf = (error: () => unknown) => {
+  try {
+    error();
+  } catch (caught) {
+    if (caught instanceof ApiError) return caught.status;
+    throw caught;
+  }
+  return null;
+};
+
+// 30 seconds, one TOTP time step
+const nextStep = () => vi.setSystemTime(Date.now() + 30 * 1000);
+
+describe("two-factor authentication", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T00:00:00.000Z"));
+    const storage = new MemoryStorage();
+    storage.createUser({
+      id: "alice",
+      email: "alice@example.com",
+      passwordHash: "hash",
+      emailVerified: true,
+      createdAt: new Date(0).toISOString(),
+    });
+    setStorage(storage);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should match the RFC 6238 SHA-1 test vector", () => {
+    // Base32 of the RFC's "12345678901234567890" secret, at T = 59s
+    expect(generateTotp("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ", 1)).toBe("287082");
+  });
+
+  it("should only enable 2FA once a code from the app checks out", () => {
+    const { secret, otpauthUri } = beginTwoFactorSetup("alice");
+    expect(otpauthUri).toContain(`secret=${secret}`);
+    expect(otpauthUri).toContain(
+      encodeURIComponent("SecureChat:alice@example.com"),
+    );
+    expect(isTwoFactorEnabled("alice")).toBe(false);
+
+    expect(statusOf(() => enableTwoFactor("alice", "000000"))).toBe(400);
+    const recoveryCodes = enableTwoFactor("alice", generateTotp(secret));
+
+    expect(recoveryCodes).toHaveLength(RECOVERY_CODE_COUNT);
+    expect(getTwoFactorStatus("alice")).toEqual({
+      enabled: true,
+      recoveryCodesRemaining: RECOVERY_CODE_COUNT,
+    });
+    expect(statusOf(() => beginTwoFactorSetup("alice"))).toBe(409);
+  });
+
+  it("should refuse a code that was already used", () => {
+    const { secret } = beginTwoFactorSetup("alice");
+    enableTwoFactor("alice", generateTotp(secret));
+    nextStep();
+
+    const code = generateTotp(secret);
+    verifySecondFactor("alice", code);
+    expect(statusOf(() => verifySecondFactor("alice", code))).toBe(401);
+  });
+
+  it("should accept each recovery code once, typed loosely", () => {
+    const { secret } = beginTwoFactorSetup("alice");
+    const [first] = enableTwoFactor("alice", generateTotp(secret));
+
+    verifySecondFactor("alice", first.replace("-", "").toLowerCase());
+    expect(statusOf(() => verifySecondFactor("alice", first))).toBe(401);
+    expect(getTwoFactorStatus("alice").recoveryCodesRemaining).toBe(
+      RECOVERY_CODE_COUNT - 1,
+    );
+  });
+
+  it("should lock the second step after too many wrong codes", () => {
+    const { secret } = beginTwoFactorSetup("alice");
+    enableTwoFactor("alice", generateTotp(secret));
+    nextStep();
+
+    for (let attempt = 0; attempt < MAX_FAILED_ATTEMPTS; attempt++) {
+      expect(statusOf(() => verifySecondFactor("alice", "000000"))).toBe(401);
+    }
+    expect(
+      statusOf(() => verifySecondFactor("alice", generateTotp(secret))),
+    ).toBe(429);
+  });
+
+  it("should need a valid code to turn 2FA off", () => {
+    const { secret } = beginTwoFactorSetup("alice");
+    enableTwoFactor("alice", generateTotp(secret));
+    nextStep();
+
+    expect(statusOf(() => disableTwoFactor("alice", "not a code"))).toBe(401);
+    disableTwoFactor("alice", generateTotp(secret));
+    expect(getStorage().getTwoFactor("alice")).toBeNull();
+  });
+});
@@ -0,0 +1,270 @@
+import {
+  createHash,
+  createHmac,
+  randomBytes,
+  randomInt,
+  timingSafeEqual,
+} from "crypto";
+import { getStorage, StoredTwoFactor } from "./storage";
+import { ApiError } from "./errors";
+
+const TOTP_ISSUER = "SecureChat";
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept the codes either side of the current one, for clock drift
+const TOTP_WINDOW_STEPS = 1;
+
+export const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // No 0/O or 1/I
+const RECOVERY_CODE_LENGTH = 10;
+
+export const MAX_FAILED_ATTEMPTS = 5;
+export const LOCKOUT_MINUTES = 15;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+// RFC 4648 base32 without padding, which is what authenticator apps expect
+const base32Encode = (bytes: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+const base32Decode = (encoded: string): Buffer => {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of encoded) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+const currentStep = () => Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+
+/**
+ * The code for one time step (RFC 6238 over RFC 4226's HOTP, with SHA-1 as
+ * authenticator apps assume)
+ */
+export const generateTotp = (secret: string, step = currentStep()): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", base32Decode(secret))
+    .update(counter)
+    .digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+};
+
+const hashRecoveryCode = (code: string) =>
+  createHash("sha256").update(code).digest("hex");
+
+// People type recovery codes with or without the dash, in any case
+const normalizeRecoveryCode = (code: string) =>
+  code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+const generateRecoveryCodes = (): string[] =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = Array.from(
+      { length: RECOVERY_CODE_LENGTH },
+      () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)],
+    ).join("");
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+const requireEnabled = (userId: string): StoredTwoFactor => {
+  const twoFactor = getStorage().getTwoFactor(userId);
+  if (!twoFactor?.enabled) {
+    throw new ApiError(409, "Two-factor authentication is not enabled");
+  }
+  return twoFactor;
+};
+
+// The time step the code belongs to, if it's current and not used before
+const matchTotp = (twoFactor: StoredTwoFactor, code: string): number | null => {
+  if (!/^\d{6}$/.test(code)) return null;
+
+  const now = currentStep();
+  for (
+    let step = now - TOTP_WINDOW_STEPS;
+    step <= now + TOTP_WINDOW_STEPS;
+    step++
+  ) {
+    if (twoFactor.lastUsedStep !== undefined && step <= twoFactor.lastUsedStep)
+      continue;
+    const expected = Buffer.from(generateTotp(twoFactor.secret, step));
+    if (timingSafeEqual(expected, Buffer.from(code))) return step;
+  }
+  return null;
+};
+
+export const isTwoFactorEnabled = (userId: string): boolean =>
+  !!getStorage().getTwoFactor(userId)?.enabled;
+
+export const getTwoFactorStatus = (userId: string) => {
+  const twoFactor = getStorage().getTwoFactor(userId);
+  return {
+    enabled: !!twoFactor?.enabled,
+    recoveryCodesRemaining: twoFactor?.enabled
+      ? twoFactor.recoveryCodeHashes.length
+      : 0,
+  };
+};
+
+/**
+ * Start (or restart) enrollment with a fresh secret. Nothing changes at
+ * sign-in until enableTwoFactor confirms the authenticator app has it.
+ */
+export const beginTwoFactorSetup = (userId: string) => {
+  const storage = getStorage();
+  if (storage.getTwoFactor(userId)?.enabled) {
+    throw new ApiError(409, "Two-factor authentication is already enabled");
+  }
+
+  const secret = base32Encode(randomBytes(20));
+  storage.saveTwoFactor({
+    userId,
+    secret,
+    enabled: false,
+    recoveryCodeHashes: [],
+    failedAttempts: 0,
+    createdAt: new Date().toISOString(),
+  });
+
+  const account = storage.getUserById(userId)?.email ?? userId;
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return { secret, otpauthUri: `otpauth://totp/${label}?${params}` };
+};
+
+/**
+ * Finish enrollment with the first code from the app. Returns the recovery
+ * codes, which are only ever shown this once.
+ */
+export const enableTwoFactor = (userId: string, code: unknown): string[] => {
+  const storage = getStorage();
+  const twoFactor = storage.getTwoFactor(userId);
+  if (!twoFactor) {
+    throw new ApiError(409, "Start two-factor setup first");
+  }
+  if (twoFactor.enabled) {
+    throw new ApiError(409, "Two-factor authentication is already enabled");
+  }
+
+  const step =
+    typeof code === "string" ? matchTotp(twoFactor, code.trim()) : null;
+  if (step === null) {
+    throw new ApiError(400, "Invalid code");
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  storage.saveTwoFactor({
+    ...twoFactor,
+    enabled: true,
+    lastUsedStep: step,
+    recoveryCodeHashes: recoveryCodes.map((recoveryCode) =>
+      hashRecoveryCode(normalizeRecoveryCode(recoveryCode)),
+    ),
+  });
+  return recoveryCodes;
+};
+
+/**
+ * Check a second factor: a code from the app, or a recovery code, which is
+ * used up. Too many wrong codes lock the account's second step for a while,
+ * since six digits don't take long to guess otherwise.
+ */
+export const verifySecondFactor = (userId: string, code: unknown) => {
+  const storage = getStorage();
+  const twoFactor = requireEnabled(userId);
+
+  if (twoFactor.lockedUntil && new Date(twoFactor.lockedUntil) > new Date()) {
+    throw new ApiError(429, "Too many wrong codes; try again later");
+  }
+
+  const entered = typeof code === "string" ? code.trim() : "";
+  const step = matchTotp(twoFactor, entered);
+  if (step !== null) {
+    storage.saveTwoFactor({
+      ...twoFactor,
+      lastUsedStep: step,
+      failedAttempts: 0,
+      lockedUntil: undefined,
+    });
+    return;
+  }
+
+  const recoveryHash = hashRecoveryCode(normalizeRecoveryCode(entered));
+  if (entered && twoFactor.recoveryCodeHashes.includes(recoveryHash)) {
+    storage.saveTwoFactor({
+      ...twoFactor,
+      recoveryCodeHashes: twoFactor.recoveryCodeHashes.filter(
+        (hash) => hash !== recoveryHash,
+      ),
+      failedAttempts: 0,
+      lockedUntil: undefined,
+    });
+    return;
+  }
+
+  const failedAttempts = twoFactor.failedAttempts + 1;
+  const locked = failedAttempts >= MAX_FAILED_ATTEMPTS;
+  storage.saveTwoFactor({
+    ...twoFactor,
+    failedAttempts: locked ? 0 : failedAttempts,
+    lockedUntil: locked
+      ? new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000).toISOString()
+      : twoFactor.lockedUntil,
+  });
+  throw new ApiError(401, "Invalid code");
+};
+
+export const disableTwoFactor = (userId: string, code: unknown) => {
+  verifySecondFactor(userId, code);
+  getStorage().deleteTwoFactor(userId);
+};
+
+/**
+ * Replace every recovery code, for when they've run low or leaked
+ */
+export const regenerateRecoveryCodes = (
+  userId: string,
+  code: unknown,
+): string[] => {
+  verifySecondFactor(userId, code);
+
+  const storage = getStorage();
+  const twoFactor = requireEnabled(userId);
+  const recoveryCodes = generateRecoveryCodes();
+  storage.saveTwoFactor({
+    ...twoFactor,
+    recoveryCodeHashes: recoveryCodes.map((recoveryCode) =>
+      hashRecoveryCode(normalizeRecoveryCode(recoveryCode)),
+    ),
+  });
+  return recoveryCodes;
+};
@@ -6,27 +6,209 @@
 export interface User {
   id: string;
   email: string;
+  emailVerified: boolean; // Unverified accounts can't pair with anyone yet
+  username?: string; // Unique handle, lowercase; chosen after signup
+  displayName?: string;
+  avatar?: string; // Image data URL
+  readReceipts?: boolean; // Whether contacts are told when messages are read; on unless turned off
   createdAt: string;
 }
 
 export interface AuthRequest {
   email: string;
   password: string;
+  deviceId?: string; // Names the session this sign-in starts
 }
 
 export interface AuthResponse {
   success: boolean;
   user?: User;
-  token?: string;
+  token?: string; // Short-lived access token
+  refreshToken?: string; // Rotates on every refresh
+  expiresIn?: number; // Seconds until the access token expires
+  // Set instead of the tokens when the password was right but the account
+  // needs a second factor; finish with TwoFactorLoginRequest
+  twoFactorRequired?: boolean;
+  challengeToken?: string;
   message?: string;
 }
 
+export interface TwoFactorLoginRequest {
+  challengeToken: string;
+  code: string; // From the authenticator app, or a recovery code
+  deviceId?: string;
+}
+
+// Two-factor authentication types
+export interface TwoFactorStatusResponse {
+  success: boolean;
+  enabled?: boolean;
+  recoveryCodesRemaining?: number;
+  message?: string;
+}
+
+// Setup is pending until a first code is confirmed with TwoFactorCodeRequest
+export interface TwoFactorSetupResponse {
+  success: boolean;
+  secret?: string; // Base32, for typing in by hand
+  otpauthUri?: string; // For a QR code
+  message?: string;
+}
+
+export interface TwoFactorCodeRequest {
+  code: string;
+}
+
+// Recovery codes are shown once, when 2FA is enabled or they're regenerated
+export interface RecoveryCodesResponse {
+  success: boolean;
+  recoveryCodes?: string[];
+  message?: string;
+}
+
+export interface VerifyEmailRequest {
+  token: string; // From the link in the verification email
+}
+
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string; // From the link in the reset email
+  password: string;
+}
+
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
+// A signed-in device. Access tokens name their session, so revoking a
+// session signs that device out straight away, socket included.
+export interface Session {
+  sessionId: string;
+  userId: string;
+  deviceId: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: string;
+  lastActive: string;
+  expiresAt: string; // When the refresh token stops working
+  isCurrent?: boolean; // Set when listed: the session making the request
+}
+
+export interface SessionListResponse {
+  success: boolean;
+  sessions?: Session[];
+  message?: string;
+}
+
+// Profile types. Strangers see a PublicProfile; the email address is only
+// filled in for people the user is connected to.
+export interface PublicProfile {
+  id: string;
+  username?: string;
+  displayName?: string;
+  avatar?: string;
+  email?: string;
+}
+
+// Fields left out stay as they are; null or an empty string clears the
+// display name or avatar. Handles can be changed but not removed.
+export interface UpdateProfileRequest {
+  username?: string;
+  displayName?: string | null;
+  avatar?: string | null;
+  readReceipts?: boolean;
+}
+
+export interface ProfileResponse {
+  success: boolean;
+  user?: User;
+  message?: string;
+}
+
+export interface HandleAvailabilityResponse {
+  success: boolean;
+  available?: boolean;
+  reason?: string; // Why the handle can't be used, when it can't
+  message?: string;
+}
+
+export interface PublicProfileResponse {
+  success: boolean;
+  profile?: PublicProfile;
+  message?: string;
+}
+
+export interface PublicProfileListResponse {
+  success: boolean;
+  profiles?: PublicProfile[];
+  message?: string;
+}
+
+// Deleting an account needs the password again, and a code when 2FA is on
+export interface DeleteAccountRequest {
+  password: string;
+  code?: string;
+}
+
+// Everything the server holds about an account. Message content is only
+// here while it waits for a recipient, and is still end-to-end encrypted.
+export interface AccountExport {
+  exportedAt: string;
+  user: User;
+  sessions: Session[];
+  twoFactor: { enabled: boolean; recoveryCodesRemaining: number };
+  connections: Connection[];
+  groups: ChatGroupDetails[];
+  inviteCodes: InviteCode[];
+  friendRequests: { incoming: FriendRequest[]; outgoing: FriendRequest[] };
+  blockedUsers: UserBlock[];
+  preKeys: {
+    identityKey: string;
+    signingKey: string;
+    signedPreKey: SignedPreKey;
+    oneTimePreKeys: OneTimePreKey[];
+  } | null;
+  queuedMessages: {
+    incoming: QueuedMessageExport[]; // Waiting for this user
+    outgoing: QueuedMessageExport[]; // Sent by this user, not yet delivered
+  };
+}
+
+export interface QueuedMessageExport {
+  id: string;
+  senderId: string;
+  recipientId: string;
+  groupId?: string;
+  type: string;
+  content: string | object;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface AccountExportResponse {
+  success: boolean;
+  export?: AccountExport;
+  message?: string;
+}
+
+// Socket `user_deleted` payload, sent to the deleted user's connections
+export interface UserDeletedNotice {
+  userId: string;
+}
+
 // Pairing system types
+// The first few characters of a code (its nameplate) are unique among live
+// codes and find it; the rest is the secret. Wrong secrets for a nameplate
+// use up that code's attempts.
 export interface PairingCode {
-  code: string;
+  code: string; // Without the dash it's shown with
   userId: string;
   expiresAt: string;
   isUsed: boolean;
+  attemptsRemaining: number;
 }
 
 export interface GenerateCodeResponse {
@@ -44,9 +226,16 @@ export interface ConnectCodeResponse {
   success: boolean;
   partnerId?: string;
   partnerEmail?: string;
+  connectionId?: string;
   message?: string;
 }
 
+// Omit both fields to disconnect from everyone
+export interface DisconnectRequest {
+  connectionId?: string;
+  partnerId?: string;
+}
+
 // Chat types
 export interface Connection {
   id: string;
@@ -56,12 +245,336 @@ export interface Connection {
   isActive: boolean;
 }
 
+// Group types. The server keeps rooms, membership and roles; message content
+// is relayed to the members without being read.
+export type GroupRole = "admin" | "member";
+
+// invited: waiting for the user to join; pending: joined, waiting for an admin
+// because the group requires approval
+export type GroupMemberStatus = "active" | "invited" | "pending";
+
+export interface GroupPermissions {
+  canInvite: boolean;
+  canRemoveMembers: boolean;
+  canEditGroup: boolean;
+  canDeleteMessages: boolean;
+}
+
+export interface GroupSettings {
+  allowMemberInvites: boolean;
+  requireAdminApproval: boolean;
+  allowMemberMessages: boolean;
+  encryptionLevel: "standard" | "enhanced";
+  allowNameChange: boolean;
+}
+
+export interface ChatGroup {
+  id: string;
+  name: string;
+  description?: string;
+  createdBy: string;
+  createdAt: string;
+  settings: GroupSettings;
+}
+
+// A member's published identity keys, from their prekey bundle. Group epoch
+// keys are wrapped to identityKey, and signingKey verifies what they send.
+export interface MemberKeys {
+  identityKey: string;
+  signingKey: string;
+  identitySignature: string; // Over signingKey, by identityKey
+}
+
+export interface ChatGroupMember {
+  groupId: string;
+  userId: string;
+  profile?: PublicProfile; // Filled in on responses
+  keys?: MemberKeys; // Filled in on responses, once the member has published prekeys
+  role: GroupRole;
+  status: GroupMemberStatus;
+  permissions: GroupPermissions;
+  invitedBy?: string;
+  joinedAt: string; // When the membership was created
+}
+
+export interface ChatGroupDetails extends ChatGroup {
+  members: ChatGroupMember[];
+}
+
+export interface CreateGroupRequest {
+  name: string;
+  description?: string;
+  memberIds: string[]; // Must be connected to the creator
+  settings?: Partial<GroupSettings>;
+}
+
+export interface UpdateGroupRequest {
+  name?: string;
+  description?: string;
+  settings?: Partial<GroupSettings>;
+}
+
+export interface InviteGroupMemberRequest {
+  userId: string;
+}
+
+export interface GroupResponse {
+  success: boolean;
+  group?: ChatGroupDetails | null; // null once the last member has left
+  message?: string;
+}
+
+export interface GroupListResponse {
+  success: boolean;
+  groups?: ChatGroupDetails[];
+  message?: string;
+}
+
+export type GroupChangeAction =
+  | "created"
+  | "updated"
+  | "invited"
+  | "joined"
+  | "requested"
+  | "approved"
+  | "left"
+  | "removed"
+  | "role_changed";
+
+// Socket `group_updated` payload, sent to the group and to anyone whose
+// membership the change affected
+export interface GroupUpdate {
+  groupId: string;
+  action: GroupChangeAction;
+  actorId: string;
+  userId?: string; // The member the change was about
+  group: ChatGroupDetails | null;
+}
+
+// Invite codes live on the server until they expire, run out of uses or are
+// revoked. Redeeming a friend code connects the redeemer to its creator; a
+// group code adds them to the group.
+export type InviteCodeType = "friend" | "group";
+
+export interface InviteCode {
+  code: string;
+  type: InviteCodeType;
+  createdBy: string;
+  groupId?: string;
+  createdAt: string;
+  expiresAt: string;
+  maxUses: number;
+  currentUses: number;
+  metadata?: {
+    creator?: PublicProfile;
+    groupName?: string;
+    encryptionLevel?: "standard" | "enhanced";
+  };
+}
+
+export interface CreateInviteRequest {
+  type: InviteCodeType;
+  groupId?: string; // Required for group codes
+  maxUses?: number;
+  expiresInHours?: number;
+}
+
+export interface InviteCodeResponse {
+  success: boolean;
+  invite?: InviteCode;
+  message?: string;
+}
+
+export interface InviteCodeListResponse {
+  success: boolean;
+  invites?: InviteCode[];
+  message?: string;
+}
+
+// Friend codes answer with the new connection, group codes with the group
+export interface RedeemInviteResponse {
+  success: boolean;
+  type?: InviteCodeType;
+  partnerId?: string;
+  partner?: PublicProfile;
+  connectionId?: string;
+  group?: ChatGroupDetails;
+  message?: string;
+}
+
+// Friend requests. Accepting one connects the two users; rejecting or
+// cancelling deletes it. Blocking someone drops their requests and stops new
+// ones.
+export interface FriendRequest {
+  id: string;
+  fromUserId: string;
+  toUserId: string;
+  createdAt: string;
+  // Filled in when the request is shown. The recipient's email isn't, until
+  // the two users are connected.
+  from?: PublicProfile;
+  to?: PublicProfile;
+}
+
+export interface UserBlock {
+  blockerId: string;
+  blockedId: string;
+  createdAt: string;
+  blocked?: PublicProfile; // Filled in when the block is shown
+}
+
+export interface SendFriendRequestRequest {
+  recipient: string; // The recipient's handle, with or without the @, or email address
+}
+
+export interface BlockUserRequest {
+  userId: string;
+}
+
+export interface FriendRequestResponse {
+  success: boolean;
+  request?: FriendRequest;
+  connectionId?: string; // Set once the two users are connected
+  message?: string;
+}
+
+export interface FriendRequestListResponse {
+  success: boolean;
+  incoming?: FriendRequest[];
+  outgoing?: FriendRequest[];
+  message?: string;
+}
+
+export interface BlockListResponse {
+  success: boolean;
+  blocks?: UserBlock[];
+  message?: string;
+}
+
+export type FriendRequestAction =
+  | "received"
+  | "accepted"
+  | "rejected"
+  | "cancelled";
+
+// Socket `friend_request_updated` payload, sent to the other side of the request
+export interface FriendRequestUpdate {
+  action: FriendRequestAction;
+  request: FriendRequest;
+  connectionId?: string;
+}
+
 export interface ChatMessage {
   id: string;
   senderId: string;
   content: string | MediaContent; // Can be text or media
   timestamp: string;
-  type: 'text' | 'image' | 'video' | 'file' | 'emoji' | 'typing' | 'status';
+  type: "text" | "image" | "video" | "file" | "emoji" | "typing" | "status";
+  deliveryStatus?: DeliveryStatus; // Own messages only
+  editedAt?: string;
+  editHistory?: MessageRevision[]; // Earlier versions, oldest first; kept only on this device
+  deletedAt?: string; // Deleted for everyone; the content is gone
+  deletedBy?: string; // Set when someone other than the sender deleted it
+  replyTo?: string; // The message this one replies to
+  reactions?: Record<string, string[]>; // Emoji to the IDs of who reacted with it
+}
+
+export interface MessageRevision {
+  content: string;
+  timestamp: string; // When this version was sent
+}
+
+// Where an own message is: waiting to go out (e.g. for an encryption
+// session), accepted by the server, held for an offline recipient, received,
+// read, refused by the server, or dropped after the queue TTL. In a group,
+// delivered and read mean by at least one member.
+export type DeliveryStatus =
+  | "sending"
+  | "sent"
+  | "queued"
+  | "delivered"
+  | "read"
+  | "failed"
+  | "expired";
+
+// Socket `send_message` (with a ConversationTarget) and `send_group_message`
+// (with groupId) payload
+export type OutgoingSocketMessage = {
+  messageId?: string; // Chosen by the sender, so sending again is a safe retry
+  content: string | object; // An encrypted envelope, or plaintext where allowed
+  type?: string;
+  groupId?: string;
+  replyTo?: string; // The message this replies to. Envelopes carry it in their aad instead.
+} & ConversationTarget;
+
+// Socket `edit_message` and `delete_message` payload. The content is a
+// MessageEdit or MessageDeletion, encrypted like any message; targetId is
+// repeated outside it for the relay.
+export type MessageChangeRequest = OutgoingSocketMessage & {
+  targetId: string;
+};
+
+// The content of an 'edit' message, once decrypted
+export interface MessageEdit {
+  targetId: string;
+  text: string;
+}
+
+// The content of a 'delete' message, once decrypted
+export interface MessageDeletion {
+  targetId: string;
+}
+
+// The content of a 'reaction' message, once decrypted. Reactions go through
+// send_message and send_group_message like any message.
+export interface MessageReaction {
+  targetId: string;
+  emoji: string;
+  remove?: boolean; // Taking the reaction back
+}
+
+// The content of a 'pin' message, once decrypted. In a group the relay only
+// takes them from members who can edit the group.
+export interface MessagePin {
+  targetId: string;
+  unpin?: boolean;
+}
+
+// A 'key_distribution' group message carries a new key epoch (a
+// GroupKeyDistribution, see client/utils/groupCrypto) in place of an
+// envelope. The relay only takes them from admins.
+
+// Socket `message_sent` payload, the server's answer to a send, edit or delete
+export interface MessageSentNotice {
+  success: boolean;
+  messageId?: string;
+  groupId?: string;
+  queued?: boolean; // Some recipient is offline; see expiresAt
+  expiresAt?: string;
+  message?: string; // Why it was refused
+}
+
+// Socket `message_delivered` and `message_expired` payload, sent to the sender
+export interface DeliveryNotice {
+  messageId: string;
+  groupId?: string;
+  recipientId?: string; // Which member, for group messages
+}
+
+// Socket `message_read`, sent by the reader. Messages are named by their
+// sender's ID: recipientId (or conversationId) for a 1:1 chat, or groupId
+// and senderId for a group.
+export type ReadReceiptRequest = {
+  messageIds: string[];
+  groupId?: string;
+  senderId?: string;
+} & ConversationTarget;
+
+// Socket `message_read` payload, sent on to the messages' sender
+export interface ReadReceiptNotice {
+  messageIds: string[];
+  readerId: string;
+  groupId?: string;
 }
 
 export interface MediaContent {
@@ -70,21 +583,35 @@ export interface MediaContent {
   fileSize: number;
   data: string; // Base64 or encrypted data
   thumbnail?: string; // For videos/images
+  fileKey?: string; // Per-file key when data is an EncryptedFile; only sent inside an encrypted envelope
 }
 
 export interface FileUpload {
   file: File;
-  type: 'image' | 'video' | 'file';
+  type: "image" | "video" | "file";
   thumbnail?: string;
 }
 
 // Real-time WebSocket message types
 export interface WebSocketMessage {
-  type: 'message' | 'typing' | 'user_connected' | 'user_disconnected' | 'error';
+  type:
+    | "message"
+    | "group_message"
+    | "typing"
+    | "user_connected"
+    | "user_disconnected"
+    | "error";
   data: any;
   timestamp: string;
 }
 
+// 1:1 socket events name their conversation by connection ID or by the
+// partner's user ID; the server relays only over an active connection
+export interface ConversationTarget {
+  conversationId?: string;
+  recipientId?: string;
+}
+
 // Encryption types (for client-side use)
 export interface EncryptionKeys {
   publicKey: string;
@@ -92,9 +619,27 @@ export interface EncryptionKeys {
 }
 
 export interface EncryptedMessage {
-  encryptedContent: string;
-  encryptedKey: string; // AES key encrypted with recipient's public key
-  iv: string; // Initialization vector for AES
+  v: number; // Wire format version, see ENCRYPTION_PROTOCOL_VERSION
+  alg: "AES-256-GCM";
+  nonce: string; // 96-bit GCM nonce, Base64
+  ciphertext: string; // Ciphertext with appended auth tag, Base64
+  aad: {
+    senderId: string;
+    messageId: string;
+    timestamp: string;
+    replyTo?: string; // The message this one replies to
+  };
+  header?: {
+    dh: string; // Sender's current ratchet public key
+    pn: number; // Length of the sender's previous sending chain
+    n: number; // Message number in the current sending chain
+  };
+  prekey?: {
+    identityKey: string; // Sender's identity key
+    ephemeralKey: string; // Sender's X3DH ephemeral key
+    signedPreKeyId: number;
+    oneTimePreKeyId?: number;
+  };
 }
 
 // API Response wrapper
@@ -106,11 +651,68 @@ export interface ApiResponse<T = any> {
 }
 
 // Connection status
+// partnerId/partnerEmail/connectionId describe the newest connection;
+// `connections` lists every active one, newest first
 export interface ConnectionStatus {
   isConnected: boolean;
   partnerId?: string;
   partnerEmail?: string;
   connectionId?: string;
+  connections?: ConnectionSummary[];
+}
+
+export interface ConnectionSummary {
+  connectionId: string;
+  partnerId: string;
+  partnerEmail?: string;
+  createdAt: string;
+}
+
+// Prekey bundle types (X3DH). All keys are Base64 SPKI P-256 public keys and
+// signatures are ECDSA P-256/SHA-256 by the bundle's signing key.
+export interface SignedPreKey {
+  keyId: number;
+  publicKey: string;
+  signature: string;
+}
+
+export interface OneTimePreKey {
+  keyId: number;
+  publicKey: string;
+}
+
+export interface PreKeyBundleUpload {
+  identityKey: string;
+  signingKey: string;
+  identitySignature: string; // Signature over signingKey, by identityKey
+  signedPreKey: SignedPreKey;
+  oneTimePreKeys: OneTimePreKey[];
+}
+
+export interface OneTimePreKeysUpload {
+  oneTimePreKeys: OneTimePreKey[];
+}
+
+export interface PreKeyBundle {
+  userId: string;
+  identityKey: string;
+  signingKey: string;
+  identitySignature: string;
+  signedPreKey: SignedPreKey;
+  oneTimePreKey?: OneTimePreKey; // Omitted once the user's stock is exhausted
+}
+
+export interface PreKeyBundleResponse {
+  success: boolean;
+  bundle?: PreKeyBundle;
+  message?: string;
+}
+
+export interface PreKeyCountResponse {
+  success: boolean;
+  count?: number;
+  lowStock?: boolean;
+  message?: string;
 }
 
 // Demo response (keep existing)
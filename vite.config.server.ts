@@ -32,6 +32,7 @@ export default defineConfig({
         // External dependencies that should not be bundled
         "express",
         "cors",
+        "better-sqlite3", // Native addon
       ],
       output: {
         format: "es",